@@ -0,0 +1,166 @@
+-- Two-Factor Authentication Setup
+-- Run this in your Supabase SQL Editor after database-admin-onboarding.sql
+--
+-- Admins can turn on a second sign-in step with an authenticator app (TOTP),
+-- and team owners can require it for the whole team. The codes are checked
+-- by the app's /api/admin/mfa route; the database only needs to know which
+-- sign-in sessions have passed. Until one has, current_admin_id() treats it
+-- as signed out, so every team policy from database-teams.sql stays shut.
+
+ALTER TABLE teams ADD COLUMN IF NOT EXISTS require_mfa BOOLEAN NOT NULL DEFAULT false;
+
+-- enabled_at is NULL while the admin is still scanning the QR code.
+-- last_used_step stops a code being used twice.
+CREATE TABLE IF NOT EXISTS admin_mfa (
+  admin_id UUID PRIMARY KEY REFERENCES admins(id) ON DELETE CASCADE,
+  secret TEXT NOT NULL,
+  enabled_at TIMESTAMP WITH TIME ZONE,
+  last_used_step BIGINT,
+  created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW()
+);
+
+-- Only hashes are kept; the codes are shown once
+CREATE TABLE IF NOT EXISTS admin_mfa_recovery_codes (
+  id UUID PRIMARY KEY DEFAULT uuid_generate_v4(),
+  admin_id UUID NOT NULL REFERENCES admins(id) ON DELETE CASCADE,
+  code_hash TEXT NOT NULL,
+  used_at TIMESTAMP WITH TIME ZONE,
+  created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW()
+);
+
+CREATE INDEX IF NOT EXISTS idx_admin_mfa_recovery_codes_admin_id ON admin_mfa_recovery_codes(admin_id);
+
+-- Supabase sign-in sessions (the session_id claim in their tokens) that
+-- have passed the second step. A session keeps its id when its token is
+-- refreshed, so this lasts until sign-out, or 30 days.
+CREATE TABLE IF NOT EXISTS admin_mfa_sessions (
+  session_id UUID PRIMARY KEY,
+  admin_id UUID NOT NULL REFERENCES admins(id) ON DELETE CASCADE,
+  verified_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT NOW()
+);
+
+CREATE INDEX IF NOT EXISTS idx_admin_mfa_sessions_admin_id ON admin_mfa_sessions(admin_id);
+
+-- Secrets never leave the server: no policies, so only the service role
+-- (the API route) can read or write these
+ALTER TABLE admin_mfa ENABLE ROW LEVEL SECURITY;
+ALTER TABLE admin_mfa_recovery_codes ENABLE ROW LEVEL SECURITY;
+ALTER TABLE admin_mfa_sessions ENABLE ROW LEVEL SECURITY;
+
+-- enabled: the admin has an authenticator app set up
+-- team_required: their team owner requires one
+-- verified: session_id_param has passed the second step, or needn't
+CREATE OR REPLACE FUNCTION admin_mfa_status_for(admin_id_param UUID, session_id_param UUID)
+RETURNS TABLE (
+  enabled BOOLEAN,
+  team_required BOOLEAN,
+  verified BOOLEAN,
+  recovery_codes_left INTEGER
+) AS $$
+  WITH status AS (
+    SELECT
+      EXISTS (
+        SELECT 1 FROM admin_mfa WHERE admin_id = admin_id_param AND enabled_at IS NOT NULL
+      ) as enabled,
+      COALESCE((
+        SELECT t.require_mfa
+        FROM team_members m
+        JOIN teams t ON t.id = m.team_id
+        WHERE m.admin_id = admin_id_param
+      ), false) as team_requires
+  )
+  SELECT
+    s.enabled,
+    s.team_requires,
+    NOT (s.enabled OR s.team_requires) OR EXISTS (
+      SELECT 1 FROM admin_mfa_sessions
+      WHERE session_id = session_id_param
+        AND admin_id = admin_id_param
+        AND verified_at > NOW() - INTERVAL '30 days'
+    ),
+    (SELECT COUNT(*)::INTEGER FROM admin_mfa_recovery_codes WHERE admin_id = admin_id_param AND used_at IS NULL)
+  FROM status s;
+$$ LANGUAGE sql STABLE SECURITY DEFINER;
+
+REVOKE EXECUTE ON FUNCTION admin_mfa_status_for(UUID, UUID) FROM PUBLIC, anon, authenticated;
+GRANT EXECUTE ON FUNCTION admin_mfa_status_for(UUID, UUID) TO service_role;
+
+-- For the signed-in session. Used by middleware.ts, so it looks the admin up
+-- directly rather than through current_admin_id().
+CREATE OR REPLACE FUNCTION admin_mfa_status()
+RETURNS TABLE (
+  enabled BOOLEAN,
+  team_required BOOLEAN,
+  verified BOOLEAN,
+  recovery_codes_left INTEGER
+) AS $$
+  SELECT s.*
+  FROM admins a
+  CROSS JOIN LATERAL admin_mfa_status_for(a.id, NULLIF(auth.jwt() ->> 'session_id', '')::UUID) s
+  WHERE a.user_id = auth.uid();
+$$ LANGUAGE sql STABLE SECURITY DEFINER;
+
+-- The signed-in admin, or NULL. NULL as well until a session that needs the
+-- second step has passed it. Otherwise unchanged from
+-- database-admin-onboarding.sql.
+CREATE OR REPLACE FUNCTION current_admin_id()
+RETURNS UUID AS $$
+  SELECT a.id
+  FROM admins a
+  CROSS JOIN LATERAL admin_mfa_status_for(a.id, NULLIF(auth.jwt() ->> 'session_id', '')::UUID) s
+  WHERE a.user_id = auth.uid() AND admin_session_registered() AND s.verified;
+$$ LANGUAGE sql STABLE SECURITY DEFINER;
+
+-- Owners can only require it once they use it themselves, so they can't
+-- lock themselves out
+CREATE OR REPLACE FUNCTION set_team_require_mfa(required BOOLEAN)
+RETURNS VOID AS $$
+DECLARE
+  caller_id UUID := current_admin_id();
+BEGIN
+  IF caller_id IS NULL OR admin_team_role(caller_id) <> 'owner' THEN
+    RAISE EXCEPTION 'Only team owners can change this';
+  END IF;
+
+  IF required AND NOT EXISTS (
+    SELECT 1 FROM admin_mfa WHERE admin_id = caller_id AND enabled_at IS NOT NULL
+  ) THEN
+    RAISE EXCEPTION 'Set up two-factor authentication for yourself first';
+  END IF;
+
+  UPDATE teams SET require_mfa = required WHERE id = admin_team_id(caller_id);
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+-- Per-admin settings still matched on auth.uid(); route them through
+-- current_admin_id() so they're behind the second step too
+DROP POLICY IF EXISTS "Admins can manage their messaging settings" ON admin_messaging_settings;
+CREATE POLICY "Admins can manage their messaging settings" ON admin_messaging_settings
+  FOR ALL USING (admin_id = current_admin_id());
+
+DROP POLICY IF EXISTS "Admins can view their outbox" ON message_outbox;
+CREATE POLICY "Admins can view their outbox" ON message_outbox
+  FOR SELECT USING (admin_id = current_admin_id());
+
+DROP POLICY IF EXISTS "Admins can clear their outbox" ON message_outbox;
+CREATE POLICY "Admins can clear their outbox" ON message_outbox
+  FOR DELETE USING (admin_id = current_admin_id());
+
+DROP POLICY IF EXISTS "Admins can manage their lead scoring settings" ON lead_scoring_settings;
+CREATE POLICY "Admins can manage their lead scoring settings" ON lead_scoring_settings
+  FOR ALL USING (admin_id = current_admin_id());
+
+DROP POLICY IF EXISTS "Admins can view their test sends" ON follow_up_test_sends;
+CREATE POLICY "Admins can view their test sends" ON follow_up_test_sends
+  FOR SELECT USING (admin_id = current_admin_id());
+
+-- Otherwise unchanged from database-lead-scoring.sql
+CREATE OR REPLACE FUNCTION get_lead_scoring_settings()
+RETURNS JSONB AS $$
+  SELECT lead_scoring_settings_for(current_admin_id());
+$$ LANGUAGE sql STABLE;
+
+GRANT EXECUTE ON FUNCTION admin_mfa_status() TO authenticated;
+GRANT EXECUTE ON FUNCTION set_team_require_mfa(BOOLEAN) TO authenticated;
+
+SELECT 'Two-factor authentication setup complete' as status;
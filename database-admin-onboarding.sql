@@ -0,0 +1,197 @@
+-- Admin Onboarding Setup
+-- Run this in your Supabase SQL Editor after database-teams.sql
+--
+-- Admin accounts can only be created from a team invite, by someone who has
+-- verified the invited email address. Sign-in goes through the app's server,
+-- where repeated failures lock an email out for a while.
+
+-- Nobody adds themselves to admins any more; redeem_admin_invite does it
+DROP POLICY IF EXISTS "Allow admin signup" ON admins;
+DROP POLICY IF EXISTS "Enable insert for all users" ON admins;
+DROP POLICY IF EXISTS "Allow authenticated users to insert their own admin record" ON admins;
+
+REVOKE ALL ON admins FROM anon;
+REVOKE INSERT, UPDATE, DELETE ON admins FROM authenticated;
+GRANT SELECT ON admins TO authenticated;
+
+-- Admins can still fix their name and set the phone number test texts go
+-- to, but not their email: invites are matched on it
+GRANT UPDATE (first_name, last_name, phone) ON admins TO authenticated;
+
+-- Invite links are opened before the invitee has an account
+GRANT EXECUTE ON FUNCTION get_team_invite(UUID) TO anon;
+
+-- Turns a signed-in user with a verified email into an admin on the invite's
+-- team. Returns their new admin id.
+CREATE OR REPLACE FUNCTION redeem_admin_invite(
+  token_param UUID,
+  first_name_param TEXT,
+  last_name_param TEXT
+)
+RETURNS UUID AS $$
+DECLARE
+  account auth.users%ROWTYPE;
+  invite team_invites%ROWTYPE;
+  new_admin_id UUID;
+BEGIN
+  SELECT * INTO account FROM auth.users WHERE id = auth.uid();
+
+  IF account.id IS NULL THEN
+    RAISE EXCEPTION 'Sign in to accept this invite';
+  END IF;
+
+  IF account.email_confirmed_at IS NULL THEN
+    RAISE EXCEPTION 'Verify your email address before accepting this invite';
+  END IF;
+
+  IF EXISTS (SELECT 1 FROM admins WHERE user_id = account.id) THEN
+    RAISE EXCEPTION 'You already have an admin account';
+  END IF;
+
+  SELECT * INTO invite FROM team_invites WHERE token = token_param FOR UPDATE;
+
+  IF invite.id IS NULL THEN
+    RAISE EXCEPTION 'Invite not found';
+  END IF;
+
+  IF invite.accepted_at IS NOT NULL THEN
+    RAISE EXCEPTION 'This invite has already been used';
+  END IF;
+
+  IF invite.expires_at < NOW() THEN
+    RAISE EXCEPTION 'This invite has expired. Ask the team owner for a new one.';
+  END IF;
+
+  IF LOWER(invite.email) <> LOWER(account.email) THEN
+    RAISE EXCEPTION 'This invite is for %. Sign in with that account to accept it.', invite.email;
+  END IF;
+
+  IF NULLIF(TRIM(first_name_param), '') IS NULL OR NULLIF(TRIM(last_name_param), '') IS NULL THEN
+    RAISE EXCEPTION 'First and last name are required';
+  END IF;
+
+  -- admins_assign_team gives them a team of their own, which
+  -- accept_team_invite then swaps for the invite's
+  INSERT INTO admins (user_id, first_name, last_name, email)
+  VALUES (account.id, TRIM(first_name_param), TRIM(last_name_param), LOWER(account.email))
+  RETURNING id INTO new_admin_id;
+
+  PERFORM accept_team_invite(token_param);
+
+  RETURN new_admin_id;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+REVOKE EXECUTE ON FUNCTION redeem_admin_invite(UUID, TEXT, TEXT) FROM PUBLIC, anon;
+GRANT EXECUTE ON FUNCTION redeem_admin_invite(UUID, TEXT, TEXT) TO authenticated;
+
+-- Failed admin sign-ins, by the email that was tried and the IP address
+-- they came from. Only reachable through the functions below.
+CREATE TABLE IF NOT EXISTS admin_login_failures (
+  id UUID PRIMARY KEY DEFAULT uuid_generate_v4(),
+  email TEXT NOT NULL,
+  created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW()
+);
+
+ALTER TABLE admin_login_failures ADD COLUMN IF NOT EXISTS ip_address TEXT;
+
+CREATE INDEX IF NOT EXISTS idx_admin_login_failures_email ON admin_login_failures(LOWER(email), created_at);
+CREATE INDEX IF NOT EXISTS idx_admin_login_failures_ip_address ON admin_login_failures(ip_address, created_at);
+
+ALTER TABLE admin_login_failures ENABLE ROW LEVEL SECURITY;
+
+-- Earlier versions locked by email alone and were callable from browsers
+DROP FUNCTION IF EXISTS admin_login_locked_until(TEXT);
+DROP FUNCTION IF EXISTS record_admin_login_failure(TEXT);
+DROP FUNCTION IF EXISTS clear_admin_login_failures();
+
+-- NULL unless sign-ins for the email from this IP address are locked out:
+-- five failures for the email from the address, or 20 for any email, within
+-- 15 minutes lock it until 15 minutes after the last one. Failures from
+-- other addresses don't count, so nobody can lock an admin out from
+-- somewhere else.
+CREATE OR REPLACE FUNCTION admin_login_locked_until(email_param TEXT, ip_param TEXT)
+RETURNS TIMESTAMP WITH TIME ZONE AS $$
+  SELECT MAX(locked_until)
+  FROM (
+    SELECT CASE WHEN COUNT(*) >= 5 THEN MAX(created_at) + INTERVAL '15 minutes' END AS locked_until
+    FROM admin_login_failures
+    WHERE LOWER(email) = LOWER(TRIM(email_param))
+      AND ip_address = ip_param
+      AND created_at > NOW() - INTERVAL '15 minutes'
+    UNION ALL
+    SELECT CASE WHEN COUNT(*) >= 20 THEN MAX(created_at) + INTERVAL '15 minutes' END
+    FROM admin_login_failures
+    WHERE ip_address = ip_param
+      AND created_at > NOW() - INTERVAL '15 minutes'
+  ) limits;
+$$ LANGUAGE sql STABLE SECURITY DEFINER;
+
+-- Recorded for any email, so a lockout doesn't reveal whether an account
+-- exists. Returns when the email is locked out until, if it now is.
+CREATE OR REPLACE FUNCTION record_admin_login_failure(email_param TEXT, ip_param TEXT)
+RETURNS TIMESTAMP WITH TIME ZONE AS $$
+BEGIN
+  DELETE FROM admin_login_failures WHERE created_at < NOW() - INTERVAL '1 day';
+
+  INSERT INTO admin_login_failures (email, ip_address) VALUES (LOWER(TRIM(email_param)), ip_param);
+
+  RETURN admin_login_locked_until(email_param, ip_param);
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+-- Sign-in sessions (the session_id claim in their tokens) the app started:
+-- through /api/admin/login, which applies the lockout, or from a link in a
+-- Supabase Auth email. Signing in by calling Supabase Auth directly with the
+-- anon key skips the lockout, so those sessions aren't here and get no admin
+-- access. Rows go when Supabase Auth ends the session.
+CREATE TABLE IF NOT EXISTS admin_login_sessions (
+  session_id UUID PRIMARY KEY REFERENCES auth.sessions(id) ON DELETE CASCADE,
+  user_id UUID NOT NULL REFERENCES auth.users(id) ON DELETE CASCADE,
+  created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW()
+);
+
+ALTER TABLE admin_login_sessions ENABLE ROW LEVEL SECURITY;
+
+CREATE OR REPLACE FUNCTION register_admin_login_session(session_id_param UUID, user_id_param UUID)
+RETURNS VOID AS $$
+  INSERT INTO admin_login_sessions (session_id, user_id)
+  VALUES (session_id_param, user_id_param)
+  ON CONFLICT (session_id) DO NOTHING;
+$$ LANGUAGE sql SECURITY DEFINER;
+
+CREATE OR REPLACE FUNCTION admin_login_session_registered(user_id_param UUID, session_id_param UUID)
+RETURNS BOOLEAN AS $$
+  SELECT EXISTS (
+    SELECT 1 FROM admin_login_sessions
+    WHERE session_id = session_id_param AND user_id = user_id_param
+  );
+$$ LANGUAGE sql STABLE SECURITY DEFINER;
+
+-- For the signed-in session. Used by middleware.ts.
+CREATE OR REPLACE FUNCTION admin_session_registered()
+RETURNS BOOLEAN AS $$
+  SELECT admin_login_session_registered(auth.uid(), NULLIF(auth.jwt() ->> 'session_id', '')::UUID);
+$$ LANGUAGE sql STABLE SECURITY DEFINER;
+
+-- The signed-in admin, or NULL. NULL as well for sessions the app didn't
+-- start, so every team policy from database-teams.sql stays shut to them.
+-- Otherwise unchanged from database-teams.sql.
+CREATE OR REPLACE FUNCTION current_admin_id()
+RETURNS UUID AS $$
+  SELECT id FROM admins WHERE user_id = auth.uid() AND admin_session_registered();
+$$ LANGUAGE sql STABLE SECURITY DEFINER;
+
+-- Only the server checks and records failures and sessions
+-- (/api/admin/login), so signing in from a browser can't skip the check
+REVOKE EXECUTE ON FUNCTION admin_login_locked_until(TEXT, TEXT) FROM PUBLIC, anon, authenticated;
+REVOKE EXECUTE ON FUNCTION record_admin_login_failure(TEXT, TEXT) FROM PUBLIC, anon, authenticated;
+REVOKE EXECUTE ON FUNCTION register_admin_login_session(UUID, UUID) FROM PUBLIC, anon, authenticated;
+REVOKE EXECUTE ON FUNCTION admin_login_session_registered(UUID, UUID) FROM PUBLIC, anon, authenticated;
+GRANT EXECUTE ON FUNCTION admin_login_locked_until(TEXT, TEXT) TO service_role;
+GRANT EXECUTE ON FUNCTION record_admin_login_failure(TEXT, TEXT) TO service_role;
+GRANT EXECUTE ON FUNCTION register_admin_login_session(UUID, UUID) TO service_role;
+GRANT EXECUTE ON FUNCTION admin_login_session_registered(UUID, UUID) TO service_role;
+GRANT EXECUTE ON FUNCTION admin_session_registered() TO authenticated;
+
+SELECT 'Admin onboarding setup complete' as status;
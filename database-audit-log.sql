@@ -0,0 +1,222 @@
+-- Audit Log Setup
+-- Run this in your Supabase SQL Editor after database-admin-mfa.sql
+--
+-- An append-only record of who did what to which record, and when:
+-- properties and campaigns being created, changed or deleted, campaigns
+-- being sent, and visitor CSV exports. Changes made by a signed-in admin are
+-- recorded by the triggers below, so they're logged however they're made.
+-- Server code using the service role records its own events (see
+-- src/lib/audit-log.ts).
+
+-- No foreign keys: entries outlive the admins and records they describe,
+-- and nothing may cascade into them
+CREATE TABLE IF NOT EXISTS admin_audit_log (
+  id UUID PRIMARY KEY DEFAULT uuid_generate_v4(),
+  team_id UUID,
+  admin_id UUID,
+  admin_name TEXT,
+  action TEXT NOT NULL,
+  entity_type TEXT NOT NULL,
+  entity_id UUID,
+  entity_name TEXT,
+  details JSONB NOT NULL DEFAULT '{}',
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT NOW()
+);
+
+CREATE INDEX IF NOT EXISTS idx_admin_audit_log_team_created ON admin_audit_log(team_id, created_at DESC);
+CREATE INDEX IF NOT EXISTS idx_admin_audit_log_admin_id ON admin_audit_log(admin_id);
+CREATE INDEX IF NOT EXISTS idx_admin_audit_log_entity_id ON admin_audit_log(entity_id);
+
+-- Who and when come from the database, not the caller. The team and name
+-- are copied so entries read the same after someone leaves or is renamed.
+CREATE OR REPLACE FUNCTION fill_audit_log_entry()
+RETURNS TRIGGER AS $$
+BEGIN
+  NEW.created_at := NOW();
+  NEW.team_id := admin_team_id(NEW.admin_id);
+  NEW.admin_name := (
+    SELECT COALESCE(NULLIF(TRIM(CONCAT_WS(' ', first_name, last_name)), ''), email)
+    FROM admins
+    WHERE id = NEW.admin_id
+  );
+
+  IF NEW.entity_name IS NULL AND NEW.entity_id IS NOT NULL THEN
+    NEW.entity_name := CASE NEW.entity_type
+      WHEN 'property' THEN (SELECT name FROM properties WHERE id = NEW.entity_id)
+      WHEN 'campaign' THEN (SELECT name FROM follow_up_campaigns WHERE id = NEW.entity_id)
+    END;
+  END IF;
+
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+CREATE OR REPLACE FUNCTION prevent_audit_log_changes()
+RETURNS TRIGGER AS $$
+BEGIN
+  RAISE EXCEPTION 'The audit log is append-only';
+END;
+$$ LANGUAGE plpgsql;
+
+DROP TRIGGER IF EXISTS fill_audit_log_entry ON admin_audit_log;
+CREATE TRIGGER fill_audit_log_entry
+  BEFORE INSERT ON admin_audit_log
+  FOR EACH ROW
+  EXECUTE FUNCTION fill_audit_log_entry();
+
+-- Applies to the service role too
+DROP TRIGGER IF EXISTS prevent_audit_log_changes ON admin_audit_log;
+CREATE TRIGGER prevent_audit_log_changes
+  BEFORE UPDATE OR DELETE ON admin_audit_log
+  FOR EACH ROW
+  EXECUTE FUNCTION prevent_audit_log_changes();
+
+DROP TRIGGER IF EXISTS prevent_audit_log_truncate ON admin_audit_log;
+CREATE TRIGGER prevent_audit_log_truncate
+  BEFORE TRUNCATE ON admin_audit_log
+  FOR EACH STATEMENT
+  EXECUTE FUNCTION prevent_audit_log_changes();
+
+-- Admins see their own entries; owners see their whole team's. Nobody
+-- writes to the table directly.
+ALTER TABLE admin_audit_log ENABLE ROW LEVEL SECURITY;
+
+DROP POLICY IF EXISTS "Admins can view their team's audit log" ON admin_audit_log;
+CREATE POLICY "Admins can view their team's audit log" ON admin_audit_log
+  FOR SELECT USING (
+    admin_id = current_admin_id() OR (
+      admin_team_role(current_admin_id()) = 'owner' AND
+      team_id = admin_team_id(current_admin_id())
+    )
+  );
+
+REVOKE ALL ON admin_audit_log FROM anon;
+REVOKE INSERT, UPDATE, DELETE, TRUNCATE ON admin_audit_log FROM authenticated;
+GRANT SELECT ON admin_audit_log TO authenticated;
+
+-- Records inserts, updates and deletes on properties and campaigns as
+-- '<entity>.created', '.updated', '.status_changed', '.approved',
+-- '.approval_withdrawn' or '.deleted'. Updates keep the fields that changed;
+-- long values such as message templates only note that they changed.
+CREATE OR REPLACE FUNCTION audit_row_change()
+RETURNS TRIGGER AS $$
+DECLARE
+  actor_id UUID := current_admin_id();
+  entity TEXT := TG_ARGV[0];
+  changes JSONB;
+  change TEXT;
+BEGIN
+  -- The service role (API routes, the scheduler) records its own events
+  IF actor_id IS NULL THEN
+    RETURN NULL;
+  END IF;
+
+  IF TG_OP = 'INSERT' THEN
+    INSERT INTO admin_audit_log (admin_id, action, entity_type, entity_id, entity_name, details)
+    VALUES (actor_id, entity || '.created', entity, NEW.id, NEW.name, jsonb_build_object('status', NEW.status));
+    RETURN NULL;
+  END IF;
+
+  IF TG_OP = 'DELETE' THEN
+    INSERT INTO admin_audit_log (admin_id, action, entity_type, entity_id, entity_name, details)
+    VALUES (actor_id, entity || '.deleted', entity, OLD.id, OLD.name, jsonb_build_object('status', OLD.status));
+    RETURN NULL;
+  END IF;
+
+  SELECT jsonb_object_agg(n.key, jsonb_build_object(
+    'from', CASE WHEN length(o.value::TEXT) <= 200 THEN o.value END,
+    'to', CASE WHEN length(n.value::TEXT) <= 200 THEN n.value END
+  ))
+  INTO changes
+  FROM jsonb_each(to_jsonb(NEW)) n
+  JOIN jsonb_each(to_jsonb(OLD)) o ON o.key = n.key
+  -- activated_at follows status, which is already in the diff
+  WHERE n.value IS DISTINCT FROM o.value AND n.key NOT IN ('updated_at', 'activated_at');
+
+  IF changes IS NULL THEN
+    RETURN NULL;
+  END IF;
+
+  change := CASE
+    WHEN changes - 'status' = '{}'::JSONB THEN 'status_changed'
+    WHEN changes - 'approved_at' - 'approved_by' = '{}'::JSONB THEN
+      CASE WHEN changes -> 'approved_at' ->> 'to' IS NULL THEN 'approval_withdrawn' ELSE 'approved' END
+    ELSE 'updated'
+  END;
+
+  INSERT INTO admin_audit_log (admin_id, action, entity_type, entity_id, entity_name, details)
+  VALUES (actor_id, entity || '.' || change, entity, NEW.id, NEW.name, jsonb_build_object('changes', changes));
+  RETURN NULL;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+DROP TRIGGER IF EXISTS audit_properties ON properties;
+CREATE TRIGGER audit_properties
+  AFTER INSERT OR UPDATE OR DELETE ON properties
+  FOR EACH ROW
+  EXECUTE FUNCTION audit_row_change('property');
+
+DROP TRIGGER IF EXISTS audit_follow_up_campaigns ON follow_up_campaigns;
+CREATE TRIGGER audit_follow_up_campaigns
+  AFTER INSERT OR UPDATE OR DELETE ON follow_up_campaigns
+  FOR EACH ROW
+  EXECUTE FUNCTION audit_row_change('campaign');
+
+-- Sending a sequence from the dashboard enrolls its visitors; one entry
+-- per campaign rather than per visitor
+CREATE OR REPLACE FUNCTION audit_campaign_enrollments()
+RETURNS TRIGGER AS $$
+DECLARE
+  actor_id UUID := current_admin_id();
+BEGIN
+  IF actor_id IS NULL THEN
+    RETURN NULL;
+  END IF;
+
+  INSERT INTO admin_audit_log (admin_id, action, entity_type, entity_id, details)
+  SELECT actor_id, 'campaign.enrolled', 'campaign', e.campaign_id, jsonb_build_object('visitors', COUNT(*))
+  FROM new_enrollments e
+  GROUP BY e.campaign_id;
+
+  RETURN NULL;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+DROP TRIGGER IF EXISTS audit_campaign_enrollments ON campaign_enrollments;
+CREATE TRIGGER audit_campaign_enrollments
+  AFTER INSERT ON campaign_enrollments
+  REFERENCING NEW TABLE AS new_enrollments
+  FOR EACH STATEMENT
+  EXECUTE FUNCTION audit_campaign_enrollments();
+
+-- CSV exports are built in the browser, which records them here first
+CREATE OR REPLACE FUNCTION record_export(export_type TEXT, row_count INTEGER, filters JSONB DEFAULT '{}')
+RETURNS VOID AS $$
+DECLARE
+  actor_id UUID := current_admin_id();
+BEGIN
+  IF actor_id IS NULL THEN
+    RAISE EXCEPTION 'Not authenticated';
+  END IF;
+
+  IF export_type NOT IN ('visitors', 'audit_log') THEN
+    RAISE EXCEPTION 'Unknown export: %', export_type;
+  END IF;
+
+  INSERT INTO admin_audit_log (admin_id, action, entity_type, details)
+  VALUES (
+    actor_id,
+    export_type || '.exported',
+    export_type,
+    jsonb_build_object('rows', row_count, 'filters', COALESCE(filters, '{}'::JSONB))
+  );
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+REVOKE EXECUTE ON FUNCTION fill_audit_log_entry() FROM PUBLIC;
+REVOKE EXECUTE ON FUNCTION audit_row_change() FROM PUBLIC;
+REVOKE EXECUTE ON FUNCTION audit_campaign_enrollments() FROM PUBLIC;
+REVOKE EXECUTE ON FUNCTION record_export(TEXT, INTEGER, JSONB) FROM PUBLIC, anon;
+GRANT EXECUTE ON FUNCTION record_export(TEXT, INTEGER, JSONB) TO authenticated;
+
+SELECT 'Audit log setup complete' as status;
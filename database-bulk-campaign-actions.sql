@@ -0,0 +1,89 @@
+-- Bulk Campaign Actions Setup
+-- Run this in your Supabase SQL Editor after database-email-tracking.sql
+
+-- Apply one action to several campaigns in a single transaction and report
+-- what happened to each. Campaigns the admin doesn't own are reported as
+-- not_found and left alone. For 'send', paused or completed campaigns are
+-- skipped, drip sequences enroll their eligible visitors here, and
+-- single-message campaigns come back as 'ready' for the caller to queue
+-- through the send-follow-up Edge Function.
+CREATE OR REPLACE FUNCTION bulk_campaign_action(
+  admin_id_param UUID,
+  action_param TEXT,
+  campaign_ids_param UUID[]
+)
+RETURNS TABLE (
+  campaign_id UUID,
+  campaign_name TEXT,
+  outcome TEXT,
+  detail TEXT
+) AS $$
+DECLARE
+  target RECORD;
+  enrolled INTEGER;
+BEGIN
+  IF action_param NOT IN ('send', 'pause', 'activate', 'delete') THEN
+    RAISE EXCEPTION 'Unknown bulk action: %', action_param;
+  END IF;
+
+  -- Hold the campaigns until the transaction ends so a concurrent edit
+  -- can't interleave with the bulk change
+  PERFORM 1
+  FROM follow_up_campaigns c
+  WHERE c.id = ANY(campaign_ids_param) AND c.admin_id = admin_id_param
+  FOR UPDATE;
+
+  FOR target IN
+    SELECT
+      ids.id AS requested_id,
+      c.id,
+      c.name,
+      c.status,
+      EXISTS (SELECT 1 FROM campaign_steps s WHERE s.campaign_id = c.id) AS is_sequence
+    FROM (SELECT DISTINCT unnest(campaign_ids_param) AS id) ids
+    LEFT JOIN follow_up_campaigns c ON c.id = ids.id AND c.admin_id = admin_id_param
+  LOOP
+    campaign_id := target.requested_id;
+    campaign_name := target.name;
+    detail := NULL;
+
+    IF target.id IS NULL THEN
+      outcome := 'not_found';
+      detail := 'Campaign not found';
+
+    ELSIF action_param = 'delete' THEN
+      DELETE FROM follow_up_campaigns c WHERE c.id = target.id;
+      outcome := 'deleted';
+
+    ELSIF action_param IN ('pause', 'activate') THEN
+      IF target.status = CASE action_param WHEN 'pause' THEN 'paused' ELSE 'active' END THEN
+        outcome := 'unchanged';
+        detail := 'Already ' || target.status;
+      ELSE
+        UPDATE follow_up_campaigns c
+        SET status = CASE action_param WHEN 'pause' THEN 'paused' ELSE 'active' END
+        WHERE c.id = target.id;
+        outcome := 'updated';
+      END IF;
+
+    ELSIF target.status <> 'active' THEN
+      outcome := 'skipped';
+      detail := 'Campaign is ' || target.status;
+
+    ELSIF target.is_sequence THEN
+      enrolled := enroll_sequence_visitors(target.id);
+      outcome := 'enrolled';
+      detail := enrolled || ' visitors enrolled';
+
+    ELSE
+      outcome := 'ready';
+    END IF;
+
+    RETURN NEXT;
+  END LOOP;
+END;
+$$ LANGUAGE plpgsql;
+
+GRANT EXECUTE ON FUNCTION bulk_campaign_action(UUID, TEXT, UUID[]) TO service_role;
+
+SELECT 'Bulk campaign actions setup complete' as status;
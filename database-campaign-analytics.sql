@@ -0,0 +1,138 @@
+-- Campaign Analytics Setup
+-- Run this in your Supabase SQL Editor after database-follow-up-queue.sql
+
+CREATE INDEX IF NOT EXISTS idx_follow_up_logs_campaign_sent_at ON follow_up_logs(campaign_id, sent_at);
+
+-- Views run with their owner's rights unless told otherwise, which would let
+-- every admin see every campaign's numbers. security_invoker applies the
+-- follow_up_logs and follow_up_campaigns RLS policies instead.
+-- Queued messages are still 'pending' and haven't been attempted, so they
+-- no longer count towards total_sent.
+DROP VIEW IF EXISTS campaign_analytics;
+CREATE VIEW campaign_analytics WITH (security_invoker = true) AS
+SELECT
+  c.id as campaign_id,
+  c.name as campaign_name,
+  c.message_type,
+  c.trigger_condition,
+  COUNT(CASE WHEN l.status <> 'pending' THEN 1 END) as total_sent,
+  COUNT(l.delivered_at) as delivered_count,
+  COUNT(l.opened_at) as opened_count,
+  COUNT(l.clicked_at) as clicked_count,
+  COUNT(CASE WHEN l.status = 'failed' THEN 1 END) as failed_count,
+  ROUND(
+    COUNT(l.delivered_at)::numeric /
+    NULLIF(COUNT(CASE WHEN l.status <> 'pending' THEN 1 END), 0) * 100, 2
+  ) as delivery_rate,
+  ROUND(
+    COUNT(l.opened_at)::numeric /
+    NULLIF(COUNT(l.delivered_at), 0) * 100, 2
+  ) as open_rate,
+  ROUND(
+    COUNT(l.clicked_at)::numeric /
+    NULLIF(COUNT(l.opened_at), 0) * 100, 2
+  ) as click_rate,
+  COUNT(CASE WHEN l.status = 'bounced' THEN 1 END) as bounced_count,
+  MAX(l.sent_at) as last_sent_at
+FROM follow_up_campaigns c
+LEFT JOIN follow_up_logs l ON c.id = l.campaign_id
+GROUP BY c.id, c.name, c.message_type, c.trigger_condition;
+
+-- Everything the campaign analytics page shows, for one campaign and the
+-- dashboard's filters. Days are bucketed in the viewer's time zone.
+-- Runs with the caller's rights, so RLS limits it to the admin's own logs.
+CREATE OR REPLACE FUNCTION get_campaign_analytics(
+  campaign_id_param UUID,
+  property_id_param UUID DEFAULT NULL,
+  date_from_param DATE DEFAULT NULL,
+  date_to_param DATE DEFAULT NULL,
+  message_type_param TEXT DEFAULT NULL,
+  time_zone_param TEXT DEFAULT 'UTC'
+)
+RETURNS JSONB AS $$
+  WITH filtered AS (
+    SELECT
+      l.*,
+      (l.sent_at AT TIME ZONE time_zone_param)::date as sent_day
+    FROM follow_up_logs l
+    WHERE
+      l.campaign_id = campaign_id_param AND
+      l.status <> 'pending' AND
+      (property_id_param IS NULL OR l.property_id = property_id_param) AND
+      (message_type_param IS NULL OR message_type_param = 'both' OR l.message_type = message_type_param) AND
+      (date_from_param IS NULL OR (l.sent_at AT TIME ZONE time_zone_param)::date >= date_from_param) AND
+      (date_to_param IS NULL OR (l.sent_at AT TIME ZONE time_zone_param)::date <= date_to_param)
+  )
+  SELECT jsonb_build_object(
+    'funnel', (
+      SELECT jsonb_build_object(
+        'sent', COUNT(*),
+        'delivered', COUNT(delivered_at),
+        'opened', COUNT(opened_at),
+        'clicked', COUNT(clicked_at),
+        'failed', COUNT(CASE WHEN status = 'failed' THEN 1 END),
+        'bounced', COUNT(CASE WHEN status = 'bounced' THEN 1 END)
+      )
+      FROM filtered
+    ),
+    'daily', COALESCE((
+      SELECT jsonb_agg(jsonb_build_object('day', sent_day, 'sent', sent, 'failed', failed) ORDER BY sent_day)
+      FROM (
+        SELECT
+          sent_day,
+          COUNT(*) as sent,
+          COUNT(CASE WHEN status IN ('failed', 'bounced') THEN 1 END) as failed
+        FROM filtered
+        GROUP BY sent_day
+      ) days
+    ), '[]'::jsonb),
+    'failure_reasons', COALESCE((
+      SELECT jsonb_agg(jsonb_build_object('reason', reason, 'count', count) ORDER BY count DESC)
+      FROM (
+        SELECT
+          COALESCE(NULLIF(TRIM(error_message), ''), 'No reason given') as reason,
+          COUNT(*) as count
+        FROM filtered
+        WHERE status IN ('failed', 'bounced')
+        GROUP BY 1
+        ORDER BY 2 DESC
+        LIMIT 10
+      ) reasons
+    ), '[]'::jsonb),
+    'by_property', COALESCE((
+      SELECT jsonb_agg(row_to_json(properties_breakdown) ORDER BY properties_breakdown.sent DESC)
+      FROM (
+        SELECT
+          f.property_id,
+          COALESCE(p.name, 'Unknown property') as property_name,
+          COUNT(*) as sent,
+          COUNT(f.delivered_at) as delivered,
+          COUNT(f.opened_at) as opened,
+          COUNT(f.clicked_at) as clicked,
+          COUNT(CASE WHEN f.status IN ('failed', 'bounced') THEN 1 END) as failed
+        FROM filtered f
+        LEFT JOIN properties p ON p.id = f.property_id
+        GROUP BY f.property_id, p.name
+      ) properties_breakdown
+    ), '[]'::jsonb),
+    'by_channel', COALESCE((
+      SELECT jsonb_agg(row_to_json(channels) ORDER BY channels.channel)
+      FROM (
+        SELECT
+          message_type as channel,
+          COUNT(*) as sent,
+          COUNT(delivered_at) as delivered,
+          COUNT(opened_at) as opened,
+          COUNT(clicked_at) as clicked,
+          COUNT(CASE WHEN status IN ('failed', 'bounced') THEN 1 END) as failed
+        FROM filtered
+        GROUP BY message_type
+      ) channels
+    ), '[]'::jsonb)
+  );
+$$ LANGUAGE sql STABLE;
+
+GRANT SELECT ON campaign_analytics TO authenticated;
+GRANT EXECUTE ON FUNCTION get_campaign_analytics(UUID, UUID, DATE, DATE, TEXT, TEXT) TO authenticated;
+
+SELECT 'Campaign analytics setup complete' as status;
@@ -0,0 +1,77 @@
+-- Campaign Templates Setup
+-- Run this in your Supabase SQL Editor after database-followup-system.sql
+
+-- Campaigns can reference a saved template instead of holding a copy of its
+-- content. Edits to the template apply to every campaign that uses it, so a
+-- template can't be deleted while a campaign still references it.
+ALTER TABLE follow_up_campaigns
+  ADD COLUMN IF NOT EXISTS email_template_id UUID REFERENCES email_templates(id) ON DELETE RESTRICT,
+  ADD COLUMN IF NOT EXISTS sms_template_id UUID REFERENCES sms_templates(id) ON DELETE RESTRICT;
+
+CREATE INDEX IF NOT EXISTS idx_follow_up_campaigns_email_template_id ON follow_up_campaigns(email_template_id);
+CREATE INDEX IF NOT EXISTS idx_follow_up_campaigns_sms_template_id ON follow_up_campaigns(sms_template_id);
+
+-- The seeded default templates have no admin_id, which the existing
+-- "manage their templates" policies never match. Let every admin read them.
+DROP POLICY IF EXISTS "Admins can view default email templates" ON email_templates;
+CREATE POLICY "Admins can view default email templates" ON email_templates
+  FOR SELECT USING (
+    admin_id IS NULL AND
+    EXISTS (SELECT 1 FROM admins WHERE user_id = auth.uid())
+  );
+
+DROP POLICY IF EXISTS "Admins can view default SMS templates" ON sms_templates;
+CREATE POLICY "Admins can view default SMS templates" ON sms_templates
+  FOR SELECT USING (
+    admin_id IS NULL AND
+    EXISTS (SELECT 1 FROM admins WHERE user_id = auth.uid())
+  );
+
+-- The Edge Function reads templates with the service role, so nothing else
+-- stops a campaign from sending another admin's template. A campaign may
+-- only use its own admin's templates and the shared defaults;
+-- database-teams.sql widens this to the admin's team.
+CREATE OR REPLACE FUNCTION template_usable_by(template_admin_id UUID, campaign_admin_id UUID)
+RETURNS BOOLEAN AS $$
+  SELECT COALESCE(template_admin_id IS NULL OR template_admin_id = campaign_admin_id, false);
+$$ LANGUAGE sql STABLE SECURITY DEFINER;
+
+CREATE OR REPLACE FUNCTION check_templates_usable(
+  email_template_id_param UUID,
+  sms_template_id_param UUID,
+  campaign_admin_id UUID
+)
+RETURNS VOID AS $$
+BEGIN
+  IF email_template_id_param IS NOT NULL AND NOT EXISTS (
+    SELECT 1 FROM email_templates
+    WHERE id = email_template_id_param AND template_usable_by(admin_id, campaign_admin_id)
+  ) THEN
+    RAISE EXCEPTION 'This campaign can''t use that email template';
+  END IF;
+
+  IF sms_template_id_param IS NOT NULL AND NOT EXISTS (
+    SELECT 1 FROM sms_templates
+    WHERE id = sms_template_id_param AND template_usable_by(admin_id, campaign_admin_id)
+  ) THEN
+    RAISE EXCEPTION 'This campaign can''t use that SMS template';
+  END IF;
+END;
+$$ LANGUAGE plpgsql STABLE SECURITY DEFINER;
+
+CREATE OR REPLACE FUNCTION check_campaign_templates()
+RETURNS TRIGGER AS $$
+BEGIN
+  PERFORM check_templates_usable(NEW.email_template_id, NEW.sms_template_id, NEW.admin_id);
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql;
+
+-- Applies to the service role too
+DROP TRIGGER IF EXISTS check_campaign_templates ON follow_up_campaigns;
+CREATE TRIGGER check_campaign_templates
+  BEFORE INSERT OR UPDATE OF admin_id, email_template_id, sms_template_id ON follow_up_campaigns
+  FOR EACH ROW
+  EXECUTE FUNCTION check_campaign_templates();
+
+SELECT 'Campaign templates setup complete' as status;
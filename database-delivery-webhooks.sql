@@ -0,0 +1,37 @@
+-- Delivery Status Webhooks Setup
+-- Run this in your Supabase SQL Editor after database-followup-system.sql
+
+-- Webhooks look logs up by the provider's message id
+CREATE INDEX IF NOT EXISTS idx_follow_up_logs_external_id ON follow_up_logs(external_id);
+
+-- A log's status is its furthest point in the lifecycle (an opened email is
+-- no longer 'delivered'), so count each stage from its timestamp instead.
+CREATE OR REPLACE VIEW campaign_analytics AS
+SELECT
+  c.id as campaign_id,
+  c.name as campaign_name,
+  c.message_type,
+  c.trigger_condition,
+  COUNT(l.id) as total_sent,
+  COUNT(l.delivered_at) as delivered_count,
+  COUNT(l.opened_at) as opened_count,
+  COUNT(l.clicked_at) as clicked_count,
+  COUNT(CASE WHEN l.status = 'failed' THEN 1 END) as failed_count,
+  ROUND(
+    COUNT(l.delivered_at)::numeric /
+    NULLIF(COUNT(l.id), 0) * 100, 2
+  ) as delivery_rate,
+  ROUND(
+    COUNT(l.opened_at)::numeric /
+    NULLIF(COUNT(l.delivered_at), 0) * 100, 2
+  ) as open_rate,
+  ROUND(
+    COUNT(l.clicked_at)::numeric /
+    NULLIF(COUNT(l.opened_at), 0) * 100, 2
+  ) as click_rate,
+  COUNT(CASE WHEN l.status = 'bounced' THEN 1 END) as bounced_count
+FROM follow_up_campaigns c
+LEFT JOIN follow_up_logs l ON c.id = l.campaign_id
+GROUP BY c.id, c.name, c.message_type, c.trigger_condition;
+
+SELECT 'Delivery status webhooks setup complete' as status;
@@ -0,0 +1,451 @@
+-- Drip Sequences Setup
+-- Run this in your Supabase SQL Editor after database-unsubscribe.sql and database-campaign-templates.sql
+
+-- A campaign with steps is a sequence: each enrolled visitor receives the
+-- steps in order, each once visit_date + the step's delay_hours has passed.
+-- Campaigns without steps keep sending their single message as before.
+
+-- Set from the sequence progress view when a visitor makes an offer
+ALTER TABLE visitors ADD COLUMN IF NOT EXISTS made_offer_at TIMESTAMP WITH TIME ZONE;
+
+-- Which events take a visitor out of the sequence early
+ALTER TABLE follow_up_campaigns
+  ADD COLUMN IF NOT EXISTS exit_conditions TEXT[] NOT NULL DEFAULT ARRAY['feedback_submitted', 'unsubscribed', 'made_offer']
+  CHECK (exit_conditions <@ ARRAY['feedback_submitted', 'unsubscribed', 'made_offer']);
+
+CREATE TABLE IF NOT EXISTS campaign_steps (
+  id UUID PRIMARY KEY DEFAULT uuid_generate_v4(),
+  campaign_id UUID NOT NULL REFERENCES follow_up_campaigns(id) ON DELETE CASCADE,
+  step_order INTEGER NOT NULL CHECK (step_order >= 1),
+  message_type TEXT NOT NULL CHECK (message_type IN ('email', 'sms')),
+  -- Hours after the visit, not after the previous step
+  delay_hours INTEGER NOT NULL DEFAULT 0 CHECK (delay_hours >= 0 AND delay_hours <= 8760),
+  email_subject TEXT,
+  email_template TEXT,
+  email_template_id UUID REFERENCES email_templates(id) ON DELETE RESTRICT,
+  sms_template TEXT,
+  sms_template_id UUID REFERENCES sms_templates(id) ON DELETE RESTRICT,
+  created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+  updated_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+  -- Deferred so steps can be reordered in one statement
+  CONSTRAINT campaign_steps_order_unique UNIQUE (campaign_id, step_order) DEFERRABLE INITIALLY DEFERRED
+);
+
+CREATE TABLE IF NOT EXISTS campaign_enrollments (
+  id UUID PRIMARY KEY DEFAULT uuid_generate_v4(),
+  campaign_id UUID NOT NULL REFERENCES follow_up_campaigns(id) ON DELETE CASCADE,
+  visitor_id UUID NOT NULL REFERENCES visitors(id) ON DELETE CASCADE,
+  -- step_order of the last step sent (or skipped); 0 before the first
+  current_step INTEGER NOT NULL DEFAULT 0,
+  status TEXT NOT NULL DEFAULT 'active' CHECK (status IN ('active', 'completed', 'exited')),
+  exit_reason TEXT CHECK (exit_reason IN ('feedback_submitted', 'unsubscribed', 'made_offer', 'manual')),
+  enrolled_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+  last_step_at TIMESTAMP WITH TIME ZONE,
+  ended_at TIMESTAMP WITH TIME ZONE,
+  UNIQUE (campaign_id, visitor_id)
+);
+
+CREATE INDEX IF NOT EXISTS idx_campaign_steps_campaign_id ON campaign_steps(campaign_id);
+CREATE INDEX IF NOT EXISTS idx_campaign_enrollments_campaign_status ON campaign_enrollments(campaign_id, status);
+CREATE INDEX IF NOT EXISTS idx_campaign_enrollments_visitor_id ON campaign_enrollments(visitor_id);
+
+CREATE TRIGGER update_campaign_steps_updated_at
+  BEFORE UPDATE ON campaign_steps
+  FOR EACH ROW EXECUTE FUNCTION update_updated_at_column();
+
+ALTER TABLE campaign_steps ENABLE ROW LEVEL SECURITY;
+ALTER TABLE campaign_enrollments ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Admins can manage their campaign steps" ON campaign_steps
+  FOR ALL USING (
+    campaign_id IN (
+      SELECT c.id FROM follow_up_campaigns c
+      JOIN admins a ON c.admin_id = a.id
+      WHERE a.user_id = auth.uid()
+    )
+  );
+
+CREATE POLICY "Admins can manage their campaign enrollments" ON campaign_enrollments
+  FOR ALL USING (
+    campaign_id IN (
+      SELECT c.id FROM follow_up_campaigns c
+      JOIN admins a ON c.admin_id = a.id
+      WHERE a.user_id = auth.uid()
+    )
+  );
+
+-- Steps may only use templates their campaign could (see
+-- database-campaign-templates.sql)
+CREATE OR REPLACE FUNCTION check_campaign_step_templates()
+RETURNS TRIGGER AS $$
+BEGIN
+  PERFORM check_templates_usable(
+    NEW.email_template_id,
+    NEW.sms_template_id,
+    (SELECT admin_id FROM follow_up_campaigns WHERE id = NEW.campaign_id)
+  );
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql;
+
+DROP TRIGGER IF EXISTS check_campaign_step_templates ON campaign_steps;
+CREATE TRIGGER check_campaign_step_templates
+  BEFORE INSERT OR UPDATE OF campaign_id, email_template_id, sms_template_id ON campaign_steps
+  FOR EACH ROW
+  EXECUTE FUNCTION check_campaign_step_templates();
+
+-- Logs record which step they were sent for. The one-live-message index now
+-- allows one message per step instead of one per campaign. It's keyed on the
+-- step's id: save_campaign_steps renumbers steps, so a step_order can belong
+-- to a different step by the time the next message is claimed. step_order
+-- is kept for display. No foreign key: logs outlive deleted steps.
+ALTER TABLE follow_up_logs ADD COLUMN IF NOT EXISTS step_order INTEGER;
+ALTER TABLE follow_up_logs ADD COLUMN IF NOT EXISTS step_id UUID;
+
+-- Logs from before step_id was recorded, matched on the current step order
+UPDATE follow_up_logs l
+SET step_id = s.id
+FROM campaign_steps s
+WHERE
+  l.step_id IS NULL AND
+  l.step_order IS NOT NULL AND
+  s.campaign_id = l.campaign_id AND
+  s.step_order = l.step_order;
+
+-- Step logs left without a step_id belong to steps that no longer exist and
+-- can't be claimed again, so the index leaves them out
+DROP INDEX IF EXISTS idx_follow_up_logs_one_live_message;
+CREATE UNIQUE INDEX idx_follow_up_logs_one_live_message
+  ON follow_up_logs(campaign_id, visitor_id, message_type, COALESCE(step_id, '00000000-0000-0000-0000-000000000000'::UUID))
+  WHERE status <> 'failed' AND (step_id IS NOT NULL OR step_order IS NULL);
+
+-- Replace a campaign's steps in one transaction. Steps keep their id when
+-- passed back with it; steps missing from the list are deleted. Enrollments
+-- already past the new last step are completed.
+CREATE OR REPLACE FUNCTION save_campaign_steps(
+  campaign_id_param UUID,
+  steps_param JSONB
+)
+RETURNS VOID AS $$
+BEGIN
+  DELETE FROM campaign_steps
+  WHERE campaign_id = campaign_id_param
+  AND id NOT IN (
+    SELECT (s->>'id')::uuid
+    FROM jsonb_array_elements(steps_param) s
+    WHERE COALESCE(s->>'id', '') <> ''
+  );
+
+  INSERT INTO campaign_steps (
+    id, campaign_id, step_order, message_type, delay_hours,
+    email_subject, email_template, email_template_id, sms_template, sms_template_id
+  )
+  SELECT
+    COALESCE(NULLIF(s->>'id', '')::uuid, uuid_generate_v4()),
+    campaign_id_param,
+    t.ordinality,
+    s->>'message_type',
+    COALESCE((s->>'delay_hours')::integer, 0),
+    NULLIF(s->>'email_subject', ''),
+    NULLIF(s->>'email_template', ''),
+    NULLIF(s->>'email_template_id', '')::uuid,
+    NULLIF(s->>'sms_template', ''),
+    NULLIF(s->>'sms_template_id', '')::uuid
+  FROM jsonb_array_elements(steps_param) WITH ORDINALITY AS t(s, ordinality)
+  ON CONFLICT (id) DO UPDATE SET
+    step_order = EXCLUDED.step_order,
+    message_type = EXCLUDED.message_type,
+    delay_hours = EXCLUDED.delay_hours,
+    email_subject = EXCLUDED.email_subject,
+    email_template = EXCLUDED.email_template,
+    email_template_id = EXCLUDED.email_template_id,
+    sms_template = EXCLUDED.sms_template,
+    sms_template_id = EXCLUDED.sms_template_id
+  WHERE campaign_steps.campaign_id = EXCLUDED.campaign_id;
+
+  UPDATE campaign_enrollments ce
+  SET status = 'completed', ended_at = NOW()
+  WHERE ce.campaign_id = campaign_id_param
+  AND ce.status = 'active'
+  AND NOT EXISTS (
+    SELECT 1 FROM campaign_steps s
+    WHERE s.campaign_id = campaign_id_param AND s.step_order > ce.current_step
+  );
+END;
+$$ LANGUAGE plpgsql;
+
+-- Enroll every visitor the campaign's trigger condition matches whose first
+-- step falls due after the campaign went live, so turning a sequence on
+-- doesn't start it for every past visitor at once
+CREATE OR REPLACE FUNCTION enroll_sequence_visitors(campaign_id_param UUID)
+RETURNS INTEGER AS $$
+DECLARE
+  enrolled INTEGER;
+BEGIN
+  INSERT INTO campaign_enrollments (campaign_id, visitor_id)
+  SELECT campaign_id_param, e.visitor_id
+  FROM get_eligible_visitors(campaign_id_param) e
+  JOIN follow_up_campaigns c ON c.id = campaign_id_param
+  JOIN LATERAL (
+    SELECT cs.delay_hours
+    FROM campaign_steps cs
+    WHERE cs.campaign_id = campaign_id_param
+    ORDER BY cs.step_order
+    LIMIT 1
+  ) first_step ON true
+  WHERE c.activated_at IS NULL OR e.visit_date + make_interval(hours => first_step.delay_hours) >= c.activated_at
+  ON CONFLICT (campaign_id, visitor_id) DO NOTHING;
+
+  GET DIAGNOSTICS enrolled = ROW_COUNT;
+  RETURN enrolled;
+END;
+$$ LANGUAGE plpgsql;
+
+-- Take visitors out of the sequence when one of the campaign's exit
+-- conditions is met. Feedback only counts if it arrived after enrolment, so
+-- an "interested" trigger doesn't exit visitors straight away.
+CREATE OR REPLACE FUNCTION exit_sequence_visitors(campaign_id_param UUID)
+RETURNS INTEGER AS $$
+DECLARE
+  exited INTEGER;
+BEGIN
+  UPDATE campaign_enrollments ce
+  SET status = 'exited', exit_reason = exits.reason, ended_at = NOW()
+  FROM (
+    SELECT
+      e.id,
+      CASE
+        WHEN 'made_offer' = ANY(c.exit_conditions) AND v.made_offer_at IS NOT NULL
+          THEN 'made_offer'
+        WHEN 'feedback_submitted' = ANY(c.exit_conditions) AND EXISTS (
+          SELECT 1 FROM feedback f WHERE f.visitor_id = v.id AND f.created_at > e.enrolled_at
+        )
+          THEN 'feedback_submitted'
+        WHEN 'unsubscribed' = ANY(c.exit_conditions) AND (
+          is_unsubscribed(v.email, v.phone, 'email') OR is_unsubscribed(v.email, v.phone, 'sms')
+        )
+          THEN 'unsubscribed'
+      END AS reason
+    FROM campaign_enrollments e
+    JOIN visitors v ON v.id = e.visitor_id
+    JOIN follow_up_campaigns c ON c.id = e.campaign_id
+    WHERE e.campaign_id = campaign_id_param AND e.status = 'active'
+  ) exits
+  WHERE ce.id = exits.id AND exits.reason IS NOT NULL;
+
+  GET DIAGNOSTICS exited = ROW_COUNT;
+  RETURN exited;
+END;
+$$ LANGUAGE plpgsql;
+
+-- Move enrollments in automatic sequences past steps that fell due before
+-- the campaign went live, e.g. while it was paused. Those steps are never
+-- sent, and without this the enrollment would wait on them forever.
+CREATE OR REPLACE FUNCTION skip_missed_sequence_steps(campaign_id_param UUID)
+RETURNS INTEGER AS $$
+DECLARE
+  skipped INTEGER;
+BEGIN
+  UPDATE campaign_enrollments ce
+  SET
+    current_step = missed.step_order,
+    status = CASE WHEN missed.is_last_step THEN 'completed' ELSE ce.status END,
+    ended_at = CASE WHEN missed.is_last_step THEN NOW() ELSE ce.ended_at END
+  FROM (
+    SELECT
+      e.id,
+      MAX(s.step_order) AS step_order,
+      NOT EXISTS (
+        SELECT 1 FROM campaign_steps later
+        WHERE later.campaign_id = e.campaign_id AND later.step_order > MAX(s.step_order)
+      ) AS is_last_step
+    FROM campaign_enrollments e
+    JOIN follow_up_campaigns c ON c.id = e.campaign_id
+    JOIN visitors v ON v.id = e.visitor_id
+    JOIN campaign_steps s ON s.campaign_id = e.campaign_id AND s.step_order > e.current_step
+    WHERE
+      e.campaign_id = campaign_id_param AND
+      e.status = 'active' AND
+      c.trigger_condition <> 'manual' AND
+      v.visit_date + make_interval(hours => s.delay_hours) < c.activated_at
+    GROUP BY e.id, e.campaign_id
+  ) missed
+  WHERE ce.id = missed.id;
+
+  GET DIAGNOSTICS skipped = ROW_COUNT;
+  RETURN skipped;
+END;
+$$ LANGUAGE plpgsql;
+
+-- Each active enrollment's next step, when that step is due as of the given
+-- time. In automatic sequences, steps that fell due before the campaign went
+-- live aren't; activated_at is returned so the scheduler can check the same.
+-- Manual sequences send to whoever the admin enrolled, so it's NULL there.
+DROP FUNCTION IF EXISTS get_due_sequence_steps(UUID, TIMESTAMP WITH TIME ZONE);
+CREATE OR REPLACE FUNCTION get_due_sequence_steps(
+  campaign_id_param UUID,
+  as_of_param TIMESTAMP WITH TIME ZONE DEFAULT NOW()
+)
+RETURNS TABLE (
+  visitor_id UUID,
+  visit_date TIMESTAMP WITH TIME ZONE,
+  step_id UUID,
+  step_order INTEGER,
+  delay_hours INTEGER,
+  activated_at TIMESTAMP WITH TIME ZONE
+) AS $$
+BEGIN
+  RETURN QUERY
+  SELECT
+    ce.visitor_id,
+    v.visit_date,
+    s.id,
+    s.step_order,
+    s.delay_hours,
+    CASE WHEN c.trigger_condition = 'manual' THEN NULL ELSE c.activated_at END
+  FROM campaign_enrollments ce
+  JOIN follow_up_campaigns c ON c.id = ce.campaign_id
+  JOIN visitors v ON v.id = ce.visitor_id
+  JOIN LATERAL (
+    SELECT cs.id, cs.step_order, cs.delay_hours
+    FROM campaign_steps cs
+    WHERE cs.campaign_id = ce.campaign_id AND cs.step_order > ce.current_step
+    ORDER BY cs.step_order
+    LIMIT 1
+  ) s ON true
+  WHERE
+    ce.campaign_id = campaign_id_param AND
+    ce.status = 'active' AND
+    v.visit_date + make_interval(hours => s.delay_hours) <= as_of_param AND
+    (
+      c.trigger_condition = 'manual' OR
+      c.activated_at IS NULL OR
+      v.visit_date + make_interval(hours => s.delay_hours) >= c.activated_at
+    );
+END;
+$$ LANGUAGE plpgsql;
+
+-- Visitors whose next step is the given step, in the same shape as
+-- get_eligible_visitors so the Edge Function can treat them alike
+CREATE OR REPLACE FUNCTION get_sequence_step_visitors(
+  campaign_id_param UUID,
+  step_id_param UUID
+)
+RETURNS TABLE (
+  visitor_id UUID,
+  visitor_name TEXT,
+  visitor_email TEXT,
+  visitor_phone TEXT,
+  property_id UUID,
+  property_name TEXT,
+  property_address TEXT,
+  visit_date TIMESTAMP WITH TIME ZONE,
+  interested BOOLEAN,
+  has_feedback BOOLEAN
+) AS $$
+BEGIN
+  RETURN QUERY
+  SELECT
+    v.id as visitor_id,
+    v.name as visitor_name,
+    v.email as visitor_email,
+    v.phone as visitor_phone,
+    v.property_id as property_id,
+    p.name as property_name,
+    p.address as property_address,
+    v.visit_date,
+    COALESCE(f.interested, false) as interested,
+    (f.id IS NOT NULL) as has_feedback
+  FROM campaign_enrollments ce
+  JOIN campaign_steps s ON s.id = step_id_param AND s.campaign_id = ce.campaign_id
+  JOIN visitors v ON v.id = ce.visitor_id
+  LEFT JOIN properties p ON v.property_id = p.id
+  LEFT JOIN LATERAL (
+    SELECT fb.id, fb.interested FROM feedback fb
+    WHERE fb.visitor_id = v.id
+    ORDER BY fb.created_at DESC
+    LIMIT 1
+  ) f ON true
+  WHERE
+    ce.campaign_id = campaign_id_param AND
+    ce.status = 'active' AND
+    ce.current_step < s.step_order AND
+    NOT EXISTS (
+      SELECT 1 FROM campaign_steps earlier
+      WHERE earlier.campaign_id = ce.campaign_id
+      AND earlier.step_order > ce.current_step
+      AND earlier.step_order < s.step_order
+    );
+END;
+$$ LANGUAGE plpgsql;
+
+-- Move an enrollment past a step once it has been sent (or skipped because
+-- the visitor can't receive that channel). Completes it after the last step.
+CREATE OR REPLACE FUNCTION advance_enrollment(
+  campaign_id_param UUID,
+  visitor_id_param UUID,
+  step_order_param INTEGER
+)
+RETURNS VOID AS $$
+DECLARE
+  is_last_step BOOLEAN;
+BEGIN
+  SELECT NOT EXISTS (
+    SELECT 1 FROM campaign_steps
+    WHERE campaign_id = campaign_id_param AND step_order > step_order_param
+  ) INTO is_last_step;
+
+  UPDATE campaign_enrollments
+  SET
+    current_step = step_order_param,
+    last_step_at = NOW(),
+    status = CASE WHEN is_last_step THEN 'completed' ELSE status END,
+    ended_at = CASE WHEN is_last_step THEN NOW() ELSE ended_at END
+  WHERE
+    campaign_id = campaign_id_param AND
+    visitor_id = visitor_id_param AND
+    status = 'active' AND
+    current_step < step_order_param;
+END;
+$$ LANGUAGE plpgsql;
+
+-- Record that one of the caller's visitors made an offer and take them out
+-- of every sequence that exits on offers. Admins can't update visitors
+-- directly under RLS, so this checks ownership itself.
+CREATE OR REPLACE FUNCTION mark_visitor_offer_made(visitor_id_param UUID)
+RETURNS VOID AS $$
+BEGIN
+  IF NOT EXISTS (
+    SELECT 1
+    FROM visitors v
+    JOIN properties p ON p.id = v.property_id
+    JOIN admins a ON a.id = p.admin_id
+    WHERE v.id = visitor_id_param AND a.user_id = auth.uid()
+  ) THEN
+    RAISE EXCEPTION 'Visitor not found';
+  END IF;
+
+  UPDATE visitors
+  SET made_offer_at = COALESCE(made_offer_at, NOW())
+  WHERE id = visitor_id_param;
+
+  UPDATE campaign_enrollments ce
+  SET status = 'exited', exit_reason = 'made_offer', ended_at = NOW()
+  FROM follow_up_campaigns c
+  WHERE
+    c.id = ce.campaign_id AND
+    ce.visitor_id = visitor_id_param AND
+    ce.status = 'active' AND
+    'made_offer' = ANY(c.exit_conditions);
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+GRANT EXECUTE ON FUNCTION mark_visitor_offer_made(UUID) TO authenticated;
+GRANT EXECUTE ON FUNCTION enroll_sequence_visitors(UUID) TO service_role;
+GRANT EXECUTE ON FUNCTION exit_sequence_visitors(UUID) TO service_role;
+GRANT EXECUTE ON FUNCTION skip_missed_sequence_steps(UUID) TO service_role;
+GRANT EXECUTE ON FUNCTION get_due_sequence_steps(UUID, TIMESTAMP WITH TIME ZONE) TO service_role;
+GRANT EXECUTE ON FUNCTION get_sequence_step_visitors(UUID, UUID) TO service_role;
+GRANT EXECUTE ON FUNCTION advance_enrollment(UUID, UUID, INTEGER) TO service_role;
+
+SELECT 'Drip sequences setup complete' as status;
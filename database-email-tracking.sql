@@ -0,0 +1,187 @@
+-- Email Open and Click Tracking Setup
+-- Run this in your Supabase SQL Editor after database-campaign-analytics.sql
+
+-- Tracking is on by default; turn it off per campaign for privacy
+ALTER TABLE follow_up_campaigns ADD COLUMN IF NOT EXISTS tracking_enabled BOOLEAN NOT NULL DEFAULT true;
+
+-- One row per click on a tracked link. The first click on a message also
+-- sets follow_up_logs.clicked_at.
+CREATE TABLE IF NOT EXISTS follow_up_link_clicks (
+  id UUID PRIMARY KEY DEFAULT uuid_generate_v4(),
+  log_id UUID NOT NULL REFERENCES follow_up_logs(id) ON DELETE CASCADE,
+  url TEXT NOT NULL,
+  clicked_at TIMESTAMP WITH TIME ZONE DEFAULT NOW()
+);
+
+CREATE INDEX IF NOT EXISTS idx_follow_up_link_clicks_log_id ON follow_up_link_clicks(log_id);
+
+ALTER TABLE follow_up_link_clicks ENABLE ROW LEVEL SECURITY;
+
+-- Clicks are recorded by the tracking route with the service role
+CREATE POLICY "Admins can view clicks on their messages" ON follow_up_link_clicks
+  FOR SELECT USING (
+    log_id IN (
+      SELECT id FROM follow_up_logs
+      WHERE admin_id IN (SELECT id FROM admins WHERE user_id = auth.uid())
+    )
+  );
+
+-- Now takes an optional log id, chosen by the sender so tracked links can
+-- refer to the log before it exists, and records the step's id (see
+-- database-drip-sequences.sql). Otherwise unchanged from
+-- database-follow-up-queue.sql.
+DROP FUNCTION IF EXISTS enqueue_follow_up_message(UUID, UUID, UUID, UUID, UUID, TEXT, TEXT, TEXT, TEXT, TEXT, INTEGER, TEXT, JSONB);
+DROP FUNCTION IF EXISTS enqueue_follow_up_message(UUID, UUID, UUID, UUID, UUID, UUID, TEXT, TEXT, TEXT, TEXT, TEXT, INTEGER, TEXT, JSONB);
+
+CREATE OR REPLACE FUNCTION enqueue_follow_up_message(
+  log_id_param UUID,
+  batch_id_param UUID,
+  visitor_id_param UUID,
+  campaign_id_param UUID,
+  property_id_param UUID,
+  admin_id_param UUID,
+  channel_param TEXT,
+  recipient_email_param TEXT,
+  recipient_phone_param TEXT,
+  subject_param TEXT,
+  message_content_param TEXT,
+  step_order_param INTEGER,
+  step_id_param UUID,
+  provider_param TEXT,
+  payload_param JSONB
+)
+RETURNS UUID AS $$
+DECLARE
+  new_log_id UUID;
+BEGIN
+  INSERT INTO follow_up_logs (
+    id, visitor_id, campaign_id, property_id, admin_id, message_type,
+    recipient_email, recipient_phone, subject, message_content, step_order, step_id,
+    provider, status
+  )
+  VALUES (
+    COALESCE(log_id_param, uuid_generate_v4()), visitor_id_param, campaign_id_param, property_id_param, admin_id_param, channel_param,
+    recipient_email_param, recipient_phone_param, subject_param, message_content_param, step_order_param, step_id_param,
+    provider_param, 'pending'
+  )
+  RETURNING id INTO new_log_id;
+
+  INSERT INTO follow_up_jobs (log_id, batch_id, admin_id, channel, provider, payload)
+  VALUES (new_log_id, batch_id_param, admin_id_param, channel_param, provider_param, payload_param);
+
+  RETURN new_log_id;
+EXCEPTION WHEN unique_violation THEN
+  RETURN NULL;
+END;
+$$ LANGUAGE plpgsql;
+
+-- Adds per-link click counts ('links'). Otherwise unchanged from
+-- database-campaign-analytics.sql.
+CREATE OR REPLACE FUNCTION get_campaign_analytics(
+  campaign_id_param UUID,
+  property_id_param UUID DEFAULT NULL,
+  date_from_param DATE DEFAULT NULL,
+  date_to_param DATE DEFAULT NULL,
+  message_type_param TEXT DEFAULT NULL,
+  time_zone_param TEXT DEFAULT 'UTC'
+)
+RETURNS JSONB AS $$
+  WITH filtered AS (
+    SELECT
+      l.*,
+      (l.sent_at AT TIME ZONE time_zone_param)::date as sent_day
+    FROM follow_up_logs l
+    WHERE
+      l.campaign_id = campaign_id_param AND
+      l.status <> 'pending' AND
+      (property_id_param IS NULL OR l.property_id = property_id_param) AND
+      (message_type_param IS NULL OR message_type_param = 'both' OR l.message_type = message_type_param) AND
+      (date_from_param IS NULL OR (l.sent_at AT TIME ZONE time_zone_param)::date >= date_from_param) AND
+      (date_to_param IS NULL OR (l.sent_at AT TIME ZONE time_zone_param)::date <= date_to_param)
+  )
+  SELECT jsonb_build_object(
+    'funnel', (
+      SELECT jsonb_build_object(
+        'sent', COUNT(*),
+        'delivered', COUNT(delivered_at),
+        'opened', COUNT(opened_at),
+        'clicked', COUNT(clicked_at),
+        'failed', COUNT(CASE WHEN status = 'failed' THEN 1 END),
+        'bounced', COUNT(CASE WHEN status = 'bounced' THEN 1 END)
+      )
+      FROM filtered
+    ),
+    'daily', COALESCE((
+      SELECT jsonb_agg(jsonb_build_object('day', sent_day, 'sent', sent, 'failed', failed) ORDER BY sent_day)
+      FROM (
+        SELECT
+          sent_day,
+          COUNT(*) as sent,
+          COUNT(CASE WHEN status IN ('failed', 'bounced') THEN 1 END) as failed
+        FROM filtered
+        GROUP BY sent_day
+      ) days
+    ), '[]'::jsonb),
+    'failure_reasons', COALESCE((
+      SELECT jsonb_agg(jsonb_build_object('reason', reason, 'count', count) ORDER BY count DESC)
+      FROM (
+        SELECT
+          COALESCE(NULLIF(TRIM(error_message), ''), 'No reason given') as reason,
+          COUNT(*) as count
+        FROM filtered
+        WHERE status IN ('failed', 'bounced')
+        GROUP BY 1
+        ORDER BY 2 DESC
+        LIMIT 10
+      ) reasons
+    ), '[]'::jsonb),
+    'by_property', COALESCE((
+      SELECT jsonb_agg(row_to_json(properties_breakdown) ORDER BY properties_breakdown.sent DESC)
+      FROM (
+        SELECT
+          f.property_id,
+          COALESCE(p.name, 'Unknown property') as property_name,
+          COUNT(*) as sent,
+          COUNT(f.delivered_at) as delivered,
+          COUNT(f.opened_at) as opened,
+          COUNT(f.clicked_at) as clicked,
+          COUNT(CASE WHEN f.status IN ('failed', 'bounced') THEN 1 END) as failed
+        FROM filtered f
+        LEFT JOIN properties p ON p.id = f.property_id
+        GROUP BY f.property_id, p.name
+      ) properties_breakdown
+    ), '[]'::jsonb),
+    'by_channel', COALESCE((
+      SELECT jsonb_agg(row_to_json(channels) ORDER BY channels.channel)
+      FROM (
+        SELECT
+          message_type as channel,
+          COUNT(*) as sent,
+          COUNT(delivered_at) as delivered,
+          COUNT(opened_at) as opened,
+          COUNT(clicked_at) as clicked,
+          COUNT(CASE WHEN status IN ('failed', 'bounced') THEN 1 END) as failed
+        FROM filtered
+        GROUP BY message_type
+      ) channels
+    ), '[]'::jsonb),
+    'links', COALESCE((
+      SELECT jsonb_agg(jsonb_build_object('url', url, 'clicks', clicks, 'unique_clicks', unique_clicks) ORDER BY clicks DESC)
+      FROM (
+        SELECT
+          c.url,
+          COUNT(*) as clicks,
+          COUNT(DISTINCT c.log_id) as unique_clicks
+        FROM follow_up_link_clicks c
+        JOIN filtered f ON f.id = c.log_id
+        GROUP BY c.url
+        ORDER BY 2 DESC
+        LIMIT 25
+      ) links
+    ), '[]'::jsonb)
+  );
+$$ LANGUAGE sql STABLE;
+
+GRANT EXECUTE ON FUNCTION enqueue_follow_up_message(UUID, UUID, UUID, UUID, UUID, UUID, TEXT, TEXT, TEXT, TEXT, TEXT, INTEGER, UUID, TEXT, JSONB) TO service_role;
+
+SELECT 'Email tracking setup complete' as status;
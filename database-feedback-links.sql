@@ -0,0 +1,314 @@
+-- Secure Feedback Links Setup
+-- Run this in your Supabase SQL Editor after database-returning-visitors.sql
+--
+-- Sync any submissions waiting on a kiosk before running this: kiosks now
+-- send feedback with the guest's feedback_token instead of their visitor id.
+
+-- Feedback can only be left with a visitor's feedback_token, which is random
+-- and only ever shown to the visitor (and in follow-ups sent to them). A
+-- token works once and expires two weeks after the visit.
+UPDATE visitors SET feedback_token = uuid_generate_v4() WHERE feedback_token IS NULL;
+ALTER TABLE visitors ALTER COLUMN feedback_token SET NOT NULL;
+
+DROP INDEX IF EXISTS idx_visitors_feedback_token;
+CREATE UNIQUE INDEX IF NOT EXISTS idx_visitors_feedback_token ON visitors(feedback_token);
+
+ALTER TABLE visitors ADD COLUMN IF NOT EXISTS feedback_token_expires_at TIMESTAMP WITH TIME ZONE;
+ALTER TABLE visitors ADD COLUMN IF NOT EXISTS feedback_token_used_at TIMESTAMP WITH TIME ZONE;
+
+UPDATE visitors
+SET feedback_token_expires_at = visit_date + INTERVAL '14 days'
+WHERE feedback_token_expires_at IS NULL;
+
+UPDATE visitors v
+SET feedback_token_used_at = f.first_feedback
+FROM (SELECT visitor_id, MIN(created_at) as first_feedback FROM feedback GROUP BY visitor_id) f
+WHERE f.visitor_id = v.id AND v.feedback_token_used_at IS NULL;
+
+-- Every check-in gets a fresh token, whatever the client sent
+CREATE OR REPLACE FUNCTION assign_feedback_token()
+RETURNS TRIGGER AS $$
+BEGIN
+  NEW.feedback_token := uuid_generate_v4();
+  NEW.feedback_token_expires_at := COALESCE(NEW.visit_date, NOW()) + INTERVAL '14 days';
+  NEW.feedback_token_used_at := NULL;
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql;
+
+DROP TRIGGER IF EXISTS visitors_assign_feedback_token ON visitors;
+CREATE TRIGGER visitors_assign_feedback_token
+  BEFORE INSERT ON visitors
+  FOR EACH ROW
+  EXECUTE FUNCTION assign_feedback_token();
+
+-- Visitors and feedback were readable, and feedback writable, by anyone with
+-- the anon key, which gave away every token. The public pages now go through
+-- the functions below; admins keep their authenticated access.
+DROP POLICY IF EXISTS "Allow public visitor access" ON visitors;
+DROP POLICY IF EXISTS "Enable read for anonymous users" ON visitors;
+DROP POLICY IF EXISTS "Allow public feedback access" ON feedback;
+DROP POLICY IF EXISTS "Enable read for anonymous users" ON feedback;
+DROP POLICY IF EXISTS "Allow public feedback submission" ON feedback;
+DROP POLICY IF EXISTS "Enable insert for anonymous users" ON feedback;
+DROP POLICY IF EXISTS "Allow public insert on feedback" ON feedback;
+
+REVOKE SELECT ON visitor_feedback_summary FROM anon;
+
+-- Listed every name and email at the latest open house to anyone
+DROP FUNCTION IF EXISTS get_session_visitors_for_property(UUID);
+
+-- Checks a guest in from the property's check-in page and returns their
+-- feedback token. The open house is assigned by assign_visitor_session.
+CREATE OR REPLACE FUNCTION check_in_visitor(check_in JSONB)
+RETURNS UUID AS $$
+DECLARE
+  property_uuid UUID := (check_in->>'property_id')::uuid;
+  token UUID;
+BEGIN
+  IF NOT EXISTS (SELECT 1 FROM properties WHERE id = property_uuid AND status = 'active') THEN
+    RAISE EXCEPTION 'Property not found or not available for check-in';
+  END IF;
+
+  INSERT INTO visitors (
+    property_id, visit_date,
+    name, email, phone,
+    home_buying_status, looking_to_buy_within, budget_range, financing_status,
+    how_did_you_hear, how_did_you_hear_other
+  ) VALUES (
+    property_uuid, NOW(),
+    check_in->>'name', check_in->>'email', check_in->>'phone',
+    check_in->>'home_buying_status', check_in->>'looking_to_buy_within', check_in->>'budget_range', check_in->>'financing_status',
+    check_in->>'how_did_you_hear', NULLIF(check_in->>'how_did_you_hear_other', '')
+  )
+  RETURNING feedback_token INTO token;
+
+  RETURN token;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+-- What the feedback page shows for a token: who it's for and whether it can
+-- still be used. No row means the token doesn't exist.
+CREATE OR REPLACE FUNCTION get_feedback_link(token UUID)
+RETURNS TABLE (
+  first_name TEXT,
+  property_name TEXT,
+  property_address TEXT,
+  status TEXT
+)
+LANGUAGE sql STABLE SECURITY DEFINER
+AS $$
+  SELECT
+    SPLIT_PART(TRIM(v.name), ' ', 1),
+    p.name,
+    p.address,
+    CASE
+      WHEN v.feedback_token_used_at IS NOT NULL THEN 'used'
+      WHEN v.feedback_token_expires_at < NOW() THEN 'expired'
+      ELSE 'open'
+    END
+  FROM visitors v
+  LEFT JOIN properties p ON p.id = v.property_id
+  WHERE v.feedback_token = token;
+$$;
+
+-- Shared by submit_feedback and sync_kiosk_feedback once they've checked the
+-- token. Not callable from the app.
+CREATE OR REPLACE FUNCTION insert_token_feedback(visitor_id_param UUID, feedback_data JSONB, submitted_at TIMESTAMP WITH TIME ZONE)
+RETURNS UUID AS $$
+DECLARE
+  feedback_uuid UUID;
+BEGIN
+  INSERT INTO feedback (
+    client_submission_id, visitor_id, created_at,
+    rating, comments, interested, liked_most, liked_least,
+    comparison_to_others, meets_needs, would_make_offer, perceived_value, follow_up_preference
+  ) VALUES (
+    NULLIF(feedback_data->>'client_id', '')::uuid, visitor_id_param, submitted_at,
+    (feedback_data->>'rating')::integer, COALESCE(feedback_data->>'comments', ''), COALESCE((feedback_data->>'interested')::boolean, false),
+    COALESCE(feedback_data->>'liked_most', ''), COALESCE(feedback_data->>'liked_least', ''),
+    feedback_data->>'comparison_to_others', feedback_data->>'meets_needs', feedback_data->>'would_make_offer',
+    COALESCE(feedback_data->>'perceived_value', ''), feedback_data->>'follow_up_preference'
+  )
+  RETURNING id INTO feedback_uuid;
+
+  UPDATE visitors SET feedback_token_used_at = NOW() WHERE id = visitor_id_param;
+
+  RETURN feedback_uuid;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+REVOKE EXECUTE ON FUNCTION insert_token_feedback(UUID, JSONB, TIMESTAMP WITH TIME ZONE) FROM PUBLIC, anon, authenticated;
+
+-- Saves feedback from a feedback link and uses up the token
+CREATE OR REPLACE FUNCTION submit_feedback(token UUID, feedback_data JSONB)
+RETURNS UUID AS $$
+DECLARE
+  visitor_row visitors%ROWTYPE;
+BEGIN
+  -- Locked so two tabs submitting at once can't both get through
+  SELECT * INTO visitor_row FROM visitors WHERE feedback_token = token FOR UPDATE;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'This feedback link is not valid';
+  END IF;
+
+  IF visitor_row.feedback_token_used_at IS NOT NULL THEN
+    RAISE EXCEPTION 'Feedback has already been submitted for this visit';
+  END IF;
+
+  IF visitor_row.feedback_token_expires_at < NOW() THEN
+    RAISE EXCEPTION 'This feedback link has expired';
+  END IF;
+
+  RETURN insert_token_feedback(visitor_row.id, feedback_data - 'client_id', NOW());
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+-- For the property feedback page: a guest proves who they are with the email
+-- and phone they checked in with, and gets their token for the property's
+-- current or most recent open house.
+CREATE OR REPLACE FUNCTION confirm_feedback_visitor(property_uuid UUID, email_param TEXT, phone_param TEXT)
+RETURNS UUID AS $$
+DECLARE
+  visitor_row visitors%ROWTYPE;
+BEGIN
+  SELECT v.* INTO visitor_row
+  FROM visitors v
+  WHERE v.session_id = (
+      SELECT s.id
+      FROM property_sessions s
+      WHERE s.property_id = property_uuid AND s.started_at IS NOT NULL
+      ORDER BY s.is_active DESC, s.started_at DESC
+      LIMIT 1
+    )
+    AND normalize_email(v.email) = normalize_email(email_param)
+    AND normalize_phone(v.phone) = normalize_phone(phone_param)
+  ORDER BY v.visit_date DESC
+  LIMIT 1;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'We couldn''t find a check-in at this open house with that email and phone number';
+  END IF;
+
+  IF visitor_row.feedback_token_used_at IS NOT NULL THEN
+    RAISE EXCEPTION 'Feedback has already been submitted for this visit';
+  END IF;
+
+  IF visitor_row.feedback_token_expires_at < NOW() THEN
+    RAISE EXCEPTION 'Feedback for this visit has closed';
+  END IF;
+
+  RETURN visitor_row.feedback_token;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+-- Returns the guest's feedback token rather than their id, so the kiosk can
+-- send their feedback later. A repeat check-in at the same open house has
+-- to match on phone as well as email before it gets the first one's token.
+-- Otherwise unchanged from database-kiosk-mode.sql.
+CREATE OR REPLACE FUNCTION sync_kiosk_check_in(check_in JSONB)
+RETURNS UUID AS $$
+DECLARE
+  client_uuid UUID := (check_in->>'client_id')::uuid;
+  property_uuid UUID := (check_in->>'property_id')::uuid;
+  session_uuid UUID := NULLIF(check_in->>'session_id', '')::uuid;
+  token UUID;
+BEGIN
+  SELECT feedback_token INTO token FROM visitors WHERE client_submission_id = client_uuid;
+  IF FOUND THEN
+    RETURN token;
+  END IF;
+
+  SELECT feedback_token INTO token
+  FROM visitors
+  WHERE session_id = session_uuid
+    AND normalize_email(email) = normalize_email(check_in->>'email')
+    AND normalize_phone(phone) = normalize_phone(check_in->>'phone')
+  ORDER BY created_at
+  LIMIT 1;
+  IF FOUND THEN
+    RETURN token;
+  END IF;
+
+  IF NOT EXISTS (SELECT 1 FROM properties WHERE id = property_uuid AND status = 'active') THEN
+    RAISE EXCEPTION 'Property not found or not available for check-in';
+  END IF;
+
+  INSERT INTO visitors (
+    client_submission_id, property_id, session_id, visit_date,
+    name, email, phone,
+    home_buying_status, looking_to_buy_within, budget_range, financing_status,
+    how_did_you_hear, how_did_you_hear_other
+  ) VALUES (
+    client_uuid, property_uuid, session_uuid, COALESCE((check_in->>'visit_date')::timestamptz, NOW()),
+    check_in->>'name', check_in->>'email', check_in->>'phone',
+    check_in->>'home_buying_status', check_in->>'looking_to_buy_within', check_in->>'budget_range', check_in->>'financing_status',
+    check_in->>'how_did_you_hear', NULLIF(check_in->>'how_did_you_hear_other', '')
+  )
+  RETURNING feedback_token INTO token;
+
+  RETURN token;
+EXCEPTION
+  -- Another sync of the same submission won the race
+  WHEN unique_violation THEN
+    SELECT feedback_token INTO token FROM visitors WHERE client_submission_id = client_uuid;
+    RETURN token;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+-- Saves feedback queued on a kiosk, by the guest's feedback token. The guest
+-- gave it at the open house, so a token that has expired since still counts
+-- if the kiosk recorded the feedback while it was valid. The recorded time
+-- comes from the kiosk, so it must fall between the visit and the token's
+-- expiry and can't be in the future; and a queue that hasn't synced within
+-- 30 days of the expiry is refused. Syncing the same feedback again returns
+-- the first copy.
+DROP FUNCTION IF EXISTS sync_kiosk_feedback(UUID, JSONB);
+
+CREATE OR REPLACE FUNCTION sync_kiosk_feedback(token UUID, feedback_data JSONB)
+RETURNS UUID AS $$
+DECLARE
+  client_uuid UUID := (feedback_data->>'client_id')::uuid;
+  submitted TIMESTAMP WITH TIME ZONE := COALESCE((feedback_data->>'submitted_at')::timestamptz, NOW());
+  visitor_row visitors%ROWTYPE;
+  feedback_uuid UUID;
+BEGIN
+  SELECT * INTO visitor_row FROM visitors WHERE feedback_token = token FOR UPDATE;
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Visitor not found';
+  END IF;
+
+  SELECT id INTO feedback_uuid
+  FROM feedback
+  WHERE client_submission_id = client_uuid OR visitor_id = visitor_row.id
+  ORDER BY created_at
+  LIMIT 1;
+  IF FOUND THEN
+    RETURN feedback_uuid;
+  END IF;
+
+  -- A few minutes' allowance for the tablet's clock
+  IF submitted > NOW() + INTERVAL '5 minutes' OR submitted < visitor_row.visit_date - INTERVAL '5 minutes' THEN
+    RAISE EXCEPTION 'Feedback submission time is not valid';
+  END IF;
+
+  IF submitted > visitor_row.feedback_token_expires_at OR NOW() > visitor_row.feedback_token_expires_at + INTERVAL '30 days' THEN
+    RAISE EXCEPTION 'This feedback link has expired';
+  END IF;
+
+  RETURN insert_token_feedback(visitor_row.id, feedback_data, LEAST(submitted, NOW()));
+EXCEPTION
+  WHEN unique_violation THEN
+    SELECT id INTO feedback_uuid FROM feedback WHERE client_submission_id = client_uuid;
+    RETURN feedback_uuid;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+GRANT EXECUTE ON FUNCTION check_in_visitor(JSONB) TO anon, authenticated;
+GRANT EXECUTE ON FUNCTION get_feedback_link(UUID) TO anon, authenticated;
+GRANT EXECUTE ON FUNCTION submit_feedback(UUID, JSONB) TO anon, authenticated;
+GRANT EXECUTE ON FUNCTION confirm_feedback_visitor(UUID, TEXT, TEXT) TO anon, authenticated;
+GRANT EXECUTE ON FUNCTION sync_kiosk_feedback(UUID, JSONB) TO anon, authenticated;
+
+SELECT 'Secure feedback links setup complete' as status;
@@ -0,0 +1,48 @@
+-- Follow-up Log Explorer Setup
+-- Run this in your Supabase SQL Editor after database-bulk-campaign-actions.sql
+
+-- The Logs tab pages through an admin's logs newest first and searches
+-- recipients by substring
+CREATE EXTENSION IF NOT EXISTS pg_trgm;
+
+CREATE INDEX IF NOT EXISTS idx_follow_up_logs_admin_sent_at ON follow_up_logs(admin_id, sent_at DESC);
+CREATE INDEX IF NOT EXISTS idx_follow_up_logs_recipient_email_trgm
+  ON follow_up_logs USING gin (recipient_email gin_trgm_ops);
+CREATE INDEX IF NOT EXISTS idx_follow_up_logs_recipient_phone_trgm
+  ON follow_up_logs USING gin (recipient_phone gin_trgm_ops);
+
+-- Put failed messages back on the send queue. Covers jobs that were
+-- dead-lettered and messages the provider accepted but later reported as
+-- failed. Messages cancelled because the recipient unsubscribed, bounces and
+-- logs from before the queue existed are left alone. Returns the ids of the
+-- logs that were requeued.
+CREATE OR REPLACE FUNCTION retry_failed_follow_up_logs(
+  admin_id_param UUID,
+  log_ids_param UUID[]
+)
+RETURNS SETOF UUID AS $$
+BEGIN
+  RETURN QUERY
+  WITH retried AS (
+    UPDATE follow_up_jobs j
+    SET status = 'queued', attempts = 0, next_attempt_at = NOW(), last_error = NULL, locked_until = NULL
+    FROM follow_up_logs l
+    WHERE
+      j.log_id = l.id AND
+      l.id = ANY(log_ids_param) AND
+      l.admin_id = admin_id_param AND
+      l.status = 'failed' AND
+      j.status IN ('dead', 'sent')
+    RETURNING j.log_id
+  )
+  UPDATE follow_up_logs l
+  SET status = 'pending', error_message = NULL, external_id = NULL, delivered_at = NULL
+  FROM retried
+  WHERE l.id = retried.log_id
+  RETURNING l.id;
+END;
+$$ LANGUAGE plpgsql;
+
+GRANT EXECUTE ON FUNCTION retry_failed_follow_up_logs(UUID, UUID[]) TO service_role;
+
+SELECT 'Follow-up log explorer setup complete' as status;
@@ -0,0 +1,307 @@
+-- Follow-up Queue Setup
+-- Run this in your Supabase SQL Editor after database-messaging-providers.sql and database-drip-sequences.sql
+
+-- Sending a campaign queues one job per message instead of sending inline.
+-- Workers in the send-follow-up Edge Function claim due jobs per provider,
+-- within that provider's rate limit, and retry transient failures with
+-- exponential backoff. A job that runs out of attempts (or fails
+-- permanently) is dead-lettered and only retried from the dashboard.
+--
+-- Each job belongs to the follow_up_logs row that claimed the message. The
+-- log stays 'pending' until the job is sent, and is marked 'failed' when the
+-- job is dead-lettered or cancelled.
+
+-- One "Send" from the dashboard (or one scheduler batch), for progress
+CREATE TABLE IF NOT EXISTS follow_up_batches (
+  id UUID PRIMARY KEY DEFAULT uuid_generate_v4(),
+  campaign_id UUID REFERENCES follow_up_campaigns(id) ON DELETE CASCADE,
+  admin_id UUID REFERENCES admins(id) ON DELETE CASCADE,
+  step_order INTEGER,
+  created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW()
+);
+
+-- Messages are queued in the background after the send returns. Until
+-- enqueued_at is set, the batch's jobs are still being added.
+ALTER TABLE follow_up_batches ADD COLUMN IF NOT EXISTS visitor_count INTEGER NOT NULL DEFAULT 0;
+ALTER TABLE follow_up_batches ADD COLUMN IF NOT EXISTS queued_count INTEGER NOT NULL DEFAULT 0;
+ALTER TABLE follow_up_batches ADD COLUMN IF NOT EXISTS failed_count INTEGER NOT NULL DEFAULT 0;
+ALTER TABLE follow_up_batches ADD COLUMN IF NOT EXISTS skipped_count INTEGER NOT NULL DEFAULT 0;
+ALTER TABLE follow_up_batches ADD COLUMN IF NOT EXISTS errors TEXT[] NOT NULL DEFAULT '{}';
+ALTER TABLE follow_up_batches ADD COLUMN IF NOT EXISTS enqueued_at TIMESTAMP WITH TIME ZONE;
+
+CREATE TABLE IF NOT EXISTS follow_up_jobs (
+  id UUID PRIMARY KEY DEFAULT uuid_generate_v4(),
+  log_id UUID NOT NULL UNIQUE REFERENCES follow_up_logs(id) ON DELETE CASCADE,
+  batch_id UUID REFERENCES follow_up_batches(id) ON DELETE SET NULL,
+  admin_id UUID REFERENCES admins(id) ON DELETE CASCADE,
+  channel TEXT NOT NULL CHECK (channel IN ('email', 'sms')),
+  provider TEXT NOT NULL,
+  -- The fully rendered message, exactly as handed to the provider
+  payload JSONB NOT NULL,
+  status TEXT NOT NULL DEFAULT 'queued' CHECK (status IN ('queued', 'processing', 'sent', 'dead', 'cancelled')),
+  attempts INTEGER NOT NULL DEFAULT 0,
+  max_attempts INTEGER NOT NULL DEFAULT 5,
+  next_attempt_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT NOW(),
+  last_attempt_at TIMESTAMP WITH TIME ZONE,
+  -- A processing job whose lock has expired belongs to a worker that died
+  locked_until TIMESTAMP WITH TIME ZONE,
+  last_error TEXT,
+  created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+  updated_at TIMESTAMP WITH TIME ZONE DEFAULT NOW()
+);
+
+CREATE INDEX IF NOT EXISTS idx_follow_up_jobs_claimable
+  ON follow_up_jobs(provider, next_attempt_at)
+  WHERE status IN ('queued', 'processing');
+CREATE INDEX IF NOT EXISTS idx_follow_up_jobs_provider_attempt ON follow_up_jobs(provider, last_attempt_at);
+CREATE INDEX IF NOT EXISTS idx_follow_up_jobs_batch_id ON follow_up_jobs(batch_id);
+
+CREATE TRIGGER update_follow_up_jobs_updated_at
+  BEFORE UPDATE ON follow_up_jobs
+  FOR EACH ROW EXECUTE FUNCTION update_updated_at_column();
+
+ALTER TABLE follow_up_batches ENABLE ROW LEVEL SECURITY;
+ALTER TABLE follow_up_jobs ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Admins can view their follow-up batches" ON follow_up_batches
+  FOR SELECT USING (
+    admin_id IN (
+      SELECT id FROM admins WHERE user_id = auth.uid()
+    )
+  );
+
+CREATE POLICY "Admins can view their follow-up jobs" ON follow_up_jobs
+  FOR SELECT USING (
+    admin_id IN (
+      SELECT id FROM admins WHERE user_id = auth.uid()
+    )
+  );
+
+-- Claim a message and queue it in one transaction. Returns the new log id,
+-- or NULL when a live log already exists for this visitor, campaign, channel
+-- and step.
+CREATE OR REPLACE FUNCTION enqueue_follow_up_message(
+  batch_id_param UUID,
+  visitor_id_param UUID,
+  campaign_id_param UUID,
+  property_id_param UUID,
+  admin_id_param UUID,
+  channel_param TEXT,
+  recipient_email_param TEXT,
+  recipient_phone_param TEXT,
+  subject_param TEXT,
+  message_content_param TEXT,
+  step_order_param INTEGER,
+  provider_param TEXT,
+  payload_param JSONB
+)
+RETURNS UUID AS $$
+DECLARE
+  new_log_id UUID;
+BEGIN
+  INSERT INTO follow_up_logs (
+    visitor_id, campaign_id, property_id, admin_id, message_type,
+    recipient_email, recipient_phone, subject, message_content, step_order,
+    provider, status
+  )
+  VALUES (
+    visitor_id_param, campaign_id_param, property_id_param, admin_id_param, channel_param,
+    recipient_email_param, recipient_phone_param, subject_param, message_content_param, step_order_param,
+    provider_param, 'pending'
+  )
+  RETURNING id INTO new_log_id;
+
+  INSERT INTO follow_up_jobs (log_id, batch_id, admin_id, channel, provider, payload)
+  VALUES (new_log_id, batch_id_param, admin_id_param, channel_param, provider_param, payload_param);
+
+  RETURN new_log_id;
+EXCEPTION WHEN unique_violation THEN
+  RETURN NULL;
+END;
+$$ LANGUAGE plpgsql;
+
+-- Claim up to limit_param due jobs for one provider, never more than
+-- per_minute_param attempts in any one-minute window across all workers.
+-- Claims for a provider are serialised so concurrent workers can't both
+-- spend the same allowance.
+CREATE OR REPLACE FUNCTION claim_follow_up_jobs(
+  provider_param TEXT,
+  per_minute_param INTEGER,
+  limit_param INTEGER,
+  lock_seconds_param INTEGER DEFAULT 120
+)
+RETURNS SETOF follow_up_jobs AS $$
+DECLARE
+  allowance INTEGER;
+BEGIN
+  PERFORM pg_advisory_xact_lock(hashtext('follow_up_jobs:' || provider_param));
+
+  SELECT per_minute_param - COUNT(*)::INTEGER INTO allowance
+  FROM follow_up_jobs
+  WHERE provider = provider_param
+  AND last_attempt_at > NOW() - INTERVAL '1 minute';
+
+  IF allowance <= 0 THEN
+    RETURN;
+  END IF;
+
+  RETURN QUERY
+  UPDATE follow_up_jobs j
+  SET
+    status = 'processing',
+    attempts = j.attempts + 1,
+    last_attempt_at = NOW(),
+    locked_until = NOW() + make_interval(secs => lock_seconds_param)
+  WHERE j.id IN (
+    SELECT id FROM follow_up_jobs
+    WHERE provider = provider_param
+    AND (
+      (status = 'queued' AND next_attempt_at <= NOW()) OR
+      (status = 'processing' AND locked_until < NOW())
+    )
+    ORDER BY next_attempt_at
+    LIMIT LEAST(limit_param, allowance)
+    FOR UPDATE SKIP LOCKED
+  )
+  RETURNING j.*;
+END;
+$$ LANGUAGE plpgsql;
+
+-- Record a worker's outcome on both the job and its log.
+--   sent:      delivered to the provider
+--   queued:    transient failure, try again at next_attempt_param
+--   dead:      out of attempts or permanently rejected
+--   cancelled: the recipient unsubscribed while the job was waiting
+CREATE OR REPLACE FUNCTION complete_follow_up_job(
+  job_id_param UUID,
+  status_param TEXT,
+  external_id_param TEXT DEFAULT NULL,
+  error_param TEXT DEFAULT NULL,
+  next_attempt_param TIMESTAMP WITH TIME ZONE DEFAULT NULL
+)
+RETURNS VOID AS $$
+DECLARE
+  job_log_id UUID;
+BEGIN
+  UPDATE follow_up_jobs
+  SET
+    status = status_param,
+    last_error = error_param,
+    locked_until = NULL,
+    next_attempt_at = COALESCE(next_attempt_param, next_attempt_at)
+  WHERE id = job_id_param
+  RETURNING log_id INTO job_log_id;
+
+  IF status_param = 'sent' THEN
+    UPDATE follow_up_logs
+    SET status = 'sent', external_id = external_id_param, error_message = NULL, sent_at = NOW()
+    WHERE id = job_log_id;
+  ELSIF status_param IN ('dead', 'cancelled') THEN
+    UPDATE follow_up_logs
+    SET status = 'failed', error_message = error_param, sent_at = NOW()
+    WHERE id = job_log_id;
+  ELSE
+    UPDATE follow_up_logs
+    SET error_message = error_param
+    WHERE id = job_log_id;
+  END IF;
+END;
+$$ LANGUAGE plpgsql;
+
+-- Put a dead-lettered job back on the queue from the dashboard
+CREATE OR REPLACE FUNCTION retry_follow_up_job(job_id_param UUID)
+RETURNS VOID AS $$
+DECLARE
+  job_log_id UUID;
+BEGIN
+  UPDATE follow_up_jobs
+  SET status = 'queued', attempts = 0, next_attempt_at = NOW(), last_error = NULL
+  WHERE
+    id = job_id_param AND
+    status = 'dead' AND
+    admin_id IN (SELECT id FROM admins WHERE user_id = auth.uid())
+  RETURNING log_id INTO job_log_id;
+
+  IF job_log_id IS NULL THEN
+    RAISE EXCEPTION 'Job not found or not dead-lettered';
+  END IF;
+
+  UPDATE follow_up_logs
+  SET status = 'pending', error_message = NULL
+  WHERE id = job_log_id;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+-- Dead-lettered messages no longer make a visitor eligible again, otherwise
+-- the scheduler would re-queue them every run. Otherwise unchanged from
+-- database-unsubscribe.sql.
+CREATE OR REPLACE FUNCTION get_eligible_visitors(
+  campaign_id_param UUID,
+  property_id_param UUID DEFAULT NULL
+)
+RETURNS TABLE (
+  visitor_id UUID,
+  visitor_name TEXT,
+  visitor_email TEXT,
+  visitor_phone TEXT,
+  property_id UUID,
+  property_name TEXT,
+  property_address TEXT,
+  visit_date TIMESTAMP WITH TIME ZONE,
+  interested BOOLEAN,
+  has_feedback BOOLEAN
+) AS $$
+BEGIN
+  RETURN QUERY
+  SELECT
+    v.id as visitor_id,
+    v.name as visitor_name,
+    v.email as visitor_email,
+    v.phone as visitor_phone,
+    v.property_id as property_id,
+    p.name as property_name,
+    p.address as property_address,
+    v.visit_date,
+    COALESCE(f.interested, false) as interested,
+    (f.id IS NOT NULL) as has_feedback
+  FROM visitors v
+  LEFT JOIN properties p ON v.property_id = p.id
+  LEFT JOIN feedback f ON v.id = f.visitor_id
+  LEFT JOIN follow_up_campaigns c ON c.id = campaign_id_param
+  WHERE
+    -- Property filter
+    (property_id_param IS NULL OR v.property_id = property_id_param) AND
+    -- Campaign property filter
+    (c.property_id IS NULL OR v.property_id = c.property_id) AND
+    -- At least one of the campaign's channels is still open
+    (
+      (c.message_type IN ('email', 'both') AND NOT is_unsubscribed(v.email, v.phone, 'email')) OR
+      (c.message_type IN ('sms', 'both') AND NOT is_unsubscribed(v.email, v.phone, 'sms'))
+    ) AND
+    -- Trigger condition filter
+    CASE
+      WHEN c.trigger_condition = 'interested' THEN COALESCE(f.interested, false) = true
+      WHEN c.trigger_condition = 'no_feedback' THEN f.id IS NULL
+      WHEN c.trigger_condition = 'all' THEN true
+      WHEN c.trigger_condition = 'manual' THEN true
+      ELSE false
+    END AND
+    -- Not already sent (or queued, or dead-lettered) for this campaign
+    NOT EXISTS (
+      SELECT 1 FROM follow_up_logs fl
+      WHERE fl.visitor_id = v.id
+      AND fl.campaign_id = campaign_id_param
+      AND (
+        fl.status NOT IN ('failed') OR
+        EXISTS (SELECT 1 FROM follow_up_jobs j WHERE j.log_id = fl.id AND j.status = 'dead')
+      )
+    );
+END;
+$$ LANGUAGE plpgsql;
+
+GRANT EXECUTE ON FUNCTION enqueue_follow_up_message(UUID, UUID, UUID, UUID, UUID, TEXT, TEXT, TEXT, TEXT, TEXT, INTEGER, TEXT, JSONB) TO service_role;
+GRANT EXECUTE ON FUNCTION claim_follow_up_jobs(TEXT, INTEGER, INTEGER, INTEGER) TO service_role;
+GRANT EXECUTE ON FUNCTION complete_follow_up_job(UUID, TEXT, TEXT, TEXT, TIMESTAMP WITH TIME ZONE) TO service_role;
+GRANT EXECUTE ON FUNCTION retry_follow_up_job(UUID) TO authenticated;
+
+SELECT 'Follow-up queue setup complete' as status;
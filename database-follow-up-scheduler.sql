@@ -0,0 +1,93 @@
+-- Scheduled Follow-up Dispatch Setup
+-- Run this in your Supabase SQL Editor after database-followup-system.sql
+
+-- At most one live (non-failed) message per visitor, campaign and channel.
+-- The send-follow-up Edge Function inserts a 'pending' log to claim a message
+-- before sending it, so a retried or overlapping run cannot send it twice.
+-- Failed messages are excluded so they can still be retried.
+--
+-- Databases that have already double-sent hold duplicates the index would
+-- reject. Keep the most recently sent live log of each (logs without a
+-- sent_at lose) and mark the others failed.
+UPDATE follow_up_logs l
+SET
+  status = 'failed',
+  error_message = COALESCE(l.error_message, 'Duplicate of a later message')
+FROM (
+  SELECT
+    id,
+    ROW_NUMBER() OVER (
+      PARTITION BY campaign_id, visitor_id, message_type
+      ORDER BY sent_at DESC NULLS LAST, id DESC
+    ) AS position
+  FROM follow_up_logs
+  -- Logs of deleted campaigns never collide (NULLs are distinct)
+  WHERE status <> 'failed' AND campaign_id IS NOT NULL
+) duplicates
+WHERE l.id = duplicates.id AND duplicates.position > 1;
+
+CREATE UNIQUE INDEX IF NOT EXISTS idx_follow_up_logs_one_live_message
+  ON follow_up_logs(campaign_id, visitor_id, message_type)
+  WHERE status <> 'failed';
+
+-- When the campaign last went live: created active, resumed from paused, or
+-- switched from manual to automatic. The scheduler only sends to visitors
+-- who became due after this, so turning a campaign on (or deploying the
+-- scheduler) doesn't message every past visitor at once.
+ALTER TABLE follow_up_campaigns ADD COLUMN IF NOT EXISTS activated_at TIMESTAMP WITH TIME ZONE;
+UPDATE follow_up_campaigns SET activated_at = NOW() WHERE activated_at IS NULL;
+ALTER TABLE follow_up_campaigns ALTER COLUMN activated_at SET DEFAULT NOW();
+
+CREATE OR REPLACE FUNCTION set_campaign_activated_at()
+RETURNS TRIGGER AS $$
+BEGIN
+  IF NEW.status = 'active' AND (
+    OLD.status IS DISTINCT FROM 'active' OR
+    (OLD.trigger_condition = 'manual' AND NEW.trigger_condition <> 'manual')
+  ) THEN
+    NEW.activated_at := NOW();
+  END IF;
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql;
+
+DROP TRIGGER IF EXISTS set_follow_up_campaigns_activated_at ON follow_up_campaigns;
+CREATE TRIGGER set_follow_up_campaigns_activated_at
+  BEFORE UPDATE ON follow_up_campaigns
+  FOR EACH ROW EXECUTE FUNCTION set_campaign_activated_at();
+
+-- Visitors eligible for a campaign whose visit_date + delay_hours has passed
+-- as of the given time, since the campaign went live. The scheduler passes
+-- its own clock so runs can be replayed at any point in time.
+CREATE OR REPLACE FUNCTION get_due_visitors(
+  campaign_id_param UUID,
+  as_of_param TIMESTAMP WITH TIME ZONE DEFAULT NOW()
+)
+RETURNS TABLE (
+  visitor_id UUID,
+  visitor_name TEXT,
+  visitor_email TEXT,
+  visitor_phone TEXT,
+  property_id UUID,
+  property_name TEXT,
+  property_address TEXT,
+  visit_date TIMESTAMP WITH TIME ZONE,
+  interested BOOLEAN,
+  has_feedback BOOLEAN
+) AS $$
+BEGIN
+  RETURN QUERY
+  SELECT e.*
+  FROM get_eligible_visitors(campaign_id_param) e
+  JOIN follow_up_campaigns c ON c.id = campaign_id_param
+  WHERE
+    c.status = 'active' AND
+    c.trigger_condition <> 'manual' AND
+    e.visit_date + make_interval(hours => COALESCE(c.delay_hours, 0)) <= as_of_param AND
+    e.visit_date + make_interval(hours => COALESCE(c.delay_hours, 0)) >= c.activated_at;
+END;
+$$ LANGUAGE plpgsql;
+
+GRANT EXECUTE ON FUNCTION get_due_visitors(UUID, TIMESTAMP WITH TIME ZONE) TO service_role;
+
+SELECT 'Scheduled follow-up dispatch setup complete' as status;
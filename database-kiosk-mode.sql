@@ -0,0 +1,108 @@
+-- Kiosk Mode Setup
+-- Run this in your Supabase SQL Editor after database-open-house-sessions.sql
+
+-- A kiosk gives every check-in and feedback an id when it is submitted on the
+-- tablet, before it reaches the database. Syncing the same submission again
+-- (e.g. after a timeout that actually succeeded) finds the first copy
+-- instead of creating a duplicate.
+ALTER TABLE visitors ADD COLUMN IF NOT EXISTS client_submission_id UUID UNIQUE;
+ALTER TABLE feedback ADD COLUMN IF NOT EXISTS client_submission_id UUID UNIQUE;
+
+-- Saves a check-in queued on a kiosk and returns the visitor's id. The
+-- session is the one running when the guest checked in, which may have
+-- ended by the time the kiosk is back online. A guest who checks in twice
+-- at the same open house keeps their first check-in.
+CREATE OR REPLACE FUNCTION sync_kiosk_check_in(check_in JSONB)
+RETURNS UUID AS $$
+DECLARE
+  client_uuid UUID := (check_in->>'client_id')::uuid;
+  property_uuid UUID := (check_in->>'property_id')::uuid;
+  session_uuid UUID := NULLIF(check_in->>'session_id', '')::uuid;
+  visitor_uuid UUID;
+BEGIN
+  SELECT id INTO visitor_uuid FROM visitors WHERE client_submission_id = client_uuid;
+  IF FOUND THEN
+    RETURN visitor_uuid;
+  END IF;
+
+  SELECT id INTO visitor_uuid
+  FROM visitors
+  WHERE session_id = session_uuid AND LOWER(email) = LOWER(check_in->>'email')
+  ORDER BY created_at
+  LIMIT 1;
+  IF FOUND THEN
+    RETURN visitor_uuid;
+  END IF;
+
+  IF NOT EXISTS (SELECT 1 FROM properties WHERE id = property_uuid AND status = 'active') THEN
+    RAISE EXCEPTION 'Property not found or not available for check-in';
+  END IF;
+
+  INSERT INTO visitors (
+    client_submission_id, property_id, session_id, visit_date,
+    name, email, phone,
+    home_buying_status, looking_to_buy_within, budget_range, financing_status,
+    how_did_you_hear, how_did_you_hear_other
+  ) VALUES (
+    client_uuid, property_uuid, session_uuid, COALESCE((check_in->>'visit_date')::timestamptz, NOW()),
+    check_in->>'name', check_in->>'email', check_in->>'phone',
+    check_in->>'home_buying_status', check_in->>'looking_to_buy_within', check_in->>'budget_range', check_in->>'financing_status',
+    check_in->>'how_did_you_hear', NULLIF(check_in->>'how_did_you_hear_other', '')
+  )
+  RETURNING id INTO visitor_uuid;
+
+  RETURN visitor_uuid;
+EXCEPTION
+  -- Another sync of the same submission won the race
+  WHEN unique_violation THEN
+    SELECT id INTO visitor_uuid FROM visitors WHERE client_submission_id = client_uuid;
+    RETURN visitor_uuid;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+-- Saves feedback queued on a kiosk. Visitors leave feedback once, so a
+-- visitor who already has some keeps it.
+CREATE OR REPLACE FUNCTION sync_kiosk_feedback(visitor_id_param UUID, feedback_data JSONB)
+RETURNS UUID AS $$
+DECLARE
+  client_uuid UUID := (feedback_data->>'client_id')::uuid;
+  feedback_uuid UUID;
+BEGIN
+  SELECT id INTO feedback_uuid
+  FROM feedback
+  WHERE client_submission_id = client_uuid OR visitor_id = visitor_id_param
+  ORDER BY created_at
+  LIMIT 1;
+  IF FOUND THEN
+    RETURN feedback_uuid;
+  END IF;
+
+  IF NOT EXISTS (SELECT 1 FROM visitors WHERE id = visitor_id_param) THEN
+    RAISE EXCEPTION 'Visitor not found';
+  END IF;
+
+  INSERT INTO feedback (
+    client_submission_id, visitor_id, created_at,
+    rating, comments, interested, liked_most, liked_least,
+    comparison_to_others, meets_needs, would_make_offer, perceived_value, follow_up_preference
+  ) VALUES (
+    client_uuid, visitor_id_param, COALESCE((feedback_data->>'submitted_at')::timestamptz, NOW()),
+    (feedback_data->>'rating')::integer, COALESCE(feedback_data->>'comments', ''), COALESCE((feedback_data->>'interested')::boolean, false),
+    COALESCE(feedback_data->>'liked_most', ''), COALESCE(feedback_data->>'liked_least', ''),
+    feedback_data->>'comparison_to_others', feedback_data->>'meets_needs', feedback_data->>'would_make_offer',
+    COALESCE(feedback_data->>'perceived_value', ''), feedback_data->>'follow_up_preference'
+  )
+  RETURNING id INTO feedback_uuid;
+
+  RETURN feedback_uuid;
+EXCEPTION
+  WHEN unique_violation THEN
+    SELECT id INTO feedback_uuid FROM feedback WHERE client_submission_id = client_uuid;
+    RETURN feedback_uuid;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+GRANT EXECUTE ON FUNCTION sync_kiosk_check_in(JSONB) TO anon, authenticated;
+GRANT EXECUTE ON FUNCTION sync_kiosk_feedback(UUID, JSONB) TO anon, authenticated;
+
+SELECT 'Kiosk mode setup complete' as status;
@@ -0,0 +1,376 @@
+-- Lead Scoring Setup
+-- Run this in your Supabase SQL Editor after database-visitor-activity.sql
+
+-- Each visitor's score is the sum of the points their check-in and latest
+-- feedback answers are worth, and its temperature comes from the admin's
+-- thresholds. Both are kept up to date by the triggers below.
+ALTER TABLE visitors ADD COLUMN IF NOT EXISTS lead_score INTEGER;
+ALTER TABLE visitors ADD COLUMN IF NOT EXISTS lead_temperature TEXT CHECK (lead_temperature IN ('hot', 'warm', 'cold'));
+ALTER TABLE visitors ADD COLUMN IF NOT EXISTS lead_scored_at TIMESTAMP WITH TIME ZONE;
+
+CREATE INDEX IF NOT EXISTS idx_visitors_lead_temperature ON visitors(lead_temperature);
+
+-- An admin's own weights and thresholds. Admins without a row, and answer
+-- groups missing from weights, use default_lead_scoring_settings().
+CREATE TABLE IF NOT EXISTS lead_scoring_settings (
+  admin_id UUID PRIMARY KEY REFERENCES admins(id) ON DELETE CASCADE,
+  weights JSONB NOT NULL DEFAULT '{}'::jsonb,
+  hot_threshold INTEGER NOT NULL DEFAULT 70,
+  warm_threshold INTEGER NOT NULL DEFAULT 35,
+  updated_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+
+  CONSTRAINT check_lead_thresholds CHECK (warm_threshold < hot_threshold)
+);
+
+ALTER TABLE lead_scoring_settings ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Admins can manage their lead scoring settings" ON lead_scoring_settings
+  FOR ALL USING (
+    admin_id IN (
+      SELECT id FROM admins WHERE user_id = auth.uid()
+    )
+  );
+
+-- Points per answer, keyed by form field and then by the answer's value.
+-- perceived_value is free text, so it scores on whether the price the
+-- visitor named reaches the property's listing price.
+CREATE OR REPLACE FUNCTION default_lead_scoring_settings()
+RETURNS JSONB AS $$
+  SELECT jsonb_build_object(
+    'weights', '{
+      "home_buying_status": {"actively_looking": 20, "working_with_realtor": 15, "just_browsing": 0},
+      "looking_to_buy_within": {"0-3_months": 20, "3-6_months": 10, "6+_months": 0},
+      "budget_range": {"under_250k": 5, "250k-400k": 5, "400k-600k": 5, "600k+": 5},
+      "financing_status": {"yes": 20, "planning_to": 10, "no": 0},
+      "would_make_offer": {"yes": 25, "maybe": 10, "no": -10},
+      "meets_needs": {"great_fit": 15, "mostly_fits": 5, "not_looking_for": -10},
+      "perceived_value": {"at_or_above_price": 10, "below_price": 0},
+      "rating": {"1": -5, "2": 0, "3": 5, "4": 10, "5": 15}
+    }'::jsonb,
+    'hot_threshold', 70,
+    'warm_threshold', 35
+  );
+$$ LANGUAGE sql IMMUTABLE;
+
+-- The weights and thresholds in force for an admin
+CREATE OR REPLACE FUNCTION lead_scoring_settings_for(admin_id_param UUID)
+RETURNS JSONB AS $$
+  SELECT jsonb_build_object(
+    'weights', (defaults.d->'weights') || COALESCE(s.weights, '{}'::jsonb),
+    'hot_threshold', COALESCE(s.hot_threshold, (defaults.d->>'hot_threshold')::integer),
+    'warm_threshold', COALESCE(s.warm_threshold, (defaults.d->>'warm_threshold')::integer)
+  )
+  FROM (SELECT default_lead_scoring_settings() as d) defaults
+  LEFT JOIN lead_scoring_settings s ON s.admin_id = admin_id_param;
+$$ LANGUAGE sql STABLE;
+
+-- For the settings form
+CREATE OR REPLACE FUNCTION get_lead_scoring_settings()
+RETURNS JSONB AS $$
+  SELECT lead_scoring_settings_for((SELECT id FROM admins WHERE user_id = auth.uid()));
+$$ LANGUAGE sql STABLE;
+
+-- "$450,000", "450k" or "1.2M" as a number; NULL when there is none
+CREATE OR REPLACE FUNCTION parse_price(price_param TEXT)
+RETURNS NUMERIC AS $$
+  SELECT m[1]::numeric * CASE LOWER(m[2]) WHEN 'k' THEN 1000 WHEN 'm' THEN 1000000 ELSE 1 END
+  FROM (
+    SELECT regexp_match(REPLACE(COALESCE(price_param, ''), ',', ''), '(\d+(?:\.\d+)?)\s*([kKmM])?') as m
+  ) parsed;
+$$ LANGUAGE sql IMMUTABLE;
+
+-- Recalculate one visitor's score with their property's admin's settings.
+-- Runs with the owner's rights: feedback arrives from anonymous visitors and
+-- admins can't update visitors under RLS.
+CREATE OR REPLACE FUNCTION refresh_lead_score(visitor_id_param UUID)
+RETURNS VOID AS $$
+DECLARE
+  visitor_row visitors%ROWTYPE;
+  feedback_row feedback%ROWTYPE;
+  settings JSONB;
+  weights JSONB;
+  listing_price NUMERIC;
+  named_price NUMERIC;
+  score INTEGER;
+BEGIN
+  SELECT * INTO visitor_row FROM visitors WHERE id = visitor_id_param;
+  IF NOT FOUND THEN
+    RETURN;
+  END IF;
+
+  SELECT lead_scoring_settings_for(p.admin_id), p.price INTO settings, listing_price
+  FROM properties p
+  WHERE p.id = visitor_row.property_id;
+
+  settings := COALESCE(settings, lead_scoring_settings_for(NULL));
+  weights := settings->'weights';
+
+  score :=
+    COALESCE((weights->'home_buying_status'->>visitor_row.home_buying_status)::integer, 0) +
+    COALESCE((weights->'looking_to_buy_within'->>visitor_row.looking_to_buy_within)::integer, 0) +
+    COALESCE((weights->'budget_range'->>visitor_row.budget_range)::integer, 0) +
+    COALESCE((weights->'financing_status'->>visitor_row.financing_status)::integer, 0);
+
+  SELECT * INTO feedback_row
+  FROM feedback
+  WHERE visitor_id = visitor_id_param
+  ORDER BY created_at DESC
+  LIMIT 1;
+
+  IF FOUND THEN
+    score := score +
+      COALESCE((weights->'would_make_offer'->>feedback_row.would_make_offer)::integer, 0) +
+      COALESCE((weights->'meets_needs'->>feedback_row.meets_needs)::integer, 0) +
+      COALESCE((weights->'rating'->>feedback_row.rating::text)::integer, 0);
+
+    named_price := parse_price(feedback_row.perceived_value);
+    IF named_price IS NOT NULL AND listing_price > 0 THEN
+      score := score + COALESCE((weights->'perceived_value'->>(
+        CASE WHEN named_price >= listing_price THEN 'at_or_above_price' ELSE 'below_price' END
+      ))::integer, 0);
+    END IF;
+  END IF;
+
+  UPDATE visitors
+  SET
+    lead_score = score,
+    lead_temperature = CASE
+      WHEN score >= (settings->>'hot_threshold')::integer THEN 'hot'
+      WHEN score >= (settings->>'warm_threshold')::integer THEN 'warm'
+      ELSE 'cold'
+    END,
+    lead_scored_at = NOW()
+  WHERE id = visitor_id_param;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+CREATE OR REPLACE FUNCTION refresh_visitor_lead_score()
+RETURNS TRIGGER AS $$
+BEGIN
+  PERFORM refresh_lead_score(NEW.id);
+  RETURN NULL;
+END;
+$$ LANGUAGE plpgsql;
+
+CREATE OR REPLACE FUNCTION refresh_feedback_lead_score()
+RETURNS TRIGGER AS $$
+BEGIN
+  IF TG_OP IN ('UPDATE', 'DELETE') THEN
+    PERFORM refresh_lead_score(OLD.visitor_id);
+  END IF;
+  IF TG_OP = 'INSERT' OR (TG_OP = 'UPDATE' AND NEW.visitor_id IS DISTINCT FROM OLD.visitor_id) THEN
+    PERFORM refresh_lead_score(NEW.visitor_id);
+  END IF;
+  RETURN NULL;
+END;
+$$ LANGUAGE plpgsql;
+
+-- New weights, a new listing price or a property changing hands rescore
+-- every visitor they apply to
+CREATE OR REPLACE FUNCTION refresh_admin_lead_scores(admin_id_param UUID)
+RETURNS VOID AS $$
+DECLARE
+  visitor_record RECORD;
+BEGIN
+  FOR visitor_record IN
+    SELECT v.id FROM visitors v
+    JOIN properties p ON p.id = v.property_id
+    WHERE p.admin_id = admin_id_param
+  LOOP
+    PERFORM refresh_lead_score(visitor_record.id);
+  END LOOP;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+CREATE OR REPLACE FUNCTION refresh_settings_lead_scores()
+RETURNS TRIGGER AS $$
+BEGIN
+  PERFORM refresh_admin_lead_scores(CASE WHEN TG_OP = 'DELETE' THEN OLD.admin_id ELSE NEW.admin_id END);
+  RETURN NULL;
+END;
+$$ LANGUAGE plpgsql;
+
+CREATE OR REPLACE FUNCTION refresh_property_lead_scores()
+RETURNS TRIGGER AS $$
+DECLARE
+  visitor_record RECORD;
+BEGIN
+  FOR visitor_record IN SELECT id FROM visitors WHERE property_id = NEW.id LOOP
+    PERFORM refresh_lead_score(visitor_record.id);
+  END LOOP;
+  RETURN NULL;
+END;
+$$ LANGUAGE plpgsql;
+
+-- Only fires for the answers and property, so the score update itself
+-- doesn't trigger another one
+DROP TRIGGER IF EXISTS visitors_lead_score ON visitors;
+CREATE TRIGGER visitors_lead_score
+  AFTER INSERT OR UPDATE OF home_buying_status, looking_to_buy_within, budget_range, financing_status, property_id
+  ON visitors
+  FOR EACH ROW EXECUTE FUNCTION refresh_visitor_lead_score();
+
+DROP TRIGGER IF EXISTS feedback_lead_score ON feedback;
+CREATE TRIGGER feedback_lead_score
+  AFTER INSERT OR UPDATE OR DELETE ON feedback
+  FOR EACH ROW EXECUTE FUNCTION refresh_feedback_lead_score();
+
+DROP TRIGGER IF EXISTS lead_scoring_settings_rescore ON lead_scoring_settings;
+CREATE TRIGGER lead_scoring_settings_rescore
+  AFTER INSERT OR UPDATE OR DELETE ON lead_scoring_settings
+  FOR EACH ROW EXECUTE FUNCTION refresh_settings_lead_scores();
+
+DROP TRIGGER IF EXISTS properties_lead_score ON properties;
+CREATE TRIGGER properties_lead_score
+  AFTER UPDATE OF price, admin_id ON properties
+  FOR EACH ROW EXECUTE FUNCTION refresh_property_lead_scores();
+
+-- Campaigns can target visitors by temperature
+ALTER TABLE follow_up_campaigns DROP CONSTRAINT IF EXISTS follow_up_campaigns_trigger_condition_check;
+ALTER TABLE follow_up_campaigns ADD CONSTRAINT follow_up_campaigns_trigger_condition_check
+  CHECK (trigger_condition IN ('interested', 'all', 'no_feedback', 'manual', 'hot_lead', 'warm_lead', 'cold_lead'));
+
+-- Adds the lead temperature trigger conditions. Otherwise unchanged from
+-- database-follow-up-queue.sql.
+CREATE OR REPLACE FUNCTION get_eligible_visitors(
+  campaign_id_param UUID,
+  property_id_param UUID DEFAULT NULL
+)
+RETURNS TABLE (
+  visitor_id UUID,
+  visitor_name TEXT,
+  visitor_email TEXT,
+  visitor_phone TEXT,
+  property_id UUID,
+  property_name TEXT,
+  property_address TEXT,
+  visit_date TIMESTAMP WITH TIME ZONE,
+  interested BOOLEAN,
+  has_feedback BOOLEAN
+) AS $$
+BEGIN
+  RETURN QUERY
+  SELECT
+    v.id as visitor_id,
+    v.name as visitor_name,
+    v.email as visitor_email,
+    v.phone as visitor_phone,
+    v.property_id as property_id,
+    p.name as property_name,
+    p.address as property_address,
+    v.visit_date,
+    COALESCE(f.interested, false) as interested,
+    (f.id IS NOT NULL) as has_feedback
+  FROM visitors v
+  LEFT JOIN properties p ON v.property_id = p.id
+  LEFT JOIN feedback f ON v.id = f.visitor_id
+  LEFT JOIN follow_up_campaigns c ON c.id = campaign_id_param
+  WHERE
+    -- Property filter
+    (property_id_param IS NULL OR v.property_id = property_id_param) AND
+    -- Campaign property filter
+    (c.property_id IS NULL OR v.property_id = c.property_id) AND
+    -- At least one of the campaign's channels is still open
+    (
+      (c.message_type IN ('email', 'both') AND NOT is_unsubscribed(v.email, v.phone, 'email')) OR
+      (c.message_type IN ('sms', 'both') AND NOT is_unsubscribed(v.email, v.phone, 'sms'))
+    ) AND
+    -- Trigger condition filter
+    CASE
+      WHEN c.trigger_condition = 'interested' THEN COALESCE(f.interested, false) = true
+      WHEN c.trigger_condition = 'no_feedback' THEN f.id IS NULL
+      WHEN c.trigger_condition = 'hot_lead' THEN v.lead_temperature = 'hot'
+      WHEN c.trigger_condition = 'warm_lead' THEN v.lead_temperature = 'warm'
+      WHEN c.trigger_condition = 'cold_lead' THEN v.lead_temperature = 'cold'
+      WHEN c.trigger_condition = 'all' THEN true
+      WHEN c.trigger_condition = 'manual' THEN true
+      ELSE false
+    END AND
+    -- Not already sent (or queued, or dead-lettered) for this campaign
+    NOT EXISTS (
+      SELECT 1 FROM follow_up_logs fl
+      WHERE fl.visitor_id = v.id
+      AND fl.campaign_id = campaign_id_param
+      AND (
+        fl.status NOT IN ('failed') OR
+        EXISTS (SELECT 1 FROM follow_up_jobs j WHERE j.log_id = fl.id AND j.status = 'dead')
+      )
+    );
+END;
+$$ LANGUAGE plpgsql;
+
+-- Adds the lead score columns. Otherwise unchanged from
+-- database-visitor-activity.sql.
+DROP VIEW IF EXISTS visitor_feedback_summary;
+
+CREATE OR REPLACE VIEW visitor_feedback_summary AS
+SELECT
+  v.id,
+  v.name,
+  v.email,
+  v.phone,
+  v.visit_date,
+  v.created_at,
+  v.property_id,
+  v.feedback_token,
+  v.home_buying_status,
+  v.looking_to_buy_within,
+  v.budget_range,
+  v.financing_status,
+  v.how_did_you_hear,
+  v.how_did_you_hear_other,
+  v.lead_score,
+  v.lead_temperature,
+  v.lead_scored_at,
+  p.name as property_name,
+  p.address as property_address,
+  f.rating,
+  f.comments,
+  f.interested,
+  f.liked_most,
+  f.liked_least,
+  f.comparison_to_others,
+  f.meets_needs,
+  f.would_make_offer,
+  f.perceived_value,
+  f.follow_up_preference,
+  f.created_at as feedback_date,
+  CASE
+    WHEN fu.id IS NOT NULL THEN true
+    ELSE false
+  END as has_followup,
+  fu.last_followed_up,
+  fu.notes as followup_notes,
+  CASE
+    WHEN f.id IS NOT NULL THEN true
+    ELSE false
+  END as has_feedback
+FROM visitors v
+LEFT JOIN properties p ON v.property_id = p.id
+LEFT JOIN feedback f ON v.id = f.visitor_id
+LEFT JOIN LATERAL (
+  SELECT id, last_followed_up, notes
+  FROM followups
+  WHERE visitor_id = v.id
+  ORDER BY last_followed_up DESC
+  LIMIT 1
+) fu ON true
+ORDER BY v.created_at DESC;
+
+GRANT SELECT ON visitor_feedback_summary TO authenticated;
+GRANT SELECT ON visitor_feedback_summary TO anon;
+
+GRANT EXECUTE ON FUNCTION get_lead_scoring_settings() TO authenticated;
+
+-- Score everyone who checked in before scoring existed
+DO $$
+DECLARE
+  visitor_record RECORD;
+BEGIN
+  FOR visitor_record IN SELECT id FROM visitors LOOP
+    PERFORM refresh_lead_score(visitor_record.id);
+  END LOOP;
+END;
+$$;
+
+SELECT 'Lead scoring setup complete' as status;
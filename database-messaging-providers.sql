@@ -0,0 +1,68 @@
+-- Messaging Providers Setup
+-- Run this in your Supabase SQL Editor after database-test-sends.sql
+
+-- Which provider sends each admin's email and SMS, and the addresses they
+-- send from. Provider credentials stay in Edge Function secrets.
+CREATE TABLE IF NOT EXISTS admin_messaging_settings (
+  id UUID PRIMARY KEY DEFAULT uuid_generate_v4(),
+  admin_id UUID NOT NULL UNIQUE REFERENCES admins(id) ON DELETE CASCADE,
+  email_provider TEXT NOT NULL DEFAULT 'resend' CHECK (email_provider IN ('resend', 'smtp', 'sandbox')),
+  sms_provider TEXT NOT NULL DEFAULT 'twilio' CHECK (sms_provider IN ('twilio', 'sandbox')),
+  from_email TEXT,
+  from_name TEXT,
+  reply_to_email TEXT,
+  sms_from_number TEXT,
+  created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+  updated_at TIMESTAMP WITH TIME ZONE DEFAULT NOW()
+);
+
+CREATE TRIGGER update_admin_messaging_settings_updated_at
+  BEFORE UPDATE ON admin_messaging_settings
+  FOR EACH ROW EXECUTE FUNCTION update_updated_at_column();
+
+-- Messages "sent" through the sandbox provider. Nothing leaves the database.
+CREATE TABLE IF NOT EXISTS message_outbox (
+  id UUID PRIMARY KEY DEFAULT uuid_generate_v4(),
+  admin_id UUID REFERENCES admins(id) ON DELETE CASCADE,
+  channel TEXT NOT NULL CHECK (channel IN ('email', 'sms')),
+  recipient TEXT NOT NULL,
+  from_address TEXT,
+  reply_to TEXT,
+  subject TEXT,
+  html_content TEXT,
+  text_content TEXT,
+  headers JSONB NOT NULL DEFAULT '{}',
+  created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW()
+);
+
+CREATE INDEX IF NOT EXISTS idx_message_outbox_admin_created ON message_outbox(admin_id, created_at DESC);
+
+-- Record which provider handled each message
+ALTER TABLE follow_up_logs ADD COLUMN IF NOT EXISTS provider TEXT;
+ALTER TABLE follow_up_test_sends ADD COLUMN IF NOT EXISTS provider TEXT;
+
+ALTER TABLE admin_messaging_settings ENABLE ROW LEVEL SECURITY;
+ALTER TABLE message_outbox ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Admins can manage their messaging settings" ON admin_messaging_settings
+  FOR ALL USING (
+    admin_id IN (
+      SELECT id FROM admins WHERE user_id = auth.uid()
+    )
+  );
+
+CREATE POLICY "Admins can view their outbox" ON message_outbox
+  FOR SELECT USING (
+    admin_id IN (
+      SELECT id FROM admins WHERE user_id = auth.uid()
+    )
+  );
+
+CREATE POLICY "Admins can clear their outbox" ON message_outbox
+  FOR DELETE USING (
+    admin_id IN (
+      SELECT id FROM admins WHERE user_id = auth.uid()
+    )
+  );
+
+SELECT 'Messaging providers setup complete' as status;
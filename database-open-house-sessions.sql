@@ -0,0 +1,226 @@
+-- Open House Sessions Setup
+-- Run this in your Supabase SQL Editor after database-pipeline-stages.sql
+
+-- property_sessions (from database-enhanced-features.sql) becomes the
+-- schedule of open houses. start_time and end_time are the planned times,
+-- is_active marks the session that is running now, and started_at and
+-- ended_at record when the admin actually started and ended it.
+ALTER TABLE property_sessions ALTER COLUMN is_active SET DEFAULT false;
+ALTER TABLE property_sessions ALTER COLUMN start_time DROP DEFAULT;
+ALTER TABLE property_sessions ADD COLUMN IF NOT EXISTS started_at TIMESTAMP WITH TIME ZONE;
+ALTER TABLE property_sessions ADD COLUMN IF NOT EXISTS ended_at TIMESTAMP WITH TIME ZONE;
+
+-- Rows created before this script defaulted to active but were never
+-- started from the dashboard, so they're treated as past sessions
+UPDATE property_sessions
+SET is_active = false, ended_at = COALESCE(end_time, updated_at)
+WHERE is_active AND started_at IS NULL;
+
+ALTER TABLE property_sessions DROP CONSTRAINT IF EXISTS check_session_times;
+ALTER TABLE property_sessions ADD CONSTRAINT check_session_times
+  CHECK (end_time IS NULL OR start_time IS NULL OR end_time > start_time);
+
+-- A property runs at most one open house at a time
+CREATE UNIQUE INDEX IF NOT EXISTS idx_property_sessions_one_active
+  ON property_sessions(property_id) WHERE is_active;
+
+ALTER TABLE visitors ADD COLUMN IF NOT EXISTS session_id UUID REFERENCES property_sessions(id) ON DELETE SET NULL;
+
+CREATE INDEX IF NOT EXISTS idx_visitors_session_id ON visitors(session_id);
+
+-- Sessions were granted to anon with no RLS. Admins now manage their own
+-- properties' sessions, and the public pages go through the functions below.
+REVOKE ALL ON property_sessions FROM anon;
+
+ALTER TABLE property_sessions ENABLE ROW LEVEL SECURITY;
+
+DROP POLICY IF EXISTS "Admins can manage sessions for their properties" ON property_sessions;
+CREATE POLICY "Admins can manage sessions for their properties" ON property_sessions
+  FOR ALL USING (
+    property_id IN (
+      SELECT p.id FROM properties p
+      JOIN admins a ON a.id = p.admin_id
+      WHERE a.user_id = auth.uid()
+    )
+  );
+
+-- The running session for a property, if any. Used by the check-in page.
+CREATE OR REPLACE FUNCTION get_active_session(property_uuid UUID)
+RETURNS TABLE (
+  id UUID,
+  start_time TIMESTAMP WITH TIME ZONE,
+  end_time TIMESTAMP WITH TIME ZONE,
+  started_at TIMESTAMP WITH TIME ZONE
+)
+LANGUAGE sql STABLE SECURITY DEFINER
+AS $$
+  SELECT s.id, s.start_time, s.end_time, s.started_at
+  FROM property_sessions s
+  WHERE s.property_id = property_uuid AND s.is_active;
+$$;
+
+-- Ties every check-in to a session. A visitor checking in without one joins
+-- the property's running session; with none running the check-in is refused.
+-- A session passed in explicitly (e.g. a check-in saved while offline and
+-- synced after the session ended) must belong to the same property.
+CREATE OR REPLACE FUNCTION assign_visitor_session()
+RETURNS TRIGGER AS $$
+BEGIN
+  IF NEW.property_id IS NULL THEN
+    RETURN NEW;
+  END IF;
+
+  IF NEW.session_id IS NULL THEN
+    SELECT s.id INTO NEW.session_id
+    FROM property_sessions s
+    WHERE s.property_id = NEW.property_id AND s.is_active;
+
+    IF NEW.session_id IS NULL THEN
+      RAISE EXCEPTION 'No open house is running for this property right now';
+    END IF;
+  ELSIF NOT EXISTS (
+    SELECT 1 FROM property_sessions s
+    WHERE s.id = NEW.session_id AND s.property_id = NEW.property_id
+  ) THEN
+    RAISE EXCEPTION 'Open house session does not belong to this property';
+  END IF;
+
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+DROP TRIGGER IF EXISTS visitors_assign_session ON visitors;
+CREATE TRIGGER visitors_assign_session
+  BEFORE INSERT ON visitors
+  FOR EACH ROW
+  EXECUTE FUNCTION assign_visitor_session();
+
+-- Starts a scheduled session, or a new unscheduled one when session_id_param
+-- is NULL, ending whatever session the property was already running.
+CREATE OR REPLACE FUNCTION start_property_session(property_uuid UUID, session_id_param UUID DEFAULT NULL)
+RETURNS UUID AS $$
+DECLARE
+  started_id UUID;
+BEGIN
+  IF NOT EXISTS (
+    SELECT 1 FROM properties p
+    JOIN admins a ON a.id = p.admin_id
+    WHERE p.id = property_uuid AND a.user_id = auth.uid()
+  ) THEN
+    RAISE EXCEPTION 'Property not found';
+  END IF;
+
+  UPDATE property_sessions
+  SET is_active = false, ended_at = NOW(), updated_at = NOW()
+  WHERE property_id = property_uuid AND is_active;
+
+  IF session_id_param IS NULL THEN
+    INSERT INTO property_sessions (property_id, session_date, start_time, is_active, started_at)
+    VALUES (property_uuid, CURRENT_DATE, NOW(), true, NOW())
+    RETURNING id INTO started_id;
+  ELSE
+    UPDATE property_sessions
+    SET is_active = true, started_at = NOW(), ended_at = NULL, session_date = CURRENT_DATE, updated_at = NOW()
+    WHERE id = session_id_param AND property_id = property_uuid AND ended_at IS NULL
+    RETURNING id INTO started_id;
+
+    IF started_id IS NULL THEN
+      RAISE EXCEPTION 'Session not found or already ended';
+    END IF;
+  END IF;
+
+  RETURN started_id;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+CREATE OR REPLACE FUNCTION end_property_session(session_id_param UUID)
+RETURNS VOID AS $$
+BEGIN
+  UPDATE property_sessions s
+  SET is_active = false, ended_at = NOW(), updated_at = NOW()
+  FROM properties p, admins a
+  WHERE s.id = session_id_param
+    AND s.is_active
+    AND p.id = s.property_id
+    AND a.id = p.admin_id
+    AND a.user_id = auth.uid();
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Session not found or not running';
+  END IF;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+-- Attendance and feedback for each session. security_invoker applies the
+-- caller's RLS, so admins only see their own properties' sessions.
+CREATE OR REPLACE VIEW property_session_summary WITH (security_invoker = true) AS
+SELECT
+  s.id,
+  s.property_id,
+  s.session_date,
+  s.start_time,
+  s.end_time,
+  s.started_at,
+  s.ended_at,
+  s.is_active,
+  s.notes,
+  CASE
+    WHEN s.is_active THEN 'live'
+    WHEN s.ended_at IS NOT NULL THEN 'ended'
+    ELSE 'scheduled'
+  END as status,
+  COUNT(DISTINCT v.id) as visitor_count,
+  COUNT(DISTINCT f.visitor_id) as feedback_count,
+  COUNT(DISTINCT f.visitor_id) FILTER (WHERE f.interested) as interested_count,
+  COUNT(DISTINCT v.id) FILTER (WHERE v.lead_temperature = 'hot') as hot_lead_count,
+  ROUND(AVG(f.rating)::numeric, 1) as average_rating
+FROM property_sessions s
+LEFT JOIN visitors v ON v.session_id = s.id
+LEFT JOIN feedback f ON f.visitor_id = v.id
+GROUP BY s.id;
+
+GRANT SELECT ON property_session_summary TO authenticated;
+
+-- Replaces get_todays_visitors_for_property from
+-- database-enhanced-features.sql, which matched visitors on
+-- DATE(visit_date) = CURRENT_DATE and so broke across midnight and time
+-- zones. The feedback page now lists the visitors of the property's running
+-- session, or of its most recently started one once that has ended.
+DROP FUNCTION IF EXISTS get_todays_visitors_for_property(UUID);
+
+CREATE OR REPLACE FUNCTION get_session_visitors_for_property(property_uuid UUID)
+RETURNS TABLE (
+  id UUID,
+  name TEXT,
+  email TEXT,
+  phone TEXT,
+  feedback_token UUID,
+  has_feedback BOOLEAN
+)
+LANGUAGE sql STABLE SECURITY DEFINER
+AS $$
+  WITH latest_session AS (
+    SELECT s.id
+    FROM property_sessions s
+    WHERE s.property_id = property_uuid AND s.started_at IS NOT NULL
+    ORDER BY s.is_active DESC, s.started_at DESC
+    LIMIT 1
+  )
+  SELECT
+    v.id,
+    v.name,
+    v.email,
+    v.phone,
+    v.feedback_token,
+    EXISTS (SELECT 1 FROM feedback f WHERE f.visitor_id = v.id) as has_feedback
+  FROM visitors v
+  JOIN latest_session ls ON ls.id = v.session_id
+  ORDER BY v.created_at DESC;
+$$;
+
+GRANT EXECUTE ON FUNCTION get_active_session(UUID) TO anon, authenticated;
+GRANT EXECUTE ON FUNCTION get_session_visitors_for_property(UUID) TO anon, authenticated;
+GRANT EXECUTE ON FUNCTION start_property_session(UUID, UUID) TO authenticated;
+GRANT EXECUTE ON FUNCTION end_property_session(UUID) TO authenticated;
+
+SELECT 'Open house sessions setup complete' as status;
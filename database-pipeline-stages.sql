@@ -0,0 +1,350 @@
+-- Lead Pipeline Stages Setup
+-- Run this in your Supabase SQL Editor after database-lead-scoring.sql
+
+-- Where each visitor stands with the agent. Everyone starts as 'new'.
+ALTER TABLE visitors ADD COLUMN IF NOT EXISTS pipeline_stage TEXT NOT NULL DEFAULT 'new'
+  CHECK (pipeline_stage IN ('new', 'contacted', 'showing_scheduled', 'offer_made', 'closed', 'lost'));
+ALTER TABLE visitors ADD COLUMN IF NOT EXISTS pipeline_stage_changed_at TIMESTAMP WITH TIME ZONE;
+
+CREATE INDEX IF NOT EXISTS idx_visitors_pipeline_stage ON visitors(pipeline_stage);
+
+-- Every stage change, including the agent who made it
+CREATE TABLE IF NOT EXISTS visitor_stage_history (
+  id UUID PRIMARY KEY DEFAULT uuid_generate_v4(),
+  visitor_id UUID NOT NULL REFERENCES visitors(id) ON DELETE CASCADE,
+  from_stage TEXT,
+  to_stage TEXT NOT NULL,
+  admin_id UUID REFERENCES admins(id) ON DELETE SET NULL,
+  changed_at TIMESTAMP WITH TIME ZONE DEFAULT NOW()
+);
+
+CREATE INDEX IF NOT EXISTS idx_visitor_stage_history_visitor_id ON visitor_stage_history(visitor_id, changed_at);
+
+ALTER TABLE visitor_stage_history ENABLE ROW LEVEL SECURITY;
+
+-- Written by set_visitor_pipeline_stage only
+CREATE POLICY "Admins can view stage history for their visitors" ON visitor_stage_history
+  FOR SELECT USING (
+    visitor_id IN (
+      SELECT v.id FROM visitors v
+      JOIN properties p ON v.property_id = p.id
+      JOIN admins a ON p.admin_id = a.id
+      WHERE a.user_id = auth.uid()
+    )
+  );
+
+-- Campaigns can be limited to visitors in some stages and skip others.
+-- An empty include_stages means every stage.
+ALTER TABLE follow_up_campaigns ADD COLUMN IF NOT EXISTS include_stages TEXT[] NOT NULL DEFAULT '{}'
+  CHECK (include_stages <@ ARRAY['new', 'contacted', 'showing_scheduled', 'offer_made', 'closed', 'lost']);
+ALTER TABLE follow_up_campaigns ADD COLUMN IF NOT EXISTS exclude_stages TEXT[] NOT NULL DEFAULT '{}'
+  CHECK (exclude_stages <@ ARRAY['new', 'contacted', 'showing_scheduled', 'offer_made', 'closed', 'lost']);
+
+CREATE OR REPLACE FUNCTION move_visitor_to_stage(
+  visitor_id_param UUID,
+  stage_param TEXT,
+  admin_id_param UUID
+)
+RETURNS VOID AS $$
+DECLARE
+  current_stage TEXT;
+BEGIN
+  SELECT pipeline_stage INTO current_stage FROM visitors WHERE id = visitor_id_param FOR UPDATE;
+
+  IF current_stage IS NULL OR current_stage = stage_param THEN
+    RETURN;
+  END IF;
+
+  UPDATE visitors
+  SET pipeline_stage = stage_param, pipeline_stage_changed_at = NOW()
+  WHERE id = visitor_id_param;
+
+  INSERT INTO visitor_stage_history (visitor_id, from_stage, to_stage, admin_id)
+  VALUES (visitor_id_param, current_stage, stage_param, admin_id_param);
+END;
+$$ LANGUAGE plpgsql;
+
+-- Move one of the caller's visitors to a stage. Admins can't update visitors
+-- under RLS, so this runs with the owner's rights and checks ownership
+-- itself. Moving to 'offer_made' also records the offer, which takes the
+-- visitor out of sequences that exit on offers.
+CREATE OR REPLACE FUNCTION set_visitor_pipeline_stage(
+  visitor_id_param UUID,
+  stage_param TEXT
+)
+RETURNS VOID AS $$
+DECLARE
+  admin_id_value UUID;
+BEGIN
+  SELECT a.id INTO admin_id_value
+  FROM visitors v
+  JOIN properties p ON p.id = v.property_id
+  JOIN admins a ON a.id = p.admin_id
+  WHERE v.id = visitor_id_param AND a.user_id = auth.uid();
+
+  IF admin_id_value IS NULL THEN
+    RAISE EXCEPTION 'Visitor not found';
+  END IF;
+
+  PERFORM move_visitor_to_stage(visitor_id_param, stage_param, admin_id_value);
+
+  IF stage_param = 'offer_made' THEN
+    PERFORM mark_visitor_offer_made(visitor_id_param);
+  END IF;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+-- Also moves visitors who haven't got that far to the 'offer_made' stage.
+-- Otherwise unchanged from database-drip-sequences.sql.
+CREATE OR REPLACE FUNCTION mark_visitor_offer_made(visitor_id_param UUID)
+RETURNS VOID AS $$
+BEGIN
+  IF NOT EXISTS (
+    SELECT 1
+    FROM visitors v
+    JOIN properties p ON p.id = v.property_id
+    JOIN admins a ON a.id = p.admin_id
+    WHERE v.id = visitor_id_param AND a.user_id = auth.uid()
+  ) THEN
+    RAISE EXCEPTION 'Visitor not found';
+  END IF;
+
+  UPDATE visitors
+  SET made_offer_at = COALESCE(made_offer_at, NOW())
+  WHERE id = visitor_id_param;
+
+  IF (SELECT pipeline_stage FROM visitors WHERE id = visitor_id_param) IN ('new', 'contacted', 'showing_scheduled') THEN
+    PERFORM move_visitor_to_stage(
+      visitor_id_param,
+      'offer_made',
+      (SELECT id FROM admins WHERE user_id = auth.uid())
+    );
+  END IF;
+
+  UPDATE campaign_enrollments ce
+  SET status = 'exited', exit_reason = 'made_offer', ended_at = NOW()
+  FROM follow_up_campaigns c
+  WHERE
+    c.id = ce.campaign_id AND
+    ce.visitor_id = visitor_id_param AND
+    ce.status = 'active' AND
+    'made_offer' = ANY(c.exit_conditions);
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+-- Adds the campaign's pipeline stage filters. Otherwise unchanged from
+-- database-lead-scoring.sql.
+CREATE OR REPLACE FUNCTION get_eligible_visitors(
+  campaign_id_param UUID,
+  property_id_param UUID DEFAULT NULL
+)
+RETURNS TABLE (
+  visitor_id UUID,
+  visitor_name TEXT,
+  visitor_email TEXT,
+  visitor_phone TEXT,
+  property_id UUID,
+  property_name TEXT,
+  property_address TEXT,
+  visit_date TIMESTAMP WITH TIME ZONE,
+  interested BOOLEAN,
+  has_feedback BOOLEAN
+) AS $$
+BEGIN
+  RETURN QUERY
+  SELECT
+    v.id as visitor_id,
+    v.name as visitor_name,
+    v.email as visitor_email,
+    v.phone as visitor_phone,
+    v.property_id as property_id,
+    p.name as property_name,
+    p.address as property_address,
+    v.visit_date,
+    COALESCE(f.interested, false) as interested,
+    (f.id IS NOT NULL) as has_feedback
+  FROM visitors v
+  LEFT JOIN properties p ON v.property_id = p.id
+  LEFT JOIN feedback f ON v.id = f.visitor_id
+  LEFT JOIN follow_up_campaigns c ON c.id = campaign_id_param
+  WHERE
+    -- Property filter
+    (property_id_param IS NULL OR v.property_id = property_id_param) AND
+    -- Campaign property filter
+    (c.property_id IS NULL OR v.property_id = c.property_id) AND
+    -- At least one of the campaign's channels is still open
+    (
+      (c.message_type IN ('email', 'both') AND NOT is_unsubscribed(v.email, v.phone, 'email')) OR
+      (c.message_type IN ('sms', 'both') AND NOT is_unsubscribed(v.email, v.phone, 'sms'))
+    ) AND
+    -- Pipeline stage filters
+    (cardinality(c.include_stages) = 0 OR v.pipeline_stage = ANY(c.include_stages)) AND
+    NOT (v.pipeline_stage = ANY(c.exclude_stages)) AND
+    -- Trigger condition filter
+    CASE
+      WHEN c.trigger_condition = 'interested' THEN COALESCE(f.interested, false) = true
+      WHEN c.trigger_condition = 'no_feedback' THEN f.id IS NULL
+      WHEN c.trigger_condition = 'hot_lead' THEN v.lead_temperature = 'hot'
+      WHEN c.trigger_condition = 'warm_lead' THEN v.lead_temperature = 'warm'
+      WHEN c.trigger_condition = 'cold_lead' THEN v.lead_temperature = 'cold'
+      WHEN c.trigger_condition = 'all' THEN true
+      WHEN c.trigger_condition = 'manual' THEN true
+      ELSE false
+    END AND
+    -- Not already sent (or queued, or dead-lettered) for this campaign
+    NOT EXISTS (
+      SELECT 1 FROM follow_up_logs fl
+      WHERE fl.visitor_id = v.id
+      AND fl.campaign_id = campaign_id_param
+      AND (
+        fl.status NOT IN ('failed') OR
+        EXISTS (SELECT 1 FROM follow_up_jobs j WHERE j.log_id = fl.id AND j.status = 'dead')
+      )
+    );
+END;
+$$ LANGUAGE plpgsql;
+
+-- Adds pipeline stage changes. Otherwise unchanged from
+-- database-visitor-activity.sql.
+CREATE OR REPLACE FUNCTION get_visitor_timeline(visitor_id_param UUID)
+RETURNS TABLE (
+  occurred_at TIMESTAMP WITH TIME ZONE,
+  event_type TEXT,
+  detail JSONB
+) AS $$
+DECLARE
+  admin_id_value UUID;
+  visitor_row visitors%ROWTYPE;
+BEGIN
+  SELECT a.id INTO admin_id_value
+  FROM visitors v
+  JOIN properties p ON p.id = v.property_id
+  JOIN admins a ON a.id = p.admin_id
+  WHERE v.id = visitor_id_param AND a.user_id = auth.uid();
+
+  IF admin_id_value IS NULL THEN
+    RAISE EXCEPTION 'Visitor not found';
+  END IF;
+
+  SELECT * INTO visitor_row FROM visitors WHERE id = visitor_id_param;
+
+  RETURN QUERY
+  SELECT events.occurred_at, events.event_type, events.detail
+  FROM (
+    SELECT
+      visitor_row.visit_date as occurred_at,
+      'check_in'::text as event_type,
+      jsonb_build_object(
+        'property_name', (SELECT name FROM properties WHERE id = visitor_row.property_id),
+        'home_buying_status', visitor_row.home_buying_status,
+        'looking_to_buy_within', visitor_row.looking_to_buy_within,
+        'budget_range', visitor_row.budget_range,
+        'financing_status', visitor_row.financing_status,
+        'how_did_you_hear', COALESCE(NULLIF(visitor_row.how_did_you_hear_other, ''), visitor_row.how_did_you_hear)
+      ) as detail
+
+    UNION ALL
+
+    SELECT
+      f.created_at,
+      'feedback',
+      jsonb_build_object(
+        'rating', f.rating,
+        'interested', f.interested,
+        'comments', f.comments,
+        'liked_most', f.liked_most,
+        'liked_least', f.liked_least,
+        'comparison_to_others', f.comparison_to_others,
+        'meets_needs', f.meets_needs,
+        'would_make_offer', f.would_make_offer,
+        'perceived_value', f.perceived_value,
+        'follow_up_preference', f.follow_up_preference
+      )
+    FROM feedback f
+    WHERE f.visitor_id = visitor_id_param
+
+    UNION ALL
+
+    -- One event per status the message has reached
+    SELECT
+      message_events.occurred_at,
+      message_events.event_type,
+      jsonb_build_object(
+        'log_id', l.id,
+        'channel', l.message_type,
+        'campaign_name', c.name,
+        'subject', l.subject,
+        'error_message', CASE WHEN message_events.event_type = 'message_failed' THEN l.error_message END
+      )
+    FROM follow_up_logs l
+    LEFT JOIN follow_up_campaigns c ON c.id = l.campaign_id
+    CROSS JOIN LATERAL (
+      VALUES
+        (l.sent_at, CASE
+          WHEN l.status = 'pending' THEN 'message_queued'
+          WHEN l.status IN ('failed', 'bounced') AND l.external_id IS NULL THEN 'message_failed'
+          ELSE 'message_sent'
+        END),
+        (l.delivered_at, 'message_delivered'),
+        (l.opened_at, 'message_opened'),
+        (l.clicked_at, 'message_clicked'),
+        (CASE WHEN l.status IN ('failed', 'bounced') AND l.external_id IS NOT NULL THEN l.sent_at END, 'message_failed')
+    ) as message_events(occurred_at, event_type)
+    WHERE
+      l.visitor_id = visitor_id_param AND
+      l.admin_id = admin_id_value AND
+      message_events.occurred_at IS NOT NULL
+
+    UNION ALL
+
+    SELECT
+      fu.created_at,
+      fu.activity_type,
+      jsonb_build_object(
+        'id', fu.id,
+        'notes', fu.notes,
+        'call_outcome', fu.call_outcome,
+        'call_duration_minutes', fu.call_duration_minutes,
+        'author', NULLIF(TRIM(COALESCE(a.first_name, '') || ' ' || COALESCE(a.last_name, '')), '')
+      )
+    FROM followups fu
+    LEFT JOIN admins a ON a.id = fu.admin_id
+    WHERE fu.visitor_id = visitor_id_param
+
+    UNION ALL
+
+    SELECT
+      h.changed_at,
+      'stage_changed',
+      jsonb_build_object(
+        'from_stage', h.from_stage,
+        'to_stage', h.to_stage,
+        'author', NULLIF(TRIM(COALESCE(a.first_name, '') || ' ' || COALESCE(a.last_name, '')), '')
+      )
+    FROM visitor_stage_history h
+    LEFT JOIN admins a ON a.id = h.admin_id
+    WHERE h.visitor_id = visitor_id_param
+
+    UNION ALL
+
+    SELECT
+      u.created_at,
+      'unsubscribed',
+      jsonb_build_object(
+        'unsubscribe_type', u.unsubscribe_type,
+        'reason', u.reason
+      )
+    FROM unsubscribes u
+    WHERE
+      u.visitor_id = visitor_id_param OR
+      LOWER(u.email) = LOWER(visitor_row.email) OR
+      normalize_phone(u.phone) = normalize_phone(visitor_row.phone)
+  ) events
+  WHERE events.occurred_at IS NOT NULL
+  ORDER BY events.occurred_at DESC;
+END;
+$$ LANGUAGE plpgsql STABLE SECURITY DEFINER;
+
+GRANT EXECUTE ON FUNCTION set_visitor_pipeline_stage(UUID, TEXT) TO authenticated;
+
+SELECT 'Pipeline stages setup complete' as status;
@@ -0,0 +1,414 @@
+-- Returning Visitors Setup
+-- Run this in your Supabase SQL Editor after database-kiosk-mode.sql
+
+-- A contact is one person across all their visits. Each visitors row stays a
+-- single check-in at one property; check-ins with a matching email or phone
+-- (after normalizing) share a contact. Contacts belong to the admin whose
+-- properties were visited, so agents never share people.
+CREATE TABLE IF NOT EXISTS contacts (
+  id UUID PRIMARY KEY DEFAULT uuid_generate_v4(),
+  admin_id UUID NOT NULL REFERENCES admins(id) ON DELETE CASCADE,
+  created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW()
+);
+
+CREATE INDEX IF NOT EXISTS idx_contacts_admin_id ON contacts(admin_id);
+
+ALTER TABLE contacts ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Admins can view their contacts" ON contacts
+  FOR SELECT USING (
+    admin_id IN (
+      SELECT id FROM admins WHERE user_id = auth.uid()
+    )
+  );
+
+ALTER TABLE visitors ADD COLUMN IF NOT EXISTS contact_id UUID REFERENCES contacts(id) ON DELETE SET NULL;
+
+CREATE INDEX IF NOT EXISTS idx_visitors_contact_id ON visitors(contact_id);
+
+-- "  Jane@Example.com " and "jane@example.com" are the same address
+CREATE OR REPLACE FUNCTION normalize_email(email_param TEXT)
+RETURNS TEXT AS $$
+  SELECT NULLIF(LOWER(TRIM(email_param)), '');
+$$ LANGUAGE sql IMMUTABLE;
+
+-- Digits only, without a leading US/Canada country code, so
+-- "+1 (555) 123-4567" and "555.123.4567" match
+CREATE OR REPLACE FUNCTION normalize_phone(phone_param TEXT)
+RETURNS TEXT AS $$
+  SELECT NULLIF(
+    CASE
+      WHEN LENGTH(digits) = 11 AND digits LIKE '1%' THEN SUBSTRING(digits FROM 2)
+      ELSE digits
+    END,
+    ''
+  )
+  FROM (SELECT REGEXP_REPLACE(COALESCE(phone_param, ''), '[^0-9]', '', 'g') as digits) d;
+$$ LANGUAGE sql IMMUTABLE;
+
+CREATE INDEX IF NOT EXISTS idx_visitors_normalized_email ON visitors(normalize_email(email));
+CREATE INDEX IF NOT EXISTS idx_visitors_normalized_phone ON visitors(normalize_phone(phone));
+
+-- The admin's contact with this email or phone, preferring an email match,
+-- or a new contact when there's none
+CREATE OR REPLACE FUNCTION find_or_create_contact(admin_id_param UUID, email_param TEXT, phone_param TEXT)
+RETURNS UUID AS $$
+DECLARE
+  contact_uuid UUID;
+BEGIN
+  SELECT v.contact_id INTO contact_uuid
+  FROM visitors v
+  JOIN properties p ON p.id = v.property_id
+  WHERE p.admin_id = admin_id_param
+    AND v.contact_id IS NOT NULL
+    AND (
+      normalize_email(v.email) = normalize_email(email_param) OR
+      normalize_phone(v.phone) = normalize_phone(phone_param)
+    )
+  ORDER BY (normalize_email(v.email) = normalize_email(email_param)) DESC NULLS LAST, v.visit_date DESC
+  LIMIT 1;
+
+  IF contact_uuid IS NULL THEN
+    INSERT INTO contacts (admin_id) VALUES (admin_id_param)
+    RETURNING id INTO contact_uuid;
+  END IF;
+
+  RETURN contact_uuid;
+END;
+$$ LANGUAGE plpgsql;
+
+CREATE OR REPLACE FUNCTION assign_visitor_contact()
+RETURNS TRIGGER AS $$
+DECLARE
+  admin_id_value UUID;
+BEGIN
+  IF NEW.contact_id IS NOT NULL OR NEW.property_id IS NULL THEN
+    RETURN NEW;
+  END IF;
+
+  SELECT admin_id INTO admin_id_value FROM properties WHERE id = NEW.property_id;
+  IF admin_id_value IS NOT NULL THEN
+    NEW.contact_id := find_or_create_contact(admin_id_value, NEW.email, NEW.phone);
+  END IF;
+
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+DROP TRIGGER IF EXISTS visitors_assign_contact ON visitors;
+CREATE TRIGGER visitors_assign_contact
+  BEFORE INSERT ON visitors
+  FOR EACH ROW
+  EXECUTE FUNCTION assign_visitor_contact();
+
+-- Match existing visitors, oldest first
+DO $$
+DECLARE
+  visitor_row RECORD;
+BEGIN
+  FOR visitor_row IN
+    SELECT v.id, v.email, v.phone, p.admin_id
+    FROM visitors v
+    JOIN properties p ON p.id = v.property_id
+    WHERE v.contact_id IS NULL AND p.admin_id IS NOT NULL
+    ORDER BY v.visit_date
+  LOOP
+    UPDATE visitors
+    SET contact_id = find_or_create_contact(visitor_row.admin_id, visitor_row.email, visitor_row.phone)
+    WHERE id = visitor_row.id;
+  END LOOP;
+END $$;
+
+-- Each message log records the person it went to, so a campaign can skip
+-- anyone who already received it through any of their visits. The log
+-- follows its visit when that visit moves to another contact (a merge).
+ALTER TABLE follow_up_logs ADD COLUMN IF NOT EXISTS contact_id UUID REFERENCES contacts(id) ON DELETE SET NULL;
+
+CREATE INDEX IF NOT EXISTS idx_follow_up_logs_contact_campaign ON follow_up_logs(contact_id, campaign_id);
+
+UPDATE follow_up_logs l
+SET contact_id = v.contact_id
+FROM visitors v
+WHERE v.id = l.visitor_id AND l.contact_id IS DISTINCT FROM v.contact_id;
+
+CREATE OR REPLACE FUNCTION assign_log_contact()
+RETURNS TRIGGER AS $$
+BEGIN
+  IF NEW.contact_id IS NULL AND NEW.visitor_id IS NOT NULL THEN
+    SELECT contact_id INTO NEW.contact_id FROM visitors WHERE id = NEW.visitor_id;
+  END IF;
+
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+DROP TRIGGER IF EXISTS follow_up_logs_assign_contact ON follow_up_logs;
+CREATE TRIGGER follow_up_logs_assign_contact
+  BEFORE INSERT ON follow_up_logs
+  FOR EACH ROW
+  EXECUTE FUNCTION assign_log_contact();
+
+CREATE OR REPLACE FUNCTION move_visitor_logs_contact()
+RETURNS TRIGGER AS $$
+BEGIN
+  UPDATE follow_up_logs
+  SET contact_id = NEW.contact_id
+  WHERE visitor_id = NEW.id;
+
+  RETURN NULL;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+DROP TRIGGER IF EXISTS visitors_move_logs_contact ON visitors;
+CREATE TRIGGER visitors_move_logs_contact
+  AFTER UPDATE OF contact_id ON visitors
+  FOR EACH ROW
+  WHEN (OLD.contact_id IS DISTINCT FROM NEW.contact_id)
+  EXECUTE FUNCTION move_visitor_logs_contact();
+
+-- For the check-in form's "welcome back": the answers from the guest's last
+-- visit to any of this agent's properties. Both email and phone must match,
+-- so typing in someone else's email reveals nothing.
+CREATE OR REPLACE FUNCTION find_returning_visitor(property_uuid UUID, email_param TEXT, phone_param TEXT)
+RETURNS TABLE (
+  first_name TEXT,
+  home_buying_status TEXT,
+  looking_to_buy_within TEXT,
+  budget_range TEXT,
+  financing_status TEXT
+)
+LANGUAGE sql STABLE SECURITY DEFINER
+AS $$
+  SELECT
+    SPLIT_PART(TRIM(v.name), ' ', 1),
+    v.home_buying_status,
+    v.looking_to_buy_within,
+    v.budget_range,
+    v.financing_status
+  FROM visitors v
+  JOIN properties vp ON vp.id = v.property_id
+  JOIN properties p ON p.id = property_uuid AND p.admin_id = vp.admin_id
+  WHERE normalize_email(v.email) = normalize_email(email_param)
+    AND normalize_phone(v.phone) = normalize_phone(phone_param)
+  ORDER BY v.visit_date DESC
+  LIMIT 1;
+$$;
+
+-- Moves every visit of the source contacts to the target and deletes the
+-- sources. Visits keep their own property, feedback, stage and messages.
+CREATE OR REPLACE FUNCTION merge_contacts(target_contact_id UUID, source_contact_ids UUID[])
+RETURNS INTEGER AS $$
+DECLARE
+  admin_id_value UUID;
+  moved INTEGER;
+BEGIN
+  SELECT c.admin_id INTO admin_id_value
+  FROM contacts c
+  JOIN admins a ON a.id = c.admin_id
+  WHERE c.id = target_contact_id AND a.user_id = auth.uid();
+
+  IF admin_id_value IS NULL THEN
+    RAISE EXCEPTION 'Contact not found';
+  END IF;
+
+  IF EXISTS (
+    SELECT 1 FROM UNNEST(source_contact_ids) AS source_id
+    LEFT JOIN contacts c ON c.id = source_id
+    WHERE c.admin_id IS DISTINCT FROM admin_id_value
+  ) THEN
+    RAISE EXCEPTION 'Contact not found';
+  END IF;
+
+  UPDATE visitors
+  SET contact_id = target_contact_id
+  WHERE contact_id = ANY(source_contact_ids) AND contact_id <> target_contact_id;
+
+  GET DIAGNOSTICS moved = ROW_COUNT;
+
+  DELETE FROM contacts
+  WHERE id = ANY(source_contact_ids) AND id <> target_contact_id;
+
+  RETURN moved;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+-- One row per person for the merge tool. security_invoker applies the
+-- caller's RLS, so admins only see their own contacts.
+CREATE OR REPLACE VIEW contact_summary WITH (security_invoker = true) AS
+SELECT
+  c.id,
+  c.admin_id,
+  latest.name,
+  latest.email,
+  latest.phone,
+  COUNT(v.id) as visit_count,
+  MIN(v.visit_date) as first_visit,
+  MAX(v.visit_date) as last_visit,
+  ARRAY_AGG(DISTINCT v.email) as emails,
+  ARRAY_AGG(DISTINCT v.phone) as phones,
+  ARRAY_AGG(DISTINCT p.name) FILTER (WHERE p.name IS NOT NULL) as property_names
+FROM contacts c
+JOIN visitors v ON v.contact_id = c.id
+LEFT JOIN properties p ON p.id = v.property_id
+CROSS JOIN LATERAL (
+  SELECT lv.name, lv.email, lv.phone
+  FROM visitors lv
+  WHERE lv.contact_id = c.id
+  ORDER BY lv.visit_date DESC
+  LIMIT 1
+) latest
+GROUP BY c.id, latest.name, latest.email, latest.phone;
+
+GRANT SELECT ON contacts TO authenticated;
+GRANT SELECT ON contact_summary TO authenticated;
+
+-- A campaign messages each person once, using their most recent qualifying
+-- visit, and never again once any of their visits has received it.
+-- Otherwise unchanged from database-pipeline-stages.sql.
+CREATE OR REPLACE FUNCTION get_eligible_visitors(
+  campaign_id_param UUID,
+  property_id_param UUID DEFAULT NULL
+)
+RETURNS TABLE (
+  visitor_id UUID,
+  visitor_name TEXT,
+  visitor_email TEXT,
+  visitor_phone TEXT,
+  property_id UUID,
+  property_name TEXT,
+  property_address TEXT,
+  visit_date TIMESTAMP WITH TIME ZONE,
+  interested BOOLEAN,
+  has_feedback BOOLEAN
+) AS $$
+BEGIN
+  RETURN QUERY
+  -- One row per person: their most recent visit that qualifies
+  SELECT DISTINCT ON (COALESCE(v.contact_id, v.id))
+    v.id as visitor_id,
+    v.name as visitor_name,
+    v.email as visitor_email,
+    v.phone as visitor_phone,
+    v.property_id as property_id,
+    p.name as property_name,
+    p.address as property_address,
+    v.visit_date,
+    COALESCE(f.interested, false) as interested,
+    (f.id IS NOT NULL) as has_feedback
+  FROM visitors v
+  LEFT JOIN properties p ON v.property_id = p.id
+  LEFT JOIN feedback f ON v.id = f.visitor_id
+  LEFT JOIN follow_up_campaigns c ON c.id = campaign_id_param
+  WHERE
+    -- Property filter
+    (property_id_param IS NULL OR v.property_id = property_id_param) AND
+    -- Campaign property filter
+    (c.property_id IS NULL OR v.property_id = c.property_id) AND
+    -- At least one of the campaign's channels is still open
+    (
+      (c.message_type IN ('email', 'both') AND NOT is_unsubscribed(v.email, v.phone, 'email')) OR
+      (c.message_type IN ('sms', 'both') AND NOT is_unsubscribed(v.email, v.phone, 'sms'))
+    ) AND
+    -- Pipeline stage filters
+    (cardinality(c.include_stages) = 0 OR v.pipeline_stage = ANY(c.include_stages)) AND
+    NOT (v.pipeline_stage = ANY(c.exclude_stages)) AND
+    -- Trigger condition filter
+    CASE
+      WHEN c.trigger_condition = 'interested' THEN COALESCE(f.interested, false) = true
+      WHEN c.trigger_condition = 'no_feedback' THEN f.id IS NULL
+      WHEN c.trigger_condition = 'hot_lead' THEN v.lead_temperature = 'hot'
+      WHEN c.trigger_condition = 'warm_lead' THEN v.lead_temperature = 'warm'
+      WHEN c.trigger_condition = 'cold_lead' THEN v.lead_temperature = 'cold'
+      WHEN c.trigger_condition = 'all' THEN true
+      WHEN c.trigger_condition = 'manual' THEN true
+      ELSE false
+    END AND
+    -- Not already sent (or queued, or dead-lettered) for this campaign, to
+    -- this visit or to the same person through any other visit
+    NOT EXISTS (
+      SELECT 1 FROM follow_up_logs fl
+      WHERE (fl.visitor_id = v.id OR fl.contact_id = v.contact_id)
+      AND fl.campaign_id = campaign_id_param
+      AND (
+        fl.status NOT IN ('failed') OR
+        EXISTS (SELECT 1 FROM follow_up_jobs j WHERE j.log_id = fl.id AND j.status = 'dead')
+      )
+    ) AND
+    -- Not already in this sequence through another visit
+    NOT EXISTS (
+      SELECT 1 FROM campaign_enrollments ce
+      JOIN visitors ov ON ov.id = ce.visitor_id
+      WHERE ov.contact_id = v.contact_id
+      AND ov.id <> v.id
+      AND ce.campaign_id = campaign_id_param
+    )
+  ORDER BY COALESCE(v.contact_id, v.id), v.visit_date DESC;
+END;
+$$ LANGUAGE plpgsql;
+
+-- Adds each visitor's contact and how many visits it has. Otherwise
+-- unchanged from database-lead-scoring.sql.
+DROP VIEW IF EXISTS visitor_feedback_summary;
+
+CREATE OR REPLACE VIEW visitor_feedback_summary AS
+SELECT
+  v.id,
+  v.name,
+  v.email,
+  v.phone,
+  v.visit_date,
+  v.created_at,
+  v.property_id,
+  v.feedback_token,
+  v.home_buying_status,
+  v.looking_to_buy_within,
+  v.budget_range,
+  v.financing_status,
+  v.how_did_you_hear,
+  v.how_did_you_hear_other,
+  v.lead_score,
+  v.lead_temperature,
+  v.lead_scored_at,
+  v.contact_id,
+  (SELECT COUNT(*) FROM visitors cv WHERE cv.contact_id = v.contact_id) as contact_visit_count,
+  p.name as property_name,
+  p.address as property_address,
+  f.rating,
+  f.comments,
+  f.interested,
+  f.liked_most,
+  f.liked_least,
+  f.comparison_to_others,
+  f.meets_needs,
+  f.would_make_offer,
+  f.perceived_value,
+  f.follow_up_preference,
+  f.created_at as feedback_date,
+  CASE
+    WHEN fu.id IS NOT NULL THEN true
+    ELSE false
+  END as has_followup,
+  fu.last_followed_up,
+  fu.notes as followup_notes,
+  CASE
+    WHEN f.id IS NOT NULL THEN true
+    ELSE false
+  END as has_feedback
+FROM visitors v
+LEFT JOIN properties p ON v.property_id = p.id
+LEFT JOIN feedback f ON v.id = f.visitor_id
+LEFT JOIN LATERAL (
+  SELECT id, last_followed_up, notes
+  FROM followups
+  WHERE visitor_id = v.id
+  ORDER BY last_followed_up DESC
+  LIMIT 1
+) fu ON true
+ORDER BY v.created_at DESC;
+
+GRANT SELECT ON visitor_feedback_summary TO authenticated;
+
+GRANT EXECUTE ON FUNCTION find_returning_visitor(UUID, TEXT, TEXT) TO anon, authenticated;
+GRANT EXECUTE ON FUNCTION merge_contacts(UUID, UUID[]) TO authenticated;
+
+SELECT 'Returning visitors setup complete' as status;
@@ -0,0 +1,1093 @@
+-- Teams Setup
+-- Run this in your Supabase SQL Editor after database-feedback-links.sql
+--
+-- Properties, campaigns and templates still belong to the admin who created
+-- them. What changes is who else can see and change them: every admin is now
+-- on a team with a role.
+--   owner      sees and manages everything on the team
+--   agent      sees and manages only their own properties, leads and campaigns
+--   assistant  sees the whole team, runs open houses and kiosks and sends
+--              approved campaigns, but can't create, edit or delete anything
+--
+-- Every existing admin becomes the owner of a team of their own. Owners
+-- bring agents and assistants in with an invite link.
+
+CREATE TABLE IF NOT EXISTS teams (
+  id UUID PRIMARY KEY DEFAULT uuid_generate_v4(),
+  name TEXT NOT NULL,
+  created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+  updated_at TIMESTAMP WITH TIME ZONE DEFAULT NOW()
+);
+
+-- One team per admin
+CREATE TABLE IF NOT EXISTS team_members (
+  id UUID PRIMARY KEY DEFAULT uuid_generate_v4(),
+  team_id UUID NOT NULL REFERENCES teams(id) ON DELETE CASCADE,
+  admin_id UUID NOT NULL UNIQUE REFERENCES admins(id) ON DELETE CASCADE,
+  role TEXT NOT NULL CHECK (role IN ('owner', 'agent', 'assistant')),
+  created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW()
+);
+
+CREATE INDEX IF NOT EXISTS idx_team_members_team_id ON team_members(team_id);
+
+-- The token is the invite link. It works once, for the invited email only,
+-- and expires after a week.
+CREATE TABLE IF NOT EXISTS team_invites (
+  id UUID PRIMARY KEY DEFAULT uuid_generate_v4(),
+  team_id UUID NOT NULL REFERENCES teams(id) ON DELETE CASCADE,
+  email TEXT NOT NULL,
+  role TEXT NOT NULL CHECK (role IN ('agent', 'assistant', 'owner')),
+  token UUID NOT NULL UNIQUE DEFAULT uuid_generate_v4(),
+  invited_by UUID REFERENCES admins(id) ON DELETE SET NULL,
+  expires_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT NOW() + INTERVAL '7 days',
+  accepted_at TIMESTAMP WITH TIME ZONE,
+  accepted_by UUID REFERENCES admins(id) ON DELETE SET NULL,
+  created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW()
+);
+
+CREATE INDEX IF NOT EXISTS idx_team_invites_team_id ON team_invites(team_id);
+
+CREATE TRIGGER update_teams_updated_at
+  BEFORE UPDATE ON teams
+  FOR EACH ROW EXECUTE FUNCTION update_updated_at_column();
+
+-- Puts an admin on a new team of their own, as its owner
+CREATE OR REPLACE FUNCTION create_personal_team(admin_id_param UUID)
+RETURNS UUID AS $$
+DECLARE
+  new_team_id UUID;
+BEGIN
+  INSERT INTO teams (name)
+  SELECT COALESCE(NULLIF(TRIM(COALESCE(first_name, '') || ' ' || COALESCE(last_name, '')), ''), email) || '''s team'
+  FROM admins
+  WHERE id = admin_id_param
+  RETURNING id INTO new_team_id;
+
+  INSERT INTO team_members (team_id, admin_id, role)
+  VALUES (new_team_id, admin_id_param, 'owner');
+
+  RETURN new_team_id;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+REVOKE EXECUTE ON FUNCTION create_personal_team(UUID) FROM PUBLIC;
+
+SELECT create_personal_team(a.id)
+FROM admins a
+WHERE NOT EXISTS (SELECT 1 FROM team_members m WHERE m.admin_id = a.id);
+
+CREATE OR REPLACE FUNCTION assign_admin_team()
+RETURNS TRIGGER AS $$
+BEGIN
+  PERFORM create_personal_team(NEW.id);
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+DROP TRIGGER IF EXISTS admins_assign_team ON admins;
+CREATE TRIGGER admins_assign_team
+  AFTER INSERT ON admins
+  FOR EACH ROW
+  EXECUTE FUNCTION assign_admin_team();
+
+-- Access rules, used by the policies and functions below. They run with the
+-- owner's rights so policies can look up teams without recursing into
+-- team_members' own policies.
+
+-- The signed-in admin, or NULL
+CREATE OR REPLACE FUNCTION current_admin_id()
+RETURNS UUID AS $$
+  SELECT id FROM admins WHERE user_id = auth.uid();
+$$ LANGUAGE sql STABLE SECURITY DEFINER;
+
+CREATE OR REPLACE FUNCTION admin_team_id(admin_id_param UUID)
+RETURNS UUID AS $$
+  SELECT team_id FROM team_members WHERE admin_id = admin_id_param;
+$$ LANGUAGE sql STABLE SECURITY DEFINER;
+
+CREATE OR REPLACE FUNCTION admin_team_role(admin_id_param UUID)
+RETURNS TEXT AS $$
+  SELECT role FROM team_members WHERE admin_id = admin_id_param;
+$$ LANGUAGE sql STABLE SECURITY DEFINER;
+
+-- Whether actor_id can see rows owned by owner_admin_id: their own, or any
+-- teammate's if they're an owner or assistant
+CREATE OR REPLACE FUNCTION admin_can_view(actor_id UUID, owner_admin_id UUID)
+RETURNS BOOLEAN AS $$
+  SELECT COALESCE(
+    actor_id = owner_admin_id OR (
+      admin_team_role(actor_id) IN ('owner', 'assistant') AND
+      admin_team_id(actor_id) = admin_team_id(owner_admin_id)
+    ),
+    false
+  );
+$$ LANGUAGE sql STABLE SECURITY DEFINER;
+
+-- Whether actor_id can create, change or delete rows owned by
+-- owner_admin_id: their own unless they're an assistant, or any teammate's
+-- if they're an owner
+CREATE OR REPLACE FUNCTION admin_can_manage(actor_id UUID, owner_admin_id UUID)
+RETURNS BOOLEAN AS $$
+  SELECT COALESCE(
+    (actor_id = owner_admin_id AND admin_team_role(actor_id) IS DISTINCT FROM 'assistant') OR (
+      admin_team_role(actor_id) = 'owner' AND
+      admin_team_id(actor_id) = admin_team_id(owner_admin_id)
+    ),
+    false
+  );
+$$ LANGUAGE sql STABLE SECURITY DEFINER;
+
+CREATE OR REPLACE FUNCTION property_admin_id(property_id_param UUID)
+RETURNS UUID AS $$
+  SELECT admin_id FROM properties WHERE id = property_id_param;
+$$ LANGUAGE sql STABLE SECURITY DEFINER;
+
+-- Visitors belong to the admin whose property they visited
+CREATE OR REPLACE FUNCTION visitor_admin_id(visitor_id_param UUID)
+RETURNS UUID AS $$
+  SELECT p.admin_id
+  FROM visitors v
+  JOIN properties p ON p.id = v.property_id
+  WHERE v.id = visitor_id_param;
+$$ LANGUAGE sql STABLE SECURITY DEFINER;
+
+CREATE OR REPLACE FUNCTION campaign_admin_id(campaign_id_param UUID)
+RETURNS UUID AS $$
+  SELECT admin_id FROM follow_up_campaigns WHERE id = campaign_id_param;
+$$ LANGUAGE sql STABLE SECURITY DEFINER;
+
+-- Assistants may only send campaigns someone who can edit them has approved
+ALTER TABLE follow_up_campaigns ADD COLUMN IF NOT EXISTS approved_at TIMESTAMP WITH TIME ZONE;
+ALTER TABLE follow_up_campaigns ADD COLUMN IF NOT EXISTS approved_by UUID REFERENCES admins(id) ON DELETE SET NULL;
+
+CREATE OR REPLACE FUNCTION admin_can_send_campaign(actor_id UUID, campaign_id_param UUID)
+RETURNS BOOLEAN AS $$
+  SELECT COALESCE((
+    SELECT
+      admin_can_manage(actor_id, c.admin_id) OR
+      (c.approved_at IS NOT NULL AND admin_can_view(actor_id, c.admin_id))
+    FROM follow_up_campaigns c
+    WHERE c.id = campaign_id_param
+  ), false);
+$$ LANGUAGE sql STABLE SECURITY DEFINER;
+
+-- Approval stays until it's withdrawn, including across edits
+CREATE OR REPLACE FUNCTION set_campaign_approval(campaign_id_param UUID, approved BOOLEAN)
+RETURNS VOID AS $$
+BEGIN
+  UPDATE follow_up_campaigns
+  SET
+    approved_at = CASE WHEN approved THEN NOW() END,
+    approved_by = CASE WHEN approved THEN current_admin_id() END
+  WHERE id = campaign_id_param AND admin_can_manage(current_admin_id(), admin_id);
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Campaign not found';
+  END IF;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+-- Team tables. Invites are created and accepted through the functions below.
+ALTER TABLE teams ENABLE ROW LEVEL SECURITY;
+ALTER TABLE team_members ENABLE ROW LEVEL SECURITY;
+ALTER TABLE team_invites ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Members can view their team" ON teams
+  FOR SELECT USING (id = admin_team_id(current_admin_id()));
+
+CREATE POLICY "Owners can rename their team" ON teams
+  FOR UPDATE USING (
+    id = admin_team_id(current_admin_id()) AND
+    admin_team_role(current_admin_id()) = 'owner'
+  );
+
+CREATE POLICY "Members can view their team's members" ON team_members
+  FOR SELECT USING (team_id = admin_team_id(current_admin_id()));
+
+CREATE POLICY "Owners can view their team's invites" ON team_invites
+  FOR SELECT USING (
+    team_id = admin_team_id(current_admin_id()) AND
+    admin_team_role(current_admin_id()) = 'owner'
+  );
+
+CREATE POLICY "Owners can revoke their team's invites" ON team_invites
+  FOR DELETE USING (
+    team_id = admin_team_id(current_admin_id()) AND
+    admin_team_role(current_admin_id()) = 'owner'
+  );
+
+GRANT SELECT, UPDATE ON teams TO authenticated;
+GRANT SELECT ON team_members TO authenticated;
+GRANT SELECT, DELETE ON team_invites TO authenticated;
+
+-- properties had no RLS at all and was writable with the anon key. The
+-- check-in and feedback pages still read properties anonymously.
+ALTER TABLE properties ENABLE ROW LEVEL SECURITY;
+REVOKE INSERT, UPDATE, DELETE ON properties FROM anon;
+
+DROP POLICY IF EXISTS "Anyone can view properties" ON properties;
+CREATE POLICY "Anyone can view properties" ON properties
+  FOR SELECT TO anon USING (true);
+
+CREATE POLICY "Team members can view properties" ON properties
+  FOR SELECT TO authenticated USING (admin_can_view(current_admin_id(), admin_id));
+
+CREATE POLICY "Team members can manage properties" ON properties
+  FOR ALL TO authenticated
+  USING (admin_can_manage(current_admin_id(), admin_id))
+  WITH CHECK (admin_can_manage(current_admin_id(), admin_id));
+
+-- Visitors, feedback and followups were readable and writable by every
+-- signed-in user. Anonymous check-ins are unchanged.
+DROP POLICY IF EXISTS "Allow admin access to all visitors" ON visitors;
+DROP POLICY IF EXISTS "Enable read for authenticated users" ON visitors;
+DROP POLICY IF EXISTS "Allow authenticated read on visitors" ON visitors;
+DROP POLICY IF EXISTS "Allow admin access to all feedback" ON feedback;
+DROP POLICY IF EXISTS "Enable read for authenticated users" ON feedback;
+DROP POLICY IF EXISTS "Allow authenticated read on feedback" ON feedback;
+DROP POLICY IF EXISTS "Enable read for authenticated users" ON followups;
+DROP POLICY IF EXISTS "Enable all for authenticated users" ON followups;
+DROP POLICY IF EXISTS "Allow authenticated read on followups" ON followups;
+DROP POLICY IF EXISTS "Allow authenticated insert/update on followups" ON followups;
+
+CREATE POLICY "Team members can view visitors" ON visitors
+  FOR SELECT TO authenticated USING (admin_can_view(current_admin_id(), property_admin_id(property_id)));
+
+CREATE POLICY "Team members can manage visitors" ON visitors
+  FOR UPDATE TO authenticated
+  USING (admin_can_manage(current_admin_id(), property_admin_id(property_id)))
+  WITH CHECK (admin_can_manage(current_admin_id(), property_admin_id(property_id)));
+
+CREATE POLICY "Team members can delete visitors" ON visitors
+  FOR DELETE TO authenticated USING (admin_can_manage(current_admin_id(), property_admin_id(property_id)));
+
+CREATE POLICY "Team members can view feedback" ON feedback
+  FOR SELECT TO authenticated USING (admin_can_view(current_admin_id(), visitor_admin_id(visitor_id)));
+
+CREATE POLICY "Team members can manage feedback" ON feedback
+  FOR ALL TO authenticated
+  USING (admin_can_manage(current_admin_id(), visitor_admin_id(visitor_id)))
+  WITH CHECK (admin_can_manage(current_admin_id(), visitor_admin_id(visitor_id)));
+
+-- Anyone who can see a visitor can add notes and calls; only those who can
+-- manage the visitor can change or delete them
+CREATE POLICY "Team members can view visitor activity" ON followups
+  FOR SELECT TO authenticated USING (admin_can_view(current_admin_id(), visitor_admin_id(visitor_id)));
+
+CREATE POLICY "Team members can log visitor activity" ON followups
+  FOR INSERT TO authenticated WITH CHECK (
+    admin_id = current_admin_id() AND
+    admin_can_view(current_admin_id(), visitor_admin_id(visitor_id))
+  );
+
+CREATE POLICY "Team members can edit visitor activity" ON followups
+  FOR UPDATE TO authenticated USING (admin_can_manage(current_admin_id(), visitor_admin_id(visitor_id)));
+
+CREATE POLICY "Team members can delete visitor activity" ON followups
+  FOR DELETE TO authenticated USING (admin_can_manage(current_admin_id(), visitor_admin_id(visitor_id)));
+
+-- The dashboard's visitor list bypassed RLS by running with the view
+-- owner's rights
+ALTER VIEW visitor_feedback_summary SET (security_invoker = true);
+
+DROP POLICY IF EXISTS "Admins can manage their campaigns" ON follow_up_campaigns;
+CREATE POLICY "Team members can view campaigns" ON follow_up_campaigns
+  FOR SELECT USING (admin_can_view(current_admin_id(), admin_id));
+
+CREATE POLICY "Team members can manage campaigns" ON follow_up_campaigns
+  FOR ALL
+  USING (admin_can_manage(current_admin_id(), admin_id))
+  WITH CHECK (admin_can_manage(current_admin_id(), admin_id));
+
+DROP POLICY IF EXISTS "Admins can manage their email templates" ON email_templates;
+CREATE POLICY "Team members can view email templates" ON email_templates
+  FOR SELECT USING (admin_can_view(current_admin_id(), admin_id));
+
+CREATE POLICY "Team members can manage email templates" ON email_templates
+  FOR ALL
+  USING (admin_can_manage(current_admin_id(), admin_id))
+  WITH CHECK (admin_can_manage(current_admin_id(), admin_id));
+
+DROP POLICY IF EXISTS "Admins can manage their SMS templates" ON sms_templates;
+CREATE POLICY "Team members can view SMS templates" ON sms_templates
+  FOR SELECT USING (admin_can_view(current_admin_id(), admin_id));
+
+CREATE POLICY "Team members can manage SMS templates" ON sms_templates
+  FOR ALL
+  USING (admin_can_manage(current_admin_id(), admin_id))
+  WITH CHECK (admin_can_manage(current_admin_id(), admin_id));
+
+-- Campaigns can use any template from their admin's team, as well as the
+-- shared defaults. Replaces the same-admin check from
+-- database-campaign-templates.sql.
+CREATE OR REPLACE FUNCTION template_usable_by(template_admin_id UUID, campaign_admin_id UUID)
+RETURNS BOOLEAN AS $$
+  SELECT COALESCE(
+    template_admin_id IS NULL OR
+    template_admin_id = campaign_admin_id OR
+    admin_team_id(template_admin_id) = admin_team_id(campaign_admin_id),
+    false
+  );
+$$ LANGUAGE sql STABLE SECURITY DEFINER;
+
+DROP POLICY IF EXISTS "Admins can manage their campaign steps" ON campaign_steps;
+CREATE POLICY "Team members can view campaign steps" ON campaign_steps
+  FOR SELECT USING (admin_can_view(current_admin_id(), campaign_admin_id(campaign_id)));
+
+CREATE POLICY "Team members can manage campaign steps" ON campaign_steps
+  FOR ALL
+  USING (admin_can_manage(current_admin_id(), campaign_admin_id(campaign_id)))
+  WITH CHECK (admin_can_manage(current_admin_id(), campaign_admin_id(campaign_id)));
+
+-- Enrolling visitors is how a sequence is sent
+DROP POLICY IF EXISTS "Admins can manage their campaign enrollments" ON campaign_enrollments;
+CREATE POLICY "Team members can view campaign enrollments" ON campaign_enrollments
+  FOR SELECT USING (admin_can_view(current_admin_id(), campaign_admin_id(campaign_id)));
+
+CREATE POLICY "Team members can enroll visitors" ON campaign_enrollments
+  FOR INSERT WITH CHECK (admin_can_send_campaign(current_admin_id(), campaign_id));
+
+CREATE POLICY "Team members can update campaign enrollments" ON campaign_enrollments
+  FOR UPDATE USING (admin_can_manage(current_admin_id(), campaign_admin_id(campaign_id)));
+
+CREATE POLICY "Team members can delete campaign enrollments" ON campaign_enrollments
+  FOR DELETE USING (admin_can_manage(current_admin_id(), campaign_admin_id(campaign_id)));
+
+-- Messages can be seen by whoever sent them and whoever can see the visitor
+DROP POLICY IF EXISTS "Admins can view their follow-up logs" ON follow_up_logs;
+CREATE POLICY "Team members can view follow-up logs" ON follow_up_logs
+  FOR SELECT USING (
+    admin_can_view(current_admin_id(), admin_id) OR
+    admin_can_view(current_admin_id(), visitor_admin_id(visitor_id))
+  );
+
+DROP POLICY IF EXISTS "Admins can view clicks on their messages" ON follow_up_link_clicks;
+CREATE POLICY "Team members can view clicks on messages" ON follow_up_link_clicks
+  FOR SELECT USING (log_id IN (SELECT id FROM follow_up_logs));
+
+DROP POLICY IF EXISTS "Admins can view their follow-up batches" ON follow_up_batches;
+CREATE POLICY "Team members can view follow-up batches" ON follow_up_batches
+  FOR SELECT USING (admin_can_view(current_admin_id(), admin_id));
+
+DROP POLICY IF EXISTS "Admins can view their follow-up jobs" ON follow_up_jobs;
+CREATE POLICY "Team members can view follow-up jobs" ON follow_up_jobs
+  FOR SELECT USING (admin_can_view(current_admin_id(), admin_id));
+
+-- Assistants schedule and run open houses, but only those who can manage
+-- the property can delete one
+DROP POLICY IF EXISTS "Admins can manage sessions for their properties" ON property_sessions;
+CREATE POLICY "Team members can view sessions" ON property_sessions
+  FOR SELECT USING (admin_can_view(current_admin_id(), property_admin_id(property_id)));
+
+CREATE POLICY "Team members can schedule sessions" ON property_sessions
+  FOR INSERT WITH CHECK (admin_can_view(current_admin_id(), property_admin_id(property_id)));
+
+CREATE POLICY "Team members can update sessions" ON property_sessions
+  FOR UPDATE USING (admin_can_view(current_admin_id(), property_admin_id(property_id)));
+
+CREATE POLICY "Team members can delete sessions" ON property_sessions
+  FOR DELETE USING (admin_can_manage(current_admin_id(), property_admin_id(property_id)));
+
+DROP POLICY IF EXISTS "Admins can view stage history for their visitors" ON visitor_stage_history;
+CREATE POLICY "Team members can view stage history" ON visitor_stage_history
+  FOR SELECT USING (admin_can_view(current_admin_id(), visitor_admin_id(visitor_id)));
+
+DROP POLICY IF EXISTS "Admins can view their contacts" ON contacts;
+CREATE POLICY "Team members can view contacts" ON contacts
+  FOR SELECT USING (admin_can_view(current_admin_id(), admin_id));
+
+DROP POLICY IF EXISTS "Admins can view unsubscribes" ON unsubscribes;
+CREATE POLICY "Team members can view unsubscribes" ON unsubscribes
+  FOR SELECT USING (admin_can_view(current_admin_id(), visitor_admin_id(visitor_id)));
+
+-- Lead scoring weights, messaging providers, the outbox and test sends stay
+-- with each admin.
+
+-- Team management. Only owners invite, change roles and remove members.
+
+-- Everyone on the caller's team, with their names (admins is only readable
+-- row by row by its owner)
+CREATE OR REPLACE FUNCTION get_team_members()
+RETURNS TABLE (
+  admin_id UUID,
+  first_name TEXT,
+  last_name TEXT,
+  email TEXT,
+  role TEXT,
+  joined_at TIMESTAMP WITH TIME ZONE
+) AS $$
+  SELECT a.id, a.first_name, a.last_name, a.email, m.role, m.created_at
+  FROM team_members m
+  JOIN admins a ON a.id = m.admin_id
+  WHERE m.team_id = admin_team_id(current_admin_id())
+  ORDER BY m.created_at;
+$$ LANGUAGE sql STABLE SECURITY DEFINER;
+
+-- Creates an invite to the caller's team and returns its token. Inviting an
+-- email again replaces its pending invite.
+CREATE OR REPLACE FUNCTION create_team_invite(email_param TEXT, role_param TEXT)
+RETURNS UUID AS $$
+DECLARE
+  caller_id UUID := current_admin_id();
+  caller_team_id UUID := admin_team_id(caller_id);
+  invite_token UUID;
+BEGIN
+  IF admin_team_role(caller_id) IS DISTINCT FROM 'owner' THEN
+    RAISE EXCEPTION 'Only team owners can invite members';
+  END IF;
+
+  IF role_param NOT IN ('owner', 'agent', 'assistant') THEN
+    RAISE EXCEPTION 'Unknown role: %', role_param;
+  END IF;
+
+  IF EXISTS (
+    SELECT 1 FROM team_members m
+    JOIN admins a ON a.id = m.admin_id
+    WHERE m.team_id = caller_team_id AND LOWER(a.email) = LOWER(TRIM(email_param))
+  ) THEN
+    RAISE EXCEPTION '% is already on your team', TRIM(email_param);
+  END IF;
+
+  DELETE FROM team_invites
+  WHERE team_id = caller_team_id AND LOWER(email) = LOWER(TRIM(email_param)) AND accepted_at IS NULL;
+
+  INSERT INTO team_invites (team_id, email, role, invited_by)
+  VALUES (caller_team_id, LOWER(TRIM(email_param)), role_param, caller_id)
+  RETURNING token INTO invite_token;
+
+  RETURN invite_token;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+-- What the invite page shows before the invite is accepted
+CREATE OR REPLACE FUNCTION get_team_invite(token_param UUID)
+RETURNS TABLE (
+  team_name TEXT,
+  email TEXT,
+  role TEXT,
+  invited_by_name TEXT,
+  status TEXT
+) AS $$
+  SELECT
+    t.name,
+    i.email,
+    i.role,
+    NULLIF(TRIM(COALESCE(a.first_name, '') || ' ' || COALESCE(a.last_name, '')), ''),
+    CASE
+      WHEN i.accepted_at IS NOT NULL THEN 'accepted'
+      WHEN i.expires_at < NOW() THEN 'expired'
+      ELSE 'open'
+    END
+  FROM team_invites i
+  JOIN teams t ON t.id = i.team_id
+  LEFT JOIN admins a ON a.id = i.invited_by
+  WHERE i.token = token_param;
+$$ LANGUAGE sql STABLE SECURITY DEFINER;
+
+-- Moves the caller onto the invite's team. Their properties, leads and
+-- campaigns come with them. The team they leave is deleted if it's now
+-- empty; an owner who still has teammates has to hand the team over first.
+CREATE OR REPLACE FUNCTION accept_team_invite(token_param UUID)
+RETURNS UUID AS $$
+DECLARE
+  caller_id UUID := current_admin_id();
+  old_team_id UUID := admin_team_id(caller_id);
+  invite team_invites%ROWTYPE;
+BEGIN
+  SELECT * INTO invite FROM team_invites WHERE token = token_param FOR UPDATE;
+
+  IF invite.id IS NULL OR caller_id IS NULL THEN
+    RAISE EXCEPTION 'Invite not found';
+  END IF;
+
+  IF invite.accepted_at IS NOT NULL THEN
+    RAISE EXCEPTION 'This invite has already been used';
+  END IF;
+
+  IF invite.expires_at < NOW() THEN
+    RAISE EXCEPTION 'This invite has expired. Ask the team owner for a new one.';
+  END IF;
+
+  IF LOWER(invite.email) <> (SELECT LOWER(email) FROM admins WHERE id = caller_id) THEN
+    RAISE EXCEPTION 'This invite is for %. Sign in with that account to accept it.', invite.email;
+  END IF;
+
+  IF old_team_id = invite.team_id THEN
+    RAISE EXCEPTION 'You are already on this team';
+  END IF;
+
+  IF admin_team_role(caller_id) = 'owner' AND EXISTS (
+    SELECT 1 FROM team_members WHERE team_id = old_team_id AND admin_id <> caller_id
+  ) AND NOT EXISTS (
+    SELECT 1 FROM team_members WHERE team_id = old_team_id AND admin_id <> caller_id AND role = 'owner'
+  ) THEN
+    RAISE EXCEPTION 'You are the only owner of your current team. Make someone else an owner before leaving.';
+  END IF;
+
+  UPDATE team_members
+  SET team_id = invite.team_id, role = invite.role, created_at = NOW()
+  WHERE admin_id = caller_id;
+
+  DELETE FROM teams t
+  WHERE t.id = old_team_id
+    AND NOT EXISTS (SELECT 1 FROM team_members m WHERE m.team_id = t.id);
+
+  UPDATE team_invites
+  SET accepted_at = NOW(), accepted_by = caller_id
+  WHERE id = invite.id;
+
+  RETURN invite.team_id;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+-- A team always keeps at least one owner
+CREATE OR REPLACE FUNCTION set_team_member_role(member_admin_id UUID, role_param TEXT)
+RETURNS VOID AS $$
+DECLARE
+  caller_id UUID := current_admin_id();
+BEGIN
+  IF admin_team_role(caller_id) IS DISTINCT FROM 'owner' THEN
+    RAISE EXCEPTION 'Only team owners can change roles';
+  END IF;
+
+  IF role_param NOT IN ('owner', 'agent', 'assistant') THEN
+    RAISE EXCEPTION 'Unknown role: %', role_param;
+  END IF;
+
+  IF admin_team_id(member_admin_id) IS DISTINCT FROM admin_team_id(caller_id) THEN
+    RAISE EXCEPTION 'Team member not found';
+  END IF;
+
+  IF role_param <> 'owner' AND admin_team_role(member_admin_id) = 'owner' AND NOT EXISTS (
+    SELECT 1 FROM team_members
+    WHERE team_id = admin_team_id(caller_id) AND admin_id <> member_admin_id AND role = 'owner'
+  ) THEN
+    RAISE EXCEPTION 'A team needs at least one owner';
+  END IF;
+
+  UPDATE team_members SET role = role_param WHERE admin_id = member_admin_id;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+-- The removed admin goes back to a team of their own, keeping their
+-- properties, leads and campaigns. Members can also remove themselves.
+CREATE OR REPLACE FUNCTION remove_team_member(member_admin_id UUID)
+RETURNS VOID AS $$
+DECLARE
+  caller_id UUID := current_admin_id();
+BEGIN
+  IF member_admin_id IS DISTINCT FROM caller_id AND admin_team_role(caller_id) IS DISTINCT FROM 'owner' THEN
+    RAISE EXCEPTION 'Only team owners can remove members';
+  END IF;
+
+  IF admin_team_id(member_admin_id) IS DISTINCT FROM admin_team_id(caller_id) THEN
+    RAISE EXCEPTION 'Team member not found';
+  END IF;
+
+  IF admin_team_role(member_admin_id) = 'owner' AND NOT EXISTS (
+    SELECT 1 FROM team_members
+    WHERE team_id = admin_team_id(caller_id) AND admin_id <> member_admin_id AND role = 'owner'
+  ) THEN
+    RAISE EXCEPTION 'A team needs at least one owner';
+  END IF;
+
+  DELETE FROM team_members WHERE admin_id = member_admin_id;
+  PERFORM create_personal_team(member_admin_id);
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+-- Functions that checked the caller owned the property, contact or visitor
+-- now apply the team rules instead.
+
+-- Assistants run open houses too. Otherwise unchanged from
+-- database-open-house-sessions.sql.
+CREATE OR REPLACE FUNCTION start_property_session(property_uuid UUID, session_id_param UUID DEFAULT NULL)
+RETURNS UUID AS $$
+DECLARE
+  started_id UUID;
+BEGIN
+  IF NOT admin_can_view(current_admin_id(), property_admin_id(property_uuid)) THEN
+    RAISE EXCEPTION 'Property not found';
+  END IF;
+
+  UPDATE property_sessions
+  SET is_active = false, ended_at = NOW(), updated_at = NOW()
+  WHERE property_id = property_uuid AND is_active;
+
+  IF session_id_param IS NULL THEN
+    INSERT INTO property_sessions (property_id, session_date, start_time, is_active, started_at)
+    VALUES (property_uuid, CURRENT_DATE, NOW(), true, NOW())
+    RETURNING id INTO started_id;
+  ELSE
+    UPDATE property_sessions
+    SET is_active = true, started_at = NOW(), ended_at = NULL, session_date = CURRENT_DATE, updated_at = NOW()
+    WHERE id = session_id_param AND property_id = property_uuid AND ended_at IS NULL
+    RETURNING id INTO started_id;
+
+    IF started_id IS NULL THEN
+      RAISE EXCEPTION 'Session not found or already ended';
+    END IF;
+  END IF;
+
+  RETURN started_id;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+CREATE OR REPLACE FUNCTION end_property_session(session_id_param UUID)
+RETURNS VOID AS $$
+BEGIN
+  UPDATE property_sessions s
+  SET is_active = false, ended_at = NOW(), updated_at = NOW()
+  WHERE s.id = session_id_param
+    AND s.is_active
+    AND admin_can_view(current_admin_id(), property_admin_id(s.property_id));
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Session not found or not running';
+  END IF;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+-- Otherwise unchanged from database-returning-visitors.sql
+CREATE OR REPLACE FUNCTION merge_contacts(target_contact_id UUID, source_contact_ids UUID[])
+RETURNS INTEGER AS $$
+DECLARE
+  admin_id_value UUID;
+  moved INTEGER;
+BEGIN
+  SELECT c.admin_id INTO admin_id_value
+  FROM contacts c
+  WHERE c.id = target_contact_id AND admin_can_manage(current_admin_id(), c.admin_id);
+
+  IF admin_id_value IS NULL THEN
+    RAISE EXCEPTION 'Contact not found';
+  END IF;
+
+  IF EXISTS (
+    SELECT 1 FROM UNNEST(source_contact_ids) AS source_id
+    LEFT JOIN contacts c ON c.id = source_id
+    WHERE c.admin_id IS DISTINCT FROM admin_id_value
+  ) THEN
+    RAISE EXCEPTION 'Contact not found';
+  END IF;
+
+  UPDATE visitors
+  SET contact_id = target_contact_id
+  WHERE contact_id = ANY(source_contact_ids) AND contact_id <> target_contact_id;
+
+  GET DIAGNOSTICS moved = ROW_COUNT;
+
+  DELETE FROM contacts
+  WHERE id = ANY(source_contact_ids) AND id <> target_contact_id;
+
+  RETURN moved;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+-- Stage history now records who made the change rather than the property's
+-- owner. Otherwise unchanged from database-pipeline-stages.sql.
+CREATE OR REPLACE FUNCTION set_visitor_pipeline_stage(
+  visitor_id_param UUID,
+  stage_param TEXT
+)
+RETURNS VOID AS $$
+BEGIN
+  IF NOT admin_can_manage(current_admin_id(), visitor_admin_id(visitor_id_param)) THEN
+    RAISE EXCEPTION 'Visitor not found';
+  END IF;
+
+  PERFORM move_visitor_to_stage(visitor_id_param, stage_param, current_admin_id());
+
+  IF stage_param = 'offer_made' THEN
+    PERFORM mark_visitor_offer_made(visitor_id_param);
+  END IF;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+-- Teammates who can manage the visitor's owner's rows may record offers
+-- too. Otherwise unchanged from database-pipeline-stages.sql.
+CREATE OR REPLACE FUNCTION mark_visitor_offer_made(visitor_id_param UUID)
+RETURNS VOID AS $$
+BEGIN
+  IF NOT admin_can_manage(current_admin_id(), visitor_admin_id(visitor_id_param)) THEN
+    RAISE EXCEPTION 'Visitor not found';
+  END IF;
+
+  UPDATE visitors
+  SET made_offer_at = COALESCE(made_offer_at, NOW())
+  WHERE id = visitor_id_param;
+
+  IF (SELECT pipeline_stage FROM visitors WHERE id = visitor_id_param) IN ('new', 'contacted', 'showing_scheduled') THEN
+    PERFORM move_visitor_to_stage(visitor_id_param, 'offer_made', current_admin_id());
+  END IF;
+
+  UPDATE campaign_enrollments ce
+  SET status = 'exited', exit_reason = 'made_offer', ended_at = NOW()
+  FROM follow_up_campaigns c
+  WHERE
+    c.id = ce.campaign_id AND
+    ce.visitor_id = visitor_id_param AND
+    ce.status = 'active' AND
+    'made_offer' = ANY(c.exit_conditions);
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+
+-- Sends messages only to visitors the campaign's owner can see. Otherwise
+-- unchanged from database-returning-visitors.sql.
+CREATE OR REPLACE FUNCTION get_eligible_visitors(
+  campaign_id_param UUID,
+  property_id_param UUID DEFAULT NULL
+)
+RETURNS TABLE (
+  visitor_id UUID,
+  visitor_name TEXT,
+  visitor_email TEXT,
+  visitor_phone TEXT,
+  property_id UUID,
+  property_name TEXT,
+  property_address TEXT,
+  visit_date TIMESTAMP WITH TIME ZONE,
+  interested BOOLEAN,
+  has_feedback BOOLEAN
+) AS $$
+BEGIN
+  RETURN QUERY
+  -- One row per person: their most recent visit that qualifies
+  SELECT DISTINCT ON (COALESCE(v.contact_id, v.id))
+    v.id as visitor_id,
+    v.name as visitor_name,
+    v.email as visitor_email,
+    v.phone as visitor_phone,
+    v.property_id as property_id,
+    p.name as property_name,
+    p.address as property_address,
+    v.visit_date,
+    COALESCE(f.interested, false) as interested,
+    (f.id IS NOT NULL) as has_feedback
+  FROM visitors v
+  LEFT JOIN properties p ON v.property_id = p.id
+  LEFT JOIN feedback f ON v.id = f.visitor_id
+  LEFT JOIN follow_up_campaigns c ON c.id = campaign_id_param
+  WHERE
+    -- Property filter
+    (property_id_param IS NULL OR v.property_id = property_id_param) AND
+    -- Campaign property filter
+    (c.property_id IS NULL OR v.property_id = c.property_id) AND
+    -- Only properties the campaign's owner can see, so a campaign for all
+    -- properties can't reach another team's visitors
+    admin_can_view(c.admin_id, p.admin_id) AND
+    -- At least one of the campaign's channels is still open
+    (
+      (c.message_type IN ('email', 'both') AND NOT is_unsubscribed(v.email, v.phone, 'email')) OR
+      (c.message_type IN ('sms', 'both') AND NOT is_unsubscribed(v.email, v.phone, 'sms'))
+    ) AND
+    -- Pipeline stage filters
+    (cardinality(c.include_stages) = 0 OR v.pipeline_stage = ANY(c.include_stages)) AND
+    NOT (v.pipeline_stage = ANY(c.exclude_stages)) AND
+    -- Trigger condition filter
+    CASE
+      WHEN c.trigger_condition = 'interested' THEN COALESCE(f.interested, false) = true
+      WHEN c.trigger_condition = 'no_feedback' THEN f.id IS NULL
+      WHEN c.trigger_condition = 'hot_lead' THEN v.lead_temperature = 'hot'
+      WHEN c.trigger_condition = 'warm_lead' THEN v.lead_temperature = 'warm'
+      WHEN c.trigger_condition = 'cold_lead' THEN v.lead_temperature = 'cold'
+      WHEN c.trigger_condition = 'all' THEN true
+      WHEN c.trigger_condition = 'manual' THEN true
+      ELSE false
+    END AND
+    -- Not already sent (or queued, or dead-lettered) for this campaign, to
+    -- this visit or to the same person through any other visit
+    NOT EXISTS (
+      SELECT 1 FROM follow_up_logs fl
+      WHERE (fl.visitor_id = v.id OR fl.contact_id = v.contact_id)
+      AND fl.campaign_id = campaign_id_param
+      AND (
+        fl.status NOT IN ('failed') OR
+        EXISTS (SELECT 1 FROM follow_up_jobs j WHERE j.log_id = fl.id AND j.status = 'dead')
+      )
+    ) AND
+    -- Not already in this sequence through another visit
+    NOT EXISTS (
+      SELECT 1 FROM campaign_enrollments ce
+      JOIN visitors ov ON ov.id = ce.visitor_id
+      WHERE ov.contact_id = v.contact_id
+      AND ov.id <> v.id
+      AND ce.campaign_id = campaign_id_param
+    )
+  ORDER BY COALESCE(v.contact_id, v.id), v.visit_date DESC;
+END;
+$$ LANGUAGE plpgsql;
+
+-- Campaigns are found through the team rules, and actions the admin's role
+-- doesn't allow are skipped. Otherwise unchanged from
+-- database-bulk-campaign-actions.sql.
+CREATE OR REPLACE FUNCTION bulk_campaign_action(
+  admin_id_param UUID,
+  action_param TEXT,
+  campaign_ids_param UUID[]
+)
+RETURNS TABLE (
+  campaign_id UUID,
+  campaign_name TEXT,
+  outcome TEXT,
+  detail TEXT
+) AS $$
+DECLARE
+  target RECORD;
+  enrolled INTEGER;
+BEGIN
+  IF action_param NOT IN ('send', 'pause', 'activate', 'delete') THEN
+    RAISE EXCEPTION 'Unknown bulk action: %', action_param;
+  END IF;
+
+  -- Hold the campaigns until the transaction ends so a concurrent edit
+  -- can't interleave with the bulk change
+  PERFORM 1
+  FROM follow_up_campaigns c
+  WHERE c.id = ANY(campaign_ids_param) AND admin_can_view(admin_id_param, c.admin_id)
+  FOR UPDATE;
+
+  FOR target IN
+    SELECT
+      ids.id AS requested_id,
+      c.id,
+      c.name,
+      c.status,
+      EXISTS (SELECT 1 FROM campaign_steps s WHERE s.campaign_id = c.id) AS is_sequence,
+      admin_can_manage(admin_id_param, c.admin_id) AS can_manage,
+      admin_can_send_campaign(admin_id_param, c.id) AS can_send
+    FROM (SELECT DISTINCT unnest(campaign_ids_param) AS id) ids
+    LEFT JOIN follow_up_campaigns c ON c.id = ids.id AND admin_can_view(admin_id_param, c.admin_id)
+  LOOP
+    campaign_id := target.requested_id;
+    campaign_name := target.name;
+    detail := NULL;
+
+    IF target.id IS NULL THEN
+      outcome := 'not_found';
+      detail := 'Campaign not found';
+
+    ELSIF action_param <> 'send' AND NOT target.can_manage THEN
+      outcome := 'skipped';
+      detail := 'Your role can''t change this campaign';
+
+    ELSIF action_param = 'send' AND NOT target.can_send THEN
+      outcome := 'skipped';
+      detail := 'Campaign needs approval before you can send it';
+
+    ELSIF action_param = 'delete' THEN
+      DELETE FROM follow_up_campaigns c WHERE c.id = target.id;
+      outcome := 'deleted';
+
+    ELSIF action_param IN ('pause', 'activate') THEN
+      IF target.status = CASE action_param WHEN 'pause' THEN 'paused' ELSE 'active' END THEN
+        outcome := 'unchanged';
+        detail := 'Already ' || target.status;
+      ELSE
+        UPDATE follow_up_campaigns c
+        SET status = CASE action_param WHEN 'pause' THEN 'paused' ELSE 'active' END
+        WHERE c.id = target.id;
+        outcome := 'updated';
+      END IF;
+
+    ELSIF target.status <> 'active' THEN
+      outcome := 'skipped';
+      detail := 'Campaign is ' || target.status;
+
+    ELSIF target.is_sequence THEN
+      enrolled := enroll_sequence_visitors(target.id);
+      outcome := 'enrolled';
+      detail := enrolled || ' visitors enrolled';
+
+    ELSE
+      outcome := 'ready';
+    END IF;
+
+    RETURN NEXT;
+  END LOOP;
+END;
+$$ LANGUAGE plpgsql;
+
+-- Admins whose rows actor_id can see, for service-role queries that filter
+-- a whole list rather than call admin_can_view row by row
+CREATE OR REPLACE FUNCTION admin_viewable_admin_ids(actor_id UUID)
+RETURNS SETOF UUID AS $$
+  SELECT a.id FROM admins a WHERE admin_can_view(actor_id, a.id);
+$$ LANGUAGE sql STABLE SECURITY DEFINER;
+
+-- Teammates who can manage the sender's rows may retry their messages too.
+-- Otherwise unchanged from database-follow-up-log-explorer.sql.
+CREATE OR REPLACE FUNCTION retry_failed_follow_up_logs(
+  admin_id_param UUID,
+  log_ids_param UUID[]
+)
+RETURNS SETOF UUID AS $$
+BEGIN
+  RETURN QUERY
+  WITH retried AS (
+    UPDATE follow_up_jobs j
+    SET status = 'queued', attempts = 0, next_attempt_at = NOW(), last_error = NULL, locked_until = NULL
+    FROM follow_up_logs l
+    WHERE
+      j.log_id = l.id AND
+      l.id = ANY(log_ids_param) AND
+      admin_can_manage(admin_id_param, l.admin_id) AND
+      l.status = 'failed' AND
+      j.status IN ('dead', 'sent')
+    RETURNING j.log_id
+  )
+  UPDATE follow_up_logs l
+  SET status = 'pending', error_message = NULL, external_id = NULL, delivered_at = NULL
+  FROM retried
+  WHERE l.id = retried.log_id
+  RETURNING l.id;
+END;
+$$ LANGUAGE plpgsql;
+
+-- Shows every message sent to the visitor, whoever on the team sent it.
+-- Otherwise unchanged from database-pipeline-stages.sql.
+CREATE OR REPLACE FUNCTION get_visitor_timeline(visitor_id_param UUID)
+RETURNS TABLE (
+  occurred_at TIMESTAMP WITH TIME ZONE,
+  event_type TEXT,
+  detail JSONB
+) AS $$
+DECLARE
+  visitor_row visitors%ROWTYPE;
+BEGIN
+  IF NOT admin_can_view(current_admin_id(), visitor_admin_id(visitor_id_param)) THEN
+    RAISE EXCEPTION 'Visitor not found';
+  END IF;
+
+  SELECT * INTO visitor_row FROM visitors WHERE id = visitor_id_param;
+
+  RETURN QUERY
+  SELECT events.occurred_at, events.event_type, events.detail
+  FROM (
+    SELECT
+      visitor_row.visit_date as occurred_at,
+      'check_in'::text as event_type,
+      jsonb_build_object(
+        'property_name', (SELECT name FROM properties WHERE id = visitor_row.property_id),
+        'home_buying_status', visitor_row.home_buying_status,
+        'looking_to_buy_within', visitor_row.looking_to_buy_within,
+        'budget_range', visitor_row.budget_range,
+        'financing_status', visitor_row.financing_status,
+        'how_did_you_hear', COALESCE(NULLIF(visitor_row.how_did_you_hear_other, ''), visitor_row.how_did_you_hear)
+      ) as detail
+
+    UNION ALL
+
+    SELECT
+      f.created_at,
+      'feedback',
+      jsonb_build_object(
+        'rating', f.rating,
+        'interested', f.interested,
+        'comments', f.comments,
+        'liked_most', f.liked_most,
+        'liked_least', f.liked_least,
+        'comparison_to_others', f.comparison_to_others,
+        'meets_needs', f.meets_needs,
+        'would_make_offer', f.would_make_offer,
+        'perceived_value', f.perceived_value,
+        'follow_up_preference', f.follow_up_preference
+      )
+    FROM feedback f
+    WHERE f.visitor_id = visitor_id_param
+
+    UNION ALL
+
+    -- One event per status the message has reached
+    SELECT
+      message_events.occurred_at,
+      message_events.event_type,
+      jsonb_build_object(
+        'log_id', l.id,
+        'channel', l.message_type,
+        'campaign_name', c.name,
+        'subject', l.subject,
+        'error_message', CASE WHEN message_events.event_type = 'message_failed' THEN l.error_message END
+      )
+    FROM follow_up_logs l
+    LEFT JOIN follow_up_campaigns c ON c.id = l.campaign_id
+    CROSS JOIN LATERAL (
+      VALUES
+        (l.sent_at, CASE
+          WHEN l.status = 'pending' THEN 'message_queued'
+          WHEN l.status IN ('failed', 'bounced') AND l.external_id IS NULL THEN 'message_failed'
+          ELSE 'message_sent'
+        END),
+        (l.delivered_at, 'message_delivered'),
+        (l.opened_at, 'message_opened'),
+        (l.clicked_at, 'message_clicked'),
+        (CASE WHEN l.status IN ('failed', 'bounced') AND l.external_id IS NOT NULL THEN l.sent_at END, 'message_failed')
+    ) as message_events(occurred_at, event_type)
+    WHERE
+      l.visitor_id = visitor_id_param AND
+      message_events.occurred_at IS NOT NULL
+
+    UNION ALL
+
+    SELECT
+      fu.created_at,
+      fu.activity_type,
+      jsonb_build_object(
+        'id', fu.id,
+        'notes', fu.notes,
+        'call_outcome', fu.call_outcome,
+        'call_duration_minutes', fu.call_duration_minutes,
+        'author', NULLIF(TRIM(COALESCE(a.first_name, '') || ' ' || COALESCE(a.last_name, '')), '')
+      )
+    FROM followups fu
+    LEFT JOIN admins a ON a.id = fu.admin_id
+    WHERE fu.visitor_id = visitor_id_param
+
+    UNION ALL
+
+    SELECT
+      h.changed_at,
+      'stage_changed',
+      jsonb_build_object(
+        'from_stage', h.from_stage,
+        'to_stage', h.to_stage,
+        'author', NULLIF(TRIM(COALESCE(a.first_name, '') || ' ' || COALESCE(a.last_name, '')), '')
+      )
+    FROM visitor_stage_history h
+    LEFT JOIN admins a ON a.id = h.admin_id
+    WHERE h.visitor_id = visitor_id_param
+
+    UNION ALL
+
+    SELECT
+      u.created_at,
+      'unsubscribed',
+      jsonb_build_object(
+        'unsubscribe_type', u.unsubscribe_type,
+        'reason', u.reason
+      )
+    FROM unsubscribes u
+    WHERE
+      u.visitor_id = visitor_id_param OR
+      LOWER(u.email) = LOWER(visitor_row.email) OR
+      normalize_phone(u.phone) = normalize_phone(visitor_row.phone)
+  ) events
+  WHERE events.occurred_at IS NOT NULL
+  ORDER BY events.occurred_at DESC;
+END;
+$$ LANGUAGE plpgsql STABLE SECURITY DEFINER;
+
+GRANT EXECUTE ON FUNCTION current_admin_id() TO authenticated;
+GRANT EXECUTE ON FUNCTION admin_can_send_campaign(UUID, UUID) TO service_role;
+REVOKE EXECUTE ON FUNCTION admin_viewable_admin_ids(UUID) FROM PUBLIC, anon, authenticated;
+GRANT EXECUTE ON FUNCTION admin_viewable_admin_ids(UUID) TO service_role;
+GRANT EXECUTE ON FUNCTION set_campaign_approval(UUID, BOOLEAN) TO authenticated;
+GRANT EXECUTE ON FUNCTION get_team_members() TO authenticated;
+GRANT EXECUTE ON FUNCTION create_team_invite(TEXT, TEXT) TO authenticated;
+GRANT EXECUTE ON FUNCTION get_team_invite(UUID) TO authenticated;
+GRANT EXECUTE ON FUNCTION accept_team_invite(UUID) TO authenticated;
+GRANT EXECUTE ON FUNCTION set_team_member_role(UUID, TEXT) TO authenticated;
+GRANT EXECUTE ON FUNCTION remove_team_member(UUID) TO authenticated;
+
+SELECT 'Teams setup complete' as status;
@@ -0,0 +1,8 @@
+-- Template Variables Setup
+-- Run this in your Supabase SQL Editor after database-setup.sql
+
+-- {{admin_phone}} is filled from here. Admins without a phone number get
+-- an empty value in their messages.
+ALTER TABLE admins ADD COLUMN IF NOT EXISTS phone TEXT;
+
+SELECT 'Template variables setup complete' as status;
@@ -0,0 +1,32 @@
+-- Test Sends Setup
+-- Run this in your Supabase SQL Editor after database-followup-system.sql
+
+-- "Send test to me" messages from the campaign editor. Kept apart from
+-- follow_up_logs so tests never count as a visitor having been contacted
+-- or show up in campaign analytics.
+CREATE TABLE IF NOT EXISTS follow_up_test_sends (
+  id UUID PRIMARY KEY DEFAULT uuid_generate_v4(),
+  admin_id UUID REFERENCES admins(id) ON DELETE CASCADE,
+  campaign_id UUID REFERENCES follow_up_campaigns(id) ON DELETE SET NULL,
+  message_type TEXT NOT NULL CHECK (message_type IN ('email', 'sms')),
+  recipient TEXT NOT NULL,
+  subject TEXT,
+  message_content TEXT,
+  status TEXT NOT NULL CHECK (status IN ('sent', 'failed')),
+  external_id TEXT,
+  error_message TEXT,
+  sent_at TIMESTAMP WITH TIME ZONE DEFAULT NOW()
+);
+
+CREATE INDEX IF NOT EXISTS idx_follow_up_test_sends_admin_id ON follow_up_test_sends(admin_id);
+
+ALTER TABLE follow_up_test_sends ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Admins can view their test sends" ON follow_up_test_sends
+  FOR SELECT USING (
+    admin_id IN (
+      SELECT id FROM admins WHERE user_id = auth.uid()
+    )
+  );
+
+SELECT 'Test sends setup complete' as status;
@@ -0,0 +1,176 @@
+-- Unsubscribe Links and STOP Handling Setup
+-- Run this in your Supabase SQL Editor after database-follow-up-scheduler.sql
+
+-- Phone numbers arrive in different shapes (check-in form vs Twilio's E.164
+-- "From"), so compare on the last 10 digits.
+CREATE OR REPLACE FUNCTION normalize_phone(phone_param TEXT)
+RETURNS TEXT AS $$
+  SELECT NULLIF(RIGHT(regexp_replace(COALESCE(phone_param, ''), '\D', '', 'g'), 10), '');
+$$ LANGUAGE sql IMMUTABLE;
+
+CREATE INDEX IF NOT EXISTS idx_unsubscribes_email_lower ON unsubscribes(LOWER(email));
+CREATE INDEX IF NOT EXISTS idx_unsubscribes_phone_normalized ON unsubscribes(normalize_phone(phone));
+
+-- Whether a contact has opted out of a single channel ('email' or 'sms')
+CREATE OR REPLACE FUNCTION is_unsubscribed(
+  email_param TEXT,
+  phone_param TEXT,
+  channel_param TEXT
+)
+RETURNS BOOLEAN AS $$
+  SELECT EXISTS (
+    SELECT 1 FROM unsubscribes u
+    WHERE
+      (
+        channel_param = 'email' AND
+        u.unsubscribe_type IN ('email', 'both') AND
+        LOWER(u.email) = LOWER(email_param)
+      ) OR (
+        channel_param = 'sms' AND
+        u.unsubscribe_type IN ('sms', 'both') AND
+        normalize_phone(u.phone) = normalize_phone(phone_param)
+      )
+  );
+$$ LANGUAGE sql STABLE;
+
+GRANT EXECUTE ON FUNCTION is_unsubscribed(TEXT, TEXT, TEXT) TO service_role;
+
+-- Previously any unsubscribe excluded the visitor from every campaign, so an
+-- SMS "STOP" also stopped email. A visitor is now only excluded when every
+-- channel the campaign uses is blocked; the Edge Function skips the blocked
+-- channel of a 'both' campaign.
+CREATE OR REPLACE FUNCTION get_eligible_visitors(
+  campaign_id_param UUID,
+  property_id_param UUID DEFAULT NULL
+)
+RETURNS TABLE (
+  visitor_id UUID,
+  visitor_name TEXT,
+  visitor_email TEXT,
+  visitor_phone TEXT,
+  property_id UUID,
+  property_name TEXT,
+  property_address TEXT,
+  visit_date TIMESTAMP WITH TIME ZONE,
+  interested BOOLEAN,
+  has_feedback BOOLEAN
+) AS $$
+BEGIN
+  RETURN QUERY
+  SELECT
+    v.id as visitor_id,
+    v.name as visitor_name,
+    v.email as visitor_email,
+    v.phone as visitor_phone,
+    v.property_id as property_id,
+    p.name as property_name,
+    p.address as property_address,
+    v.visit_date,
+    COALESCE(f.interested, false) as interested,
+    (f.id IS NOT NULL) as has_feedback
+  FROM visitors v
+  LEFT JOIN properties p ON v.property_id = p.id
+  LEFT JOIN feedback f ON v.id = f.visitor_id
+  LEFT JOIN follow_up_campaigns c ON c.id = campaign_id_param
+  WHERE
+    -- Property filter
+    (property_id_param IS NULL OR v.property_id = property_id_param) AND
+    -- Campaign property filter
+    (c.property_id IS NULL OR v.property_id = c.property_id) AND
+    -- At least one of the campaign's channels is still open
+    (
+      (c.message_type IN ('email', 'both') AND NOT is_unsubscribed(v.email, v.phone, 'email')) OR
+      (c.message_type IN ('sms', 'both') AND NOT is_unsubscribed(v.email, v.phone, 'sms'))
+    ) AND
+    -- Trigger condition filter
+    CASE
+      WHEN c.trigger_condition = 'interested' THEN COALESCE(f.interested, false) = true
+      WHEN c.trigger_condition = 'no_feedback' THEN f.id IS NULL
+      WHEN c.trigger_condition = 'all' THEN true
+      WHEN c.trigger_condition = 'manual' THEN true
+      ELSE false
+    END AND
+    -- Not already sent this campaign
+    NOT EXISTS (
+      SELECT 1 FROM follow_up_logs fl
+      WHERE fl.visitor_id = v.id
+      AND fl.campaign_id = campaign_id_param
+      AND fl.status NOT IN ('failed')
+    );
+END;
+$$ LANGUAGE plpgsql;
+
+-- Confirmation links sent from the unsubscribe page, by the address that
+-- asked and the normalized contact. Only reachable through the function
+-- below, which rate-limits the page.
+CREATE TABLE IF NOT EXISTS unsubscribe_confirmation_requests (
+  id UUID PRIMARY KEY DEFAULT uuid_generate_v4(),
+  ip_address TEXT NOT NULL,
+  channel TEXT NOT NULL CHECK (channel IN ('email', 'sms')),
+  contact TEXT NOT NULL,
+  created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW()
+);
+
+CREATE INDEX IF NOT EXISTS idx_unsubscribe_confirmation_requests_ip ON unsubscribe_confirmation_requests(ip_address, created_at);
+CREATE INDEX IF NOT EXISTS idx_unsubscribe_confirmation_requests_contact ON unsubscribe_confirmation_requests(channel, contact, created_at);
+
+ALTER TABLE unsubscribe_confirmation_requests ENABLE ROW LEVEL SECURITY;
+
+-- Whether to send a confirmation link: 'send', 'skip' or 'rate_limited'.
+-- Links only go to contacts that belong to a visitor, at most 3 a day to
+-- each. Every request counts towards the 10 an hour each IP address gets,
+-- whether or not anything is sent, so the page can't be used to find out
+-- which contacts are on file.
+CREATE OR REPLACE FUNCTION request_unsubscribe_confirmation(
+  channel_param TEXT,
+  contact_param TEXT,
+  ip_param TEXT
+)
+RETURNS TEXT AS $$
+DECLARE
+  normalized_contact TEXT := CASE
+    WHEN channel_param = 'email' THEN NULLIF(LOWER(TRIM(contact_param)), '')
+    ELSE normalize_phone(contact_param)
+  END;
+BEGIN
+  DELETE FROM unsubscribe_confirmation_requests WHERE created_at < NOW() - INTERVAL '1 day';
+
+  IF (
+    SELECT COUNT(*) FROM unsubscribe_confirmation_requests
+    WHERE ip_address = ip_param AND created_at > NOW() - INTERVAL '1 hour'
+  ) >= 10 THEN
+    RETURN 'rate_limited';
+  END IF;
+
+  IF normalized_contact IS NULL THEN
+    RETURN 'skip';
+  END IF;
+
+  INSERT INTO unsubscribe_confirmation_requests (ip_address, channel, contact)
+  VALUES (ip_param, channel_param, normalized_contact);
+
+  IF (
+    SELECT COUNT(*) FROM unsubscribe_confirmation_requests
+    WHERE channel = channel_param AND contact = normalized_contact
+  ) > 3 THEN
+    RETURN 'skip';
+  END IF;
+
+  IF NOT EXISTS (
+    SELECT 1 FROM visitors v
+    WHERE CASE
+      WHEN channel_param = 'email' THEN LOWER(TRIM(v.email)) = normalized_contact
+      ELSE normalize_phone(v.phone) = normalized_contact
+    END
+  ) THEN
+    RETURN 'skip';
+  END IF;
+
+  RETURN 'send';
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+REVOKE EXECUTE ON FUNCTION request_unsubscribe_confirmation(TEXT, TEXT, TEXT) FROM PUBLIC, anon, authenticated;
+GRANT EXECUTE ON FUNCTION request_unsubscribe_confirmation(TEXT, TEXT, TEXT) TO service_role;
+
+SELECT 'Unsubscribe setup complete' as status;
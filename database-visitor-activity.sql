@@ -0,0 +1,207 @@
+-- Visitor Activity Timeline Setup
+-- Run this in your Supabase SQL Editor after database-follow-up-log-explorer.sql
+
+-- followups becomes the agent's activity log for a visitor: one row per note
+-- or logged call. Existing rows are notes.
+ALTER TABLE followups ADD COLUMN IF NOT EXISTS admin_id UUID REFERENCES admins(id) ON DELETE SET NULL;
+ALTER TABLE followups ADD COLUMN IF NOT EXISTS activity_type TEXT NOT NULL DEFAULT 'note'
+  CHECK (activity_type IN ('note', 'call'));
+ALTER TABLE followups ADD COLUMN IF NOT EXISTS call_outcome TEXT
+  CHECK (call_outcome IN ('connected', 'left_voicemail', 'no_answer', 'wrong_number'));
+ALTER TABLE followups ADD COLUMN IF NOT EXISTS call_duration_minutes INTEGER CHECK (call_duration_minutes >= 0);
+
+CREATE INDEX IF NOT EXISTS idx_unsubscribes_visitor_id ON unsubscribes(visitor_id);
+
+-- A visitor can now have many followups rows, which would repeat them in
+-- the summary. Only the latest one is joined. Otherwise unchanged from
+-- database-enhanced-forms.sql.
+DROP VIEW IF EXISTS visitor_feedback_summary;
+
+CREATE OR REPLACE VIEW visitor_feedback_summary AS
+SELECT
+  v.id,
+  v.name,
+  v.email,
+  v.phone,
+  v.visit_date,
+  v.created_at,
+  v.property_id,
+  v.feedback_token,
+  v.home_buying_status,
+  v.looking_to_buy_within,
+  v.budget_range,
+  v.financing_status,
+  v.how_did_you_hear,
+  v.how_did_you_hear_other,
+  p.name as property_name,
+  p.address as property_address,
+  f.rating,
+  f.comments,
+  f.interested,
+  f.liked_most,
+  f.liked_least,
+  f.comparison_to_others,
+  f.meets_needs,
+  f.would_make_offer,
+  f.perceived_value,
+  f.follow_up_preference,
+  f.created_at as feedback_date,
+  CASE
+    WHEN fu.id IS NOT NULL THEN true
+    ELSE false
+  END as has_followup,
+  fu.last_followed_up,
+  fu.notes as followup_notes,
+  CASE
+    WHEN f.id IS NOT NULL THEN true
+    ELSE false
+  END as has_feedback
+FROM visitors v
+LEFT JOIN properties p ON v.property_id = p.id
+LEFT JOIN feedback f ON v.id = f.visitor_id
+LEFT JOIN LATERAL (
+  SELECT id, last_followed_up, notes
+  FROM followups
+  WHERE visitor_id = v.id
+  ORDER BY last_followed_up DESC
+  LIMIT 1
+) fu ON true
+ORDER BY v.created_at DESC;
+
+GRANT SELECT ON visitor_feedback_summary TO authenticated;
+GRANT SELECT ON visitor_feedback_summary TO anon;
+
+-- Everything that happened with one visitor, newest first: check-in,
+-- feedback, each message and its status changes, agent notes and calls, and
+-- unsubscribes. Unsubscribes are matched on contact details as well as
+-- visitor id because STOP replies and unsubscribe links don't always know the
+-- visitor, which is why this runs with the owner's rights and checks that
+-- the visitor is at one of the caller's properties itself.
+CREATE OR REPLACE FUNCTION get_visitor_timeline(visitor_id_param UUID)
+RETURNS TABLE (
+  occurred_at TIMESTAMP WITH TIME ZONE,
+  event_type TEXT,
+  detail JSONB
+) AS $$
+DECLARE
+  admin_id_value UUID;
+  visitor_row visitors%ROWTYPE;
+BEGIN
+  SELECT a.id INTO admin_id_value
+  FROM visitors v
+  JOIN properties p ON p.id = v.property_id
+  JOIN admins a ON a.id = p.admin_id
+  WHERE v.id = visitor_id_param AND a.user_id = auth.uid();
+
+  IF admin_id_value IS NULL THEN
+    RAISE EXCEPTION 'Visitor not found';
+  END IF;
+
+  SELECT * INTO visitor_row FROM visitors WHERE id = visitor_id_param;
+
+  RETURN QUERY
+  SELECT events.occurred_at, events.event_type, events.detail
+  FROM (
+    SELECT
+      visitor_row.visit_date as occurred_at,
+      'check_in'::text as event_type,
+      jsonb_build_object(
+        'property_name', (SELECT name FROM properties WHERE id = visitor_row.property_id),
+        'home_buying_status', visitor_row.home_buying_status,
+        'looking_to_buy_within', visitor_row.looking_to_buy_within,
+        'budget_range', visitor_row.budget_range,
+        'financing_status', visitor_row.financing_status,
+        'how_did_you_hear', COALESCE(NULLIF(visitor_row.how_did_you_hear_other, ''), visitor_row.how_did_you_hear)
+      ) as detail
+
+    UNION ALL
+
+    SELECT
+      f.created_at,
+      'feedback',
+      jsonb_build_object(
+        'rating', f.rating,
+        'interested', f.interested,
+        'comments', f.comments,
+        'liked_most', f.liked_most,
+        'liked_least', f.liked_least,
+        'comparison_to_others', f.comparison_to_others,
+        'meets_needs', f.meets_needs,
+        'would_make_offer', f.would_make_offer,
+        'perceived_value', f.perceived_value,
+        'follow_up_preference', f.follow_up_preference
+      )
+    FROM feedback f
+    WHERE f.visitor_id = visitor_id_param
+
+    UNION ALL
+
+    -- One event per status the message has reached
+    SELECT
+      message_events.occurred_at,
+      message_events.event_type,
+      jsonb_build_object(
+        'log_id', l.id,
+        'channel', l.message_type,
+        'campaign_name', c.name,
+        'subject', l.subject,
+        'error_message', CASE WHEN message_events.event_type = 'message_failed' THEN l.error_message END
+      )
+    FROM follow_up_logs l
+    LEFT JOIN follow_up_campaigns c ON c.id = l.campaign_id
+    CROSS JOIN LATERAL (
+      VALUES
+        (l.sent_at, CASE
+          WHEN l.status = 'pending' THEN 'message_queued'
+          WHEN l.status IN ('failed', 'bounced') AND l.external_id IS NULL THEN 'message_failed'
+          ELSE 'message_sent'
+        END),
+        (l.delivered_at, 'message_delivered'),
+        (l.opened_at, 'message_opened'),
+        (l.clicked_at, 'message_clicked'),
+        (CASE WHEN l.status IN ('failed', 'bounced') AND l.external_id IS NOT NULL THEN l.sent_at END, 'message_failed')
+    ) as message_events(occurred_at, event_type)
+    WHERE
+      l.visitor_id = visitor_id_param AND
+      l.admin_id = admin_id_value AND
+      message_events.occurred_at IS NOT NULL
+
+    UNION ALL
+
+    SELECT
+      fu.created_at,
+      fu.activity_type,
+      jsonb_build_object(
+        'id', fu.id,
+        'notes', fu.notes,
+        'call_outcome', fu.call_outcome,
+        'call_duration_minutes', fu.call_duration_minutes,
+        'author', NULLIF(TRIM(COALESCE(a.first_name, '') || ' ' || COALESCE(a.last_name, '')), '')
+      )
+    FROM followups fu
+    LEFT JOIN admins a ON a.id = fu.admin_id
+    WHERE fu.visitor_id = visitor_id_param
+
+    UNION ALL
+
+    SELECT
+      u.created_at,
+      'unsubscribed',
+      jsonb_build_object(
+        'unsubscribe_type', u.unsubscribe_type,
+        'reason', u.reason
+      )
+    FROM unsubscribes u
+    WHERE
+      u.visitor_id = visitor_id_param OR
+      LOWER(u.email) = LOWER(visitor_row.email) OR
+      normalize_phone(u.phone) = normalize_phone(visitor_row.phone)
+  ) events
+  WHERE events.occurred_at IS NOT NULL
+  ORDER BY events.occurred_at DESC;
+END;
+$$ LANGUAGE plpgsql STABLE SECURITY DEFINER;
+
+GRANT EXECUTE ON FUNCTION get_visitor_timeline(UUID) TO authenticated;
+
+SELECT 'Visitor activity timeline setup complete' as status;
@@ -0,0 +1,56 @@
+import { NextRequest, NextResponse } from 'next/server'
+import type { EmailOtpType, Session } from '@supabase/supabase-js'
+import { createServerComponentClient, createServiceRoleClient } from '@/lib/supabase'
+import { registerLoginSession } from '@/lib/admin-auth'
+import { ADMIN_LOGIN_PATH, PASSWORD_RESET_COOKIE, safeAdminNextPath } from '@/lib/admin-session'
+
+// Where the links in Supabase Auth emails (email verification and password
+// reset) land. Signs the user in from the link, then sends them on to ?next=.
+// Handles both the default ?code= links and ?token_hash= links from
+// customised email templates.
+export async function GET(request: NextRequest) {
+  const { searchParams } = request.nextUrl
+  const code = searchParams.get('code')
+  const tokenHash = searchParams.get('token_hash')
+  const type = searchParams.get('type') as EmailOtpType | null
+  const next = safeAdminNextPath(searchParams.get('next'))
+
+  const supabase = await createServerComponentClient()
+
+  let session: Session | null = null
+  let error: Error | null = null
+  if (code) {
+    ({ data: { session }, error } = await supabase.auth.exchangeCodeForSession(code))
+  } else if (tokenHash && type) {
+    ({ data: { session }, error } = await supabase.auth.verifyOtp({ type, token_hash: tokenHash }))
+  } else {
+    error = new Error('Missing code')
+  }
+
+  // The link proves the email is theirs, so the session counts as one the
+  // app started (see /api/admin/login)
+  if (session) {
+    try {
+      await registerLoginSession(createServiceRoleClient(), session)
+    } catch (registerError: unknown) {
+      error = registerError instanceof Error ? registerError : new Error('Failed to register session')
+    }
+  }
+
+  if (error || !session) {
+    console.error('Error confirming auth link:', error)
+    return NextResponse.redirect(new URL(`${ADMIN_LOGIN_PATH}?reason=link_expired`, request.url))
+  }
+
+  const response = NextResponse.redirect(new URL(next, request.url))
+  if (type === 'recovery') {
+    response.cookies.set(PASSWORD_RESET_COOKIE, '1', {
+      httpOnly: true,
+      sameSite: 'lax',
+      secure: process.env.NODE_ENV === 'production',
+      path: '/admin/password',
+      maxAge: 15 * 60,
+    })
+  }
+  return response
+}
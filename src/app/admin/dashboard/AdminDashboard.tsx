@@ -1,72 +1,69 @@
 'use client'
 
-import { useState, useEffect } from 'react'
+import { useState } from 'react'
 import { useRouter } from 'next/navigation'
+import Link from 'next/link'
 import { createClientComponentClient } from '@/lib/supabase'
 import { formatDateTime, downloadCSV } from '@/lib/utils'
 import { toast } from 'react-hot-toast'
 import { useForm } from 'react-hook-form'
 import { zodResolver } from '@hookform/resolvers/zod'
-import { propertySchema, type PropertyFormData } from '@/lib/validations'
+import { propertySchema, type PropertyFormData, type TeamRole } from '@/lib/validations'
 import QRCode from 'qrcode'
 import FollowUpManagement from './FollowUpManagement'
+import VisitorActivity, { type ActivityVisitor } from './VisitorActivity'
+import LeadScoringSettings from './LeadScoringSettings'
+import ContactMerge from './ContactMerge'
+import PipelineBoard from './PipelineBoard'
+import OpenHouseSessions from './OpenHouseSessions'
+import TeamManagement from './TeamManagement'
+import AuditLog from './AuditLog'
+import { leadTemperatureBadge } from '@/lib/lead-scoring'
+import { recordExport } from '@/lib/audit-log'
+import {
+  loadDashboardData,
+  calculateDashboardStats,
+  type DashboardData,
+  type DashboardProperty as Property,
+  type DashboardVisitor as VisitorWithFeedback,
+} from '@/lib/dashboard-data'
 
-interface Property {
-  id: string
-  name: string
-  address: string
-  description?: string
-  property_type: string
-  bedrooms?: number
-  bathrooms?: number
-  square_feet?: number
-  price?: number
-  status: string
-  created_at: string
+interface AdminDashboardProps {
+  // Loaded by the server component, so the first render has data
+  initialData: DashboardData
+  teamRole: TeamRole
 }
 
-interface VisitorWithFeedback {
-  id: string
-  name: string
-  email: string
-  phone: string
-  visit_date: string
-  created_at: string
-  property_id?: string
-  property_name?: string
-  property_address?: string
-  rating?: number
-  comments?: string
-  interested?: boolean
-  feedback_date?: string
-}
-
-export default function AdminDashboard() {
-  const [visitors, setVisitors] = useState<VisitorWithFeedback[]>([])
-  const [properties, setProperties] = useState<Property[]>([])
-  const [loading, setLoading] = useState(true)
+export default function AdminDashboard({ initialData, teamRole }: AdminDashboardProps) {
+  const [visitors, setVisitors] = useState<VisitorWithFeedback[]>(initialData.visitors)
+  const [properties, setProperties] = useState<Property[]>(initialData.properties)
   const [showPropertyForm, setShowPropertyForm] = useState(false)
   const [editingProperty, setEditingProperty] = useState<Property | null>(null)
   const [showQRModal, setShowQRModal] = useState<Property | null>(null)
   const [qrCodeDataUrl, setQrCodeDataUrl] = useState<string>('')
-  const [activeTab, setActiveTab] = useState<'visitors' | 'properties' | 'followup'>('visitors')
+  const [activityVisitor, setActivityVisitor] = useState<ActivityVisitor | null>(null)
+  const [showLeadScoring, setShowLeadScoring] = useState(false)
+  const [showContactMerge, setShowContactMerge] = useState(false)
+  const [showTeam, setShowTeam] = useState(false)
+  const [showAuditLog, setShowAuditLog] = useState(false)
+  const [sessionsProperty, setSessionsProperty] = useState<Property | null>(null)
+  const [sortBy, setSortBy] = useState<'newest' | 'lead_score'>('newest')
+  const [activeTab, setActiveTab] = useState<'visitors' | 'pipeline' | 'properties' | 'followup'>('visitors')
   const [filters, setFilters] = useState({
     property: '',
     dateFrom: '',
     dateTo: '',
     interested: '',
-    rating: ''
-  })
-  const [stats, setStats] = useState({
-    totalVisitors: 0,
-    withFeedback: 0,
-    averageRating: 0,
-    interestedCount: 0,
-    totalProperties: 0
+    rating: '',
+    lead: ''
   })
+  const [stats, setStats] = useState(() => calculateDashboardStats(initialData))
   const router = useRouter()
   const supabase = createClientComponentClient()
 
+  // Assistants can look but not change anything; RLS enforces the rest
+  const canManage = teamRole !== 'assistant'
+
   const propertyForm = useForm<PropertyFormData>({
     resolver: zodResolver(propertySchema),
     defaultValues: {
@@ -75,81 +72,17 @@ export default function AdminDashboard() {
     }
   })
 
-  useEffect(() => {
-    checkAuth()
-    fetchData()
-  }, []) // eslint-disable-line react-hooks/exhaustive-deps
-
-  const checkAuth = async () => {
-    const { data: { session } } = await supabase.auth.getSession()
-    if (!session) {
-      router.push('/admin/login')
-    }
-  }
-
+  // Access is checked by middleware.ts and the page before this renders;
+  // this only refreshes the data after a change
   const fetchData = async () => {
     try {
-      // Fetch visitors - try the view first, fallback to direct table
-      let visitorsData = []
-      try {
-        const { data, error } = await supabase
-          .from('visitor_feedback_summary')
-          .select('*')
-          .order('created_at', { ascending: false })
-        
-        if (error) throw error
-        visitorsData = data || []
-        } catch {
-          console.log('View not available, fetching from visitors table directly')
-        const { data, error } = await supabase
-          .from('visitors')
-          .select('*')
-          .order('created_at', { ascending: false })
-        
-        if (error) throw error
-        visitorsData = data || []
-      }
-
-      // Fetch properties - handle if table doesn't exist
-      let propertiesData = []
-      try {
-        const { data, error } = await supabase
-          .from('properties')
-          .select('*')
-          .order('created_at', { ascending: false })
-
-        if (error && !error.message.includes('relation "properties" does not exist')) {
-          throw error
-        }
-        propertiesData = data || []
-      } catch {
-        console.log('Properties table not available yet')
-        propertiesData = []
-      }
-
-      setVisitors(visitorsData)
-      setProperties(propertiesData)
-      
-      // Calculate stats
-      const totalVisitors = visitorsData?.length || 0
-      const withFeedback = visitorsData?.filter(v => v.rating).length || 0
-      const ratings = visitorsData?.filter(v => v.rating).map(v => v.rating) || []
-      const averageRating = ratings.length > 0 ? ratings.reduce((a, b) => a + b, 0) / ratings.length : 0
-      const interestedCount = visitorsData?.filter(v => v.interested).length || 0
-      const totalProperties = propertiesData?.length || 0
-
-      setStats({
-        totalVisitors,
-        withFeedback,
-        averageRating: Math.round(averageRating * 10) / 10,
-        interestedCount,
-        totalProperties
-      })
+      const data = await loadDashboardData(supabase)
+      setVisitors(data.visitors)
+      setProperties(data.properties)
+      setStats(calculateDashboardStats(data))
     } catch (error) {
       console.error('Error fetching data:', error)
       toast.error('Failed to load dashboard data. Please ensure database tables are set up.')
-    } finally {
-      setLoading(false)
     }
   }
 
@@ -289,7 +222,15 @@ export default function AdminDashboard() {
     return Math.round((sum / propertyVisitors.length) * 10) / 10
   }
 
-  const exportToCSV = () => {
+  const exportToCSV = async () => {
+    try {
+      await recordExport(supabase, 'visitors', filteredVisitors.length, filters)
+    } catch (error: unknown) {
+      console.error('Error recording export:', error)
+      toast.error('Failed to export data')
+      return
+    }
+
     const csvData = filteredVisitors.map(visitor => ({
       Name: visitor.name,
       Email: visitor.email,
@@ -299,7 +240,9 @@ export default function AdminDashboard() {
       Rating: visitor.rating || 'No rating',
       Comments: visitor.comments || 'No comments',
       Interested: visitor.interested ? 'Yes' : 'No',
-      'Feedback Date': visitor.feedback_date ? formatDateTime(visitor.feedback_date) : 'No feedback'
+      'Feedback Date': visitor.feedback_date ? formatDateTime(visitor.feedback_date) : 'No feedback',
+      'Lead Score': visitor.lead_score ?? '',
+      Lead: visitor.lead_temperature || ''
     }))
     
     downloadCSV(csvData, `open-house-visitors-${new Date().toISOString().split('T')[0]}.csv`)
@@ -313,20 +256,16 @@ export default function AdminDashboard() {
     if (filters.dateTo && new Date(visitor.visit_date) > new Date(filters.dateTo)) return false
     if (filters.interested && visitor.interested?.toString() !== filters.interested) return false
     if (filters.rating && visitor.rating?.toString() !== filters.rating) return false
+    if (filters.lead && visitor.lead_temperature !== filters.lead) return false
     return true
   })
 
-  if (loading) {
-    return (
-      <div className="min-h-screen bg-gray-50 flex items-center justify-center">
-        <div className="text-center">
-          <div className="animate-spin rounded-full h-16 w-16 border-4 border-blue-600 border-t-transparent mx-auto mb-4"></div>
-          <p className="text-gray-600 font-medium">Loading dashboard...</p>
-        </div>
-      </div>
-    )
+  // Unscored visitors (before database-lead-scoring.sql was run) sort last
+  if (sortBy === 'lead_score') {
+    filteredVisitors.sort((a, b) => (b.lead_score ?? -Infinity) - (a.lead_score ?? -Infinity))
   }
 
+
   return (
     <div className="min-h-screen bg-gray-50">
       {/* Header */}
@@ -345,6 +284,33 @@ export default function AdminDashboard() {
               </div>
             </div>
             <div className="flex items-center space-x-3">
+              <button
+                onClick={() => setShowTeam(true)}
+                className="inline-flex items-center px-4 py-2 bg-white hover:bg-gray-50 text-gray-700 text-sm font-medium rounded-lg border border-gray-300 transition-colors duration-200 shadow-sm"
+              >
+                <svg className="w-4 h-4 mr-2" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+                  <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M17 20h5v-2a3 3 0 00-5.356-1.857M17 20H7m10 0v-2c0-.656-.126-1.283-.356-1.857M7 20H2v-2a3 3 0 015.356-1.857M7 20v-2c0-.656.126-1.283.356-1.857m0 0a5.002 5.002 0 019.288 0M15 7a3 3 0 11-6 0 3 3 0 016 0zm6 3a2 2 0 11-4 0 2 2 0 014 0zM7 10a2 2 0 11-4 0 2 2 0 014 0z" />
+                </svg>
+                Team
+              </button>
+              <button
+                onClick={() => setShowAuditLog(true)}
+                className="inline-flex items-center px-4 py-2 bg-white hover:bg-gray-50 text-gray-700 text-sm font-medium rounded-lg border border-gray-300 transition-colors duration-200 shadow-sm"
+              >
+                <svg className="w-4 h-4 mr-2" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+                  <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M9 5H7a2 2 0 00-2 2v12a2 2 0 002 2h10a2 2 0 002-2V7a2 2 0 00-2-2h-2M9 5a2 2 0 002 2h2a2 2 0 002-2M9 5a2 2 0 012-2h2a2 2 0 012 2m-3 7h3m-3 4h3m-6-4h.01M9 16h.01" />
+                </svg>
+                Audit Log
+              </button>
+              <Link
+                href="/admin/password"
+                className="inline-flex items-center px-4 py-2 bg-white hover:bg-gray-50 text-gray-700 text-sm font-medium rounded-lg border border-gray-300 transition-colors duration-200 shadow-sm"
+              >
+                <svg className="w-4 h-4 mr-2" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+                  <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M12 15v2m-6 4h12a2 2 0 002-2v-6a2 2 0 00-2-2H6a2 2 0 00-2 2v6a2 2 0 002 2zm10-10V7a4 4 0 00-8 0v4h8z" />
+                </svg>
+                Security
+              </Link>
               <button
                 onClick={exportToCSV}
                 className="inline-flex items-center px-4 py-2 bg-emerald-600 hover:bg-emerald-700 text-white text-sm font-medium rounded-lg transition-colors duration-200 shadow-sm"
@@ -477,6 +443,16 @@ export default function AdminDashboard() {
               >
                 Visitors & Feedback
               </button>
+              <button
+                onClick={() => setActiveTab('pipeline')}
+                className={`relative px-8 py-4 text-sm font-medium transition-colors duration-200 ${
+                  activeTab === 'pipeline'
+                    ? 'text-blue-600 border-b-2 border-blue-600 bg-blue-50'
+                    : 'text-gray-600 hover:text-gray-900 hover:bg-gray-50'
+                }`}
+              >
+                Pipeline
+              </button>
               <button
                 onClick={() => setActiveTab('properties')}
                 className={`relative px-8 py-4 text-sm font-medium transition-colors duration-200 ${
@@ -503,8 +479,25 @@ export default function AdminDashboard() {
           {/* Visitors Tab */}
           {activeTab === 'visitors' && (
             <div className="p-8">
+              <div className="flex justify-end space-x-6 mb-4">
+                {canManage && (
+                  <button
+                    onClick={() => setShowContactMerge(true)}
+                    className="text-sm font-medium text-blue-600 hover:text-blue-800"
+                  >
+                    Merge duplicates →
+                  </button>
+                )}
+                <button
+                  onClick={() => setShowLeadScoring(true)}
+                  className="text-sm font-medium text-blue-600 hover:text-blue-800"
+                >
+                  Lead scoring settings →
+                </button>
+              </div>
+
               {/* All Filters */}
-              <div className="mb-8 grid grid-cols-1 md:grid-cols-5 gap-4">
+              <div className="mb-8 grid grid-cols-1 md:grid-cols-6 gap-4">
                 <div>
                   <label className="block text-sm font-medium text-gray-700 mb-2">Property</label>
                   <select
@@ -563,6 +556,19 @@ export default function AdminDashboard() {
                     <option value="1">1 Star</option>
                   </select>
                 </div>
+                <div>
+                  <label className="block text-sm font-medium text-gray-700 mb-2">Lead</label>
+                  <select
+                    value={filters.lead}
+                    onChange={(e) => setFilters({...filters, lead: e.target.value})}
+                    className="w-full border border-gray-300 rounded-lg px-3 py-2 text-sm bg-white focus:ring-2 focus:ring-blue-500 focus:border-blue-500 transition-colors duration-200"
+                  >
+                    <option value="">All Leads</option>
+                    <option value="hot">Hot</option>
+                    <option value="warm">Warm</option>
+                    <option value="cold">Cold</option>
+                  </select>
+                </div>
               </div>
 
               {/* Visitors Table */}
@@ -573,7 +579,16 @@ export default function AdminDashboard() {
                       <tr>
                         <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">Visitor</th>
                         <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">Property</th>
-                        <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">Visit Date</th>
+                        <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">
+                          <button onClick={() => setSortBy('newest')} className="uppercase tracking-wider hover:text-gray-700">
+                            Visit Date{sortBy === 'newest' ? ' ↓' : ''}
+                          </button>
+                        </th>
+                        <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">
+                          <button onClick={() => setSortBy('lead_score')} className="uppercase tracking-wider hover:text-gray-700">
+                            Lead{sortBy === 'lead_score' ? ' ↓' : ''}
+                          </button>
+                        </th>
                         <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">Rating</th>
                         <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">Interested</th>
                         <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">Comments</th>
@@ -581,7 +596,11 @@ export default function AdminDashboard() {
                     </thead>
                     <tbody className="bg-white divide-y divide-gray-200">
                       {filteredVisitors.map((visitor) => (
-                        <tr key={visitor.id} className="hover:bg-gray-50">
+                        <tr
+                          key={visitor.id}
+                          onClick={() => setActivityVisitor(visitor)}
+                          className="hover:bg-gray-50 cursor-pointer"
+                        >
                           <td className="px-6 py-4 whitespace-nowrap">
                             <div className="flex items-center">
                               <div className="w-10 h-10 bg-blue-100 rounded-full flex items-center justify-center">
@@ -590,7 +609,14 @@ export default function AdminDashboard() {
                                 </span>
                               </div>
                               <div className="ml-4">
-                                <div className="text-sm font-medium text-gray-900">{visitor.name}</div>
+                                <div className="flex items-center space-x-2">
+                                  <span className="text-sm font-medium text-gray-900">{visitor.name}</span>
+                                  {(visitor.contact_visit_count ?? 0) > 1 && (
+                                    <span className="inline-flex items-center px-2 py-0.5 rounded-full text-xs font-medium bg-purple-100 text-purple-800">
+                                      Returning • {visitor.contact_visit_count} visits
+                                    </span>
+                                  )}
+                                </div>
                                 <div className="text-sm text-gray-500">{visitor.email}</div>
                                 <div className="text-xs text-gray-400">{visitor.phone}</div>
                               </div>
@@ -603,6 +629,15 @@ export default function AdminDashboard() {
                           <td className="px-6 py-4 whitespace-nowrap text-sm text-gray-900">
                             {formatDateTime(visitor.visit_date)}
                           </td>
+                          <td className="px-6 py-4 whitespace-nowrap">
+                            {visitor.lead_temperature ? (
+                              <span className={`inline-flex items-center px-2.5 py-0.5 rounded-full text-xs font-medium capitalize ${leadTemperatureBadge[visitor.lead_temperature]}`}>
+                                {visitor.lead_temperature} • {visitor.lead_score}
+                              </span>
+                            ) : (
+                              <span className="text-sm text-gray-400">Not scored</span>
+                            )}
+                          </td>
                           <td className="px-6 py-4 whitespace-nowrap">
                             {visitor.rating ? (
                               <div className="flex items-center">
@@ -662,15 +697,17 @@ export default function AdminDashboard() {
                   <h2 className="text-2xl font-bold text-gray-900">Properties</h2>
                   <p className="text-gray-600 mt-1">Manage your open house properties</p>
                 </div>
-                <button
-                  onClick={() => setShowPropertyForm(true)}
-                  className="inline-flex items-center px-6 py-3 bg-blue-600 hover:bg-blue-700 text-white font-medium rounded-lg transition-colors duration-200 shadow-sm"
-                >
-                  <svg className="w-5 h-5 mr-2" fill="none" stroke="currentColor" viewBox="0 0 24 24">
-                    <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M12 6v6m0 0v6m0-6h6m-6 0H6" />
-                  </svg>
-                  Add Property
-                </button>
+                {canManage && (
+                  <button
+                    onClick={() => setShowPropertyForm(true)}
+                    className="inline-flex items-center px-6 py-3 bg-blue-600 hover:bg-blue-700 text-white font-medium rounded-lg transition-colors duration-200 shadow-sm"
+                  >
+                    <svg className="w-5 h-5 mr-2" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+                      <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M12 6v6m0 0v6m0-6h6m-6 0H6" />
+                    </svg>
+                    Add Property
+                  </button>
+                )}
               </div>
 
               {/* Properties Grid */}
@@ -695,15 +732,17 @@ export default function AdminDashboard() {
                             </p>
                           </div>
                           <div className="flex items-center space-x-2 ml-4">
-                            <button
-                              onClick={() => handleEditProperty(property)}
-                              className="p-2 text-gray-400 hover:text-blue-600 hover:bg-blue-50 rounded-lg transition-colors duration-200"
-                              title="Edit Property"
-                            >
-                              <svg className="w-4 h-4" fill="none" stroke="currentColor" viewBox="0 0 24 24">
-                                <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M11 5H6a2 2 0 00-2 2v11a2 2 0 002 2h11a2 2 0 002-2v-5m-1.414-9.414a2 2 0 112.828 2.828L11.828 15H9v-2.828l8.586-8.586z" />
-                              </svg>
-                            </button>
+                            {canManage && (
+                              <button
+                                onClick={() => handleEditProperty(property)}
+                                className="p-2 text-gray-400 hover:text-blue-600 hover:bg-blue-50 rounded-lg transition-colors duration-200"
+                                title="Edit Property"
+                              >
+                                <svg className="w-4 h-4" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+                                  <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M11 5H6a2 2 0 00-2 2v11a2 2 0 002 2h11a2 2 0 002-2v-5m-1.414-9.414a2 2 0 112.828 2.828L11.828 15H9v-2.828l8.586-8.586z" />
+                                </svg>
+                              </button>
+                            )}
                             {property.status === 'active' && (
                               <button
                                 onClick={() => generateQRCode(property)}
@@ -772,16 +811,18 @@ export default function AdminDashboard() {
                             {property.status}
                           </span>
                           
-                          <button
-                            onClick={() => handleTogglePropertyStatus(property)}
-                            className={`text-xs font-medium px-3 py-1 rounded-lg transition-colors duration-200 ${
-                              property.status === 'active' 
-                                ? 'text-gray-600 hover:text-gray-800 hover:bg-gray-100' 
-                                : 'text-green-600 hover:text-green-800 hover:bg-green-50'
-                            }`}
-                          >
-                            {property.status === 'active' ? 'Deactivate' : 'Activate'}
-                          </button>
+                          {canManage && (
+                            <button
+                              onClick={() => handleTogglePropertyStatus(property)}
+                              className={`text-xs font-medium px-3 py-1 rounded-lg transition-colors duration-200 ${
+                                property.status === 'active' 
+                                  ? 'text-gray-600 hover:text-gray-800 hover:bg-gray-100' 
+                                  : 'text-green-600 hover:text-green-800 hover:bg-green-50'
+                              }`}
+                            >
+                              {property.status === 'active' ? 'Deactivate' : 'Activate'}
+                            </button>
+                          )}
                         </div>
                         
                         {property.status === 'active' && (
@@ -802,6 +843,18 @@ export default function AdminDashboard() {
                             >
                               Feedback Link
                             </a>
+                            <a
+                              href={`/check-in/${property.id}?kiosk=1`}
+                              className="flex-1 text-center text-xs text-gray-600 hover:text-gray-800 font-medium py-2 px-3 bg-gray-50 hover:bg-gray-100 rounded-lg transition-colors duration-200"
+                            >
+                              Kiosk
+                            </a>
+                            <button
+                              onClick={() => setSessionsProperty(property)}
+                              className="flex-1 text-center text-xs text-purple-600 hover:text-purple-800 font-medium py-2 px-3 bg-purple-50 hover:bg-purple-100 rounded-lg transition-colors duration-200"
+                            >
+                              Open Houses
+                            </button>
                           </div>
                         )}
                       </div>
@@ -833,14 +886,59 @@ export default function AdminDashboard() {
             </div>
           )}
 
+          {/* Pipeline Tab */}
+          {activeTab === 'pipeline' && (
+            <div className="p-8">
+              <PipelineBoard properties={properties} onOpenVisitor={setActivityVisitor} />
+            </div>
+          )}
+
           {/* Follow-up Tab */}
           {activeTab === 'followup' && (
             <div className="p-8">
-              <FollowUpManagement />
+              <FollowUpManagement teamRole={teamRole} />
             </div>
           )}
         </div>
 
+        {/* Open House Sessions */}
+        {sessionsProperty && (
+          <OpenHouseSessions
+            property={sessionsProperty}
+            teamRole={teamRole}
+            onClose={() => {
+              setSessionsProperty(null)
+              fetchData()
+            }}
+            onOpenVisitor={setActivityVisitor}
+          />
+        )}
+
+        {/* Visitor Activity */}
+        {activityVisitor && (
+          <VisitorActivity visitor={activityVisitor} onClose={() => setActivityVisitor(null)} />
+        )}
+
+        {/* Lead Scoring Settings */}
+        {showLeadScoring && (
+          <LeadScoringSettings onClose={() => setShowLeadScoring(false)} onSaved={fetchData} />
+        )}
+
+        {/* Team Members and Invites */}
+        {showTeam && (
+          <TeamManagement teamRole={teamRole} onClose={() => setShowTeam(false)} />
+        )}
+
+        {/* Audit Log */}
+        {showAuditLog && (
+          <AuditLog teamRole={teamRole} onClose={() => setShowAuditLog(false)} />
+        )}
+
+        {/* Duplicate Visitor Merge */}
+        {showContactMerge && (
+          <ContactMerge onClose={() => setShowContactMerge(false)} onMerged={fetchData} />
+        )}
+
         {/* QR Code Modal */}
         {showQRModal && (
           <div className="fixed inset-0 bg-black bg-opacity-50 overflow-y-auto h-full w-full z-50 flex items-center justify-center p-4">
@@ -0,0 +1,364 @@
+'use client'
+
+import { useState, useEffect } from 'react'
+import { useForm } from 'react-hook-form'
+import { zodResolver } from '@hookform/resolvers/zod'
+import { createClientComponentClient } from '@/lib/supabase'
+import { formatDateTime, downloadCSV } from '@/lib/utils'
+import { toast } from 'react-hot-toast'
+import { auditLogFiltersSchema, type AuditLogFilters, type TeamRole } from '@/lib/validations'
+import {
+  AUDIT_ACTION_LABELS,
+  auditActionLabel,
+  describeAuditDetails,
+  recordExport,
+  type AuditLogEntry,
+} from '@/lib/audit-log'
+
+interface TeamMember {
+  admin_id: string
+  first_name: string | null
+  last_name: string | null
+  email: string
+}
+
+interface AuditLogProps {
+  teamRole: TeamRole
+  onClose: () => void
+}
+
+const PAGE_SIZE = 25
+// Enough for months of activity; narrow the filters for more
+const EXPORT_LIMIT = 5000
+
+const inputClassName = 'w-full border border-gray-300 rounded-md px-3 py-2 text-gray-900 bg-white focus:outline-none focus:ring-2 focus:ring-blue-500 focus:border-blue-500'
+
+const actionBadge = (action: string) => {
+  if (action.endsWith('.deleted')) return 'bg-red-100 text-red-800 border-red-200'
+  if (action.endsWith('.exported')) return 'bg-purple-100 text-purple-800 border-purple-200'
+  if (action === 'campaign.sent' || action === 'campaign.enrolled') return 'bg-blue-100 text-blue-800 border-blue-200'
+  if (action.endsWith('.created')) return 'bg-green-100 text-green-800 border-green-200'
+  return 'bg-gray-100 text-gray-800 border-gray-200'
+}
+
+const memberName = (member: TeamMember) =>
+  [member.first_name, member.last_name].filter(Boolean).join(' ') || member.email
+
+// Who did what, when and to which record. Owners see the whole team's
+// entries; everyone else sees their own.
+export default function AuditLog({ teamRole, onClose }: AuditLogProps) {
+  const [entries, setEntries] = useState<AuditLogEntry[]>([])
+  const [total, setTotal] = useState(0)
+  const [page, setPage] = useState(1)
+  const [filters, setFilters] = useState<AuditLogFilters>({})
+  const [members, setMembers] = useState<TeamMember[]>([])
+  const [loading, setLoading] = useState(true)
+  const [exporting, setExporting] = useState(false)
+
+  const supabase = createClientComponentClient()
+  const isOwner = teamRole === 'owner'
+
+  const filtersForm = useForm<AuditLogFilters>({
+    resolver: zodResolver(auditLogFiltersSchema),
+    defaultValues: {},
+  })
+
+  const { errors } = filtersForm.formState
+
+  useEffect(() => {
+    if (!isOwner) return
+    supabase.rpc('get_team_members').then(({ data, error }) => {
+      if (error) {
+        console.error('Error fetching team members:', error)
+        return
+      }
+      setMembers(data || [])
+    })
+  }, []) // eslint-disable-line react-hooks/exhaustive-deps
+
+  useEffect(() => {
+    fetchEntries()
+  }, [page, filters]) // eslint-disable-line react-hooks/exhaustive-deps
+
+  // The form's dates are days in the admin's time zone, so filter on the
+  // instants those days start and end at
+  const buildQuery = (options: { count?: 'exact' } = {}) => {
+    let query = supabase
+      .from('admin_audit_log')
+      .select('*', options)
+      .order('created_at', { ascending: false })
+
+    if (filters.admin_id) query = query.eq('admin_id', filters.admin_id)
+    if (filters.action) query = query.eq('action', filters.action)
+    if (filters.search) query = query.ilike('entity_name', `%${filters.search}%`)
+    if (filters.date_from) query = query.gte('created_at', new Date(`${filters.date_from}T00:00:00`).toISOString())
+    if (filters.date_to) query = query.lte('created_at', new Date(`${filters.date_to}T23:59:59.999`).toISOString())
+
+    return query
+  }
+
+  const fetchEntries = async () => {
+    setLoading(true)
+    try {
+      const from = (page - 1) * PAGE_SIZE
+      const { data, count, error } = await buildQuery({ count: 'exact' }).range(from, from + PAGE_SIZE - 1)
+
+      if (error) {
+        if (error.message.includes('admin_audit_log')) {
+          throw new Error('Audit log not found. Please run the database setup script: database-audit-log.sql')
+        }
+        throw error
+      }
+
+      setEntries(data || [])
+      setTotal(count || 0)
+    } catch (error: unknown) {
+      console.error('Error fetching audit log:', error)
+      toast.error(error instanceof Error ? error.message : 'Failed to load audit log')
+    } finally {
+      setLoading(false)
+    }
+  }
+
+  const onApplyFilters = (values: AuditLogFilters) => {
+    setPage(1)
+    setFilters(values)
+  }
+
+  const handleResetFilters = () => {
+    filtersForm.reset({})
+    setPage(1)
+    setFilters({})
+  }
+
+  const handleExport = async () => {
+    setExporting(true)
+    try {
+      const { data, error } = await buildQuery().limit(EXPORT_LIMIT)
+      if (error) throw error
+
+      const rows = (data || []) as AuditLogEntry[]
+      await recordExport(supabase, 'audit_log', rows.length, filters)
+
+      downloadCSV(rows.map(entry => ({
+        Time: formatDateTime(entry.created_at),
+        Admin: entry.admin_name || 'Unknown',
+        Action: auditActionLabel(entry.action),
+        Record: entry.entity_name || '',
+        'Record Type': entry.entity_type,
+        'Record ID': entry.entity_id || '',
+        Details: describeAuditDetails(entry),
+      })), `audit-log-${new Date().toISOString().split('T')[0]}.csv`)
+
+      toast.success(rows.length === EXPORT_LIMIT
+        ? `Exported the latest ${EXPORT_LIMIT} entries. Narrow the filters to export older ones.`
+        : 'Audit log exported successfully!')
+    } catch (error: unknown) {
+      console.error('Error exporting audit log:', error)
+      toast.error(error instanceof Error ? error.message : 'Failed to export audit log')
+    } finally {
+      setExporting(false)
+    }
+  }
+
+  const pageCount = Math.max(1, Math.ceil(total / PAGE_SIZE))
+
+  return (
+    <div className="fixed inset-0 bg-black bg-opacity-50 flex items-center justify-center p-4 z-50">
+      <div className="bg-white rounded-lg shadow-xl max-w-5xl w-full max-h-[90vh] overflow-y-auto">
+        <div className="p-6 space-y-4">
+          <div className="flex justify-between items-start">
+            <div>
+              <h3 className="text-xl font-bold text-gray-900">Audit Log</h3>
+              <p className="text-sm text-gray-500 mt-1">
+                {isOwner
+                  ? 'Changes, sends and exports by everyone on your team.'
+                  : 'Your changes, sends and exports.'}
+              </p>
+            </div>
+            <button onClick={onClose} className="text-gray-400 hover:text-gray-600">
+              <svg className="w-6 h-6" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+                <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M6 18L18 6M6 6l12 12" />
+              </svg>
+            </button>
+          </div>
+
+          <form
+            onSubmit={filtersForm.handleSubmit(onApplyFilters)}
+            className="bg-gray-50 rounded-lg border border-gray-200 p-4 grid grid-cols-1 md:grid-cols-3 gap-4 items-end"
+          >
+            <div>
+              <label className="block text-sm font-medium text-gray-700 mb-1">Record</label>
+              <input
+                {...filtersForm.register('search', { setValueAs: value => value.trim() || undefined })}
+                type="search"
+                placeholder="Property or campaign name"
+                className={inputClassName}
+              />
+              {errors.search && (
+                <p className="mt-1 text-sm text-red-600">{errors.search.message}</p>
+              )}
+            </div>
+            <div>
+              <label className="block text-sm font-medium text-gray-700 mb-1">Action</label>
+              <select
+                {...filtersForm.register('action', { setValueAs: value => value || undefined })}
+                className={inputClassName}
+              >
+                <option value="">All actions</option>
+                {Object.entries(AUDIT_ACTION_LABELS).map(([action, label]) => (
+                  <option key={action} value={action}>{label}</option>
+                ))}
+              </select>
+            </div>
+            {isOwner ? (
+              <div>
+                <label className="block text-sm font-medium text-gray-700 mb-1">Admin</label>
+                <select
+                  {...filtersForm.register('admin_id', { setValueAs: value => value || undefined })}
+                  className={inputClassName}
+                >
+                  <option value="">Everyone</option>
+                  {members.map(member => (
+                    <option key={member.admin_id} value={member.admin_id}>{memberName(member)}</option>
+                  ))}
+                </select>
+              </div>
+            ) : (
+              <div className="hidden md:block" />
+            )}
+            <div>
+              <label className="block text-sm font-medium text-gray-700 mb-1">From</label>
+              <input
+                {...filtersForm.register('date_from', { setValueAs: value => value || undefined })}
+                type="date"
+                className={inputClassName}
+              />
+            </div>
+            <div>
+              <label className="block text-sm font-medium text-gray-700 mb-1">To</label>
+              <input
+                {...filtersForm.register('date_to', { setValueAs: value => value || undefined })}
+                type="date"
+                className={inputClassName}
+              />
+              {errors.date_to && (
+                <p className="mt-1 text-sm text-red-600">{errors.date_to.message}</p>
+              )}
+            </div>
+            <div className="flex space-x-2">
+              <button
+                type="submit"
+                disabled={loading}
+                className="flex-1 px-4 py-2 text-sm font-medium text-white bg-blue-600 hover:bg-blue-700 disabled:bg-gray-400 rounded-md transition-colors"
+              >
+                Apply
+              </button>
+              <button
+                type="button"
+                onClick={handleResetFilters}
+                className="px-4 py-2 text-sm font-medium text-gray-700 bg-gray-100 hover:bg-gray-200 rounded-md transition-colors"
+              >
+                Reset
+              </button>
+            </div>
+          </form>
+
+          <div className="flex items-center justify-between">
+            <p className="text-sm text-gray-600">{total} entries</p>
+            <button
+              onClick={handleExport}
+              disabled={exporting || total === 0}
+              className="px-4 py-2 text-sm font-medium text-white bg-green-600 hover:bg-green-700 disabled:bg-gray-400 rounded-md transition-colors"
+            >
+              {exporting ? 'Exporting...' : 'Export CSV'}
+            </button>
+          </div>
+
+          <div className="border border-gray-200 rounded-lg overflow-hidden">
+            {loading ? (
+              <div className="flex items-center justify-center py-8">
+                <div className="animate-spin rounded-full h-8 w-8 border-b-2 border-blue-600"></div>
+              </div>
+            ) : entries.length === 0 ? (
+              <div className="text-center py-12">
+                <h3 className="text-lg font-medium text-gray-900 mb-2">No entries found</h3>
+                <p className="text-gray-500">Changes to properties and campaigns, sends and exports will appear here.</p>
+              </div>
+            ) : (
+              <div className="overflow-x-auto">
+                <table className="min-w-full divide-y divide-gray-200">
+                  <thead className="bg-gray-50">
+                    <tr>
+                      <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">
+                        Time
+                      </th>
+                      <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">
+                        Admin
+                      </th>
+                      <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">
+                        Action
+                      </th>
+                      <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">
+                        Record
+                      </th>
+                      <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">
+                        Details
+                      </th>
+                    </tr>
+                  </thead>
+                  <tbody className="bg-white divide-y divide-gray-200">
+                    {entries.map(entry => {
+                      const details = describeAuditDetails(entry)
+                      return (
+                        <tr key={entry.id}>
+                          <td className="px-6 py-4 whitespace-nowrap text-sm text-gray-500">
+                            {formatDateTime(entry.created_at)}
+                          </td>
+                          <td className="px-6 py-4 whitespace-nowrap text-sm text-gray-900">
+                            {entry.admin_name || 'Unknown'}
+                          </td>
+                          <td className="px-6 py-4 whitespace-nowrap">
+                            <span className={`inline-flex items-center px-2 py-1 rounded-full text-xs font-medium border ${actionBadge(entry.action)}`}>
+                              {auditActionLabel(entry.action)}
+                            </span>
+                          </td>
+                          <td className="px-6 py-4 whitespace-nowrap text-sm text-gray-900">
+                            {entry.entity_name || (entry.entity_id ? 'Deleted record' : '—')}
+                          </td>
+                          <td className="px-6 py-4 text-sm text-gray-500">
+                            <div className="max-w-xs truncate" title={details}>{details || '—'}</div>
+                          </td>
+                        </tr>
+                      )
+                    })}
+                  </tbody>
+                </table>
+              </div>
+            )}
+          </div>
+
+          {total > PAGE_SIZE && (
+            <div className="flex items-center justify-between">
+              <button
+                onClick={() => setPage(page - 1)}
+                disabled={page === 1 || loading}
+                className="px-4 py-2 text-sm font-medium text-gray-700 bg-gray-100 hover:bg-gray-200 disabled:opacity-50 rounded-md transition-colors"
+              >
+                ← Previous
+              </button>
+              <span className="text-sm text-gray-600">Page {page} of {pageCount}</span>
+              <button
+                onClick={() => setPage(page + 1)}
+                disabled={page >= pageCount || loading}
+                className="px-4 py-2 text-sm font-medium text-gray-700 bg-gray-100 hover:bg-gray-200 disabled:opacity-50 rounded-md transition-colors"
+              >
+                Next →
+              </button>
+            </div>
+          )}
+        </div>
+      </div>
+    </div>
+  )
+}
@@ -0,0 +1,74 @@
+'use client'
+
+import type { BulkActionOutcome, BulkActionOutcomeType } from '@/lib/follow-up-bulk-actions'
+import type { BulkActionFormData } from '@/lib/follow-up-validations'
+
+interface BulkActionReportProps {
+  action: BulkActionFormData['action']
+  results: BulkActionOutcome[]
+  onClose: () => void
+}
+
+const ACTION_LABELS: Record<BulkActionFormData['action'], string> = {
+  send: 'Send',
+  pause: 'Pause',
+  activate: 'Activate',
+  delete: 'Delete',
+}
+
+const outcomeBadge: Record<BulkActionOutcomeType, string> = {
+  updated: 'bg-green-100 text-green-800 border-green-200',
+  deleted: 'bg-green-100 text-green-800 border-green-200',
+  enrolled: 'bg-green-100 text-green-800 border-green-200',
+  queued: 'bg-green-100 text-green-800 border-green-200',
+  unchanged: 'bg-gray-100 text-gray-800 border-gray-200',
+  skipped: 'bg-yellow-100 text-yellow-800 border-yellow-200',
+  failed: 'bg-red-100 text-red-800 border-red-200',
+  not_found: 'bg-red-100 text-red-800 border-red-200',
+}
+
+export default function BulkActionReport({ action, results, onClose }: BulkActionReportProps) {
+  return (
+    <div className="fixed inset-0 bg-black bg-opacity-50 overflow-y-auto h-full w-full z-50 flex items-center justify-center p-4">
+      <div className="bg-white rounded-lg shadow-xl w-full max-w-2xl">
+        <div className="p-6">
+          <div className="flex justify-between items-center mb-6">
+            <h3 className="text-xl font-bold text-gray-900">
+              Bulk {ACTION_LABELS[action]}: {results.length} campaigns
+            </h3>
+            <button onClick={onClose} className="text-gray-400 hover:text-gray-600">
+              <svg className="w-6 h-6" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+                <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M6 18L18 6M6 6l12 12" />
+              </svg>
+            </button>
+          </div>
+
+          <ul className="divide-y divide-gray-200 border border-gray-200 rounded-md max-h-96 overflow-y-auto">
+            {results.map(result => (
+              <li key={result.campaignId} className="flex justify-between items-start px-4 py-3">
+                <div className="min-w-0 mr-4">
+                  <div className="text-sm font-medium text-gray-900">{result.campaignName || result.campaignId}</div>
+                  {result.detail && (
+                    <div className="text-sm text-gray-500">{result.detail}</div>
+                  )}
+                </div>
+                <span className={`inline-flex items-center px-2 py-1 rounded-full text-xs font-medium border ${outcomeBadge[result.outcome]}`}>
+                  {result.outcome.replace('_', ' ')}
+                </span>
+              </li>
+            ))}
+          </ul>
+
+          <div className="flex justify-end mt-6">
+            <button
+              onClick={onClose}
+              className="px-4 py-2 text-sm font-medium text-gray-700 bg-gray-100 hover:bg-gray-200 rounded-md transition-colors"
+            >
+              Close
+            </button>
+          </div>
+        </div>
+      </div>
+    </div>
+  )
+}
@@ -0,0 +1,439 @@
+'use client'
+
+import { useState, useEffect } from 'react'
+import { createClientComponentClient } from '@/lib/supabase'
+import { toast } from 'react-hot-toast'
+import { useForm } from 'react-hook-form'
+import { zodResolver } from '@hookform/resolvers/zod'
+import { campaignAnalyticsFiltersSchema, type CampaignAnalyticsFilters } from '@/lib/follow-up-validations'
+
+interface CampaignSummary {
+  campaign_id: string
+  campaign_name: string
+  message_type: string
+  total_sent: number
+  delivery_rate: number | null
+  open_rate: number | null
+  click_rate: number | null
+  failed_count: number
+  bounced_count: number
+  last_sent_at: string | null
+}
+
+interface BreakdownRow {
+  sent: number
+  delivered: number
+  opened: number
+  clicked: number
+  failed: number
+}
+
+interface CampaignAnalyticsData {
+  funnel: {
+    sent: number
+    delivered: number
+    opened: number
+    clicked: number
+    failed: number
+    bounced: number
+  }
+  daily: { day: string; sent: number; failed: number }[]
+  failure_reasons: { reason: string; count: number }[]
+  by_property: (BreakdownRow & { property_id: string | null; property_name: string })[]
+  by_channel: (BreakdownRow & { channel: 'email' | 'sms' })[]
+  // Present once database-email-tracking.sql has been run
+  links?: { url: string; clicks: number; unique_clicks: number }[]
+}
+
+interface CampaignAnalyticsProps {
+  properties: { id: string; name: string }[]
+  selectedCampaignId: string | null
+  onSelectCampaign: (campaignId: string | null) => void
+}
+
+const inputClassName = 'w-full border border-gray-300 rounded-md px-3 py-2 text-gray-900 bg-white focus:outline-none focus:ring-2 focus:ring-blue-500 focus:border-blue-500'
+
+// Rates follow the campaign_analytics view: each stage over the one before it
+export function formatRate(numerator: number, denominator: number): string {
+  if (!denominator) return '-'
+  return `${Math.round((numerator / denominator) * 1000) / 10}%`
+}
+
+// Fill in days with no sends so the volume chart has an even time axis
+export function fillMissingDays(daily: CampaignAnalyticsData['daily']): CampaignAnalyticsData['daily'] {
+  if (daily.length === 0) return []
+
+  const byDay = new Map(daily.map(day => [day.day, day]))
+  const filled: CampaignAnalyticsData['daily'] = []
+  const cursor = new Date(`${daily[0].day}T00:00:00Z`)
+  const last = new Date(`${daily[daily.length - 1].day}T00:00:00Z`)
+
+  while (cursor <= last) {
+    const day = cursor.toISOString().slice(0, 10)
+    filled.push(byDay.get(day) || { day, sent: 0, failed: 0 })
+    cursor.setUTCDate(cursor.getUTCDate() + 1)
+  }
+
+  return filled
+}
+
+export default function CampaignAnalytics({ properties, selectedCampaignId, onSelectCampaign }: CampaignAnalyticsProps) {
+  const [summaries, setSummaries] = useState<CampaignSummary[]>([])
+  const [analytics, setAnalytics] = useState<CampaignAnalyticsData | null>(null)
+  const [loading, setLoading] = useState(true)
+  const [loadingDetail, setLoadingDetail] = useState(false)
+
+  const supabase = createClientComponentClient()
+
+  const filtersForm = useForm<CampaignAnalyticsFilters>({
+    resolver: zodResolver(campaignAnalyticsFiltersSchema),
+    defaultValues: {},
+  })
+
+  useEffect(() => {
+    fetchSummaries()
+  }, []) // eslint-disable-line react-hooks/exhaustive-deps
+
+  useEffect(() => {
+    if (selectedCampaignId) {
+      fetchAnalytics(selectedCampaignId, filtersForm.getValues())
+    } else {
+      setAnalytics(null)
+    }
+  }, [selectedCampaignId]) // eslint-disable-line react-hooks/exhaustive-deps
+
+  const fetchSummaries = async () => {
+    try {
+      const { data, error } = await supabase
+        .from('campaign_analytics')
+        .select('campaign_id, campaign_name, message_type, total_sent, delivery_rate, open_rate, click_rate, failed_count, bounced_count, last_sent_at')
+        .order('campaign_name')
+
+      if (error) throw error
+      setSummaries(data || [])
+    } catch (error) {
+      console.error('Error fetching campaign analytics:', error)
+      toast.error('Failed to load campaign analytics')
+    } finally {
+      setLoading(false)
+    }
+  }
+
+  const fetchAnalytics = async (campaignId: string, filters: CampaignAnalyticsFilters) => {
+    setLoadingDetail(true)
+    try {
+      const { data, error } = await supabase
+        .rpc('get_campaign_analytics', {
+          campaign_id_param: campaignId,
+          property_id_param: filters.property_id || null,
+          date_from_param: filters.date_from || null,
+          date_to_param: filters.date_to || null,
+          message_type_param: filters.message_type || null,
+          time_zone_param: Intl.DateTimeFormat().resolvedOptions().timeZone,
+        })
+
+      if (error) throw error
+      setAnalytics(data as CampaignAnalyticsData)
+    } catch (error: unknown) {
+      console.error('Error fetching campaign analytics:', error)
+      toast.error(error instanceof Error ? error.message : 'Failed to load campaign analytics')
+    } finally {
+      setLoadingDetail(false)
+    }
+  }
+
+  const onApplyFilters = (filters: CampaignAnalyticsFilters) => {
+    if (selectedCampaignId) fetchAnalytics(selectedCampaignId, filters)
+  }
+
+  const handleResetFilters = () => {
+    filtersForm.reset({})
+    if (selectedCampaignId) fetchAnalytics(selectedCampaignId, {})
+  }
+
+  if (loading) {
+    return (
+      <div className="flex items-center justify-center py-8">
+        <div className="animate-spin rounded-full h-8 w-8 border-b-2 border-blue-600"></div>
+      </div>
+    )
+  }
+
+  const selectedSummary = summaries.find(summary => summary.campaign_id === selectedCampaignId)
+
+  if (!selectedCampaignId || !selectedSummary) {
+    return (
+      <div className="bg-white rounded-lg shadow-sm border border-gray-200 overflow-hidden">
+        <div className="overflow-x-auto">
+          <table className="min-w-full divide-y divide-gray-200">
+            <thead className="bg-gray-50">
+              <tr>
+                <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">Campaign</th>
+                <th className="px-6 py-3 text-right text-xs font-medium text-gray-500 uppercase tracking-wider">Sent</th>
+                <th className="px-6 py-3 text-right text-xs font-medium text-gray-500 uppercase tracking-wider">Delivered</th>
+                <th className="px-6 py-3 text-right text-xs font-medium text-gray-500 uppercase tracking-wider">Opened</th>
+                <th className="px-6 py-3 text-right text-xs font-medium text-gray-500 uppercase tracking-wider">Clicked</th>
+                <th className="px-6 py-3 text-right text-xs font-medium text-gray-500 uppercase tracking-wider">Failed</th>
+                <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">Last Sent</th>
+              </tr>
+            </thead>
+            <tbody className="bg-white divide-y divide-gray-200">
+              {summaries.map(summary => (
+                <tr
+                  key={summary.campaign_id}
+                  onClick={() => onSelectCampaign(summary.campaign_id)}
+                  className="hover:bg-gray-50 cursor-pointer"
+                >
+                  <td className="px-6 py-4 whitespace-nowrap text-sm font-medium text-blue-600">{summary.campaign_name}</td>
+                  <td className="px-6 py-4 whitespace-nowrap text-sm text-right text-gray-900">{summary.total_sent}</td>
+                  <td className="px-6 py-4 whitespace-nowrap text-sm text-right text-gray-900">{summary.delivery_rate ?? '-'}{summary.delivery_rate !== null && '%'}</td>
+                  <td className="px-6 py-4 whitespace-nowrap text-sm text-right text-gray-900">{summary.open_rate ?? '-'}{summary.open_rate !== null && '%'}</td>
+                  <td className="px-6 py-4 whitespace-nowrap text-sm text-right text-gray-900">{summary.click_rate ?? '-'}{summary.click_rate !== null && '%'}</td>
+                  <td className="px-6 py-4 whitespace-nowrap text-sm text-right text-red-600">{summary.failed_count + summary.bounced_count}</td>
+                  <td className="px-6 py-4 whitespace-nowrap text-sm text-gray-500">
+                    {summary.last_sent_at ? new Date(summary.last_sent_at).toLocaleDateString() : '-'}
+                  </td>
+                </tr>
+              ))}
+            </tbody>
+          </table>
+        </div>
+
+        {summaries.length === 0 && (
+          <p className="text-center py-12 text-gray-500">Create a campaign to see its analytics here.</p>
+        )}
+      </div>
+    )
+  }
+
+  const funnel = analytics?.funnel
+  const daily = fillMissingDays(analytics?.daily || [])
+  const maxDaily = Math.max(1, ...daily.map(day => day.sent))
+  const failedTotal = funnel ? funnel.failed + funnel.bounced : 0
+  const errors = filtersForm.formState.errors
+
+  const funnelStages = funnel ? [
+    { label: 'Sent', value: funnel.sent, rate: null },
+    { label: 'Delivered', value: funnel.delivered, rate: formatRate(funnel.delivered, funnel.sent) },
+    { label: 'Opened', value: funnel.opened, rate: formatRate(funnel.opened, funnel.delivered) },
+    { label: 'Clicked', value: funnel.clicked, rate: formatRate(funnel.clicked, funnel.opened) },
+  ] : []
+
+  const renderBreakdown = (rows: (BreakdownRow & { key: string; label: string })[]) => (
+    <table className="min-w-full divide-y divide-gray-200">
+      <thead>
+        <tr>
+          <th className="py-2 text-left text-xs font-medium text-gray-500 uppercase tracking-wider"></th>
+          <th className="py-2 text-right text-xs font-medium text-gray-500 uppercase tracking-wider">Sent</th>
+          <th className="py-2 text-right text-xs font-medium text-gray-500 uppercase tracking-wider">Delivered</th>
+          <th className="py-2 text-right text-xs font-medium text-gray-500 uppercase tracking-wider">Opened</th>
+          <th className="py-2 text-right text-xs font-medium text-gray-500 uppercase tracking-wider">Clicked</th>
+          <th className="py-2 text-right text-xs font-medium text-gray-500 uppercase tracking-wider">Failed</th>
+        </tr>
+      </thead>
+      <tbody className="divide-y divide-gray-200">
+        {rows.map(row => (
+          <tr key={row.key}>
+            <td className="py-2 text-sm text-gray-900">{row.label}</td>
+            <td className="py-2 text-sm text-right text-gray-900">{row.sent}</td>
+            <td className="py-2 text-sm text-right text-gray-900">{formatRate(row.delivered, row.sent)}</td>
+            <td className="py-2 text-sm text-right text-gray-900">{formatRate(row.opened, row.delivered)}</td>
+            <td className="py-2 text-sm text-right text-gray-900">{formatRate(row.clicked, row.opened)}</td>
+            <td className="py-2 text-sm text-right text-red-600">{row.failed}</td>
+          </tr>
+        ))}
+      </tbody>
+    </table>
+  )
+
+  return (
+    <div className="space-y-6">
+      <div className="flex justify-between items-center">
+        <div>
+          <button
+            onClick={() => onSelectCampaign(null)}
+            className="text-sm font-medium text-blue-600 hover:text-blue-800"
+          >
+            ← All campaigns
+          </button>
+          <h3 className="text-xl font-bold text-gray-900 mt-1">{selectedSummary.campaign_name}</h3>
+        </div>
+      </div>
+
+      <form
+        onSubmit={filtersForm.handleSubmit(onApplyFilters)}
+        className="bg-white rounded-lg shadow-sm border border-gray-200 p-4 grid grid-cols-1 md:grid-cols-5 gap-4 items-end"
+      >
+        <div>
+          <label className="block text-sm font-medium text-gray-700 mb-1">From</label>
+          <input
+            {...filtersForm.register('date_from', { setValueAs: value => value || undefined })}
+            type="date"
+            className={inputClassName}
+          />
+        </div>
+        <div>
+          <label className="block text-sm font-medium text-gray-700 mb-1">To</label>
+          <input
+            {...filtersForm.register('date_to', { setValueAs: value => value || undefined })}
+            type="date"
+            className={inputClassName}
+          />
+          {errors.date_to && (
+            <p className="mt-1 text-sm text-red-600">{errors.date_to.message}</p>
+          )}
+        </div>
+        <div>
+          <label className="block text-sm font-medium text-gray-700 mb-1">Property</label>
+          <select
+            {...filtersForm.register('property_id', { setValueAs: value => value || undefined })}
+            className={inputClassName}
+          >
+            <option value="">All properties</option>
+            {properties.map(property => (
+              <option key={property.id} value={property.id}>{property.name}</option>
+            ))}
+          </select>
+        </div>
+        <div>
+          <label className="block text-sm font-medium text-gray-700 mb-1">Channel</label>
+          <select
+            {...filtersForm.register('message_type', { setValueAs: value => value || undefined })}
+            className={inputClassName}
+          >
+            <option value="">Email & SMS</option>
+            <option value="email">Email</option>
+            <option value="sms">SMS</option>
+          </select>
+        </div>
+        <div className="flex space-x-2">
+          <button
+            type="submit"
+            disabled={loadingDetail}
+            className="flex-1 px-4 py-2 text-sm font-medium text-white bg-blue-600 hover:bg-blue-700 disabled:bg-gray-400 rounded-md transition-colors"
+          >
+            Apply
+          </button>
+          <button
+            type="button"
+            onClick={handleResetFilters}
+            className="px-4 py-2 text-sm font-medium text-gray-700 bg-gray-100 hover:bg-gray-200 rounded-md transition-colors"
+          >
+            Reset
+          </button>
+        </div>
+      </form>
+
+      {!analytics || loadingDetail ? (
+        <div className="flex items-center justify-center py-8">
+          <div className="animate-spin rounded-full h-8 w-8 border-b-2 border-blue-600"></div>
+        </div>
+      ) : funnel && funnel.sent === 0 ? (
+        <p className="text-center py-12 text-gray-500">No messages match these filters.</p>
+      ) : (
+        <>
+          <div className="grid grid-cols-2 md:grid-cols-5 gap-4">
+            {funnelStages.map(stage => (
+              <div key={stage.label} className="bg-white rounded-lg shadow-sm border border-gray-200 p-4">
+                <div className="text-sm text-gray-500">{stage.label}</div>
+                <div className="text-2xl font-bold text-gray-900">{stage.value}</div>
+                {stage.rate && <div className="text-sm text-blue-600">{stage.rate}</div>}
+              </div>
+            ))}
+            <div className="bg-white rounded-lg shadow-sm border border-gray-200 p-4">
+              <div className="text-sm text-gray-500">Failed / Bounced</div>
+              <div className="text-2xl font-bold text-red-600">{failedTotal}</div>
+              <div className="text-sm text-red-600">{formatRate(failedTotal, funnel?.sent || 0)}</div>
+            </div>
+          </div>
+
+          <div className="bg-white rounded-lg shadow-sm border border-gray-200 p-6">
+            <h4 className="text-lg font-semibold text-gray-900 mb-4">Send Volume</h4>
+            <div className="flex items-end h-40 space-x-1 overflow-x-auto">
+              {daily.map(day => (
+                <div
+                  key={day.day}
+                  className="flex-1 min-w-[6px] flex flex-col justify-end h-full"
+                  title={`${new Date(`${day.day}T00:00:00`).toLocaleDateString()}: ${day.sent} sent, ${day.failed} failed`}
+                >
+                  <div className="bg-red-400" style={{ height: `${(day.failed / maxDaily) * 100}%` }} />
+                  <div className="bg-blue-500" style={{ height: `${((day.sent - day.failed) / maxDaily) * 100}%` }} />
+                </div>
+              ))}
+            </div>
+            <div className="flex justify-between text-xs text-gray-500 mt-2">
+              <span>{new Date(`${daily[0].day}T00:00:00`).toLocaleDateString()}</span>
+              <span>{new Date(`${daily[daily.length - 1].day}T00:00:00`).toLocaleDateString()}</span>
+            </div>
+          </div>
+
+          <div className="grid grid-cols-1 lg:grid-cols-2 gap-6">
+            <div className="bg-white rounded-lg shadow-sm border border-gray-200 p-6">
+              <h4 className="text-lg font-semibold text-gray-900 mb-4">By Channel</h4>
+              {renderBreakdown(analytics.by_channel.map(row => ({
+                ...row,
+                key: row.channel,
+                label: row.channel === 'email' ? 'Email' : 'SMS',
+              })))}
+            </div>
+
+            <div className="bg-white rounded-lg shadow-sm border border-gray-200 p-6">
+              <h4 className="text-lg font-semibold text-gray-900 mb-4">By Property</h4>
+              {renderBreakdown(analytics.by_property.map(row => ({
+                ...row,
+                key: row.property_id || 'none',
+                label: row.property_name,
+              })))}
+            </div>
+          </div>
+
+          {analytics.links && (
+            <div className="bg-white rounded-lg shadow-sm border border-gray-200 p-6">
+              <h4 className="text-lg font-semibold text-gray-900 mb-4">Link Clicks</h4>
+              {analytics.links.length === 0 ? (
+                <p className="text-sm text-gray-500">No tracked link clicks yet.</p>
+              ) : (
+                <table className="min-w-full divide-y divide-gray-200">
+                  <thead>
+                    <tr>
+                      <th className="py-2 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">Link</th>
+                      <th className="py-2 text-right text-xs font-medium text-gray-500 uppercase tracking-wider">Clicks</th>
+                      <th className="py-2 text-right text-xs font-medium text-gray-500 uppercase tracking-wider">Unique</th>
+                    </tr>
+                  </thead>
+                  <tbody className="divide-y divide-gray-200">
+                    {analytics.links.map(link => (
+                      <tr key={link.url}>
+                        <td className="py-2 text-sm text-blue-600 break-all pr-4">
+                          <a href={link.url} target="_blank" rel="noopener noreferrer" className="hover:underline">{link.url}</a>
+                        </td>
+                        <td className="py-2 text-sm text-right text-gray-900">{link.clicks}</td>
+                        <td className="py-2 text-sm text-right text-gray-900">{link.unique_clicks}</td>
+                      </tr>
+                    ))}
+                  </tbody>
+                </table>
+              )}
+            </div>
+          )}
+
+          <div className="bg-white rounded-lg shadow-sm border border-gray-200 p-6">
+            <h4 className="text-lg font-semibold text-gray-900 mb-4">Failure Reasons</h4>
+            {analytics.failure_reasons.length === 0 ? (
+              <p className="text-sm text-gray-500">No failed or bounced messages.</p>
+            ) : (
+              <ul className="divide-y divide-gray-200">
+                {analytics.failure_reasons.map(failure => (
+                  <li key={failure.reason} className="flex justify-between py-2 text-sm">
+                    <span className="text-gray-900 break-all mr-4">{failure.reason}</span>
+                    <span className="font-medium text-red-600">{failure.count}</span>
+                  </li>
+                ))}
+              </ul>
+            )}
+          </div>
+        </>
+      )}
+    </div>
+  )
+}
@@ -0,0 +1,221 @@
+'use client'
+
+import { useState, useEffect } from 'react'
+import { createClientComponentClient } from '@/lib/supabase'
+import { toast } from 'react-hot-toast'
+import type { TemplateContext } from '@shared/template-variables'
+import {
+  loadVisitorTemplateContext,
+  renderTemplatePreview,
+  SAMPLE_TEMPLATE_CONTEXT,
+  type TemplatePreviewInput,
+} from '@/lib/template-preview'
+import { analyzeSmsSegments } from '@/lib/sms-segments'
+
+interface PreviewVisitor {
+  visitor_id: string
+  visitor_name: string
+}
+
+interface CampaignPreviewProps {
+  content: TemplatePreviewInput
+  messageType: string
+  visitors: PreviewVisitor[]
+  campaignId?: string
+}
+
+type PreviewPane = 'html' | 'text' | 'sms'
+
+export default function CampaignPreview({ content, messageType, visitors, campaignId }: CampaignPreviewProps) {
+  const [admin, setAdmin] = useState<TemplateContext['admin']>(null)
+  const [selectedVisitorId, setSelectedVisitorId] = useState('')
+  const [context, setContext] = useState<TemplateContext>(SAMPLE_TEMPLATE_CONTEXT)
+  const [pane, setPane] = useState<PreviewPane>(messageType === 'sms' ? 'sms' : 'html')
+  const [sendingTest, setSendingTest] = useState<'email' | 'sms' | null>(null)
+
+  const supabase = createClientComponentClient()
+
+  useEffect(() => {
+    const fetchAdmin = async () => {
+      const { data: { user } } = await supabase.auth.getUser()
+      if (!user) return
+
+      const { data } = await supabase
+        .from('admins')
+        .select('first_name, last_name, email, phone')
+        .eq('user_id', user.id)
+        .single()
+
+      if (data) setAdmin(data)
+    }
+
+    fetchAdmin()
+  }, []) // eslint-disable-line react-hooks/exhaustive-deps
+
+  useEffect(() => {
+    const fetchContext = async () => {
+      if (!selectedVisitorId) {
+        setContext({ ...SAMPLE_TEMPLATE_CONTEXT, admin: admin || SAMPLE_TEMPLATE_CONTEXT.admin })
+        return
+      }
+
+      try {
+        setContext(await loadVisitorTemplateContext(supabase, selectedVisitorId, admin))
+      } catch (error) {
+        console.error('Error loading visitor for preview:', error)
+        toast.error('Failed to load visitor for preview')
+      }
+    }
+
+    fetchContext()
+  }, [selectedVisitorId, admin]) // eslint-disable-line react-hooks/exhaustive-deps
+
+  useEffect(() => {
+    if (messageType === 'sms' && pane !== 'sms') setPane('sms')
+    if (messageType === 'email' && pane === 'sms') setPane('html')
+  }, [messageType, pane])
+
+  const preview = renderTemplatePreview(content, context, {
+    appUrl: typeof window !== 'undefined' ? window.location.origin : '',
+  })
+  const smsInfo = analyzeSmsSegments(preview.smsContent)
+
+  const sendTest = async (channel: 'email' | 'sms') => {
+    setSendingTest(channel)
+    try {
+      const { data: { session } } = await supabase.auth.getSession()
+      if (!session) {
+        throw new Error('Not authenticated')
+      }
+
+      const response = await fetch('/api/send-follow-up/test', {
+        method: 'POST',
+        headers: {
+          'Content-Type': 'application/json',
+          'Authorization': `Bearer ${session.access_token}`,
+        },
+        body: JSON.stringify({
+          campaignId,
+          visitorId: selectedVisitorId || undefined,
+          channel,
+          ...content,
+        }),
+      })
+
+      const result = await response.json()
+
+      if (!response.ok) {
+        throw new Error(result.error || 'Failed to send test message')
+      }
+
+      toast.success(`Test ${channel === 'email' ? 'email' : 'SMS'} sent to ${result.recipient}`)
+    } catch (error: unknown) {
+      console.error('Error sending test message:', error)
+      toast.error(error instanceof Error ? error.message : 'Failed to send test message')
+    } finally {
+      setSendingTest(null)
+    }
+  }
+
+  const panes: { id: PreviewPane; label: string }[] = [
+    ...(messageType !== 'sms' ? [
+      { id: 'html' as const, label: 'Email' },
+      { id: 'text' as const, label: 'Plain text' },
+    ] : []),
+    ...(messageType !== 'email' ? [{ id: 'sms' as const, label: 'SMS' }] : []),
+  ]
+
+  return (
+    <div className="p-4 bg-gray-50 rounded-lg border border-gray-200 space-y-4 lg:sticky lg:top-4 self-start">
+      <div>
+        <label className="block text-sm font-medium text-gray-700 mb-2">Preview as</label>
+        <select
+          value={selectedVisitorId}
+          onChange={(e) => setSelectedVisitorId(e.target.value)}
+          className="w-full border border-gray-300 rounded-md px-3 py-2 text-gray-900 bg-white focus:outline-none focus:ring-2 focus:ring-blue-500 focus:border-blue-500"
+        >
+          <option value="">Sample visitor</option>
+          {visitors.map(visitor => (
+            <option key={visitor.visitor_id} value={visitor.visitor_id}>{visitor.visitor_name}</option>
+          ))}
+        </select>
+        {visitors.length === 0 && (
+          <p className="text-xs text-gray-500 mt-1">Save the campaign to preview with its eligible visitors.</p>
+        )}
+      </div>
+
+      <nav className="flex space-x-4 border-b border-gray-200">
+        {panes.map(({ id, label }) => (
+          <button
+            key={id}
+            type="button"
+            onClick={() => setPane(id)}
+            className={`py-2 px-1 border-b-2 font-medium text-sm ${
+              pane === id
+                ? 'border-blue-500 text-blue-600'
+                : 'border-transparent text-gray-500 hover:text-gray-700 hover:border-gray-300'
+            }`}
+          >
+            {label}
+          </button>
+        ))}
+      </nav>
+
+      {pane !== 'sms' && (
+        <div>
+          <p className="text-xs text-gray-500 uppercase mb-1">Subject</p>
+          <p className="text-sm font-medium text-gray-900 mb-3">{preview.emailSubject || '—'}</p>
+          {pane === 'html' ? (
+            <iframe
+              title="Email preview"
+              sandbox=""
+              srcDoc={preview.emailHtml}
+              className="w-full h-96 bg-white border border-gray-200 rounded-md"
+            />
+          ) : (
+            <pre className="w-full h-96 overflow-auto bg-white border border-gray-200 rounded-md p-3 text-sm text-gray-900 whitespace-pre-wrap font-sans">
+              {preview.emailText}
+            </pre>
+          )}
+          <button
+            type="button"
+            onClick={() => sendTest('email')}
+            disabled={sendingTest !== null || !content.emailSubject || !content.emailHtml}
+            className="mt-3 w-full px-4 py-2 text-sm font-medium text-white bg-blue-600 hover:bg-blue-700 disabled:bg-gray-400 rounded-md transition-colors"
+          >
+            {sendingTest === 'email' ? 'Sending...' : 'Send test email to me'}
+          </button>
+        </div>
+      )}
+
+      {pane === 'sms' && (
+        <div>
+          <p className="text-sm text-gray-900 whitespace-pre-wrap bg-white border border-gray-200 rounded-md p-3 min-h-24">
+            {preview.smsContent}
+          </p>
+          <div className="flex justify-between text-xs text-gray-500 mt-2">
+            <span>
+              {smsInfo.segments} segment{smsInfo.segments === 1 ? '' : 's'} • {smsInfo.encoding}
+            </span>
+            <span>{smsInfo.length} chars • {smsInfo.remainingInSegment} left in segment</span>
+          </div>
+          {smsInfo.encoding === 'UCS-2' && (
+            <p className="text-xs text-yellow-700 mt-1">
+              {smsInfo.nonGsmCharacters.join(' ')} {smsInfo.nonGsmCharacters.length === 1 ? 'is' : 'are'} not in the GSM-7 alphabet, so each segment holds only 70 characters.
+            </p>
+          )}
+          <button
+            type="button"
+            onClick={() => sendTest('sms')}
+            disabled={sendingTest !== null || !content.smsContent}
+            className="mt-3 w-full px-4 py-2 text-sm font-medium text-white bg-green-600 hover:bg-green-700 disabled:bg-gray-400 rounded-md transition-colors"
+          >
+            {sendingTest === 'sms' ? 'Sending...' : 'Send test SMS to me'}
+          </button>
+        </div>
+      )}
+
+      <p className="text-xs text-gray-500">Test messages go only to you and are not logged as campaign sends.</p>
+    </div>
+  )
+}
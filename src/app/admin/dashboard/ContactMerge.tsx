@@ -0,0 +1,247 @@
+'use client'
+
+import { useState, useEffect } from 'react'
+import { createClientComponentClient } from '@/lib/supabase'
+import { formatDate } from '@/lib/utils'
+import { toast } from 'react-hot-toast'
+
+// One person across all of their check-ins (see database-returning-visitors.sql)
+interface ContactSummary {
+  id: string
+  name: string
+  email: string
+  phone: string
+  visit_count: number
+  first_visit: string
+  last_visit: string
+  emails: string[]
+  phones: string[]
+  property_names: string[]
+}
+
+interface ContactMergeProps {
+  onClose: () => void
+  onMerged: () => void
+}
+
+const inputClassName = 'w-full border border-gray-300 rounded-md px-3 py-2 text-gray-900 bg-white focus:outline-none focus:ring-2 focus:ring-blue-500 focus:border-blue-500'
+
+const normalizeName = (name: string) => name.trim().toLowerCase().replace(/\s+/g, ' ')
+
+export default function ContactMerge({ onClose, onMerged }: ContactMergeProps) {
+  const [contacts, setContacts] = useState<ContactSummary[]>([])
+  const [loading, setLoading] = useState(true)
+  const [search, setSearch] = useState('')
+  const [selectedIds, setSelectedIds] = useState<string[]>([])
+  const [merging, setMerging] = useState(false)
+
+  const supabase = createClientComponentClient()
+
+  useEffect(() => {
+    fetchContacts()
+  }, []) // eslint-disable-line react-hooks/exhaustive-deps
+
+  const fetchContacts = async () => {
+    try {
+      const { data, error } = await supabase
+        .from('contact_summary')
+        .select('*')
+        .order('last_visit', { ascending: false })
+
+      if (error) throw error
+      setContacts(data || [])
+    } catch (error) {
+      console.error('Error fetching contacts:', error)
+      toast.error('Failed to load visitors. Please ensure database-returning-visitors.sql has been run.')
+    } finally {
+      setLoading(false)
+    }
+  }
+
+  // Check-ins are matched automatically on email and phone, so what's left
+  // are people who used a different email or number. The same name is the
+  // best hint we have.
+  const suggestedGroups = Object.values(
+    contacts.reduce<Record<string, ContactSummary[]>>((groups, contact) => {
+      const key = normalizeName(contact.name || '')
+      if (key) groups[key] = [...(groups[key] || []), contact]
+      return groups
+    }, {})
+  ).filter(group => group.length > 1)
+
+  const searchTerm = search.trim().toLowerCase()
+  const searchResults = searchTerm
+    ? contacts.filter(contact =>
+        contact.name?.toLowerCase().includes(searchTerm) ||
+        contact.emails.some(email => email.toLowerCase().includes(searchTerm)) ||
+        contact.phones.some(phone => phone.includes(searchTerm))
+      )
+    : []
+
+  const toggleContact = (id: string) => {
+    setSelectedIds(selectedIds.includes(id)
+      ? selectedIds.filter(selectedId => selectedId !== id)
+      : [...selectedIds, id])
+  }
+
+  const selectGroup = (group: ContactSummary[]) => {
+    setSelectedIds(group.map(contact => contact.id))
+  }
+
+  const selectedContacts = contacts.filter(contact => selectedIds.includes(contact.id))
+
+  // A contact holds no details of its own; its name, email and phone are
+  // always those of the latest visit. Merging into the one with the most
+  // visits just moves the fewest rows.
+  const handleMerge = async () => {
+    if (selectedContacts.length < 2) return
+    const keep = [...selectedContacts].sort((a, b) => b.visit_count - a.visit_count)[0]
+    if (!confirm(`Merge ${selectedContacts.length} records into one visitor? Every property visit is kept.`)) return
+
+    setMerging(true)
+    try {
+      const { data, error } = await supabase
+        .rpc('merge_contacts', {
+          target_contact_id: keep.id,
+          source_contact_ids: selectedContacts.filter(contact => contact.id !== keep.id).map(contact => contact.id),
+        })
+
+      if (error) throw error
+
+      toast.success(`Merged ${data} visit${data === 1 ? '' : 's'} into one visitor`)
+      setSelectedIds([])
+      fetchContacts()
+      onMerged()
+    } catch (error: unknown) {
+      console.error('Error merging contacts:', error)
+      toast.error(error instanceof Error ? error.message : 'Failed to merge visitors')
+    } finally {
+      setMerging(false)
+    }
+  }
+
+  const renderContact = (contact: ContactSummary) => (
+    <label
+      key={contact.id}
+      className={`flex items-start space-x-3 p-3 rounded-lg border cursor-pointer ${
+        selectedIds.includes(contact.id) ? 'border-blue-300 bg-blue-50' : 'border-gray-200 hover:bg-gray-50'
+      }`}
+    >
+      <input
+        type="checkbox"
+        checked={selectedIds.includes(contact.id)}
+        onChange={() => toggleContact(contact.id)}
+        className="mt-1 h-4 w-4 text-blue-600 border-gray-300 rounded"
+      />
+      <div className="flex-1 min-w-0">
+        <p className="text-sm font-medium text-gray-900">{contact.name}</p>
+        <p className="text-sm text-gray-600 truncate">{contact.emails.join(', ')}</p>
+        <p className="text-sm text-gray-600">{contact.phones.join(', ')}</p>
+        <p className="text-xs text-gray-500 mt-1">
+          {contact.visit_count} visit{contact.visit_count === 1 ? '' : 's'} • Last {formatDate(contact.last_visit)}
+          {contact.property_names.length > 0 && ` • ${contact.property_names.join(', ')}`}
+        </p>
+      </div>
+    </label>
+  )
+
+  return (
+    <div className="fixed inset-0 bg-black bg-opacity-50 flex items-center justify-center p-4 z-50">
+      <div className="bg-white rounded-lg shadow-xl max-w-2xl w-full max-h-[90vh] overflow-y-auto">
+        <div className="p-6">
+          <div className="flex justify-between items-start mb-6">
+            <div>
+              <h3 className="text-xl font-bold text-gray-900">Merge Duplicate Visitors</h3>
+              <p className="text-sm text-gray-500 mt-1">
+                Returning visitors are matched on email and phone. Merge anyone who checked in with different details.
+              </p>
+            </div>
+            <button onClick={onClose} className="text-gray-400 hover:text-gray-600">
+              <svg className="w-6 h-6" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+                <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M6 18L18 6M6 6l12 12" />
+              </svg>
+            </button>
+          </div>
+
+          {loading ? (
+            <div className="flex justify-center py-12">
+              <div className="animate-spin rounded-full h-8 w-8 border-b-2 border-blue-600"></div>
+            </div>
+          ) : (
+            <div className="space-y-6">
+              <div>
+                <input
+                  type="text"
+                  value={search}
+                  onChange={(e) => setSearch(e.target.value)}
+                  placeholder="Search by name, email or phone"
+                  className={inputClassName}
+                />
+                {searchTerm && (
+                  <div className="mt-3 space-y-2">
+                    {searchResults.length === 0 ? (
+                      <p className="text-sm text-gray-500">No visitors match your search.</p>
+                    ) : (
+                      searchResults.map(renderContact)
+                    )}
+                  </div>
+                )}
+              </div>
+
+              {!searchTerm && (
+                <div>
+                  <h4 className="text-sm font-medium text-gray-900 mb-3">Possible duplicates</h4>
+                  {suggestedGroups.length === 0 ? (
+                    <p className="text-sm text-gray-500">No visitors share a name. Search above to merge others.</p>
+                  ) : (
+                    <div className="space-y-4">
+                      {suggestedGroups.map(group => (
+                        <div key={group[0].id} className="space-y-2">
+                          <div className="flex justify-between items-center">
+                            <p className="text-sm text-gray-700">{group.length} records named {group[0].name}</p>
+                            <button
+                              onClick={() => selectGroup(group)}
+                              className="text-sm font-medium text-blue-600 hover:text-blue-800"
+                            >
+                              Select all
+                            </button>
+                          </div>
+                          {group.map(renderContact)}
+                        </div>
+                      ))}
+                    </div>
+                  )}
+                </div>
+              )}
+
+              {selectedContacts.length > 1 && (
+                <div className="bg-gray-50 border border-gray-200 rounded-lg p-4">
+                  <p className="text-sm text-gray-700 mb-4">
+                    {selectedContacts.map(contact => contact.name).join(', ')} will become one visitor with{' '}
+                    {selectedContacts.reduce((total, contact) => total + contact.visit_count, 0)} visits. They&apos;ll
+                    show the name and details from their latest check-in.
+                  </p>
+                  <div className="flex justify-end space-x-2">
+                    <button
+                      onClick={() => setSelectedIds([])}
+                      className="px-4 py-2 text-sm font-medium text-gray-700 bg-gray-100 hover:bg-gray-200 rounded-md transition-colors"
+                    >
+                      Clear
+                    </button>
+                    <button
+                      onClick={handleMerge}
+                      disabled={merging}
+                      className="px-4 py-2 text-sm font-medium text-white bg-blue-600 hover:bg-blue-700 disabled:bg-gray-400 rounded-md transition-colors"
+                    >
+                      {merging ? 'Merging...' : `Merge ${selectedContacts.length} Records`}
+                    </button>
+                  </div>
+                </div>
+              )}
+            </div>
+          )}
+        </div>
+      </div>
+    </div>
+  )
+}
@@ -0,0 +1,420 @@
+'use client'
+
+import { useState, useEffect } from 'react'
+import { createClientComponentClient } from '@/lib/supabase'
+import { toast } from 'react-hot-toast'
+import { useForm } from 'react-hook-form'
+import { zodResolver } from '@hookform/resolvers/zod'
+import { followUpLogFiltersSchema, type FollowUpLogFilters } from '@/lib/follow-up-validations'
+import LogDetailDrawer from './LogDetailDrawer'
+
+interface LogRow {
+  id: string
+  message_type: 'email' | 'sms'
+  status: string
+  recipient_email?: string | null
+  recipient_phone?: string | null
+  subject?: string | null
+  sent_at: string
+  delivered_at?: string | null
+  error_message?: string | null
+  visitors: { name: string } | null
+  properties: { name: string } | null
+  follow_up_campaigns: { name: string } | null
+}
+
+interface FollowUpLogExplorerProps {
+  campaigns: { id: string; name: string }[]
+  properties: { id: string; name: string }[]
+}
+
+const PAGE_SIZE = 25
+
+const inputClassName = 'w-full border border-gray-300 rounded-md px-3 py-2 text-gray-900 bg-white focus:outline-none focus:ring-2 focus:ring-blue-500 focus:border-blue-500'
+
+const statusBadge: Record<string, string> = {
+  sent: 'bg-blue-100 text-blue-800 border-blue-200',
+  delivered: 'bg-green-100 text-green-800 border-green-200',
+  failed: 'bg-red-100 text-red-800 border-red-200',
+  bounced: 'bg-red-100 text-red-800 border-red-200',
+  pending: 'bg-gray-100 text-gray-800 border-gray-200',
+  opened: 'bg-purple-100 text-purple-800 border-purple-200',
+  clicked: 'bg-indigo-100 text-indigo-800 border-indigo-200',
+}
+
+// The form's dates are days in the admin's time zone; the API filters on
+// sent_at, so send the instants those days start and end at
+function toQueryParams(filters: FollowUpLogFilters, page: number): URLSearchParams {
+  const params = new URLSearchParams({ page: String(page), page_size: String(PAGE_SIZE) })
+  if (filters.campaign_id) params.set('campaign_id', filters.campaign_id)
+  if (filters.property_id) params.set('property_id', filters.property_id)
+  if (filters.message_type) params.set('message_type', filters.message_type)
+  if (filters.status) params.set('status', filters.status)
+  if (filters.search) params.set('search', filters.search)
+  if (filters.date_from) params.set('date_from', new Date(`${filters.date_from}T00:00:00`).toISOString())
+  if (filters.date_to) params.set('date_to', new Date(`${filters.date_to}T23:59:59.999`).toISOString())
+  return params
+}
+
+export default function FollowUpLogExplorer({ campaigns, properties }: FollowUpLogExplorerProps) {
+  const [logs, setLogs] = useState<LogRow[]>([])
+  const [total, setTotal] = useState(0)
+  const [page, setPage] = useState(1)
+  const [filters, setFilters] = useState<FollowUpLogFilters>({})
+  const [loading, setLoading] = useState(true)
+  const [selectedLogIds, setSelectedLogIds] = useState<string[]>([])
+  const [retrying, setRetrying] = useState(false)
+  const [detailLogId, setDetailLogId] = useState<string | null>(null)
+
+  const supabase = createClientComponentClient()
+
+  const filtersForm = useForm<FollowUpLogFilters>({
+    resolver: zodResolver(followUpLogFiltersSchema),
+    defaultValues: {},
+  })
+
+  const { errors } = filtersForm.formState
+
+  useEffect(() => {
+    fetchLogs()
+  }, [page, filters]) // eslint-disable-line react-hooks/exhaustive-deps
+
+  const authHeaders = async (): Promise<Record<string, string>> => {
+    const { data: { session } } = await supabase.auth.getSession()
+    if (!session) {
+      throw new Error('Not authenticated')
+    }
+    return { 'Authorization': `Bearer ${session.access_token}` }
+  }
+
+  const fetchLogs = async () => {
+    setLoading(true)
+    try {
+      const response = await fetch(`/api/follow-up-logs?${toQueryParams(filters, page)}`, {
+        headers: await authHeaders(),
+      })
+
+      const result = await response.json()
+
+      if (!response.ok) {
+        throw new Error(result.error || 'Failed to load message logs')
+      }
+
+      setLogs(result.logs)
+      setTotal(result.total)
+    } catch (error: unknown) {
+      console.error('Error fetching message logs:', error)
+      toast.error(error instanceof Error ? error.message : 'Failed to load message logs')
+    } finally {
+      setLoading(false)
+    }
+  }
+
+  const onApplyFilters = (values: FollowUpLogFilters) => {
+    if (values.date_from && values.date_to && values.date_to < values.date_from) {
+      filtersForm.setError('date_to', { message: 'End date must be on or after start date' })
+      return
+    }
+    setSelectedLogIds([])
+    setPage(1)
+    setFilters(values)
+  }
+
+  const handleResetFilters = () => {
+    filtersForm.reset({})
+    setSelectedLogIds([])
+    setPage(1)
+    setFilters({})
+  }
+
+  const toggleLogSelection = (logId: string) => {
+    setSelectedLogIds(selectedLogIds.includes(logId)
+      ? selectedLogIds.filter(id => id !== logId)
+      : [...selectedLogIds, logId])
+  }
+
+  const retryLogs = async (logIds: string[]) => {
+    setRetrying(true)
+    try {
+      const response = await fetch('/api/follow-up-logs/retry', {
+        method: 'POST',
+        headers: {
+          'Content-Type': 'application/json',
+          ...(await authHeaders()),
+        },
+        body: JSON.stringify({ logIds }),
+      })
+
+      const result = await response.json()
+
+      if (!response.ok) {
+        throw new Error(result.error || 'Failed to retry messages')
+      }
+
+      if (result.retried.length > 0) {
+        toast.success(`Requeued ${result.retried.length} messages${result.skipped ? ` (${result.skipped} could not be retried)` : ''}`)
+      } else {
+        toast.error('None of the selected messages can be retried')
+      }
+
+      setSelectedLogIds([])
+      setDetailLogId(null)
+      fetchLogs()
+    } catch (error: unknown) {
+      console.error('Error retrying messages:', error)
+      toast.error(error instanceof Error ? error.message : 'Failed to retry messages')
+    } finally {
+      setRetrying(false)
+    }
+  }
+
+  const pageCount = Math.max(1, Math.ceil(total / PAGE_SIZE))
+  const failedOnPage = logs.filter(log => log.status === 'failed')
+  const allFailedSelected = failedOnPage.length > 0 && failedOnPage.every(log => selectedLogIds.includes(log.id))
+
+  return (
+    <div className="space-y-4">
+      <form
+        onSubmit={filtersForm.handleSubmit(onApplyFilters)}
+        className="bg-white rounded-lg shadow-sm border border-gray-200 p-4 grid grid-cols-1 md:grid-cols-4 gap-4 items-end"
+      >
+        <div className="md:col-span-2">
+          <label className="block text-sm font-medium text-gray-700 mb-1">Recipient</label>
+          <input
+            {...filtersForm.register('search', { setValueAs: value => value.trim() || undefined })}
+            type="search"
+            placeholder="Email address or phone number"
+            className={inputClassName}
+          />
+          {errors.search && (
+            <p className="mt-1 text-sm text-red-600">{errors.search.message}</p>
+          )}
+        </div>
+        <div>
+          <label className="block text-sm font-medium text-gray-700 mb-1">From</label>
+          <input
+            {...filtersForm.register('date_from', { setValueAs: value => value || undefined })}
+            type="date"
+            className={inputClassName}
+          />
+        </div>
+        <div>
+          <label className="block text-sm font-medium text-gray-700 mb-1">To</label>
+          <input
+            {...filtersForm.register('date_to', { setValueAs: value => value || undefined })}
+            type="date"
+            className={inputClassName}
+          />
+          {errors.date_to && (
+            <p className="mt-1 text-sm text-red-600">{errors.date_to.message}</p>
+          )}
+        </div>
+        <div>
+          <label className="block text-sm font-medium text-gray-700 mb-1">Campaign</label>
+          <select
+            {...filtersForm.register('campaign_id', { setValueAs: value => value || undefined })}
+            className={inputClassName}
+          >
+            <option value="">All campaigns</option>
+            {campaigns.map(campaign => (
+              <option key={campaign.id} value={campaign.id}>{campaign.name}</option>
+            ))}
+          </select>
+        </div>
+        <div>
+          <label className="block text-sm font-medium text-gray-700 mb-1">Property</label>
+          <select
+            {...filtersForm.register('property_id', { setValueAs: value => value || undefined })}
+            className={inputClassName}
+          >
+            <option value="">All properties</option>
+            {properties.map(property => (
+              <option key={property.id} value={property.id}>{property.name}</option>
+            ))}
+          </select>
+        </div>
+        <div className="grid grid-cols-2 gap-2">
+          <div>
+            <label className="block text-sm font-medium text-gray-700 mb-1">Channel</label>
+            <select
+              {...filtersForm.register('message_type', { setValueAs: value => value || undefined })}
+              className={inputClassName}
+            >
+              <option value="">All</option>
+              <option value="email">Email</option>
+              <option value="sms">SMS</option>
+            </select>
+          </div>
+          <div>
+            <label className="block text-sm font-medium text-gray-700 mb-1">Status</label>
+            <select
+              {...filtersForm.register('status', { setValueAs: value => value || undefined })}
+              className={inputClassName}
+            >
+              <option value="">All</option>
+              <option value="pending">Pending</option>
+              <option value="sent">Sent</option>
+              <option value="delivered">Delivered</option>
+              <option value="opened">Opened</option>
+              <option value="clicked">Clicked</option>
+              <option value="failed">Failed</option>
+              <option value="bounced">Bounced</option>
+            </select>
+          </div>
+        </div>
+        <div className="flex space-x-2">
+          <button
+            type="submit"
+            disabled={loading}
+            className="flex-1 px-4 py-2 text-sm font-medium text-white bg-blue-600 hover:bg-blue-700 disabled:bg-gray-400 rounded-md transition-colors"
+          >
+            Apply
+          </button>
+          <button
+            type="button"
+            onClick={handleResetFilters}
+            className="px-4 py-2 text-sm font-medium text-gray-700 bg-gray-100 hover:bg-gray-200 rounded-md transition-colors"
+          >
+            Reset
+          </button>
+        </div>
+      </form>
+
+      <div className="flex items-center justify-between">
+        <p className="text-sm text-gray-600">
+          {total} messages
+          {selectedLogIds.length > 0 && ` • ${selectedLogIds.length} selected`}
+        </p>
+        <button
+          onClick={() => retryLogs(selectedLogIds)}
+          disabled={selectedLogIds.length === 0 || retrying}
+          className="px-4 py-2 text-sm font-medium text-white bg-blue-600 hover:bg-blue-700 disabled:bg-gray-400 rounded-md transition-colors"
+        >
+          {retrying ? 'Retrying...' : 'Retry selected'}
+        </button>
+      </div>
+
+      <div className="bg-white rounded-lg shadow-sm border border-gray-200 overflow-hidden">
+        {loading ? (
+          <div className="flex items-center justify-center py-8">
+            <div className="animate-spin rounded-full h-8 w-8 border-b-2 border-blue-600"></div>
+          </div>
+        ) : logs.length === 0 ? (
+          <div className="text-center py-12">
+            <h3 className="text-lg font-medium text-gray-900 mb-2">No messages found</h3>
+            <p className="text-gray-500">Message logs will appear here once you start sending follow-ups.</p>
+          </div>
+        ) : (
+          <div className="overflow-x-auto">
+            <table className="min-w-full divide-y divide-gray-200">
+              <thead className="bg-gray-50">
+                <tr>
+                  <th className="px-4 py-3 text-left">
+                    <input
+                      type="checkbox"
+                      title="Select failed messages on this page"
+                      checked={allFailedSelected}
+                      disabled={failedOnPage.length === 0}
+                      onChange={() => setSelectedLogIds(allFailedSelected
+                        ? selectedLogIds.filter(id => !failedOnPage.some(log => log.id === id))
+                        : Array.from(new Set([...selectedLogIds, ...failedOnPage.map(log => log.id)])))}
+                      className="h-4 w-4 text-blue-600 focus:ring-blue-500 border-gray-300 rounded"
+                    />
+                  </th>
+                  <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">
+                    Recipient
+                  </th>
+                  <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">
+                    Campaign
+                  </th>
+                  <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">
+                    Type
+                  </th>
+                  <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">
+                    Status
+                  </th>
+                  <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">
+                    Sent At
+                  </th>
+                </tr>
+              </thead>
+              <tbody className="bg-white divide-y divide-gray-200">
+                {logs.map((log) => (
+                  <tr
+                    key={log.id}
+                    onClick={() => setDetailLogId(log.id)}
+                    className="hover:bg-gray-50 cursor-pointer"
+                  >
+                    <td className="px-4 py-4" onClick={event => event.stopPropagation()}>
+                      <input
+                        type="checkbox"
+                        checked={selectedLogIds.includes(log.id)}
+                        disabled={log.status !== 'failed'}
+                        onChange={() => toggleLogSelection(log.id)}
+                        className="h-4 w-4 text-blue-600 focus:ring-blue-500 border-gray-300 rounded"
+                      />
+                    </td>
+                    <td className="px-6 py-4 whitespace-nowrap">
+                      <div className="text-sm font-medium text-gray-900">{log.visitors?.name || 'Unknown'}</div>
+                      <div className="text-sm text-gray-500">{log.recipient_email || log.recipient_phone}</div>
+                    </td>
+                    <td className="px-6 py-4 whitespace-nowrap">
+                      <div className="text-sm text-gray-900">{log.follow_up_campaigns?.name || 'Deleted campaign'}</div>
+                      <div className="text-sm text-gray-500">{log.properties?.name || 'Unknown property'}</div>
+                    </td>
+                    <td className="px-6 py-4 whitespace-nowrap">
+                      <span className="inline-flex items-center px-2 py-1 rounded-full text-xs font-medium bg-blue-100 text-blue-800">
+                        {log.message_type.toUpperCase()}
+                      </span>
+                    </td>
+                    <td className="px-6 py-4">
+                      <span className={`inline-flex items-center px-2 py-1 rounded-full text-xs font-medium border ${statusBadge[log.status] || statusBadge.pending}`}>
+                        {log.status}
+                      </span>
+                      {log.error_message && (
+                        <div className="text-xs text-red-600 mt-1 max-w-xs truncate" title={log.error_message}>
+                          {log.error_message}
+                        </div>
+                      )}
+                    </td>
+                    <td className="px-6 py-4 whitespace-nowrap text-sm text-gray-500">
+                      {new Date(log.sent_at).toLocaleString()}
+                    </td>
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          </div>
+        )}
+      </div>
+
+      {total > PAGE_SIZE && (
+        <div className="flex items-center justify-between">
+          <button
+            onClick={() => setPage(page - 1)}
+            disabled={page === 1 || loading}
+            className="px-4 py-2 text-sm font-medium text-gray-700 bg-gray-100 hover:bg-gray-200 disabled:opacity-50 rounded-md transition-colors"
+          >
+            ← Previous
+          </button>
+          <span className="text-sm text-gray-600">Page {page} of {pageCount}</span>
+          <button
+            onClick={() => setPage(page + 1)}
+            disabled={page >= pageCount || loading}
+            className="px-4 py-2 text-sm font-medium text-gray-700 bg-gray-100 hover:bg-gray-200 disabled:opacity-50 rounded-md transition-colors"
+          >
+            Next →
+          </button>
+        </div>
+      )}
+
+      {detailLogId && (
+        <LogDetailDrawer
+          logId={detailLogId}
+          onClose={() => setDetailLogId(null)}
+          onRetry={logId => retryLogs([logId])}
+        />
+      )}
+    </div>
+  )
+}
@@ -9,8 +9,22 @@ import {
   campaignSchemaWithConditionals, 
   type CampaignFormDataWithConditionals,
   AVAILABLE_TEMPLATE_VARIABLES,
-  TEMPLATE_VARIABLE_DESCRIPTIONS
+  TEMPLATE_VARIABLE_DESCRIPTIONS,
+  extractTemplateVariables,
+  getSequenceMessageType,
+  type BulkActionFormData
 } from '@/lib/follow-up-validations'
+import { PIPELINE_STAGES, PIPELINE_STAGE_LABELS, type PipelineStage, type TeamRole } from '@/lib/validations'
+import type { BulkActionOutcome } from '@/lib/follow-up-bulk-actions'
+import TemplateManagement, { type EmailTemplate, type SMSTemplate, type TemplateKind } from './TemplateManagement'
+import CampaignPreview from './CampaignPreview'
+import SequenceStepsEditor, { formatStepDelay } from './SequenceStepsEditor'
+import SequenceProgress, { type CampaignStep } from './SequenceProgress'
+import MessagingSettings from './MessagingSettings'
+import SendProgress from './SendProgress'
+import CampaignAnalytics from './CampaignAnalytics'
+import BulkActionReport from './BulkActionReport'
+import FollowUpLogExplorer from './FollowUpLogExplorer'
 
 interface Campaign {
   id: string
@@ -25,7 +39,15 @@ interface Campaign {
   email_template?: string
   email_from_name: string
   sms_template?: string
+  email_template_id?: string | null
+  sms_template_id?: string | null
+  exit_conditions?: string[]
+  tracking_enabled?: boolean
+  include_stages?: string[]
+  exclude_stages?: string[]
+  campaign_steps?: CampaignStep[]
   status: string
+  approved_at?: string | null
   created_at: string
   updated_at: string
 }
@@ -36,19 +58,6 @@ interface Property {
   address: string
 }
 
-interface FollowUpLog {
-  id: string
-  visitor_name: string
-  visitor_email?: string
-  visitor_phone?: string
-  property_name: string
-  message_type: string
-  status: string
-  sent_at: string
-  delivered_at?: string
-  error_message?: string
-}
-
 interface VisitorData {
   visitor_id: string
   visitor_name: string
@@ -61,22 +70,38 @@ interface VisitorData {
   has_feedback: boolean
 }
 
-export default function FollowUpManagement() {
+interface FollowUpManagementProps {
+  teamRole: TeamRole
+}
+
+export default function FollowUpManagement({ teamRole }: FollowUpManagementProps) {
   const [campaigns, setCampaigns] = useState<Campaign[]>([])
   const [properties, setProperties] = useState<Property[]>([])
-  const [followUpLogs, setFollowUpLogs] = useState<FollowUpLog[]>([])
   const [eligibleVisitors, setEligibleVisitors] = useState<VisitorData[]>([])
+  const [emailTemplates, setEmailTemplates] = useState<EmailTemplate[]>([])
+  const [smsTemplates, setSMSTemplates] = useState<SMSTemplate[]>([])
   const [loading, setLoading] = useState(true)
   const [showCampaignForm, setShowCampaignForm] = useState(false)
   const [editingCampaign, setEditingCampaign] = useState<Campaign | null>(null)
   const [showSendModal, setShowSendModal] = useState<Campaign | null>(null)
   const [selectedVisitors, setSelectedVisitors] = useState<string[]>([])
   const [sending, setSending] = useState(false)
-  const [activeTab, setActiveTab] = useState<'campaigns' | 'logs' | 'templates'>('campaigns')
+  const [activeTab, setActiveTab] = useState<'campaigns' | 'analytics' | 'logs' | 'templates' | 'settings'>('campaigns')
   const [showVariableHelper] = useState(false)
+  const [showPreview, setShowPreview] = useState(false)
+  const [previewStepIndex, setPreviewStepIndex] = useState(0)
+  const [progressCampaign, setProgressCampaign] = useState<Campaign | null>(null)
+  const [sendBatch, setSendBatch] = useState<{ batchId: string; campaignName: string } | null>(null)
+  const [analyticsCampaignId, setAnalyticsCampaignId] = useState<string | null>(null)
+  const [selectedCampaignIds, setSelectedCampaignIds] = useState<string[]>([])
+  const [runningBulkAction, setRunningBulkAction] = useState(false)
+  const [bulkReport, setBulkReport] = useState<{ action: BulkActionFormData['action']; results: BulkActionOutcome[] } | null>(null)
   
   const supabase = createClientComponentClient()
 
+  // Assistants can send approved campaigns but not change any
+  const canManage = teamRole !== 'assistant'
+
   const campaignForm = useForm<CampaignFormDataWithConditionals>({
     resolver: zodResolver(campaignSchemaWithConditionals),
     defaultValues: {
@@ -85,7 +110,10 @@ export default function FollowUpManagement() {
       trigger_condition: 'manual',
       delay_hours: 24,
       email_from_name: 'Open House Team',
+      email_template_id: '',
+      sms_template_id: '',
       status: 'active',
+      tracking_enabled: true,
     }
   })
 
@@ -102,6 +130,17 @@ export default function FollowUpManagement() {
           *,
           properties (
             name
+          ),
+          campaign_steps (
+            id,
+            step_order,
+            message_type,
+            delay_hours,
+            email_subject,
+            email_template,
+            email_template_id,
+            sms_template,
+            sms_template_id
           )
         `)
         .order('created_at', { ascending: false })
@@ -117,48 +156,29 @@ export default function FollowUpManagement() {
 
       if (propertiesError) throw propertiesError
 
-      // Fetch recent follow-up logs
-      const { data: logsData, error: logsError } = await supabase
-        .from('follow_up_logs')
-        .select(`
-          id,
-          visitor_id,
-          message_type,
-          status,
-          sent_at,
-          delivered_at,
-          error_message,
-          visitors (
-            name,
-            email,
-            phone
-          ),
-          properties (
-            name
-          )
-        `)
-        .order('sent_at', { ascending: false })
-        .limit(50)
+      // Fetch saved templates (own and shared defaults)
+      const { data: emailTemplatesData, error: emailTemplatesError } = await supabase
+        .from('email_templates')
+        .select('id, name, description, subject, html_content, text_content, admin_id, updated_at')
+        .order('name')
 
-      if (logsError) throw logsError
+      if (emailTemplatesError) throw emailTemplatesError
+
+      const { data: smsTemplatesData, error: smsTemplatesError } = await supabase
+        .from('sms_templates')
+        .select('id, name, description, content, admin_id, updated_at')
+        .order('name')
+
+      if (smsTemplatesError) throw smsTemplatesError
 
       setCampaigns(campaignsData?.map(c => ({
         ...c,
-        property_name: c.properties?.name
+        property_name: c.properties?.name,
+        campaign_steps: [...(c.campaign_steps || [])].sort((a, b) => a.step_order - b.step_order),
       })) || [])
       setProperties(propertiesData || [])
-      setFollowUpLogs(logsData?.map((log: any) => ({
-        id: log.id,
-        visitor_name: log.visitors?.name || 'Unknown',
-        visitor_email: log.visitors?.email,
-        visitor_phone: log.visitors?.phone,
-        property_name: log.properties?.name || 'Unknown',
-        message_type: log.message_type,
-        status: log.status,
-        sent_at: log.sent_at,
-        delivered_at: log.delivered_at,
-        error_message: log.error_message,
-      })) || [])
+      setEmailTemplates(emailTemplatesData || [])
+      setSMSTemplates(smsTemplatesData || [])
     } catch (error) {
       console.error('Error fetching data:', error)
       toast.error('Failed to load follow-up data')
@@ -195,26 +215,59 @@ export default function FollowUpManagement() {
 
       if (adminError || !adminData) throw new Error('Admin not found')
 
+      const { steps, exit_conditions, ...campaignData } = data
+
+      // A campaign that uses a saved template references it rather than
+      // keeping its own copy of the content. A sequence's message type covers
+      // the channels its steps use, so eligibility checks the right contact.
+      const payload = {
+        ...campaignData,
+        email_template_id: campaignData.email_template_id || null,
+        sms_template_id: campaignData.sms_template_id || null,
+        ...(campaignData.email_template_id && { email_subject: null, email_template: null }),
+        ...(campaignData.sms_template_id && { sms_template: null }),
+        ...(steps && {
+          message_type: getSequenceMessageType(steps),
+          exit_conditions: exit_conditions || [],
+        }),
+      }
+
+      let campaignId = editingCampaign?.id
+
       if (editingCampaign) {
         const { error } = await supabase
           .from('follow_up_campaigns')
-          .update(data)
+          .update(payload)
           .eq('id', editingCampaign.id)
 
         if (error) throw error
-        toast.success('Campaign updated successfully!')
       } else {
-        const { error } = await supabase
+        const { data: created, error } = await supabase
           .from('follow_up_campaigns')
           .insert([{
-            ...data,
+            ...payload,
             admin_id: adminData.id
           }])
+          .select('id')
+          .single()
 
         if (error) throw error
-        toast.success('Campaign created successfully!')
+        campaignId = created.id
       }
 
+      // Turning a sequence back into a single message clears its steps
+      if (steps || editingCampaign?.campaign_steps?.length) {
+        const { error } = await supabase
+          .rpc('save_campaign_steps', {
+            campaign_id_param: campaignId,
+            steps_param: steps || [],
+          })
+
+        if (error) throw error
+      }
+
+      toast.success(editingCampaign ? 'Campaign updated successfully!' : 'Campaign created successfully!')
+
       setShowCampaignForm(false)
       setEditingCampaign(null)
       campaignForm.reset()
@@ -238,11 +291,145 @@ export default function FollowUpManagement() {
       email_template: campaign.email_template || '',
       email_from_name: campaign.email_from_name,
       sms_template: campaign.sms_template || '',
+      email_template_id: campaign.email_template_id || '',
+      sms_template_id: campaign.sms_template_id || '',
       status: campaign.status as any,
+      tracking_enabled: campaign.tracking_enabled !== false,
+      include_stages: (campaign.include_stages || []) as PipelineStage[],
+      exclude_stages: (campaign.exclude_stages || []) as PipelineStage[],
+      ...(campaign.campaign_steps?.length && {
+        steps: campaign.campaign_steps.map(step => ({
+          id: step.id,
+          message_type: step.message_type,
+          delay_hours: step.delay_hours,
+          email_subject: step.email_subject || '',
+          email_template: step.email_template || '',
+          email_template_id: step.email_template_id || '',
+          sms_template: step.sms_template || '',
+          sms_template_id: step.sms_template_id || '',
+        })),
+        exit_conditions: campaign.exit_conditions as CampaignFormDataWithConditionals['exit_conditions'],
+      }),
+    })
+    setPreviewStepIndex(0)
+    setShowCampaignForm(true)
+  }
+
+  // A stage can be included or excluded, not both
+  const togglePipelineStage = (field: 'include_stages' | 'exclude_stages', stage: PipelineStage) => {
+    const otherField = field === 'include_stages' ? 'exclude_stages' : 'include_stages'
+    const selected = campaignForm.getValues(field) || []
+
+    if (selected.includes(stage)) {
+      campaignForm.setValue(field, selected.filter(s => s !== stage))
+    } else {
+      campaignForm.setValue(field, [...selected, stage])
+      campaignForm.setValue(otherField, (campaignForm.getValues(otherField) || []).filter(s => s !== stage))
+    }
+  }
+
+  // Switching to a sequence starts it with the message already written
+  const handleToggleSequence = (sequence: boolean) => {
+    if (!sequence) {
+      campaignForm.setValue('steps', undefined)
+      return
+    }
+
+    const values = campaignForm.getValues()
+    const messageType = values.message_type === 'sms' ? 'sms' : 'email'
+    campaignForm.setValue('steps', [{
+      message_type: messageType,
+      delay_hours: values.delay_hours || 0,
+      email_subject: values.email_subject || '',
+      email_template: values.email_template || '',
+      email_template_id: values.email_template_id || '',
+      sms_template: values.sms_template || '',
+      sms_template_id: values.sms_template_id || '',
+    }])
+    campaignForm.setValue('exit_conditions', ['feedback_submitted', 'unsubscribed', 'made_offer'])
+    setPreviewStepIndex(0)
+  }
+
+  const handleStartCampaignFromTemplate = (kind: TemplateKind, templateId: string) => {
+    const template = kind === 'email'
+      ? emailTemplates.find(t => t.id === templateId)
+      : smsTemplates.find(t => t.id === templateId)
+
+    setEditingCampaign(null)
+    campaignForm.reset({
+      name: template?.name || '',
+      message_type: kind,
+      trigger_condition: 'manual',
+      delay_hours: 24,
+      email_from_name: 'Open House Team',
+      email_template_id: kind === 'email' ? templateId : '',
+      sms_template_id: kind === 'sms' ? templateId : '',
+      status: 'active',
+      tracking_enabled: true,
     })
+    setActiveTab('campaigns')
     setShowCampaignForm(true)
   }
 
+  // Save the campaign's own content as a new template and switch the
+  // campaign over to referencing it
+  const handleSaveAsTemplate = async (kind: TemplateKind) => {
+    const values = campaignForm.getValues()
+    const content = kind === 'email' ? values.email_template : values.sms_template
+    if (!content || (kind === 'email' && !values.email_subject)) {
+      toast.error(kind === 'email' ? 'Add a subject and message first' : 'Add a message first')
+      return
+    }
+
+    const name = prompt('Template name', values.name || '')
+    if (!name) return
+
+    try {
+      const { data: { user } } = await supabase.auth.getUser()
+      if (!user) throw new Error('Not authenticated')
+
+      const { data: adminData, error: adminError } = await supabase
+        .from('admins')
+        .select('id')
+        .eq('user_id', user.id)
+        .single()
+
+      if (adminError || !adminData) throw new Error('Admin not found')
+
+      const { data: template, error } = kind === 'email'
+        ? await supabase
+          .from('email_templates')
+          .insert([{
+            name,
+            subject: values.email_subject,
+            html_content: content,
+            variables: extractTemplateVariables(`${values.email_subject} ${content}`),
+            admin_id: adminData.id,
+          }])
+          .select('id')
+          .single()
+        : await supabase
+          .from('sms_templates')
+          .insert([{
+            name,
+            content,
+            variables: extractTemplateVariables(content),
+            admin_id: adminData.id,
+          }])
+          .select('id')
+          .single()
+
+      if (error) throw error
+
+      campaignForm.setValue(kind === 'email' ? 'email_template_id' : 'sms_template_id', template.id)
+      toast.success('Template saved!')
+      fetchData()
+    } catch (error: unknown) {
+      console.error('Error saving template:', error)
+      toast.error(error instanceof Error ? error.message : 'Failed to save template')
+    }
+  }
+
   const handleDeleteCampaign = async (campaignId: string) => {
     if (!confirm('Are you sure you want to delete this campaign?')) return
 
@@ -279,16 +466,99 @@ export default function FollowUpManagement() {
     }
   }
 
+  const handleSetApproval = async (campaign: Campaign, approved: boolean) => {
+    try {
+      const { error } = await supabase.rpc('set_campaign_approval', {
+        campaign_id_param: campaign.id,
+        approved,
+      })
+
+      if (error) throw error
+      toast.success(approved ? 'Campaign approved for assistants' : 'Approval withdrawn')
+      fetchData()
+    } catch (error: unknown) {
+      console.error('Error updating campaign approval:', error)
+      toast.error(error instanceof Error ? error.message : 'Failed to update approval')
+    }
+  }
+
+  const toggleCampaignSelection = (campaignId: string) => {
+    setSelectedCampaignIds(selectedCampaignIds.includes(campaignId)
+      ? selectedCampaignIds.filter(id => id !== campaignId)
+      : [...selectedCampaignIds, campaignId])
+  }
+
+  const handleBulkAction = async (action: BulkActionFormData['action']) => {
+    const count = selectedCampaignIds.length
+    if (action === 'delete' && !confirm(`Delete ${count} campaigns? This cannot be undone.`)) return
+    if (action === 'send' && !confirm(`Send ${count} campaigns to all of their eligible visitors? Paused campaigns are skipped.`)) return
+
+    setRunningBulkAction(true)
+    try {
+      const { data: { session } } = await supabase.auth.getSession()
+      if (!session) {
+        throw new Error('Not authenticated')
+      }
+
+      const response = await fetch('/api/follow-up-campaigns/bulk', {
+        method: 'POST',
+        headers: {
+          'Content-Type': 'application/json',
+          'Authorization': `Bearer ${session.access_token}`,
+        },
+        body: JSON.stringify({ action, campaignIds: selectedCampaignIds }),
+      })
+
+      const result = await response.json()
+
+      if (!response.ok) {
+        throw new Error(result.error || 'Failed to run bulk action')
+      }
+
+      setBulkReport(result)
+      setSelectedCampaignIds([])
+      fetchData()
+    } catch (error: unknown) {
+      console.error('Error running bulk action:', error)
+      toast.error(error instanceof Error ? error.message : 'Failed to run bulk action')
+    } finally {
+      setRunningBulkAction(false)
+    }
+  }
+
   const handleSendFollowUp = async (campaign: Campaign) => {
     setShowSendModal(campaign)
     await fetchEligibleVisitors(campaign.id)
   }
 
+  // Sequences don't send from here: the visitors are enrolled and the
+  // scheduler sends each step once it is due
+  const enrollSequenceVisitors = async (campaign: Campaign) => {
+    const visitorIds = selectedVisitors.length > 0 ? selectedVisitors : eligibleVisitors.map(v => v.visitor_id)
+
+    const { error } = await supabase
+      .from('campaign_enrollments')
+      .upsert(
+        visitorIds.map(visitorId => ({ campaign_id: campaign.id, visitor_id: visitorId })),
+        { onConflict: 'campaign_id,visitor_id', ignoreDuplicates: true }
+      )
+
+    if (error) throw error
+    toast.success(`Enrolled ${visitorIds.length} visitors. Steps send as they come due.`)
+  }
+
   const sendFollowUpMessages = async () => {
     if (!showSendModal) return
 
     setSending(true)
     try {
+      if (showSendModal.campaign_steps?.length) {
+        await enrollSequenceVisitors(showSendModal)
+        setShowSendModal(null)
+        setSelectedVisitors([])
+        return
+      }
+
       // Get the current session for authentication
       const { data: { session } } = await supabase.auth.getSession()
       if (!session) {
@@ -313,10 +583,10 @@ export default function FollowUpManagement() {
         throw new Error(result.error || 'Failed to send follow-up messages')
       }
 
-      toast.success(`Successfully sent ${result.sent} messages!`)
-      
-      if (result.failed > 0) {
-        toast.error(`${result.failed} messages failed to send`)
+      if (result.visitors > 0 && result.batchId) {
+        setSendBatch({ batchId: result.batchId, campaignName: showSendModal.name })
+      } else {
+        toast.success(result.message || 'No messages to send')
       }
 
       setShowSendModal(null)
@@ -356,6 +626,34 @@ export default function FollowUpManagement() {
     return statusConfig[status as keyof typeof statusConfig] || statusConfig.pending
   }
 
+  const selectedEmailTemplate = emailTemplates.find(t => t.id === campaignForm.watch('email_template_id'))
+  const selectedSMSTemplate = smsTemplates.find(t => t.id === campaignForm.watch('sms_template_id'))
+
+  const formSteps = campaignForm.watch('steps')
+  const isSequence = formSteps !== undefined
+  const previewStep = formSteps?.[Math.min(previewStepIndex, formSteps.length - 1)]
+  const previewStepEmailTemplate = emailTemplates.find(t => t.id === previewStep?.email_template_id)
+  const previewStepSMSTemplate = smsTemplates.find(t => t.id === previewStep?.sms_template_id)
+
+  const previewContent = isSequence ? {
+    emailSubject: previewStepEmailTemplate ? previewStepEmailTemplate.subject : previewStep?.email_subject,
+    emailHtml: previewStepEmailTemplate ? previewStepEmailTemplate.html_content : previewStep?.email_template,
+    emailText: previewStepEmailTemplate?.text_content,
+    smsContent: previewStepSMSTemplate ? previewStepSMSTemplate.content : previewStep?.sms_template,
+  } : {
+    emailSubject: selectedEmailTemplate ? selectedEmailTemplate.subject : campaignForm.watch('email_subject'),
+    emailHtml: selectedEmailTemplate ? selectedEmailTemplate.html_content : campaignForm.watch('email_template'),
+    emailText: selectedEmailTemplate?.text_content,
+    smsContent: selectedSMSTemplate ? selectedSMSTemplate.content : campaignForm.watch('sms_template'),
+  }
+
+  const togglePreview = () => {
+    if (!showPreview && editingCampaign) {
+      fetchEligibleVisitors(editingCampaign.id)
+    }
+    setShowPreview(!showPreview)
+  }
+
   if (loading) {
     return (
       <div className="flex items-center justify-center py-8">
@@ -372,15 +670,17 @@ export default function FollowUpManagement() {
           <h2 className="text-2xl font-bold text-slate-900">Follow-up Management</h2>
           <p className="text-slate-600 mt-1">Manage email and SMS follow-up campaigns</p>
         </div>
-        <button
-          onClick={() => setShowCampaignForm(true)}
-          className="inline-flex items-center px-4 py-2 bg-blue-600 hover:bg-blue-700 text-white text-sm font-medium rounded-lg transition-colors"
-        >
-          <svg className="w-4 h-4 mr-2" fill="none" stroke="currentColor" viewBox="0 0 24 24">
-            <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M12 6v6m0 0v6m0-6h6m-6 0H6" />
-          </svg>
-          Create Campaign
-        </button>
+        {canManage && (
+          <button
+            onClick={() => setShowCampaignForm(true)}
+            className="inline-flex items-center px-4 py-2 bg-blue-600 hover:bg-blue-700 text-white text-sm font-medium rounded-lg transition-colors"
+          >
+            <svg className="w-4 h-4 mr-2" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+              <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M12 6v6m0 0v6m0-6h6m-6 0H6" />
+            </svg>
+            Create Campaign
+          </button>
+        )}
       </div>
 
       {/* Tabs */}
@@ -396,6 +696,16 @@ export default function FollowUpManagement() {
           >
             Campaigns ({campaigns.length})
           </button>
+          <button
+            onClick={() => setActiveTab('analytics')}
+            className={`py-2 px-1 border-b-2 font-medium text-sm ${
+              activeTab === 'analytics'
+                ? 'border-blue-500 text-blue-600'
+                : 'border-transparent text-gray-500 hover:text-gray-700 hover:border-gray-300'
+            }`}
+          >
+            Analytics
+          </button>
           <button
             onClick={() => setActiveTab('logs')}
             className={`py-2 px-1 border-b-2 font-medium text-sm ${
@@ -404,7 +714,27 @@ export default function FollowUpManagement() {
                 : 'border-transparent text-gray-500 hover:text-gray-700 hover:border-gray-300'
             }`}
           >
-            Message Logs ({followUpLogs.length})
+            Message Logs
+          </button>
+          <button
+            onClick={() => setActiveTab('templates')}
+            className={`py-2 px-1 border-b-2 font-medium text-sm ${
+              activeTab === 'templates'
+                ? 'border-blue-500 text-blue-600'
+                : 'border-transparent text-gray-500 hover:text-gray-700 hover:border-gray-300'
+            }`}
+          >
+            Templates ({emailTemplates.length + smsTemplates.length})
+          </button>
+          <button
+            onClick={() => setActiveTab('settings')}
+            className={`py-2 px-1 border-b-2 font-medium text-sm ${
+              activeTab === 'settings'
+                ? 'border-blue-500 text-blue-600'
+                : 'border-transparent text-gray-500 hover:text-gray-700 hover:border-gray-300'
+            }`}
+          >
+            Settings
           </button>
         </nav>
       </div>
@@ -420,19 +750,69 @@ export default function FollowUpManagement() {
                 </svg>
               </div>
               <h3 className="text-lg font-medium text-gray-900 mb-2">No campaigns yet</h3>
-              <p className="text-gray-500 mb-4">Create your first follow-up campaign to start engaging with visitors.</p>
-              <button
-                onClick={() => setShowCampaignForm(true)}
-                className="inline-flex items-center px-4 py-2 bg-blue-600 hover:bg-blue-700 text-white text-sm font-medium rounded-lg transition-colors"
-              >
-                Create Campaign
-              </button>
+              {canManage ? (
+                <>
+                  <p className="text-gray-500 mb-4">Create your first follow-up campaign to start engaging with visitors.</p>
+                  <button
+                    onClick={() => setShowCampaignForm(true)}
+                    className="inline-flex items-center px-4 py-2 bg-blue-600 hover:bg-blue-700 text-white text-sm font-medium rounded-lg transition-colors"
+                  >
+                    Create Campaign
+                  </button>
+                </>
+              ) : (
+                <p className="text-gray-500 mb-4">Campaigns your team creates will appear here.</p>
+              )}
             </div>
           ) : (
+            <>
+            <div className="flex flex-wrap items-center justify-between gap-3 bg-white rounded-lg shadow-sm border border-gray-200 px-4 py-3">
+              <label className="flex items-center space-x-2 text-sm text-gray-700">
+                <input
+                  type="checkbox"
+                  checked={selectedCampaignIds.length === campaigns.length}
+                  onChange={(e) => setSelectedCampaignIds(e.target.checked ? campaigns.map(c => c.id) : [])}
+                  className="h-4 w-4 text-blue-600 border-gray-300 rounded"
+                />
+                <span>{selectedCampaignIds.length > 0 ? `${selectedCampaignIds.length} selected` : 'Select all'}</span>
+              </label>
+              {selectedCampaignIds.length > 0 && (
+                <div className="flex space-x-2">
+                  {([
+                    { action: 'send', label: 'Send', className: 'bg-green-600 hover:bg-green-700' },
+                    { action: 'activate', label: 'Activate', className: 'bg-blue-600 hover:bg-blue-700' },
+                    { action: 'pause', label: 'Pause', className: 'bg-yellow-600 hover:bg-yellow-700' },
+                    { action: 'delete', label: 'Delete', className: 'bg-red-600 hover:bg-red-700' },
+                  ] as const).filter(button => canManage || button.action === 'send').map(button => (
+                    <button
+                      key={button.action}
+                      onClick={() => handleBulkAction(button.action)}
+                      disabled={runningBulkAction}
+                      className={`${button.className} disabled:bg-gray-300 text-white text-sm py-1.5 px-3 rounded-md transition-colors`}
+                    >
+                      {button.label}
+                    </button>
+                  ))}
+                </div>
+              )}
+            </div>
+
             <div className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-3 gap-6">
               {campaigns.map((campaign) => (
-                <div key={campaign.id} className="bg-white rounded-lg shadow-sm border border-gray-200 p-6">
+                <div
+                  key={campaign.id}
+                  className={`bg-white rounded-lg shadow-sm border p-6 ${
+                    selectedCampaignIds.includes(campaign.id) ? 'border-blue-500 ring-1 ring-blue-500' : 'border-gray-200'
+                  }`}
+                >
                   <div className="flex justify-between items-start mb-4">
+                    <input
+                      type="checkbox"
+                      checked={selectedCampaignIds.includes(campaign.id)}
+                      onChange={() => toggleCampaignSelection(campaign.id)}
+                      aria-label={`Select ${campaign.name}`}
+                      className="mt-1.5 mr-3 h-4 w-4 text-blue-600 border-gray-300 rounded"
+                    />
                     <div className="flex-1">
                       <h3 className="text-lg font-semibold text-gray-900 mb-1">{campaign.name}</h3>
                       {campaign.description && (
@@ -442,9 +822,19 @@ export default function FollowUpManagement() {
                         {campaign.property_name || 'All properties'}
                       </p>
                     </div>
-                    <span className={`inline-flex items-center px-2 py-1 rounded-full text-xs font-medium border ${getStatusBadge(campaign.status)}`}>
-                      {campaign.status}
-                    </span>
+                    <div className="flex flex-col items-end space-y-1">
+                      <span className={`inline-flex items-center px-2 py-1 rounded-full text-xs font-medium border ${getStatusBadge(campaign.status)}`}>
+                        {campaign.status}
+                      </span>
+                      {campaign.approved_at && (
+                        <span
+                          className="inline-flex items-center px-2 py-1 rounded-full text-xs font-medium border bg-indigo-100 text-indigo-800 border-indigo-200"
+                          title={`Approved ${new Date(campaign.approved_at).toLocaleDateString()}`}
+                        >
+                          approved
+                        </span>
+                      )}
+                    </div>
                   </div>
 
                   <div className="space-y-2 mb-4">
@@ -458,127 +848,131 @@ export default function FollowUpManagement() {
                       <svg className="w-4 h-4 mr-2" fill="none" stroke="currentColor" viewBox="0 0 24 24">
                         <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M12 8v4l3 3m6-3a9 9 0 11-18 0 9 9 0 0118 0z" />
                       </svg>
-                      {campaign.trigger_condition.replace('_', ' ')} • {campaign.delay_hours}h delay
+                      {campaign.campaign_steps?.length
+                        ? `${campaign.trigger_condition === 'manual' ? 'manual enrollment' : `auto-enrolls ${campaign.trigger_condition.replace('_', ' ')}`} • ${campaign.campaign_steps.length}-step sequence`
+                        : campaign.trigger_condition === 'manual'
+                          ? 'manual send'
+                          : `${campaign.trigger_condition.replace('_', ' ')} • auto-sends ${campaign.delay_hours}h after visit`}
                     </div>
+                    {!!campaign.campaign_steps?.length && (
+                      <ol className="ml-6 text-xs text-gray-500 list-decimal list-inside">
+                        {campaign.campaign_steps.map(step => (
+                          <li key={step.id}>{step.message_type.toUpperCase()} • {formatStepDelay(step.delay_hours)}</li>
+                        ))}
+                      </ol>
+                    )}
+                    {(campaign.email_template_id || campaign.sms_template_id) && (
+                      <div className="flex items-center text-sm text-gray-600">
+                        <svg className="w-4 h-4 mr-2" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+                          <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M9 12h6m-6 4h6m2 5H7a2 2 0 01-2-2V5a2 2 0 012-2h5.586a1 1 0 01.707.293l5.414 5.414a1 1 0 01.293.707V19a2 2 0 01-2 2z" />
+                        </svg>
+                        {[
+                          emailTemplates.find(t => t.id === campaign.email_template_id)?.name,
+                          smsTemplates.find(t => t.id === campaign.sms_template_id)?.name,
+                        ].filter(Boolean).join(' • ')}
+                      </div>
+                    )}
+                    <button
+                      onClick={() => {
+                        setAnalyticsCampaignId(campaign.id)
+                        setActiveTab('analytics')
+                      }}
+                      className="text-sm font-medium text-blue-600 hover:text-blue-800"
+                    >
+                      View analytics →
+                    </button>
+                    {canManage && (
+                      <button
+                        onClick={() => handleSetApproval(campaign, !campaign.approved_at)}
+                        className="block text-sm font-medium text-blue-600 hover:text-blue-800"
+                      >
+                        {campaign.approved_at ? 'Withdraw approval →' : 'Approve for assistants →'}
+                      </button>
+                    )}
                   </div>
 
                   <div className="flex space-x-2">
                     <button
                       onClick={() => handleSendFollowUp(campaign)}
-                      disabled={campaign.status !== 'active'}
+                      disabled={campaign.status !== 'active' || (!canManage && !campaign.approved_at)}
+                      title={!canManage && !campaign.approved_at ? 'Needs approval before you can send it' : undefined}
                       className="flex-1 bg-green-600 hover:bg-green-700 disabled:bg-gray-300 text-white text-sm py-2 px-3 rounded-md transition-colors"
                     >
-                      Send
-                    </button>
-                    <button
-                      onClick={() => handleEditCampaign(campaign)}
-                      className="flex-1 bg-blue-600 hover:bg-blue-700 text-white text-sm py-2 px-3 rounded-md transition-colors"
-                    >
-                      Edit
-                    </button>
-                    <button
-                      onClick={() => handleToggleCampaignStatus(campaign)}
-                      className={`flex-1 text-sm py-2 px-3 rounded-md transition-colors ${
-                        campaign.status === 'active'
-                          ? 'bg-yellow-600 hover:bg-yellow-700 text-white'
-                          : 'bg-green-600 hover:bg-green-700 text-white'
-                      }`}
-                    >
-                      {campaign.status === 'active' ? 'Pause' : 'Activate'}
-                    </button>
-                    <button
-                      onClick={() => handleDeleteCampaign(campaign.id)}
-                      className="bg-red-600 hover:bg-red-700 text-white text-sm py-2 px-3 rounded-md transition-colors"
-                    >
-                      <svg className="w-4 h-4" fill="none" stroke="currentColor" viewBox="0 0 24 24">
-                        <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M19 7l-.867 12.142A2 2 0 0116.138 21H7.862a2 2 0 01-1.995-1.858L5 7m5 4v6m4-6v6m1-10V4a1 1 0 00-1-1h-4a1 1 0 00-1 1v3M4 7h16" />
-                      </svg>
+                      {campaign.campaign_steps?.length ? 'Enroll' : 'Send'}
                     </button>
+                    {!!campaign.campaign_steps?.length && (
+                      <button
+                        onClick={() => setProgressCampaign(campaign)}
+                        className="flex-1 bg-indigo-600 hover:bg-indigo-700 text-white text-sm py-2 px-3 rounded-md transition-colors"
+                      >
+                        Progress
+                      </button>
+                    )}
+                    {canManage && (
+                      <>
+                        <button
+                          onClick={() => handleEditCampaign(campaign)}
+                          className="flex-1 bg-blue-600 hover:bg-blue-700 text-white text-sm py-2 px-3 rounded-md transition-colors"
+                        >
+                          Edit
+                        </button>
+                        <button
+                          onClick={() => handleToggleCampaignStatus(campaign)}
+                          className={`flex-1 text-sm py-2 px-3 rounded-md transition-colors ${
+                            campaign.status === 'active'
+                              ? 'bg-yellow-600 hover:bg-yellow-700 text-white'
+                              : 'bg-green-600 hover:bg-green-700 text-white'
+                          }`}
+                        >
+                          {campaign.status === 'active' ? 'Pause' : 'Activate'}
+                        </button>
+                        <button
+                          onClick={() => handleDeleteCampaign(campaign.id)}
+                          className="bg-red-600 hover:bg-red-700 text-white text-sm py-2 px-3 rounded-md transition-colors"
+                        >
+                          <svg className="w-4 h-4" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+                            <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M19 7l-.867 12.142A2 2 0 0116.138 21H7.862a2 2 0 01-1.995-1.858L5 7m5 4v6m4-6v6m1-10V4a1 1 0 00-1-1h-4a1 1 0 00-1 1v3M4 7h16" />
+                          </svg>
+                        </button>
+                      </>
+                    )}
                   </div>
                 </div>
               ))}
             </div>
+            </>
           )}
         </div>
       )}
 
+      {/* Analytics Tab */}
+      {activeTab === 'analytics' && (
+        <CampaignAnalytics
+          properties={properties}
+          selectedCampaignId={analyticsCampaignId}
+          onSelectCampaign={setAnalyticsCampaignId}
+        />
+      )}
+
       {/* Message Logs Tab */}
       {activeTab === 'logs' && (
-        <div className="bg-white rounded-lg shadow-sm border border-gray-200 overflow-hidden">
-          <div className="overflow-x-auto">
-            <table className="min-w-full divide-y divide-gray-200">
-              <thead className="bg-gray-50">
-                <tr>
-                  <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">
-                    Visitor
-                  </th>
-                  <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">
-                    Property
-                  </th>
-                  <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">
-                    Type
-                  </th>
-                  <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">
-                    Status
-                  </th>
-                  <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">
-                    Sent At
-                  </th>
-                  <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">
-                    Delivered At
-                  </th>
-                </tr>
-              </thead>
-              <tbody className="bg-white divide-y divide-gray-200">
-                {followUpLogs.map((log) => (
-                  <tr key={log.id} className="hover:bg-gray-50">
-                    <td className="px-6 py-4 whitespace-nowrap">
-                      <div>
-                        <div className="text-sm font-medium text-gray-900">{log.visitor_name}</div>
-                        <div className="text-sm text-gray-500">
-                          {log.visitor_email || log.visitor_phone}
-                        </div>
-                      </div>
-                    </td>
-                    <td className="px-6 py-4 whitespace-nowrap text-sm text-gray-900">
-                      {log.property_name}
-                    </td>
-                    <td className="px-6 py-4 whitespace-nowrap">
-                      <span className="inline-flex items-center px-2 py-1 rounded-full text-xs font-medium bg-blue-100 text-blue-800">
-                        {log.message_type.toUpperCase()}
-                      </span>
-                    </td>
-                    <td className="px-6 py-4 whitespace-nowrap">
-                      <span className={`inline-flex items-center px-2 py-1 rounded-full text-xs font-medium border ${getStatusBadge(log.status)}`}>
-                        {log.status}
-                      </span>
-                    </td>
-                    <td className="px-6 py-4 whitespace-nowrap text-sm text-gray-500">
-                      {formatDateTime(log.sent_at)}
-                    </td>
-                    <td className="px-6 py-4 whitespace-nowrap text-sm text-gray-500">
-                      {log.delivered_at ? formatDateTime(log.delivered_at) : '-'}
-                    </td>
-                  </tr>
-                ))}
-              </tbody>
-            </table>
-          </div>
-          
-          {followUpLogs.length === 0 && (
-            <div className="text-center py-12">
-              <div className="w-16 h-16 bg-gray-100 rounded-full flex items-center justify-center mx-auto mb-4">
-                <svg className="w-8 h-8 text-gray-400" fill="none" stroke="currentColor" viewBox="0 0 24 24">
-                  <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M9 5H7a2 2 0 00-2 2v10a2 2 0 002 2h8a2 2 0 002-2V7a2 2 0 00-2-2h-2M9 5a2 2 0 002 2h2a2 2 0 002-2M9 5a2 2 0 012-2h2a2 2 0 012 2" />
-                </svg>
-              </div>
-              <h3 className="text-lg font-medium text-gray-900 mb-2">No messages sent yet</h3>
-              <p className="text-gray-500">Message logs will appear here once you start sending follow-ups.</p>
-            </div>
-          )}
-        </div>
+        <FollowUpLogExplorer campaigns={campaigns} properties={properties} />
+      )}
+
+      {/* Templates Tab */}
+      {activeTab === 'templates' && (
+        <TemplateManagement
+          emailTemplates={emailTemplates}
+          smsTemplates={smsTemplates}
+          campaigns={campaigns}
+          onTemplatesChanged={fetchData}
+          onStartCampaign={handleStartCampaignFromTemplate}
+        />
       )}
 
+      {/* Settings Tab */}
+      {activeTab === 'settings' && <MessagingSettings />}
+
       {/* Optimized Campaign Form Modal - No Scrolling Issues */}
       {showCampaignForm && (
         <div className="fixed inset-0 bg-black bg-opacity-50 z-50 flex items-start justify-center p-4 overflow-y-auto">
@@ -588,22 +982,31 @@ export default function FollowUpManagement() {
               <h3 className="text-xl font-bold text-gray-900">
                 {editingCampaign ? 'Edit Campaign' : 'Create New Campaign'}
               </h3>
-              <button
-                onClick={() => {
-                  setShowCampaignForm(false)
-                  setEditingCampaign(null)
-                  campaignForm.reset()
-                }}
-                className="text-gray-400 hover:text-gray-600 p-1 rounded-lg hover:bg-gray-100"
-              >
-                <svg className="w-6 h-6" fill="none" stroke="currentColor" viewBox="0 0 24 24">
-                  <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M6 18L18 6M6 6l12 12" />
-                </svg>
-              </button>
+              <div className="flex items-center space-x-3">
+                <button
+                  type="button"
+                  onClick={togglePreview}
+                  className="px-3 py-1.5 text-sm font-medium text-blue-700 bg-blue-50 hover:bg-blue-100 rounded-md transition-colors"
+                >
+                  {showPreview ? 'Hide Preview' : 'Preview'}
+                </button>
+                <button
+                  onClick={() => {
+                    setShowCampaignForm(false)
+                    setEditingCampaign(null)
+                    campaignForm.reset()
+                  }}
+                  className="text-gray-400 hover:text-gray-600 p-1 rounded-lg hover:bg-gray-100"
+                >
+                  <svg className="w-6 h-6" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+                    <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M6 18L18 6M6 6l12 12" />
+                  </svg>
+                </button>
+              </div>
             </div>
 
-            {/* Form Content */}
-            <div className="p-6">
+            {/* Form Content, with the live preview alongside when open */}
+            <div className={`p-6 ${showPreview ? 'grid grid-cols-1 lg:grid-cols-2 gap-6' : ''}`}>
               <form onSubmit={campaignForm.handleSubmit(onSubmitCampaign)} className="space-y-6">
                 {/* Basic Info - 2 Column Layout */}
                 <div className="grid grid-cols-1 lg:grid-cols-2 gap-6">
@@ -645,8 +1048,31 @@ export default function FollowUpManagement() {
                   />
                 </div>
 
+                {/* Single message or drip sequence */}
+                <div className="flex space-x-2">
+                  <button
+                    type="button"
+                    onClick={() => handleToggleSequence(false)}
+                    className={`px-4 py-2 text-sm font-medium rounded-md transition-colors ${
+                      !isSequence ? 'bg-blue-600 text-white' : 'bg-gray-100 text-gray-700 hover:bg-gray-200'
+                    }`}
+                  >
+                    Single message
+                  </button>
+                  <button
+                    type="button"
+                    onClick={() => handleToggleSequence(true)}
+                    className={`px-4 py-2 text-sm font-medium rounded-md transition-colors ${
+                      isSequence ? 'bg-blue-600 text-white' : 'bg-gray-100 text-gray-700 hover:bg-gray-200'
+                    }`}
+                  >
+                    Drip sequence
+                  </button>
+                </div>
+
                 {/* Settings - 3 Column Layout */}
                 <div className="grid grid-cols-1 lg:grid-cols-3 gap-6">
+                  {!isSequence && (
                   <div>
                     <label className="block text-sm font-medium text-gray-700 mb-2">Message Type *</label>
                     <select
@@ -658,6 +1084,7 @@ export default function FollowUpManagement() {
                       <option value="both">Email & SMS</option>
                     </select>
                   </div>
+                  )}
 
                   <div>
                     <label className="block text-sm font-medium text-gray-700 mb-2">Trigger Condition *</label>
@@ -669,9 +1096,28 @@ export default function FollowUpManagement() {
                       <option value="interested">Interested Visitors</option>
                       <option value="all">All Visitors</option>
                       <option value="no_feedback">No Feedback</option>
+                      <option value="hot_lead">Hot Leads</option>
+                      <option value="warm_lead">Warm Leads</option>
+                      <option value="cold_lead">Cold Leads</option>
                     </select>
+                    {isSequence && (
+                      <p className="text-xs text-gray-500 mt-1">
+                        Matching visitors are enrolled automatically; manual sequences enroll from the Enroll button.
+                      </p>
+                    )}
                   </div>
 
+                  {isSequence ? (
+                    <div>
+                      <label className="block text-sm font-medium text-gray-700 mb-2">Email From Name</label>
+                      <input
+                        {...campaignForm.register('email_from_name')}
+                        type="text"
+                        className="w-full border border-gray-300 rounded-md px-3 py-2 text-gray-900 bg-white focus:outline-none focus:ring-2 focus:ring-blue-500 focus:border-blue-500"
+                        placeholder="Open House Team"
+                      />
+                    </div>
+                  ) : (
                   <div>
                     <label className="block text-sm font-medium text-gray-700 mb-2">Delay (hours)</label>
                     <input
@@ -682,11 +1128,60 @@ export default function FollowUpManagement() {
                       className="w-full border border-gray-300 rounded-md px-3 py-2 text-gray-900 bg-white focus:outline-none focus:ring-2 focus:ring-blue-500 focus:border-blue-500"
                       placeholder="24"
                     />
+                    <p className="text-xs text-gray-500 mt-1">
+                      Non-manual campaigns send automatically once this many hours have passed since the visit.
+                    </p>
                   </div>
+                  )}
                 </div>
 
+                <label className="flex items-start space-x-2 text-sm text-gray-700">
+                  <input
+                    {...campaignForm.register('tracking_enabled')}
+                    type="checkbox"
+                    className="mt-0.5 h-4 w-4 text-blue-600 border-gray-300 rounded"
+                  />
+                  <span>
+                    Track email opens and link clicks
+                    <span className="block text-xs text-gray-500">Links go through a redirect and each email carries an invisible image. Turn off to send emails exactly as written.</span>
+                  </span>
+                </label>
+
+                <div className="space-y-2">
+                  <p className="text-sm font-medium text-gray-700">Pipeline stages</p>
+                  {(['include_stages', 'exclude_stages'] as const).map(field => (
+                    <div key={field} className="flex flex-wrap items-center gap-x-4 gap-y-2">
+                      <span className="text-sm text-gray-500 w-24">{field === 'include_stages' ? 'Only' : 'Never'}</span>
+                      {PIPELINE_STAGES.map(stage => (
+                        <label key={stage} className="flex items-center space-x-2 text-sm text-gray-700">
+                          <input
+                            type="checkbox"
+                            checked={(campaignForm.watch(field) || []).includes(stage)}
+                            onChange={() => togglePipelineStage(field, stage)}
+                            className="h-4 w-4 text-blue-600 border-gray-300 rounded"
+                          />
+                          <span>{PIPELINE_STAGE_LABELS[stage]}</span>
+                        </label>
+                      ))}
+                    </div>
+                  ))}
+                  <p className="text-xs text-gray-500">Leave &quot;Only&quot; empty to include visitors in any stage.</p>
+                </div>
+
+                {isSequence && (
+                  <SequenceStepsEditor
+                    form={campaignForm}
+                    emailTemplates={emailTemplates}
+                    smsTemplates={smsTemplates}
+                    onPreviewStep={(index) => {
+                      setPreviewStepIndex(index)
+                      if (!showPreview) togglePreview()
+                    }}
+                  />
+                )}
+
                 {/* Email Settings */}
-                {(campaignForm.watch('message_type') === 'email' || campaignForm.watch('message_type') === 'both') && (
+                {!isSequence && (campaignForm.watch('message_type') === 'email' || campaignForm.watch('message_type') === 'both') && (
                   <div className="grid grid-cols-1 lg:grid-cols-2 gap-6 p-4 bg-blue-50 rounded-lg border border-blue-200">
                     <div className="lg:col-span-2">
                       <h4 className="text-lg font-medium text-blue-900 flex items-center mb-4">
@@ -708,29 +1203,63 @@ export default function FollowUpManagement() {
                     </div>
 
                     <div>
-                      <label className="block text-sm font-medium text-gray-700 mb-2">Subject *</label>
-                      <input
-                        {...campaignForm.register('email_subject')}
-                        type="text"
+                      <label className="block text-sm font-medium text-gray-700 mb-2">Saved Template</label>
+                      <select
+                        {...campaignForm.register('email_template_id')}
                         className="w-full border border-gray-300 rounded-md px-3 py-2 text-gray-900 bg-white focus:outline-none focus:ring-2 focus:ring-blue-500 focus:border-blue-500"
-                        placeholder="Thank you for visiting {{property_name}}!"
-                      />
+                      >
+                        <option value="">Custom message</option>
+                        {emailTemplates.map(template => (
+                          <option key={template.id} value={template.id}>{template.name}</option>
+                        ))}
+                      </select>
                     </div>
 
-                    <div className="lg:col-span-2">
-                      <label className="block text-sm font-medium text-gray-700 mb-2">Email Template *</label>
-                      <textarea
-                        {...campaignForm.register('email_template')}
-                        rows={6}
-                        className="w-full border border-gray-300 rounded-md px-3 py-2 text-gray-900 bg-white focus:outline-none focus:ring-2 focus:ring-blue-500 focus:border-blue-500"
-                        placeholder="Hi {{visitor_name}},&#10;&#10;Thank you for visiting {{property_name}} today! We hope you enjoyed exploring the property.&#10;&#10;Best regards,&#10;{{admin_name}}"
-                      />
-                    </div>
+                    {selectedEmailTemplate ? (
+                      <div className="lg:col-span-2 p-3 bg-white rounded-md border border-blue-100">
+                        <p className="text-sm font-medium text-gray-900 mb-2">{selectedEmailTemplate.subject}</p>
+                        <p className="text-sm text-gray-600 whitespace-pre-wrap line-clamp-6">
+                          {selectedEmailTemplate.text_content || selectedEmailTemplate.html_content.replace(/<[^>]*>/g, ' ')}
+                        </p>
+                        <p className="text-xs text-gray-500 mt-2">Edit this template from the Templates tab. Changes apply to every campaign that uses it.</p>
+                      </div>
+                    ) : (
+                      <>
+                        <div className="lg:col-span-2">
+                          <label className="block text-sm font-medium text-gray-700 mb-2">Subject *</label>
+                          <input
+                            {...campaignForm.register('email_subject')}
+                            type="text"
+                            className="w-full border border-gray-300 rounded-md px-3 py-2 text-gray-900 bg-white focus:outline-none focus:ring-2 focus:ring-blue-500 focus:border-blue-500"
+                            placeholder="Thank you for visiting {{property_name}}!"
+                          />
+                        </div>
+
+                        <div className="lg:col-span-2">
+                          <div className="flex justify-between items-center mb-2">
+                            <label className="block text-sm font-medium text-gray-700">Email Template *</label>
+                            <button
+                              type="button"
+                              onClick={() => handleSaveAsTemplate('email')}
+                              className="text-xs font-medium text-blue-600 hover:text-blue-800"
+                            >
+                              Save as template
+                            </button>
+                          </div>
+                          <textarea
+                            {...campaignForm.register('email_template')}
+                            rows={6}
+                            className="w-full border border-gray-300 rounded-md px-3 py-2 text-gray-900 bg-white focus:outline-none focus:ring-2 focus:ring-blue-500 focus:border-blue-500"
+                            placeholder="Hi {{visitor_name}},&#10;&#10;Thank you for visiting {{property_name}} today! We hope you enjoyed exploring the property.&#10;&#10;Best regards,&#10;{{admin_name}}"
+                          />
+                        </div>
+                      </>
+                    )}
                   </div>
                 )}
 
                 {/* SMS Settings */}
-                {(campaignForm.watch('message_type') === 'sms' || campaignForm.watch('message_type') === 'both') && (
+                {!isSequence && (campaignForm.watch('message_type') === 'sms' || campaignForm.watch('message_type') === 'both') && (
                   <div className="p-4 bg-green-50 rounded-lg border border-green-200">
                     <h4 className="text-lg font-medium text-green-900 flex items-center mb-4">
                       <svg className="w-5 h-5 mr-2" fill="none" stroke="currentColor" viewBox="0 0 24 24">
@@ -739,19 +1268,48 @@ export default function FollowUpManagement() {
                       SMS Settings
                     </h4>
 
-                    <div>
-                      <label className="block text-sm font-medium text-gray-700 mb-2">SMS Message *</label>
-                      <textarea
-                        {...campaignForm.register('sms_template')}
-                        rows={4}
-                        maxLength={1600}
+                    <div className="mb-4">
+                      <label className="block text-sm font-medium text-gray-700 mb-2">Saved Template</label>
+                      <select
+                        {...campaignForm.register('sms_template_id')}
                         className="w-full border border-gray-300 rounded-md px-3 py-2 text-gray-900 bg-white focus:outline-none focus:ring-2 focus:ring-blue-500 focus:border-blue-500"
-                        placeholder="Hi {{visitor_name}}! Thanks for visiting {{property_name}} today. Any questions? Reply to this message. - {{admin_name}}"
-                      />
-                      <p className="text-xs text-gray-500 mt-1">
-                        {campaignForm.watch('sms_template')?.length || 0}/1600 characters
-                      </p>
+                      >
+                        <option value="">Custom message</option>
+                        {smsTemplates.map(template => (
+                          <option key={template.id} value={template.id}>{template.name}</option>
+                        ))}
+                      </select>
                     </div>
+
+                    {selectedSMSTemplate ? (
+                      <div className="p-3 bg-white rounded-md border border-green-100">
+                        <p className="text-sm text-gray-600 whitespace-pre-wrap">{selectedSMSTemplate.content}</p>
+                        <p className="text-xs text-gray-500 mt-2">Edit this template from the Templates tab. Changes apply to every campaign that uses it.</p>
+                      </div>
+                    ) : (
+                      <div>
+                        <div className="flex justify-between items-center mb-2">
+                          <label className="block text-sm font-medium text-gray-700">SMS Message *</label>
+                          <button
+                            type="button"
+                            onClick={() => handleSaveAsTemplate('sms')}
+                            className="text-xs font-medium text-green-700 hover:text-green-900"
+                          >
+                            Save as template
+                          </button>
+                        </div>
+                        <textarea
+                          {...campaignForm.register('sms_template')}
+                          rows={4}
+                          maxLength={1600}
+                          className="w-full border border-gray-300 rounded-md px-3 py-2 text-gray-900 bg-white focus:outline-none focus:ring-2 focus:ring-blue-500 focus:border-blue-500"
+                          placeholder="Hi {{visitor_name}}! Thanks for visiting {{property_name}} today. Any questions? Reply to this message. - {{admin_name}}"
+                        />
+                        <p className="text-xs text-gray-500 mt-1">
+                          {campaignForm.watch('sms_template')?.length || 0}/1600 characters
+                        </p>
+                      </div>
+                    )}
                   </div>
                 )}
 
@@ -800,6 +1358,15 @@ export default function FollowUpManagement() {
                   </button>
                 </div>
               </form>
+
+              {showPreview && (
+                <CampaignPreview
+                  content={previewContent}
+                  messageType={isSequence ? previewStep?.message_type || 'email' : campaignForm.watch('message_type')}
+                  visitors={editingCampaign ? eligibleVisitors : []}
+                  campaignId={editingCampaign?.id}
+                />
+              )}
             </div>
           </div>
         </div>
@@ -812,7 +1379,7 @@ export default function FollowUpManagement() {
             <div className="p-6">
               <div className="flex justify-between items-center mb-6">
                 <h3 className="text-xl font-bold text-gray-900">
-                  Send Follow-up: {showSendModal.name}
+                  {showSendModal.campaign_steps?.length ? 'Enroll in Sequence' : 'Send Follow-up'}: {showSendModal.name}
                 </h3>
                 <button
                   onClick={() => {
@@ -913,7 +1480,7 @@ export default function FollowUpManagement() {
                       Sending...
                     </div>
                   ) : (
-                    `Send to ${selectedVisitors.length > 0 ? selectedVisitors.length : eligibleVisitors.length} visitors`
+                    `${showSendModal.campaign_steps?.length ? 'Enroll' : 'Send to'} ${selectedVisitors.length > 0 ? selectedVisitors.length : eligibleVisitors.length} visitors`
                   )}
                 </button>
               </div>
@@ -921,6 +1488,32 @@ export default function FollowUpManagement() {
           </div>
         </div>
       )}
+
+      {progressCampaign && (
+        <SequenceProgress
+          campaign={progressCampaign}
+          onClose={() => setProgressCampaign(null)}
+        />
+      )}
+
+      {bulkReport && (
+        <BulkActionReport
+          action={bulkReport.action}
+          results={bulkReport.results}
+          onClose={() => setBulkReport(null)}
+        />
+      )}
+
+      {sendBatch && (
+        <SendProgress
+          batchId={sendBatch.batchId}
+          campaignName={sendBatch.campaignName}
+          onClose={() => {
+            setSendBatch(null)
+            fetchData()
+          }}
+        />
+      )}
     </div>
   )
 }
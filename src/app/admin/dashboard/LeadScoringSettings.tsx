@@ -0,0 +1,199 @@
+'use client'
+
+import { useState, useEffect } from 'react'
+import { createClientComponentClient } from '@/lib/supabase'
+import { toast } from 'react-hot-toast'
+import { useForm } from 'react-hook-form'
+import { zodResolver } from '@hookform/resolvers/zod'
+import { leadScoringSettingsSchema, type LeadScoringSettingsFormData } from '@/lib/validations'
+import { LEAD_SCORING_FACTORS } from '@/lib/lead-scoring'
+
+interface LeadScoringSettingsProps {
+  onClose: () => void
+  // Scores are recalculated by the database as soon as settings are saved
+  onSaved: () => void
+}
+
+const inputClassName = 'w-20 border border-gray-300 rounded-md px-2 py-1 text-sm text-gray-900 bg-white focus:outline-none focus:ring-2 focus:ring-blue-500 focus:border-blue-500'
+
+export default function LeadScoringSettings({ onClose, onSaved }: LeadScoringSettingsProps) {
+  const [loading, setLoading] = useState(true)
+
+  const supabase = createClientComponentClient()
+
+  const settingsForm = useForm<LeadScoringSettingsFormData>({
+    resolver: zodResolver(leadScoringSettingsSchema),
+  })
+
+  const { errors, isSubmitting } = settingsForm.formState
+
+  useEffect(() => {
+    fetchSettings()
+  }, []) // eslint-disable-line react-hooks/exhaustive-deps
+
+  const fetchSettings = async () => {
+    try {
+      const { data, error } = await supabase.rpc('get_lead_scoring_settings')
+
+      if (error) throw error
+      settingsForm.reset(data)
+    } catch (error) {
+      console.error('Error fetching lead scoring settings:', error)
+      toast.error('Failed to load lead scoring settings')
+      onClose()
+    } finally {
+      setLoading(false)
+    }
+  }
+
+  const getAdminId = async () => {
+    const { data: { user } } = await supabase.auth.getUser()
+    if (!user) throw new Error('Not authenticated')
+
+    const { data: adminData, error: adminError } = await supabase
+      .from('admins')
+      .select('id')
+      .eq('user_id', user.id)
+      .single()
+
+    if (adminError || !adminData) throw new Error('Admin not found')
+    return adminData.id as string
+  }
+
+  const onSubmit = async (data: LeadScoringSettingsFormData) => {
+    try {
+      const { error } = await supabase
+        .from('lead_scoring_settings')
+        .upsert({
+          admin_id: await getAdminId(),
+          weights: data.weights,
+          hot_threshold: data.hot_threshold,
+          warm_threshold: data.warm_threshold,
+          updated_at: new Date().toISOString(),
+        })
+
+      if (error) throw error
+
+      toast.success('Lead scoring updated and visitors rescored')
+      onSaved()
+      onClose()
+    } catch (error: unknown) {
+      console.error('Error saving lead scoring settings:', error)
+      toast.error(error instanceof Error ? error.message : 'Failed to save lead scoring settings')
+    }
+  }
+
+  const handleResetToDefaults = async () => {
+    if (!confirm('Reset all weights and thresholds to the defaults?')) return
+
+    try {
+      const { error } = await supabase
+        .from('lead_scoring_settings')
+        .delete()
+        .eq('admin_id', await getAdminId())
+
+      if (error) throw error
+
+      toast.success('Lead scoring reset to defaults')
+      onSaved()
+      fetchSettings()
+    } catch (error: unknown) {
+      console.error('Error resetting lead scoring settings:', error)
+      toast.error(error instanceof Error ? error.message : 'Failed to reset lead scoring settings')
+    }
+  }
+
+  return (
+    <div className="fixed inset-0 bg-black bg-opacity-50 flex items-center justify-center p-4 z-50">
+      <div className="bg-white rounded-lg shadow-xl max-w-2xl w-full max-h-[90vh] overflow-y-auto">
+        <div className="p-6">
+          <div className="flex justify-between items-start mb-2">
+            <h3 className="text-xl font-bold text-gray-900">Lead Scoring</h3>
+            <button onClick={onClose} className="text-gray-400 hover:text-gray-600">
+              <svg className="w-6 h-6" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+                <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M6 18L18 6M6 6l12 12" />
+              </svg>
+            </button>
+          </div>
+          <p className="text-sm text-gray-600 mb-6">
+            A visitor&apos;s score is the sum of the points their check-in answers and latest feedback are worth.
+            Use negative points for answers that make a sale less likely.
+          </p>
+
+          {loading ? (
+            <div className="flex items-center justify-center py-8">
+              <div className="animate-spin rounded-full h-8 w-8 border-b-2 border-blue-600"></div>
+            </div>
+          ) : (
+            <form onSubmit={settingsForm.handleSubmit(onSubmit)} className="space-y-6">
+              <div className="grid grid-cols-2 gap-4 bg-gray-50 border border-gray-200 rounded-lg p-4">
+                <div>
+                  <label className="block text-sm font-medium text-gray-700 mb-1">Hot at or above</label>
+                  <input
+                    {...settingsForm.register('hot_threshold', { valueAsNumber: true })}
+                    type="number"
+                    className={inputClassName}
+                  />
+                  {errors.hot_threshold && (
+                    <p className="mt-1 text-sm text-red-600">{errors.hot_threshold.message}</p>
+                  )}
+                </div>
+                <div>
+                  <label className="block text-sm font-medium text-gray-700 mb-1">Warm at or above</label>
+                  <input
+                    {...settingsForm.register('warm_threshold', { valueAsNumber: true })}
+                    type="number"
+                    className={inputClassName}
+                  />
+                  {errors.warm_threshold && (
+                    <p className="mt-1 text-sm text-red-600">{errors.warm_threshold.message}</p>
+                  )}
+                </div>
+              </div>
+
+              {LEAD_SCORING_FACTORS.map(factor => (
+                <div key={factor.key}>
+                  <h4 className="text-sm font-medium text-gray-900 mb-2">{factor.label}</h4>
+                  <div className="space-y-2">
+                    {factor.options.map(option => (
+                      <div key={option.value} className="flex items-center justify-between">
+                        <span className="text-sm text-gray-700">{option.label}</span>
+                        <input
+                          {...settingsForm.register(`weights.${factor.key}.${option.value}`, { valueAsNumber: true })}
+                          type="number"
+                          className={inputClassName}
+                        />
+                      </div>
+                    ))}
+                  </div>
+                  {errors.weights?.[factor.key] && (
+                    <p className="mt-1 text-sm text-red-600">
+                      {Object.values(errors.weights[factor.key] || {}).find(error => error?.message)?.message}
+                    </p>
+                  )}
+                </div>
+              ))}
+
+              <div className="flex justify-between pt-4 border-t border-gray-200">
+                <button
+                  type="button"
+                  onClick={handleResetToDefaults}
+                  className="px-4 py-2 text-sm font-medium text-gray-700 bg-gray-100 hover:bg-gray-200 rounded-md transition-colors"
+                >
+                  Reset to Defaults
+                </button>
+                <button
+                  type="submit"
+                  disabled={isSubmitting}
+                  className="px-4 py-2 text-sm font-medium text-white bg-blue-600 hover:bg-blue-700 disabled:bg-gray-400 rounded-md transition-colors"
+                >
+                  {isSubmitting ? 'Saving...' : 'Save and Rescore'}
+                </button>
+              </div>
+            </form>
+          )}
+        </div>
+      </div>
+    </div>
+  )
+}
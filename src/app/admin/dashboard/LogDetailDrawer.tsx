@@ -0,0 +1,262 @@
+'use client'
+
+import { useState, useEffect } from 'react'
+import { createClientComponentClient } from '@/lib/supabase'
+import { toast } from 'react-hot-toast'
+
+interface LogJob {
+  status: 'queued' | 'processing' | 'sent' | 'dead' | 'cancelled'
+  attempts: number
+  max_attempts: number
+  last_error?: string | null
+  created_at: string
+  last_attempt_at?: string | null
+  next_attempt_at: string
+}
+
+interface LogDetail {
+  id: string
+  message_type: 'email' | 'sms'
+  status: string
+  recipient_email?: string | null
+  recipient_phone?: string | null
+  subject?: string | null
+  message_content: string
+  provider?: string | null
+  external_id?: string | null
+  error_message?: string | null
+  step_order?: number | null
+  sent_at: string
+  delivered_at?: string | null
+  opened_at?: string | null
+  clicked_at?: string | null
+  visitors: { name: string } | null
+  follow_up_campaigns: { name: string } | null
+  // One-to-one, but older PostgREST versions embed it as an array
+  follow_up_jobs: LogJob | LogJob[] | null
+  follow_up_link_clicks?: { url: string; clicked_at: string }[]
+}
+
+export interface TimelineEntry {
+  label: string
+  at: string | null
+  detail?: string | null
+  tone: 'neutral' | 'success' | 'warning' | 'error'
+}
+
+interface LogDetailDrawerProps {
+  logId: string
+  onClose: () => void
+  onRetry: (logId: string) => void
+}
+
+const SENT_STATUSES = ['sent', 'delivered', 'opened', 'clicked', 'bounced']
+
+// Everything known about a message's journey, oldest first. Entries without
+// a time (a provider failure with no timestamp) go last.
+export function buildStatusTimeline(log: LogDetail, job: LogJob | null): TimelineEntry[] {
+  const entries: TimelineEntry[] = []
+
+  if (job) {
+    entries.push({ label: 'Queued', at: job.created_at, tone: 'neutral' })
+    if (job.attempts > 1 || (job.attempts === 1 && job.last_error)) {
+      entries.push({
+        label: `Attempt ${job.attempts} of ${job.max_attempts}`,
+        at: job.last_attempt_at || null,
+        detail: job.last_error,
+        tone: 'warning',
+      })
+    }
+    if (job.status === 'queued' && job.attempts > 0) {
+      entries.push({ label: 'Next attempt', at: job.next_attempt_at, tone: 'neutral' })
+    }
+  }
+
+  if (SENT_STATUSES.includes(log.status) || (log.status === 'failed' && log.external_id)) {
+    entries.push({ label: `Sent${log.provider ? ` via ${log.provider}` : ''}`, at: log.sent_at, tone: 'success' })
+  }
+  if (log.delivered_at) entries.push({ label: 'Delivered', at: log.delivered_at, tone: 'success' })
+  if (log.opened_at) entries.push({ label: 'Opened', at: log.opened_at, tone: 'success' })
+
+  const clicks = log.follow_up_link_clicks || []
+  if (clicks.length > 0) {
+    clicks.forEach(click => entries.push({ label: 'Clicked', at: click.clicked_at, detail: click.url, tone: 'success' }))
+  } else if (log.clicked_at) {
+    entries.push({ label: 'Clicked', at: log.clicked_at, tone: 'success' })
+  }
+
+  if (log.status === 'failed' || log.status === 'bounced') {
+    entries.push({
+      label: log.status === 'bounced' ? 'Bounced' : job?.status === 'cancelled' ? 'Cancelled' : 'Failed',
+      at: job && !log.external_id ? log.sent_at : null,
+      detail: log.error_message,
+      tone: 'error',
+    })
+  }
+
+  return entries.sort((a, b) => {
+    if (!a.at) return 1
+    if (!b.at) return -1
+    return new Date(a.at).getTime() - new Date(b.at).getTime()
+  })
+}
+
+const toneDot: Record<TimelineEntry['tone'], string> = {
+  neutral: 'bg-gray-400',
+  success: 'bg-green-500',
+  warning: 'bg-yellow-500',
+  error: 'bg-red-500',
+}
+
+export default function LogDetailDrawer({ logId, onClose, onRetry }: LogDetailDrawerProps) {
+  const [log, setLog] = useState<LogDetail | null>(null)
+  const [loading, setLoading] = useState(true)
+
+  const supabase = createClientComponentClient()
+
+  useEffect(() => {
+    fetchLog()
+  }, [logId]) // eslint-disable-line react-hooks/exhaustive-deps
+
+  const fetchLog = async () => {
+    setLoading(true)
+    try {
+      const { data, error } = await supabase
+        .from('follow_up_logs')
+        .select(`
+          id,
+          message_type,
+          status,
+          recipient_email,
+          recipient_phone,
+          subject,
+          message_content,
+          provider,
+          external_id,
+          error_message,
+          step_order,
+          sent_at,
+          delivered_at,
+          opened_at,
+          clicked_at,
+          visitors (name),
+          follow_up_campaigns (name),
+          follow_up_jobs (status, attempts, max_attempts, last_error, created_at, last_attempt_at, next_attempt_at),
+          follow_up_link_clicks (url, clicked_at)
+        `)
+        .eq('id', logId)
+        .single()
+
+      if (error) throw error
+      setLog(data as unknown as LogDetail)
+    } catch (error) {
+      console.error('Error fetching message log:', error)
+      toast.error('Failed to load message details')
+      onClose()
+    } finally {
+      setLoading(false)
+    }
+  }
+
+  const job = log
+    ? Array.isArray(log.follow_up_jobs) ? log.follow_up_jobs[0] || null : log.follow_up_jobs
+    : null
+
+  return (
+    <div className="fixed inset-0 z-50 flex justify-end">
+      <div className="absolute inset-0 bg-black bg-opacity-50" onClick={onClose} />
+      <div className="relative bg-white w-full max-w-xl h-full shadow-xl overflow-y-auto">
+        <div className="p-6">
+          <div className="flex justify-between items-start mb-6">
+            <div>
+              <h3 className="text-xl font-bold text-gray-900">Message Details</h3>
+              {log && (
+                <p className="text-sm text-gray-500 mt-1">
+                  {log.follow_up_campaigns?.name || 'Deleted campaign'}
+                  {log.step_order ? ` • step ${log.step_order}` : ''}
+                </p>
+              )}
+            </div>
+            <button onClick={onClose} className="text-gray-400 hover:text-gray-600">
+              <svg className="w-6 h-6" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+                <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M6 18L18 6M6 6l12 12" />
+              </svg>
+            </button>
+          </div>
+
+          {loading || !log ? (
+            <div className="flex items-center justify-center py-8">
+              <div className="animate-spin rounded-full h-8 w-8 border-b-2 border-blue-600"></div>
+            </div>
+          ) : (
+            <div className="space-y-6">
+              <dl className="grid grid-cols-3 gap-x-4 gap-y-2 text-sm">
+                <dt className="text-gray-500">Visitor</dt>
+                <dd className="col-span-2 text-gray-900">{log.visitors?.name || 'Unknown'}</dd>
+                <dt className="text-gray-500">To</dt>
+                <dd className="col-span-2 text-gray-900 break-all">{log.recipient_email || log.recipient_phone}</dd>
+                <dt className="text-gray-500">Channel</dt>
+                <dd className="col-span-2 text-gray-900">{log.message_type.toUpperCase()}</dd>
+                {log.external_id && (
+                  <>
+                    <dt className="text-gray-500">Provider ID</dt>
+                    <dd className="col-span-2 text-gray-900 break-all font-mono text-xs">{log.external_id}</dd>
+                  </>
+                )}
+              </dl>
+
+              <div>
+                <h4 className="text-sm font-medium text-gray-900 mb-3">Status Timeline</h4>
+                <ol className="space-y-3">
+                  {buildStatusTimeline(log, job).map((entry, index) => (
+                    <li key={index} className="flex items-start">
+                      <span className={`mt-1.5 mr-3 h-2 w-2 rounded-full flex-shrink-0 ${toneDot[entry.tone]}`} />
+                      <div className="min-w-0">
+                        <div className="text-sm text-gray-900">
+                          {entry.label}
+                          {entry.at && (
+                            <span className="text-gray-500"> • {new Date(entry.at).toLocaleString()}</span>
+                          )}
+                        </div>
+                        {entry.detail && (
+                          <div className="text-xs text-gray-500 break-all">{entry.detail}</div>
+                        )}
+                      </div>
+                    </li>
+                  ))}
+                </ol>
+                {log.status === 'failed' && job && job.status !== 'cancelled' && (
+                  <button
+                    onClick={() => onRetry(log.id)}
+                    className="mt-4 text-sm font-medium text-blue-600 hover:text-blue-800"
+                  >
+                    Retry this message
+                  </button>
+                )}
+              </div>
+
+              <div>
+                <h4 className="text-sm font-medium text-gray-900 mb-3">Message</h4>
+                {log.subject && (
+                  <p className="text-sm font-medium text-gray-900 mb-2">{log.subject}</p>
+                )}
+                {log.message_type === 'email' ? (
+                  <iframe
+                    title="Rendered message"
+                    sandbox=""
+                    srcDoc={log.message_content}
+                    className="w-full h-96 bg-white border border-gray-200 rounded-md"
+                  />
+                ) : (
+                  <p className="text-sm text-gray-900 whitespace-pre-wrap bg-gray-50 border border-gray-200 rounded-md p-3">
+                    {log.message_content}
+                  </p>
+                )}
+              </div>
+            </div>
+          )}
+        </div>
+      </div>
+    </div>
+  )
+}
@@ -0,0 +1,323 @@
+'use client'
+
+import { useState, useEffect } from 'react'
+import { createClientComponentClient } from '@/lib/supabase'
+import { toast } from 'react-hot-toast'
+import { useForm } from 'react-hook-form'
+import { zodResolver } from '@hookform/resolvers/zod'
+import { messagingSettingsSchema, type MessagingSettingsFormData } from '@/lib/follow-up-validations'
+
+interface OutboxMessage {
+  id: string
+  channel: 'email' | 'sms'
+  recipient: string
+  from_address?: string
+  subject?: string
+  html_content?: string
+  text_content?: string
+  created_at: string
+}
+
+const inputClassName = 'w-full border border-gray-300 rounded-md px-3 py-2 text-gray-900 bg-white focus:outline-none focus:ring-2 focus:ring-blue-500 focus:border-blue-500'
+
+export default function MessagingSettings() {
+  const [adminId, setAdminId] = useState<string | null>(null)
+  const [outbox, setOutbox] = useState<OutboxMessage[]>([])
+  const [openMessage, setOpenMessage] = useState<OutboxMessage | null>(null)
+  const [loading, setLoading] = useState(true)
+  const [saving, setSaving] = useState(false)
+
+  const supabase = createClientComponentClient()
+
+  const form = useForm<MessagingSettingsFormData>({
+    resolver: zodResolver(messagingSettingsSchema),
+    defaultValues: {
+      email_provider: 'resend',
+      sms_provider: 'twilio',
+      from_email: '',
+      from_name: '',
+      reply_to_email: '',
+      sms_from_number: '',
+    },
+  })
+
+  useEffect(() => {
+    fetchSettings()
+  }, []) // eslint-disable-line react-hooks/exhaustive-deps
+
+  const fetchSettings = async () => {
+    try {
+      const { data: { user } } = await supabase.auth.getUser()
+      if (!user) throw new Error('Not authenticated')
+
+      const { data: adminData, error: adminError } = await supabase
+        .from('admins')
+        .select('id')
+        .eq('user_id', user.id)
+        .single()
+
+      if (adminError || !adminData) throw new Error('Admin not found')
+      setAdminId(adminData.id)
+
+      const { data, error } = await supabase
+        .from('admin_messaging_settings')
+        .select('email_provider, sms_provider, from_email, from_name, reply_to_email, sms_from_number')
+        .eq('admin_id', adminData.id)
+        .maybeSingle()
+
+      if (error) throw error
+
+      if (data) {
+        form.reset({
+          email_provider: data.email_provider,
+          sms_provider: data.sms_provider,
+          from_email: data.from_email || '',
+          from_name: data.from_name || '',
+          reply_to_email: data.reply_to_email || '',
+          sms_from_number: data.sms_from_number || '',
+        })
+      }
+
+      await fetchOutbox()
+    } catch (error) {
+      console.error('Error fetching messaging settings:', error)
+      toast.error('Failed to load messaging settings')
+    } finally {
+      setLoading(false)
+    }
+  }
+
+  const fetchOutbox = async () => {
+    const { data, error } = await supabase
+      .from('message_outbox')
+      .select('id, channel, recipient, from_address, subject, html_content, text_content, created_at')
+      .order('created_at', { ascending: false })
+      .limit(25)
+
+    if (error) throw error
+    setOutbox(data || [])
+  }
+
+  const onSubmit = async (data: MessagingSettingsFormData) => {
+    if (!adminId) return
+
+    setSaving(true)
+    try {
+      const { error } = await supabase
+        .from('admin_messaging_settings')
+        .upsert({
+          admin_id: adminId,
+          email_provider: data.email_provider,
+          sms_provider: data.sms_provider,
+          from_email: data.from_email || null,
+          from_name: data.from_name || null,
+          reply_to_email: data.reply_to_email || null,
+          sms_from_number: data.sms_from_number || null,
+        }, { onConflict: 'admin_id' })
+
+      if (error) throw error
+      toast.success('Messaging settings saved!')
+    } catch (error: unknown) {
+      console.error('Error saving messaging settings:', error)
+      toast.error(error instanceof Error ? error.message : 'Failed to save messaging settings')
+    } finally {
+      setSaving(false)
+    }
+  }
+
+  const handleClearOutbox = async () => {
+    if (!adminId || !confirm('Delete every message in the sandbox outbox?')) return
+
+    try {
+      const { error } = await supabase
+        .from('message_outbox')
+        .delete()
+        .eq('admin_id', adminId)
+
+      if (error) throw error
+      setOutbox([])
+      setOpenMessage(null)
+      toast.success('Outbox cleared')
+    } catch (error: unknown) {
+      console.error('Error clearing outbox:', error)
+      toast.error(error instanceof Error ? error.message : 'Failed to clear outbox')
+    }
+  }
+
+  if (loading) {
+    return (
+      <div className="flex items-center justify-center py-8">
+        <div className="animate-spin rounded-full h-8 w-8 border-b-2 border-blue-600"></div>
+      </div>
+    )
+  }
+
+  const errors = form.formState.errors
+  const usesSandbox = form.watch('email_provider') === 'sandbox' || form.watch('sms_provider') === 'sandbox'
+
+  return (
+    <div className="space-y-6">
+      <form onSubmit={form.handleSubmit(onSubmit)} className="bg-white rounded-lg shadow-sm border border-gray-200 p-6 space-y-6">
+        <div>
+          <h3 className="text-lg font-semibold text-gray-900">Sending Providers</h3>
+          <p className="text-sm text-gray-500 mt-1">
+            API keys and SMTP credentials are set as Edge Function secrets. The sandbox records messages in the outbox below instead of sending them.
+          </p>
+        </div>
+
+        <div className="grid grid-cols-1 lg:grid-cols-2 gap-6">
+          <div>
+            <label className="block text-sm font-medium text-gray-700 mb-2">Email Provider</label>
+            <select {...form.register('email_provider')} className={inputClassName}>
+              <option value="resend">Resend</option>
+              <option value="smtp">SMTP</option>
+              <option value="sandbox">Sandbox (outbox only)</option>
+            </select>
+          </div>
+
+          <div>
+            <label className="block text-sm font-medium text-gray-700 mb-2">SMS Provider</label>
+            <select {...form.register('sms_provider')} className={inputClassName}>
+              <option value="twilio">Twilio</option>
+              <option value="sandbox">Sandbox (outbox only)</option>
+            </select>
+          </div>
+
+          <div>
+            <label className="block text-sm font-medium text-gray-700 mb-2">From Email</label>
+            <input
+              {...form.register('from_email')}
+              type="email"
+              className={inputClassName}
+              placeholder="followups@yourdomain.com"
+            />
+            {errors.from_email ? (
+              <p className="mt-1 text-sm text-red-600">{errors.from_email.message}</p>
+            ) : (
+              <p className="text-xs text-gray-500 mt-1">Must be on a domain verified with your email provider.</p>
+            )}
+          </div>
+
+          <div>
+            <label className="block text-sm font-medium text-gray-700 mb-2">Default From Name</label>
+            <input
+              {...form.register('from_name')}
+              type="text"
+              className={inputClassName}
+              placeholder="Open House Team"
+            />
+            <p className="text-xs text-gray-500 mt-1">Used by test sends; each campaign sets its own.</p>
+          </div>
+
+          <div>
+            <label className="block text-sm font-medium text-gray-700 mb-2">Reply-To Email</label>
+            <input
+              {...form.register('reply_to_email')}
+              type="email"
+              className={inputClassName}
+              placeholder="you@yourdomain.com"
+            />
+            {errors.reply_to_email && (
+              <p className="mt-1 text-sm text-red-600">{errors.reply_to_email.message}</p>
+            )}
+          </div>
+
+          <div>
+            <label className="block text-sm font-medium text-gray-700 mb-2">SMS From Number</label>
+            <input
+              {...form.register('sms_from_number')}
+              type="tel"
+              className={inputClassName}
+              placeholder="+15551234567"
+            />
+            {errors.sms_from_number ? (
+              <p className="mt-1 text-sm text-red-600">{errors.sms_from_number.message}</p>
+            ) : (
+              <p className="text-xs text-gray-500 mt-1">Leave blank to use the account&apos;s TWILIO_PHONE_NUMBER.</p>
+            )}
+          </div>
+        </div>
+
+        <div className="flex justify-end">
+          <button
+            type="submit"
+            disabled={saving}
+            className="px-4 py-2 text-sm font-medium text-white bg-blue-600 hover:bg-blue-700 disabled:bg-gray-400 rounded-md transition-colors"
+          >
+            {saving ? 'Saving...' : 'Save Settings'}
+          </button>
+        </div>
+      </form>
+
+      {(usesSandbox || outbox.length > 0) && (
+        <div className="bg-white rounded-lg shadow-sm border border-gray-200 p-6">
+          <div className="flex justify-between items-center mb-4">
+            <h3 className="text-lg font-semibold text-gray-900">Sandbox Outbox ({outbox.length})</h3>
+            <div className="space-x-3">
+              <button
+                onClick={() => fetchOutbox().catch(error => console.error('Error fetching outbox:', error))}
+                className="text-sm font-medium text-blue-600 hover:text-blue-800"
+              >
+                Refresh
+              </button>
+              <button
+                onClick={handleClearOutbox}
+                disabled={outbox.length === 0}
+                className="text-sm font-medium text-red-600 hover:text-red-800 disabled:text-gray-400"
+              >
+                Clear
+              </button>
+            </div>
+          </div>
+
+          {outbox.length === 0 ? (
+            <p className="text-sm text-gray-500">Messages sent through the sandbox appear here.</p>
+          ) : (
+            <div className="grid grid-cols-1 lg:grid-cols-2 gap-6">
+              <ul className="divide-y divide-gray-200 max-h-96 overflow-y-auto">
+                {outbox.map(message => (
+                  <li key={message.id}>
+                    <button
+                      onClick={() => setOpenMessage(message)}
+                      className={`w-full text-left px-3 py-2 hover:bg-gray-50 ${openMessage?.id === message.id ? 'bg-blue-50' : ''}`}
+                    >
+                      <div className="flex justify-between text-sm">
+                        <span className="font-medium text-gray-900">{message.recipient}</span>
+                        <span className="text-xs text-gray-500">{new Date(message.created_at).toLocaleString()}</span>
+                      </div>
+                      <div className="text-sm text-gray-600 truncate">
+                        <span className="uppercase text-xs font-medium text-gray-500 mr-2">{message.channel}</span>
+                        {message.subject || message.text_content}
+                      </div>
+                    </button>
+                  </li>
+                ))}
+              </ul>
+
+              {openMessage && (
+                <div className="space-y-2">
+                  <p className="text-xs text-gray-500">From: {openMessage.from_address || '-'}</p>
+                  {openMessage.subject && (
+                    <p className="text-sm font-medium text-gray-900">{openMessage.subject}</p>
+                  )}
+                  {openMessage.html_content ? (
+                    <iframe
+                      title="Outbox message"
+                      sandbox=""
+                      srcDoc={openMessage.html_content}
+                      className="w-full h-80 bg-white border border-gray-200 rounded-md"
+                    />
+                  ) : (
+                    <p className="text-sm text-gray-900 whitespace-pre-wrap bg-gray-50 border border-gray-200 rounded-md p-3">
+                      {openMessage.text_content}
+                    </p>
+                  )}
+                </div>
+              )}
+            </div>
+          )}
+        </div>
+      )}
+    </div>
+  )
+}
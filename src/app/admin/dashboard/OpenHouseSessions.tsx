@@ -0,0 +1,462 @@
+'use client'
+
+import { useState, useEffect } from 'react'
+import { createClientComponentClient } from '@/lib/supabase'
+import { recordExport } from '@/lib/audit-log'
+import { formatDate, formatDateTime, downloadCSV } from '@/lib/utils'
+import { toast } from 'react-hot-toast'
+import { useForm } from 'react-hook-form'
+import { zodResolver } from '@hookform/resolvers/zod'
+import { propertySessionSchema, type PropertySessionFormData, type TeamRole } from '@/lib/validations'
+import { leadTemperatureBadge, type LeadTemperature } from '@/lib/lead-scoring'
+import type { ActivityVisitor } from './VisitorActivity'
+
+type SessionStatus = 'scheduled' | 'live' | 'ended'
+
+interface PropertySession {
+  id: string
+  property_id: string
+  start_time: string | null
+  end_time: string | null
+  started_at: string | null
+  ended_at: string | null
+  notes: string | null
+  status: SessionStatus
+  visitor_count: number
+  feedback_count: number
+  interested_count: number
+  hot_lead_count: number
+  average_rating: number | null
+}
+
+interface SessionVisitor {
+  id: string
+  name: string
+  email: string
+  phone: string
+  visit_date: string
+  lead_temperature: LeadTemperature | null
+  feedback: { rating: number; interested: boolean; comments: string | null }[]
+}
+
+interface OpenHouseSessionsProps {
+  property: { id: string; name: string }
+  teamRole: TeamRole
+  onClose: () => void
+  onOpenVisitor: (visitor: ActivityVisitor) => void
+}
+
+const statusBadge: Record<SessionStatus, string> = {
+  scheduled: 'bg-gray-100 text-gray-700',
+  live: 'bg-green-100 text-green-800',
+  ended: 'bg-blue-100 text-blue-800',
+}
+
+const inputClassName = 'w-full border border-gray-300 rounded-md px-3 py-2 text-gray-900 bg-white focus:outline-none focus:ring-2 focus:ring-blue-500 focus:border-blue-500'
+
+export default function OpenHouseSessions({ property, teamRole, onClose, onOpenVisitor }: OpenHouseSessionsProps) {
+  const [sessions, setSessions] = useState<PropertySession[]>([])
+  const [loading, setLoading] = useState(true)
+  const [showScheduleForm, setShowScheduleForm] = useState(false)
+  const [reportSession, setReportSession] = useState<PropertySession | null>(null)
+  const [reportVisitors, setReportVisitors] = useState<SessionVisitor[]>([])
+  const [reportLoading, setReportLoading] = useState(false)
+
+  const supabase = createClientComponentClient()
+
+  const scheduleForm = useForm<PropertySessionFormData>({
+    resolver: zodResolver(propertySessionSchema),
+  })
+
+  const { errors, isSubmitting } = scheduleForm.formState
+
+  useEffect(() => {
+    fetchSessions()
+  }, [property.id]) // eslint-disable-line react-hooks/exhaustive-deps
+
+  const fetchSessions = async () => {
+    try {
+      const { data, error } = await supabase
+        .from('property_session_summary')
+        .select('*')
+        .eq('property_id', property.id)
+        .order('start_time', { ascending: false, nullsFirst: false })
+
+      if (error) throw error
+      setSessions(data || [])
+    } catch (error) {
+      console.error('Error fetching sessions:', error)
+      toast.error('Failed to load sessions. Please ensure database-open-house-sessions.sql has been run.')
+    } finally {
+      setLoading(false)
+    }
+  }
+
+  const onSchedule = async (data: PropertySessionFormData) => {
+    try {
+      const startTime = new Date(data.start_time)
+      const { error } = await supabase
+        .from('property_sessions')
+        .insert([{
+          property_id: property.id,
+          session_date: formatDate(startTime, 'yyyy-MM-dd'),
+          start_time: startTime.toISOString(),
+          end_time: new Date(data.end_time).toISOString(),
+          notes: data.notes?.trim() || null,
+        }])
+
+      if (error) throw error
+
+      toast.success('Open house scheduled')
+      scheduleForm.reset()
+      setShowScheduleForm(false)
+      fetchSessions()
+    } catch (error: unknown) {
+      console.error('Error scheduling session:', error)
+      toast.error(error instanceof Error ? error.message : 'Failed to schedule open house')
+    }
+  }
+
+  // With no session, starts an unscheduled open house right now
+  const handleStart = async (session?: PropertySession) => {
+    const live = sessions.find(s => s.status === 'live')
+    if (live && !confirm('This will end the open house that is running now. Continue?')) return
+
+    try {
+      const { error } = await supabase
+        .rpc('start_property_session', {
+          property_uuid: property.id,
+          session_id_param: session?.id ?? null,
+        })
+
+      if (error) throw error
+      toast.success('Open house started. Visitors can now check in.')
+      fetchSessions()
+    } catch (error: unknown) {
+      console.error('Error starting session:', error)
+      toast.error(error instanceof Error ? error.message : 'Failed to start open house')
+    }
+  }
+
+  const handleEnd = async (session: PropertySession) => {
+    if (!confirm('End this open house? Visitors will no longer be able to check in.')) return
+
+    try {
+      const { error } = await supabase
+        .rpc('end_property_session', { session_id_param: session.id })
+
+      if (error) throw error
+      toast.success('Open house ended')
+      fetchSessions()
+    } catch (error: unknown) {
+      console.error('Error ending session:', error)
+      toast.error(error instanceof Error ? error.message : 'Failed to end open house')
+    }
+  }
+
+  const handleDelete = async (session: PropertySession) => {
+    if (!confirm('Delete this scheduled open house?')) return
+
+    try {
+      const { error } = await supabase
+        .from('property_sessions')
+        .delete()
+        .eq('id', session.id)
+
+      if (error) throw error
+      toast.success('Scheduled open house deleted')
+      fetchSessions()
+    } catch (error: unknown) {
+      console.error('Error deleting session:', error)
+      toast.error(error instanceof Error ? error.message : 'Failed to delete open house')
+    }
+  }
+
+  const handleShowReport = async (session: PropertySession) => {
+    if (reportSession?.id === session.id) {
+      setReportSession(null)
+      return
+    }
+
+    setReportSession(session)
+    setReportLoading(true)
+    try {
+      const { data, error } = await supabase
+        .from('visitors')
+        .select('id, name, email, phone, visit_date, lead_temperature, feedback (rating, interested, comments)')
+        .eq('session_id', session.id)
+        .order('visit_date', { ascending: true })
+
+      if (error) throw error
+      setReportVisitors(data || [])
+    } catch (error) {
+      console.error('Error fetching session report:', error)
+      toast.error('Failed to load session report')
+    } finally {
+      setReportLoading(false)
+    }
+  }
+
+  const exportReport = async () => {
+    if (!reportSession) return
+
+    try {
+      await recordExport(supabase, 'visitors', reportVisitors.length, { property_id: property.id, session_id: reportSession.id })
+    } catch (error: unknown) {
+      console.error('Error recording export:', error)
+      toast.error('Failed to export report')
+      return
+    }
+
+    const csvData = reportVisitors.map(visitor => ({
+      Name: visitor.name,
+      Email: visitor.email,
+      Phone: visitor.phone,
+      'Check-in Time': formatDateTime(visitor.visit_date),
+      Rating: visitor.feedback[0]?.rating || 'No rating',
+      Interested: visitor.feedback[0]?.interested ? 'Yes' : 'No',
+      Comments: visitor.feedback[0]?.comments || '',
+      Lead: visitor.lead_temperature || '',
+    }))
+
+    const sessionDate = reportSession.started_at || reportSession.start_time
+    downloadCSV(csvData, `open-house-${sessionDate ? sessionDate.split('T')[0] : reportSession.id}.csv`)
+    toast.success('Report exported successfully!')
+  }
+
+  const sessionTimes = (session: PropertySession) => {
+    const start = session.started_at || session.start_time
+    const end = session.ended_at || session.end_time
+    if (!start) return 'Not scheduled'
+    return `${formatDateTime(start)}${end ? ` – ${formatDate(end, 'h:mm a')}` : ''}`
+  }
+
+  const liveSession = sessions.find(session => session.status === 'live')
+
+  return (
+    <div className="fixed inset-0 bg-black bg-opacity-50 flex items-center justify-center p-4 z-50">
+      <div className="bg-white rounded-lg shadow-xl max-w-3xl w-full max-h-[90vh] overflow-y-auto">
+        <div className="p-6">
+          <div className="flex justify-between items-start mb-6">
+            <div>
+              <h3 className="text-xl font-bold text-gray-900">Open Houses</h3>
+              <p className="text-sm text-gray-500 mt-1">{property.name}</p>
+            </div>
+            <button onClick={onClose} className="text-gray-400 hover:text-gray-600">
+              <svg className="w-6 h-6" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+                <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M6 18L18 6M6 6l12 12" />
+              </svg>
+            </button>
+          </div>
+
+          <div className={`flex justify-between items-center rounded-lg border p-4 mb-6 ${
+            liveSession ? 'bg-green-50 border-green-200' : 'bg-gray-50 border-gray-200'
+          }`}>
+            <div>
+              <p className={`text-sm font-medium ${liveSession ? 'text-green-900' : 'text-gray-900'}`}>
+                {liveSession ? 'Open house in progress' : 'No open house running'}
+              </p>
+              <p className={`text-sm ${liveSession ? 'text-green-700' : 'text-gray-600'}`}>
+                {liveSession
+                  ? `Started ${formatDateTime(liveSession.started_at!)} • ${liveSession.visitor_count} checked in`
+                  : 'Visitors can only check in while an open house is running.'}
+              </p>
+            </div>
+            {liveSession ? (
+              <button
+                onClick={() => handleEnd(liveSession)}
+                className="px-4 py-2 text-sm font-medium text-white bg-red-600 hover:bg-red-700 rounded-md transition-colors"
+              >
+                End Open House
+              </button>
+            ) : (
+              <button
+                onClick={() => handleStart()}
+                className="px-4 py-2 text-sm font-medium text-white bg-green-600 hover:bg-green-700 rounded-md transition-colors"
+              >
+                Start Now
+              </button>
+            )}
+          </div>
+
+          <div className="flex justify-between items-center mb-3">
+            <h4 className="text-sm font-medium text-gray-900">Sessions</h4>
+            {!showScheduleForm && (
+              <button
+                onClick={() => setShowScheduleForm(true)}
+                className="text-sm font-medium text-blue-600 hover:text-blue-800"
+              >
+                + Schedule Open House
+              </button>
+            )}
+          </div>
+
+          {showScheduleForm && (
+            <form
+              onSubmit={scheduleForm.handleSubmit(onSchedule)}
+              className="bg-gray-50 border border-gray-200 rounded-lg p-4 mb-4 space-y-3"
+            >
+              <div className="grid grid-cols-2 gap-3">
+                <div>
+                  <label className="block text-sm font-medium text-gray-700 mb-1">Starts</label>
+                  <input {...scheduleForm.register('start_time')} type="datetime-local" className={inputClassName} />
+                  {errors.start_time && (
+                    <p className="mt-1 text-sm text-red-600">{errors.start_time.message}</p>
+                  )}
+                </div>
+                <div>
+                  <label className="block text-sm font-medium text-gray-700 mb-1">Ends</label>
+                  <input {...scheduleForm.register('end_time')} type="datetime-local" className={inputClassName} />
+                  {errors.end_time && (
+                    <p className="mt-1 text-sm text-red-600">{errors.end_time.message}</p>
+                  )}
+                </div>
+              </div>
+              <div>
+                <input
+                  {...scheduleForm.register('notes')}
+                  type="text"
+                  placeholder="Notes (optional)"
+                  className={inputClassName}
+                />
+                {errors.notes && (
+                  <p className="mt-1 text-sm text-red-600">{errors.notes.message}</p>
+                )}
+              </div>
+              <div className="flex justify-end space-x-2">
+                <button
+                  type="button"
+                  onClick={() => {
+                    scheduleForm.reset()
+                    setShowScheduleForm(false)
+                  }}
+                  className="px-4 py-2 text-sm font-medium text-gray-700 bg-gray-100 hover:bg-gray-200 rounded-md transition-colors"
+                >
+                  Cancel
+                </button>
+                <button
+                  type="submit"
+                  disabled={isSubmitting}
+                  className="px-4 py-2 text-sm font-medium text-white bg-blue-600 hover:bg-blue-700 disabled:bg-gray-400 rounded-md transition-colors"
+                >
+                  {isSubmitting ? 'Saving...' : 'Schedule'}
+                </button>
+              </div>
+            </form>
+          )}
+
+          {loading ? (
+            <div className="flex items-center justify-center py-8">
+              <div className="animate-spin rounded-full h-8 w-8 border-b-2 border-blue-600"></div>
+            </div>
+          ) : sessions.length === 0 ? (
+            <p className="text-sm text-gray-500">No open houses yet. Schedule one or start one now.</p>
+          ) : (
+            <ul className="space-y-3">
+              {sessions.map(session => (
+                <li key={session.id} className="border border-gray-200 rounded-lg">
+                  <div className="flex justify-between items-start p-4">
+                    <div>
+                      <div className="flex items-center space-x-2">
+                        <span className="text-sm font-medium text-gray-900">{sessionTimes(session)}</span>
+                        <span className={`inline-flex items-center px-2 py-0.5 rounded-full text-xs font-medium capitalize ${statusBadge[session.status]}`}>
+                          {session.status}
+                        </span>
+                      </div>
+                      {session.notes && <p className="text-sm text-gray-600 mt-1">{session.notes}</p>}
+                      {session.status !== 'scheduled' && (
+                        <p className="text-xs text-gray-500 mt-1">
+                          {session.visitor_count} visitors • {session.feedback_count} feedback • {session.interested_count} interested • {session.hot_lead_count} hot leads
+                          {session.average_rating != null && ` • ${session.average_rating}/5 avg`}
+                        </p>
+                      )}
+                    </div>
+                    <div className="flex items-center space-x-3 ml-4 text-sm font-medium whitespace-nowrap">
+                      {session.status === 'scheduled' && (
+                        <>
+                          <button onClick={() => handleStart(session)} className="text-green-600 hover:text-green-800">Start</button>
+                          {teamRole !== 'assistant' && (
+                            <button onClick={() => handleDelete(session)} className="text-red-600 hover:text-red-800">Delete</button>
+                          )}
+                        </>
+                      )}
+                      {session.status === 'live' && (
+                        <button onClick={() => handleEnd(session)} className="text-red-600 hover:text-red-800">End</button>
+                      )}
+                      {session.status !== 'scheduled' && (
+                        <button onClick={() => handleShowReport(session)} className="text-blue-600 hover:text-blue-800">
+                          {reportSession?.id === session.id ? 'Hide Report' : 'Report'}
+                        </button>
+                      )}
+                    </div>
+                  </div>
+
+                  {reportSession?.id === session.id && (
+                    <div className="border-t border-gray-200 p-4 bg-gray-50">
+                      {reportLoading ? (
+                        <div className="flex items-center justify-center py-4">
+                          <div className="animate-spin rounded-full h-6 w-6 border-b-2 border-blue-600"></div>
+                        </div>
+                      ) : reportVisitors.length === 0 ? (
+                        <p className="text-sm text-gray-500">No one checked in to this open house.</p>
+                      ) : (
+                        <>
+                          <div className="flex justify-end mb-2">
+                            <button onClick={exportReport} className="text-sm font-medium text-blue-600 hover:text-blue-800">
+                              Export CSV
+                            </button>
+                          </div>
+                          <table className="min-w-full text-sm">
+                            <thead>
+                              <tr className="text-left text-xs font-medium text-gray-500 uppercase">
+                                <th className="py-1 pr-3">Visitor</th>
+                                <th className="py-1 pr-3">Checked In</th>
+                                <th className="py-1 pr-3">Rating</th>
+                                <th className="py-1">Lead</th>
+                              </tr>
+                            </thead>
+                            <tbody className="divide-y divide-gray-200">
+                              {reportVisitors.map(visitor => (
+                                <tr
+                                  key={visitor.id}
+                                  onClick={() => onOpenVisitor({
+                                    id: visitor.id,
+                                    name: visitor.name,
+                                    email: visitor.email,
+                                    phone: visitor.phone,
+                                    property_name: property.name,
+                                  })}
+                                  className="cursor-pointer hover:bg-white"
+                                >
+                                  <td className="py-2 pr-3">
+                                    <div className="font-medium text-gray-900">{visitor.name}</div>
+                                    <div className="text-xs text-gray-500">{visitor.email}</div>
+                                  </td>
+                                  <td className="py-2 pr-3 text-gray-600">{formatDate(visitor.visit_date, 'h:mm a')}</td>
+                                  <td className="py-2 pr-3 text-gray-600">
+                                    {visitor.feedback[0] ? `${visitor.feedback[0].rating}/5${visitor.feedback[0].interested ? ' • Interested' : ''}` : '—'}
+                                  </td>
+                                  <td className="py-2">
+                                    {visitor.lead_temperature && (
+                                      <span className={`inline-flex items-center px-2 py-0.5 rounded-full text-xs font-medium capitalize ${leadTemperatureBadge[visitor.lead_temperature]}`}>
+                                        {visitor.lead_temperature}
+                                      </span>
+                                    )}
+                                  </td>
+                                </tr>
+                              ))}
+                            </tbody>
+                          </table>
+                        </>
+                      )}
+                    </div>
+                  )}
+                </li>
+              ))}
+            </ul>
+          )}
+        </div>
+      </div>
+    </div>
+  )
+}
@@ -0,0 +1,198 @@
+'use client'
+
+import { useState, useEffect } from 'react'
+import { createClientComponentClient } from '@/lib/supabase'
+import { formatDate } from '@/lib/utils'
+import { toast } from 'react-hot-toast'
+import { PIPELINE_STAGES, PIPELINE_STAGE_LABELS, type PipelineStage } from '@/lib/validations'
+import { leadTemperatureBadge, type LeadTemperature } from '@/lib/lead-scoring'
+import type { ActivityVisitor } from './VisitorActivity'
+
+interface PipelineVisitor {
+  id: string
+  name: string
+  email: string
+  phone: string
+  visit_date: string
+  property_id?: string | null
+  pipeline_stage: PipelineStage
+  pipeline_stage_changed_at?: string | null
+  lead_score?: number | null
+  lead_temperature?: LeadTemperature | null
+  properties: { name: string } | null
+}
+
+interface PipelineBoardProps {
+  properties: { id: string; name: string }[]
+  onOpenVisitor: (visitor: ActivityVisitor) => void
+}
+
+const stageHeaderColor: Record<PipelineStage, string> = {
+  new: 'border-gray-400',
+  contacted: 'border-blue-500',
+  showing_scheduled: 'border-indigo-500',
+  offer_made: 'border-amber-500',
+  closed: 'border-green-500',
+  lost: 'border-red-400',
+}
+
+export default function PipelineBoard({ properties, onOpenVisitor }: PipelineBoardProps) {
+  const [visitors, setVisitors] = useState<PipelineVisitor[]>([])
+  const [loading, setLoading] = useState(true)
+  const [propertyFilter, setPropertyFilter] = useState('')
+  const [dragOverStage, setDragOverStage] = useState<PipelineStage | null>(null)
+
+  const supabase = createClientComponentClient()
+
+  useEffect(() => {
+    fetchVisitors()
+  }, []) // eslint-disable-line react-hooks/exhaustive-deps
+
+  const fetchVisitors = async () => {
+    try {
+      const { data, error } = await supabase
+        .from('visitors')
+        .select('id, name, email, phone, visit_date, property_id, pipeline_stage, pipeline_stage_changed_at, lead_score, lead_temperature, properties (name)')
+        .order('visit_date', { ascending: false })
+
+      if (error) throw error
+      setVisitors((data || []) as unknown as PipelineVisitor[])
+    } catch (error) {
+      console.error('Error fetching pipeline:', error)
+      toast.error('Failed to load pipeline. Please ensure database-pipeline-stages.sql has been run.')
+    } finally {
+      setLoading(false)
+    }
+  }
+
+  // Moves the card straight away and puts it back if saving fails
+  const moveVisitor = async (visitorId: string, stage: PipelineStage) => {
+    const visitor = visitors.find(v => v.id === visitorId)
+    if (!visitor || visitor.pipeline_stage === stage) return
+
+    const previous = { pipeline_stage: visitor.pipeline_stage, pipeline_stage_changed_at: visitor.pipeline_stage_changed_at }
+    const updateVisitor = (changes: Partial<PipelineVisitor>) =>
+      setVisitors(current => current.map(v => v.id === visitorId ? { ...v, ...changes } : v))
+
+    updateVisitor({ pipeline_stage: stage, pipeline_stage_changed_at: new Date().toISOString() })
+
+    try {
+      const { error } = await supabase
+        .rpc('set_visitor_pipeline_stage', {
+          visitor_id_param: visitorId,
+          stage_param: stage,
+        })
+
+      if (error) throw error
+      toast.success(`${visitor.name} moved to ${PIPELINE_STAGE_LABELS[stage]}`)
+    } catch (error) {
+      console.error('Error moving visitor:', error)
+      toast.error('Failed to move visitor')
+      updateVisitor(previous)
+    }
+  }
+
+  const handleDrop = (event: React.DragEvent, stage: PipelineStage) => {
+    event.preventDefault()
+    setDragOverStage(null)
+    const visitorId = event.dataTransfer.getData('text/plain')
+    if (visitorId) moveVisitor(visitorId, stage)
+  }
+
+  if (loading) {
+    return (
+      <div className="flex items-center justify-center py-8">
+        <div className="animate-spin rounded-full h-8 w-8 border-b-2 border-blue-600"></div>
+      </div>
+    )
+  }
+
+  const shownVisitors = propertyFilter
+    ? visitors.filter(visitor => visitor.property_id === propertyFilter)
+    : visitors
+
+  return (
+    <div className="space-y-4">
+      <div className="flex justify-between items-center">
+        <p className="text-sm text-gray-600">Drag visitors between stages. Every move is saved to their activity history.</p>
+        <select
+          value={propertyFilter}
+          onChange={(e) => setPropertyFilter(e.target.value)}
+          className="border border-gray-300 rounded-lg px-3 py-2 text-sm bg-white focus:ring-2 focus:ring-blue-500 focus:border-blue-500"
+        >
+          <option value="">All Properties</option>
+          {properties.map(property => (
+            <option key={property.id} value={property.id}>{property.name}</option>
+          ))}
+        </select>
+      </div>
+
+      <div className="flex space-x-4 overflow-x-auto pb-4">
+        {PIPELINE_STAGES.map(stage => {
+          const stageVisitors = shownVisitors.filter(visitor => visitor.pipeline_stage === stage)
+          return (
+            <div
+              key={stage}
+              onDragOver={(event) => {
+                event.preventDefault()
+                setDragOverStage(stage)
+              }}
+              onDragLeave={() => setDragOverStage(null)}
+              onDrop={(event) => handleDrop(event, stage)}
+              className={`flex-shrink-0 w-64 rounded-lg border-t-4 ${stageHeaderColor[stage]} ${
+                dragOverStage === stage ? 'bg-blue-50' : 'bg-gray-50'
+              }`}
+            >
+              <div className="flex justify-between items-center px-3 py-2">
+                <h4 className="text-sm font-semibold text-gray-900">{PIPELINE_STAGE_LABELS[stage]}</h4>
+                <span className="text-xs font-medium text-gray-500">{stageVisitors.length}</span>
+              </div>
+              <div className="px-2 pb-2 space-y-2 min-h-[8rem]">
+                {stageVisitors.map(visitor => (
+                  <div
+                    key={visitor.id}
+                    draggable
+                    onDragStart={(event) => event.dataTransfer.setData('text/plain', visitor.id)}
+                    onClick={() => onOpenVisitor({
+                      id: visitor.id,
+                      name: visitor.name,
+                      email: visitor.email,
+                      phone: visitor.phone,
+                      property_name: visitor.properties?.name,
+                    })}
+                    className="bg-white rounded-md border border-gray-200 p-3 shadow-sm cursor-grab hover:border-blue-300"
+                  >
+                    <div className="flex justify-between items-start">
+                      <span className="text-sm font-medium text-gray-900">{visitor.name}</span>
+                      {visitor.lead_temperature && (
+                        <span className={`ml-2 inline-flex items-center px-2 py-0.5 rounded-full text-xs font-medium capitalize ${leadTemperatureBadge[visitor.lead_temperature]}`}>
+                          {visitor.lead_temperature}
+                        </span>
+                      )}
+                    </div>
+                    <p className="text-xs text-gray-500 mt-1">{visitor.properties?.name || 'No property'}</p>
+                    <p className="text-xs text-gray-400 mt-1">
+                      Visited {formatDate(visitor.visit_date)}
+                      {visitor.pipeline_stage_changed_at && ` • moved ${formatDate(visitor.pipeline_stage_changed_at)}`}
+                    </p>
+                    {/* For touch screens, where drag and drop isn't available */}
+                    <select
+                      value={visitor.pipeline_stage}
+                      onClick={(event) => event.stopPropagation()}
+                      onChange={(event) => moveVisitor(visitor.id, event.target.value as PipelineStage)}
+                      className="mt-2 w-full border border-gray-200 rounded px-2 py-1 text-xs text-gray-700 bg-white sm:hidden"
+                    >
+                      {PIPELINE_STAGES.map(option => (
+                        <option key={option} value={option}>{PIPELINE_STAGE_LABELS[option]}</option>
+                      ))}
+                    </select>
+                  </div>
+                ))}
+              </div>
+            </div>
+          )
+        })}
+      </div>
+    </div>
+  )
+}
@@ -0,0 +1,212 @@
+'use client'
+
+import { useState, useEffect } from 'react'
+import { createClientComponentClient } from '@/lib/supabase'
+import { toast } from 'react-hot-toast'
+
+interface QueuedJob {
+  id: string
+  channel: 'email' | 'sms'
+  status: 'queued' | 'processing' | 'sent' | 'dead' | 'cancelled'
+  attempts: number
+  last_error?: string | null
+  payload: { to: string }
+}
+
+// Totals are filled in once every visitor's messages have been queued
+interface QueuedBatch {
+  visitor_count: number
+  failed_count: number
+  errors: string[]
+  enqueued_at: string | null
+}
+
+interface SendProgressProps {
+  batchId: string
+  campaignName: string
+  onClose: () => void
+}
+
+const POLL_INTERVAL_MS = 2000
+
+export default function SendProgress({ batchId, campaignName, onClose }: SendProgressProps) {
+  const [jobs, setJobs] = useState<QueuedJob[]>([])
+  const [batch, setBatch] = useState<QueuedBatch | null>(null)
+  const [loading, setLoading] = useState(true)
+  const [retryingId, setRetryingId] = useState<string | null>(null)
+
+  const supabase = createClientComponentClient()
+
+  const isQueueing = !batch?.enqueued_at
+  const isFinished = !loading && !isQueueing && jobs.every(job => job.status !== 'queued' && job.status !== 'processing')
+
+  useEffect(() => {
+    fetchJobs()
+  }, [batchId]) // eslint-disable-line react-hooks/exhaustive-deps
+
+  // Keep polling until every message is queued and every job has settled
+  useEffect(() => {
+    if (isFinished) return
+    const interval = setInterval(fetchJobs, POLL_INTERVAL_MS)
+    return () => clearInterval(interval)
+  }, [batchId, isFinished]) // eslint-disable-line react-hooks/exhaustive-deps
+
+  const fetchJobs = async () => {
+    try {
+      const [batchResult, jobsResult] = await Promise.all([
+        supabase
+          .from('follow_up_batches')
+          .select('visitor_count, failed_count, errors, enqueued_at')
+          .eq('id', batchId)
+          .single(),
+        supabase
+          .from('follow_up_jobs')
+          .select('id, channel, status, attempts, last_error, payload')
+          .eq('batch_id', batchId)
+          .order('created_at', { ascending: true }),
+      ])
+
+      if (batchResult.error) throw batchResult.error
+      if (jobsResult.error) throw jobsResult.error
+      setBatch(batchResult.data as QueuedBatch)
+      setJobs((jobsResult.data as QueuedJob[] | null) || [])
+    } catch (error) {
+      console.error('Error fetching send progress:', error)
+    } finally {
+      setLoading(false)
+    }
+  }
+
+  const handleRetry = async (job: QueuedJob) => {
+    setRetryingId(job.id)
+    try {
+      const { error } = await supabase
+        .rpc('retry_follow_up_job', { job_id_param: job.id })
+
+      if (error) throw error
+      toast.success('Message queued for another attempt')
+      fetchJobs()
+    } catch (error: unknown) {
+      console.error('Error retrying message:', error)
+      toast.error(error instanceof Error ? error.message : 'Failed to retry message')
+    } finally {
+      setRetryingId(null)
+    }
+  }
+
+  const counts = {
+    waiting: jobs.filter(job => job.status === 'queued' && job.attempts === 0).length,
+    sending: jobs.filter(job => job.status === 'processing').length,
+    retrying: jobs.filter(job => job.status === 'queued' && job.attempts > 0).length,
+    sent: jobs.filter(job => job.status === 'sent').length,
+    dead: jobs.filter(job => job.status === 'dead').length,
+    cancelled: jobs.filter(job => job.status === 'cancelled').length,
+  }
+
+  const settled = counts.sent + counts.dead + counts.cancelled
+  const percent = jobs.length > 0 ? Math.round((settled / jobs.length) * 100) : 0
+  const deadJobs = jobs.filter(job => job.status === 'dead')
+
+  return (
+    <div className="fixed inset-0 bg-black bg-opacity-50 overflow-y-auto h-full w-full z-50 flex items-center justify-center p-4">
+      <div className="bg-white rounded-lg shadow-xl w-full max-w-2xl">
+        <div className="p-6">
+          <div className="flex justify-between items-center mb-6">
+            <div>
+              <h3 className="text-xl font-bold text-gray-900">Sending: {campaignName}</h3>
+              <p className="text-sm text-gray-500 mt-1">
+                {isFinished
+                  ? 'Finished'
+                  : isQueueing && batch
+                    ? `Queueing messages for ${batch.visitor_count} visitors. They keep sending if you close this window.`
+                    : 'Messages keep sending if you close this window.'}
+              </p>
+            </div>
+            <button onClick={onClose} className="text-gray-400 hover:text-gray-600">
+              <svg className="w-6 h-6" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+                <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M6 18L18 6M6 6l12 12" />
+              </svg>
+            </button>
+          </div>
+
+          {loading ? (
+            <div className="flex items-center justify-center py-8">
+              <div className="animate-spin rounded-full h-8 w-8 border-b-2 border-blue-600"></div>
+            </div>
+          ) : (
+            <div className="space-y-6">
+              <div>
+                <div className="flex justify-between text-sm text-gray-700 mb-2">
+                  <span>{settled} of {jobs.length} done</span>
+                  <span>{percent}%</span>
+                </div>
+                <div className="w-full bg-gray-200 rounded-full h-2">
+                  <div
+                    className="bg-blue-600 h-2 rounded-full transition-all"
+                    style={{ width: `${percent}%` }}
+                  />
+                </div>
+              </div>
+
+              <div className="grid grid-cols-3 gap-4 text-center">
+                {[
+                  { label: 'Queued', value: counts.waiting, className: 'text-gray-900' },
+                  { label: 'Sending', value: counts.sending, className: 'text-blue-600' },
+                  { label: 'Retrying', value: counts.retrying, className: 'text-yellow-600' },
+                  { label: 'Sent', value: counts.sent, className: 'text-green-600' },
+                  { label: 'Failed', value: counts.dead, className: 'text-red-600' },
+                  { label: 'Unsubscribed', value: counts.cancelled, className: 'text-gray-500' },
+                ].map(stat => (
+                  <div key={stat.label} className="border border-gray-200 rounded-md p-3">
+                    <div className={`text-2xl font-bold ${stat.className}`}>{stat.value}</div>
+                    <div className="text-xs text-gray-500">{stat.label}</div>
+                  </div>
+                ))}
+              </div>
+
+              {batch && batch.failed_count > 0 && (
+                <div>
+                  <h4 className="text-sm font-medium text-gray-900 mb-2">Could not be queued ({batch.failed_count})</h4>
+                  <ul className="divide-y divide-gray-200 border border-gray-200 rounded-md max-h-40 overflow-y-auto">
+                    {batch.errors.map((message, index) => (
+                      <li key={index} className="px-3 py-2 text-xs text-red-600">{message}</li>
+                    ))}
+                  </ul>
+                </div>
+              )}
+
+              {deadJobs.length > 0 && (
+                <div>
+                  <h4 className="text-sm font-medium text-gray-900 mb-2">Failed after retries</h4>
+                  <ul className="divide-y divide-gray-200 border border-gray-200 rounded-md max-h-60 overflow-y-auto">
+                    {deadJobs.map(job => (
+                      <li key={job.id} className="flex justify-between items-start px-3 py-2">
+                        <div className="min-w-0">
+                          <div className="text-sm text-gray-900">
+                            <span className="uppercase text-xs font-medium text-gray-500 mr-2">{job.channel}</span>
+                            {job.payload.to}
+                          </div>
+                          <div className="text-xs text-red-600 truncate">
+                            {job.attempts} attempts • {job.last_error || 'Failed to send'}
+                          </div>
+                        </div>
+                        <button
+                          onClick={() => handleRetry(job)}
+                          disabled={retryingId === job.id}
+                          className="ml-4 text-sm font-medium text-blue-600 hover:text-blue-800 disabled:text-gray-400"
+                        >
+                          Retry
+                        </button>
+                      </li>
+                    ))}
+                  </ul>
+                  <p className="text-xs text-gray-500 mt-2">Retried messages go out on the next queue run, within a few minutes.</p>
+                </div>
+              )}
+            </div>
+          )}
+        </div>
+      </div>
+    </div>
+  )
+}
@@ -0,0 +1,267 @@
+'use client'
+
+import { useState, useEffect } from 'react'
+import { createClientComponentClient } from '@/lib/supabase'
+import { toast } from 'react-hot-toast'
+import { SEQUENCE_EXIT_CONDITION_LABELS, type SequenceExitCondition } from '@/lib/follow-up-validations'
+
+export interface CampaignStep {
+  id: string
+  step_order: number
+  message_type: 'email' | 'sms'
+  delay_hours: number
+  email_subject?: string | null
+  email_template?: string | null
+  email_template_id?: string | null
+  sms_template?: string | null
+  sms_template_id?: string | null
+}
+
+interface Enrollment {
+  id: string
+  visitor_id: string
+  current_step: number
+  status: 'active' | 'completed' | 'exited'
+  exit_reason?: SequenceExitCondition | 'manual' | null
+  enrolled_at: string
+  last_step_at?: string | null
+  visitor_name: string
+  visitor_email?: string
+  visitor_phone?: string
+  visit_date: string
+  made_offer_at?: string | null
+}
+
+interface EnrollmentRow extends Pick<Enrollment, 'id' | 'visitor_id' | 'current_step' | 'status' | 'exit_reason' | 'enrolled_at' | 'last_step_at'> {
+  visitors: {
+    name: string
+    email?: string
+    phone?: string
+    visit_date: string
+    made_offer_at?: string | null
+  } | null
+}
+
+interface SequenceProgressProps {
+  campaign: {
+    id: string
+    name: string
+    campaign_steps?: CampaignStep[]
+  }
+  onClose: () => void
+}
+
+export default function SequenceProgress({ campaign, onClose }: SequenceProgressProps) {
+  const [enrollments, setEnrollments] = useState<Enrollment[]>([])
+  const [loading, setLoading] = useState(true)
+  const [updatingId, setUpdatingId] = useState<string | null>(null)
+
+  const supabase = createClientComponentClient()
+  const steps = campaign.campaign_steps || []
+
+  useEffect(() => {
+    fetchEnrollments()
+  }, [campaign.id]) // eslint-disable-line react-hooks/exhaustive-deps
+
+  const fetchEnrollments = async () => {
+    try {
+      const { data, error } = await supabase
+        .from('campaign_enrollments')
+        .select(`
+          id,
+          visitor_id,
+          current_step,
+          status,
+          exit_reason,
+          enrolled_at,
+          last_step_at,
+          visitors (
+            name,
+            email,
+            phone,
+            visit_date,
+            made_offer_at
+          )
+        `)
+        .eq('campaign_id', campaign.id)
+        .order('enrolled_at', { ascending: false })
+
+      if (error) throw error
+
+      setEnrollments((data as unknown as EnrollmentRow[] | null)?.map(enrollment => ({
+        id: enrollment.id,
+        visitor_id: enrollment.visitor_id,
+        current_step: enrollment.current_step,
+        status: enrollment.status,
+        exit_reason: enrollment.exit_reason,
+        enrolled_at: enrollment.enrolled_at,
+        last_step_at: enrollment.last_step_at,
+        visitor_name: enrollment.visitors?.name || 'Unknown',
+        visitor_email: enrollment.visitors?.email,
+        visitor_phone: enrollment.visitors?.phone,
+        visit_date: enrollment.visitors?.visit_date || '',
+        made_offer_at: enrollment.visitors?.made_offer_at,
+      })) || [])
+    } catch (error) {
+      console.error('Error fetching enrollments:', error)
+      toast.error('Failed to load sequence progress')
+    } finally {
+      setLoading(false)
+    }
+  }
+
+  const handleOfferMade = async (enrollment: Enrollment) => {
+    if (!confirm(`Mark that ${enrollment.visitor_name} made an offer?`)) return
+
+    setUpdatingId(enrollment.id)
+    try {
+      const { error } = await supabase
+        .rpc('mark_visitor_offer_made', { visitor_id_param: enrollment.visitor_id })
+
+      if (error) throw error
+      toast.success('Offer recorded')
+      fetchEnrollments()
+    } catch (error: unknown) {
+      console.error('Error recording offer:', error)
+      toast.error(error instanceof Error ? error.message : 'Failed to record offer')
+    } finally {
+      setUpdatingId(null)
+    }
+  }
+
+  const handleRemove = async (enrollment: Enrollment) => {
+    if (!confirm(`Stop sending this sequence to ${enrollment.visitor_name}?`)) return
+
+    setUpdatingId(enrollment.id)
+    try {
+      const { error } = await supabase
+        .from('campaign_enrollments')
+        .update({ status: 'exited', exit_reason: 'manual', ended_at: new Date().toISOString() })
+        .eq('id', enrollment.id)
+
+      if (error) throw error
+      toast.success('Visitor removed from sequence')
+      fetchEnrollments()
+    } catch (error: unknown) {
+      console.error('Error removing enrollment:', error)
+      toast.error(error instanceof Error ? error.message : 'Failed to remove visitor')
+    } finally {
+      setUpdatingId(null)
+    }
+  }
+
+  // Step delays count from the visit, so the next send time is fixed
+  const getNextDue = (enrollment: Enrollment) => {
+    if (enrollment.status !== 'active') return null
+    const nextStep = steps.find(step => step.step_order > enrollment.current_step)
+    if (!nextStep || !enrollment.visit_date) return null
+    return new Date(new Date(enrollment.visit_date).getTime() + nextStep.delay_hours * 60 * 60 * 1000)
+  }
+
+  const getStatusLabel = (enrollment: Enrollment) => {
+    if (enrollment.status !== 'exited') return enrollment.status
+    if (!enrollment.exit_reason || enrollment.exit_reason === 'manual') return 'removed'
+    return `exited • ${SEQUENCE_EXIT_CONDITION_LABELS[enrollment.exit_reason].toLowerCase()}`
+  }
+
+  const statusBadge = {
+    active: 'bg-green-100 text-green-800 border-green-200',
+    completed: 'bg-blue-100 text-blue-800 border-blue-200',
+    exited: 'bg-gray-100 text-gray-800 border-gray-200',
+  }
+
+  const counts = {
+    active: enrollments.filter(e => e.status === 'active').length,
+    completed: enrollments.filter(e => e.status === 'completed').length,
+    exited: enrollments.filter(e => e.status === 'exited').length,
+  }
+
+  return (
+    <div className="fixed inset-0 bg-black bg-opacity-50 overflow-y-auto h-full w-full z-50 flex items-center justify-center p-4">
+      <div className="bg-white rounded-lg shadow-xl w-full max-w-4xl">
+        <div className="p-6">
+          <div className="flex justify-between items-center mb-6">
+            <div>
+              <h3 className="text-xl font-bold text-gray-900">Sequence Progress: {campaign.name}</h3>
+              <p className="text-sm text-gray-500 mt-1">
+                {counts.active} active • {counts.completed} completed • {counts.exited} exited
+              </p>
+            </div>
+            <button onClick={onClose} className="text-gray-400 hover:text-gray-600">
+              <svg className="w-6 h-6" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+                <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M6 18L18 6M6 6l12 12" />
+              </svg>
+            </button>
+          </div>
+
+          {loading ? (
+            <div className="flex items-center justify-center py-8">
+              <div className="animate-spin rounded-full h-8 w-8 border-b-2 border-blue-600"></div>
+            </div>
+          ) : enrollments.length === 0 ? (
+            <p className="text-center py-8 text-gray-500">No visitors are enrolled in this sequence yet.</p>
+          ) : (
+            <div className="overflow-x-auto max-h-[28rem] overflow-y-auto">
+              <table className="min-w-full divide-y divide-gray-200">
+                <thead className="bg-gray-50">
+                  <tr>
+                    <th className="px-4 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">Visitor</th>
+                    <th className="px-4 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">Progress</th>
+                    <th className="px-4 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">Status</th>
+                    <th className="px-4 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">Next Step</th>
+                    <th className="px-4 py-3"></th>
+                  </tr>
+                </thead>
+                <tbody className="bg-white divide-y divide-gray-200">
+                  {enrollments.map(enrollment => {
+                    const nextDue = getNextDue(enrollment)
+
+                    return (
+                      <tr key={enrollment.id} className="hover:bg-gray-50">
+                        <td className="px-4 py-3">
+                          <div className="text-sm font-medium text-gray-900">{enrollment.visitor_name}</div>
+                          <div className="text-sm text-gray-500">{enrollment.visitor_email || enrollment.visitor_phone}</div>
+                        </td>
+                        <td className="px-4 py-3 text-sm text-gray-900">
+                          {enrollment.current_step} of {steps.length} sent
+                        </td>
+                        <td className="px-4 py-3">
+                          <span className={`inline-flex items-center px-2 py-1 rounded-full text-xs font-medium border ${statusBadge[enrollment.status]}`}>
+                            {getStatusLabel(enrollment)}
+                          </span>
+                        </td>
+                        <td className="px-4 py-3 text-sm text-gray-500">
+                          {nextDue ? nextDue.toLocaleString() : '-'}
+                        </td>
+                        <td className="px-4 py-3 text-right whitespace-nowrap space-x-3">
+                          {!enrollment.made_offer_at && (
+                            <button
+                              onClick={() => handleOfferMade(enrollment)}
+                              disabled={updatingId === enrollment.id}
+                              className="text-sm font-medium text-green-700 hover:text-green-900 disabled:text-gray-400"
+                            >
+                              Offer made
+                            </button>
+                          )}
+                          {enrollment.status === 'active' && (
+                            <button
+                              onClick={() => handleRemove(enrollment)}
+                              disabled={updatingId === enrollment.id}
+                              className="text-sm font-medium text-red-600 hover:text-red-800 disabled:text-gray-400"
+                            >
+                              Remove
+                            </button>
+                          )}
+                        </td>
+                      </tr>
+                    )
+                  })}
+                </tbody>
+              </table>
+            </div>
+          )}
+        </div>
+      </div>
+    </div>
+  )
+}
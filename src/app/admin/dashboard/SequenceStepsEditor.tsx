@@ -0,0 +1,224 @@
+'use client'
+
+import { useFieldArray, type UseFormReturn } from 'react-hook-form'
+import {
+  SEQUENCE_EXIT_CONDITIONS,
+  SEQUENCE_EXIT_CONDITION_LABELS,
+  type CampaignFormDataWithConditionals,
+} from '@/lib/follow-up-validations'
+import type { EmailTemplate, SMSTemplate } from './TemplateManagement'
+
+interface SequenceStepsEditorProps {
+  form: UseFormReturn<CampaignFormDataWithConditionals>
+  emailTemplates: EmailTemplate[]
+  smsTemplates: SMSTemplate[]
+  onPreviewStep?: (index: number) => void
+}
+
+const inputClassName = 'w-full border border-gray-300 rounded-md px-3 py-2 text-gray-900 bg-white focus:outline-none focus:ring-2 focus:ring-blue-500 focus:border-blue-500'
+
+export function formatStepDelay(delayHours: number): string {
+  if (delayHours === 0) return 'right after the visit'
+  if (delayHours % 24 === 0) return `day ${delayHours / 24}`
+  return `${delayHours}h after the visit`
+}
+
+export default function SequenceStepsEditor({ form, emailTemplates, smsTemplates, onPreviewStep }: SequenceStepsEditorProps) {
+  const { fields, append, remove, move } = useFieldArray({ control: form.control, name: 'steps' })
+  const steps = form.watch('steps') || []
+  const exitConditions = form.watch('exit_conditions') || []
+  const stepErrors = form.formState.errors.steps
+
+  const addStep = () => {
+    const previousDelay = steps.length > 0 ? steps[steps.length - 1].delay_hours : 0
+    append({
+      message_type: 'email',
+      delay_hours: previousDelay + 24,
+      email_subject: '',
+      email_template: '',
+      email_template_id: '',
+      sms_template: '',
+      sms_template_id: '',
+    })
+  }
+
+  const toggleExitCondition = (condition: typeof SEQUENCE_EXIT_CONDITIONS[number]) => {
+    form.setValue(
+      'exit_conditions',
+      exitConditions.includes(condition)
+        ? exitConditions.filter(c => c !== condition)
+        : [...exitConditions, condition]
+    )
+  }
+
+  return (
+    <div className="space-y-4 p-4 bg-indigo-50 rounded-lg border border-indigo-200">
+      <div className="flex justify-between items-center">
+        <h4 className="text-lg font-medium text-indigo-900">Sequence Steps</h4>
+        <button
+          type="button"
+          onClick={addStep}
+          className="px-3 py-1.5 text-sm font-medium text-white bg-indigo-600 hover:bg-indigo-700 rounded-md transition-colors"
+        >
+          Add Step
+        </button>
+      </div>
+
+      {fields.map((field, index) => {
+        const step = steps[index]
+        const errors = stepErrors?.[index]
+
+        return (
+          <div key={field.id} className="p-4 bg-white rounded-md border border-indigo-100 space-y-3">
+            <div className="flex justify-between items-center">
+              <p className="text-sm font-medium text-gray-900">
+                Step {index + 1} • {formatStepDelay(step?.delay_hours || 0)}
+              </p>
+              <div className="flex space-x-2 text-xs">
+                {onPreviewStep && (
+                  <button
+                    type="button"
+                    onClick={() => onPreviewStep(index)}
+                    className="text-blue-600 hover:text-blue-800"
+                  >
+                    Preview
+                  </button>
+                )}
+                <button
+                  type="button"
+                  onClick={() => move(index, index - 1)}
+                  disabled={index === 0}
+                  className="text-gray-600 hover:text-gray-900 disabled:text-gray-300"
+                >
+                  Up
+                </button>
+                <button
+                  type="button"
+                  onClick={() => move(index, index + 1)}
+                  disabled={index === fields.length - 1}
+                  className="text-gray-600 hover:text-gray-900 disabled:text-gray-300"
+                >
+                  Down
+                </button>
+                <button
+                  type="button"
+                  onClick={() => remove(index)}
+                  className="text-red-600 hover:text-red-800"
+                >
+                  Remove
+                </button>
+              </div>
+            </div>
+
+            <div className="grid grid-cols-1 lg:grid-cols-3 gap-3">
+              <div>
+                <label className="block text-xs font-medium text-gray-700 mb-1">Channel</label>
+                <select {...form.register(`steps.${index}.message_type`)} className={inputClassName}>
+                  <option value="email">Email</option>
+                  <option value="sms">SMS</option>
+                </select>
+              </div>
+              <div>
+                <label className="block text-xs font-medium text-gray-700 mb-1">Hours after visit</label>
+                <input
+                  {...form.register(`steps.${index}.delay_hours`, { valueAsNumber: true })}
+                  type="number"
+                  min="0"
+                  max="8760"
+                  className={inputClassName}
+                />
+                {errors?.delay_hours && (
+                  <p className="mt-1 text-xs text-red-600">{errors.delay_hours.message}</p>
+                )}
+              </div>
+              <div>
+                <label className="block text-xs font-medium text-gray-700 mb-1">Saved Template</label>
+                {step?.message_type === 'sms' ? (
+                  <select {...form.register(`steps.${index}.sms_template_id`)} className={inputClassName}>
+                    <option value="">Custom message</option>
+                    {smsTemplates.map(template => (
+                      <option key={template.id} value={template.id}>{template.name}</option>
+                    ))}
+                  </select>
+                ) : (
+                  <select {...form.register(`steps.${index}.email_template_id`)} className={inputClassName}>
+                    <option value="">Custom message</option>
+                    {emailTemplates.map(template => (
+                      <option key={template.id} value={template.id}>{template.name}</option>
+                    ))}
+                  </select>
+                )}
+              </div>
+            </div>
+
+            {step?.message_type === 'email' && !step.email_template_id && (
+              <>
+                <div>
+                  <input
+                    {...form.register(`steps.${index}.email_subject`)}
+                    type="text"
+                    className={inputClassName}
+                    placeholder="Subject"
+                  />
+                  {errors?.email_subject && (
+                    <p className="mt-1 text-xs text-red-600">{errors.email_subject.message}</p>
+                  )}
+                </div>
+                <div>
+                  <textarea
+                    {...form.register(`steps.${index}.email_template`)}
+                    rows={4}
+                    className={inputClassName}
+                    placeholder="Hi {{visitor_name}}, ..."
+                  />
+                  {errors?.email_template && (
+                    <p className="mt-1 text-xs text-red-600">{errors.email_template.message}</p>
+                  )}
+                </div>
+              </>
+            )}
+
+            {step?.message_type === 'sms' && !step.sms_template_id && (
+              <div>
+                <textarea
+                  {...form.register(`steps.${index}.sms_template`)}
+                  rows={3}
+                  maxLength={1600}
+                  className={inputClassName}
+                  placeholder="Hi {{visitor_name}}! ..."
+                />
+                {errors?.sms_template && (
+                  <p className="mt-1 text-xs text-red-600">{errors.sms_template.message}</p>
+                )}
+              </div>
+            )}
+          </div>
+        )
+      })}
+
+      {fields.length === 0 && (
+        <p className="text-sm text-indigo-700">Add the first step of the sequence.</p>
+      )}
+      {stepErrors?.message && (
+        <p className="text-sm text-red-600">{stepErrors.message}</p>
+      )}
+
+      <div>
+        <p className="text-sm font-medium text-gray-700 mb-2">Stop the sequence for a visitor when they:</p>
+        <div className="flex flex-wrap gap-4">
+          {SEQUENCE_EXIT_CONDITIONS.map(condition => (
+            <label key={condition} className="flex items-center space-x-2 text-sm text-gray-700">
+              <input
+                type="checkbox"
+                checked={exitConditions.includes(condition)}
+                onChange={() => toggleExitCondition(condition)}
+                className="h-4 w-4 text-indigo-600 border-gray-300 rounded"
+              />
+              <span>{SEQUENCE_EXIT_CONDITION_LABELS[condition]}</span>
+            </label>
+          ))}
+        </div>
+      </div>
+    </div>
+  )
+}
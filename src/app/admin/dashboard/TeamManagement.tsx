@@ -0,0 +1,423 @@
+'use client'
+
+import { useState, useEffect } from 'react'
+import { useForm } from 'react-hook-form'
+import { zodResolver } from '@hookform/resolvers/zod'
+import { createClientComponentClient } from '@/lib/supabase'
+import { formatDate } from '@/lib/utils'
+import { toast } from 'react-hot-toast'
+import {
+  teamInviteSchema,
+  TEAM_ROLES,
+  TEAM_ROLE_LABELS,
+  TEAM_ROLE_DESCRIPTIONS,
+  type TeamInviteFormData,
+  type TeamRole,
+} from '@/lib/validations'
+
+interface TeamMember {
+  admin_id: string
+  first_name: string | null
+  last_name: string | null
+  email: string
+  role: TeamRole
+  joined_at: string
+}
+
+interface TeamInvite {
+  id: string
+  email: string
+  role: TeamRole
+  token: string
+  expires_at: string
+}
+
+interface TeamManagementProps {
+  teamRole: TeamRole
+  onClose: () => void
+}
+
+const inputClassName = 'w-full border border-gray-300 rounded-md px-3 py-2 text-gray-900 bg-white focus:outline-none focus:ring-2 focus:ring-blue-500 focus:border-blue-500'
+
+const memberName = (member: TeamMember) =>
+  [member.first_name, member.last_name].filter(Boolean).join(' ') || member.email
+
+export default function TeamManagement({ teamRole, onClose }: TeamManagementProps) {
+  // require_mfa comes with database-admin-mfa.sql
+  const [team, setTeam] = useState<{ id: string; name: string; require_mfa?: boolean } | null>(null)
+  const [teamName, setTeamName] = useState('')
+  const [members, setMembers] = useState<TeamMember[]>([])
+  const [invites, setInvites] = useState<TeamInvite[]>([])
+  const [currentAdminId, setCurrentAdminId] = useState<string | null>(null)
+  const [loading, setLoading] = useState(true)
+  const [newInviteLink, setNewInviteLink] = useState<string | null>(null)
+
+  const supabase = createClientComponentClient()
+  const isOwner = teamRole === 'owner'
+
+  const inviteForm = useForm<TeamInviteFormData>({
+    resolver: zodResolver(teamInviteSchema),
+    defaultValues: { role: 'agent' },
+  })
+
+  const { errors, isSubmitting } = inviteForm.formState
+
+  useEffect(() => {
+    fetchTeam()
+  }, []) // eslint-disable-line react-hooks/exhaustive-deps
+
+  const fetchTeam = async () => {
+    try {
+      const [teamResult, membersResult, adminResult] = await Promise.all([
+        supabase.from('teams').select('*').single(),
+        supabase.rpc('get_team_members'),
+        supabase.rpc('current_admin_id'),
+      ])
+
+      if (teamResult.error) throw teamResult.error
+      if (membersResult.error) throw membersResult.error
+
+      setTeam(teamResult.data)
+      setTeamName(teamResult.data.name)
+      setMembers(membersResult.data || [])
+      setCurrentAdminId(adminResult.data)
+
+      // Only owners can see invites
+      if (isOwner) {
+        const { data, error } = await supabase
+          .from('team_invites')
+          .select('id, email, role, token, expires_at')
+          .is('accepted_at', null)
+          .order('created_at', { ascending: false })
+
+        if (error) throw error
+        setInvites(data || [])
+      }
+    } catch (error) {
+      console.error('Error fetching team:', error)
+      toast.error('Failed to load your team. Please ensure database-teams.sql has been run.')
+    } finally {
+      setLoading(false)
+    }
+  }
+
+  const inviteLink = (token: string) => `${window.location.origin}/admin/join?token=${token}`
+
+  const copyInviteLink = async (link: string) => {
+    try {
+      await navigator.clipboard.writeText(link)
+      toast.success('Invite link copied')
+    } catch (error) {
+      console.error('Error copying invite link:', error)
+      toast.error('Could not copy the link. Select it and copy it instead.')
+    }
+  }
+
+  const handleRename = async () => {
+    if (!team || !teamName.trim() || teamName.trim() === team.name) return
+
+    try {
+      const { error } = await supabase
+        .from('teams')
+        .update({ name: teamName.trim() })
+        .eq('id', team.id)
+
+      if (error) throw error
+      setTeam({ ...team, name: teamName.trim() })
+      toast.success('Team renamed')
+    } catch (error: unknown) {
+      console.error('Error renaming team:', error)
+      toast.error(error instanceof Error ? error.message : 'Failed to rename team')
+    }
+  }
+
+  const handleRequireMfaChange = async (required: boolean) => {
+    if (!team) return
+    if (required && !confirm('Require two-factor authentication for everyone? Members who haven\'t set it up will have to before they can use the dashboard.')) return
+
+    try {
+      const { error } = await supabase.rpc('set_team_require_mfa', { required })
+      if (error) throw error
+
+      setTeam({ ...team, require_mfa: required })
+      toast.success(required ? 'Two-factor authentication is now required' : 'Two-factor authentication is now optional')
+    } catch (error: unknown) {
+      console.error('Error updating two-factor requirement:', error)
+      toast.error(error instanceof Error ? error.message : 'Failed to update two-factor requirement')
+    }
+  }
+
+  const onInvite = async (data: TeamInviteFormData) => {
+    try {
+      const { data: token, error } = await supabase
+        .rpc('create_team_invite', { email_param: data.email, role_param: data.role })
+
+      if (error) throw error
+
+      setNewInviteLink(inviteLink(token))
+      inviteForm.reset({ email: '', role: data.role })
+      fetchTeam()
+    } catch (error: unknown) {
+      console.error('Error creating invite:', error)
+      toast.error(error instanceof Error ? error.message : 'Failed to create invite')
+    }
+  }
+
+  const handleRevokeInvite = async (invite: TeamInvite) => {
+    if (!confirm(`Revoke the invite for ${invite.email}? Their link will stop working.`)) return
+
+    try {
+      const { error } = await supabase
+        .from('team_invites')
+        .delete()
+        .eq('id', invite.id)
+
+      if (error) throw error
+      toast.success('Invite revoked')
+      fetchTeam()
+    } catch (error: unknown) {
+      console.error('Error revoking invite:', error)
+      toast.error(error instanceof Error ? error.message : 'Failed to revoke invite')
+    }
+  }
+
+  const handleRoleChange = async (member: TeamMember, role: TeamRole) => {
+    try {
+      const { error } = await supabase
+        .rpc('set_team_member_role', { member_admin_id: member.admin_id, role_param: role })
+
+      if (error) throw error
+      toast.success(`${memberName(member)} is now ${TEAM_ROLE_LABELS[role].toLowerCase()}`)
+      fetchTeam()
+    } catch (error: unknown) {
+      console.error('Error changing role:', error)
+      toast.error(error instanceof Error ? error.message : 'Failed to change role')
+    }
+  }
+
+  // Removed members keep their own properties, leads and campaigns on a
+  // team of their own
+  const handleRemove = async (member: TeamMember) => {
+    const leaving = member.admin_id === currentAdminId
+    if (!confirm(leaving
+      ? 'Leave this team? You\'ll keep your own properties, leads and campaigns.'
+      : `Remove ${memberName(member)} from the team? They'll keep their own properties, leads and campaigns.`)) return
+
+    try {
+      const { error } = await supabase
+        .rpc('remove_team_member', { member_admin_id: member.admin_id })
+
+      if (error) throw error
+
+      if (leaving) {
+        // Everything on the dashboard depends on the team
+        window.location.reload()
+        return
+      }
+
+      toast.success(`${memberName(member)} removed from the team`)
+      fetchTeam()
+    } catch (error: unknown) {
+      console.error('Error removing member:', error)
+      toast.error(error instanceof Error ? error.message : 'Failed to remove member')
+    }
+  }
+
+  return (
+    <div className="fixed inset-0 bg-black bg-opacity-50 flex items-center justify-center p-4 z-50">
+      <div className="bg-white rounded-lg shadow-xl max-w-2xl w-full max-h-[90vh] overflow-y-auto">
+        <div className="p-6">
+          <div className="flex justify-between items-start mb-6">
+            <div>
+              <h3 className="text-xl font-bold text-gray-900">Team</h3>
+              <p className="text-sm text-gray-500 mt-1">
+                You&apos;re an {TEAM_ROLE_LABELS[teamRole].toLowerCase()} on this team.
+              </p>
+            </div>
+            <button onClick={onClose} className="text-gray-400 hover:text-gray-600">
+              <svg className="w-6 h-6" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+                <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M6 18L18 6M6 6l12 12" />
+              </svg>
+            </button>
+          </div>
+
+          {loading ? (
+            <div className="flex justify-center py-12">
+              <div className="animate-spin rounded-full h-8 w-8 border-b-2 border-blue-600"></div>
+            </div>
+          ) : (
+            <div className="space-y-8">
+              {team && (
+                <div>
+                  <label className="block text-sm font-medium text-gray-700 mb-2">Team name</label>
+                  {isOwner ? (
+                    <div className="flex space-x-2">
+                      <input
+                        type="text"
+                        value={teamName}
+                        onChange={(e) => setTeamName(e.target.value)}
+                        className={inputClassName}
+                      />
+                      <button
+                        onClick={handleRename}
+                        disabled={!teamName.trim() || teamName.trim() === team.name}
+                        className="px-4 py-2 text-sm font-medium text-white bg-blue-600 hover:bg-blue-700 disabled:bg-gray-400 rounded-md transition-colors"
+                      >
+                        Save
+                      </button>
+                    </div>
+                  ) : (
+                    <p className="text-sm text-gray-900">{team.name}</p>
+                  )}
+                  {isOwner ? (
+                    <label className="flex items-start space-x-2 mt-4">
+                      <input
+                        type="checkbox"
+                        checked={!!team.require_mfa}
+                        onChange={(e) => handleRequireMfaChange(e.target.checked)}
+                        className="mt-0.5 h-4 w-4 text-blue-600 border-gray-300 rounded"
+                      />
+                      <span className="text-sm text-gray-700">
+                        Require two-factor authentication for everyone on this team
+                      </span>
+                    </label>
+                  ) : team.require_mfa && (
+                    <p className="text-sm text-gray-600 mt-4">This team requires two-factor authentication.</p>
+                  )}
+                </div>
+              )}
+
+              <div>
+                <h4 className="text-sm font-medium text-gray-900 mb-3">Members</h4>
+                <div className="divide-y divide-gray-200 border border-gray-200 rounded-lg">
+                  {members.map(member => (
+                    <div key={member.admin_id} className="flex items-center justify-between p-3">
+                      <div className="min-w-0">
+                        <p className="text-sm font-medium text-gray-900">
+                          {memberName(member)}
+                          {member.admin_id === currentAdminId && <span className="text-gray-500 font-normal"> (you)</span>}
+                        </p>
+                        <p className="text-sm text-gray-600 truncate">{member.email}</p>
+                      </div>
+                      <div className="flex items-center space-x-3">
+                        {isOwner ? (
+                          <select
+                            value={member.role}
+                            onChange={(e) => handleRoleChange(member, e.target.value as TeamRole)}
+                            className="border border-gray-300 rounded-md px-2 py-1 text-sm text-gray-900 bg-white"
+                          >
+                            {TEAM_ROLES.map(role => (
+                              <option key={role} value={role}>{TEAM_ROLE_LABELS[role]}</option>
+                            ))}
+                          </select>
+                        ) : (
+                          <span className="text-sm text-gray-700">{TEAM_ROLE_LABELS[member.role]}</span>
+                        )}
+                        {(isOwner || member.admin_id === currentAdminId) && members.length > 1 && (
+                          <button
+                            onClick={() => handleRemove(member)}
+                            className="text-sm text-red-600 hover:text-red-800"
+                          >
+                            {member.admin_id === currentAdminId ? 'Leave' : 'Remove'}
+                          </button>
+                        )}
+                      </div>
+                    </div>
+                  ))}
+                </div>
+              </div>
+
+              {isOwner && (
+                <div>
+                  <h4 className="text-sm font-medium text-gray-900 mb-3">Invite someone</h4>
+                  <form onSubmit={inviteForm.handleSubmit(onInvite)} className="space-y-3">
+                    <div className="grid grid-cols-1 md:grid-cols-3 gap-3">
+                      <div className="md:col-span-2">
+                        <input
+                          {...inviteForm.register('email')}
+                          type="email"
+                          placeholder="agent@example.com"
+                          className={inputClassName}
+                        />
+                        {errors.email && <p className="mt-1 text-sm text-red-600">{errors.email.message}</p>}
+                      </div>
+                      <select {...inviteForm.register('role')} className={inputClassName}>
+                        {TEAM_ROLES.map(role => (
+                          <option key={role} value={role}>{TEAM_ROLE_LABELS[role]}</option>
+                        ))}
+                      </select>
+                    </div>
+                    <p className="text-xs text-gray-500">{TEAM_ROLE_DESCRIPTIONS[inviteForm.watch('role')]}</p>
+                    <div className="flex justify-end">
+                      <button
+                        type="submit"
+                        disabled={isSubmitting}
+                        className="px-4 py-2 text-sm font-medium text-white bg-blue-600 hover:bg-blue-700 disabled:bg-gray-400 rounded-md transition-colors"
+                      >
+                        {isSubmitting ? 'Creating...' : 'Create Invite Link'}
+                      </button>
+                    </div>
+                  </form>
+
+                  {newInviteLink && (
+                    <div className="mt-4 bg-green-50 border border-green-200 rounded-lg p-4">
+                      <p className="text-sm text-green-800 mb-2">
+                        Send this link to them. It works once, for that email address, for the next 7 days.
+                      </p>
+                      <div className="flex space-x-2">
+                        <input type="text" readOnly value={newInviteLink} className={`${inputClassName} text-sm`} />
+                        <button
+                          onClick={() => copyInviteLink(newInviteLink)}
+                          className="px-4 py-2 text-sm font-medium text-white bg-green-600 hover:bg-green-700 rounded-md transition-colors"
+                        >
+                          Copy
+                        </button>
+                      </div>
+                    </div>
+                  )}
+
+                  {invites.length > 0 && (
+                    <div className="mt-6">
+                      <h4 className="text-sm font-medium text-gray-900 mb-3">Pending invites</h4>
+                      <div className="divide-y divide-gray-200 border border-gray-200 rounded-lg">
+                        {invites.map(invite => {
+                          const expired = new Date(invite.expires_at) < new Date()
+                          return (
+                            <div key={invite.id} className="flex items-center justify-between p-3">
+                              <div className="min-w-0">
+                                <p className="text-sm text-gray-900 truncate">{invite.email}</p>
+                                <p className="text-xs text-gray-500">
+                                  {TEAM_ROLE_LABELS[invite.role]} • {expired ? 'Expired' : `Expires ${formatDate(invite.expires_at)}`}
+                                </p>
+                              </div>
+                              <div className="flex items-center space-x-3">
+                                {!expired && (
+                                  <button
+                                    onClick={() => copyInviteLink(inviteLink(invite.token))}
+                                    className="text-sm font-medium text-blue-600 hover:text-blue-800"
+                                  >
+                                    Copy link
+                                  </button>
+                                )}
+                                <button
+                                  onClick={() => handleRevokeInvite(invite)}
+                                  className="text-sm text-red-600 hover:text-red-800"
+                                >
+                                  {expired ? 'Remove' : 'Revoke'}
+                                </button>
+                              </div>
+                            </div>
+                          )
+                        })}
+                      </div>
+                    </div>
+                  )}
+                </div>
+              )}
+            </div>
+          )}
+        </div>
+      </div>
+    </div>
+  )
+}
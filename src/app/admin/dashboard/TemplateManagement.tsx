@@ -0,0 +1,477 @@
+'use client'
+
+import { useState } from 'react'
+import { createClientComponentClient } from '@/lib/supabase'
+import { toast } from 'react-hot-toast'
+import { useForm } from 'react-hook-form'
+import { zodResolver } from '@hookform/resolvers/zod'
+import {
+  emailTemplateFormSchema,
+  smsTemplateFormSchema,
+  extractTemplateVariables,
+  type EmailTemplateEditorData,
+  type SMSTemplateEditorData,
+} from '@/lib/follow-up-validations'
+
+export interface EmailTemplate {
+  id: string
+  name: string
+  description?: string
+  subject: string
+  html_content: string
+  text_content?: string
+  admin_id: string | null
+  updated_at: string
+}
+
+export interface SMSTemplate {
+  id: string
+  name: string
+  description?: string
+  content: string
+  admin_id: string | null
+  updated_at: string
+}
+
+export type TemplateKind = 'email' | 'sms'
+
+interface TemplateUsage {
+  email_template_id?: string | null
+  sms_template_id?: string | null
+}
+
+interface TemplateManagementProps {
+  emailTemplates: EmailTemplate[]
+  smsTemplates: SMSTemplate[]
+  campaigns: TemplateUsage[]
+  onTemplatesChanged: () => void
+  onStartCampaign: (kind: TemplateKind, templateId: string) => void
+}
+
+export default function TemplateManagement({
+  emailTemplates,
+  smsTemplates,
+  campaigns,
+  onTemplatesChanged,
+  onStartCampaign,
+}: TemplateManagementProps) {
+  const [editingEmailTemplate, setEditingEmailTemplate] = useState<EmailTemplate | 'new' | null>(null)
+  const [editingSMSTemplate, setEditingSMSTemplate] = useState<SMSTemplate | 'new' | null>(null)
+
+  const supabase = createClientComponentClient()
+
+  const emailForm = useForm<EmailTemplateEditorData>({
+    resolver: zodResolver(emailTemplateFormSchema),
+  })
+
+  const smsForm = useForm<SMSTemplateEditorData>({
+    resolver: zodResolver(smsTemplateFormSchema),
+  })
+
+  const getAdminId = async () => {
+    const { data: { user } } = await supabase.auth.getUser()
+    if (!user) throw new Error('Not authenticated')
+
+    const { data: adminData, error: adminError } = await supabase
+      .from('admins')
+      .select('id')
+      .eq('user_id', user.id)
+      .single()
+
+    if (adminError || !adminData) throw new Error('Admin not found')
+    return adminData.id as string
+  }
+
+  const countUsage = (kind: TemplateKind, templateId: string) =>
+    campaigns.filter(campaign =>
+      kind === 'email' ? campaign.email_template_id === templateId : campaign.sms_template_id === templateId
+    ).length
+
+  const openEmailEditor = (template: EmailTemplate | 'new', copy = false) => {
+    setEditingEmailTemplate(copy ? 'new' : template)
+    emailForm.reset(template === 'new' ? {
+      name: '',
+      description: '',
+      subject: '',
+      html_content: '',
+      text_content: '',
+    } : {
+      name: copy ? `${template.name} (copy)` : template.name,
+      description: template.description || '',
+      subject: template.subject,
+      html_content: template.html_content,
+      text_content: template.text_content || '',
+    })
+  }
+
+  const openSMSEditor = (template: SMSTemplate | 'new', copy = false) => {
+    setEditingSMSTemplate(copy ? 'new' : template)
+    smsForm.reset(template === 'new' ? {
+      name: '',
+      description: '',
+      content: '',
+    } : {
+      name: copy ? `${template.name} (copy)` : template.name,
+      description: template.description || '',
+      content: template.content,
+    })
+  }
+
+  const onSubmitEmailTemplate = async (data: EmailTemplateEditorData) => {
+    try {
+      const variables = extractTemplateVariables(`${data.subject} ${data.html_content} ${data.text_content || ''}`)
+
+      if (editingEmailTemplate && editingEmailTemplate !== 'new') {
+        const { error } = await supabase
+          .from('email_templates')
+          .update({ ...data, variables })
+          .eq('id', editingEmailTemplate.id)
+
+        if (error) throw error
+        toast.success('Email template updated successfully!')
+      } else {
+        const { error } = await supabase
+          .from('email_templates')
+          .insert([{ ...data, variables, admin_id: await getAdminId() }])
+
+        if (error) throw error
+        toast.success('Email template created successfully!')
+      }
+
+      setEditingEmailTemplate(null)
+      onTemplatesChanged()
+    } catch (error: unknown) {
+      console.error('Error saving email template:', error)
+      toast.error(error instanceof Error ? error.message : 'Failed to save email template')
+    }
+  }
+
+  const onSubmitSMSTemplate = async (data: SMSTemplateEditorData) => {
+    try {
+      const variables = extractTemplateVariables(data.content)
+
+      if (editingSMSTemplate && editingSMSTemplate !== 'new') {
+        const { error } = await supabase
+          .from('sms_templates')
+          .update({ ...data, variables })
+          .eq('id', editingSMSTemplate.id)
+
+        if (error) throw error
+        toast.success('SMS template updated successfully!')
+      } else {
+        const { error } = await supabase
+          .from('sms_templates')
+          .insert([{ ...data, variables, admin_id: await getAdminId() }])
+
+        if (error) throw error
+        toast.success('SMS template created successfully!')
+      }
+
+      setEditingSMSTemplate(null)
+      onTemplatesChanged()
+    } catch (error: unknown) {
+      console.error('Error saving SMS template:', error)
+      toast.error(error instanceof Error ? error.message : 'Failed to save SMS template')
+    }
+  }
+
+  const handleDeleteTemplate = async (kind: TemplateKind, templateId: string) => {
+    if (!confirm('Are you sure you want to delete this template?')) return
+
+    try {
+      const { error } = await supabase
+        .from(kind === 'email' ? 'email_templates' : 'sms_templates')
+        .delete()
+        .eq('id', templateId)
+
+      if (error) throw error
+      toast.success('Template deleted successfully!')
+      onTemplatesChanged()
+    } catch (error: unknown) {
+      console.error('Error deleting template:', error)
+      toast.error('Failed to delete template')
+    }
+  }
+
+  const renderTemplateCard = (
+    kind: TemplateKind,
+    template: EmailTemplate | SMSTemplate,
+    preview: string,
+    onEdit: () => void,
+    onDuplicate: () => void
+  ) => {
+    const usage = countUsage(kind, template.id)
+    const isDefault = template.admin_id === null
+
+    return (
+      <div key={template.id} className="bg-white rounded-lg shadow-sm border border-gray-200 p-6 flex flex-col">
+        <div className="flex justify-between items-start mb-2">
+          <h4 className="text-lg font-semibold text-gray-900">{template.name}</h4>
+          {isDefault && (
+            <span className="inline-flex items-center px-2 py-1 rounded-full text-xs font-medium border bg-gray-100 text-gray-800 border-gray-200">
+              default
+            </span>
+          )}
+        </div>
+        {template.description && (
+          <p className="text-sm text-gray-600 mb-2">{template.description}</p>
+        )}
+        <p className="text-sm text-gray-500 mb-2 line-clamp-3 flex-1">{preview}</p>
+        <p className="text-xs text-gray-500 mb-4">
+          {usage === 0 ? 'Not used by any campaign' : `Used by ${usage} campaign${usage === 1 ? '' : 's'}`}
+        </p>
+
+        <div className="flex space-x-2">
+          <button
+            onClick={() => onStartCampaign(kind, template.id)}
+            className="flex-1 bg-green-600 hover:bg-green-700 text-white text-sm py-2 px-3 rounded-md transition-colors"
+          >
+            Use
+          </button>
+          {isDefault ? (
+            <button
+              onClick={onDuplicate}
+              className="flex-1 bg-blue-600 hover:bg-blue-700 text-white text-sm py-2 px-3 rounded-md transition-colors"
+            >
+              Duplicate
+            </button>
+          ) : (
+            <>
+              <button
+                onClick={onEdit}
+                className="flex-1 bg-blue-600 hover:bg-blue-700 text-white text-sm py-2 px-3 rounded-md transition-colors"
+              >
+                Edit
+              </button>
+              <button
+                onClick={() => handleDeleteTemplate(kind, template.id)}
+                disabled={usage > 0}
+                title={usage > 0 ? 'Templates used by a campaign cannot be deleted' : undefined}
+                className="bg-red-600 hover:bg-red-700 disabled:bg-gray-300 text-white text-sm py-2 px-3 rounded-md transition-colors"
+              >
+                <svg className="w-4 h-4" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+                  <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M19 7l-.867 12.142A2 2 0 0116.138 21H7.862a2 2 0 01-1.995-1.858L5 7m5 4v6m4-6v6m1-10V4a1 1 0 00-1-1h-4a1 1 0 00-1 1v3M4 7h16" />
+                </svg>
+              </button>
+            </>
+          )}
+        </div>
+      </div>
+    )
+  }
+
+  const inputClassName = 'w-full border border-gray-300 rounded-md px-3 py-2 text-gray-900 bg-white focus:outline-none focus:ring-2 focus:ring-blue-500 focus:border-blue-500'
+
+  return (
+    <div className="space-y-8">
+      {/* Email Templates */}
+      <div>
+        <div className="flex justify-between items-center mb-4">
+          <h3 className="text-lg font-medium text-gray-900">Email Templates ({emailTemplates.length})</h3>
+          <button
+            onClick={() => openEmailEditor('new')}
+            className="inline-flex items-center px-3 py-2 bg-blue-600 hover:bg-blue-700 text-white text-sm font-medium rounded-lg transition-colors"
+          >
+            New Email Template
+          </button>
+        </div>
+        {emailTemplates.length === 0 ? (
+          <p className="text-sm text-gray-500">No email templates yet.</p>
+        ) : (
+          <div className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-3 gap-6">
+            {emailTemplates.map(template => renderTemplateCard(
+              'email',
+              template,
+              template.subject,
+              () => openEmailEditor(template),
+              () => openEmailEditor(template, true)
+            ))}
+          </div>
+        )}
+      </div>
+
+      {/* SMS Templates */}
+      <div>
+        <div className="flex justify-between items-center mb-4">
+          <h3 className="text-lg font-medium text-gray-900">SMS Templates ({smsTemplates.length})</h3>
+          <button
+            onClick={() => openSMSEditor('new')}
+            className="inline-flex items-center px-3 py-2 bg-blue-600 hover:bg-blue-700 text-white text-sm font-medium rounded-lg transition-colors"
+          >
+            New SMS Template
+          </button>
+        </div>
+        {smsTemplates.length === 0 ? (
+          <p className="text-sm text-gray-500">No SMS templates yet.</p>
+        ) : (
+          <div className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-3 gap-6">
+            {smsTemplates.map(template => renderTemplateCard(
+              'sms',
+              template,
+              template.content,
+              () => openSMSEditor(template),
+              () => openSMSEditor(template, true)
+            ))}
+          </div>
+        )}
+      </div>
+
+      {/* Email Template Editor Modal */}
+      {editingEmailTemplate && (
+        <div className="fixed inset-0 bg-black bg-opacity-50 z-50 flex items-start justify-center p-4 overflow-y-auto">
+          <div className="bg-white rounded-lg shadow-xl w-full max-w-3xl my-8">
+            <div className="flex justify-between items-center p-6 border-b border-gray-200">
+              <h3 className="text-xl font-bold text-gray-900">
+                {editingEmailTemplate === 'new' ? 'New Email Template' : 'Edit Email Template'}
+              </h3>
+              <button
+                onClick={() => setEditingEmailTemplate(null)}
+                className="text-gray-400 hover:text-gray-600 p-1 rounded-lg hover:bg-gray-100"
+              >
+                <svg className="w-6 h-6" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+                  <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M6 18L18 6M6 6l12 12" />
+                </svg>
+              </button>
+            </div>
+
+            <form onSubmit={emailForm.handleSubmit(onSubmitEmailTemplate)} className="p-6 space-y-4">
+              <div>
+                <label className="block text-sm font-medium text-gray-700 mb-2">Name *</label>
+                <input {...emailForm.register('name')} type="text" className={inputClassName} />
+                {emailForm.formState.errors.name && (
+                  <p className="mt-1 text-sm text-red-600">{emailForm.formState.errors.name.message}</p>
+                )}
+              </div>
+
+              <div>
+                <label className="block text-sm font-medium text-gray-700 mb-2">Description</label>
+                <input {...emailForm.register('description')} type="text" className={inputClassName} />
+              </div>
+
+              <div>
+                <label className="block text-sm font-medium text-gray-700 mb-2">Subject *</label>
+                <input
+                  {...emailForm.register('subject')}
+                  type="text"
+                  className={inputClassName}
+                  placeholder="Thank you for visiting {{property_name}}!"
+                />
+                {emailForm.formState.errors.subject && (
+                  <p className="mt-1 text-sm text-red-600">{emailForm.formState.errors.subject.message}</p>
+                )}
+              </div>
+
+              <div>
+                <label className="block text-sm font-medium text-gray-700 mb-2">HTML Content *</label>
+                <textarea {...emailForm.register('html_content')} rows={8} className={inputClassName} />
+                {emailForm.formState.errors.html_content && (
+                  <p className="mt-1 text-sm text-red-600">{emailForm.formState.errors.html_content.message}</p>
+                )}
+              </div>
+
+              <div>
+                <label className="block text-sm font-medium text-gray-700 mb-2">Plain Text Content</label>
+                <textarea
+                  {...emailForm.register('text_content')}
+                  rows={5}
+                  className={inputClassName}
+                  placeholder="Optional. Generated from the HTML when left blank."
+                />
+                {emailForm.formState.errors.text_content && (
+                  <p className="mt-1 text-sm text-red-600">{emailForm.formState.errors.text_content.message}</p>
+                )}
+              </div>
+
+              <div className="flex justify-end space-x-3 pt-4 border-t border-gray-200">
+                <button
+                  type="button"
+                  onClick={() => setEditingEmailTemplate(null)}
+                  className="px-4 py-2 text-sm font-medium text-gray-700 bg-gray-200 hover:bg-gray-300 rounded-md transition-colors"
+                >
+                  Cancel
+                </button>
+                <button
+                  type="submit"
+                  disabled={emailForm.formState.isSubmitting}
+                  className="px-4 py-2 text-sm font-medium text-white bg-blue-600 hover:bg-blue-700 disabled:bg-gray-400 rounded-md transition-colors"
+                >
+                  Save Template
+                </button>
+              </div>
+            </form>
+          </div>
+        </div>
+      )}
+
+      {/* SMS Template Editor Modal */}
+      {editingSMSTemplate && (
+        <div className="fixed inset-0 bg-black bg-opacity-50 z-50 flex items-start justify-center p-4 overflow-y-auto">
+          <div className="bg-white rounded-lg shadow-xl w-full max-w-2xl my-8">
+            <div className="flex justify-between items-center p-6 border-b border-gray-200">
+              <h3 className="text-xl font-bold text-gray-900">
+                {editingSMSTemplate === 'new' ? 'New SMS Template' : 'Edit SMS Template'}
+              </h3>
+              <button
+                onClick={() => setEditingSMSTemplate(null)}
+                className="text-gray-400 hover:text-gray-600 p-1 rounded-lg hover:bg-gray-100"
+              >
+                <svg className="w-6 h-6" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+                  <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M6 18L18 6M6 6l12 12" />
+                </svg>
+              </button>
+            </div>
+
+            <form onSubmit={smsForm.handleSubmit(onSubmitSMSTemplate)} className="p-6 space-y-4">
+              <div>
+                <label className="block text-sm font-medium text-gray-700 mb-2">Name *</label>
+                <input {...smsForm.register('name')} type="text" className={inputClassName} />
+                {smsForm.formState.errors.name && (
+                  <p className="mt-1 text-sm text-red-600">{smsForm.formState.errors.name.message}</p>
+                )}
+              </div>
+
+              <div>
+                <label className="block text-sm font-medium text-gray-700 mb-2">Description</label>
+                <input {...smsForm.register('description')} type="text" className={inputClassName} />
+              </div>
+
+              <div>
+                <label className="block text-sm font-medium text-gray-700 mb-2">Message *</label>
+                <textarea
+                  {...smsForm.register('content')}
+                  rows={4}
+                  maxLength={1600}
+                  className={inputClassName}
+                  placeholder="Hi {{visitor_name}}! Thanks for visiting {{property_name}} today. - {{admin_name}}"
+                />
+                <p className="text-xs text-gray-500 mt-1">
+                  {smsForm.watch('content')?.length || 0}/1600 characters
+                </p>
+                {smsForm.formState.errors.content && (
+                  <p className="mt-1 text-sm text-red-600">{smsForm.formState.errors.content.message}</p>
+                )}
+              </div>
+
+              <div className="flex justify-end space-x-3 pt-4 border-t border-gray-200">
+                <button
+                  type="button"
+                  onClick={() => setEditingSMSTemplate(null)}
+                  className="px-4 py-2 text-sm font-medium text-gray-700 bg-gray-200 hover:bg-gray-300 rounded-md transition-colors"
+                >
+                  Cancel
+                </button>
+                <button
+                  type="submit"
+                  disabled={smsForm.formState.isSubmitting}
+                  className="px-4 py-2 text-sm font-medium text-white bg-blue-600 hover:bg-blue-700 disabled:bg-gray-400 rounded-md transition-colors"
+                >
+                  Save Template
+                </button>
+              </div>
+            </form>
+          </div>
+        </div>
+      )}
+    </div>
+  )
+}
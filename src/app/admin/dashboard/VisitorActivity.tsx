@@ -0,0 +1,349 @@
+'use client'
+
+import { useState, useEffect } from 'react'
+import { createClientComponentClient } from '@/lib/supabase'
+import { formatDateTime } from '@/lib/utils'
+import { toast } from 'react-hot-toast'
+import { useForm } from 'react-hook-form'
+import { zodResolver } from '@hookform/resolvers/zod'
+import { followupSchema, CALL_OUTCOMES, PIPELINE_STAGE_LABELS, type FollowupFormData, type PipelineStage } from '@/lib/validations'
+
+type TimelineEventType =
+  | 'check_in'
+  | 'feedback'
+  | 'message_queued'
+  | 'message_sent'
+  | 'message_delivered'
+  | 'message_opened'
+  | 'message_clicked'
+  | 'message_failed'
+  | 'note'
+  | 'call'
+  | 'unsubscribed'
+  | 'stage_changed'
+
+interface TimelineEvent {
+  occurred_at: string
+  event_type: TimelineEventType
+  detail: Record<string, string | number | boolean | null>
+}
+
+export interface ActivityVisitor {
+  id: string
+  name: string
+  email: string
+  phone: string
+  property_name?: string
+}
+
+interface VisitorActivityProps {
+  visitor: ActivityVisitor
+  onClose: () => void
+}
+
+const callOutcomeLabels: Record<typeof CALL_OUTCOMES[number], string> = {
+  connected: 'Connected',
+  left_voicemail: 'Left voicemail',
+  no_answer: 'No answer',
+  wrong_number: 'Wrong number',
+}
+
+const messageStatusLabels: Partial<Record<TimelineEventType, string>> = {
+  message_queued: 'queued',
+  message_sent: 'sent',
+  message_delivered: 'delivered',
+  message_opened: 'opened',
+  message_clicked: 'clicked',
+  message_failed: 'failed',
+}
+
+const checkInLabels: Record<string, string> = {
+  home_buying_status: 'Buying status',
+  looking_to_buy_within: 'Timeframe',
+  budget_range: 'Budget',
+  financing_status: 'Pre-approved',
+  how_did_you_hear: 'Heard about it from',
+}
+
+const feedbackLabels: Record<string, string> = {
+  liked_most: 'Liked most',
+  liked_least: 'Liked least',
+  comparison_to_others: 'Compared to others',
+  meets_needs: 'Meets needs',
+  would_make_offer: 'Would make an offer',
+  perceived_value: 'Value',
+  follow_up_preference: 'Follow-up preference',
+}
+
+const inputClassName = 'w-full border border-gray-300 rounded-md px-3 py-2 text-gray-900 bg-white focus:outline-none focus:ring-2 focus:ring-blue-500 focus:border-blue-500'
+
+// Form answers are stored as codes like "0-3_months"
+function humanize(value: string | number | boolean | null): string {
+  const text = String(value).replace(/_/g, ' ')
+  return text.charAt(0).toUpperCase() + text.slice(1)
+}
+
+function eventTitle(event: TimelineEvent): string {
+  const { detail } = event
+  switch (event.event_type) {
+    case 'check_in':
+      return `Checked in${detail.property_name ? ` at ${detail.property_name}` : ''}`
+    case 'feedback':
+      return `Left feedback • ${detail.rating}/5${detail.interested ? ' • Interested' : ''}`
+    case 'note':
+      return `Note${detail.author ? ` by ${detail.author}` : ''}`
+    case 'call':
+      return [
+        `Call${detail.author ? ` by ${detail.author}` : ''}`,
+        detail.call_outcome ? callOutcomeLabels[detail.call_outcome as keyof typeof callOutcomeLabels] : null,
+        detail.call_duration_minutes != null ? `${detail.call_duration_minutes} min` : null,
+      ].filter(Boolean).join(' • ')
+    case 'stage_changed':
+      return `Moved to ${PIPELINE_STAGE_LABELS[detail.to_stage as PipelineStage]}${detail.author ? ` by ${detail.author}` : ''}`
+    case 'unsubscribed':
+      return `Unsubscribed from ${detail.unsubscribe_type === 'both' ? 'all messages' : detail.unsubscribe_type === 'sms' ? 'SMS' : 'email'}`
+    default:
+      return `${detail.channel === 'sms' ? 'SMS' : 'Email'} ${messageStatusLabels[event.event_type]}`
+  }
+}
+
+// Label/value pairs shown under an event's title
+function eventLines(event: TimelineEvent): [string, string][] {
+  const { detail } = event
+  const answers = (labels: Record<string, string>) => Object.entries(labels)
+    .filter(([key]) => detail[key])
+    .map(([key, label]): [string, string] => [label, humanize(detail[key])])
+
+  switch (event.event_type) {
+    case 'check_in':
+      return answers(checkInLabels)
+    case 'feedback':
+      return [
+        ...(detail.comments ? [['Comments', String(detail.comments)] as [string, string]] : []),
+        ...answers(feedbackLabels),
+      ]
+    case 'note':
+    case 'call':
+      return detail.notes ? [['', String(detail.notes)]] : []
+    case 'stage_changed':
+      return detail.from_stage ? [['From', PIPELINE_STAGE_LABELS[detail.from_stage as PipelineStage]]] : []
+    case 'unsubscribed':
+      return detail.reason ? [['Reason', String(detail.reason)]] : []
+    default:
+      return [
+        ['Campaign', String(detail.campaign_name || 'Deleted campaign')],
+        ...(detail.subject ? [['Subject', String(detail.subject)] as [string, string]] : []),
+        ...(detail.error_message ? [['Error', String(detail.error_message)] as [string, string]] : []),
+      ]
+  }
+}
+
+function eventDotColor(type: TimelineEventType): string {
+  if (type === 'message_failed' || type === 'unsubscribed') return 'bg-red-500'
+  if (type === 'note' || type === 'call') return 'bg-amber-500'
+  if (type === 'check_in' || type === 'feedback') return 'bg-blue-600'
+  if (type === 'stage_changed') return 'bg-indigo-500'
+  return 'bg-green-500'
+}
+
+export default function VisitorActivity({ visitor, onClose }: VisitorActivityProps) {
+  const [events, setEvents] = useState<TimelineEvent[]>([])
+  const [loading, setLoading] = useState(true)
+
+  const supabase = createClientComponentClient()
+
+  const activityForm = useForm<FollowupFormData>({
+    resolver: zodResolver(followupSchema),
+    defaultValues: { activity_type: 'note' },
+  })
+
+  const { errors, isSubmitting } = activityForm.formState
+  const activityType = activityForm.watch('activity_type')
+
+  useEffect(() => {
+    fetchTimeline()
+  }, [visitor.id]) // eslint-disable-line react-hooks/exhaustive-deps
+
+  const fetchTimeline = async () => {
+    try {
+      const { data, error } = await supabase
+        .rpc('get_visitor_timeline', { visitor_id_param: visitor.id })
+
+      if (error) throw error
+      setEvents(data || [])
+    } catch (error) {
+      console.error('Error fetching visitor timeline:', error)
+      toast.error('Failed to load visitor activity')
+    } finally {
+      setLoading(false)
+    }
+  }
+
+  const onSubmitActivity = async (data: FollowupFormData) => {
+    try {
+      const { data: { user } } = await supabase.auth.getUser()
+      if (!user) throw new Error('Not authenticated')
+
+      const { data: adminData, error: adminError } = await supabase
+        .from('admins')
+        .select('id')
+        .eq('user_id', user.id)
+        .single()
+
+      if (adminError || !adminData) throw new Error('Admin not found')
+
+      const { error } = await supabase
+        .from('followups')
+        .insert([{
+          visitor_id: visitor.id,
+          admin_id: adminData.id,
+          activity_type: data.activity_type,
+          notes: data.notes?.trim() || null,
+          call_outcome: data.activity_type === 'call' ? data.call_outcome : null,
+          call_duration_minutes: data.activity_type === 'call' ? data.call_duration_minutes ?? null : null,
+          last_followed_up: new Date().toISOString(),
+        }])
+
+      if (error) throw error
+
+      toast.success(data.activity_type === 'call' ? 'Call logged' : 'Note added')
+      activityForm.reset({ activity_type: data.activity_type })
+      fetchTimeline()
+    } catch (error: unknown) {
+      console.error('Error saving activity:', error)
+      toast.error(error instanceof Error ? error.message : 'Failed to save activity')
+    }
+  }
+
+  return (
+    <div className="fixed inset-0 z-50 flex justify-end">
+      <div className="absolute inset-0 bg-black bg-opacity-50" onClick={onClose} />
+      <div className="relative bg-white w-full max-w-xl h-full shadow-xl overflow-y-auto">
+        <div className="p-6">
+          <div className="flex justify-between items-start mb-6">
+            <div>
+              <h3 className="text-xl font-bold text-gray-900">{visitor.name}</h3>
+              <p className="text-sm text-gray-500 mt-1">{visitor.email} • {visitor.phone}</p>
+              {visitor.property_name && (
+                <p className="text-sm text-gray-500">{visitor.property_name}</p>
+              )}
+            </div>
+            <button onClick={onClose} className="text-gray-400 hover:text-gray-600">
+              <svg className="w-6 h-6" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+                <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M6 18L18 6M6 6l12 12" />
+              </svg>
+            </button>
+          </div>
+
+          <form
+            onSubmit={activityForm.handleSubmit(onSubmitActivity)}
+            className="bg-gray-50 border border-gray-200 rounded-lg p-4 mb-6 space-y-3"
+          >
+            <div className="flex space-x-4">
+              <label className="flex items-center text-sm text-gray-700">
+                <input
+                  {...activityForm.register('activity_type')}
+                  type="radio"
+                  value="note"
+                  className="h-4 w-4 text-blue-600 focus:ring-blue-500 border-gray-300 mr-2"
+                />
+                Add note
+              </label>
+              <label className="flex items-center text-sm text-gray-700">
+                <input
+                  {...activityForm.register('activity_type')}
+                  type="radio"
+                  value="call"
+                  className="h-4 w-4 text-blue-600 focus:ring-blue-500 border-gray-300 mr-2"
+                />
+                Log call
+              </label>
+            </div>
+
+            {activityType === 'call' && (
+              <div className="grid grid-cols-2 gap-3">
+                <div>
+                  <select
+                    {...activityForm.register('call_outcome', { setValueAs: value => value || undefined })}
+                    className={inputClassName}
+                  >
+                    <option value="">How did it go?</option>
+                    {CALL_OUTCOMES.map(outcome => (
+                      <option key={outcome} value={outcome}>{callOutcomeLabels[outcome]}</option>
+                    ))}
+                  </select>
+                  {errors.call_outcome && (
+                    <p className="mt-1 text-sm text-red-600">{errors.call_outcome.message}</p>
+                  )}
+                </div>
+                <div>
+                  <input
+                    {...activityForm.register('call_duration_minutes', { setValueAs: value => value === '' ? undefined : Number(value) })}
+                    type="number"
+                    min="0"
+                    placeholder="Minutes"
+                    className={inputClassName}
+                  />
+                  {errors.call_duration_minutes && (
+                    <p className="mt-1 text-sm text-red-600">{errors.call_duration_minutes.message}</p>
+                  )}
+                </div>
+              </div>
+            )}
+
+            <div>
+              <textarea
+                {...activityForm.register('notes')}
+                rows={3}
+                placeholder={activityType === 'call' ? 'What was discussed? (optional)' : 'Add a note about this visitor'}
+                className={inputClassName}
+              />
+              {errors.notes && (
+                <p className="mt-1 text-sm text-red-600">{errors.notes.message}</p>
+              )}
+            </div>
+
+            <div className="flex justify-end">
+              <button
+                type="submit"
+                disabled={isSubmitting}
+                className="px-4 py-2 text-sm font-medium text-white bg-blue-600 hover:bg-blue-700 disabled:bg-gray-400 rounded-md transition-colors"
+              >
+                {isSubmitting ? 'Saving...' : activityType === 'call' ? 'Log Call' : 'Add Note'}
+              </button>
+            </div>
+          </form>
+
+          <h4 className="text-sm font-medium text-gray-900 mb-3">Activity</h4>
+          {loading ? (
+            <div className="flex items-center justify-center py-8">
+              <div className="animate-spin rounded-full h-8 w-8 border-b-2 border-blue-600"></div>
+            </div>
+          ) : events.length === 0 ? (
+            <p className="text-sm text-gray-500">No activity yet.</p>
+          ) : (
+            <ol className="space-y-4">
+              {events.map((event, index) => (
+                <li key={index} className="flex items-start">
+                  <span className={`mt-1.5 mr-3 h-2 w-2 rounded-full flex-shrink-0 ${eventDotColor(event.event_type)}`} />
+                  <div className="min-w-0 flex-1">
+                    <div className="flex justify-between items-baseline">
+                      <span className="text-sm font-medium text-gray-900">{eventTitle(event)}</span>
+                      <span className="text-xs text-gray-500 ml-2 whitespace-nowrap">{formatDateTime(event.occurred_at)}</span>
+                    </div>
+                    {eventLines(event).map(([label, value], lineIndex) => (
+                      <p key={lineIndex} className="text-sm text-gray-600 break-words whitespace-pre-wrap">
+                        {label && <span className="text-gray-500">{label}: </span>}
+                        {value}
+                      </p>
+                    ))}
+                  </div>
+                </li>
+              ))}
+            </ol>
+          )}
+        </div>
+      </div>
+    </div>
+  )
+}
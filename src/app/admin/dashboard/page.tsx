@@ -1,7 +1,15 @@
 import { Suspense } from 'react'
 import AdminDashboard from './AdminDashboard'
+import { requireAdmin, getTeamRole } from '@/lib/admin-session'
+import { loadDashboardData } from '@/lib/dashboard-data'
+
+export default async function AdminDashboardPage() {
+  const { supabase, admin } = await requireAdmin()
+  const [initialData, teamRole] = await Promise.all([
+    loadDashboardData(supabase),
+    getTeamRole(supabase, admin.id),
+  ])
 
-export default function AdminDashboardPage() {
   return (
     <div className="min-h-screen bg-gray-50">
       <Suspense fallback={
@@ -9,7 +17,7 @@ export default function AdminDashboardPage() {
           <div className="animate-spin rounded-full h-32 w-32 border-b-2 border-blue-600"></div>
         </div>
       }>
-        <AdminDashboard />
+        <AdminDashboard initialData={initialData} teamRole={teamRole} />
       </Suspense>
     </div>
   )
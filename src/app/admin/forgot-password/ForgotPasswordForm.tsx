@@ -0,0 +1,82 @@
+'use client'
+
+import { useState } from 'react'
+import { useForm } from 'react-hook-form'
+import { zodResolver } from '@hookform/resolvers/zod'
+import { toast } from 'react-hot-toast'
+import { adminPasswordResetRequestSchema, type AdminPasswordResetRequestData } from '@/lib/validations'
+import { createClientComponentClient } from '@/lib/supabase'
+
+export default function ForgotPasswordForm() {
+  const [isSubmitting, setIsSubmitting] = useState(false)
+  const [sentTo, setSentTo] = useState<string | null>(null)
+  const supabase = createClientComponentClient()
+
+  const form = useForm<AdminPasswordResetRequestData>({
+    resolver: zodResolver(adminPasswordResetRequestSchema),
+  })
+
+  const onSubmit = async (data: AdminPasswordResetRequestData) => {
+    setIsSubmitting(true)
+    try {
+      const { error } = await supabase.auth.resetPasswordForEmail(data.email, {
+        redirectTo: `${window.location.origin}/admin/auth/confirm?type=recovery&next=${encodeURIComponent('/admin/password')}`,
+      })
+      if (error) throw error
+
+      setSentTo(data.email)
+    } catch (error: unknown) {
+      console.error('Error requesting password reset:', error)
+      toast.error(error instanceof Error ? error.message : 'Failed to send reset email')
+    } finally {
+      setIsSubmitting(false)
+    }
+  }
+
+  // Shown whether or not the email has an account, so this page can't be used
+  // to find out who does
+  if (sentTo) {
+    return (
+      <div className="text-center space-y-3">
+        <p className="text-gray-200">
+          If {sentTo} has an admin account, a reset link is on its way. It works once.
+        </p>
+        <button
+          type="button"
+          onClick={() => setSentTo(null)}
+          className="text-sm text-gray-300 hover:text-white transition-colors underline"
+        >
+          Use a different email
+        </button>
+      </div>
+    )
+  }
+
+  return (
+    <form onSubmit={form.handleSubmit(onSubmit)} className="space-y-6">
+      <div>
+        <label htmlFor="email" className="block text-sm font-medium text-gray-200 mb-2">
+          Email Address
+        </label>
+        <input
+          {...form.register('email')}
+          type="email"
+          id="email"
+          className="w-full px-4 py-3 bg-white/10 border border-white/20 rounded-lg text-white placeholder-gray-400 focus:outline-none focus:ring-2 focus:ring-emerald-500 focus:border-transparent"
+          placeholder="Enter your admin email"
+        />
+        {form.formState.errors.email && (
+          <p className="mt-1 text-sm text-red-400">{form.formState.errors.email.message}</p>
+        )}
+      </div>
+
+      <button
+        type="submit"
+        disabled={isSubmitting}
+        className="w-full bg-gradient-to-r from-emerald-500 to-teal-500 text-white py-3 px-4 rounded-lg hover:from-emerald-600 hover:to-teal-600 focus:outline-none focus:ring-2 focus:ring-emerald-500 focus:ring-offset-2 focus:ring-offset-transparent disabled:opacity-50 disabled:cursor-not-allowed transition-all duration-300 font-medium"
+      >
+        {isSubmitting ? 'Sending...' : 'Send Reset Link'}
+      </button>
+    </form>
+  )
+}
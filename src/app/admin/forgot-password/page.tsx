@@ -0,0 +1,38 @@
+import Link from 'next/link'
+import ForgotPasswordForm from './ForgotPasswordForm'
+
+export default function ForgotPasswordPage() {
+  return (
+    <div className="min-h-screen bg-gradient-to-br from-slate-900 via-purple-900 to-slate-900">
+      <div className="container mx-auto px-4 py-12">
+        <div className="max-w-md mx-auto">
+          {/* Back Button */}
+          <div className="mb-8">
+            <Link
+              href="/admin/login"
+              className="inline-flex items-center text-gray-300 hover:text-white transition-colors"
+            >
+              <svg className="w-5 h-5 mr-2" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+                <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M10 19l-7-7m0 0l7-7m-7 7h18" />
+              </svg>
+              Back to Sign In
+            </Link>
+          </div>
+
+          <div className="bg-white/10 backdrop-blur-lg rounded-2xl p-8 border border-white/20">
+            <div className="text-center mb-8">
+              <h1 className="text-3xl font-bold text-white mb-2">
+                Reset Password
+              </h1>
+              <p className="text-gray-300">
+                We&apos;ll email you a link to choose a new password
+              </p>
+            </div>
+
+            <ForgotPasswordForm />
+          </div>
+        </div>
+      </div>
+    </div>
+  )
+}
@@ -0,0 +1,300 @@
+'use client'
+
+import { useState } from 'react'
+import Link from 'next/link'
+import { useRouter } from 'next/navigation'
+import { useForm } from 'react-hook-form'
+import { zodResolver } from '@hookform/resolvers/zod'
+import { toast } from 'react-hot-toast'
+import { createClientComponentClient } from '@/lib/supabase'
+import {
+  adminSignUpSchema,
+  adminProfileSchema,
+  TEAM_ROLE_LABELS,
+  TEAM_ROLE_DESCRIPTIONS,
+  type AdminSignUpData,
+  type AdminProfileData,
+} from '@/lib/validations'
+import type { TeamInviteDetails } from './JoinTeam'
+
+// Someone signed in who isn't an admin yet
+export interface InviteeAccount {
+  email: string
+  verified: boolean
+  firstName?: string
+  lastName?: string
+}
+
+interface CreateAdminAccountProps {
+  token: string
+  invite: TeamInviteDetails
+  // null when nobody is signed in
+  account: InviteeAccount | null
+}
+
+const inputClassName = 'w-full border border-gray-300 rounded-md px-3 py-2 text-gray-900 bg-white focus:outline-none focus:ring-2 focus:ring-blue-500 focus:border-blue-500'
+
+export default function CreateAdminAccount({ token, invite, account }: CreateAdminAccountProps) {
+  const [isSubmitting, setIsSubmitting] = useState(false)
+  // After sign-up, until the invitee clicks the link in their email
+  const [awaitingVerification, setAwaitingVerification] = useState(false)
+  const [alreadyRegistered, setAlreadyRegistered] = useState(false)
+  const router = useRouter()
+  const supabase = createClientComponentClient()
+
+  const invitePath = `/admin/join?token=${token}`
+  const signInPath = `/admin/login?next=${encodeURIComponent(invitePath)}`
+  // The verification link brings them back here to finish
+  const emailRedirectTo = () => `${window.location.origin}/admin/auth/confirm?next=${encodeURIComponent(invitePath)}`
+
+  const signUpForm = useForm<AdminSignUpData>({
+    resolver: zodResolver(adminSignUpSchema),
+  })
+
+  const profileForm = useForm<AdminProfileData>({
+    resolver: zodResolver(adminProfileSchema),
+    defaultValues: {
+      firstName: account?.firstName ?? '',
+      lastName: account?.lastName ?? '',
+    },
+  })
+
+  const redeemInvite = async (firstName: string, lastName: string) => {
+    const { error } = await supabase.rpc('redeem_admin_invite', {
+      token_param: token,
+      first_name_param: firstName,
+      last_name_param: lastName,
+    })
+    if (error) throw error
+
+    toast.success(`Welcome to ${invite.team_name}!`)
+    router.push('/admin/dashboard')
+    router.refresh()
+  }
+
+  const onSignUp = async (data: AdminSignUpData) => {
+    setIsSubmitting(true)
+    try {
+      const { data: authData, error } = await supabase.auth.signUp({
+        email: invite.email,
+        password: data.password,
+        options: {
+          emailRedirectTo: emailRedirectTo(),
+          data: {
+            first_name: data.firstName,
+            last_name: data.lastName,
+          },
+        },
+      })
+      if (error) throw error
+
+      // Supabase hides whether an email is taken: an existing account comes
+      // back with no identities
+      if (authData.user && authData.user.identities?.length === 0) {
+        setAlreadyRegistered(true)
+        return
+      }
+
+      // Projects that don't require email confirmation sign the user in now
+      if (authData.session && authData.user?.email_confirmed_at) {
+        await redeemInvite(data.firstName, data.lastName)
+        return
+      }
+
+      setAwaitingVerification(true)
+    } catch (error: unknown) {
+      console.error('Error signing up:', error)
+      toast.error(error instanceof Error ? error.message : 'Failed to create your account')
+    } finally {
+      setIsSubmitting(false)
+    }
+  }
+
+  const onFinish = async (data: AdminProfileData) => {
+    setIsSubmitting(true)
+    try {
+      await redeemInvite(data.firstName, data.lastName)
+    } catch (error: unknown) {
+      console.error('Error accepting invite:', error)
+      toast.error(error instanceof Error ? error.message : 'Failed to join the team')
+    } finally {
+      setIsSubmitting(false)
+    }
+  }
+
+  const handleResend = async () => {
+    try {
+      const { error } = await supabase.auth.resend({
+        type: 'signup',
+        email: account?.email ?? invite.email,
+        options: { emailRedirectTo: emailRedirectTo() },
+      })
+      if (error) throw error
+      toast.success('Verification email sent. Check your inbox.')
+    } catch (error: unknown) {
+      console.error('Error resending verification email:', error)
+      toast.error(error instanceof Error ? error.message : 'Failed to resend verification email')
+    }
+  }
+
+  const handleSignOut = async () => {
+    await supabase.auth.signOut()
+    router.refresh()
+  }
+
+  if (invite.status !== 'open') {
+    return (
+      <div className="text-center">
+        <h1 className="text-xl font-bold text-gray-900 mb-2">
+          {invite.status === 'accepted' ? 'Invite already used' : 'Invite expired'}
+        </h1>
+        <p className="text-gray-600 mb-6">
+          {invite.status === 'accepted'
+            ? 'This invite has already been accepted. Sign in to continue.'
+            : 'Invites last 7 days. Ask the team owner to send you a new one.'}
+        </p>
+        <Link href="/admin/login" className="text-sm font-medium text-blue-600 hover:text-blue-800">
+          Go to sign in →
+        </Link>
+      </div>
+    )
+  }
+
+  const wrongAccount = account && account.email.toLowerCase() !== invite.email.toLowerCase()
+
+  return (
+    <div>
+      <h1 className="text-xl font-bold text-gray-900 mb-2">Join {invite.team_name}</h1>
+      <p className="text-gray-600 mb-6">
+        {invite.invited_by_name || 'The team owner'} invited {invite.email} to join as an{' '}
+        {TEAM_ROLE_LABELS[invite.role].toLowerCase()}.
+      </p>
+
+      <div className="bg-gray-50 border border-gray-200 rounded-lg p-4 mb-6">
+        <p className="text-sm font-medium text-gray-900">{TEAM_ROLE_LABELS[invite.role]}</p>
+        <p className="text-sm text-gray-600 mt-1">{TEAM_ROLE_DESCRIPTIONS[invite.role]}</p>
+      </div>
+
+      {wrongAccount ? (
+        <div className="space-y-4">
+          <div className="bg-amber-50 border border-amber-200 rounded-lg p-3">
+            <p className="text-sm text-amber-800">
+              You&apos;re signed in as {account.email}. Sign out to accept this invite as {invite.email}.
+            </p>
+          </div>
+          <button
+            onClick={handleSignOut}
+            className="w-full px-4 py-2 text-sm font-medium text-white bg-blue-600 hover:bg-blue-700 rounded-md transition-colors"
+          >
+            Sign Out
+          </button>
+        </div>
+      ) : awaitingVerification || (account && !account.verified) ? (
+        <div className="space-y-4">
+          <div className="bg-blue-50 border border-blue-200 rounded-lg p-3">
+            <p className="text-sm text-blue-800">
+              We&apos;ve sent a verification link to {invite.email}. Click it to finish joining the team.
+            </p>
+          </div>
+          <button
+            onClick={handleResend}
+            className="text-sm font-medium text-blue-600 hover:text-blue-800"
+          >
+            Resend verification email →
+          </button>
+        </div>
+      ) : account ? (
+        <form onSubmit={profileForm.handleSubmit(onFinish)} className="space-y-4">
+          <p className="text-sm text-gray-600">Your email is verified. Confirm your name to finish.</p>
+          <div className="grid grid-cols-2 gap-4">
+            <div>
+              <label htmlFor="firstName" className="block text-sm font-medium text-gray-700 mb-2">First Name</label>
+              <input {...profileForm.register('firstName')} id="firstName" type="text" className={inputClassName} />
+              {profileForm.formState.errors.firstName && (
+                <p className="mt-1 text-sm text-red-600">{profileForm.formState.errors.firstName.message}</p>
+              )}
+            </div>
+            <div>
+              <label htmlFor="lastName" className="block text-sm font-medium text-gray-700 mb-2">Last Name</label>
+              <input {...profileForm.register('lastName')} id="lastName" type="text" className={inputClassName} />
+              {profileForm.formState.errors.lastName && (
+                <p className="mt-1 text-sm text-red-600">{profileForm.formState.errors.lastName.message}</p>
+              )}
+            </div>
+          </div>
+          <button
+            type="submit"
+            disabled={isSubmitting}
+            className="w-full px-4 py-2 text-sm font-medium text-white bg-blue-600 hover:bg-blue-700 disabled:bg-gray-400 rounded-md transition-colors"
+          >
+            {isSubmitting ? 'Joining...' : 'Join Team'}
+          </button>
+        </form>
+      ) : alreadyRegistered ? (
+        <div className="space-y-4">
+          <div className="bg-amber-50 border border-amber-200 rounded-lg p-3">
+            <p className="text-sm text-amber-800">
+              {invite.email} already has an account. Sign in to accept this invite.
+            </p>
+          </div>
+          <Link
+            href={signInPath}
+            className="block w-full text-center px-4 py-2 text-sm font-medium text-white bg-blue-600 hover:bg-blue-700 rounded-md transition-colors"
+          >
+            Sign In
+          </Link>
+        </div>
+      ) : (
+        <form onSubmit={signUpForm.handleSubmit(onSignUp)} className="space-y-4">
+          <div className="grid grid-cols-2 gap-4">
+            <div>
+              <label htmlFor="firstName" className="block text-sm font-medium text-gray-700 mb-2">First Name</label>
+              <input {...signUpForm.register('firstName')} id="firstName" type="text" className={inputClassName} />
+              {signUpForm.formState.errors.firstName && (
+                <p className="mt-1 text-sm text-red-600">{signUpForm.formState.errors.firstName.message}</p>
+              )}
+            </div>
+            <div>
+              <label htmlFor="lastName" className="block text-sm font-medium text-gray-700 mb-2">Last Name</label>
+              <input {...signUpForm.register('lastName')} id="lastName" type="text" className={inputClassName} />
+              {signUpForm.formState.errors.lastName && (
+                <p className="mt-1 text-sm text-red-600">{signUpForm.formState.errors.lastName.message}</p>
+              )}
+            </div>
+          </div>
+          <div>
+            <label htmlFor="email" className="block text-sm font-medium text-gray-700 mb-2">Email Address</label>
+            <input id="email" type="email" value={invite.email} readOnly className={`${inputClassName} bg-gray-50 text-gray-600`} />
+          </div>
+          <div>
+            <label htmlFor="password" className="block text-sm font-medium text-gray-700 mb-2">Password</label>
+            <input {...signUpForm.register('password')} id="password" type="password" autoComplete="new-password" className={inputClassName} />
+            {signUpForm.formState.errors.password && (
+              <p className="mt-1 text-sm text-red-600">{signUpForm.formState.errors.password.message}</p>
+            )}
+          </div>
+          <div>
+            <label htmlFor="confirmPassword" className="block text-sm font-medium text-gray-700 mb-2">Confirm Password</label>
+            <input {...signUpForm.register('confirmPassword')} id="confirmPassword" type="password" autoComplete="new-password" className={inputClassName} />
+            {signUpForm.formState.errors.confirmPassword && (
+              <p className="mt-1 text-sm text-red-600">{signUpForm.formState.errors.confirmPassword.message}</p>
+            )}
+          </div>
+          <button
+            type="submit"
+            disabled={isSubmitting}
+            className="w-full px-4 py-2 text-sm font-medium text-white bg-blue-600 hover:bg-blue-700 disabled:bg-gray-400 rounded-md transition-colors"
+          >
+            {isSubmitting ? 'Creating Account...' : 'Create Account'}
+          </button>
+          <p className="text-center text-sm text-gray-600">
+            Already have an account?{' '}
+            <Link href={signInPath} className="font-medium text-blue-600 hover:text-blue-800">
+              Sign in
+            </Link>
+          </p>
+        </form>
+      )}
+    </div>
+  )
+}
@@ -0,0 +1,112 @@
+'use client'
+
+import { useState } from 'react'
+import Link from 'next/link'
+import { useRouter } from 'next/navigation'
+import { createClientComponentClient } from '@/lib/supabase'
+import { toast } from 'react-hot-toast'
+import { TEAM_ROLE_LABELS, TEAM_ROLE_DESCRIPTIONS, type TeamRole } from '@/lib/validations'
+
+// From get_team_invite (see database-teams.sql)
+export interface TeamInviteDetails {
+  team_name: string
+  email: string
+  role: TeamRole
+  invited_by_name: string | null
+  status: 'open' | 'accepted' | 'expired'
+}
+
+interface JoinTeamProps {
+  token: string
+  invite: TeamInviteDetails
+  signedInEmail: string
+}
+
+export default function JoinTeam({ token, invite, signedInEmail }: JoinTeamProps) {
+  const [joining, setJoining] = useState(false)
+  const router = useRouter()
+  const supabase = createClientComponentClient()
+
+  const wrongAccount = invite.email.toLowerCase() !== signedInEmail.toLowerCase()
+
+  const handleJoin = async () => {
+    setJoining(true)
+    try {
+      const { error } = await supabase.rpc('accept_team_invite', { token_param: token })
+      if (error) throw error
+
+      toast.success(`You've joined ${invite.team_name}`)
+      router.push('/admin/dashboard')
+      router.refresh()
+    } catch (error: unknown) {
+      console.error('Error accepting invite:', error)
+      toast.error(error instanceof Error ? error.message : 'Failed to join the team')
+      setJoining(false)
+    }
+  }
+
+  const handleSwitchAccount = async () => {
+    await supabase.auth.signOut()
+    router.push(`/admin/login?next=${encodeURIComponent(`/admin/join?token=${token}`)}`)
+  }
+
+  if (invite.status !== 'open') {
+    return (
+      <div className="text-center">
+        <h1 className="text-xl font-bold text-gray-900 mb-2">
+          {invite.status === 'accepted' ? 'Invite already used' : 'Invite expired'}
+        </h1>
+        <p className="text-gray-600 mb-6">
+          {invite.status === 'accepted'
+            ? 'This invite has already been accepted.'
+            : 'Invites last 7 days. Ask the team owner to send you a new one.'}
+        </p>
+        <Link href="/admin/dashboard" className="text-sm font-medium text-blue-600 hover:text-blue-800">
+          Go to dashboard →
+        </Link>
+      </div>
+    )
+  }
+
+  return (
+    <div>
+      <h1 className="text-xl font-bold text-gray-900 mb-2">Join {invite.team_name}</h1>
+      <p className="text-gray-600 mb-6">
+        {invite.invited_by_name || 'The team owner'} invited {invite.email} to join as an{' '}
+        {TEAM_ROLE_LABELS[invite.role].toLowerCase()}.
+      </p>
+
+      <div className="bg-gray-50 border border-gray-200 rounded-lg p-4 mb-6">
+        <p className="text-sm font-medium text-gray-900">{TEAM_ROLE_LABELS[invite.role]}</p>
+        <p className="text-sm text-gray-600 mt-1">{TEAM_ROLE_DESCRIPTIONS[invite.role]}</p>
+        <p className="text-sm text-gray-600 mt-3">
+          Your own properties, leads and campaigns come with you.
+        </p>
+      </div>
+
+      {wrongAccount ? (
+        <div className="space-y-4">
+          <div className="bg-amber-50 border border-amber-200 rounded-lg p-3">
+            <p className="text-sm text-amber-800">
+              You&apos;re signed in as {signedInEmail}. Sign in as {invite.email} to accept this invite.
+            </p>
+          </div>
+          <button
+            onClick={handleSwitchAccount}
+            className="w-full px-4 py-2 text-sm font-medium text-white bg-blue-600 hover:bg-blue-700 rounded-md transition-colors"
+          >
+            Switch Account
+          </button>
+        </div>
+      ) : (
+        <button
+          onClick={handleJoin}
+          disabled={joining}
+          className="w-full px-4 py-2 text-sm font-medium text-white bg-blue-600 hover:bg-blue-700 disabled:bg-gray-400 rounded-md transition-colors"
+        >
+          {joining ? 'Joining...' : 'Join Team'}
+        </button>
+      )}
+    </div>
+  )
+}
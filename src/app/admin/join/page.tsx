@@ -0,0 +1,68 @@
+import Link from 'next/link'
+import JoinTeam, { type TeamInviteDetails } from './JoinTeam'
+import CreateAdminAccount, { type InviteeAccount } from './CreateAdminAccount'
+import { createServerComponentClient } from '@/lib/supabase'
+import { getAdminAccess, ADMIN_LOGIN_PATH } from '@/lib/admin-session'
+
+interface JoinTeamPageProps {
+  searchParams: Promise<{
+    token?: string
+  }>
+}
+
+const uuidPattern = /^[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}$/i
+
+// Where team invite links land, and the only way to get an admin account.
+// Admins join the team; anyone else creates their account here first.
+// middleware.ts lets everyone through.
+export default async function JoinTeamPage({ searchParams }: JoinTeamPageProps) {
+  const { token } = await searchParams
+  const supabase = await createServerComponentClient()
+  const access = await getAdminAccess(supabase, false)
+
+  let invite: TeamInviteDetails | null = null
+  if (token && uuidPattern.test(token)) {
+    const { data, error } = await supabase
+      .rpc('get_team_invite', { token_param: token })
+      .maybeSingle()
+
+    if (error) console.error('Error loading team invite:', error)
+    invite = (data as TeamInviteDetails | null) ?? null
+  }
+
+  // Signed in without an admin record yet: part way through signing up
+  let account: InviteeAccount | null = null
+  if (access.status === 'unverified') {
+    account = { email: access.email, verified: false }
+  } else if (access.status === 'not_admin') {
+    const { data: { user } } = await supabase.auth.getUser()
+    account = {
+      email: user?.email ?? '',
+      verified: true,
+      firstName: user?.user_metadata?.first_name,
+      lastName: user?.user_metadata?.last_name,
+    }
+  }
+
+  return (
+    <div className="min-h-screen bg-gray-50 flex items-center justify-center p-4">
+      <div className="bg-white rounded-xl shadow-sm border border-gray-200 max-w-md w-full p-8">
+        {!invite || !token ? (
+          <div className="text-center">
+            <h1 className="text-xl font-bold text-gray-900 mb-2">Invite not found</h1>
+            <p className="text-gray-600 mb-6">
+              This invite link isn&apos;t valid. Ask the team owner to send you a new one.
+            </p>
+            <Link href={ADMIN_LOGIN_PATH} className="text-sm font-medium text-blue-600 hover:text-blue-800">
+              Go to sign in →
+            </Link>
+          </div>
+        ) : access.status === 'admin' ? (
+          <JoinTeam token={token} invite={invite} signedInEmail={access.admin.email} />
+        ) : (
+          <CreateAdminAccount token={token} invite={invite} account={account} />
+        )}
+      </div>
+    </div>
+  )
+}
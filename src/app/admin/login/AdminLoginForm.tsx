@@ -5,12 +5,33 @@ import { useForm } from 'react-hook-form'
 import { zodResolver } from '@hookform/resolvers/zod'
 import { toast } from 'react-hot-toast'
 import { useRouter } from 'next/navigation'
-import { adminLoginSchema, adminSignUpSchema, type AdminLoginData, type AdminSignUpData } from '@/lib/validations'
+import Link from 'next/link'
+import { adminLoginSchema, type AdminLoginData } from '@/lib/validations'
 import { createClientComponentClient } from '@/lib/supabase'
+import type { AdminLoginReason } from '@/lib/admin-session'
 
-export default function AdminLoginForm() {
+interface AdminLoginFormProps {
+  // Set when middleware.ts sent the user here
+  reason?: AdminLoginReason
+  // Admin page to return to after signing in
+  nextPath: string
+}
+
+const reasonMessages: Record<AdminLoginReason, string> = {
+  session_expired: 'Your session has expired. Please sign in again.',
+  not_admin: 'That account doesn\'t have admin access. Please sign in with an admin account.',
+  unverified: 'Please verify your email address before signing in. Check your inbox for the link.',
+  link_expired: 'That link has expired or was already used. Please request a new one.',
+}
+
+const lockoutMessage = (lockedUntil: string) =>
+  `Too many failed sign-in attempts. Try again after ${new Date(lockedUntil).toLocaleTimeString([], { hour: 'numeric', minute: '2-digit' })}.`
+
+export default function AdminLoginForm({ reason, nextPath }: AdminLoginFormProps) {
   const [isSubmitting, setIsSubmitting] = useState(false)
-  const [isSignUp, setIsSignUp] = useState(false)
+  // Set when the account's email still needs verifying
+  const [unverifiedEmail, setUnverifiedEmail] = useState<string | null>(null)
+  const [resending, setResending] = useState(false)
   const router = useRouter()
   const supabase = createClientComponentClient()
 
@@ -18,148 +39,49 @@ export default function AdminLoginForm() {
     resolver: zodResolver(adminLoginSchema),
   })
 
-  const signUpForm = useForm<AdminSignUpData>({
-    resolver: zodResolver(adminSignUpSchema),
-  })
-
-  const currentForm = isSignUp ? signUpForm : loginForm
-
-  const onSubmit = async (data: AdminLoginData | AdminSignUpData) => {
+  const onSubmit = async (data: AdminLoginData) => {
     setIsSubmitting(true)
-    
-    try {
-      if (isSignUp) {
-        const signUpData = data as AdminSignUpData
-        
-        // First check if user already exists
-        const { data: existingUser } = await supabase.auth.signInWithPassword({
-          email: signUpData.email,
-          password: signUpData.password,
-        })
-
-        if (existingUser.user) {
-          // User exists and password is correct, check if admin record exists
-          const { data: adminData, error: adminError } = await supabase
-            .from('admins')
-            .select('*')
-            .eq('user_id', existingUser.user.id)
-            .single()
-
-          if (adminError || !adminData) {
-            // User exists but no admin record, create admin record
-            const adminRecord = {
-              user_id: existingUser.user.id,
-              first_name: signUpData.firstName,
-              last_name: signUpData.lastName,
-              email: signUpData.email,
-              created_at: new Date().toISOString()
-            }
-            
-            const { error: insertError } = await supabase
-              .from('admins')
-              .insert([adminRecord])
-              .select()
-
-            if (insertError) {
-              console.error('Error creating admin record:', insertError)
-              toast.error(`Failed to create admin record: ${insertError.message}`)
-              return
-            }
+    setUnverifiedEmail(null)
 
-            toast.success('Admin privileges added to existing account! You can now login.')
-            setIsSignUp(false)
-            signUpForm.reset()
-            return
-          } else {
-            toast.error('This email is already registered as an admin. Please use the login form.')
-            return
-          }
+    try {
+      // Signs in on the server, which checks and records the lockout
+      const response = await fetch('/api/admin/login', {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify(data),
+      })
+      const result = await response.json()
+
+      if (!response.ok) {
+        if (result.code === 'email_not_confirmed') {
+          setUnverifiedEmail(data.email)
+          return
         }
 
-        // User doesn't exist or password is wrong, try to sign up
-        const { data: authData, error } = await supabase.auth.signUp({
-          email: signUpData.email,
-          password: signUpData.password,
-          options: {
-            data: {
-              role: 'admin',
-              first_name: signUpData.firstName,
-              last_name: signUpData.lastName
-            }
-          }
-        })
+        throw new Error(result.lockedUntil ? lockoutMessage(result.lockedUntil) : result.error || 'Authentication failed. Please try again.')
+      }
 
-        if (error) {
-          if (error.message.includes('User already registered')) {
-            toast.error('This email is already registered. If you forgot your password, please contact support.')
+      if (result.user) {
+        // Check if user is an admin
+        const { data: adminData, error: adminError } = await supabase
+          .from('admins')
+          .select('*')
+          .eq('user_id', result.user.id)
+          .single()
+
+        if (adminError || !adminData) {
+          // Invitees sign in before they have an admin record, to accept
+          if (nextPath.startsWith('/admin/join')) {
+            router.push(nextPath)
             return
           }
-          throw error
-        }
-
-        if (authData.user) {
-          // Insert admin record into admins table
-          console.log('Attempting to insert admin record for user:', authData.user.id)
-          
-          const adminRecord = {
-            user_id: authData.user.id,
-            first_name: signUpData.firstName,
-            last_name: signUpData.lastName,
-            email: signUpData.email,
-            created_at: new Date().toISOString()
-          }
-          
-          console.log('Admin record to insert:', adminRecord)
-          
-          const { data: insertData, error: adminError } = await supabase
-            .from('admins')
-            .insert([adminRecord])
-            .select()
-
-          if (adminError) {
-            console.error('Error creating admin record:', adminError)
-            toast.error(`Failed to create admin record: ${adminError.message}`)
-            // Don't return here, still show success for auth creation
-          } else {
-            console.log('Admin record created successfully:', insertData)
-          }
 
-          if (authData.user.email_confirmed_at) {
-            toast.success('Account created successfully! You can now login.')
-          } else {
-            toast.success('Account created successfully! Please check your email to verify your account.')
-          }
-          setIsSignUp(false)
-          signUpForm.reset()
-        }
-      } else {
-        const loginData = data as AdminLoginData
-        // Sign in existing admin
-        const { data: authData, error } = await supabase.auth.signInWithPassword({
-          email: loginData.email,
-          password: loginData.password,
-        })
-
-        if (error) {
-          throw error
+          await supabase.auth.signOut()
+          throw new Error('Access denied. Admin privileges required.')
         }
 
-        if (authData.user) {
-          // Check if user is an admin
-          const { data: adminData, error: adminError } = await supabase
-            .from('admins')
-            .select('*')
-            .eq('user_id', authData.user.id)
-            .single()
-
-          if (adminError || !adminData) {
-            await supabase.auth.signOut()
-            throw new Error('Access denied. Admin privileges required.')
-          }
-
-          toast.success('Login successful!')
-          router.push('/admin/dashboard')
-        }
+        toast.success('Login successful!')
+        router.push(nextPath)
       }
     } catch (error: unknown) {
       console.error('Auth error:', error)
@@ -170,50 +92,49 @@ export default function AdminLoginForm() {
     }
   }
 
-  const handleModeSwitch = () => {
-    setIsSignUp(!isSignUp)
-    loginForm.reset()
-    signUpForm.reset()
+  const handleResendVerification = async () => {
+    if (!unverifiedEmail) return
+    setResending(true)
+    try {
+      const { error } = await supabase.auth.resend({
+        type: 'signup',
+        email: unverifiedEmail,
+        options: {
+          emailRedirectTo: `${window.location.origin}/admin/auth/confirm?next=${encodeURIComponent(nextPath)}`,
+        },
+      })
+      if (error) throw error
+      toast.success('Verification email sent. Check your inbox.')
+    } catch (error: unknown) {
+      console.error('Error resending verification email:', error)
+      toast.error(error instanceof Error ? error.message : 'Failed to resend verification email')
+    } finally {
+      setResending(false)
+    }
   }
 
   return (
-    <form onSubmit={currentForm.handleSubmit(onSubmit)} className="space-y-6">
-      {isSignUp && (
-        <>
-          <div className="grid grid-cols-2 gap-4">
-            <div>
-              <label htmlFor="firstName" className="block text-sm font-medium text-gray-200 mb-2">
-                First Name
-              </label>
-              <input
-                {...signUpForm.register('firstName')}
-                type="text"
-                id="firstName"
-                className="w-full px-4 py-3 bg-white/10 border border-white/20 rounded-lg text-white placeholder-gray-400 focus:outline-none focus:ring-2 focus:ring-emerald-500 focus:border-transparent"
-                placeholder="First name"
-              />
-              {signUpForm.formState.errors.firstName && (
-                <p className="mt-1 text-sm text-red-400">{signUpForm.formState.errors.firstName.message}</p>
-              )}
-            </div>
-            
-            <div>
-              <label htmlFor="lastName" className="block text-sm font-medium text-gray-200 mb-2">
-                Last Name
-              </label>
-              <input
-                {...signUpForm.register('lastName')}
-                type="text"
-                id="lastName"
-                className="w-full px-4 py-3 bg-white/10 border border-white/20 rounded-lg text-white placeholder-gray-400 focus:outline-none focus:ring-2 focus:ring-emerald-500 focus:border-transparent"
-                placeholder="Last name"
-              />
-              {signUpForm.formState.errors.lastName && (
-                <p className="mt-1 text-sm text-red-400">{signUpForm.formState.errors.lastName.message}</p>
-              )}
-            </div>
-          </div>
-        </>
+    <form onSubmit={loginForm.handleSubmit(onSubmit)} className="space-y-6">
+      {reason && !unverifiedEmail && (
+        <div className="bg-amber-900/30 border border-amber-500/30 rounded-lg p-3">
+          <p className="text-sm text-amber-200">{reasonMessages[reason]}</p>
+        </div>
+      )}
+
+      {unverifiedEmail && (
+        <div className="bg-amber-900/30 border border-amber-500/30 rounded-lg p-3 space-y-2">
+          <p className="text-sm text-amber-200">
+            Please verify {unverifiedEmail} before signing in. Check your inbox for the link.
+          </p>
+          <button
+            type="button"
+            onClick={handleResendVerification}
+            disabled={resending}
+            className="text-sm font-medium text-amber-100 hover:text-white underline disabled:opacity-50"
+          >
+            {resending ? 'Sending...' : 'Resend verification email'}
+          </button>
+        </div>
       )}
 
       <div>
@@ -221,34 +142,35 @@ export default function AdminLoginForm() {
           Email Address
         </label>
         <input
-          {...(isSignUp ? signUpForm.register('email') : loginForm.register('email'))}
+          {...loginForm.register('email')}
           type="email"
           id="email"
           className="w-full px-4 py-3 bg-white/10 border border-white/20 rounded-lg text-white placeholder-gray-400 focus:outline-none focus:ring-2 focus:ring-emerald-500 focus:border-transparent"
           placeholder="Enter your admin email"
         />
-        {(isSignUp ? signUpForm.formState.errors.email : loginForm.formState.errors.email) && (
-          <p className="mt-1 text-sm text-red-400">
-            {(isSignUp ? signUpForm.formState.errors.email?.message : loginForm.formState.errors.email?.message)}
-          </p>
+        {loginForm.formState.errors.email && (
+          <p className="mt-1 text-sm text-red-400">{loginForm.formState.errors.email.message}</p>
         )}
       </div>
 
       <div>
-        <label htmlFor="password" className="block text-sm font-medium text-gray-200 mb-2">
-          Password
-        </label>
+        <div className="flex items-center justify-between mb-2">
+          <label htmlFor="password" className="block text-sm font-medium text-gray-200">
+            Password
+          </label>
+          <Link href="/admin/forgot-password" className="text-sm text-gray-300 hover:text-white transition-colors">
+            Forgot password?
+          </Link>
+        </div>
         <input
-          {...(isSignUp ? signUpForm.register('password') : loginForm.register('password'))}
+          {...loginForm.register('password')}
           type="password"
           id="password"
           className="w-full px-4 py-3 bg-white/10 border border-white/20 rounded-lg text-white placeholder-gray-400 focus:outline-none focus:ring-2 focus:ring-emerald-500 focus:border-transparent"
           placeholder="Enter your password"
         />
-        {(isSignUp ? signUpForm.formState.errors.password : loginForm.formState.errors.password) && (
-          <p className="mt-1 text-sm text-red-400">
-            {(isSignUp ? signUpForm.formState.errors.password?.message : loginForm.formState.errors.password?.message)}
-          </p>
+        {loginForm.formState.errors.password && (
+          <p className="mt-1 text-sm text-red-400">{loginForm.formState.errors.password.message}</p>
         )}
       </div>
 
@@ -263,40 +185,31 @@ export default function AdminLoginForm() {
               <circle className="opacity-25" cx="12" cy="12" r="10" stroke="currentColor" strokeWidth="4"></circle>
               <path className="opacity-75" fill="currentColor" d="M4 12a8 8 0 018-8V0C5.373 0 0 5.373 0 12h4zm2 5.291A7.962 7.962 0 014 12H0c0 3.042 1.135 5.824 3 7.938l3-2.647z"></path>
             </svg>
-            {isSignUp ? 'Creating Account...' : 'Signing In...'}
+            Signing In...
           </div>
         ) : (
-          isSignUp ? 'Create Admin Account' : 'Sign In'
+          'Sign In'
         )}
       </button>
 
       <div className="text-center space-y-4">
-        <button
-          type="button"
-          onClick={handleModeSwitch}
-          className="text-sm text-gray-300 hover:text-white transition-colors underline"
-        >
-          {isSignUp 
-            ? 'Already have an account? Sign In' 
-            : 'Need an admin account? Sign Up'
-          }
-        </button>
-        
-        {!isSignUp && (
-          <div className="text-center space-y-2">
-            <p className="text-sm text-gray-400">
-              Demo credentials for realtors to test:
+        <p className="text-sm text-gray-400">
+          New to the team? Open the invite link your team owner sent you to create your account.
+        </p>
+
+        <div className="text-center space-y-2">
+          <p className="text-sm text-gray-400">
+            Demo credentials for realtors to test:
+          </p>
+          <div className="bg-blue-900/30 border border-blue-500/30 rounded-lg p-3">
+            <p className="text-sm text-blue-200 font-mono">
+              admin@openhousedesk.com
+            </p>
+            <p className="text-sm text-blue-200 font-mono">
+              890712
             </p>
-            <div className="bg-blue-900/30 border border-blue-500/30 rounded-lg p-3">
-              <p className="text-sm text-blue-200 font-mono">
-                admin@openhousedesk.com
-              </p>
-              <p className="text-sm text-blue-200 font-mono">
-                890712
-              </p>
-            </div>
           </div>
-        )}
+        </div>
       </div>
     </form>
   )
@@ -1,7 +1,20 @@
 import AdminLoginForm from './AdminLoginForm'
 import Link from 'next/link'
+import { safeAdminNextPath, type AdminLoginReason } from '@/lib/admin-session'
+
+interface AdminLoginPageProps {
+  searchParams: Promise<{
+    reason?: string
+    next?: string
+  }>
+}
+
+const loginReasons: AdminLoginReason[] = ['session_expired', 'not_admin', 'unverified', 'link_expired']
+
+export default async function AdminLoginPage({ searchParams }: AdminLoginPageProps) {
+  const { reason, next } = await searchParams
+  const loginReason = loginReasons.find(r => r === reason)
 
-export default function AdminLoginPage() {
   return (
     <div className="min-h-screen bg-gradient-to-br from-slate-900 via-purple-900 to-slate-900">
       <div className="container mx-auto px-4 py-12">
@@ -30,11 +43,11 @@ export default function AdminLoginPage() {
                 Admin Access
               </h1>
               <p className="text-gray-300">
-                Sign in or create an admin account to manage your open house
+                Sign in to manage your open houses
               </p>
             </div>
             
-            <AdminLoginForm />
+            <AdminLoginForm reason={loginReason} nextPath={safeAdminNextPath(next)} />
           </div>
           
           <div className="text-center mt-8">
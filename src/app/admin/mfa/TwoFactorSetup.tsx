@@ -0,0 +1,386 @@
+'use client'
+
+import { useState } from 'react'
+import Link from 'next/link'
+import { useRouter } from 'next/navigation'
+import { useForm } from 'react-hook-form'
+import { zodResolver } from '@hookform/resolvers/zod'
+import { toast } from 'react-hot-toast'
+import QRCode from 'qrcode'
+import { createClientComponentClient } from '@/lib/supabase'
+import { mfaCodeSchema, type MfaAction, type MfaCodeFormData } from '@/lib/validations'
+
+// From admin_mfa_status()
+export interface TwoFactorStatus {
+  enabled: boolean
+  team_required: boolean
+  verified: boolean
+  recovery_codes_left: number
+}
+
+interface TwoFactorSetupProps {
+  email: string
+  status: TwoFactorStatus
+  // Signed in, but this session still owes the second step
+  pending: boolean
+  nextPath: string
+}
+
+interface Enrollment {
+  secret: string
+  qrCodeUrl: string
+}
+
+const inputClassName = 'w-full border border-gray-300 rounded-md px-3 py-2 text-gray-900 bg-white focus:outline-none focus:ring-2 focus:ring-blue-500 focus:border-blue-500'
+
+export default function TwoFactorSetup({ email, status, pending, nextPath }: TwoFactorSetupProps) {
+  const [isSubmitting, setIsSubmitting] = useState(false)
+  const [enrollment, setEnrollment] = useState<Enrollment | null>(null)
+  // Shown once, straight after they're made
+  const [recoveryCodes, setRecoveryCodes] = useState<string[] | null>(null)
+  const [pendingAction, setPendingAction] = useState<'regenerate_codes' | 'disable' | null>(null)
+  const router = useRouter()
+  const supabase = createClientComponentClient()
+
+  const { register, handleSubmit, reset, formState: { errors } } = useForm<MfaCodeFormData>({
+    resolver: zodResolver(mfaCodeSchema),
+  })
+
+  const callMfaApi = async (action: MfaAction, code?: string) => {
+    const { data: { session } } = await supabase.auth.getSession()
+    if (!session) throw new Error('Not authenticated')
+
+    const response = await fetch('/api/admin/mfa', {
+      method: 'POST',
+      headers: {
+        'Content-Type': 'application/json',
+        'Authorization': `Bearer ${session.access_token}`,
+      },
+      body: JSON.stringify({ action, code }),
+    })
+
+    const result = await response.json()
+    if (!response.ok) throw new Error(result.error || 'Request failed')
+    return result
+  }
+
+  const continueToApp = () => {
+    router.push(nextPath)
+    router.refresh()
+  }
+
+  const handleStartSetup = async () => {
+    setIsSubmitting(true)
+    try {
+      const { secret, uri } = await callMfaApi('enroll')
+      const qrCodeUrl = await QRCode.toDataURL(uri, { width: 200, margin: 1 })
+      setEnrollment({ secret, qrCodeUrl })
+    } catch (error: unknown) {
+      console.error('Error starting two-factor setup:', error)
+      toast.error(error instanceof Error ? error.message : 'Failed to start setup')
+    } finally {
+      setIsSubmitting(false)
+    }
+  }
+
+  const onActivate = async (data: MfaCodeFormData) => {
+    setIsSubmitting(true)
+    try {
+      const result = await callMfaApi('activate', data.code)
+      setEnrollment(null)
+      setRecoveryCodes(result.recoveryCodes)
+      reset()
+      toast.success('Two-factor authentication is on')
+    } catch (error: unknown) {
+      console.error('Error activating two-factor authentication:', error)
+      toast.error(error instanceof Error ? error.message : 'Failed to turn on two-factor authentication')
+    } finally {
+      setIsSubmitting(false)
+    }
+  }
+
+  const onVerify = async (data: MfaCodeFormData) => {
+    setIsSubmitting(true)
+    try {
+      const result = await callMfaApi('verify', data.code)
+      if (result.method === 'recovery') {
+        toast(`Recovery code used. ${result.recoveryCodesLeft} left — make new ones from the Security page if you're running low.`)
+      }
+      continueToApp()
+    } catch (error: unknown) {
+      console.error('Error verifying two-factor code:', error)
+      toast.error(error instanceof Error ? error.message : 'Failed to verify code')
+      reset()
+    } finally {
+      setIsSubmitting(false)
+    }
+  }
+
+  const onManage = async (data: MfaCodeFormData) => {
+    if (!pendingAction) return
+
+    setIsSubmitting(true)
+    try {
+      const result = await callMfaApi(pendingAction, data.code)
+      setPendingAction(null)
+      reset()
+
+      if (pendingAction === 'regenerate_codes') {
+        setRecoveryCodes(result.recoveryCodes)
+        toast.success('New recovery codes made. The old ones no longer work.')
+      } else {
+        toast.success('Two-factor authentication is off')
+        router.refresh()
+      }
+    } catch (error: unknown) {
+      console.error('Error updating two-factor authentication:', error)
+      toast.error(error instanceof Error ? error.message : 'Failed to update two-factor authentication')
+    } finally {
+      setIsSubmitting(false)
+    }
+  }
+
+  const handleCopyCodes = async () => {
+    if (!recoveryCodes) return
+    try {
+      await navigator.clipboard.writeText(recoveryCodes.join('\n'))
+      toast.success('Recovery codes copied')
+    } catch (error: unknown) {
+      console.error('Error copying recovery codes:', error)
+      toast.error('Failed to copy. Select the codes and copy them instead.')
+    }
+  }
+
+  const handleDownloadCodes = () => {
+    if (!recoveryCodes) return
+    const text = `OpenHouseDesk recovery codes for ${email}\nEach code works once.\n\n${recoveryCodes.join('\n')}\n`
+    const blob = new Blob([text], { type: 'text/plain;charset=utf-8;' })
+    const link = document.createElement('a')
+    const url = URL.createObjectURL(blob)
+    link.setAttribute('href', url)
+    link.setAttribute('download', 'openhousedesk-recovery-codes.txt')
+    link.style.visibility = 'hidden'
+    document.body.appendChild(link)
+    link.click()
+    document.body.removeChild(link)
+  }
+
+  const handleSignOut = async () => {
+    await supabase.auth.signOut()
+    router.push('/admin/login')
+    router.refresh()
+  }
+
+  const codeField = (label: string, placeholder: string) => (
+    <div>
+      <label htmlFor="code" className="block text-sm font-medium text-gray-700 mb-2">{label}</label>
+      <input
+        {...register('code')}
+        id="code"
+        type="text"
+        inputMode="text"
+        autoComplete="one-time-code"
+        autoFocus
+        placeholder={placeholder}
+        className={`${inputClassName} font-mono tracking-widest`}
+      />
+      {errors.code && <p className="mt-1 text-sm text-red-600">{errors.code.message}</p>}
+    </div>
+  )
+
+  if (recoveryCodes) {
+    return (
+      <div>
+        <h1 className="text-xl font-bold text-gray-900 mb-2">Save your recovery codes</h1>
+        <p className="text-gray-600 mb-6">
+          If you lose your phone, each of these gets you in once. They won&apos;t be shown again.
+        </p>
+
+        <div className="grid grid-cols-2 gap-2 bg-gray-50 border border-gray-200 rounded-lg p-4 mb-4 font-mono text-sm text-gray-900">
+          {recoveryCodes.map(code => (
+            <span key={code}>{code}</span>
+          ))}
+        </div>
+
+        <div className="flex gap-2 mb-6">
+          <button
+            onClick={handleCopyCodes}
+            className="flex-1 px-4 py-2 text-sm font-medium text-gray-700 bg-gray-100 hover:bg-gray-200 rounded-md transition-colors"
+          >
+            Copy
+          </button>
+          <button
+            onClick={handleDownloadCodes}
+            className="flex-1 px-4 py-2 text-sm font-medium text-gray-700 bg-gray-100 hover:bg-gray-200 rounded-md transition-colors"
+          >
+            Download
+          </button>
+        </div>
+
+        <button
+          onClick={continueToApp}
+          className="w-full px-4 py-2 text-sm font-medium text-white bg-blue-600 hover:bg-blue-700 rounded-md transition-colors"
+        >
+          I&apos;ve saved them — continue
+        </button>
+      </div>
+    )
+  }
+
+  // Second step of signing in
+  if (pending && status.enabled) {
+    return (
+      <div>
+        <h1 className="text-xl font-bold text-gray-900 mb-2">Two-factor authentication</h1>
+        <p className="text-gray-600 mb-6">
+          Enter the 6-digit code from your authenticator app for {email}.
+        </p>
+
+        <form onSubmit={handleSubmit(onVerify)} className="space-y-4">
+          {codeField('Code', '123456')}
+          <p className="text-xs text-gray-500">Lost your phone? Enter one of your recovery codes instead.</p>
+          <button
+            type="submit"
+            disabled={isSubmitting}
+            className="w-full px-4 py-2 text-sm font-medium text-white bg-blue-600 hover:bg-blue-700 disabled:bg-gray-400 rounded-md transition-colors"
+          >
+            {isSubmitting ? 'Verifying...' : 'Verify'}
+          </button>
+        </form>
+
+        <div className="text-center mt-6">
+          <button onClick={handleSignOut} className="text-sm font-medium text-blue-600 hover:text-blue-800">
+            Sign in as someone else →
+          </button>
+        </div>
+      </div>
+    )
+  }
+
+  // Setting up an authenticator app
+  if (!status.enabled) {
+    return (
+      <div>
+        <h1 className="text-xl font-bold text-gray-900 mb-2">Set up two-factor authentication</h1>
+        <p className="text-gray-600 mb-6">
+          Signing in will also ask for a code from an authenticator app such as Google Authenticator,
+          1Password or Authy.
+        </p>
+
+        {status.team_required && (
+          <div className="bg-amber-50 border border-amber-200 rounded-lg p-3 mb-6">
+            <p className="text-sm text-amber-800">
+              Your team requires two-factor authentication. Set it up to continue.
+            </p>
+          </div>
+        )}
+
+        {enrollment ? (
+          <form onSubmit={handleSubmit(onActivate)} className="space-y-4">
+            <div className="text-center">
+              {/* eslint-disable-next-line @next/next/no-img-element */}
+              <img src={enrollment.qrCodeUrl} alt="QR code for your authenticator app" className="mx-auto w-48 h-48" />
+              <p className="text-xs text-gray-500 mt-2">Can&apos;t scan it? Enter this key instead:</p>
+              <p className="font-mono text-sm text-gray-900 break-all">{enrollment.secret}</p>
+            </div>
+            {codeField('Code from the app', '123456')}
+            <button
+              type="submit"
+              disabled={isSubmitting}
+              className="w-full px-4 py-2 text-sm font-medium text-white bg-blue-600 hover:bg-blue-700 disabled:bg-gray-400 rounded-md transition-colors"
+            >
+              {isSubmitting ? 'Turning On...' : 'Turn On'}
+            </button>
+          </form>
+        ) : (
+          <button
+            onClick={handleStartSetup}
+            disabled={isSubmitting}
+            className="w-full px-4 py-2 text-sm font-medium text-white bg-blue-600 hover:bg-blue-700 disabled:bg-gray-400 rounded-md transition-colors"
+          >
+            {isSubmitting ? 'Starting...' : 'Set Up'}
+          </button>
+        )}
+
+        <div className="text-center mt-6">
+          {pending ? (
+            <button onClick={handleSignOut} className="text-sm font-medium text-blue-600 hover:text-blue-800">
+              Sign out →
+            </button>
+          ) : (
+            <Link href="/admin/password" className="text-sm font-medium text-blue-600 hover:text-blue-800">
+              Back to security →
+            </Link>
+          )}
+        </div>
+      </div>
+    )
+  }
+
+  // Already on
+  return (
+    <div>
+      <h1 className="text-xl font-bold text-gray-900 mb-2">Two-factor authentication</h1>
+      <p className="text-gray-600 mb-6">Signed in as {email}</p>
+
+      <div className="bg-green-50 border border-green-200 rounded-lg p-3 mb-6">
+        <p className="text-sm text-green-800">
+          On. {status.recovery_codes_left} of 10 recovery codes left.
+        </p>
+      </div>
+
+      {pendingAction ? (
+        <form onSubmit={handleSubmit(onManage)} className="space-y-4">
+          {codeField(
+            pendingAction === 'disable' ? 'Code or recovery code to turn off' : 'Code from the app',
+            '123456'
+          )}
+          <div className="flex gap-2">
+            <button
+              type="button"
+              onClick={() => { setPendingAction(null); reset() }}
+              className="flex-1 px-4 py-2 text-sm font-medium text-gray-700 bg-gray-100 hover:bg-gray-200 rounded-md transition-colors"
+            >
+              Cancel
+            </button>
+            <button
+              type="submit"
+              disabled={isSubmitting}
+              className={`flex-1 px-4 py-2 text-sm font-medium text-white rounded-md transition-colors disabled:bg-gray-400 ${
+                pendingAction === 'disable' ? 'bg-red-600 hover:bg-red-700' : 'bg-blue-600 hover:bg-blue-700'
+              }`}
+            >
+              {isSubmitting ? 'Saving...' : pendingAction === 'disable' ? 'Turn Off' : 'Make New Codes'}
+            </button>
+          </div>
+        </form>
+      ) : (
+        <div className="space-y-2">
+          <button
+            onClick={() => setPendingAction('regenerate_codes')}
+            className="w-full px-4 py-2 text-sm font-medium text-gray-700 bg-gray-100 hover:bg-gray-200 rounded-md transition-colors"
+          >
+            Make new recovery codes
+          </button>
+          <button
+            onClick={() => setPendingAction('disable')}
+            disabled={status.team_required}
+            title={status.team_required ? 'Your team requires two-factor authentication' : undefined}
+            className="w-full px-4 py-2 text-sm font-medium text-red-700 bg-red-50 hover:bg-red-100 disabled:text-gray-400 disabled:bg-gray-50 rounded-md transition-colors"
+          >
+            Turn off two-factor authentication
+          </button>
+          {status.team_required && (
+            <p className="text-xs text-gray-500 text-center">Your team requires two-factor authentication.</p>
+          )}
+        </div>
+      )}
+
+      <div className="text-center mt-6">
+        <Link href="/admin/password" className="text-sm font-medium text-blue-600 hover:text-blue-800">
+          Back to security →
+        </Link>
+      </div>
+    </div>
+  )
+}
@@ -0,0 +1,40 @@
+import { redirect } from 'next/navigation'
+import TwoFactorSetup, { type TwoFactorStatus } from './TwoFactorSetup'
+import { createServerComponentClient } from '@/lib/supabase'
+import { getAdminAccess, safeAdminNextPath, ADMIN_LOGIN_PATH } from '@/lib/admin-session'
+
+interface TwoFactorPageProps {
+  searchParams: Promise<{
+    next?: string
+  }>
+}
+
+// The second sign-in step, setting up an authenticator app (which a team
+// can require before anything else), and managing it afterwards.
+// middleware.ts sends sessions that still owe the second step here.
+export default async function TwoFactorPage({ searchParams }: TwoFactorPageProps) {
+  const { next } = await searchParams
+  const supabase = await createServerComponentClient()
+  const access = await getAdminAccess(supabase, false)
+
+  if (access.status !== 'admin' && access.status !== 'mfa_required') redirect(ADMIN_LOGIN_PATH)
+
+  const { data: status, error } = await supabase
+    .rpc('admin_mfa_status')
+    .maybeSingle<TwoFactorStatus>()
+
+  if (error) console.error('Error loading two-factor status:', error)
+
+  return (
+    <div className="min-h-screen bg-gray-50 flex items-center justify-center p-4">
+      <div className="bg-white rounded-xl shadow-sm border border-gray-200 max-w-md w-full p-8">
+        <TwoFactorSetup
+          email={access.admin.email}
+          status={status ?? { enabled: false, team_required: false, verified: true, recovery_codes_left: 0 }}
+          pending={access.status === 'mfa_required'}
+          nextPath={safeAdminNextPath(next)}
+        />
+      </div>
+    </div>
+  )
+}
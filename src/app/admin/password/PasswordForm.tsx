@@ -0,0 +1,130 @@
+'use client'
+
+import { useState } from 'react'
+import { useRouter } from 'next/navigation'
+import { useForm } from 'react-hook-form'
+import { zodResolver } from '@hookform/resolvers/zod'
+import { toast } from 'react-hot-toast'
+import { adminPasswordSchema, type AdminPasswordData } from '@/lib/validations'
+import { createClientComponentClient } from '@/lib/supabase'
+
+interface PasswordFormProps {
+  // Arrived from a password reset link, so there's no current password to ask for
+  resetting: boolean
+}
+
+const inputClassName = 'w-full border border-gray-300 rounded-md px-3 py-2 text-gray-900 bg-white focus:outline-none focus:ring-2 focus:ring-blue-500 focus:border-blue-500'
+
+export default function PasswordForm({ resetting }: PasswordFormProps) {
+  const [isSubmitting, setIsSubmitting] = useState(false)
+  const router = useRouter()
+  const supabase = createClientComponentClient()
+
+  const form = useForm<AdminPasswordData>({
+    resolver: zodResolver(adminPasswordSchema),
+  })
+
+  const onSubmit = async (data: AdminPasswordData) => {
+    setIsSubmitting(true)
+    try {
+      if (!resetting) {
+        if (!data.currentPassword) {
+          form.setError('currentPassword', { message: 'Current password is required' })
+          return
+        }
+
+        const { data: { session } } = await supabase.auth.getSession()
+        if (!session) throw new Error('Not authenticated')
+
+        // Wrong guesses here count towards the sign-in lockout too
+        const response = await fetch('/api/admin/verify-password', {
+          method: 'POST',
+          headers: {
+            'Content-Type': 'application/json',
+            'Authorization': `Bearer ${session.access_token}`,
+          },
+          body: JSON.stringify({ currentPassword: data.currentPassword }),
+        })
+        if (!response.ok) {
+          const result = await response.json()
+          if (response.status !== 401) throw new Error(result.error || 'Failed to check your current password')
+          form.setError('currentPassword', { message: 'Current password is incorrect' })
+          return
+        }
+      }
+
+      const { error } = await supabase.auth.updateUser({ password: data.password })
+      if (error) throw error
+
+      toast.success('Password updated')
+      router.push('/admin/dashboard')
+    } catch (error: unknown) {
+      console.error('Error updating password:', error)
+      toast.error(error instanceof Error ? error.message : 'Failed to update password')
+    } finally {
+      setIsSubmitting(false)
+    }
+  }
+
+  return (
+    <form onSubmit={form.handleSubmit(onSubmit)} className="space-y-4">
+      {!resetting && (
+        <div>
+          <label htmlFor="currentPassword" className="block text-sm font-medium text-gray-700 mb-2">
+            Current Password
+          </label>
+          <input
+            {...form.register('currentPassword')}
+            type="password"
+            id="currentPassword"
+            autoComplete="current-password"
+            className={inputClassName}
+          />
+          {form.formState.errors.currentPassword && (
+            <p className="mt-1 text-sm text-red-600">{form.formState.errors.currentPassword.message}</p>
+          )}
+        </div>
+      )}
+
+      <div>
+        <label htmlFor="password" className="block text-sm font-medium text-gray-700 mb-2">
+          New Password
+        </label>
+        <input
+          {...form.register('password')}
+          type="password"
+          id="password"
+          autoComplete="new-password"
+          className={inputClassName}
+        />
+        {form.formState.errors.password && (
+          <p className="mt-1 text-sm text-red-600">{form.formState.errors.password.message}</p>
+        )}
+      </div>
+
+      <div>
+        <label htmlFor="confirmPassword" className="block text-sm font-medium text-gray-700 mb-2">
+          Confirm New Password
+        </label>
+        <input
+          {...form.register('confirmPassword')}
+          type="password"
+          id="confirmPassword"
+          autoComplete="new-password"
+          className={inputClassName}
+        />
+        {form.formState.errors.confirmPassword && (
+          <p className="mt-1 text-sm text-red-600">{form.formState.errors.confirmPassword.message}</p>
+        )}
+      </div>
+
+      <button
+        type="submit"
+        disabled={isSubmitting}
+        className="w-full px-4 py-2 text-sm font-medium text-white bg-blue-600 hover:bg-blue-700 disabled:bg-gray-400 rounded-md transition-colors"
+      >
+        {isSubmitting ? 'Saving...' : 'Update Password'}
+      </button>
+    </form>
+  )
+}
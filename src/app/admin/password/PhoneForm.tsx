@@ -0,0 +1,75 @@
+'use client'
+
+import { useState } from 'react'
+import { useForm } from 'react-hook-form'
+import { zodResolver } from '@hookform/resolvers/zod'
+import { toast } from 'react-hot-toast'
+import { adminPhoneSchema, type AdminPhoneData } from '@/lib/validations'
+import { createClientComponentClient } from '@/lib/supabase'
+import { toE164PhoneNumber } from '@/lib/utils'
+
+interface PhoneFormProps {
+  adminId: string
+  phone: string | null
+}
+
+const inputClassName = 'w-full border border-gray-300 rounded-md px-3 py-2 text-gray-900 bg-white focus:outline-none focus:ring-2 focus:ring-blue-500 focus:border-blue-500'
+
+// Where "send test to me" texts go. Also fills {{admin_phone}}.
+export default function PhoneForm({ adminId, phone }: PhoneFormProps) {
+  const [isSubmitting, setIsSubmitting] = useState(false)
+  const supabase = createClientComponentClient()
+
+  const form = useForm<AdminPhoneData>({
+    resolver: zodResolver(adminPhoneSchema),
+    defaultValues: { phone: phone ?? '' },
+  })
+
+  const onSubmit = async (data: AdminPhoneData) => {
+    setIsSubmitting(true)
+    try {
+      const normalized = data.phone ? toE164PhoneNumber(data.phone) : null
+
+      const { error } = await supabase
+        .from('admins')
+        .update({ phone: normalized })
+        .eq('id', adminId)
+
+      if (error) throw error
+
+      form.reset({ phone: normalized ?? '' })
+      toast.success(normalized ? 'Phone number saved' : 'Phone number removed')
+    } catch (error: unknown) {
+      console.error('Error updating phone number:', error)
+      toast.error(error instanceof Error ? error.message : 'Failed to update phone number')
+    } finally {
+      setIsSubmitting(false)
+    }
+  }
+
+  return (
+    <form onSubmit={form.handleSubmit(onSubmit)} className="mt-3 flex items-start gap-2">
+      <div className="flex-1">
+        <label htmlFor="phone" className="sr-only">Mobile number</label>
+        <input
+          {...form.register('phone')}
+          type="tel"
+          id="phone"
+          autoComplete="tel"
+          placeholder="(555) 123-4567"
+          className={inputClassName}
+        />
+        {form.formState.errors.phone && (
+          <p className="mt-1 text-sm text-red-600">{form.formState.errors.phone.message}</p>
+        )}
+      </div>
+      <button
+        type="submit"
+        disabled={isSubmitting || !form.formState.isDirty}
+        className="px-4 py-2 text-sm font-medium text-white bg-blue-600 hover:bg-blue-700 disabled:bg-gray-400 rounded-md transition-colors"
+      >
+        {isSubmitting ? 'Saving...' : 'Save'}
+      </button>
+    </form>
+  )
+}
@@ -0,0 +1,67 @@
+import Link from 'next/link'
+import { cookies } from 'next/headers'
+import PasswordForm from './PasswordForm'
+import PhoneForm from './PhoneForm'
+import { requireAdmin, ADMIN_HOME_PATH, ADMIN_MFA_PATH, PASSWORD_RESET_COOKIE } from '@/lib/admin-session'
+
+// Changing a password from the dashboard, and choosing a new one after a
+// reset link. Only the reset link skips the current password. Also holds the
+// admin's mobile number and links to two-factor authentication.
+export default async function PasswordPage() {
+  const { supabase, admin } = await requireAdmin()
+  const cookieStore = await cookies()
+  const resetting = cookieStore.has(PASSWORD_RESET_COOKIE)
+
+  const { data: mfa } = await supabase
+    .rpc('admin_mfa_status')
+    .maybeSingle<{ enabled: boolean; recovery_codes_left: number }>()
+
+  const { data: contact } = await supabase
+    .from('admins')
+    .select('phone')
+    .eq('id', admin.id)
+    .maybeSingle<{ phone: string | null }>()
+
+  return (
+    <div className="min-h-screen bg-gray-50 flex items-center justify-center p-4">
+      <div className="bg-white rounded-xl shadow-sm border border-gray-200 max-w-md w-full p-8">
+        <h1 className="text-xl font-bold text-gray-900 mb-2">
+          {resetting ? 'Choose a new password' : 'Change password'}
+        </h1>
+        <p className="text-gray-600 mb-6">Signed in as {admin.email}</p>
+
+        <PasswordForm resetting={resetting} />
+
+        {!resetting && (
+          <div className="border-t border-gray-200 mt-8 pt-6">
+            <h2 className="text-sm font-medium text-gray-900">Mobile number</h2>
+            <p className="text-sm text-gray-600 mt-1">
+              Test texts from the campaign editor are sent here.
+            </p>
+            <PhoneForm adminId={admin.id} phone={contact?.phone ?? null} />
+          </div>
+        )}
+
+        {!resetting && (
+          <div className="border-t border-gray-200 mt-8 pt-6">
+            <h2 className="text-sm font-medium text-gray-900">Two-factor authentication</h2>
+            <p className="text-sm text-gray-600 mt-1">
+              {mfa?.enabled
+                ? `On. ${mfa.recovery_codes_left} recovery codes left.`
+                : 'Off. Add a code from your phone to every sign-in.'}
+            </p>
+            <Link href={ADMIN_MFA_PATH} className="inline-block mt-2 text-sm font-medium text-blue-600 hover:text-blue-800">
+              {mfa?.enabled ? 'Manage →' : 'Set up →'}
+            </Link>
+          </div>
+        )}
+
+        <div className="text-center mt-6">
+          <Link href={ADMIN_HOME_PATH} className="text-sm font-medium text-blue-600 hover:text-blue-800">
+            Back to dashboard →
+          </Link>
+        </div>
+      </div>
+    </div>
+  )
+}
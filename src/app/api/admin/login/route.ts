@@ -0,0 +1,43 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { createServerComponentClient, createServiceRoleClient } from '@/lib/supabase'
+import { clientIpAddress, registerLoginSession, signInWithLockout } from '@/lib/admin-auth'
+import { adminLoginSchema } from '@/lib/validations'
+
+// Admin sign-in from the login page. Goes through the server so the lockout
+// in database-admin-onboarding.sql is checked and recorded where the browser
+// can't skip it, and registers the session: sessions from signing in with
+// Supabase Auth directly get no admin access. The session cookies are set on
+// the response.
+export async function POST(request: NextRequest) {
+  try {
+    const parsed = adminLoginSchema.safeParse(await request.json())
+    if (!parsed.success) {
+      return NextResponse.json({ error: parsed.error.errors[0].message }, { status: 400 })
+    }
+
+    const { email, password } = parsed.data
+    const authClient = await createServerComponentClient()
+
+    const supabase = createServiceRoleClient()
+
+    const { user, session, response } = await signInWithLockout(supabase, authClient, email, password, clientIpAddress(request))
+    if (response) return response
+
+    // Only reachable if the project doesn't require email confirmation
+    if (!user.email_confirmed_at) {
+      await authClient.auth.signOut()
+      return NextResponse.json({ error: 'Email not confirmed', code: 'email_not_confirmed' }, { status: 403 })
+    }
+
+    await registerLoginSession(supabase, session)
+
+    return NextResponse.json({ user: { id: user.id } })
+  } catch (error: unknown) {
+    console.error('Error in admin login API route:', error)
+    const errorMessage = error instanceof Error ? error.message : 'Internal server error'
+    return NextResponse.json(
+      { error: errorMessage },
+      { status: 500 }
+    )
+  }
+}
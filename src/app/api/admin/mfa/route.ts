@@ -0,0 +1,147 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { createServiceRoleClient } from '@/lib/supabase'
+import { authenticateAdminRequest, clearLoginFailures, clientIpAddress, getLoginLockedUntil, recordLoginFailure } from '@/lib/admin-auth'
+import { mfaActionSchema } from '@/lib/validations'
+import { generateTotpSecret, totpUri } from '@/lib/totp'
+import {
+  MFA_ISSUER,
+  getMfaStatus,
+  markSessionVerified,
+  redeemMfaCode,
+  replaceRecoveryCodes,
+} from '@/lib/admin-mfa'
+
+const WRONG_CODE = "That code didn't work. Check the time on your phone is set automatically and try again."
+
+// Everything to do with the signed-in admin's second sign-in step:
+//   enroll            start setting up an authenticator app (returns the secret)
+//   activate          finish setting it up with a code from the app
+//   verify            pass the second step for this sign-in session
+//   regenerate_codes  swap the recovery codes for new ones
+//   disable           turn two-factor authentication off
+export async function POST(request: NextRequest) {
+  try {
+    const supabase = createServiceRoleClient()
+
+    const { admin, sessionId, response } = await authenticateAdminRequest(supabase, request, { allowPendingMfa: true })
+    if (response) return response
+
+    if (!sessionId) {
+      return NextResponse.json({ error: 'Sign in again to continue' }, { status: 401 })
+    }
+
+    const parsed = mfaActionSchema.safeParse(await request.json())
+    if (!parsed.success) {
+      return NextResponse.json({ error: parsed.error.errors[0].message }, { status: 400 })
+    }
+
+    const { action, code } = parsed.data
+    const status = await getMfaStatus(supabase, admin.id, sessionId)
+
+    if (action === 'enroll') {
+      if (status.enabled) {
+        return NextResponse.json({ error: 'Two-factor authentication is already on' }, { status: 400 })
+      }
+
+      const secret = generateTotpSecret()
+      const { error } = await supabase
+        .from('admin_mfa')
+        .upsert({ admin_id: admin.id, secret, enabled_at: null, last_used_step: null })
+      if (error) throw error
+
+      return NextResponse.json({ secret, uri: totpUri(secret, admin.email, MFA_ISSUER) })
+    }
+
+    if (!code) {
+      return NextResponse.json({ error: 'Enter the code from your authenticator app' }, { status: 400 })
+    }
+
+    if (action === 'activate') {
+      if (status.enabled) {
+        return NextResponse.json({ error: 'Two-factor authentication is already on' }, { status: 400 })
+      }
+
+      if (!await redeemMfaCode(supabase, admin.id, code, { allowRecoveryCode: false })) {
+        return NextResponse.json({ error: WRONG_CODE }, { status: 400 })
+      }
+
+      const { error } = await supabase
+        .from('admin_mfa')
+        .update({ enabled_at: new Date().toISOString() })
+        .eq('admin_id', admin.id)
+      if (error) throw error
+
+      const recoveryCodes = await replaceRecoveryCodes(supabase, admin.id)
+      await markSessionVerified(supabase, admin.id, sessionId)
+
+      return NextResponse.json({ recoveryCodes })
+    }
+
+    if (!status.enabled) {
+      return NextResponse.json({ error: 'Two-factor authentication is not set up' }, { status: 400 })
+    }
+
+    if (action === 'verify') {
+      // Wrong codes count towards the same lockout as wrong passwords
+      const ipAddress = clientIpAddress(request)
+      const lockedUntil = await getLoginLockedUntil(supabase, admin.email, ipAddress)
+      if (lockedUntil) {
+        return NextResponse.json({ error: 'Too many failed attempts. Try again later.', lockedUntil }, { status: 429 })
+      }
+
+      const method = await redeemMfaCode(supabase, admin.id, code, { allowRecoveryCode: true })
+      if (!method) {
+        const nowLockedUntil = await recordLoginFailure(supabase, admin.email, ipAddress)
+        return nowLockedUntil
+          ? NextResponse.json({ error: 'Too many failed attempts. Try again later.', lockedUntil: nowLockedUntil }, { status: 429 })
+          : NextResponse.json({ error: WRONG_CODE }, { status: 401 })
+      }
+
+      await clearLoginFailures(supabase, admin.email, ipAddress)
+      await markSessionVerified(supabase, admin.id, sessionId)
+
+      return NextResponse.json({
+        method,
+        recoveryCodesLeft: status.recovery_codes_left - (method === 'recovery' ? 1 : 0),
+      })
+    }
+
+    // Changing the setup needs a session that has already passed the second
+    // step, plus a fresh code
+    if (!status.verified) {
+      return NextResponse.json({ error: 'Two-factor verification required' }, { status: 403 })
+    }
+
+    if (action === 'regenerate_codes') {
+      if (!await redeemMfaCode(supabase, admin.id, code, { allowRecoveryCode: false })) {
+        return NextResponse.json({ error: WRONG_CODE }, { status: 400 })
+      }
+
+      const recoveryCodes = await replaceRecoveryCodes(supabase, admin.id)
+      return NextResponse.json({ recoveryCodes })
+    }
+
+    // disable
+    if (status.team_required) {
+      return NextResponse.json({ error: 'Your team requires two-factor authentication' }, { status: 400 })
+    }
+
+    if (!await redeemMfaCode(supabase, admin.id, code, { allowRecoveryCode: true })) {
+      return NextResponse.json({ error: WRONG_CODE }, { status: 400 })
+    }
+
+    for (const table of ['admin_mfa', 'admin_mfa_recovery_codes', 'admin_mfa_sessions']) {
+      const { error } = await supabase.from(table).delete().eq('admin_id', admin.id)
+      if (error) throw error
+    }
+
+    return NextResponse.json({ disabled: true })
+  } catch (error: unknown) {
+    console.error('Error in two-factor API route:', error)
+    const errorMessage = error instanceof Error ? error.message : 'Internal server error'
+    return NextResponse.json(
+      { error: errorMessage },
+      { status: 500 }
+    )
+  }
+}
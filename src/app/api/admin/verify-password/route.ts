@@ -0,0 +1,37 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { createServiceRoleClient, createSessionlessClient } from '@/lib/supabase'
+import { authenticateAdminRequest, clientIpAddress, signInWithLockout } from '@/lib/admin-auth'
+import { currentPasswordSchema } from '@/lib/validations'
+
+// Checks the signed-in admin's current password before the change password
+// page sets a new one. Wrong guesses count towards the sign-in lockout. The
+// check signs in on a separate client and signs that session straight out,
+// leaving the admin's own session as it was.
+export async function POST(request: NextRequest) {
+  try {
+    const supabase = createServiceRoleClient()
+
+    const { admin, response: authResponse } = await authenticateAdminRequest(supabase, request)
+    if (authResponse) return authResponse
+
+    const parsed = currentPasswordSchema.safeParse(await request.json())
+    if (!parsed.success) {
+      return NextResponse.json({ error: parsed.error.errors[0].message }, { status: 400 })
+    }
+
+    const authClient = createSessionlessClient()
+    const { response } = await signInWithLockout(supabase, authClient, admin.email, parsed.data.currentPassword, clientIpAddress(request))
+    if (response) return response
+
+    await authClient.auth.signOut({ scope: 'local' })
+
+    return NextResponse.json({ success: true })
+  } catch (error: unknown) {
+    console.error('Error in verify password API route:', error)
+    const errorMessage = error instanceof Error ? error.message : 'Internal server error'
+    return NextResponse.json(
+      { error: errorMessage },
+      { status: 500 }
+    )
+  }
+}
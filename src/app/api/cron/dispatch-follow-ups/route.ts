@@ -0,0 +1,32 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { createServiceRoleClient } from '@/lib/supabase'
+import { invokeSendFollowUpFunction } from '@/lib/follow-up-dispatch'
+import { dispatchDueFollowUps } from '@/lib/follow-up-scheduler'
+
+// Called by Vercel Cron (see vercel.json). Vercel sends CRON_SECRET as a
+// Bearer token, so anything else is rejected.
+export async function GET(request: NextRequest) {
+  const cronSecret = process.env.CRON_SECRET
+  if (!cronSecret) {
+    return NextResponse.json({ error: 'CRON_SECRET not configured' }, { status: 500 })
+  }
+
+  const authHeader = request.headers.get('authorization')
+  if (authHeader !== `Bearer ${cronSecret}`) {
+    return NextResponse.json({ error: 'Unauthorized' }, { status: 401 })
+  }
+
+  try {
+    const supabase = createServiceRoleClient()
+    const result = await dispatchDueFollowUps(supabase, invokeSendFollowUpFunction)
+
+    return NextResponse.json(result)
+  } catch (error: unknown) {
+    console.error('Error in scheduled follow-up dispatch:', error)
+    const errorMessage = error instanceof Error ? error.message : 'Internal server error'
+    return NextResponse.json(
+      { error: errorMessage },
+      { status: 500 }
+    )
+  }
+}
@@ -0,0 +1,28 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { invokeFollowUpQueueWorker } from '@/lib/follow-up-dispatch'
+
+// Called by Vercel Cron (see vercel.json) to pick up retries whose backoff
+// has passed and anything an earlier worker ran out of time on.
+export async function GET(request: NextRequest) {
+  const cronSecret = process.env.CRON_SECRET
+  if (!cronSecret) {
+    return NextResponse.json({ error: 'CRON_SECRET not configured' }, { status: 500 })
+  }
+
+  const authHeader = request.headers.get('authorization')
+  if (authHeader !== `Bearer ${cronSecret}`) {
+    return NextResponse.json({ error: 'Unauthorized' }, { status: 401 })
+  }
+
+  try {
+    const result = await invokeFollowUpQueueWorker()
+    return NextResponse.json(result)
+  } catch (error: unknown) {
+    console.error('Error starting follow-up queue worker:', error)
+    const errorMessage = error instanceof Error ? error.message : 'Internal server error'
+    return NextResponse.json(
+      { error: errorMessage },
+      { status: 500 }
+    )
+  }
+}
@@ -0,0 +1,66 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { createServiceRoleClient } from '@/lib/supabase'
+import { bulkActionSchema, type BulkActionFormData } from '@/lib/follow-up-validations'
+import { invokeSendFollowUpFunction } from '@/lib/follow-up-dispatch'
+import { runBulkCampaignAction, type BulkActionOutcome, type BulkActionOutcomeType } from '@/lib/follow-up-bulk-actions'
+import { authenticateAdminRequest } from '@/lib/admin-auth'
+import { recordAuditEvents, type AuditAction, type AuditEvent } from '@/lib/audit-log'
+
+const BULK_AUDIT_ACTIONS: Partial<Record<BulkActionOutcomeType, AuditAction>> = {
+  updated: 'campaign.status_changed',
+  deleted: 'campaign.deleted',
+  enrolled: 'campaign.enrolled',
+  queued: 'campaign.sent',
+}
+
+// Skipped, unchanged and failed campaigns aren't recorded
+function bulkAuditEvent(action: BulkActionFormData['action'], result: BulkActionOutcome): AuditEvent | null {
+  const auditAction = BULK_AUDIT_ACTIONS[result.outcome]
+  if (!auditAction) return null
+
+  return {
+    action: auditAction,
+    entityType: 'campaign',
+    entityId: result.campaignId,
+    entityName: result.campaignName,
+    details: {
+      bulk: true,
+      ...(result.outcome === 'updated' && { detail: action === 'pause' ? 'Paused' : 'Activated' }),
+      ...(result.detail && { detail: result.detail }),
+      ...(result.batchId && { batchId: result.batchId }),
+    },
+  }
+}
+
+// Send, pause, activate or delete several of the signed-in admin's campaigns
+// at once. Responds with one result per requested campaign.
+export async function POST(request: NextRequest) {
+  try {
+    const supabase = createServiceRoleClient()
+
+    const { admin, response } = await authenticateAdminRequest(supabase, request)
+    if (response) return response
+
+    const parsed = bulkActionSchema.safeParse(await request.json())
+    if (!parsed.success) {
+      return NextResponse.json({ error: parsed.error.errors[0].message }, { status: 400 })
+    }
+
+    const results = await runBulkCampaignAction(supabase, admin.id, parsed.data, invokeSendFollowUpFunction)
+
+    // The service role skips the audit triggers, so record what changed here
+    await recordAuditEvents(supabase, admin.id, results.flatMap(result => {
+      const event = bulkAuditEvent(parsed.data.action, result)
+      return event ? [event] : []
+    }))
+
+    return NextResponse.json({ action: parsed.data.action, results })
+  } catch (error: unknown) {
+    console.error('Error in bulk campaign action:', error)
+    const errorMessage = error instanceof Error ? error.message : 'Internal server error'
+    return NextResponse.json(
+      { error: errorMessage },
+      { status: 500 }
+    )
+  }
+}
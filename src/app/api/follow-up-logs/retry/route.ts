@@ -0,0 +1,53 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { createServiceRoleClient } from '@/lib/supabase'
+import { retryFollowUpLogsSchema } from '@/lib/follow-up-validations'
+import { invokeFollowUpQueueWorker } from '@/lib/follow-up-dispatch'
+import { authenticateAdminRequest } from '@/lib/admin-auth'
+
+// Requeue the selected failed messages and start a worker to send them.
+// Messages that can't be retried, or whose sender's rows the admin can't
+// manage (see retry_failed_follow_up_logs), are left as they are.
+export async function POST(request: NextRequest) {
+  try {
+    const supabase = createServiceRoleClient()
+
+    const { admin, response } = await authenticateAdminRequest(supabase, request)
+    if (response) return response
+
+    const parsed = retryFollowUpLogsSchema.safeParse(await request.json())
+    if (!parsed.success) {
+      return NextResponse.json({ error: parsed.error.errors[0].message }, { status: 400 })
+    }
+
+    const { data, error } = await supabase
+      .rpc('retry_failed_follow_up_logs', {
+        admin_id_param: admin.id,
+        log_ids_param: parsed.data.logIds,
+      })
+
+    if (error) throw error
+
+    const retriedIds = (data || []) as string[]
+
+    if (retriedIds.length > 0) {
+      try {
+        await invokeFollowUpQueueWorker()
+      } catch (workerError: unknown) {
+        // The queue cron picks them up within a few minutes anyway
+        console.error('Error starting follow-up queue worker:', workerError)
+      }
+    }
+
+    return NextResponse.json({
+      retried: retriedIds,
+      skipped: parsed.data.logIds.length - retriedIds.length,
+    })
+  } catch (error: unknown) {
+    console.error('Error in follow-up log retry API route:', error)
+    const errorMessage = error instanceof Error ? error.message : 'Internal server error'
+    return NextResponse.json(
+      { error: errorMessage },
+      { status: 500 }
+    )
+  }
+}
@@ -0,0 +1,89 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { createServiceRoleClient } from '@/lib/supabase'
+import { followUpLogQuerySchema } from '@/lib/follow-up-validations'
+import { authenticateAdminRequest, getViewableAdminIds } from '@/lib/admin-auth'
+
+const LOG_LIST_SELECT = `
+  id,
+  visitor_id,
+  campaign_id,
+  message_type,
+  status,
+  recipient_email,
+  recipient_phone,
+  subject,
+  sent_at,
+  delivered_at,
+  opened_at,
+  clicked_at,
+  error_message,
+  visitors (name),
+  properties (name),
+  follow_up_campaigns (name)
+`
+
+// Characters with meaning inside a PostgREST or() filter
+function sanitizeSearch(search: string): string {
+  return search.replace(/[,()*%\\]/g, ' ').trim()
+}
+
+// One page of the message logs the signed-in admin can see (their own, or
+// their team's for owners and assistants), newest first
+export async function GET(request: NextRequest) {
+  try {
+    const supabase = createServiceRoleClient()
+
+    const { admin, response } = await authenticateAdminRequest(supabase, request)
+    if (response) return response
+
+    const parsed = followUpLogQuerySchema.safeParse(
+      Object.fromEntries(Array.from(request.nextUrl.searchParams.entries()).filter(([, value]) => value !== ''))
+    )
+    if (!parsed.success) {
+      return NextResponse.json({ error: parsed.error.errors[0].message }, { status: 400 })
+    }
+
+    const filters = parsed.data
+    const from = (filters.page - 1) * filters.page_size
+
+    // The service role skips RLS, so apply the team rules here
+    const viewableAdminIds = await getViewableAdminIds(supabase, admin.id)
+
+    let query = supabase
+      .from('follow_up_logs')
+      .select(LOG_LIST_SELECT, { count: 'exact' })
+      .in('admin_id', viewableAdminIds)
+
+    if (filters.campaign_id) query = query.eq('campaign_id', filters.campaign_id)
+    if (filters.property_id) query = query.eq('property_id', filters.property_id)
+    if (filters.message_type) query = query.eq('message_type', filters.message_type)
+    if (filters.status) query = query.eq('status', filters.status)
+    if (filters.date_from) query = query.gte('sent_at', filters.date_from)
+    if (filters.date_to) query = query.lte('sent_at', filters.date_to)
+
+    const search = filters.search ? sanitizeSearch(filters.search) : ''
+    if (search) {
+      query = query.or(`recipient_email.ilike.*${search}*,recipient_phone.ilike.*${search}*`)
+    }
+
+    const { data, count, error } = await query
+      .order('sent_at', { ascending: false })
+      .range(from, from + filters.page_size - 1)
+
+    if (error) throw error
+
+    return NextResponse.json({
+      logs: data || [],
+      total: count || 0,
+      page: filters.page,
+      pageSize: filters.page_size,
+    })
+  } catch (error: unknown) {
+    console.error('Error in follow-up logs API route:', error)
+    const errorMessage = error instanceof Error ? error.message : 'Internal server error'
+    return NextResponse.json(
+      { error: errorMessage },
+      { status: 500 }
+    )
+  }
+}
@@ -1,5 +1,9 @@
 import { NextRequest, NextResponse } from 'next/server'
 import { createClient } from '@supabase/supabase-js'
+import { invokeSendFollowUpFunction } from '@/lib/follow-up-dispatch'
+import { authenticateAdminRequest } from '@/lib/admin-auth'
+import { recordAuditEvents } from '@/lib/audit-log'
+import { FUNCTION_NOT_FOUND_CODE } from '@/lib/postgrest'
 
 export async function POST(request: NextRequest) {
   try {
@@ -8,31 +12,8 @@ export async function POST(request: NextRequest) {
     
     const supabase = createClient(supabaseUrl, supabaseServiceKey)
     
-    // Get authorization header
-    const authHeader = request.headers.get('authorization')
-    if (!authHeader) {
-      return NextResponse.json({ error: 'Unauthorized - No authorization header' }, { status: 401 })
-    }
-
-    // Extract token from Bearer header
-    const token = authHeader.replace('Bearer ', '')
-    
-    // Verify the user session
-    const { data: { user }, error: authError } = await supabase.auth.getUser(token)
-    if (authError || !user) {
-      return NextResponse.json({ error: 'Unauthorized - Invalid token' }, { status: 401 })
-    }
-
-    // Verify user is an admin
-    const { data: adminData, error: adminError } = await supabase
-      .from('admins')
-      .select('id')
-      .eq('user_id', user.id)
-      .single()
-
-    if (adminError || !adminData) {
-      return NextResponse.json({ error: 'Unauthorized - Admin access required' }, { status: 403 })
-    }
+    const { admin: adminData, response } = await authenticateAdminRequest(supabase, request)
+    if (response) return response
 
     const body = await request.json()
     const { campaignId, visitorIds, propertyId, messageType } = body
@@ -41,27 +22,51 @@ export async function POST(request: NextRequest) {
       return NextResponse.json({ error: 'Campaign ID is required' }, { status: 400 })
     }
 
-    // Always use the Supabase Edge Function for real email/SMS sending
-    const functionUrl = `${supabaseUrl}/functions/v1/send-follow-up`
-    
-    const response = await fetch(functionUrl, {
-      method: 'POST',
-      headers: {
-        'Content-Type': 'application/json',
-        'Authorization': `Bearer ${supabaseServiceKey}`,
-      },
-      body: JSON.stringify({
-        campaignId,
-        visitorIds,
-        propertyId,
-        messageType,
-      }),
+    // The service role skips RLS, so check the admin's role here. Before
+    // database-teams.sql is run, admins can only send their own campaigns.
+    let canSend: boolean
+    const { data: allowed, error: accessError } = await supabase.rpc('admin_can_send_campaign', {
+      actor_id: adminData.id,
+      campaign_id_param: campaignId,
     })
+    if (accessError) {
+      if (accessError.code !== FUNCTION_NOT_FOUND_CODE) throw accessError
+
+      const { data: campaign, error: campaignError } = await supabase
+        .from('follow_up_campaigns')
+        .select('admin_id')
+        .eq('id', campaignId)
+        .maybeSingle()
+
+      if (campaignError) throw campaignError
+      canSend = campaign?.admin_id === adminData.id
+    } else {
+      canSend = allowed === true
+    }
 
-    const result = await response.json()
+    if (!canSend) {
+      return NextResponse.json({ error: 'Your role cannot send this campaign' }, { status: 403 })
+    }
+
+    // Always use the Supabase Edge Function for real email/SMS sending
+    const result = await invokeSendFollowUpFunction({
+      campaignId,
+      visitorIds,
+      propertyId,
+      messageType,
+    })
 
-    if (!response.ok) {
-      throw new Error(result.error || 'Failed to send follow-up messages')
+    if (result.visitors > 0) {
+      await recordAuditEvents(supabase, adminData.id, [{
+        action: 'campaign.sent',
+        entityType: 'campaign',
+        entityId: campaignId,
+        details: {
+          visitors: result.visitors,
+          batchId: result.batchId,
+          ...(visitorIds?.length && { selectedVisitors: visitorIds.length }),
+        },
+      }])
     }
 
     return NextResponse.json(result)
@@ -0,0 +1,79 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { createServiceRoleClient } from '@/lib/supabase'
+import { testSendSchema } from '@/lib/follow-up-validations'
+import { invokeSendTestMessage } from '@/lib/follow-up-dispatch'
+import { adminCanAccess, authenticateAdminRequest } from '@/lib/admin-auth'
+import {
+  getVisitorOwnerId,
+  loadVisitorTemplateContext,
+  renderTemplatePreview,
+  SAMPLE_TEMPLATE_CONTEXT,
+} from '@/lib/template-preview'
+
+// Render the editor's content for a chosen visitor (or the sample visitor)
+// and send it to the signed-in admin only
+export async function POST(request: NextRequest) {
+  try {
+    const supabase = createServiceRoleClient()
+
+    const { admin: requestAdmin, response } = await authenticateAdminRequest(supabase, request)
+    if (response) return response
+
+    // The name and phone number fill the admin's template variables
+    const { data: admin, error: adminError } = await supabase
+      .from('admins')
+      .select('id, first_name, last_name, email, phone')
+      .eq('id', requestAdmin.id)
+      .single()
+
+    if (adminError) throw adminError
+
+    const parsed = testSendSchema.safeParse(await request.json())
+    if (!parsed.success) {
+      return NextResponse.json({ error: parsed.error.errors[0].message }, { status: 400 })
+    }
+
+    const { campaignId, visitorId, channel, ...content } = parsed.data
+
+    if (channel === 'sms' && !admin.phone) {
+      return NextResponse.json({ error: 'Add your mobile number on the Security page to receive test SMS' }, { status: 400 })
+    }
+
+    // A visitor the admin can't see gets the same answer as one that doesn't
+    // exist, so the route can't be used to probe for them
+    if (visitorId && !(await adminCanAccess(supabase, admin.id, await getVisitorOwnerId(supabase, visitorId), 'view'))) {
+      return NextResponse.json({ error: 'Visitor not found' }, { status: 404 })
+    }
+
+    const context = visitorId
+      ? await loadVisitorTemplateContext(supabase, visitorId, admin)
+      : { ...SAMPLE_TEMPLATE_CONTEXT, admin }
+
+    const rendered = renderTemplatePreview(content, context, {
+      timeZone: process.env.APP_TIME_ZONE,
+      appUrl: process.env.APP_URL,
+    })
+
+    const result = await invokeSendTestMessage({
+      adminId: admin.id,
+      campaignId,
+      channel,
+      ...(channel === 'email'
+        ? { subject: rendered.emailSubject, html: rendered.emailHtml, text: rendered.emailText }
+        : { sms: rendered.smsContent }),
+    })
+
+    if (!result.success) {
+      return NextResponse.json({ error: result.error || 'Failed to send test message' }, { status: 502 })
+    }
+
+    return NextResponse.json(result)
+  } catch (error: unknown) {
+    console.error('Error in send-follow-up test API route:', error)
+    const errorMessage = error instanceof Error ? error.message : 'Internal server error'
+    return NextResponse.json(
+      { error: errorMessage },
+      { status: 500 }
+    )
+  }
+}
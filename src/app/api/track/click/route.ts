@@ -0,0 +1,37 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { createServiceRoleClient } from '@/lib/supabase'
+import { recordClick, resolveClickToken } from '@/lib/email-tracking'
+import type { ClickTarget } from '@shared/email-tracking'
+
+// Tracked link from a follow-up email. Records the click, then redirects to
+// the original URL. A failure to record never stops the visitor getting there.
+export async function GET(request: NextRequest) {
+  const token = request.nextUrl.searchParams.get('token')
+  if (!token) {
+    return NextResponse.json({ error: 'Missing token' }, { status: 400 })
+  }
+
+  let target: ClickTarget | null
+  try {
+    target = await resolveClickToken(token)
+  } catch (error: unknown) {
+    console.error('Error resolving tracked link:', error)
+    const errorMessage = error instanceof Error ? error.message : 'Internal server error'
+    return NextResponse.json(
+      { error: errorMessage },
+      { status: 500 }
+    )
+  }
+
+  if (!target) {
+    return NextResponse.json({ error: 'This link is invalid' }, { status: 400 })
+  }
+
+  try {
+    await recordClick(createServiceRoleClient(), target)
+  } catch (error: unknown) {
+    console.error('Error recording link click:', error)
+  }
+
+  return NextResponse.redirect(target.url, 302)
+}
@@ -0,0 +1,27 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { createServiceRoleClient } from '@/lib/supabase'
+import { recordOpen, resolveOpenToken, TRACKING_PIXEL } from '@/lib/email-tracking'
+
+// Open pixel from follow-up emails. Always answers with the image so a
+// broken token never shows as a missing picture in the email.
+export async function GET(request: NextRequest) {
+  const token = request.nextUrl.searchParams.get('token')
+
+  if (token) {
+    try {
+      const logId = await resolveOpenToken(token)
+      if (logId) {
+        await recordOpen(createServiceRoleClient(), logId)
+      }
+    } catch (error: unknown) {
+      console.error('Error recording email open:', error)
+    }
+  }
+
+  return new NextResponse(TRACKING_PIXEL, {
+    headers: {
+      'Content-Type': 'image/gif',
+      'Cache-Control': 'no-store, no-cache, must-revalidate, max-age=0',
+    },
+  })
+}
@@ -0,0 +1,39 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { createServiceRoleClient } from '@/lib/supabase'
+import { getUnsubscribeVisitor, recordUnsubscribe, resolveUnsubscribeToken } from '@/lib/unsubscribe'
+
+// RFC 8058 one-click unsubscribe. Mail clients POST
+// "List-Unsubscribe=One-Click" to the URL from the List-Unsubscribe header;
+// there is no page and no confirmation step.
+export async function POST(request: NextRequest) {
+  const token = request.nextUrl.searchParams.get('token')
+  if (!token) {
+    return NextResponse.json({ error: 'Missing token' }, { status: 400 })
+  }
+
+  try {
+    const supabase = createServiceRoleClient()
+    const visitorId = await resolveUnsubscribeToken(token)
+    const visitor = visitorId ? await getUnsubscribeVisitor(supabase, visitorId) : null
+
+    if (!visitor) {
+      return NextResponse.json({ error: 'Invalid token' }, { status: 400 })
+    }
+
+    await recordUnsubscribe(supabase, {
+      visitorId: visitor.id,
+      email: visitor.email,
+      unsubscribeType: 'email',
+      reason: 'One-click unsubscribe',
+    })
+
+    return NextResponse.json({ success: true })
+  } catch (error: unknown) {
+    console.error('Error in one-click unsubscribe:', error)
+    const errorMessage = error instanceof Error ? error.message : 'Internal server error'
+    return NextResponse.json(
+      { error: errorMessage },
+      { status: 500 }
+    )
+  }
+}
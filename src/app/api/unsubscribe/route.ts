@@ -0,0 +1,120 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { createServiceRoleClient } from '@/lib/supabase'
+import { confirmUnsubscribeSchema, tokenUnsubscribeSchema, unsubscribeSchema } from '@/lib/follow-up-validations'
+import { toE164PhoneNumber } from '@/lib/utils'
+import {
+  getUnsubscribeVisitor,
+  recordUnsubscribe,
+  requestUnsubscribeConfirmation,
+  resolveUnsubscribeConfirmationToken,
+  resolveUnsubscribeToken,
+  sendUnsubscribeConfirmation,
+  type UnsubscribeConfirmation,
+} from '@/lib/unsubscribe'
+
+// Submitted by the /unsubscribe page. With a signed token from a follow-up
+// message the visitor's own contact details are used. Without one the
+// visitor enters the email or phone to opt out, and we send a confirmation
+// link to it if it belongs to a visitor; the opt-out is recorded when that
+// link is confirmed. The answer is the same whether or not anything was
+// sent, so the page doesn't reveal who is on file.
+export async function POST(request: NextRequest) {
+  try {
+    const body = await request.json()
+    const supabase = createServiceRoleClient()
+
+    if (body.token) {
+      const parsed = tokenUnsubscribeSchema.safeParse(body)
+      if (!parsed.success) {
+        return NextResponse.json({ error: parsed.error.errors[0].message }, { status: 400 })
+      }
+
+      const visitorId = await resolveUnsubscribeToken(parsed.data.token)
+      const visitor = visitorId ? await getUnsubscribeVisitor(supabase, visitorId) : null
+      if (!visitor) {
+        return NextResponse.json({ error: 'This unsubscribe link is invalid or has expired' }, { status: 400 })
+      }
+
+      await recordUnsubscribe(supabase, {
+        visitorId: visitor.id,
+        email: visitor.email,
+        phone: visitor.phone,
+        unsubscribeType: parsed.data.unsubscribe_type,
+        reason: parsed.data.reason,
+      })
+
+      return NextResponse.json({ success: true })
+    }
+
+    if (body.confirmation_token) {
+      const parsed = confirmUnsubscribeSchema.safeParse(body)
+      if (!parsed.success) {
+        return NextResponse.json({ error: parsed.error.errors[0].message }, { status: 400 })
+      }
+
+      const confirmation = await resolveUnsubscribeConfirmationToken(parsed.data.confirmation_token)
+      if (!confirmation) {
+        return NextResponse.json({ error: 'This confirmation link is invalid or has expired' }, { status: 400 })
+      }
+
+      await recordUnsubscribe(supabase, {
+        email: confirmation.channel === 'email' ? confirmation.contact : null,
+        phone: confirmation.channel === 'sms' ? confirmation.contact : null,
+        unsubscribeType: confirmation.channel,
+        reason: confirmation.reason,
+      })
+
+      return NextResponse.json({ success: true })
+    }
+
+    const parsed = unsubscribeSchema.safeParse(body)
+    if (!parsed.success) {
+      return NextResponse.json({ error: parsed.error.errors[0].message }, { status: 400 })
+    }
+
+    // One confirmation per address, each covering only its own channel, so
+    // owning one address never opts out another
+    const { email, phone, unsubscribe_type: unsubscribeType, reason } = parsed.data
+    if (phone && unsubscribeType !== 'email' && !toE164PhoneNumber(phone)) {
+      return NextResponse.json({ error: 'Invalid phone number' }, { status: 400 })
+    }
+
+    const confirmations: UnsubscribeConfirmation[] = []
+    if (email && unsubscribeType !== 'sms') confirmations.push({ channel: 'email', contact: email, reason })
+    if (phone && unsubscribeType !== 'email') confirmations.push({ channel: 'sms', contact: phone, reason })
+
+    if (confirmations.length === 0) {
+      return NextResponse.json(
+        { error: unsubscribeType === 'sms' ? 'Enter your phone number to stop text messages' : 'Enter your email address to stop emails' },
+        { status: 400 }
+      )
+    }
+
+    const ipAddress = request.headers.get('x-forwarded-for')?.split(',')[0].trim() || 'unknown'
+    const appUrl = process.env.APP_URL || request.nextUrl.origin
+    for (const confirmation of confirmations) {
+      const decision = await requestUnsubscribeConfirmation(supabase, confirmation, ipAddress)
+      if (decision === 'rate_limited') {
+        return NextResponse.json({ error: 'Too many requests. Try again later.' }, { status: 429 })
+      }
+      if (decision !== 'send') continue
+
+      // A failed send is only logged: an error here would tell the caller
+      // the address is on file
+      try {
+        await sendUnsubscribeConfirmation(confirmation, appUrl)
+      } catch (error: unknown) {
+        console.error('Error sending unsubscribe confirmation:', error)
+      }
+    }
+
+    return NextResponse.json({ success: true, confirmationSent: true })
+  } catch (error: unknown) {
+    console.error('Error in unsubscribe API route:', error)
+    const errorMessage = error instanceof Error ? error.message : 'Internal server error'
+    return NextResponse.json(
+      { error: errorMessage },
+      { status: 500 }
+    )
+  }
+}
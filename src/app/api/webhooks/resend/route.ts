@@ -0,0 +1,64 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { createServiceRoleClient } from '@/lib/supabase'
+import { verifyResendSignature } from '@/lib/webhook-signatures'
+import { applyDeliveryEvent, mapResendEventType } from '@/lib/delivery-status'
+
+interface ResendWebhookEvent {
+  type: string
+  created_at: string
+  data: {
+    email_id: string
+    bounce?: {
+      message?: string
+    }
+  }
+}
+
+export async function POST(request: NextRequest) {
+  const secret = process.env.RESEND_WEBHOOK_SECRET
+  if (!secret) {
+    return NextResponse.json({ error: 'RESEND_WEBHOOK_SECRET not configured' }, { status: 500 })
+  }
+
+  // Signatures are computed over the raw body, so read it before parsing
+  const payload = await request.text()
+
+  const isValid = verifyResendSignature({
+    payload,
+    svixId: request.headers.get('svix-id'),
+    svixTimestamp: request.headers.get('svix-timestamp'),
+    svixSignature: request.headers.get('svix-signature'),
+    secret,
+  })
+
+  if (!isValid) {
+    return NextResponse.json({ error: 'Invalid signature' }, { status: 401 })
+  }
+
+  try {
+    const event = JSON.parse(payload) as ResendWebhookEvent
+    const status = mapResendEventType(event.type)
+
+    // Acknowledge event types we don't track so Resend stops retrying them
+    if (!status || !event.data?.email_id) {
+      return NextResponse.json({ received: true, result: 'ignored' })
+    }
+
+    const supabase = createServiceRoleClient()
+    const result = await applyDeliveryEvent(supabase, {
+      externalId: event.data.email_id,
+      status,
+      occurredAt: event.created_at || new Date().toISOString(),
+      errorMessage: event.data.bounce?.message || (status === 'bounced' ? 'Email bounced' : null),
+    })
+
+    return NextResponse.json({ received: true, result })
+  } catch (error: unknown) {
+    console.error('Error processing Resend webhook:', error)
+    const errorMessage = error instanceof Error ? error.message : 'Internal server error'
+    return NextResponse.json(
+      { error: errorMessage },
+      { status: 500 }
+    )
+  }
+}
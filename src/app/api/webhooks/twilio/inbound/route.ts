@@ -0,0 +1,53 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { createServiceRoleClient } from '@/lib/supabase'
+import { publicWebhookUrl, verifyTwilioSignature } from '@/lib/webhook-signatures'
+import { isStopKeyword, recordUnsubscribe } from '@/lib/unsubscribe'
+
+// Twilio "A message comes in" webhook for the follow-up number. STOP replies
+// are recorded as SMS opt-outs; Twilio sends the confirmation reply itself.
+export async function POST(request: NextRequest) {
+  const authToken = process.env.TWILIO_AUTH_TOKEN
+  if (!authToken) {
+    return NextResponse.json({ error: 'TWILIO_AUTH_TOKEN not configured' }, { status: 500 })
+  }
+
+  const formData = await request.formData()
+  const params: Record<string, string> = {}
+  formData.forEach((value, key) => {
+    params[key] = value.toString()
+  })
+
+  const isValid = verifyTwilioSignature({
+    url: publicWebhookUrl(request.url),
+    params,
+    signature: request.headers.get('x-twilio-signature'),
+    authToken,
+  })
+
+  if (!isValid) {
+    return NextResponse.json({ error: 'Invalid signature' }, { status: 401 })
+  }
+
+  try {
+    if (params.From && isStopKeyword(params.Body || '')) {
+      const supabase = createServiceRoleClient()
+      await recordUnsubscribe(supabase, {
+        phone: params.From,
+        unsubscribeType: 'sms',
+        reason: `Replied ${params.Body.trim().toUpperCase()}`,
+      })
+    }
+
+    // Empty TwiML: no automatic reply from us
+    return new NextResponse('<?xml version="1.0" encoding="UTF-8"?><Response></Response>', {
+      headers: { 'Content-Type': 'text/xml' },
+    })
+  } catch (error: unknown) {
+    console.error('Error processing Twilio inbound message:', error)
+    const errorMessage = error instanceof Error ? error.message : 'Internal server error'
+    return NextResponse.json(
+      { error: errorMessage },
+      { status: 500 }
+    )
+  }
+}
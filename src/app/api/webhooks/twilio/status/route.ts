@@ -0,0 +1,55 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { createServiceRoleClient } from '@/lib/supabase'
+import { publicWebhookUrl, verifyTwilioSignature } from '@/lib/webhook-signatures'
+import { applyDeliveryEvent, mapTwilioMessageStatus } from '@/lib/delivery-status'
+
+// Twilio StatusCallback for outgoing SMS. The send-follow-up Edge Function
+// sets this URL on every message when APP_URL is configured.
+export async function POST(request: NextRequest) {
+  const authToken = process.env.TWILIO_AUTH_TOKEN
+  if (!authToken) {
+    return NextResponse.json({ error: 'TWILIO_AUTH_TOKEN not configured' }, { status: 500 })
+  }
+
+  const formData = await request.formData()
+  const params: Record<string, string> = {}
+  formData.forEach((value, key) => {
+    params[key] = value.toString()
+  })
+
+  const isValid = verifyTwilioSignature({
+    url: publicWebhookUrl(request.url),
+    params,
+    signature: request.headers.get('x-twilio-signature'),
+    authToken,
+  })
+
+  if (!isValid) {
+    return NextResponse.json({ error: 'Invalid signature' }, { status: 401 })
+  }
+
+  try {
+    const status = mapTwilioMessageStatus(params.MessageStatus)
+
+    if (!status || !params.MessageSid) {
+      return NextResponse.json({ received: true, result: 'ignored' })
+    }
+
+    const supabase = createServiceRoleClient()
+    const result = await applyDeliveryEvent(supabase, {
+      externalId: params.MessageSid,
+      status,
+      occurredAt: new Date().toISOString(),
+      errorMessage: params.ErrorCode ? `Twilio error ${params.ErrorCode}` : null,
+    })
+
+    return NextResponse.json({ received: true, result })
+  } catch (error: unknown) {
+    console.error('Error processing Twilio status callback:', error)
+    const errorMessage = error instanceof Error ? error.message : 'Internal server error'
+    return NextResponse.json(
+      { error: errorMessage },
+      { status: 500 }
+    )
+  }
+}
@@ -0,0 +1,369 @@
+'use client'
+
+import { useState, useEffect, useRef } from 'react'
+import { useForm } from 'react-hook-form'
+import { zodResolver } from '@hookform/resolvers/zod'
+import { toast } from 'react-hot-toast'
+import { useRouter } from 'next/navigation'
+import { createClientComponentClient } from '@/lib/supabase'
+import { kioskPinSchema, type KioskPinFormData, type VisitorFormData, type FeedbackFormData } from '@/lib/validations'
+import {
+  loadKioskState,
+  saveKioskState,
+  loadKioskQueue,
+  enqueueKioskSubmission,
+  syncKioskQueue,
+  hashKioskPin,
+  type KioskState,
+} from '@/lib/kiosk'
+import PropertyCheckInForm from './PropertyCheckInForm'
+import PropertyFeedbackForm from '@/app/feedback/[propertyId]/PropertyFeedbackForm'
+
+interface KioskModeProps {
+  propertyId: string
+}
+
+// How often the kiosk retries syncing and checks for a new open house
+const SYNC_INTERVAL_MS = 30000
+
+const inputClassName = 'w-full border border-gray-300 rounded-md px-3 py-2 text-gray-900 bg-white text-center tracking-widest focus:outline-none focus:ring-2 focus:ring-blue-500 focus:border-blue-500'
+
+export default function KioskMode({ propertyId }: KioskModeProps) {
+  const [kiosk, setKiosk] = useState<KioskState | null>(null)
+  const [loading, setLoading] = useState(true)
+  const [online, setOnline] = useState(true)
+  const [mode, setMode] = useState<'check_in' | 'feedback'>('check_in')
+  const [pending, setPending] = useState(0)
+  const [failed, setFailed] = useState(0)
+  const [showExit, setShowExit] = useState(false)
+  const [exitPin, setExitPin] = useState('')
+  const syncing = useRef(false)
+  const syncAgain = useRef(false)
+  const router = useRouter()
+  const supabase = createClientComponentClient()
+
+  const pinForm = useForm<KioskPinFormData>({
+    resolver: zodResolver(kioskPinSchema),
+  })
+
+  useEffect(() => {
+    setOnline(navigator.onLine)
+    setPending(loadKioskQueue(propertyId).length)
+    loadProperty()
+    runSync()
+
+    const handleOnline = () => {
+      setOnline(true)
+      loadProperty()
+      runSync()
+    }
+    const handleOffline = () => setOnline(false)
+    const interval = setInterval(() => {
+      if (!navigator.onLine) return
+      loadProperty()
+      runSync()
+    }, SYNC_INTERVAL_MS)
+
+    // Keep guests on the kiosk when they press back
+    window.history.pushState(null, '', window.location.href)
+    const handlePopState = () => window.history.pushState(null, '', window.location.href)
+
+    window.addEventListener('online', handleOnline)
+    window.addEventListener('offline', handleOffline)
+    window.addEventListener('popstate', handlePopState)
+    return () => {
+      clearInterval(interval)
+      window.removeEventListener('online', handleOnline)
+      window.removeEventListener('offline', handleOffline)
+      window.removeEventListener('popstate', handlePopState)
+    }
+  }, [propertyId]) // eslint-disable-line react-hooks/exhaustive-deps
+
+  // Reads the latest saved state, so changes made by a sync in progress
+  // aren't overwritten
+  const updateKiosk = (update: (state: KioskState) => KioskState) => {
+    const current = loadKioskState(propertyId)
+    if (!current) return
+    const next = update(current)
+    saveKioskState(propertyId, next)
+    setKiosk(next)
+  }
+
+  // Refreshes the cached property and running session, falling back to the
+  // cache when offline
+  const loadProperty = async () => {
+    try {
+      const { data: propertyData, error: propertyError } = await supabase
+        .from('properties')
+        .select('id, name, address, description')
+        .eq('id', propertyId)
+        .eq('status', 'active')
+        .single()
+
+      if (propertyError) throw propertyError
+
+      const { data: sessionData, error: sessionError } = await supabase
+        .rpc('get_active_session', { property_uuid: propertyId })
+
+      if (sessionError) throw sessionError
+      const sessionId: string | null = sessionData?.[0]?.id ?? null
+
+      const cached = loadKioskState(propertyId)
+      const next: KioskState = {
+        property: propertyData,
+        session_id: sessionId,
+        pin_hash: cached?.pin_hash ?? null,
+        // Once a new open house starts, forget synced guests from earlier ones
+        guests: (cached?.guests || []).filter(guest =>
+          !sessionId || guest.session_id === sessionId || !guest.feedback_token
+        ),
+      }
+      saveKioskState(propertyId, next)
+      setKiosk(next)
+    } catch (error: unknown) {
+      // Keep running from the cache so the agent can still exit with the PIN
+      const cached = loadKioskState(propertyId)
+      if (cached) {
+        setKiosk(cached)
+      } else if (error && typeof error === 'object' && 'code' in error && error.code === 'PGRST116') {
+        toast.error('Property not found or not available for check-in')
+      } else {
+        console.error('Error loading kiosk:', error)
+        toast.error('Connect to the internet once to set up kiosk mode')
+      }
+    } finally {
+      setLoading(false)
+    }
+  }
+
+  const runSync = async () => {
+    if (syncing.current) {
+      syncAgain.current = true
+      return
+    }
+
+    syncing.current = true
+    try {
+      do {
+        syncAgain.current = false
+        const result = await syncKioskQueue(supabase, propertyId)
+        setPending(result.pending)
+        setFailed(result.failed)
+        setOnline(!result.offline)
+        // Pick up visitor ids saved by the sync
+        const latest = loadKioskState(propertyId)
+        if (latest) setKiosk(latest)
+      } while (syncAgain.current)
+    } catch (error) {
+      console.error('Error syncing kiosk:', error)
+    } finally {
+      syncing.current = false
+    }
+  }
+
+  const handleCheckIn = (data: VisitorFormData) => {
+    if (!kiosk?.session_id) return
+
+    const clientId = crypto.randomUUID()
+    enqueueKioskSubmission(propertyId, {
+      kind: 'check_in',
+      client_id: clientId,
+      property_id: propertyId,
+      session_id: kiosk.session_id,
+      visit_date: new Date().toISOString(),
+      visitor: data,
+      attempts: 0,
+    })
+    updateKiosk(state => ({
+      ...state,
+      guests: [...state.guests, {
+        client_id: clientId,
+        session_id: kiosk.session_id!,
+        name: data.name,
+        email: data.email,
+        has_feedback: false,
+      }],
+    }))
+    setPending(count => count + 1)
+    runSync()
+  }
+
+  const handleFeedback = (guestId: string, data: FeedbackFormData) => {
+    enqueueKioskSubmission(propertyId, {
+      kind: 'feedback',
+      client_id: crypto.randomUUID(),
+      guest_client_id: guestId,
+      submitted_at: new Date().toISOString(),
+      feedback: data,
+      attempts: 0,
+    })
+    updateKiosk(state => ({
+      ...state,
+      guests: state.guests.map(guest => guest.client_id === guestId ? { ...guest, has_feedback: true } : guest),
+    }))
+    setPending(count => count + 1)
+    runSync()
+  }
+
+  const onSetPin = async (data: KioskPinFormData) => {
+    const pinHash = await hashKioskPin(propertyId, data.pin)
+    updateKiosk(state => ({ ...state, pin_hash: pinHash }))
+    pinForm.reset()
+    toast.success('Kiosk mode is on')
+  }
+
+  const handleExit = async (event: React.FormEvent) => {
+    event.preventDefault()
+    if (!kiosk) return
+
+    if (await hashKioskPin(propertyId, exitPin) !== kiosk.pin_hash) {
+      toast.error('Incorrect PIN')
+      setExitPin('')
+      return
+    }
+
+    if (pending > 0 && !confirm(`${pending} submission${pending === 1 ? ' has' : 's have'} not synced yet. They stay on this tablet and sync the next time kiosk mode is opened here. Exit anyway?`)) {
+      return
+    }
+
+    updateKiosk(state => ({ ...state, pin_hash: null }))
+    router.push('/admin/dashboard')
+  }
+
+  if (loading) {
+    return (
+      <div className="flex items-center justify-center py-8">
+        <div className="animate-spin rounded-full h-8 w-8 border-b-2 border-blue-600"></div>
+      </div>
+    )
+  }
+
+  if (!kiosk) {
+    return (
+      <div className="text-center py-8">
+        <p className="text-gray-600">Kiosk mode isn&apos;t available for this property</p>
+      </div>
+    )
+  }
+
+  // The agent locks the tablet with a PIN before handing it to guests
+  if (!kiosk.pin_hash) {
+    const { errors, isSubmitting } = pinForm.formState
+    return (
+      <form onSubmit={pinForm.handleSubmit(onSetPin)} className="space-y-4">
+        <div>
+          <h2 className="text-lg font-semibold text-gray-900">Start kiosk mode</h2>
+          <p className="text-sm text-gray-600 mt-1">
+            Choose a PIN for {kiosk.property.name}. Guests can check in and leave feedback, and the PIN is needed to leave kiosk mode.
+          </p>
+        </div>
+        <div>
+          <input {...pinForm.register('pin')} type="password" inputMode="numeric" autoComplete="off" placeholder="PIN" className={inputClassName} />
+          {errors.pin && <p className="mt-1 text-sm text-red-600">{errors.pin.message}</p>}
+        </div>
+        <div>
+          <input {...pinForm.register('confirm_pin')} type="password" inputMode="numeric" autoComplete="off" placeholder="Confirm PIN" className={inputClassName} />
+          {errors.confirm_pin && <p className="mt-1 text-sm text-red-600">{errors.confirm_pin.message}</p>}
+        </div>
+        <button
+          type="submit"
+          disabled={isSubmitting}
+          className="w-full bg-blue-600 text-white py-3 px-4 rounded-md hover:bg-blue-700 disabled:opacity-50 transition-colors font-medium"
+        >
+          Lock and Start
+        </button>
+      </form>
+    )
+  }
+
+  const sessionGuests = kiosk.guests
+    .filter(guest => !kiosk.session_id || guest.session_id === kiosk.session_id)
+    .map(guest => ({ id: guest.client_id, name: guest.name, email: guest.email, has_feedback: guest.has_feedback }))
+    .reverse()
+
+  return (
+    <div>
+      <div className="flex justify-between items-center mb-4 text-xs">
+        <span className={`flex items-center font-medium ${online ? 'text-green-700' : 'text-amber-700'}`}>
+          <span className={`w-2 h-2 rounded-full mr-1.5 ${online ? 'bg-green-500' : 'bg-amber-500'}`} />
+          {online ? 'Online' : 'Offline – saving on this tablet'}
+        </span>
+        <div className="flex items-center space-x-3">
+          {pending > 0 && (
+            <span
+              className={`px-2 py-0.5 rounded-full font-medium ${failed > 0 ? 'bg-red-100 text-red-800' : 'bg-amber-100 text-amber-800'}`}
+              title={failed > 0 ? `${failed} could not be saved and will be retried` : undefined}
+            >
+              {pending} waiting to sync
+            </span>
+          )}
+          <button onClick={() => setShowExit(true)} className="text-gray-400 hover:text-gray-600">
+            Exit
+          </button>
+        </div>
+      </div>
+
+      <div className="grid grid-cols-2 gap-2 mb-6">
+        {(['check_in', 'feedback'] as const).map(option => (
+          <button
+            key={option}
+            onClick={() => setMode(option)}
+            className={`py-2 rounded-md text-sm font-medium transition-colors ${
+              mode === option ? 'bg-blue-600 text-white' : 'bg-gray-100 text-gray-700 hover:bg-gray-200'
+            }`}
+          >
+            {option === 'check_in' ? 'Check In' : 'Leave Feedback'}
+          </button>
+        ))}
+      </div>
+
+      {mode === 'check_in' ? (
+        <PropertyCheckInForm
+          propertyId={propertyId}
+          kiosk={{ property: kiosk.property, sessionId: kiosk.session_id, onCheckIn: handleCheckIn }}
+        />
+      ) : (
+        <PropertyFeedbackForm
+          propertyId={propertyId}
+          kiosk={{ property: kiosk.property, guests: sessionGuests, onFeedback: handleFeedback }}
+        />
+      )}
+
+      {showExit && (
+        <div className="fixed inset-0 bg-black bg-opacity-50 flex items-center justify-center p-4 z-50">
+          <form onSubmit={handleExit} className="bg-white rounded-lg shadow-xl max-w-xs w-full p-6 space-y-4">
+            <h3 className="text-lg font-semibold text-gray-900">Exit kiosk mode</h3>
+            <input
+              value={exitPin}
+              onChange={(e) => setExitPin(e.target.value)}
+              type="password"
+              inputMode="numeric"
+              autoComplete="off"
+              autoFocus
+              placeholder="PIN"
+              className={inputClassName}
+            />
+            <div className="flex space-x-2">
+              <button
+                type="button"
+                onClick={() => {
+                  setShowExit(false)
+                  setExitPin('')
+                }}
+                className="flex-1 px-4 py-2 text-sm font-medium text-gray-700 bg-gray-100 hover:bg-gray-200 rounded-md transition-colors"
+              >
+                Cancel
+              </button>
+              <button
+                type="submit"
+                className="flex-1 px-4 py-2 text-sm font-medium text-white bg-blue-600 hover:bg-blue-700 rounded-md transition-colors"
+              >
+                Exit
+              </button>
+            </div>
+          </form>
+        </div>
+      )}
+    </div>
+  )
+}
@@ -7,6 +7,7 @@ import { toast } from 'react-hot-toast'
 import { useRouter } from 'next/navigation'
 import { visitorSchema, type VisitorFormData } from '@/lib/validations'
 import { createClientComponentClient } from '@/lib/supabase'
+import type { KioskProperty } from '@/lib/kiosk'
 
 interface Property {
   id: string
@@ -15,14 +16,43 @@ interface Property {
   description?: string
 }
 
+interface ActiveSession {
+  id: string
+}
+
+// Answers from a returning guest's last visit, offered as a prefill
+interface ReturningVisitor {
+  first_name: string
+  home_buying_status: string
+  looking_to_buy_within: string
+  budget_range: string
+  financing_status: string
+}
+
+// In kiosk mode the property and session come from the kiosk's cache and
+// check-ins are handed to it to queue, so the form works offline
+interface KioskCheckInOptions {
+  property: KioskProperty
+  sessionId: string | null
+  onCheckIn: (data: VisitorFormData) => void
+}
+
 interface PropertyCheckInFormProps {
   propertyId: string
+  kiosk?: KioskCheckInOptions
 }
 
-export default function PropertyCheckInForm({ propertyId }: PropertyCheckInFormProps) {
+// How long a kiosk shows its welcome message before clearing for the next guest
+const KIOSK_WELCOME_MS = 5000
+
+export default function PropertyCheckInForm({ propertyId, kiosk }: PropertyCheckInFormProps) {
   const [isSubmitting, setIsSubmitting] = useState(false)
   const [property, setProperty] = useState<Property | null>(null)
+  const [activeSession, setActiveSession] = useState<ActiveSession | null>(null)
   const [loading, setLoading] = useState(true)
+  const [welcomedGuest, setWelcomedGuest] = useState<string | null>(null)
+  const [returningVisitor, setReturningVisitor] = useState<ReturningVisitor | null>(null)
+  const [lastLookup, setLastLookup] = useState('')
   const router = useRouter()
   const supabase = createClientComponentClient()
 
@@ -31,6 +61,9 @@ export default function PropertyCheckInForm({ propertyId }: PropertyCheckInFormP
     handleSubmit,
     formState: { errors },
     watch,
+    reset,
+    getValues,
+    setValue,
   } = useForm<VisitorFormData>({
     resolver: zodResolver(visitorSchema),
   })
@@ -38,8 +71,20 @@ export default function PropertyCheckInForm({ propertyId }: PropertyCheckInFormP
   const howDidYouHear = watch('how_did_you_hear')
 
   useEffect(() => {
+    if (kiosk) {
+      setProperty(kiosk.property)
+      setActiveSession(kiosk.sessionId ? { id: kiosk.sessionId } : null)
+      setLoading(false)
+      return
+    }
     fetchProperty()
-  }, [propertyId]) // eslint-disable-line react-hooks/exhaustive-deps
+  }, [propertyId, kiosk?.property, kiosk?.sessionId]) // eslint-disable-line react-hooks/exhaustive-deps
+
+  useEffect(() => {
+    if (!welcomedGuest) return
+    const timeout = setTimeout(() => setWelcomedGuest(null), KIOSK_WELCOME_MS)
+    return () => clearTimeout(timeout)
+  }, [welcomedGuest])
 
   const fetchProperty = async () => {
     try {
@@ -60,6 +105,13 @@ export default function PropertyCheckInForm({ propertyId }: PropertyCheckInFormP
       }
 
       setProperty(data)
+
+      // Check-ins are only accepted while an open house is running
+      const { data: sessionData, error: sessionError } = await supabase
+        .rpc('get_active_session', { property_uuid: propertyId })
+
+      if (sessionError) throw sessionError
+      setActiveSession(sessionData?.[0] ?? null)
     } catch (error) {
       console.error('Error fetching property:', error)
       toast.error('Failed to load property information')
@@ -69,31 +121,68 @@ export default function PropertyCheckInForm({ propertyId }: PropertyCheckInFormP
     }
   }
 
+  // Once both email and phone are filled in, looks for an earlier visit to
+  // this agent's open houses. Lookup failures (e.g. a kiosk offline) are
+  // ignored, since the guest can always fill in the form themselves.
+  const checkReturningVisitor = async () => {
+    const { email, phone } = getValues()
+    if (!email?.includes('@') || (phone || '').replace(/\D/g, '').length < 10) return
+
+    const lookup = `${email}|${phone}`
+    if (lookup === lastLookup) return
+    setLastLookup(lookup)
+
+    try {
+      const { data, error } = await supabase
+        .rpc('find_returning_visitor', {
+          property_uuid: propertyId,
+          email_param: email,
+          phone_param: phone,
+        })
+
+      if (error) throw error
+      setReturningVisitor(data?.[0] ?? null)
+    } catch (error) {
+      console.error('Error looking up returning visitor:', error)
+    }
+  }
+
+  const applyReturningVisitor = () => {
+    if (!returningVisitor) return
+    const answers = ['home_buying_status', 'looking_to_buy_within', 'budget_range', 'financing_status'] as const
+    answers.forEach(field => {
+      if (returningVisitor[field]) setValue(field, returningVisitor[field], { shouldValidate: true })
+    })
+    setReturningVisitor(null)
+  }
+
+  // The database ties the visitor to the running session, and refuses the
+  // check-in if the open house has ended since the page loaded
   const onSubmit = async (data: VisitorFormData) => {
     if (!property) return
 
+    if (kiosk) {
+      kiosk.onCheckIn(data)
+      reset()
+      setReturningVisitor(null)
+      setLastLookup('')
+      setWelcomedGuest(data.name)
+      window.scrollTo(0, 0)
+      return
+    }
+
     setIsSubmitting(true)
     
     try {
-      const { data: visitorData, error } = await supabase
-        .from('visitors')
-        .insert([
-          {
-            name: data.name,
-            email: data.email,
-            phone: data.phone,
+      // Visitors can't read the visitors table, so the check-in goes through a
+      // function that hands back only this guest's feedback token
+      const { data: feedbackToken, error } = await supabase
+        .rpc('check_in_visitor', {
+          check_in: {
+            ...data,
             property_id: property.id,
-            visit_date: new Date().toISOString(),
-            home_buying_status: data.home_buying_status,
-            looking_to_buy_within: data.looking_to_buy_within,
-            budget_range: data.budget_range,
-            financing_status: data.financing_status,
-            how_did_you_hear: data.how_did_you_hear,
-            how_did_you_hear_other: data.how_did_you_hear_other || null,
           },
-        ])
-        .select()
-        .single()
+        })
 
       if (error) {
         throw error
@@ -101,8 +190,8 @@ export default function PropertyCheckInForm({ propertyId }: PropertyCheckInFormP
 
       toast.success('Check-in successful! Welcome to our open house.')
       
-      // Redirect to thank you page with visitor and property info
-      router.push(`/thank-you?visitor=${visitorData.id}&property=${property.id}&token=${visitorData.feedback_token}`)
+      // Redirect to thank you page with their feedback link
+      router.push(`/thank-you?property=${property.id}&token=${feedbackToken}`)
     } catch (error: unknown) {
       console.error('Error during check-in:', error)
       const errorMessage = error instanceof Error ? error.message : 'Check-in failed. Please try again.'
@@ -128,6 +217,41 @@ export default function PropertyCheckInForm({ propertyId }: PropertyCheckInFormP
     )
   }
 
+  if (!activeSession) {
+    return (
+      <div className="text-center py-8">
+        <h2 className="text-lg font-semibold text-gray-900 mb-1">{property.name}</h2>
+        <p className="text-sm text-gray-600 mb-4">{property.address}</p>
+        <div className="p-4 bg-yellow-50 rounded-lg border border-yellow-200">
+          <p className="text-yellow-800 font-medium">Check-in isn&apos;t open right now</p>
+          <p className="text-yellow-700 text-sm mt-1">
+            There is no open house running at this property. Please check with the agent on site.
+          </p>
+        </div>
+      </div>
+    )
+  }
+
+  if (welcomedGuest) {
+    return (
+      <div className="text-center py-8 space-y-4">
+        <div className="w-16 h-16 bg-green-500 rounded-full flex items-center justify-center mx-auto">
+          <svg className="w-8 h-8 text-white" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+            <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M5 13l4 4L19 7" />
+          </svg>
+        </div>
+        <h2 className="text-2xl font-bold text-gray-900">Welcome, {welcomedGuest}!</h2>
+        <p className="text-gray-600">You&apos;re checked in. Enjoy the open house.</p>
+        <button
+          onClick={() => setWelcomedGuest(null)}
+          className="text-sm font-medium text-blue-600 hover:text-blue-800"
+        >
+          Next guest
+        </button>
+      </div>
+    )
+  }
+
   return (
     <div>
       {/* Property Information */}
@@ -168,7 +292,7 @@ export default function PropertyCheckInForm({ propertyId }: PropertyCheckInFormP
               Email Address *
             </label>
             <input
-              {...register('email')}
+              {...register('email', { onBlur: checkReturningVisitor })}
               type="email"
               id="email"
               className="w-full px-3 py-2 border border-gray-300 rounded-md shadow-sm focus:outline-none focus:ring-2 focus:ring-blue-500 focus:border-blue-500 text-gray-900 placeholder-gray-500"
@@ -184,7 +308,7 @@ export default function PropertyCheckInForm({ propertyId }: PropertyCheckInFormP
               Phone Number *
             </label>
             <input
-              {...register('phone')}
+              {...register('phone', { onBlur: checkReturningVisitor })}
               type="tel"
               id="phone"
               className="w-full px-3 py-2 border border-gray-300 rounded-md shadow-sm focus:outline-none focus:ring-2 focus:ring-blue-500 focus:border-blue-500 text-gray-900 placeholder-gray-500"
@@ -194,6 +318,31 @@ export default function PropertyCheckInForm({ propertyId }: PropertyCheckInFormP
               <p className="mt-1 text-sm text-red-600">{errors.phone.message}</p>
             )}
           </div>
+
+          {returningVisitor && (
+            <div className="p-3 bg-blue-50 rounded-lg border border-blue-200">
+              <p className="text-sm font-medium text-blue-900">
+                Welcome back{returningVisitor.first_name ? `, ${returningVisitor.first_name}` : ''}!
+              </p>
+              <p className="text-sm text-blue-700 mt-1">Would you like to use your answers from last time?</p>
+              <div className="flex space-x-3 mt-2">
+                <button
+                  type="button"
+                  onClick={applyReturningVisitor}
+                  className="text-sm font-medium text-white bg-blue-600 hover:bg-blue-700 px-3 py-1 rounded-md transition-colors"
+                >
+                  Yes, fill them in
+                </button>
+                <button
+                  type="button"
+                  onClick={() => setReturningVisitor(null)}
+                  className="text-sm font-medium text-blue-700 hover:text-blue-900"
+                >
+                  No thanks
+                </button>
+              </div>
+            </div>
+          )}
         </div>
 
         {/* Home Buying Status */}
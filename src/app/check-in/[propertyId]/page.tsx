@@ -1,14 +1,19 @@
 import { Suspense } from 'react'
 import PropertyCheckInForm from './PropertyCheckInForm'
+import KioskMode from './KioskMode'
 
 interface PropertyCheckInPageProps {
   params: Promise<{
     propertyId: string
   }>
+  searchParams: Promise<{
+    kiosk?: string
+  }>
 }
 
-export default async function PropertyCheckInPage({ params }: PropertyCheckInPageProps) {
+export default async function PropertyCheckInPage({ params, searchParams }: PropertyCheckInPageProps) {
   const { propertyId } = await params
+  const { kiosk } = await searchParams
   return (
     <div className="min-h-screen bg-gradient-to-br from-blue-50 to-indigo-100 py-12 px-4 sm:px-6 lg:px-8">
       <div className="max-w-md mx-auto">
@@ -27,7 +32,11 @@ export default async function PropertyCheckInPage({ params }: PropertyCheckInPag
               <div className="animate-spin rounded-full h-8 w-8 border-b-2 border-blue-600"></div>
             </div>
           }>
-            <PropertyCheckInForm propertyId={propertyId} />
+            {kiosk ? (
+              <KioskMode propertyId={propertyId} />
+            ) : (
+              <PropertyCheckInForm propertyId={propertyId} />
+            )}
           </Suspense>
         </div>
 
@@ -1,6 +1,6 @@
 'use client'
 
-import { useState } from 'react'
+import { useState, useEffect } from 'react'
 import { useForm } from 'react-hook-form'
 import { zodResolver } from '@hookform/resolvers/zod'
 import { toast } from 'react-hot-toast'
@@ -8,12 +8,22 @@ import { useSearchParams, useRouter } from 'next/navigation'
 import { feedbackSchema, type FeedbackFormData } from '@/lib/validations'
 import { createClientComponentClient } from '@/lib/supabase'
 
+// Who a feedback link is for (see database-feedback-links.sql)
+interface FeedbackLink {
+  first_name: string
+  property_name: string | null
+  property_address: string | null
+  status: 'open' | 'used' | 'expired'
+}
+
 export default function FeedbackForm() {
   const [isSubmitting, setIsSubmitting] = useState(false)
   const [submitted, setSubmitted] = useState(false)
+  const [link, setLink] = useState<FeedbackLink | null>(null)
+  const [loading, setLoading] = useState(true)
   const searchParams = useSearchParams()
   const router = useRouter()
-  const visitorId = searchParams.get('visitor')
+  const token = searchParams.get('token')
   const supabase = createClientComponentClient()
 
   const {
@@ -36,7 +46,39 @@ export default function FeedbackForm() {
 
   const watchedRating = watch('rating')
 
-  if (!visitorId) {
+  useEffect(() => {
+    fetchLink()
+  }, [token]) // eslint-disable-line react-hooks/exhaustive-deps
+
+  const fetchLink = async () => {
+    if (!token) {
+      setLoading(false)
+      return
+    }
+
+    try {
+      const { data, error } = await supabase
+        .rpc('get_feedback_link', { token })
+
+      if (error) throw error
+      setLink(data?.[0] ?? null)
+    } catch (error) {
+      console.error('Error loading feedback link:', error)
+      setLink(null)
+    } finally {
+      setLoading(false)
+    }
+  }
+
+  if (loading) {
+    return (
+      <div className="flex items-center justify-center py-8">
+        <div className="animate-spin rounded-full h-8 w-8 border-b-2 border-green-600"></div>
+      </div>
+    )
+  }
+
+  if (!token || !link) {
     return (
       <div className="text-center">
         <p className="text-red-600">Invalid feedback link. Please check in first.</p>
@@ -50,6 +92,24 @@ export default function FeedbackForm() {
     )
   }
 
+  if (link.status !== 'open') {
+    return (
+      <div className="text-center">
+        <p className="text-gray-700">
+          {link.status === 'used'
+            ? 'You have already shared your feedback for this visit. Thank you!'
+            : 'This feedback link has expired.'}
+        </p>
+        <button
+          onClick={() => router.push('/')}
+          className="mt-4 px-4 py-2 bg-blue-600 text-white rounded-md hover:bg-blue-700"
+        >
+          Back to Home
+        </button>
+      </div>
+    )
+  }
+
   if (submitted) {
     return (
       <div className="text-center space-y-4">
@@ -87,22 +147,7 @@ export default function FeedbackForm() {
     
     try {
       const { error } = await supabase
-        .from('feedback')
-        .insert([
-          {
-            visitor_id: visitorId,
-            rating: data.rating,
-            comments: data.comments || '',
-            interested: data.interested || false,
-            liked_most: data.liked_most || '',
-            liked_least: data.liked_least || '',
-            comparison_to_others: data.comparison_to_others,
-            meets_needs: data.meets_needs,
-            would_make_offer: data.would_make_offer,
-            perceived_value: data.perceived_value || '',
-            follow_up_preference: data.follow_up_preference,
-          },
-        ])
+        .rpc('submit_feedback', { token, feedback_data: data })
 
       if (error) {
         throw error
@@ -146,6 +191,15 @@ export default function FeedbackForm() {
 
   return (
     <form onSubmit={handleSubmit(onSubmit)} className="space-y-6">
+      {link.property_name && (
+        <div className="p-4 bg-green-50 rounded-lg border border-green-200">
+          <h2 className="text-lg font-semibold text-green-900 mb-1">
+            Thanks for visiting{link.first_name ? `, ${link.first_name}` : ''}!
+          </h2>
+          <p className="text-green-700 text-sm">{link.property_name} • {link.property_address}</p>
+        </div>
+      )}
+
       {/* Rating */}
       <div>
         <label className="block text-sm font-medium text-gray-700 mb-3">
@@ -5,8 +5,14 @@ import { useForm } from 'react-hook-form'
 import { zodResolver } from '@hookform/resolvers/zod'
 import { toast } from 'react-hot-toast'
 import { useRouter } from 'next/navigation'
-import { feedbackSchema, type FeedbackFormData } from '@/lib/validations'
+import {
+  feedbackSchema,
+  feedbackIdentitySchema,
+  type FeedbackFormData,
+  type FeedbackIdentityFormData,
+} from '@/lib/validations'
 import { createClientComponentClient } from '@/lib/supabase'
+import type { KioskProperty } from '@/lib/kiosk'
 
 interface Property {
   id: string
@@ -14,26 +20,40 @@ interface Property {
   address: string
 }
 
-interface TodaysVisitor {
+interface SessionVisitor {
   id: string
   name: string
   email: string
-  phone: string
-  feedback_token: string
   has_feedback: boolean
 }
 
+// In kiosk mode the guests are the ones checked in on the tablet, and
+// feedback is handed to the kiosk to queue. Otherwise guests confirm who
+// they are with their email and phone; nobody else's name is shown.
+interface KioskFeedbackOptions {
+  property: KioskProperty
+  guests: SessionVisitor[]
+  onFeedback: (guestId: string, data: FeedbackFormData) => void
+}
+
 interface PropertyFeedbackFormProps {
   propertyId: string
+  kiosk?: KioskFeedbackOptions
 }
 
-export default function PropertyFeedbackForm({ propertyId }: PropertyFeedbackFormProps) {
+// How long a kiosk shows its thank-you before returning to the guest list
+const KIOSK_THANK_YOU_MS = 5000
+
+export default function PropertyFeedbackForm({ propertyId, kiosk }: PropertyFeedbackFormProps) {
   const [isSubmitting, setIsSubmitting] = useState(false)
   const [property, setProperty] = useState<Property | null>(null)
-  const [visitors, setVisitors] = useState<TodaysVisitor[]>([])
-  const [selectedVisitor, setSelectedVisitor] = useState<TodaysVisitor | null>(null)
+  const [visitors, setVisitors] = useState<SessionVisitor[]>([])
+  const [selectedVisitor, setSelectedVisitor] = useState<SessionVisitor | null>(null)
+  const [feedbackToken, setFeedbackToken] = useState<string | null>(null)
+  const [guestName, setGuestName] = useState('')
   const [loading, setLoading] = useState(true)
-  const [step, setStep] = useState<'select' | 'feedback' | 'success'>('select')
+  const firstStep = kiosk ? 'select' : 'confirm'
+  const [step, setStep] = useState<'select' | 'confirm' | 'feedback' | 'success'>(firstStep)
   const router = useRouter()
   const supabase = createClientComponentClient()
 
@@ -53,13 +73,28 @@ export default function PropertyFeedbackForm({ propertyId }: PropertyFeedbackFor
 
   const rating = watch('rating')
 
+  const identityForm = useForm<FeedbackIdentityFormData>({
+    resolver: zodResolver(feedbackIdentitySchema),
+  })
+
+  useEffect(() => {
+    if (kiosk) {
+      setProperty(kiosk.property)
+      setVisitors(kiosk.guests)
+      setLoading(false)
+      return
+    }
+    fetchProperty()
+  }, [propertyId, kiosk?.property, kiosk?.guests])
+
   useEffect(() => {
-    fetchPropertyAndVisitors()
-  }, [propertyId])
+    if (!kiosk || step !== 'success') return
+    const timeout = setTimeout(handleBackToFeedback, KIOSK_THANK_YOU_MS)
+    return () => clearTimeout(timeout)
+  }, [step]) // eslint-disable-line react-hooks/exhaustive-deps
 
-  const fetchPropertyAndVisitors = async () => {
+  const fetchProperty = async () => {
     try {
-      // Fetch property info
       const { data: propertyData, error: propertyError } = await supabase
         .from('properties')
         .select('id, name, address')
@@ -69,14 +104,6 @@ export default function PropertyFeedbackForm({ propertyId }: PropertyFeedbackFor
       if (propertyError) throw propertyError
 
       setProperty(propertyData)
-
-      // Fetch today's visitors for this property
-      const { data: visitorsData, error: visitorsError } = await supabase
-        .rpc('get_todays_visitors_for_property', { property_uuid: propertyId })
-
-      if (visitorsError) throw visitorsError
-
-      setVisitors(visitorsData || [])
     } catch (error) {
       console.error('Error fetching data:', error)
       toast.error('Failed to load feedback form')
@@ -86,45 +113,59 @@ export default function PropertyFeedbackForm({ propertyId }: PropertyFeedbackFor
     }
   }
 
-  const handleVisitorSelect = (visitor: TodaysVisitor) => {
+  const handleVisitorSelect = (visitor: SessionVisitor) => {
     if (visitor.has_feedback) {
       toast.error('You have already submitted feedback for this visit.')
       return
     }
     setSelectedVisitor(visitor)
+    setGuestName(visitor.name)
     setStep('feedback')
   }
 
+  // Looks the guest up at this property's current or most recent open house
+  const onConfirmIdentity = async (data: FeedbackIdentityFormData) => {
+    try {
+      const { data: token, error } = await supabase
+        .rpc('confirm_feedback_visitor', {
+          property_uuid: propertyId,
+          email_param: data.email,
+          phone_param: data.phone,
+        })
+
+      if (error) throw error
+
+      const { data: link } = await supabase.rpc('get_feedback_link', { token })
+
+      setFeedbackToken(token)
+      setGuestName(link?.[0]?.first_name || data.email)
+      setStep('feedback')
+    } catch (error: unknown) {
+      console.error('Error confirming visitor:', error)
+      toast.error(error instanceof Error ? error.message : 'We couldn\'t find your check-in. Please try again.')
+    }
+  }
+
   const onSubmit = async (data: FeedbackFormData) => {
-    if (!selectedVisitor) return
+    if (kiosk) {
+      if (!selectedVisitor) return
+      kiosk.onFeedback(selectedVisitor.id, data)
+      setStep('success')
+      return
+    }
+
+    if (!feedbackToken) return
 
     setIsSubmitting(true)
     
     try {
       const { error } = await supabase
-        .from('feedback')
-        .insert([
-          {
-            visitor_id: selectedVisitor.id,
-            rating: data.rating,
-            comments: data.comments || '',
-            interested: data.interested || false,
-            liked_most: data.liked_most || '',
-            liked_least: data.liked_least || '',
-            comparison_to_others: data.comparison_to_others,
-            meets_needs: data.meets_needs,
-            would_make_offer: data.would_make_offer,
-            perceived_value: data.perceived_value || '',
-            follow_up_preference: data.follow_up_preference,
-          },
-        ])
+        .rpc('submit_feedback', { token: feedbackToken, feedback_data: data })
 
       if (error) throw error
 
       toast.success('Thank you for your feedback!')
       setStep('success')
-      // Refresh visitors list to update feedback status
-      fetchPropertyAndVisitors()
     } catch (error: any) {
       console.error('Error submitting feedback:', error)
       toast.error(error.message || 'Failed to submit feedback. Please try again.')
@@ -135,7 +176,10 @@ export default function PropertyFeedbackForm({ propertyId }: PropertyFeedbackFor
 
   const handleBackToFeedback = () => {
     setSelectedVisitor(null)
-    setStep('select')
+    setFeedbackToken(null)
+    setGuestName('')
+    identityForm.reset()
+    setStep(firstStep)
     // Reset form
     setValue('rating', 0)
     setValue('comments', '')
@@ -165,7 +209,7 @@ export default function PropertyFeedbackForm({ propertyId }: PropertyFeedbackFor
     )
   }
 
-  if (visitors.length === 0) {
+  if (kiosk && visitors.length === 0) {
     return (
       <div className="text-center py-8">
         <div className="mb-4">
@@ -173,8 +217,8 @@ export default function PropertyFeedbackForm({ propertyId }: PropertyFeedbackFor
             <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M17 20h5v-2a3 3 0 00-5.356-1.857M17 20H7m10 0v-2c0-.656-.126-1.283-.356-1.857M7 20H2v-2a3 3 0 015.356-1.857M7 20v-2c0-.656.126-1.283.356-1.857m0 0a5.002 5.002 0 019.288 0M15 7a3 3 0 11-6 0 3 3 0 016 0zm6 3a2 2 0 11-4 0 2 2 0 014 0zM7 10a2 2 0 11-4 0 2 2 0 014 0z" />
           </svg>
         </div>
-        <h3 className="text-lg font-medium text-gray-900 mb-2">No visitors today</h3>
-        <p className="text-gray-600">No one has checked in for this property today.</p>
+        <h3 className="text-lg font-medium text-gray-900 mb-2">No visitors yet</h3>
+        <p className="text-gray-600">No one has checked in to this open house yet.</p>
       </div>
     )
   }
@@ -187,11 +231,11 @@ export default function PropertyFeedbackForm({ propertyId }: PropertyFeedbackFor
         <p className="text-green-700 text-sm">{property.address}</p>
       </div>
 
-      {/* Step 1: Select Visitor */}
+      {/* Step 1: Select Visitor (kiosk) */}
       {step === 'select' && (
         <div>
           <h3 className="text-lg font-medium text-gray-900 mb-4">
-            Select your name from today's visitors:
+            Select your name from this open house's visitors:
           </h3>
           <div className="space-y-2">
             {visitors.map((visitor) => (
@@ -217,11 +261,63 @@ export default function PropertyFeedbackForm({ propertyId }: PropertyFeedbackFor
       )}
 
       {/* Step 2: Enhanced Feedback Form */}
-      {step === 'feedback' && selectedVisitor && (
+      {/* Step 1: Confirm Identity (public page) */}
+      {step === 'confirm' && (
+        <form onSubmit={identityForm.handleSubmit(onConfirmIdentity)} className="space-y-4">
+          <div>
+            <h3 className="text-lg font-medium text-gray-900">Confirm it&apos;s you</h3>
+            <p className="text-sm text-gray-600 mt-1">
+              Enter the email and phone number you checked in with.
+            </p>
+          </div>
+
+          <div>
+            <label htmlFor="identity_email" className="block text-sm font-medium text-gray-700 mb-1">
+              Email Address
+            </label>
+            <input
+              {...identityForm.register('email')}
+              type="email"
+              id="identity_email"
+              className="w-full px-3 py-2 border border-gray-300 rounded-md shadow-sm focus:outline-none focus:ring-2 focus:ring-green-500 focus:border-green-500 text-gray-900 placeholder-gray-500"
+              placeholder="you@example.com"
+            />
+            {identityForm.formState.errors.email && (
+              <p className="mt-1 text-sm text-red-600">{identityForm.formState.errors.email.message}</p>
+            )}
+          </div>
+
+          <div>
+            <label htmlFor="identity_phone" className="block text-sm font-medium text-gray-700 mb-1">
+              Phone Number
+            </label>
+            <input
+              {...identityForm.register('phone')}
+              type="tel"
+              id="identity_phone"
+              className="w-full px-3 py-2 border border-gray-300 rounded-md shadow-sm focus:outline-none focus:ring-2 focus:ring-green-500 focus:border-green-500 text-gray-900 placeholder-gray-500"
+              placeholder="(555) 123-4567"
+            />
+            {identityForm.formState.errors.phone && (
+              <p className="mt-1 text-sm text-red-600">{identityForm.formState.errors.phone.message}</p>
+            )}
+          </div>
+
+          <button
+            type="submit"
+            disabled={identityForm.formState.isSubmitting}
+            className="w-full bg-green-600 text-white py-2 px-4 rounded-md hover:bg-green-700 focus:outline-none focus:ring-2 focus:ring-green-500 focus:ring-offset-2 disabled:opacity-50 disabled:cursor-not-allowed transition-colors"
+          >
+            {identityForm.formState.isSubmitting ? 'Checking...' : 'Continue'}
+          </button>
+        </form>
+      )}
+
+      {step === 'feedback' && guestName && (
         <div>
           <div className="mb-4 p-3 bg-green-50 rounded-lg">
             <p className="text-sm text-green-800">
-              Submitting feedback as: <strong>{selectedVisitor.name}</strong>
+              Submitting feedback as: <strong>{guestName}</strong>
             </p>
           </div>
 
@@ -432,7 +528,7 @@ export default function PropertyFeedbackForm({ propertyId }: PropertyFeedbackFor
             <div className="flex space-x-3">
               <button
                 type="button"
-                onClick={() => setStep('select')}
+                onClick={handleBackToFeedback}
                 className="flex-1 bg-gray-200 text-gray-800 py-2 px-4 rounded-md hover:bg-gray-300 transition-colors"
               >
                 Back
@@ -460,7 +556,7 @@ export default function PropertyFeedbackForm({ propertyId }: PropertyFeedbackFor
       )}
 
       {/* Step 3: Success Message */}
-      {step === 'success' && selectedVisitor && (
+      {step === 'success' && guestName && (
         <div className="text-center space-y-6">
           <div className="w-16 h-16 bg-green-500 rounded-full flex items-center justify-center mx-auto">
             <svg
@@ -484,7 +580,7 @@ export default function PropertyFeedbackForm({ propertyId }: PropertyFeedbackFor
               Your feedback has been submitted successfully.
             </p>
             <p className="text-sm text-gray-500">
-              Feedback submitted by: <strong>{selectedVisitor.name}</strong>
+              Feedback submitted by: <strong>{guestName}</strong>
             </p>
           </div>
 
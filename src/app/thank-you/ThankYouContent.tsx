@@ -5,7 +5,7 @@ import Link from 'next/link'
 
 export default function ThankYouContent() {
   const searchParams = useSearchParams()
-  const visitorId = searchParams.get('visitor')
+  const feedbackToken = searchParams.get('token')
 
   return (
     <div className="text-center space-y-6">
@@ -25,7 +25,7 @@ export default function ThankYouContent() {
         </div>
       </div>
 
-      {visitorId && (
+      {feedbackToken && (
         <div className="bg-blue-50 border border-blue-200 rounded-lg p-6">
           <h3 className="text-lg font-medium text-blue-900 mb-3">
             Share Your Feedback
@@ -35,7 +35,7 @@ export default function ThankYouContent() {
             your thoughts about the property.
           </p>
           <Link
-            href={`/feedback?visitor=${visitorId}`}
+            href={`/feedback?token=${feedbackToken}`}
             className="inline-flex items-center px-6 py-3 bg-blue-600 text-white rounded-md hover:bg-blue-700 transition-colors font-medium"
           >
             Leave Feedback
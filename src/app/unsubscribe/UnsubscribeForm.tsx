@@ -0,0 +1,275 @@
+'use client'
+
+import { useState } from 'react'
+import { useForm, type Resolver } from 'react-hook-form'
+import { zodResolver } from '@hookform/resolvers/zod'
+import { toast } from 'react-hot-toast'
+import { tokenUnsubscribeSchema, unsubscribeSchema } from '@/lib/follow-up-validations'
+
+// An opt-out entered by hand, waiting for the address's owner to confirm it
+export interface PendingConfirmation {
+  token: string
+  channel: 'email' | 'sms'
+  contact: string
+}
+
+interface UnsubscribeFormProps {
+  token?: string
+  contact: { email: string; phone: string } | null
+  confirmation: PendingConfirmation | null
+  invalidLink: boolean
+}
+
+interface UnsubscribeFormValues {
+  email?: string
+  phone?: string
+  unsubscribe_type: 'email' | 'sms' | 'both'
+  reason?: string
+}
+
+const tokenChoiceSchema = tokenUnsubscribeSchema.omit({ token: true })
+
+export default function UnsubscribeForm({ token, contact, confirmation, invalidLink }: UnsubscribeFormProps) {
+  const [isSubmitting, setIsSubmitting] = useState(false)
+  const [submitted, setSubmitted] = useState(false)
+  const [confirmationSent, setConfirmationSent] = useState(false)
+
+  const {
+    register,
+    handleSubmit,
+    formState: { errors },
+  } = useForm<UnsubscribeFormValues>({
+    // With a signed link we already know the contact details
+    resolver: (token ? zodResolver(tokenChoiceSchema) : zodResolver(unsubscribeSchema)) as Resolver<UnsubscribeFormValues>,
+    defaultValues: {
+      unsubscribe_type: 'both',
+    },
+  })
+
+  const onSubmit = async (data: UnsubscribeFormValues) => {
+    setIsSubmitting(true)
+
+    try {
+      const response = await fetch('/api/unsubscribe', {
+        method: 'POST',
+        headers: {
+          'Content-Type': 'application/json',
+        },
+        body: JSON.stringify(token
+          ? { token, unsubscribe_type: data.unsubscribe_type, reason: data.reason || undefined }
+          : {
+              email: data.email || undefined,
+              phone: data.phone || undefined,
+              unsubscribe_type: data.unsubscribe_type,
+              reason: data.reason || undefined,
+            }
+        ),
+      })
+
+      const result = await response.json()
+
+      if (!response.ok) {
+        throw new Error(result.error || 'Failed to unsubscribe')
+      }
+
+      if (result.confirmationSent) {
+        setConfirmationSent(true)
+      } else {
+        setSubmitted(true)
+      }
+    } catch (error: unknown) {
+      console.error('Error unsubscribing:', error)
+      const errorMessage = error instanceof Error ? error.message : 'Something went wrong. Please try again.'
+      toast.error(errorMessage)
+    } finally {
+      setIsSubmitting(false)
+    }
+  }
+
+  // Confirmation links are opened by link scanners too, so the opt-out
+  // waits for this button rather than happening on page load
+  const confirmUnsubscribe = async () => {
+    if (!confirmation) return
+    setIsSubmitting(true)
+
+    try {
+      const response = await fetch('/api/unsubscribe', {
+        method: 'POST',
+        headers: {
+          'Content-Type': 'application/json',
+        },
+        body: JSON.stringify({ confirmation_token: confirmation.token }),
+      })
+
+      const result = await response.json()
+
+      if (!response.ok) {
+        throw new Error(result.error || 'Failed to unsubscribe')
+      }
+
+      setSubmitted(true)
+    } catch (error: unknown) {
+      console.error('Error confirming unsubscribe:', error)
+      const errorMessage = error instanceof Error ? error.message : 'Something went wrong. Please try again.'
+      toast.error(errorMessage)
+    } finally {
+      setIsSubmitting(false)
+    }
+  }
+
+  if (confirmationSent) {
+    return (
+      <div className="text-center space-y-4">
+        <h2 className="text-2xl font-bold text-gray-900">Check Your Messages</h2>
+        <p className="text-gray-600">
+          If we have that address on file, we&apos;ve sent it a link. Open it within 24 hours to confirm you want to unsubscribe.
+        </p>
+      </div>
+    )
+  }
+
+  if (confirmation && !submitted) {
+    return (
+      <div className="space-y-6">
+        <div className="p-4 bg-gray-50 rounded-lg border border-gray-200 text-sm text-gray-700">
+          <p>
+            Stop follow-up {confirmation.channel === 'email' ? 'emails to' : 'text messages to'}{' '}
+            <span className="font-medium">{confirmation.contact}</span>
+          </p>
+        </div>
+
+        <button
+          type="button"
+          onClick={confirmUnsubscribe}
+          disabled={isSubmitting}
+          className="w-full bg-gray-800 text-white py-3 px-4 rounded-md hover:bg-gray-900 focus:outline-none focus:ring-2 focus:ring-gray-500 focus:ring-offset-2 disabled:opacity-50 disabled:cursor-not-allowed transition-colors font-medium"
+        >
+          {isSubmitting ? 'Unsubscribing...' : 'Confirm Unsubscribe'}
+        </button>
+      </div>
+    )
+  }
+
+  if (submitted) {
+    return (
+      <div className="text-center space-y-4">
+        <div className="w-16 h-16 bg-green-500 rounded-full flex items-center justify-center mx-auto">
+          <svg className="w-8 h-8 text-white" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+            <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M5 13l4 4L19 7" />
+          </svg>
+        </div>
+        <h2 className="text-2xl font-bold text-gray-900">You&apos;re Unsubscribed</h2>
+        <p className="text-gray-600">
+          You won&apos;t receive these follow-up messages from us anymore.
+        </p>
+      </div>
+    )
+  }
+
+  return (
+    <form onSubmit={handleSubmit(onSubmit)} className="space-y-6">
+      {invalidLink && (
+        <div className="p-4 bg-yellow-50 border border-yellow-200 rounded-lg text-sm text-yellow-800">
+          This link is invalid or has expired. Enter your email or phone number below instead.
+        </div>
+      )}
+
+      {contact ? (
+        <div className="p-4 bg-gray-50 rounded-lg border border-gray-200 text-sm text-gray-700">
+          <p>Email: <span className="font-medium">{contact.email}</span></p>
+          <p>Phone: <span className="font-medium">{contact.phone}</span></p>
+        </div>
+      ) : (
+        <div className="space-y-4">
+          <div>
+            <label htmlFor="email" className="block text-sm font-medium text-gray-700 mb-1">
+              Email Address
+            </label>
+            <input
+              {...register('email')}
+              type="email"
+              id="email"
+              className="w-full px-3 py-2 border border-gray-300 rounded-md shadow-sm focus:outline-none focus:ring-2 focus:ring-blue-500 focus:border-blue-500 text-gray-900 placeholder-gray-500"
+              placeholder="Enter your email address"
+            />
+            {errors.email && (
+              <p className="mt-1 text-sm text-red-600">{errors.email.message}</p>
+            )}
+          </div>
+
+          <div>
+            <label htmlFor="phone" className="block text-sm font-medium text-gray-700 mb-1">
+              Phone Number
+            </label>
+            <input
+              {...register('phone')}
+              type="tel"
+              id="phone"
+              className="w-full px-3 py-2 border border-gray-300 rounded-md shadow-sm focus:outline-none focus:ring-2 focus:ring-blue-500 focus:border-blue-500 text-gray-900 placeholder-gray-500"
+              placeholder="Enter your phone number"
+            />
+            {errors.phone && (
+              <p className="mt-1 text-sm text-red-600">{errors.phone.message}</p>
+            )}
+          </div>
+        </div>
+      )}
+
+      <div>
+        <label className="block text-sm font-medium text-gray-700 mb-2">
+          Stop sending me: *
+        </label>
+        <div className="space-y-2">
+          {[
+            { value: 'email', label: 'Emails' },
+            { value: 'sms', label: 'Text messages' },
+            { value: 'both', label: 'Both emails and text messages' },
+          ].map((option) => (
+            <label key={option.value} className="flex items-center">
+              <input
+                {...register('unsubscribe_type')}
+                type="radio"
+                value={option.value}
+                className="h-4 w-4 text-blue-600 focus:ring-blue-500 border-gray-300"
+              />
+              <span className="ml-2 text-sm text-gray-700">{option.label}</span>
+            </label>
+          ))}
+        </div>
+        {errors.unsubscribe_type && (
+          <p className="mt-1 text-sm text-red-600">{errors.unsubscribe_type.message}</p>
+        )}
+      </div>
+
+      <div>
+        <label htmlFor="reason" className="block text-sm font-medium text-gray-700 mb-1">
+          Reason (optional)
+        </label>
+        <textarea
+          {...register('reason')}
+          id="reason"
+          rows={3}
+          className="w-full px-3 py-2 border border-gray-300 rounded-md shadow-sm focus:outline-none focus:ring-2 focus:ring-blue-500 focus:border-blue-500 text-gray-900 placeholder-gray-500"
+          placeholder="Let us know why you're unsubscribing..."
+        />
+        {errors.reason && (
+          <p className="mt-1 text-sm text-red-600">{errors.reason.message}</p>
+        )}
+      </div>
+
+      <button
+        type="submit"
+        disabled={isSubmitting}
+        className="w-full bg-gray-800 text-white py-3 px-4 rounded-md hover:bg-gray-900 focus:outline-none focus:ring-2 focus:ring-gray-500 focus:ring-offset-2 disabled:opacity-50 disabled:cursor-not-allowed transition-colors font-medium"
+      >
+        {isSubmitting ? 'Unsubscribing...' : token ? 'Unsubscribe' : 'Send Confirmation Link'}
+      </button>
+
+      {!token && (
+        <p className="text-xs text-gray-500 text-center">
+          We&apos;ll send a link to the email or phone number above to confirm it&apos;s yours.
+        </p>
+      )}
+    </form>
+  )
+}
@@ -0,0 +1,85 @@
+import { createServiceRoleClient } from '@/lib/supabase'
+import {
+  getUnsubscribeVisitor,
+  maskEmail,
+  maskPhone,
+  resolveUnsubscribeConfirmationToken,
+  resolveUnsubscribeToken,
+} from '@/lib/unsubscribe'
+import UnsubscribeForm, { type PendingConfirmation } from './UnsubscribeForm'
+
+interface UnsubscribePageProps {
+  searchParams: Promise<{
+    token?: string
+    confirm?: string
+  }>
+}
+
+export default async function UnsubscribePage({ searchParams }: UnsubscribePageProps) {
+  const { token, confirm } = await searchParams
+
+  // Resolve the signed link up front so the form can show whose
+  // subscription is being changed (masked) or report a bad link
+  let contact: { email: string; phone: string } | null = null
+  let invalidLink = false
+
+  if (token) {
+    try {
+      const visitorId = await resolveUnsubscribeToken(token)
+      const visitor = visitorId ? await getUnsubscribeVisitor(createServiceRoleClient(), visitorId) : null
+      if (visitor) {
+        contact = { email: maskEmail(visitor.email), phone: maskPhone(visitor.phone) }
+      } else {
+        invalidLink = true
+      }
+    } catch (error) {
+      console.error('Error resolving unsubscribe link:', error)
+      invalidLink = true
+    }
+  }
+
+  // A confirmation link sent to an address entered by hand
+  let confirmation: PendingConfirmation | null = null
+
+  if (confirm) {
+    try {
+      const resolved = await resolveUnsubscribeConfirmationToken(confirm)
+      if (resolved) {
+        confirmation = {
+          token: confirm,
+          channel: resolved.channel,
+          contact: resolved.channel === 'email' ? maskEmail(resolved.contact) : maskPhone(resolved.contact),
+        }
+      } else {
+        invalidLink = true
+      }
+    } catch (error) {
+      console.error('Error resolving unsubscribe confirmation:', error)
+      invalidLink = true
+    }
+  }
+
+  return (
+    <div className="min-h-screen bg-gradient-to-br from-gray-50 to-slate-100 py-12 px-4 sm:px-6 lg:px-8">
+      <div className="max-w-md mx-auto">
+        <div className="text-center mb-8">
+          <h1 className="text-3xl font-bold text-gray-900 mb-2">
+            Manage Follow-up Messages
+          </h1>
+          <p className="text-gray-600">
+            Choose which follow-up messages you no longer want to receive
+          </p>
+        </div>
+
+        <div className="bg-white rounded-lg shadow-md p-6">
+          <UnsubscribeForm
+            token={contact ? token : undefined}
+            contact={contact}
+            confirmation={confirmation}
+            invalidLink={invalidLink}
+          />
+        </div>
+      </div>
+    </div>
+  )
+}
@@ -0,0 +1,212 @@
+import { NextRequest, NextResponse } from 'next/server'
+import type { Session, SupabaseClient, User } from '@supabase/supabase-js'
+import { getMfaStatus, sessionIdFromAccessToken } from '@/lib/admin-mfa'
+import { FUNCTION_NOT_FOUND_CODE } from '@/lib/postgrest'
+
+export interface RequestAdmin {
+  id: string
+  user_id: string
+  email: string
+}
+
+interface AuthenticateOptions {
+  // Let through sessions that still owe their second sign-in step. Only for
+  // the two-factor route itself.
+  allowPendingMfa?: boolean
+}
+
+// Resolve the admin behind an API request's Bearer token. Returns either
+// the admin or the error response to send back. The service role skips the
+// sign-in session and two-factor checks RLS does, so they're repeated here.
+export async function authenticateAdminRequest(
+  supabase: SupabaseClient,
+  request: NextRequest,
+  { allowPendingMfa = false }: AuthenticateOptions = {}
+): Promise<
+  | { admin: RequestAdmin; sessionId: string | null; response?: undefined }
+  | { admin?: undefined; sessionId?: undefined; response: NextResponse }
+> {
+  const authHeader = request.headers.get('authorization')
+  if (!authHeader) {
+    return { response: NextResponse.json({ error: 'Unauthorized - No authorization header' }, { status: 401 }) }
+  }
+
+  const token = authHeader.replace('Bearer ', '')
+  const { data: { user }, error: authError } = await supabase.auth.getUser(token)
+  if (authError || !user) {
+    return { response: NextResponse.json({ error: 'Unauthorized - Invalid token' }, { status: 401 }) }
+  }
+
+  const { data: admin, error: adminError } = await supabase
+    .from('admins')
+    .select('id, user_id, email')
+    .eq('user_id', user.id)
+    .single()
+
+  if (adminError || !admin) {
+    return { response: NextResponse.json({ error: 'Unauthorized - Admin access required' }, { status: 403 }) }
+  }
+
+  const sessionId = sessionIdFromAccessToken(token)
+  if (!await isLoginSessionRegistered(supabase, user.id, sessionId)) {
+    return { response: NextResponse.json({ error: 'Sign in again to continue' }, { status: 401 }) }
+  }
+
+  if (!allowPendingMfa) {
+    const mfa = await getMfaStatus(supabase, admin.id, sessionId)
+    if (!mfa.verified) {
+      return { response: NextResponse.json({ error: 'Two-factor verification required' }, { status: 403 }) }
+    }
+  }
+
+  return { admin, sessionId }
+}
+
+// Whether the admin can see ('view') or change ('manage') rows owned by
+// ownerAdminId, per admin_can_view/admin_can_manage. The service role skips
+// RLS, so API routes check this themselves. Before database-teams.sql is
+// run, admins only have their own rows.
+export async function adminCanAccess(
+  supabase: SupabaseClient,
+  actorId: string,
+  ownerAdminId: string | null | undefined,
+  level: 'view' | 'manage'
+): Promise<boolean> {
+  if (!ownerAdminId) return false
+
+  const { data, error } = await supabase.rpc(level === 'view' ? 'admin_can_view' : 'admin_can_manage', {
+    actor_id: actorId,
+    owner_admin_id: ownerAdminId,
+  })
+
+  if (error) {
+    if (error.code !== FUNCTION_NOT_FOUND_CODE) throw error
+    return actorId === ownerAdminId
+  }
+
+  return data === true
+}
+
+// Every admin whose rows the admin can see, for filtering lists the way
+// admin_can_view would. Before database-teams.sql is run, just their own.
+export async function getViewableAdminIds(supabase: SupabaseClient, actorId: string): Promise<string[]> {
+  const { data, error } = await supabase.rpc('admin_viewable_admin_ids', { actor_id: actorId })
+
+  if (error) {
+    if (error.code !== FUNCTION_NOT_FOUND_CODE) throw error
+    return [actorId]
+  }
+
+  return (data || []) as string[]
+}
+
+const lockedOutResponse = (lockedUntil: string) =>
+  NextResponse.json({ error: 'Too many failed attempts. Try again later.', lockedUntil }, { status: 429 })
+
+// The address a request came from, for the sign-in lockout. Vercel and most
+// proxies put the client first in x-forwarded-for.
+export function clientIpAddress(request: NextRequest): string {
+  return request.headers.get('x-forwarded-for')?.split(',')[0].trim() || 'unknown'
+}
+
+// When sign-ins for the email from this address are locked out until, or
+// null if they aren't. Before database-admin-onboarding.sql is run, nobody is.
+export async function getLoginLockedUntil(supabase: SupabaseClient, email: string, ipAddress: string): Promise<string | null> {
+  const { data, error } = await supabase.rpc('admin_login_locked_until', { email_param: email, ip_param: ipAddress })
+
+  if (error) {
+    if (error.code !== FUNCTION_NOT_FOUND_CODE) throw error
+    return null
+  }
+
+  return data && new Date(data) > new Date() ? data : null
+}
+
+// Count a wrong password or code against the email and address. Returns
+// when they're now locked out until, if they are.
+export async function recordLoginFailure(supabase: SupabaseClient, email: string, ipAddress: string): Promise<string | null> {
+  const { data, error } = await supabase.rpc('record_admin_login_failure', { email_param: email, ip_param: ipAddress })
+
+  if (error) {
+    if (error.code !== FUNCTION_NOT_FOUND_CODE) throw error
+    return null
+  }
+
+  return data || null
+}
+
+export async function clearLoginFailures(supabase: SupabaseClient, email: string, ipAddress: string): Promise<void> {
+  await supabase
+    .from('admin_login_failures')
+    .delete()
+    .eq('email', email.trim().toLowerCase())
+    .eq('ip_address', ipAddress)
+}
+
+// Mark a session as started by the app (see admin_login_sessions). Only
+// registered sessions get admin access.
+export async function registerLoginSession(supabase: SupabaseClient, session: Session): Promise<void> {
+  const sessionId = sessionIdFromAccessToken(session.access_token)
+  if (!sessionId) throw new Error('Sign-in session has no id')
+
+  const { error } = await supabase.rpc('register_admin_login_session', {
+    session_id_param: sessionId,
+    user_id_param: session.user.id,
+  })
+
+  if (error && error.code !== FUNCTION_NOT_FOUND_CODE) throw error
+}
+
+async function isLoginSessionRegistered(supabase: SupabaseClient, userId: string, sessionId: string | null): Promise<boolean> {
+  const { data, error } = await supabase.rpc('admin_login_session_registered', {
+    user_id_param: userId,
+    session_id_param: sessionId,
+  })
+
+  if (error) {
+    if (error.code !== FUNCTION_NOT_FOUND_CODE) throw error
+    return true
+  }
+
+  return data === true
+}
+
+// Sign in with authClient, behind the lockout. supabase is the service role
+// client, the only one allowed to check and record failures. Returns either
+// the new session or the error response to send back.
+export async function signInWithLockout(
+  supabase: SupabaseClient,
+  authClient: SupabaseClient,
+  email: string,
+  password: string,
+  ipAddress: string
+): Promise<
+  | { user: User; session: Session; response?: undefined }
+  | { user?: undefined; session?: undefined; response: NextResponse }
+> {
+  const lockedUntil = await getLoginLockedUntil(supabase, email, ipAddress)
+  if (lockedUntil) return { response: lockedOutResponse(lockedUntil) }
+
+  const { data, error } = await authClient.auth.signInWithPassword({ email, password })
+
+  if (error?.code === 'invalid_credentials') {
+    const nowLockedUntil = await recordLoginFailure(supabase, email, ipAddress)
+    return {
+      response: nowLockedUntil
+        ? lockedOutResponse(nowLockedUntil)
+        : NextResponse.json({ error: error.message, code: error.code }, { status: 401 }),
+    }
+  }
+
+  if (error || !data.user || !data.session) {
+    return {
+      response: NextResponse.json(
+        { error: error?.message || 'Authentication failed', code: error?.code },
+        { status: error?.status || 400 }
+      ),
+    }
+  }
+
+  await clearLoginFailures(supabase, email, ipAddress)
+  return { user: data.user, session: data.session }
+}
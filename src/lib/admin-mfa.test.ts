@@ -0,0 +1,119 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest'
+import type { SupabaseClient } from '@supabase/supabase-js'
+import { redeemMfaCode } from '@/lib/admin-mfa'
+import { hashRecoveryCode, totpCode, totpStep } from '@/lib/totp'
+
+const SECRET = 'JBSWY3DPEHPK3PXP'
+const now = new Date('2025-03-02T10:00:00Z')
+const step = totpStep(now)
+
+interface FakeMfa {
+  secret: string
+  last_used_step: number | null
+  recoveryCodes: { code_hash: string; used_at: string | null }[]
+}
+
+// Just the queries redeemMfaCode makes, applying the conditional updates to
+// fake rows the way PostgREST would
+function fakeSupabase(mfa: FakeMfa | null) {
+  return {
+    from: (table: string) => ({
+      select: () => ({
+        eq: () => ({
+          maybeSingle: async () => ({ data: mfa && { secret: mfa.secret, last_used_step: mfa.last_used_step }, error: null }),
+        }),
+      }),
+      update: (values: Record<string, unknown>) => {
+        if (table === 'admin_mfa') {
+          return {
+            eq: () => ({
+              or: (filter: string) => ({
+                select: async () => {
+                  // last_used_step.is.null,last_used_step.lt.<step>
+                  const below = Number(filter.match(/last_used_step\.lt\.(\d+)/)![1])
+                  if (!mfa || (mfa.last_used_step !== null && mfa.last_used_step >= below)) {
+                    return { data: [], error: null }
+                  }
+                  mfa.last_used_step = values.last_used_step as number
+                  return { data: [{ admin_id: 'admin-1' }], error: null }
+                },
+              }),
+            }),
+          }
+        }
+
+        return {
+          eq: () => ({
+            eq: (_column: string, codeHash: string) => ({
+              is: () => ({
+                select: async () => {
+                  const unused = mfa?.recoveryCodes.filter(code => code.code_hash === codeHash && !code.used_at) || []
+                  unused.forEach(code => { code.used_at = values.used_at as string })
+                  return { data: unused.map((_, index) => ({ id: `code-${index}` })), error: null }
+                },
+              }),
+            }),
+          }),
+        }
+      },
+    }),
+  } as unknown as SupabaseClient
+}
+
+const enrolled = (overrides: Partial<FakeMfa> = {}): FakeMfa => ({
+  secret: SECRET,
+  last_used_step: null,
+  recoveryCodes: [{ code_hash: hashRecoveryCode('K7QD-M2XP'), used_at: null }],
+  ...overrides,
+})
+
+describe('redeemMfaCode', () => {
+  beforeEach(() => {
+    vi.useFakeTimers()
+    vi.setSystemTime(now)
+  })
+
+  afterEach(() => {
+    vi.useRealTimers()
+  })
+
+  it('accepts the current code once', async () => {
+    const mfa = enrolled()
+    const supabase = fakeSupabase(mfa)
+    const code = totpCode(SECRET, step)
+
+    expect(await redeemMfaCode(supabase, 'admin-1', code, { allowRecoveryCode: true })).toBe('totp')
+    expect(mfa.last_used_step).toBe(step)
+    expect(await redeemMfaCode(supabase, 'admin-1', code, { allowRecoveryCode: true })).toBeNull()
+  })
+
+  it('rejects an older code still inside the drift window once a newer one is used', async () => {
+    const supabase = fakeSupabase(enrolled({ last_used_step: step }))
+    expect(await redeemMfaCode(supabase, 'admin-1', totpCode(SECRET, step - 1), { allowRecoveryCode: true })).toBeNull()
+  })
+
+  it('accepts the next code after one is used', async () => {
+    const mfa = enrolled({ last_used_step: step })
+    expect(await redeemMfaCode(fakeSupabase(mfa), 'admin-1', totpCode(SECRET, step + 1), { allowRecoveryCode: true })).toBe('totp')
+    expect(mfa.last_used_step).toBe(step + 1)
+  })
+
+  it('uses a recovery code up', async () => {
+    const mfa = enrolled()
+    const supabase = fakeSupabase(mfa)
+
+    expect(await redeemMfaCode(supabase, 'admin-1', 'k7qd m2xp', { allowRecoveryCode: true })).toBe('recovery')
+    expect(mfa.recoveryCodes[0].used_at).toBe(now.toISOString())
+    expect(await redeemMfaCode(supabase, 'admin-1', 'K7QD-M2XP', { allowRecoveryCode: true })).toBeNull()
+  })
+
+  it('only takes recovery codes where they are allowed', async () => {
+    const mfa = enrolled()
+    expect(await redeemMfaCode(fakeSupabase(mfa), 'admin-1', 'K7QD-M2XP', { allowRecoveryCode: false })).toBeNull()
+    expect(mfa.recoveryCodes[0].used_at).toBeNull()
+  })
+
+  it('rejects any code for an admin without an authenticator app', async () => {
+    expect(await redeemMfaCode(fakeSupabase(null), 'admin-1', totpCode(SECRET, step), { allowRecoveryCode: true })).toBeNull()
+  })
+})
@@ -0,0 +1,115 @@
+import type { SupabaseClient } from '@supabase/supabase-js'
+import { generateRecoveryCodes, hashRecoveryCode, verifyTotp } from '@/lib/totp'
+import { FUNCTION_NOT_FOUND_CODE } from '@/lib/postgrest'
+
+// Two-factor authentication for admins (see database-admin-mfa.sql). These
+// take the service role client: secrets and recovery codes aren't readable
+// by admins themselves.
+
+// Shown in authenticator apps next to the account
+export const MFA_ISSUER = 'OpenHouseDesk'
+
+// From admin_mfa_status_for
+export interface MfaStatus {
+  enabled: boolean
+  team_required: boolean
+  verified: boolean
+  recovery_codes_left: number
+}
+
+// Supabase access tokens carry the id of the sign-in session they belong
+// to. Only call this with a token Supabase Auth has already accepted.
+export function sessionIdFromAccessToken(token: string): string | null {
+  try {
+    const payload = JSON.parse(Buffer.from(token.split('.')[1], 'base64url').toString('utf8'))
+    return typeof payload.session_id === 'string' ? payload.session_id : null
+  } catch {
+    return null
+  }
+}
+
+export async function getMfaStatus(
+  supabase: SupabaseClient,
+  adminId: string,
+  sessionId: string | null
+): Promise<MfaStatus> {
+  const { data, error } = await supabase
+    .rpc('admin_mfa_status_for', { admin_id_param: adminId, session_id_param: sessionId })
+    .single()
+
+  if (error?.code === FUNCTION_NOT_FOUND_CODE) {
+    return { enabled: false, team_required: false, verified: true, recovery_codes_left: 0 }
+  }
+  if (error) throw error
+  return data as MfaStatus
+}
+
+// Checks an authenticator code (or, if allowed, an unused recovery code)
+// and uses it up. Works for an app that is still being set up, too.
+export async function redeemMfaCode(
+  supabase: SupabaseClient,
+  adminId: string,
+  code: string,
+  { allowRecoveryCode }: { allowRecoveryCode: boolean }
+): Promise<'totp' | 'recovery' | null> {
+  const { data: mfa, error } = await supabase
+    .from('admin_mfa')
+    .select('secret, last_used_step')
+    .eq('admin_id', adminId)
+    .maybeSingle()
+
+  if (error) throw error
+  if (!mfa) return null
+
+  const step = verifyTotp(mfa.secret, code)
+  if (step !== null) {
+    // Only move forwards, so a code (or an older one) can't be replayed
+    const { data: updated, error: updateError } = await supabase
+      .from('admin_mfa')
+      .update({ last_used_step: step })
+      .eq('admin_id', adminId)
+      .or(`last_used_step.is.null,last_used_step.lt.${step}`)
+      .select('admin_id')
+
+    if (updateError) throw updateError
+    return updated && updated.length > 0 ? 'totp' : null
+  }
+
+  if (!allowRecoveryCode) return null
+
+  const { data: used, error: recoveryError } = await supabase
+    .from('admin_mfa_recovery_codes')
+    .update({ used_at: new Date().toISOString() })
+    .eq('admin_id', adminId)
+    .eq('code_hash', hashRecoveryCode(code))
+    .is('used_at', null)
+    .select('id')
+
+  if (recoveryError) throw recoveryError
+  return used && used.length > 0 ? 'recovery' : null
+}
+
+// Throws away any old codes. Returns the new ones to show the admin once.
+export async function replaceRecoveryCodes(supabase: SupabaseClient, adminId: string): Promise<string[]> {
+  const codes = generateRecoveryCodes()
+
+  const { error: deleteError } = await supabase
+    .from('admin_mfa_recovery_codes')
+    .delete()
+    .eq('admin_id', adminId)
+  if (deleteError) throw deleteError
+
+  const { error } = await supabase
+    .from('admin_mfa_recovery_codes')
+    .insert(codes.map(code => ({ admin_id: adminId, code_hash: hashRecoveryCode(code) })))
+  if (error) throw error
+
+  return codes
+}
+
+export async function markSessionVerified(supabase: SupabaseClient, adminId: string, sessionId: string) {
+  const { error } = await supabase
+    .from('admin_mfa_sessions')
+    .upsert({ session_id: sessionId, admin_id: adminId, verified_at: new Date().toISOString() })
+  if (error) throw error
+}
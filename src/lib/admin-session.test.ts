@@ -0,0 +1,188 @@
+import { describe, expect, it, vi } from 'vitest'
+import type { SupabaseClient } from '@supabase/supabase-js'
+import {
+  ADMIN_HOME_PATH,
+  ADMIN_LOGIN_PATH,
+  ADMIN_MFA_PATH,
+  adminRedirectPath,
+  getAdminAccess,
+  hasSessionCookie,
+  safeAdminNextPath,
+  type AdminAccess,
+} from '@/lib/admin-session'
+
+// The real module builds a client from env vars on import
+vi.mock('@/lib/supabase', () => ({ createServerComponentClient: vi.fn() }))
+
+interface FakeAuth {
+  user?: { id: string; email?: string; email_confirmed_at?: string | null } | null
+  authError?: Error
+  admin?: Record<string, unknown> | null
+  mfa?: { verified: boolean } | null
+  mfaError?: { code: string; message: string }
+  registered?: boolean
+  registeredError?: { code: string; message: string }
+}
+
+const sessionAdmin = {
+  id: 'admin-1',
+  user_id: 'user-1',
+  first_name: 'Pat',
+  last_name: 'Lee',
+  email: 'pat@example.com',
+}
+
+const verifiedUser = { id: 'user-1', email: 'pat@example.com', email_confirmed_at: '2025-01-01T00:00:00Z' }
+
+// Just the calls getAdminAccess makes: auth.getUser, the admins lookup and
+// the admin_session_registered and admin_mfa_status RPCs
+function fakeSupabase({
+  user = null,
+  authError,
+  admin = null,
+  mfa = null,
+  mfaError,
+  registered = true,
+  registeredError,
+}: FakeAuth) {
+  return {
+    auth: {
+      getUser: async () => ({ data: { user }, error: authError ?? null }),
+    },
+    from: () => ({
+      select: () => ({
+        eq: () => ({
+          maybeSingle: async () => ({ data: admin, error: null }),
+        }),
+      }),
+    }),
+    rpc: (name: string) => name === 'admin_session_registered'
+      ? Promise.resolve({ data: registeredError ? null : registered, error: registeredError ?? null })
+      : { maybeSingle: async () => ({ data: mfa, error: mfaError ?? null }) },
+  } as unknown as SupabaseClient
+}
+
+describe('getAdminAccess', () => {
+  it('is signed out without a user', async () => {
+    expect(await getAdminAccess(fakeSupabase({}), false)).toEqual({ status: 'signed_out', expired: false })
+  })
+
+  it('is expired when the request carried a session Supabase rejected', async () => {
+    const supabase = fakeSupabase({ authError: new Error('JWT expired') })
+    expect(await getAdminAccess(supabase, true)).toEqual({ status: 'signed_out', expired: true })
+  })
+
+  it('is unverified until the email address is confirmed', async () => {
+    const supabase = fakeSupabase({ user: { ...verifiedUser, email_confirmed_at: null }, admin: sessionAdmin })
+    expect(await getAdminAccess(supabase, true)).toEqual({ status: 'unverified', email: 'pat@example.com' })
+  })
+
+  it('is not_admin for a user missing from admins', async () => {
+    expect(await getAdminAccess(fakeSupabase({ user: verifiedUser }), true)).toEqual({ status: 'not_admin' })
+  })
+
+  it('treats sessions the app did not start as signed out', async () => {
+    const supabase = fakeSupabase({ user: verifiedUser, admin: sessionAdmin, mfa: { verified: true }, registered: false })
+    expect(await getAdminAccess(supabase, true)).toEqual({ status: 'signed_out', expired: true })
+  })
+
+  it('lets any session through before sign-in sessions are tracked in the database', async () => {
+    const supabase = fakeSupabase({
+      user: verifiedUser,
+      admin: sessionAdmin,
+      mfa: { verified: true },
+      registeredError: { code: 'PGRST202', message: 'Could not find the function admin_session_registered' },
+    })
+    expect(await getAdminAccess(supabase, true)).toEqual({ status: 'admin', admin: sessionAdmin })
+  })
+
+  it('requires the second step when the session has not passed it', async () => {
+    const supabase = fakeSupabase({ user: verifiedUser, admin: sessionAdmin, mfa: { verified: false } })
+    expect(await getAdminAccess(supabase, true)).toEqual({ status: 'mfa_required', admin: sessionAdmin })
+  })
+
+  it('lets a verified admin through', async () => {
+    const supabase = fakeSupabase({ user: verifiedUser, admin: sessionAdmin, mfa: { verified: true } })
+    expect(await getAdminAccess(supabase, true)).toEqual({ status: 'admin', admin: sessionAdmin })
+  })
+
+  it('lets admins through before two-factor is set up in the database', async () => {
+    const supabase = fakeSupabase({
+      user: verifiedUser,
+      admin: sessionAdmin,
+      mfaError: { code: 'PGRST202', message: 'Could not find the function admin_mfa_status' },
+    })
+    expect(await getAdminAccess(supabase, true)).toEqual({ status: 'admin', admin: sessionAdmin })
+  })
+})
+
+describe('adminRedirectPath', () => {
+  const admin: AdminAccess = { status: 'admin', admin: sessionAdmin }
+  const mfaRequired: AdminAccess = { status: 'mfa_required', admin: sessionAdmin }
+  const signedOut: AdminAccess = { status: 'signed_out', expired: false }
+  const expired: AdminAccess = { status: 'signed_out', expired: true }
+  const notAdmin: AdminAccess = { status: 'not_admin' }
+  const unverified: AdminAccess = { status: 'unverified', email: 'pat@example.com' }
+
+  it('sends signed-out visitors to log in and back to the page afterwards', () => {
+    expect(adminRedirectPath('/admin/dashboard', '?tab=visitors', signedOut))
+      .toBe(`${ADMIN_LOGIN_PATH}?next=%2Fadmin%2Fdashboard%3Ftab%3Dvisitors`)
+  })
+
+  it('says why when the session expired', () => {
+    expect(adminRedirectPath('/admin/dashboard', '', expired))
+      .toBe(`${ADMIN_LOGIN_PATH}?next=%2Fadmin%2Fdashboard&reason=session_expired`)
+  })
+
+  it('turns away signed-in users who are not admins or not verified', () => {
+    expect(adminRedirectPath('/admin/dashboard', '', notAdmin)).toBe(`${ADMIN_LOGIN_PATH}?reason=not_admin`)
+    expect(adminRedirectPath('/admin/dashboard', '', unverified)).toBe(`${ADMIN_LOGIN_PATH}?reason=unverified`)
+  })
+
+  it('lets admins through', () => {
+    expect(adminRedirectPath('/admin/dashboard', '', admin)).toBeNull()
+  })
+
+  it('keeps sessions owing the second step on the two-factor page', () => {
+    expect(adminRedirectPath('/admin/dashboard', '?tab=logs', mfaRequired))
+      .toBe(`${ADMIN_MFA_PATH}?next=%2Fadmin%2Fdashboard%3Ftab%3Dlogs`)
+    expect(adminRedirectPath('/admin/join', '', mfaRequired)).toBe(`${ADMIN_MFA_PATH}?next=%2Fadmin%2Fjoin`)
+    expect(adminRedirectPath(ADMIN_MFA_PATH, '', mfaRequired)).toBeNull()
+    expect(adminRedirectPath('/admin/auth/confirm', '?code=abc', mfaRequired)).toBeNull()
+  })
+
+  it('leaves public pages open to everyone else', () => {
+    for (const pathname of ['/admin/join', '/admin/forgot-password', '/admin/auth/confirm']) {
+      for (const access of [signedOut, expired, notAdmin, unverified, admin]) {
+        expect(adminRedirectPath(pathname, '', access)).toBeNull()
+      }
+    }
+  })
+
+  it('only shows the login page to people who need it', () => {
+    expect(adminRedirectPath(ADMIN_LOGIN_PATH, '', signedOut)).toBeNull()
+    expect(adminRedirectPath(ADMIN_LOGIN_PATH, '', notAdmin)).toBeNull()
+    expect(adminRedirectPath(ADMIN_LOGIN_PATH, '', admin)).toBe(ADMIN_HOME_PATH)
+    expect(adminRedirectPath(ADMIN_LOGIN_PATH, '', mfaRequired)).toBe(ADMIN_MFA_PATH)
+  })
+})
+
+describe('safeAdminNextPath', () => {
+  it('keeps admin pages', () => {
+    expect(safeAdminNextPath('/admin/dashboard?tab=visitors')).toBe('/admin/dashboard?tab=visitors')
+  })
+
+  it('falls back to the dashboard for anything off-site or outside the admin', () => {
+    for (const next of [null, undefined, '', '//evil.example.com', '//evil.example.com/admin/', 'https://evil.example.com/admin/dashboard', '/admin', '/check-in/abc', 'javascript:alert(1)']) {
+      expect(safeAdminNextPath(next)).toBe(ADMIN_HOME_PATH)
+    }
+  })
+})
+
+describe('hasSessionCookie', () => {
+  it('spots Supabase session cookies, including split ones', () => {
+    expect(hasSessionCookie(['sb-abcd-auth-token'])).toBe(true)
+    expect(hasSessionCookie(['theme', 'sb-abcd-auth-token.0'])).toBe(true)
+    expect(hasSessionCookie(['theme', 'admin_password_reset'])).toBe(false)
+  })
+})
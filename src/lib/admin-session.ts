@@ -0,0 +1,159 @@
+import type { SupabaseClient } from '@supabase/supabase-js'
+import { redirect } from 'next/navigation'
+import { createServerComponentClient } from '@/lib/supabase'
+import { FUNCTION_NOT_FOUND_CODE } from '@/lib/postgrest'
+import type { TeamRole } from '@/lib/validations'
+
+// Who is behind an admin page request. Used by middleware.ts to guard every
+// /admin route and by admin pages to load the signed-in admin on the server.
+
+export interface SessionAdmin {
+  id: string
+  user_id: string
+  first_name: string | null
+  last_name: string | null
+  email: string
+}
+
+export type AdminAccess =
+  | { status: 'admin'; admin: SessionAdmin }
+  // Signed in with a password, but this session still owes its second step
+  | { status: 'mfa_required'; admin: SessionAdmin }
+  // Signed in, but the email address hasn't been verified yet
+  | { status: 'unverified'; email: string }
+  // Signed in, but not in the admins table
+  | { status: 'not_admin' }
+  // expired: the request carried a session that is no longer valid
+  | { status: 'signed_out'; expired: boolean }
+
+export const ADMIN_LOGIN_PATH = '/admin/login'
+export const ADMIN_HOME_PATH = '/admin/dashboard'
+export const ADMIN_MFA_PATH = '/admin/mfa'
+
+// Admin pages anyone can open: invite links (which double as sign-up),
+// password reset requests and the links in Supabase Auth emails
+export const ADMIN_PUBLIC_PATHS = ['/admin/join', '/admin/forgot-password', '/admin/auth/confirm']
+
+// Set by /admin/auth/confirm after a password reset link is used, so the
+// password page can skip asking for the current password
+export const PASSWORD_RESET_COOKIE = 'admin_password_reset'
+
+// Why the login page was shown, from its ?reason= parameter
+export type AdminLoginReason = 'session_expired' | 'not_admin' | 'unverified' | 'link_expired'
+
+// @supabase/ssr keeps the session in sb-<project>-auth-token cookies,
+// split into .0, .1, ... when large
+export function hasSessionCookie(cookieNames: string[]): boolean {
+  return cookieNames.some(name => name.startsWith('sb-') && name.includes('-auth-token'))
+}
+
+// getUser asks Supabase Auth to validate the token; getSession would trust
+// whatever is in the cookie
+export async function getAdminAccess(supabase: SupabaseClient, hadSession: boolean): Promise<AdminAccess> {
+  const { data: { user }, error: authError } = await supabase.auth.getUser()
+  if (authError || !user) {
+    return { status: 'signed_out', expired: hadSession }
+  }
+
+  if (!user.email_confirmed_at) {
+    return { status: 'unverified', email: user.email ?? '' }
+  }
+
+  const { data: admin, error: adminError } = await supabase
+    .from('admins')
+    .select('id, user_id, first_name, last_name, email')
+    .eq('user_id', user.id)
+    .maybeSingle()
+
+  if (adminError || !admin) {
+    return { status: 'not_admin' }
+  }
+
+  // Sessions that didn't come from the app's own sign-in skipped the lockout,
+  // so they count as signed out. Before database-admin-onboarding.sql every
+  // session counts. Other errors are logged, as below.
+  const { data: registered, error: registeredError } = await supabase.rpc('admin_session_registered')
+
+  if (registeredError && registeredError.code !== FUNCTION_NOT_FOUND_CODE) {
+    console.error('Error checking sign-in session:', registeredError)
+  }
+  if (!registeredError && !registered) {
+    return { status: 'signed_out', expired: true }
+  }
+
+  // Before database-admin-mfa.sql the function doesn't exist.
+  // Other errors are logged and let the admin through: current_admin_id()
+  // keeps their data shut in the database either way.
+  const { data: mfa, error: mfaError } = await supabase
+    .rpc('admin_mfa_status')
+    .maybeSingle<{ verified: boolean }>()
+
+  if (mfaError && mfaError.code !== FUNCTION_NOT_FOUND_CODE) {
+    console.error('Error checking two-factor status:', mfaError)
+  }
+  if (mfa && !mfa.verified) {
+    return { status: 'mfa_required', admin }
+  }
+
+  return { status: 'admin', admin }
+}
+
+// Where to send a request for an admin page, or null to let it through.
+// Signed-out visitors come back to the page they asked for after logging in.
+export function adminRedirectPath(pathname: string, search: string, access: AdminAccess): string | null {
+  if (pathname === ADMIN_LOGIN_PATH) {
+    if (access.status === 'mfa_required') return ADMIN_MFA_PATH
+    return access.status === 'admin' ? ADMIN_HOME_PATH : null
+  }
+
+  // Everything but the second step itself waits until it's done. Reset links
+  // still sign in first, so resetting a password needs the second step too.
+  if (access.status === 'mfa_required') {
+    if (pathname === ADMIN_MFA_PATH || pathname === '/admin/auth/confirm') return null
+    return `${ADMIN_MFA_PATH}?${new URLSearchParams({ next: `${pathname}${search}` }).toString()}`
+  }
+
+  if (ADMIN_PUBLIC_PATHS.includes(pathname) || access.status === 'admin') return null
+
+  if (access.status === 'not_admin' || access.status === 'unverified') {
+    return `${ADMIN_LOGIN_PATH}?reason=${access.status}`
+  }
+
+  const params = new URLSearchParams({ next: `${pathname}${search}` })
+  if (access.expired) params.set('reason', 'session_expired')
+  return `${ADMIN_LOGIN_PATH}?${params.toString()}`
+}
+
+// Only send people back to admin pages after login, never off-site
+export function safeAdminNextPath(next: string | null | undefined): string {
+  return next && next.startsWith('/admin/') && !next.startsWith('//') ? next : ADMIN_HOME_PATH
+}
+
+// For admin server components. middleware.ts has already redirected anyone
+// who isn't an admin; this checks again rather than trust that the page is
+// covered by its matcher.
+export async function requireAdmin(): Promise<{ supabase: SupabaseClient; admin: SessionAdmin }> {
+  const supabase = await createServerComponentClient()
+  const access = await getAdminAccess(supabase, false)
+
+  if (access.status === 'not_admin' || access.status === 'unverified') {
+    redirect(`${ADMIN_LOGIN_PATH}?reason=${access.status}`)
+  }
+  if (access.status === 'mfa_required') redirect(ADMIN_MFA_PATH)
+  if (access.status !== 'admin') redirect(ADMIN_LOGIN_PATH)
+
+  return { supabase, admin: access.admin }
+}
+
+// The admin's role on their team. Before database-teams.sql is run every
+// admin works alone, with an owner's access to their own data.
+export async function getTeamRole(supabase: SupabaseClient, adminId: string): Promise<TeamRole> {
+  const { data, error } = await supabase
+    .from('team_members')
+    .select('role')
+    .eq('admin_id', adminId)
+    .maybeSingle()
+
+  if (error || !data) return 'owner'
+  return data.role as TeamRole
+}
@@ -0,0 +1,122 @@
+import type { SupabaseClient } from '@supabase/supabase-js'
+import { FUNCTION_NOT_FOUND_CODE } from '@/lib/postgrest'
+
+// The admin audit log (see database-audit-log.sql). Changes a signed-in
+// admin makes to properties and campaigns are recorded by triggers; the
+// functions here cover what happens elsewhere: sends through the service
+// role, and CSV exports built in the browser.
+
+export const AUDIT_ACTION_LABELS = {
+  'property.created': 'Property created',
+  'property.updated': 'Property edited',
+  'property.status_changed': 'Property status changed',
+  'property.deleted': 'Property deleted',
+  'campaign.created': 'Campaign created',
+  'campaign.updated': 'Campaign edited',
+  'campaign.status_changed': 'Campaign status changed',
+  'campaign.approved': 'Campaign approved',
+  'campaign.approval_withdrawn': 'Campaign approval withdrawn',
+  'campaign.deleted': 'Campaign deleted',
+  'campaign.sent': 'Campaign sent',
+  'campaign.enrolled': 'Visitors enrolled in sequence',
+  'visitors.exported': 'Visitors exported',
+  'audit_log.exported': 'Audit log exported',
+} as const
+
+export type AuditAction = keyof typeof AUDIT_ACTION_LABELS
+
+export type AuditEntityType = 'property' | 'campaign' | 'visitors' | 'audit_log'
+
+export type AuditExportType = 'visitors' | 'audit_log'
+
+export interface AuditLogEntry {
+  id: string
+  admin_id: string | null
+  admin_name: string | null
+  action: string
+  entity_type: AuditEntityType
+  entity_id: string | null
+  entity_name: string | null
+  details: Record<string, unknown>
+  created_at: string
+}
+
+export interface AuditEvent {
+  action: AuditAction
+  entityType: AuditEntityType
+  entityId?: string | null
+  // Filled in from the record when left out; pass it for deleted records
+  entityName?: string | null
+  details?: Record<string, unknown>
+}
+
+export function auditActionLabel(action: string): string {
+  return AUDIT_ACTION_LABELS[action as AuditAction] ?? action
+}
+
+const formatValue = (value: unknown) =>
+  value === null || value === undefined || value === '' ? '—' : String(value)
+
+// One line for the viewer and the CSV export
+export function describeAuditDetails(entry: Pick<AuditLogEntry, 'details'>): string {
+  const { details } = entry
+  const parts: string[] = []
+
+  if (details.changes && typeof details.changes === 'object') {
+    for (const [field, change] of Object.entries(details.changes as Record<string, { from: unknown; to: unknown }>)) {
+      parts.push(change.from === null && change.to === null
+        ? `${field} changed`
+        : `${field}: ${formatValue(change.from)} → ${formatValue(change.to)}`)
+    }
+  }
+
+  if (typeof details.rows === 'number') parts.push(`${details.rows} rows`)
+  if (typeof details.visitors === 'number') parts.push(`${details.visitors} visitors`)
+  if (typeof details.queued === 'number') parts.push(`${details.queued} messages queued`)
+  if (typeof details.failed === 'number' && details.failed > 0) parts.push(`${details.failed} failed`)
+  if (typeof details.detail === 'string') parts.push(details.detail)
+  if (details.bulk) parts.push('bulk action')
+
+  return parts.join(', ')
+}
+
+// For API routes using the service role. The action has already happened by
+// the time this runs, so a failure is logged rather than thrown.
+export async function recordAuditEvents(
+  supabase: SupabaseClient,
+  adminId: string,
+  events: AuditEvent[]
+) {
+  if (events.length === 0) return
+
+  const { error } = await supabase
+    .from('admin_audit_log')
+    .insert(events.map(event => ({
+      admin_id: adminId,
+      action: event.action,
+      entity_type: event.entityType,
+      entity_id: event.entityId ?? null,
+      entity_name: event.entityName ?? null,
+      details: event.details ?? {},
+    })))
+
+  if (error) console.error('Error recording audit events:', error)
+}
+
+// Call before handing the file over: an export that can't be recorded
+// doesn't happen. Before database-audit-log.sql is run, exports aren't
+// recorded.
+export async function recordExport(
+  supabase: SupabaseClient,
+  exportType: AuditExportType,
+  rowCount: number,
+  filters: Record<string, unknown> = {}
+) {
+  const { error } = await supabase.rpc('record_export', {
+    export_type: exportType,
+    row_count: rowCount,
+    filters,
+  })
+
+  if (error && error.code !== FUNCTION_NOT_FOUND_CODE) throw error
+}
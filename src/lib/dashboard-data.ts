@@ -0,0 +1,106 @@
+import type { SupabaseClient } from '@supabase/supabase-js'
+import type { LeadTemperature } from '@/lib/lead-scoring'
+
+// Loaded on the server for the dashboard's first render, and again in the
+// browser whenever the dashboard refreshes after a change
+
+export interface DashboardProperty {
+  id: string
+  name: string
+  address: string
+  description?: string
+  property_type: string
+  bedrooms?: number
+  bathrooms?: number
+  square_feet?: number
+  price?: number
+  status: string
+  created_at: string
+}
+
+export interface DashboardVisitor {
+  id: string
+  name: string
+  email: string
+  phone: string
+  visit_date: string
+  created_at: string
+  property_id?: string
+  property_name?: string
+  property_address?: string
+  rating?: number
+  comments?: string
+  interested?: boolean
+  feedback_date?: string
+  lead_score?: number | null
+  lead_temperature?: LeadTemperature | null
+  contact_id?: string | null
+  contact_visit_count?: number | null
+}
+
+export interface DashboardData {
+  visitors: DashboardVisitor[]
+  properties: DashboardProperty[]
+}
+
+export interface DashboardStats {
+  totalVisitors: number
+  withFeedback: number
+  averageRating: number
+  interestedCount: number
+  totalProperties: number
+}
+
+export async function loadDashboardData(supabase: SupabaseClient): Promise<DashboardData> {
+  // Fetch visitors - try the view first, fallback to direct table
+  let visitors: DashboardVisitor[] = []
+  try {
+    const { data, error } = await supabase
+      .from('visitor_feedback_summary')
+      .select('*')
+      .order('created_at', { ascending: false })
+
+    if (error) throw error
+    visitors = data || []
+  } catch {
+    console.log('View not available, fetching from visitors table directly')
+    const { data, error } = await supabase
+      .from('visitors')
+      .select('*')
+      .order('created_at', { ascending: false })
+
+    if (error) throw error
+    visitors = data || []
+  }
+
+  // Fetch properties - handle if table doesn't exist
+  let properties: DashboardProperty[] = []
+  try {
+    const { data, error } = await supabase
+      .from('properties')
+      .select('*')
+      .order('created_at', { ascending: false })
+
+    if (error && !error.message.includes('relation "properties" does not exist')) {
+      throw error
+    }
+    properties = data || []
+  } catch {
+    console.log('Properties table not available yet')
+  }
+
+  return { visitors, properties }
+}
+
+export function calculateDashboardStats({ visitors, properties }: DashboardData): DashboardStats {
+  const ratings = visitors.filter(v => v.rating).map(v => v.rating!)
+  const averageRating = ratings.length > 0 ? ratings.reduce((a, b) => a + b, 0) / ratings.length : 0
+
+  return {
+    totalVisitors: visitors.length,
+    withFeedback: ratings.length,
+    averageRating: Math.round(averageRating * 10) / 10,
+    interestedCount: visitors.filter(v => v.interested).length,
+    totalProperties: properties.length,
+  }
+}
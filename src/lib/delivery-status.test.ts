@@ -0,0 +1,106 @@
+import { describe, expect, it } from 'vitest'
+import {
+  mapResendEventType,
+  mapTwilioMessageStatus,
+  planDeliveryUpdate,
+  type DeliveryLogState,
+} from '@/lib/delivery-status'
+import resendDelivered from '@/lib/__fixtures__/resend-email-delivered.json'
+import twilioUndelivered from '@/lib/__fixtures__/twilio-status-undelivered.json'
+
+const sentLog: DeliveryLogState = {
+  status: 'sent',
+  delivered_at: null,
+  opened_at: null,
+  clicked_at: null,
+}
+
+describe('planDeliveryUpdate', () => {
+  it('moves a log forward', () => {
+    expect(planDeliveryUpdate(sentLog, { status: 'delivered', occurredAt: '2025-03-02T10:00:05Z' })).toEqual({
+      status: 'delivered',
+      delivered_at: '2025-03-02T10:00:05Z',
+    })
+  })
+
+  it('ignores a duplicate event', () => {
+    const delivered = { ...sentLog, status: 'delivered' as const, delivered_at: '2025-03-02T10:00:05Z' }
+    expect(planDeliveryUpdate(delivered, { status: 'delivered', occurredAt: '2025-03-02T10:00:09Z' })).toBeNull()
+  })
+
+  it('fills in the steps a click skipped', () => {
+    expect(planDeliveryUpdate(sentLog, { status: 'clicked', occurredAt: '2025-03-02T11:00:00Z' })).toEqual({
+      status: 'clicked',
+      delivered_at: '2025-03-02T11:00:00Z',
+      opened_at: '2025-03-02T11:00:00Z',
+      clicked_at: '2025-03-02T11:00:00Z',
+    })
+  })
+
+  it('records a late delivery without moving the status back', () => {
+    const opened = {
+      ...sentLog,
+      status: 'opened' as const,
+      delivered_at: null,
+      opened_at: '2025-03-02T10:30:00Z',
+    }
+    expect(planDeliveryUpdate(opened, { status: 'delivered', occurredAt: '2025-03-02T10:00:05Z' })).toEqual({
+      delivered_at: '2025-03-02T10:00:05Z',
+    })
+  })
+
+  it('ignores an event behind the current status', () => {
+    const clicked = {
+      status: 'clicked' as const,
+      delivered_at: '2025-03-02T10:00:05Z',
+      opened_at: '2025-03-02T10:30:00Z',
+      clicked_at: '2025-03-02T10:31:00Z',
+    }
+    expect(planDeliveryUpdate(clicked, { status: 'sent', occurredAt: '2025-03-02T10:00:00Z' })).toBeNull()
+    expect(planDeliveryUpdate(clicked, { status: 'opened', occurredAt: '2025-03-02T10:40:00Z' })).toBeNull()
+  })
+
+  it('keeps the error message of a bounce', () => {
+    expect(planDeliveryUpdate(sentLog, {
+      status: 'bounced',
+      occurredAt: '2025-03-02T10:00:05Z',
+      errorMessage: 'Twilio error 30003',
+    })).toEqual({ status: 'bounced', error_message: 'Twilio error 30003' })
+  })
+
+  it('leaves bounced and failed logs alone', () => {
+    for (const status of ['bounced', 'failed'] as const) {
+      expect(planDeliveryUpdate({ ...sentLog, status }, { status: 'opened', occurredAt: '2025-03-02T10:00:05Z' })).toBeNull()
+    }
+  })
+})
+
+describe('mapResendEventType', () => {
+  it('maps the saved delivery and every tracked event', () => {
+    expect(mapResendEventType(JSON.parse(resendDelivered.payload).type)).toBe('delivered')
+    expect(mapResendEventType('email.sent')).toBe('sent')
+    expect(mapResendEventType('email.bounced')).toBe('bounced')
+    expect(mapResendEventType('email.opened')).toBe('opened')
+    expect(mapResendEventType('email.clicked')).toBe('clicked')
+  })
+
+  it('ignores events that say nothing about delivery', () => {
+    expect(mapResendEventType('email.delivery_delayed')).toBeNull()
+    expect(mapResendEventType('contact.created')).toBeNull()
+  })
+})
+
+describe('mapTwilioMessageStatus', () => {
+  it('treats texts the carrier could not deliver as bounced', () => {
+    expect(mapTwilioMessageStatus(twilioUndelivered.params.MessageStatus)).toBe('bounced')
+    expect(mapTwilioMessageStatus('failed')).toBe('bounced')
+  })
+
+  it('maps progress and ignores in-flight statuses', () => {
+    expect(mapTwilioMessageStatus('sent')).toBe('sent')
+    expect(mapTwilioMessageStatus('delivered')).toBe('delivered')
+    expect(mapTwilioMessageStatus('read')).toBe('opened')
+    expect(mapTwilioMessageStatus('queued')).toBeNull()
+    expect(mapTwilioMessageStatus('sending')).toBeNull()
+  })
+})
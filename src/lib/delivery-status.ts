@@ -0,0 +1,162 @@
+import type { SupabaseClient } from '@supabase/supabase-js'
+
+export type DeliveryStatus = 'pending' | 'sent' | 'delivered' | 'failed' | 'bounced' | 'opened' | 'clicked'
+
+// Position of each status in the delivery lifecycle. A log only ever moves to
+// a higher rank; failed and bounced are terminal.
+const STATUS_RANK: Record<DeliveryStatus, number> = {
+  pending: 0,
+  sent: 1,
+  delivered: 2,
+  failed: 2,
+  bounced: 2,
+  opened: 3,
+  clicked: 4,
+}
+
+const TERMINAL_STATUSES: DeliveryStatus[] = ['failed', 'bounced']
+
+// Timestamp columns implied by reaching a status. Reaching "clicked" also
+// means the message was delivered and opened, so missing earlier timestamps
+// are filled in when events arrive out of order or are skipped.
+const IMPLIED_TIMESTAMPS: Partial<Record<DeliveryStatus, ('delivered_at' | 'opened_at' | 'clicked_at')[]>> = {
+  delivered: ['delivered_at'],
+  opened: ['delivered_at', 'opened_at'],
+  clicked: ['delivered_at', 'opened_at', 'clicked_at'],
+}
+
+export interface DeliveryStatusChange {
+  status: DeliveryStatus
+  occurredAt: string
+  errorMessage?: string | null
+}
+
+// A status change reported by a provider webhook
+export interface DeliveryEvent extends DeliveryStatusChange {
+  externalId: string
+}
+
+export interface DeliveryLogState {
+  status: DeliveryStatus
+  delivered_at: string | null
+  opened_at: string | null
+  clicked_at: string | null
+}
+
+export type DeliveryLogUpdate = Partial<DeliveryLogState> & { error_message?: string }
+
+// Work out how a log should change for an incoming event. Returns null when
+// the event carries nothing new (a duplicate, or a status behind the current one).
+export function planDeliveryUpdate(log: DeliveryLogState, event: DeliveryStatusChange): DeliveryLogUpdate | null {
+  if (TERMINAL_STATUSES.includes(log.status)) return null
+
+  const update: DeliveryLogUpdate = {}
+
+  if (STATUS_RANK[event.status] > STATUS_RANK[log.status]) {
+    update.status = event.status
+    if (TERMINAL_STATUSES.includes(event.status) && event.errorMessage) {
+      update.error_message = event.errorMessage
+    }
+  }
+
+  for (const column of IMPLIED_TIMESTAMPS[event.status] || []) {
+    if (!log[column]) {
+      update[column] = event.occurredAt
+    }
+  }
+
+  return Object.keys(update).length > 0 ? update : null
+}
+
+// Resend webhook event types -> log status
+export function mapResendEventType(type: string): DeliveryStatus | null {
+  switch (type) {
+    case 'email.sent':
+      return 'sent'
+    case 'email.delivered':
+      return 'delivered'
+    case 'email.bounced':
+      return 'bounced'
+    case 'email.opened':
+      return 'opened'
+    case 'email.clicked':
+      return 'clicked'
+    default:
+      return null
+  }
+}
+
+// Twilio MessageStatus values -> log status. A message the carrier couldn't
+// deliver counts as bounced, not failed: failed logs make the visitor
+// eligible again, so every scheduler run would text the same dead number.
+export function mapTwilioMessageStatus(messageStatus: string): DeliveryStatus | null {
+  switch (messageStatus) {
+    case 'sent':
+      return 'sent'
+    case 'delivered':
+      return 'delivered'
+    case 'read':
+      return 'opened'
+    case 'undelivered':
+    case 'failed':
+      return 'bounced'
+    default:
+      return null
+  }
+}
+
+export type ApplyDeliveryEventResult = 'updated' | 'ignored' | 'not_found'
+
+// Apply an event to the follow_up_logs row matching the given column. The
+// update is conditional on the status we read, so two concurrent events
+// can't race a log backwards; the loser re-reads and re-plans.
+async function applyEventToLog(
+  supabase: SupabaseClient,
+  column: 'id' | 'external_id',
+  value: string,
+  event: DeliveryStatusChange
+): Promise<ApplyDeliveryEventResult> {
+  for (let attempt = 0; attempt < 3; attempt++) {
+    const { data: log, error } = await supabase
+      .from('follow_up_logs')
+      .select('id, status, delivered_at, opened_at, clicked_at')
+      .eq(column, value)
+      .maybeSingle()
+
+    if (error) throw error
+    if (!log) return 'not_found'
+
+    const update = planDeliveryUpdate(log as DeliveryLogState, event)
+    if (!update) return 'ignored'
+
+    const { data: updated, error: updateError } = await supabase
+      .from('follow_up_logs')
+      .update(update)
+      .eq('id', log.id)
+      .eq('status', log.status)
+      .select('id')
+
+    if (updateError) throw updateError
+    if (updated && updated.length > 0) return 'updated'
+  }
+
+  return 'ignored'
+}
+
+// Apply a provider event, matched on the provider's message id
+export async function applyDeliveryEvent(
+  supabase: SupabaseClient,
+  event: DeliveryEvent
+): Promise<ApplyDeliveryEventResult> {
+  return applyEventToLog(supabase, 'external_id', event.externalId, event)
+}
+
+// Apply an open or click from our own tracking links, which carry the log id
+export async function applyTrackingEvent(
+  supabase: SupabaseClient,
+  logId: string,
+  status: 'opened' | 'clicked',
+  occurredAt: string
+): Promise<ApplyDeliveryEventResult> {
+  return applyEventToLog(supabase, 'id', logId, { status, occurredAt })
+}
@@ -0,0 +1,52 @@
+import type { SupabaseClient } from '@supabase/supabase-js'
+import { parseClickTarget, type ClickTarget } from '@shared/email-tracking'
+import {
+  CLICK_TRACKING_TOKEN_PURPOSE,
+  OPEN_TRACKING_TOKEN_PURPOSE,
+  TRACKING_TOKEN_MAX_AGE_SECONDS,
+  verifySignedToken,
+} from '@shared/signed-tokens'
+import { applyTrackingEvent } from '@/lib/delivery-status'
+
+// 1x1 transparent GIF served for open pixels
+export const TRACKING_PIXEL = Uint8Array.from(
+  atob('R0lGODlhAQABAIAAAAAAAP///yH5BAEAAAAALAAAAAABAAEAAAIBRAA7'),
+  char => char.charCodeAt(0)
+)
+
+// Tracking tokens are signed with the unsubscribe secret under their own
+// purposes (see @shared/signed-tokens)
+function getTrackingSecret(): string {
+  const secret = process.env.UNSUBSCRIBE_SECRET
+  if (!secret) {
+    throw new Error('UNSUBSCRIBE_SECRET not configured')
+  }
+  return secret
+}
+
+// Returns the log id an open pixel was issued for, or null
+export async function resolveOpenToken(token: string): Promise<string | null> {
+  return verifySignedToken(OPEN_TRACKING_TOKEN_PURPOSE, token, getTrackingSecret(), TRACKING_TOKEN_MAX_AGE_SECONDS)
+}
+
+// Returns the log and destination a tracked link was issued for, or null.
+// Only web links are ever signed, but never redirect anywhere else.
+export async function resolveClickToken(token: string): Promise<ClickTarget | null> {
+  const value = await verifySignedToken(CLICK_TRACKING_TOKEN_PURPOSE, token, getTrackingSecret(), TRACKING_TOKEN_MAX_AGE_SECONDS)
+  const target = value ? parseClickTarget(value) : null
+  if (!target || !/^https?:\/\//i.test(target.url)) return null
+  return target
+}
+
+export async function recordOpen(supabase: SupabaseClient, logId: string) {
+  await applyTrackingEvent(supabase, logId, 'opened', new Date().toISOString())
+}
+
+export async function recordClick(supabase: SupabaseClient, target: ClickTarget) {
+  const { error } = await supabase
+    .from('follow_up_link_clicks')
+    .insert({ log_id: target.logId, url: target.url })
+
+  if (error) throw error
+  await applyTrackingEvent(supabase, target.logId, 'clicked', new Date().toISOString())
+}
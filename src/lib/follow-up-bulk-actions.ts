@@ -0,0 +1,76 @@
+import type { SupabaseClient } from '@supabase/supabase-js'
+import type { BulkActionFormData } from '@/lib/follow-up-validations'
+import type { SendBatch } from '@/lib/follow-up-scheduler'
+
+export type BulkActionOutcomeType =
+  | 'updated'
+  | 'unchanged'
+  | 'deleted'
+  | 'enrolled'
+  | 'queued'
+  | 'skipped'
+  | 'failed'
+  | 'not_found'
+
+export interface BulkActionOutcome {
+  campaignId: string
+  campaignName: string | null
+  outcome: BulkActionOutcomeType
+  detail?: string
+  batchId?: string
+}
+
+interface BulkActionRow {
+  campaign_id: string
+  campaign_name: string | null
+  outcome: BulkActionOutcomeType | 'ready'
+  detail: string | null
+}
+
+// Run a bulk action for one admin. Status changes, deletes and sequence
+// enrollments happen in one transaction (bulk_campaign_action); single-message
+// campaigns it marks ready are then queued one by one through sendBatch, which
+// applies the same eligibility rules as the Send button.
+export async function runBulkCampaignAction(
+  supabase: SupabaseClient,
+  adminId: string,
+  { action, campaignIds }: BulkActionFormData,
+  sendBatch: SendBatch
+): Promise<BulkActionOutcome[]> {
+  const { data, error } = await supabase
+    .rpc('bulk_campaign_action', {
+      admin_id_param: adminId,
+      action_param: action,
+      campaign_ids_param: campaignIds,
+    })
+
+  if (error) throw error
+
+  const outcomes: BulkActionOutcome[] = []
+
+  for (const row of (data || []) as BulkActionRow[]) {
+    const outcome: BulkActionOutcome = {
+      campaignId: row.campaign_id,
+      campaignName: row.campaign_name,
+      outcome: row.outcome === 'ready' ? 'queued' : row.outcome,
+      ...(row.detail && { detail: row.detail }),
+    }
+
+    if (row.outcome === 'ready') {
+      try {
+        const result = await sendBatch({ campaignId: row.campaign_id })
+        outcome.batchId = result.batchId
+        outcome.detail = result.visitors > 0
+          ? `Queueing messages for ${result.visitors} visitors`
+          : result.message || 'No eligible visitors'
+      } catch (sendError: unknown) {
+        outcome.outcome = 'failed'
+        outcome.detail = sendError instanceof Error ? sendError.message : 'Failed to queue messages'
+      }
+    }
+
+    outcomes.push(outcome)
+  }
+
+  return outcomes
+}
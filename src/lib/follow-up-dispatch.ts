@@ -0,0 +1,73 @@
+import type { SendFollowUpFormData } from '@/lib/follow-up-validations'
+
+// The batch is created, but its messages are still being queued, when this
+// returns. Follow the follow_up_batches row and its follow_up_jobs rows for
+// progress.
+export interface SendFollowUpResult {
+  success: boolean
+  message?: string
+  batchId?: string
+  // Visitors whose messages are being queued
+  visitors: number
+}
+
+export interface SendTestMessagePayload {
+  adminId: string
+  campaignId?: string
+  channel: 'email' | 'sms'
+  subject?: string
+  html?: string
+  text?: string
+  sms?: string
+}
+
+export interface SendTestMessageResult {
+  success: boolean
+  recipient: string
+  error?: string
+}
+
+async function invokeEdgeFunction<T>(body: unknown, fallbackError: string): Promise<T> {
+  const supabaseUrl = process.env.NEXT_PUBLIC_SUPABASE_URL!
+  const supabaseServiceKey = process.env.SUPABASE_SERVICE_ROLE_KEY!
+
+  const response = await fetch(`${supabaseUrl}/functions/v1/send-follow-up`, {
+    method: 'POST',
+    headers: {
+      'Content-Type': 'application/json',
+      'Authorization': `Bearer ${supabaseServiceKey}`,
+    },
+    body: JSON.stringify(body),
+  })
+
+  const result = await response.json()
+
+  if (!response.ok) {
+    throw new Error(result.error || fallbackError)
+  }
+
+  return result
+}
+
+// Invoke the send-follow-up Edge Function with the service role key.
+// Shared by the admin API route and the scheduled dispatcher.
+export async function invokeSendFollowUpFunction(
+  payload: SendFollowUpFormData
+): Promise<SendFollowUpResult> {
+  return invokeEdgeFunction(payload, 'Failed to send follow-up messages')
+}
+
+// Ask the Edge Function to work through due queue jobs (retries and
+// anything earlier workers didn't finish). Returns once the worker starts.
+export async function invokeFollowUpQueueWorker(): Promise<{ success: boolean }> {
+  return invokeEdgeFunction({ processQueue: true }, 'Failed to start the follow-up queue worker')
+}
+
+// Deliver already-rendered content to the admin's own email or phone. The
+// Edge Function looks the recipient up from adminId and logs the send to
+// follow_up_test_sends rather than follow_up_logs.
+export async function invokeSendTestMessage(
+  payload: SendTestMessagePayload
+): Promise<SendTestMessageResult> {
+  return invokeEdgeFunction({ test: payload }, 'Failed to send test message')
+}
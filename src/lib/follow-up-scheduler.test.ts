@@ -0,0 +1,242 @@
+import { describe, expect, it, vi } from 'vitest'
+import type { SupabaseClient } from '@supabase/supabase-js'
+import {
+  dispatchDueFollowUps,
+  groupDueSteps,
+  isFollowUpDue,
+  type Clock,
+  type SendBatch,
+} from '@/lib/follow-up-scheduler'
+
+const fixedClock = (iso: string): Clock => ({ now: () => new Date(iso) })
+
+type RpcHandler = (args: Record<string, unknown>) => { data?: unknown; error?: Error }
+
+// Just enough of the Supabase client for the scheduler: the active campaigns
+// query and the RPCs it calls
+function fakeSupabase(campaigns: unknown[], rpcs: Record<string, RpcHandler> = {}) {
+  const rpc = vi.fn(async (name: string, args: Record<string, unknown>) => {
+    const result = rpcs[name]?.(args) ?? {}
+    return { data: result.data ?? null, error: result.error ?? null }
+  })
+
+  const client = {
+    from: () => ({
+      select: () => ({
+        eq: async () => ({ data: campaigns, error: null }),
+      }),
+    }),
+    rpc,
+  } as unknown as SupabaseClient
+
+  return { client, rpc }
+}
+
+const queuedSendBatch = () =>
+  vi.fn<SendBatch>(async ({ campaignId, stepId, visitorIds }) => ({
+    success: true,
+    batchId: `batch-${stepId ?? campaignId}`,
+    visitors: visitorIds?.length ?? 0,
+  }))
+
+const singleMessageCampaign = {
+  id: 'campaign-1',
+  name: 'Thanks for visiting',
+  delay_hours: 24,
+  trigger_condition: 'all',
+  activated_at: '2025-01-01T00:00:00Z',
+  campaign_steps: [],
+}
+
+describe('isFollowUpDue', () => {
+  const now = new Date('2025-03-02T12:00:00Z')
+
+  it('is due once visit_date + delay_hours has passed', () => {
+    expect(isFollowUpDue('2025-03-01T12:00:00Z', 24, now)).toBe(true)
+    expect(isFollowUpDue('2025-03-01T12:00:01Z', 24, now)).toBe(false)
+  })
+
+  it('treats a missing delay as no delay', () => {
+    expect(isFollowUpDue('2025-03-02T12:00:00Z', null, now)).toBe(true)
+    expect(isFollowUpDue('2025-03-02T12:00:01Z', null, now)).toBe(false)
+  })
+
+  it('accepts Date objects', () => {
+    expect(isFollowUpDue(new Date('2025-03-02T10:00:00Z'), 2, now)).toBe(true)
+  })
+
+  it('skips visitors who became due before the campaign went live', () => {
+    expect(isFollowUpDue('2025-02-01T12:00:00Z', 24, now, '2025-03-01T00:00:00Z')).toBe(false)
+    expect(isFollowUpDue('2025-03-01T00:00:00Z', 24, now, '2025-03-01T00:00:00Z')).toBe(true)
+  })
+})
+
+describe('groupDueSteps', () => {
+  it('batches due visitors per step, in step order', () => {
+    const now = new Date('2025-03-10T00:00:00Z')
+    const batches = groupDueSteps([
+      { visitor_id: 'v1', visit_date: '2025-03-01T00:00:00Z', step_id: 'step-2', step_order: 2, delay_hours: 72, activated_at: null },
+      { visitor_id: 'v2', visit_date: '2025-03-01T00:00:00Z', step_id: 'step-1', step_order: 1, delay_hours: 0, activated_at: null },
+      { visitor_id: 'v3', visit_date: '2025-03-08T00:00:00Z', step_id: 'step-2', step_order: 2, delay_hours: 72, activated_at: null },
+      { visitor_id: 'v4', visit_date: '2025-03-02T00:00:00Z', step_id: 'step-2', step_order: 2, delay_hours: 72, activated_at: null },
+    ], now)
+
+    expect(batches).toEqual([
+      { stepId: 'step-1', visitorIds: ['v2'] },
+      { stepId: 'step-2', visitorIds: ['v1', 'v4'] },
+    ])
+  })
+
+  it('leaves out steps that fell due before the campaign went live', () => {
+    const now = new Date('2025-03-10T00:00:00Z')
+    const activatedAt = '2025-03-05T00:00:00Z'
+    const batches = groupDueSteps([
+      { visitor_id: 'old', visit_date: '2025-01-10T00:00:00Z', step_id: 'step-2', step_order: 2, delay_hours: 72, activated_at: activatedAt },
+      { visitor_id: 'new', visit_date: '2025-03-04T00:00:00Z', step_id: 'step-2', step_order: 2, delay_hours: 72, activated_at: activatedAt },
+    ], now)
+
+    expect(batches).toEqual([{ stepId: 'step-2', visitorIds: ['new'] }])
+  })
+})
+
+describe('dispatchDueFollowUps', () => {
+  it('sends to the visitors that are due as of the fake clock', async () => {
+    const { client, rpc } = fakeSupabase([singleMessageCampaign], {
+      get_due_visitors: () => ({
+        data: [
+          { visitor_id: 'due', visit_date: '2025-03-01T09:00:00Z' },
+          // The database should have left this one out; the scheduler checks again
+          { visitor_id: 'not-yet', visit_date: '2025-03-01T11:00:00Z' },
+        ],
+      }),
+    })
+    const sendBatch = queuedSendBatch()
+
+    const run = await dispatchDueFollowUps(client, sendBatch, fixedClock('2025-03-02T10:00:00Z'))
+
+    expect(rpc).toHaveBeenCalledWith('get_due_visitors', {
+      campaign_id_param: 'campaign-1',
+      as_of_param: '2025-03-02T10:00:00.000Z',
+    })
+    expect(sendBatch).toHaveBeenCalledTimes(1)
+    expect(sendBatch).toHaveBeenCalledWith({ campaignId: 'campaign-1', visitorIds: ['due'] })
+    expect(run).toEqual({
+      ranAt: '2025-03-02T10:00:00.000Z',
+      campaigns: [{
+        campaignId: 'campaign-1',
+        campaignName: 'Thanks for visiting',
+        dueVisitors: 1,
+        batchIds: ['batch-campaign-1'],
+      }],
+    })
+  })
+
+  it('leaves visitors who were due before the campaign went live', async () => {
+    const { client } = fakeSupabase([{ ...singleMessageCampaign, activated_at: '2025-03-02T00:00:00Z' }], {
+      get_due_visitors: () => ({
+        data: [{ visitor_id: 'historical', visit_date: '2024-06-01T00:00:00Z' }],
+      }),
+    })
+    const sendBatch = queuedSendBatch()
+
+    const run = await dispatchDueFollowUps(client, sendBatch, fixedClock('2025-03-02T10:00:00Z'))
+
+    expect(sendBatch).not.toHaveBeenCalled()
+    expect(run.campaigns[0].dueVisitors).toBe(0)
+  })
+
+  it('skips manual single-message campaigns', async () => {
+    const { client, rpc } = fakeSupabase([{ ...singleMessageCampaign, trigger_condition: 'manual' }])
+    const sendBatch = queuedSendBatch()
+
+    const run = await dispatchDueFollowUps(client, sendBatch, fixedClock('2025-03-02T10:00:00Z'))
+
+    expect(rpc).not.toHaveBeenCalled()
+    expect(sendBatch).not.toHaveBeenCalled()
+    expect(run.campaigns).toEqual([])
+  })
+
+  it('records a failing campaign and carries on with the rest', async () => {
+    const { client } = fakeSupabase([
+      { ...singleMessageCampaign, id: 'broken', name: 'Broken' },
+      singleMessageCampaign,
+    ], {
+      get_due_visitors: args => args.campaign_id_param === 'broken'
+        ? { error: new Error('function get_due_visitors does not exist') }
+        : { data: [{ visitor_id: 'v1', visit_date: '2025-03-01T00:00:00Z' }] },
+    })
+    const sendBatch = queuedSendBatch()
+    vi.spyOn(console, 'error').mockImplementation(() => {})
+
+    const run = await dispatchDueFollowUps(client, sendBatch, fixedClock('2025-03-02T10:00:00Z'))
+
+    expect(run.campaigns[0].error).toBe('function get_due_visitors does not exist')
+    expect(run.campaigns[1]).toMatchObject({ campaignId: 'campaign-1', batchIds: ['batch-campaign-1'] })
+  })
+
+  it('enrolls, exits, skips missed steps and sends each step due since the sequence went live', async () => {
+    const { client, rpc } = fakeSupabase([{
+      ...singleMessageCampaign,
+      id: 'sequence',
+      name: 'Nurture',
+      activated_at: '2025-03-01T00:00:00Z',
+      campaign_steps: [{ id: 'step-1' }, { id: 'step-2' }, { id: 'step-3' }],
+    }], {
+      enroll_sequence_visitors: () => ({ data: 2 }),
+      exit_sequence_visitors: () => ({ data: 1 }),
+      skip_missed_sequence_steps: () => ({ data: 0 }),
+      get_due_sequence_steps: () => ({
+        data: [
+          { visitor_id: 'v1', visit_date: '2025-03-01T00:00:00Z', step_id: 'step-1', step_order: 1, delay_hours: 2, activated_at: '2025-03-01T00:00:00Z' },
+          { visitor_id: 'v2', visit_date: '2025-02-28T00:00:00Z', step_id: 'step-2', step_order: 2, delay_hours: 24, activated_at: '2025-03-01T00:00:00Z' },
+          // A visit from before the sequence went live, whose steps fell
+          // due long ago. The database should have left it out; the
+          // scheduler checks again rather than sending every step at once.
+          { visitor_id: 'past', visit_date: '2024-06-01T00:00:00Z', step_id: 'step-3', step_order: 3, delay_hours: 168, activated_at: '2025-03-01T00:00:00Z' },
+        ],
+      }),
+    })
+    const sendBatch = queuedSendBatch()
+
+    const run = await dispatchDueFollowUps(client, sendBatch, fixedClock('2025-03-02T10:00:00Z'))
+
+    expect(rpc.mock.calls.map(([name]) => name)).toEqual([
+      'enroll_sequence_visitors',
+      'exit_sequence_visitors',
+      'skip_missed_sequence_steps',
+      'get_due_sequence_steps',
+    ])
+    expect(sendBatch.mock.calls.map(([payload]) => payload)).toEqual([
+      { campaignId: 'sequence', stepId: 'step-1', visitorIds: ['v1'] },
+      { campaignId: 'sequence', stepId: 'step-2', visitorIds: ['v2'] },
+    ])
+    expect(run.campaigns[0]).toMatchObject({
+      enrolled: 2,
+      exited: 1,
+      dueVisitors: 2,
+      batchIds: ['batch-step-1', 'batch-step-2'],
+    })
+  })
+
+  it('sends manual sequences to whoever the admin enrolled', async () => {
+    const { client, rpc } = fakeSupabase([{
+      ...singleMessageCampaign,
+      id: 'sequence',
+      trigger_condition: 'manual',
+      activated_at: '2025-03-01T00:00:00Z',
+      campaign_steps: [{ id: 'step-1' }],
+    }], {
+      get_due_sequence_steps: () => ({
+        data: [
+          { visitor_id: 'picked', visit_date: '2025-01-10T00:00:00Z', step_id: 'step-1', step_order: 1, delay_hours: 0, activated_at: null },
+        ],
+      }),
+    })
+    const sendBatch = queuedSendBatch()
+
+    await dispatchDueFollowUps(client, sendBatch, fixedClock('2025-03-02T10:00:00Z'))
+
+    expect(rpc.mock.calls.map(([name]) => name)).not.toContain('enroll_sequence_visitors')
+    expect(sendBatch).toHaveBeenCalledWith({ campaignId: 'sequence', stepId: 'step-1', visitorIds: ['picked'] })
+  })
+})
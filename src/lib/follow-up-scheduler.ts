@@ -0,0 +1,208 @@
+import type { SupabaseClient } from '@supabase/supabase-js'
+import type { SendFollowUpFormData } from '@/lib/follow-up-validations'
+import type { SendFollowUpResult } from '@/lib/follow-up-dispatch'
+
+// Source of "now" for the scheduler. Swap in a fixed clock to replay a run
+// at any point in time.
+export interface Clock {
+  now(): Date
+}
+
+export const systemClock: Clock = {
+  now: () => new Date(),
+}
+
+export type SendBatch = (payload: SendFollowUpFormData) => Promise<SendFollowUpResult>
+
+export interface CampaignDispatchResult {
+  campaignId: string
+  campaignName: string
+  dueVisitors: number
+  // One per send; its messages are queued in the background
+  batchIds: string[]
+  // Drip sequences only
+  enrolled?: number
+  exited?: number
+  error?: string
+}
+
+export interface DispatchRunResult {
+  ranAt: string
+  campaigns: CampaignDispatchResult[]
+}
+
+interface ScheduledCampaign {
+  id: string
+  name: string
+  delay_hours: number | null
+  trigger_condition: string
+  activated_at: string | null
+  campaign_steps: { id: string }[] | null
+}
+
+export interface DueSequenceStep {
+  visitor_id: string
+  visit_date: string
+  step_id: string
+  step_order: number
+  delay_hours: number
+  // When the campaign went live; NULL for manual sequences
+  activated_at: string | null
+}
+
+// A visitor is due once visit_date + delay_hours has passed. Visitors who
+// became due before activatedAt (the campaign going live) never are.
+export function isFollowUpDue(
+  visitDate: string | Date,
+  delayHours: number | null,
+  now: Date,
+  activatedAt?: string | Date | null
+): boolean {
+  const visitedAt = typeof visitDate === 'string' ? new Date(visitDate) : visitDate
+  const dueAt = visitedAt.getTime() + (delayHours ?? 0) * 60 * 60 * 1000
+  if (activatedAt && dueAt < new Date(activatedAt).getTime()) return false
+  return dueAt <= now.getTime()
+}
+
+// Group due sequence steps into one batch per step, in step order. Steps
+// that fell due before the campaign went live are left out, as for single
+// messages.
+export function groupDueSteps(dueSteps: DueSequenceStep[], now: Date): { stepId: string; visitorIds: string[] }[] {
+  const batches = new Map<string, { stepOrder: number; visitorIds: string[] }>()
+
+  for (const due of dueSteps) {
+    if (!isFollowUpDue(due.visit_date, due.delay_hours, now, due.activated_at)) continue
+    const batch = batches.get(due.step_id) || { stepOrder: due.step_order, visitorIds: [] }
+    batch.visitorIds.push(due.visitor_id)
+    batches.set(due.step_id, batch)
+  }
+
+  return Array.from(batches.entries())
+    .sort(([, a], [, b]) => a.stepOrder - b.stepOrder)
+    .map(([stepId, batch]) => ({ stepId, visitorIds: batch.visitorIds }))
+}
+
+async function dispatchSingleMessage(
+  supabase: SupabaseClient,
+  campaign: ScheduledCampaign,
+  sendBatch: SendBatch,
+  now: Date,
+  result: CampaignDispatchResult
+) {
+  const { data: dueVisitors, error } = await supabase
+    .rpc('get_due_visitors', {
+      campaign_id_param: campaign.id,
+      as_of_param: now.toISOString(),
+    })
+
+  if (error) throw error
+
+  const visitorIds = ((dueVisitors || []) as { visitor_id: string; visit_date: string }[])
+    .filter(visitor => isFollowUpDue(visitor.visit_date, campaign.delay_hours, now, campaign.activated_at))
+    .map(visitor => visitor.visitor_id)
+
+  result.dueVisitors = visitorIds.length
+
+  if (visitorIds.length > 0) {
+    const sendResult = await sendBatch({ campaignId: campaign.id, visitorIds })
+    if (sendResult.batchId) result.batchIds.push(sendResult.batchId)
+  }
+}
+
+// Enrol newly eligible visitors (unless the sequence is manual), apply exit
+// conditions, skip steps missed before the sequence went live, then send
+// each enrolled visitor's next step once it is due.
+async function dispatchSequence(
+  supabase: SupabaseClient,
+  campaign: ScheduledCampaign,
+  sendBatch: SendBatch,
+  now: Date,
+  result: CampaignDispatchResult
+) {
+  if (campaign.trigger_condition !== 'manual') {
+    const { data: enrolled, error } = await supabase
+      .rpc('enroll_sequence_visitors', { campaign_id_param: campaign.id })
+
+    if (error) throw error
+    result.enrolled = enrolled || 0
+  }
+
+  const { data: exited, error: exitError } = await supabase
+    .rpc('exit_sequence_visitors', { campaign_id_param: campaign.id })
+
+  if (exitError) throw exitError
+  result.exited = exited || 0
+
+  const { error: skipError } = await supabase
+    .rpc('skip_missed_sequence_steps', { campaign_id_param: campaign.id })
+
+  if (skipError) throw skipError
+
+  const { data: dueSteps, error: dueError } = await supabase
+    .rpc('get_due_sequence_steps', {
+      campaign_id_param: campaign.id,
+      as_of_param: now.toISOString(),
+    })
+
+  if (dueError) throw dueError
+
+  for (const batch of groupDueSteps((dueSteps || []) as DueSequenceStep[], now)) {
+    result.dueVisitors += batch.visitorIds.length
+    const sendResult = await sendBatch({ campaignId: campaign.id, ...batch })
+    if (sendResult.batchId) result.batchIds.push(sendResult.batchId)
+  }
+}
+
+// Find every active, non-manual campaign and queue it for the visitors whose
+// delay has elapsed since it went live, and advance every active drip sequence. Safe to re-run:
+// get_due_visitors skips visitors that already have a non-failed log, and the
+// Edge Function claims each message as it queues it so overlapping runs
+// cannot double-send.
+export async function dispatchDueFollowUps(
+  supabase: SupabaseClient,
+  sendBatch: SendBatch,
+  clock: Clock = systemClock
+): Promise<DispatchRunResult> {
+  const now = clock.now()
+
+  const { data: campaigns, error: campaignsError } = await supabase
+    .from('follow_up_campaigns')
+    .select('id, name, delay_hours, trigger_condition, activated_at, campaign_steps (id)')
+    .eq('status', 'active')
+
+  if (campaignsError) throw campaignsError
+
+  const results: CampaignDispatchResult[] = []
+
+  for (const campaign of (campaigns || []) as ScheduledCampaign[]) {
+    const isSequence = (campaign.campaign_steps || []).length > 0
+
+    // Manual single-message campaigns are only sent from the dashboard
+    if (!isSequence && campaign.trigger_condition === 'manual') continue
+
+    const result: CampaignDispatchResult = {
+      campaignId: campaign.id,
+      campaignName: campaign.name,
+      dueVisitors: 0,
+      batchIds: [],
+    }
+
+    try {
+      if (isSequence) {
+        await dispatchSequence(supabase, campaign, sendBatch, now, result)
+      } else {
+        await dispatchSingleMessage(supabase, campaign, sendBatch, now, result)
+      }
+    } catch (error: unknown) {
+      console.error(`Scheduled dispatch failed for campaign ${campaign.id}:`, error)
+      result.error = error instanceof Error ? error.message : 'Dispatch failed'
+    }
+
+    results.push(result)
+  }
+
+  return {
+    ranAt: now.toISOString(),
+    campaigns: results,
+  }
+}
@@ -1,4 +1,31 @@
 import { z } from 'zod'
+import { AVAILABLE_TEMPLATE_VARIABLES, type TemplateVariable } from '@shared/template-variables'
+import { PIPELINE_STAGES } from '@/lib/validations'
+
+// Reasons a visitor leaves a drip sequence early
+export const SEQUENCE_EXIT_CONDITIONS = ['feedback_submitted', 'unsubscribed', 'made_offer'] as const
+
+export type SequenceExitCondition = typeof SEQUENCE_EXIT_CONDITIONS[number]
+
+export const SEQUENCE_EXIT_CONDITION_LABELS: Record<SequenceExitCondition, string> = {
+  feedback_submitted: 'Submits feedback',
+  unsubscribed: 'Unsubscribes',
+  made_offer: 'Makes an offer',
+}
+
+// Drip sequence step validation schema
+export const campaignStepSchema = z.object({
+  id: z.string().optional(),
+  message_type: z.enum(['email', 'sms']),
+  delay_hours: z.number().min(0, 'Delay must be positive').max(8760, 'Delay cannot exceed 1 year'),
+  email_subject: z.string().max(200, 'Subject too long').optional(),
+  email_template: z.string().max(10000, 'Email template too long').optional(),
+  email_template_id: z.string().uuid('Invalid email template').optional().or(z.literal('')),
+  sms_template: z.string().max(1600, 'SMS template too long (max 1600 chars)').optional(),
+  sms_template_id: z.string().uuid('Invalid SMS template').optional().or(z.literal('')),
+})
+
+export type CampaignStepFormData = z.infer<typeof campaignStepSchema>
 
 // Campaign validation schema
 export const campaignSchema = z.object({
@@ -8,7 +35,7 @@ export const campaignSchema = z.object({
   message_type: z.enum(['email', 'sms', 'both'], {
     required_error: 'Message type is required',
   }),
-  trigger_condition: z.enum(['interested', 'all', 'no_feedback', 'manual'], {
+  trigger_condition: z.enum(['interested', 'all', 'no_feedback', 'manual', 'hot_lead', 'warm_lead', 'cold_lead'], {
     required_error: 'Trigger condition is required',
   }),
   delay_hours: z.number().min(0, 'Delay must be positive').max(8760, 'Delay cannot exceed 1 year'),
@@ -16,7 +43,18 @@ export const campaignSchema = z.object({
   email_template: z.string().max(10000, 'Email template too long').optional(),
   email_from_name: z.string().max(100, 'From name too long'),
   sms_template: z.string().max(1600, 'SMS template too long (max 1600 chars)').optional(),
+  // Saved templates; an empty string means the campaign uses its own content
+  email_template_id: z.string().uuid('Invalid email template').optional().or(z.literal('')),
+  sms_template_id: z.string().uuid('Invalid SMS template').optional().or(z.literal('')),
   status: z.enum(['active', 'paused', 'completed']),
+  // Rewrite email links and add an open pixel
+  tracking_enabled: z.boolean().optional(),
+  // Only visitors in include_stages (any stage when empty), never those in exclude_stages
+  include_stages: z.array(z.enum(PIPELINE_STAGES)).optional(),
+  exclude_stages: z.array(z.enum(PIPELINE_STAGES)).optional(),
+  // Present for drip sequences, whose steps replace the single message above
+  steps: z.array(campaignStepSchema).optional(),
+  exit_conditions: z.array(z.enum(SEQUENCE_EXIT_CONDITIONS)).optional(),
 })
 
 export type CampaignFormData = z.infer<typeof campaignSchema>
@@ -51,10 +89,29 @@ export const sendFollowUpSchema = z.object({
   visitorIds: z.array(z.string().uuid('Invalid visitor ID')).optional(),
   propertyId: z.string().uuid('Invalid property ID').optional(),
   messageType: z.enum(['email', 'sms', 'both']).optional(),
+  // Send one step of a drip sequence to its enrolled visitors
+  stepId: z.string().uuid('Invalid step ID').optional(),
 })
 
 export type SendFollowUpFormData = z.infer<typeof sendFollowUpSchema>
 
+// Test send validation schema. Content is the unsaved editor content; the
+// message only ever goes to the signed-in admin.
+export const testSendSchema = z.object({
+  campaignId: z.string().uuid('Invalid campaign ID').optional(),
+  visitorId: z.string().uuid('Invalid visitor ID').optional(),
+  channel: z.enum(['email', 'sms']),
+  emailSubject: z.string().max(200, 'Subject too long').optional(),
+  emailHtml: z.string().max(50000, 'Content too long').optional(),
+  emailText: z.string().max(50000, 'Content too long').optional(),
+  smsContent: z.string().max(1600, 'SMS content too long (max 1600 chars)').optional(),
+}).refine(
+  data => data.channel === 'email' ? !!data.emailSubject && !!data.emailHtml : !!data.smsContent,
+  { message: 'Nothing to send yet', path: ['channel'] }
+)
+
+export type TestSendFormData = z.infer<typeof testSendSchema>
+
 // Unsubscribe validation schema
 export const unsubscribeSchema = z.object({
   email: z.string().email('Invalid email').optional(),
@@ -73,6 +130,22 @@ export const unsubscribeSchema = z.object({
 
 export type UnsubscribeFormData = z.infer<typeof unsubscribeSchema>
 
+// Unsubscribe via a signed link from a follow-up message
+export const tokenUnsubscribeSchema = z.object({
+  token: z.string().min(1, 'Unsubscribe link is invalid'),
+  unsubscribe_type: z.enum(['email', 'sms', 'both'], {
+    required_error: 'Unsubscribe type is required',
+  }),
+  reason: z.string().max(500, 'Reason too long').optional(),
+})
+
+export type TokenUnsubscribeFormData = z.infer<typeof tokenUnsubscribeSchema>
+
+// Confirm an opt-out entered by hand, via the link sent to the address
+export const confirmUnsubscribeSchema = z.object({
+  confirmation_token: z.string().min(1, 'Confirmation link is invalid'),
+})
+
 // Follow-up log filters
 export const followUpLogFiltersSchema = z.object({
   campaign_id: z.string().uuid().optional(),
@@ -81,20 +154,55 @@ export const followUpLogFiltersSchema = z.object({
   status: z.enum(['pending', 'sent', 'delivered', 'failed', 'bounced', 'opened', 'clicked']).optional(),
   date_from: z.string().optional(),
   date_to: z.string().optional(),
+  // Part of the recipient's email address or phone number
+  search: z.string().max(200, 'Search too long').optional(),
 })
 
 export type FollowUpLogFilters = z.infer<typeof followUpLogFiltersSchema>
 
+// Query string of GET /api/follow-up-logs
+export const followUpLogQuerySchema = followUpLogFiltersSchema.extend({
+  page: z.coerce.number().int().min(1).default(1),
+  page_size: z.coerce.number().int().min(1).max(100).default(25),
+})
+
+export type FollowUpLogQuery = z.infer<typeof followUpLogQuerySchema>
+
+export const retryFollowUpLogsSchema = z.object({
+  logIds: z.array(z.string().uuid()).min(1, 'Select at least one message').max(500, 'Too many messages selected'),
+})
+
 // Campaign analytics filters
 export const campaignAnalyticsFiltersSchema = z.object({
   property_id: z.string().uuid().optional(),
   date_from: z.string().optional(),
   date_to: z.string().optional(),
   message_type: z.enum(['email', 'sms', 'both']).optional(),
+}).refine(data => !data.date_from || !data.date_to || data.date_from <= data.date_to, {
+  message: 'End date must be on or after the start date',
+  path: ['date_to'],
 })
 
 export type CampaignAnalyticsFilters = z.infer<typeof campaignAnalyticsFiltersSchema>
 
+// Messaging provider settings; credentials live in Edge Function secrets
+export const EMAIL_PROVIDERS = ['resend', 'smtp', 'sandbox'] as const
+export const SMS_PROVIDERS = ['twilio', 'sandbox'] as const
+
+export const messagingSettingsSchema = z.object({
+  email_provider: z.enum(EMAIL_PROVIDERS),
+  sms_provider: z.enum(SMS_PROVIDERS),
+  from_email: z.string().email('Invalid email').optional().or(z.literal('')),
+  from_name: z.string().max(100, 'From name too long').optional(),
+  reply_to_email: z.string().email('Invalid email').optional().or(z.literal('')),
+  sms_from_number: z.string()
+    .regex(/^\+[1-9]\d{6,14}$/, 'Use international format, e.g. +15551234567')
+    .optional()
+    .or(z.literal('')),
+})
+
+export type MessagingSettingsFormData = z.infer<typeof messagingSettingsSchema>
+
 // Bulk action validation
 export const bulkActionSchema = z.object({
   action: z.enum(['send', 'pause', 'activate', 'delete']),
@@ -119,25 +227,8 @@ export function extractTemplateVariables(template: string): string[] {
   return variables
 }
 
-// Available template variables
-export const AVAILABLE_TEMPLATE_VARIABLES = [
-  'visitor_name',
-  'visitor_email', 
-  'visitor_phone',
-  'property_name',
-  'property_address',
-  'property_type',
-  'property_price',
-  'admin_name',
-  'admin_email',
-  'admin_phone',
-  'visit_date',
-  'feedback_rating',
-  'feedback_comments',
-  'interested',
-] as const
-
-export type TemplateVariable = typeof AVAILABLE_TEMPLATE_VARIABLES[number]
+// Available template variables (resolved by the shared renderer)
+export { AVAILABLE_TEMPLATE_VARIABLES, type TemplateVariable }
 
 // Template variable descriptions
 export const TEMPLATE_VARIABLE_DESCRIPTIONS: Record<TemplateVariable, string> = {
@@ -155,6 +246,7 @@ export const TEMPLATE_VARIABLE_DESCRIPTIONS: Record<TemplateVariable, string> =
   feedback_rating: 'The visitor\'s rating (1-5 stars)',
   feedback_comments: 'The visitor\'s feedback comments',
   interested: 'Whether the visitor expressed interest (Yes/No)',
+  feedback_link: 'A link for the visitor to leave feedback (works once, for 14 days after the visit)',
 }
 
 // Validation for template content
@@ -191,10 +283,63 @@ export function requiresSMSTemplate(messageType: string): boolean {
   return messageType === 'sms' || messageType === 'both'
 }
 
+// Campaign-level message type covering every channel a sequence's steps use
+export function getSequenceMessageType(steps: Pick<CampaignStepFormData, 'message_type'>[]): 'email' | 'sms' | 'both' {
+  const channels = new Set(steps.map(step => step.message_type))
+  if (channels.size === 1) return steps[0].message_type
+  return 'both'
+}
+
 // Campaign validation with conditional requirements
 export const campaignSchemaWithConditionals = campaignSchema.superRefine((data, ctx) => {
-  // Email template required for email campaigns
-  if (requiresEmailTemplate(data.message_type)) {
+  if (data.steps) {
+    if (data.steps.length === 0) {
+      ctx.addIssue({ code: z.ZodIssueCode.custom, message: 'Add at least one step', path: ['steps'] })
+    }
+
+    data.steps.forEach((step, index) => {
+      const path = (field: string) => ['steps', index, field]
+
+      if (step.message_type === 'email' && !step.email_template_id) {
+        if (!step.email_subject || step.email_subject.trim() === '') {
+          ctx.addIssue({ code: z.ZodIssueCode.custom, message: 'Email subject is required', path: path('email_subject') })
+        }
+        if (!step.email_template || step.email_template.trim() === '') {
+          ctx.addIssue({ code: z.ZodIssueCode.custom, message: 'Email template is required', path: path('email_template') })
+        }
+      }
+
+      if (step.message_type === 'sms' && !step.sms_template_id && (!step.sms_template || step.sms_template.trim() === '')) {
+        ctx.addIssue({ code: z.ZodIssueCode.custom, message: 'SMS message is required', path: path('sms_template') })
+      }
+
+      for (const field of ['email_subject', 'email_template', 'sms_template'] as const) {
+        const content = step[field]
+        if (!content) continue
+        const validation = validateTemplateVariables(content)
+        if (!validation.isValid) {
+          ctx.addIssue({
+            code: z.ZodIssueCode.custom,
+            message: `Invalid template variables: ${validation.invalidVariables.join(', ')}`,
+            path: path(field),
+          })
+        }
+      }
+
+      // Delays count from the visit, so a later step can't have a shorter one
+      if (index > 0 && step.delay_hours < data.steps![index - 1].delay_hours) {
+        ctx.addIssue({
+          code: z.ZodIssueCode.custom,
+          message: 'Must be at least the previous step\'s delay',
+          path: path('delay_hours'),
+        })
+      }
+    })
+    return
+  }
+
+  // Email content required for email campaigns, unless a saved template provides it
+  if (requiresEmailTemplate(data.message_type) && !data.email_template_id) {
     if (!data.email_subject || data.email_subject.trim() === '') {
       ctx.addIssue({
         code: z.ZodIssueCode.custom,
@@ -211,8 +356,8 @@ export const campaignSchemaWithConditionals = campaignSchema.superRefine((data,
     }
   }
 
-  // SMS template required for SMS campaigns
-  if (requiresSMSTemplate(data.message_type)) {
+  // SMS content required for SMS campaigns, unless a saved template provides it
+  if (requiresSMSTemplate(data.message_type) && !data.sms_template_id) {
     if (!data.sms_template || data.sms_template.trim() === '') {
       ctx.addIssue({
         code: z.ZodIssueCode.custom,
@@ -247,3 +392,34 @@ export const campaignSchemaWithConditionals = campaignSchema.superRefine((data,
 })
 
 export type CampaignFormDataWithConditionals = z.infer<typeof campaignSchemaWithConditionals>
+
+function addInvalidVariableIssue(ctx: z.RefinementCtx, content: string | undefined, path: string) {
+  if (!content) return
+  const validation = validateTemplateVariables(content)
+  if (!validation.isValid) {
+    ctx.addIssue({
+      code: z.ZodIssueCode.custom,
+      message: `Invalid template variables: ${validation.invalidVariables.join(', ')}`,
+      path: [path],
+    })
+  }
+}
+
+// Template editor forms. variables and category are filled in on save.
+export const emailTemplateFormSchema = emailTemplateSchema
+  .omit({ variables: true, category: true })
+  .superRefine((data, ctx) => {
+    addInvalidVariableIssue(ctx, data.subject, 'subject')
+    addInvalidVariableIssue(ctx, data.html_content, 'html_content')
+    addInvalidVariableIssue(ctx, data.text_content, 'text_content')
+  })
+
+export type EmailTemplateEditorData = z.infer<typeof emailTemplateFormSchema>
+
+export const smsTemplateFormSchema = smsTemplateSchema
+  .omit({ variables: true, category: true })
+  .superRefine((data, ctx) => {
+    addInvalidVariableIssue(ctx, data.content, 'content')
+  })
+
+export type SMSTemplateEditorData = z.infer<typeof smsTemplateFormSchema>
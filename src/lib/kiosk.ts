@@ -0,0 +1,186 @@
+import type { SupabaseClient } from '@supabase/supabase-js'
+import type { VisitorFormData, FeedbackFormData } from '@/lib/validations'
+
+// Kiosk mode keeps everything it needs in the tablet's localStorage so
+// check-ins and feedback can be taken with no connection and synced later
+// (see database-kiosk-mode.sql).
+
+export interface KioskProperty {
+  id: string
+  name: string
+  address: string
+  description?: string
+}
+
+// A guest checked in on this tablet. feedback_token is set once their
+// check-in has synced; feedback can be taken before then and is sent with it.
+export interface KioskGuest {
+  client_id: string
+  session_id: string
+  feedback_token?: string
+  name: string
+  email: string
+  has_feedback: boolean
+}
+
+export interface KioskState {
+  property: KioskProperty
+  // The open house running when the kiosk last had a connection
+  session_id: string | null
+  pin_hash: string | null
+  guests: KioskGuest[]
+}
+
+export interface QueuedCheckIn {
+  kind: 'check_in'
+  client_id: string
+  property_id: string
+  session_id: string
+  visit_date: string
+  visitor: VisitorFormData
+  attempts: number
+  last_error?: string
+}
+
+export interface QueuedFeedback {
+  kind: 'feedback'
+  client_id: string
+  guest_client_id: string
+  submitted_at: string
+  feedback: FeedbackFormData
+  attempts: number
+  last_error?: string
+}
+
+export type QueuedSubmission = QueuedCheckIn | QueuedFeedback
+
+export interface KioskSyncResult {
+  synced: number
+  // Submissions still waiting, including ones the database rejected
+  pending: number
+  failed: number
+  offline: boolean
+}
+
+const stateKey = (propertyId: string) => `kiosk:${propertyId}`
+const queueKey = (propertyId: string) => `kiosk:${propertyId}:queue`
+
+function readJson<T>(key: string): T | null {
+  try {
+    const raw = window.localStorage.getItem(key)
+    return raw ? JSON.parse(raw) as T : null
+  } catch {
+    return null
+  }
+}
+
+export function loadKioskState(propertyId: string): KioskState | null {
+  return readJson<KioskState>(stateKey(propertyId))
+}
+
+export function saveKioskState(propertyId: string, state: KioskState) {
+  window.localStorage.setItem(stateKey(propertyId), JSON.stringify(state))
+}
+
+export function loadKioskQueue(propertyId: string): QueuedSubmission[] {
+  return readJson<QueuedSubmission[]>(queueKey(propertyId)) || []
+}
+
+function saveKioskQueue(propertyId: string, queue: QueuedSubmission[]) {
+  window.localStorage.setItem(queueKey(propertyId), JSON.stringify(queue))
+}
+
+export function enqueueKioskSubmission(propertyId: string, submission: QueuedSubmission) {
+  saveKioskQueue(propertyId, [...loadKioskQueue(propertyId), submission])
+}
+
+// The PIN only guards leaving kiosk mode on this tablet, so a salted hash in
+// localStorage is enough to keep it from being read off the device.
+export async function hashKioskPin(propertyId: string, pin: string): Promise<string> {
+  const digest = await crypto.subtle.digest('SHA-256', new TextEncoder().encode(`${propertyId}:${pin}`))
+  return Array.from(new Uint8Array(digest)).map(byte => byte.toString(16).padStart(2, '0')).join('')
+}
+
+// supabase-js reports a failed fetch as an error with no Postgres code
+function isConnectionError(error: { code?: string }): boolean {
+  return !error.code || (typeof navigator !== 'undefined' && !navigator.onLine)
+}
+
+// Sends queued submissions in the order they were taken, so a guest's
+// check-in always syncs before their feedback. Stops at the first connection
+// error; a submission the database rejects stays queued with its error and
+// is tried again next time.
+export async function syncKioskQueue(supabase: SupabaseClient, propertyId: string): Promise<KioskSyncResult> {
+  const queue = loadKioskQueue(propertyId)
+  const remaining: QueuedSubmission[] = []
+  let synced = 0
+  let offline = false
+
+  for (const submission of queue) {
+    if (offline) {
+      remaining.push(submission)
+      continue
+    }
+
+    let error: { code?: string; message: string } | null = null
+
+    if (submission.kind === 'check_in') {
+      const result = await supabase.rpc('sync_kiosk_check_in', {
+        check_in: {
+          client_id: submission.client_id,
+          property_id: submission.property_id,
+          session_id: submission.session_id,
+          visit_date: submission.visit_date,
+          ...submission.visitor,
+        },
+      })
+      error = result.error
+
+      const state = loadKioskState(propertyId)
+      if (!error && state) {
+        state.guests = state.guests.map(guest =>
+          guest.client_id === submission.client_id ? { ...guest, feedback_token: result.data } : guest
+        )
+        saveKioskState(propertyId, state)
+      }
+    } else {
+      const guest = loadKioskState(propertyId)?.guests.find(g => g.client_id === submission.guest_client_id)
+      if (!guest?.feedback_token) {
+        // Their check-in hasn't synced yet
+        remaining.push(submission)
+        continue
+      }
+
+      const result = await supabase.rpc('sync_kiosk_feedback', {
+        token: guest.feedback_token,
+        feedback_data: {
+          client_id: submission.client_id,
+          submitted_at: submission.submitted_at,
+          ...submission.feedback,
+        },
+      })
+      error = result.error
+    }
+
+    if (!error) {
+      synced++
+    } else if (isConnectionError(error)) {
+      offline = true
+      remaining.push(submission)
+    } else {
+      console.error('Kiosk submission rejected:', error)
+      remaining.push({ ...submission, attempts: submission.attempts + 1, last_error: error.message })
+    }
+  }
+
+  // Anything queued while this sync was running goes after what's left
+  const queuedDuringSync = loadKioskQueue(propertyId).slice(queue.length)
+  saveKioskQueue(propertyId, [...remaining, ...queuedDuringSync])
+
+  return {
+    synced,
+    pending: remaining.length + queuedDuringSync.length,
+    failed: remaining.filter(submission => submission.last_error).length,
+    offline,
+  }
+}
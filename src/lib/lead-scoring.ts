@@ -0,0 +1,87 @@
+export type LeadTemperature = 'hot' | 'warm' | 'cold'
+
+export interface LeadScoringFactor {
+  key: string
+  label: string
+  options: { value: string; label: string }[]
+}
+
+// Answers the scoring engine weighs, in form order. Keys and values match
+// the check-in and feedback forms and default_lead_scoring_settings() in
+// database-lead-scoring.sql.
+export const LEAD_SCORING_FACTORS: LeadScoringFactor[] = [
+  {
+    key: 'home_buying_status',
+    label: 'Home buying status',
+    options: [
+      { value: 'actively_looking', label: 'Actively looking to buy' },
+      { value: 'working_with_realtor', label: 'Working with a realtor' },
+      { value: 'just_browsing', label: 'Just browsing' },
+    ],
+  },
+  {
+    key: 'looking_to_buy_within',
+    label: 'Looking to buy within',
+    options: [
+      { value: '0-3_months', label: '0–3 months' },
+      { value: '3-6_months', label: '3–6 months' },
+      { value: '6+_months', label: '6+ months' },
+    ],
+  },
+  {
+    key: 'budget_range',
+    label: 'Budget range',
+    options: [
+      { value: 'under_250k', label: 'Under $250,000' },
+      { value: '250k-400k', label: '$250,000–$400,000' },
+      { value: '400k-600k', label: '$400,000–$600,000' },
+      { value: '600k+', label: '$600,000+' },
+    ],
+  },
+  {
+    key: 'financing_status',
+    label: 'Pre-approved for financing',
+    options: [
+      { value: 'yes', label: 'Yes' },
+      { value: 'planning_to', label: 'Not yet, but planning to' },
+      { value: 'no', label: 'No' },
+    ],
+  },
+  {
+    key: 'would_make_offer',
+    label: 'Would consider making an offer',
+    options: [
+      { value: 'yes', label: 'Yes' },
+      { value: 'maybe', label: 'Maybe' },
+      { value: 'no', label: 'No' },
+    ],
+  },
+  {
+    key: 'meets_needs',
+    label: 'Home meets their needs',
+    options: [
+      { value: 'great_fit', label: 'Great fit' },
+      { value: 'mostly_fits', label: 'Mostly fits' },
+      { value: 'not_looking_for', label: 'Not what they\'re looking for' },
+    ],
+  },
+  {
+    key: 'perceived_value',
+    label: 'Price they think it\'s worth',
+    options: [
+      { value: 'at_or_above_price', label: 'At or above listing price' },
+      { value: 'below_price', label: 'Below listing price' },
+    ],
+  },
+  {
+    key: 'rating',
+    label: 'Rating',
+    options: ['5', '4', '3', '2', '1'].map(stars => ({ value: stars, label: `${stars} stars` })),
+  },
+]
+
+export const leadTemperatureBadge: Record<LeadTemperature, string> = {
+  hot: 'bg-red-100 text-red-800',
+  warm: 'bg-amber-100 text-amber-800',
+  cold: 'bg-blue-100 text-blue-800',
+}
@@ -0,0 +1,3 @@
+// PostgREST's error when a function doesn't exist, i.e. before the
+// migration adding it is run
+export const FUNCTION_NOT_FOUND_CODE = 'PGRST202'
@@ -0,0 +1,69 @@
+import { describe, expect, it } from 'vitest'
+import { analyzeSmsSegments } from '@/lib/sms-segments'
+
+describe('analyzeSmsSegments', () => {
+  it('counts an empty message as no segments', () => {
+    expect(analyzeSmsSegments('')).toMatchObject({
+      encoding: 'GSM-7',
+      length: 0,
+      segments: 0,
+      perSegment: 160,
+      remainingInSegment: 160,
+    })
+  })
+
+  it('fits 160 GSM-7 characters in one segment', () => {
+    expect(analyzeSmsSegments('a'.repeat(160))).toMatchObject({
+      encoding: 'GSM-7',
+      length: 160,
+      segments: 1,
+      perSegment: 160,
+      remainingInSegment: 0,
+    })
+  })
+
+  it('splits 161 GSM-7 characters into 153-character segments', () => {
+    expect(analyzeSmsSegments('a'.repeat(161))).toMatchObject({
+      segments: 2,
+      perSegment: 153,
+      remainingInSegment: 145,
+    })
+    expect(analyzeSmsSegments('a'.repeat(306))).toMatchObject({ segments: 2, remainingInSegment: 0 })
+    expect(analyzeSmsSegments('a'.repeat(307))).toMatchObject({ segments: 3 })
+  })
+
+  it('counts extension characters as two septets', () => {
+    expect(analyzeSmsSegments('€'.repeat(80))).toMatchObject({ encoding: 'GSM-7', length: 160, segments: 1 })
+    expect(analyzeSmsSegments(`${'a'.repeat(159)}€`)).toMatchObject({ length: 161, segments: 2 })
+  })
+
+  it('fits 70 UCS-2 characters in one segment', () => {
+    expect(analyzeSmsSegments(`${'a'.repeat(69)}’`)).toMatchObject({
+      encoding: 'UCS-2',
+      length: 70,
+      segments: 1,
+      perSegment: 70,
+      remainingInSegment: 0,
+      nonGsmCharacters: ['’'],
+    })
+  })
+
+  it('splits 71 UCS-2 characters into 67-character segments', () => {
+    expect(analyzeSmsSegments(`${'a'.repeat(70)}’`)).toMatchObject({
+      segments: 2,
+      perSegment: 67,
+      remainingInSegment: 63,
+    })
+    expect(analyzeSmsSegments(`${'a'.repeat(133)}’`)).toMatchObject({ segments: 2, remainingInSegment: 0 })
+    expect(analyzeSmsSegments(`${'a'.repeat(134)}’`)).toMatchObject({ segments: 3 })
+  })
+
+  it('counts an emoji as two UCS-2 units', () => {
+    expect(analyzeSmsSegments(`${'a'.repeat(68)}🏠`)).toMatchObject({ encoding: 'UCS-2', length: 70, segments: 1 })
+    expect(analyzeSmsSegments(`${'a'.repeat(69)}🏠`)).toMatchObject({ length: 71, segments: 2 })
+  })
+
+  it('lists each character that forced UCS-2 once', () => {
+    expect(analyzeSmsSegments('“Hi” “there”').nonGsmCharacters).toEqual(['“', '”'])
+  })
+})
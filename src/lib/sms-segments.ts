@@ -0,0 +1,60 @@
+// SMS segment counting (3GPP TS 23.038). A message that only uses the GSM-7
+// alphabet fits 160 characters in one segment; anything else (emoji, curly
+// quotes, most accented letters) is sent as UCS-2 with 70 per segment.
+// Multi-part messages lose room in each segment to the concatenation header.
+
+const GSM_7_BASIC =
+  '@£$¥èéùìòÇ\nØø\rÅåΔ_ΦΓΛΩΠΨΣΘΞÆæßÉ !"#¤%&\'()*+,-./0123456789:;<=>?' +
+  '¡ABCDEFGHIJKLMNOPQRSTUVWXYZÄÖÑÜ§¿abcdefghijklmnopqrstuvwxyzäöñüà'
+
+// Extension table characters take two septets (escape + character)
+const GSM_7_EXTENDED = '^{}\\[~]|€\f'
+
+export type SmsEncoding = 'GSM-7' | 'UCS-2'
+
+export interface SmsSegmentInfo {
+  encoding: SmsEncoding
+  // Length in the encoding's units: septets for GSM-7, UTF-16 code units for UCS-2
+  length: number
+  segments: number
+  perSegment: number
+  remainingInSegment: number
+  // Characters that forced UCS-2, so the editor can point them out
+  nonGsmCharacters: string[]
+}
+
+const LIMITS: Record<SmsEncoding, { single: number; multipart: number }> = {
+  'GSM-7': { single: 160, multipart: 153 },
+  'UCS-2': { single: 70, multipart: 67 },
+}
+
+export function analyzeSmsSegments(text: string): SmsSegmentInfo {
+  const nonGsmCharacters: string[] = []
+  let septets = 0
+
+  for (const char of text) {
+    if (GSM_7_BASIC.includes(char)) {
+      septets += 1
+    } else if (GSM_7_EXTENDED.includes(char)) {
+      septets += 2
+    } else if (!nonGsmCharacters.includes(char)) {
+      nonGsmCharacters.push(char)
+    }
+  }
+
+  const encoding: SmsEncoding = nonGsmCharacters.length > 0 ? 'UCS-2' : 'GSM-7'
+  const length = encoding === 'GSM-7' ? septets : text.length
+  const limits = LIMITS[encoding]
+
+  const perSegment = length <= limits.single ? limits.single : limits.multipart
+  const segments = length === 0 ? 0 : Math.ceil(length / perSegment)
+
+  return {
+    encoding,
+    length,
+    segments,
+    perSegment,
+    remainingInSegment: segments === 0 ? perSegment : segments * perSegment - length,
+    nonGsmCharacters,
+  }
+}
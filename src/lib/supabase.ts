@@ -19,13 +19,31 @@ export const createServerComponentClient = async () => {
   
   return createServerClient(supabaseUrl, supabaseAnonKey, {
     cookies: {
-      get(name: string) {
-        return cookieStore.get(name)?.value
+      getAll() {
+        return cookieStore.getAll()
+      },
+      setAll(cookiesToSet) {
+        // Server components can't set cookies. middleware.ts refreshes the
+        // session before they run, so there's nothing to save here.
+        try {
+          cookiesToSet.forEach(({ name, value, options }) => cookieStore.set(name, value, options))
+        } catch {}
       },
     },
   })
 }
 
+// Anon client that keeps no session, for checking a password on the server
+// without touching the signed-in user's own session
+export const createSessionlessClient = () => {
+  return createClient(supabaseUrl, supabaseAnonKey, {
+    auth: {
+      autoRefreshToken: false,
+      persistSession: false
+    }
+  })
+}
+
 // Service role client for admin operations
 export const createServiceRoleClient = () => {
   const serviceRoleKey = process.env.SUPABASE_SERVICE_ROLE_KEY!
@@ -0,0 +1,101 @@
+import type { SupabaseClient } from '@supabase/supabase-js'
+import {
+  renderTemplate,
+  resolveTemplateVariables,
+  templateContextFromVisitorRow,
+  TEMPLATE_CONTEXT_SELECT,
+  type TemplateContext,
+  type TemplateFormatOptions,
+  type TemplateVisitorRow,
+} from '@shared/template-variables'
+
+// Stand-in visitor used to preview templates before any real visitor is picked
+export const SAMPLE_TEMPLATE_CONTEXT: TemplateContext = {
+  visitor: {
+    name: 'Jordan Smith',
+    email: 'jordan.smith@example.com',
+    phone: '(555) 123-4567',
+    visit_date: '2025-06-15T14:00:00Z',
+    feedback_token: '00000000-0000-4000-8000-000000000000',
+  },
+  property: {
+    name: 'Maple Street Colonial',
+    address: '123 Maple Street, Springfield',
+    property_type: 'house',
+    price: 525000,
+  },
+  admin: {
+    first_name: 'Alex',
+    last_name: 'Rivera',
+    email: 'alex@example.com',
+    phone: '(555) 987-6543',
+  },
+  feedback: {
+    rating: 4,
+    comments: 'Loved the kitchen and the backyard.',
+    interested: true,
+  },
+}
+
+// The admin who owns a visitor, i.e. the owner of the property they
+// visited. Null when there's no such visitor.
+export async function getVisitorOwnerId(supabase: SupabaseClient, visitorId: string): Promise<string | null> {
+  const { data, error } = await supabase
+    .from('visitors')
+    .select('properties (admin_id)')
+    .eq('id', visitorId)
+    .maybeSingle()
+
+  if (error) throw error
+  const property = data?.properties as unknown as { admin_id: string } | null | undefined
+  return property?.admin_id ?? null
+}
+
+// Load the same visitor, property and feedback data the Edge Function uses.
+// Uses whatever client it's given, so check the admin can see the visitor first.
+export async function loadVisitorTemplateContext(
+  supabase: SupabaseClient,
+  visitorId: string,
+  admin: TemplateContext['admin']
+): Promise<TemplateContext> {
+  const { data, error } = await supabase
+    .from('visitors')
+    .select(TEMPLATE_CONTEXT_SELECT)
+    .eq('id', visitorId)
+    .single()
+
+  if (error) throw error
+  return templateContextFromVisitorRow(data as unknown as TemplateVisitorRow, admin)
+}
+
+export interface TemplatePreviewInput {
+  emailSubject?: string
+  emailHtml?: string
+  emailText?: string
+  smsContent?: string
+}
+
+export interface TemplatePreview {
+  emailSubject: string
+  emailHtml: string
+  emailText: string
+  smsContent: string
+}
+
+// Render campaign content exactly as the send-follow-up Edge Function would
+export function renderTemplatePreview(
+  input: TemplatePreviewInput,
+  context: TemplateContext = SAMPLE_TEMPLATE_CONTEXT,
+  options: TemplateFormatOptions = {}
+): TemplatePreview {
+  const variables = resolveTemplateVariables(context, options)
+
+  return {
+    emailSubject: renderTemplate(input.emailSubject || '', variables),
+    emailHtml: renderTemplate(input.emailHtml || '', variables, { html: true }),
+    emailText: input.emailText
+      ? renderTemplate(input.emailText, variables)
+      : renderTemplate((input.emailHtml || '').replace(/<[^>]*>/g, ''), variables),
+    smsContent: renderTemplate(input.smsContent || '', variables),
+  }
+}
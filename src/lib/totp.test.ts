@@ -0,0 +1,74 @@
+import { describe, expect, it } from 'vitest'
+import { base32Decode, base32Encode, totpCode, totpStep, verifyTotp } from '@/lib/totp'
+
+// The SHA-1 seed from RFC 6238 appendix B, "12345678901234567890" in base32
+const RFC_SECRET = 'GEZDGNBVGY3TQOJQGEZDGNBVGY3TQOJQ'
+
+// RFC 6238 appendix B, SHA-1 rows. The RFC prints 8 digits; authenticator
+// apps show the last 6.
+const rfcVectors: [seconds: number, code: string][] = [
+  [59, '287082'],
+  [1111111109, '081804'],
+  [1111111111, '050471'],
+  [1234567890, '005924'],
+  [2000000000, '279037'],
+  [20000000000, '353130'],
+]
+
+const at = (seconds: number) => new Date(seconds * 1000)
+
+describe('base32', () => {
+  it('matches the RFC seed', () => {
+    expect(base32Encode(Buffer.from('12345678901234567890'))).toBe(RFC_SECRET)
+    expect(base32Decode(RFC_SECRET).toString()).toBe('12345678901234567890')
+  })
+
+  it('reads secrets typed in lower case, spaced out or padded', () => {
+    expect(base32Decode('gezd gnbv-gy3t qojq====').equals(base32Decode('GEZDGNBVGY3TQOJQ'))).toBe(true)
+  })
+
+  it('rejects characters outside the alphabet', () => {
+    expect(() => base32Decode('GEZD1')).toThrow('Invalid base32 character: 1')
+  })
+})
+
+describe('totpCode', () => {
+  for (const [seconds, code] of rfcVectors) {
+    it(`gives ${code} at ${seconds}s`, () => {
+      expect(totpCode(RFC_SECRET, totpStep(at(seconds)))).toBe(code)
+    })
+  }
+})
+
+describe('verifyTotp', () => {
+  const now = at(1111111111)
+  const step = totpStep(now)
+
+  it('returns the step of the current code', () => {
+    expect(verifyTotp(RFC_SECRET, '050471', now)).toBe(step)
+  })
+
+  it('accepts the codes one step either side, for clock drift', () => {
+    expect(verifyTotp(RFC_SECRET, totpCode(RFC_SECRET, step - 1), now)).toBe(step - 1)
+    expect(verifyTotp(RFC_SECRET, totpCode(RFC_SECRET, step + 1), now)).toBe(step + 1)
+  })
+
+  it('rejects codes two steps away', () => {
+    expect(verifyTotp(RFC_SECRET, totpCode(RFC_SECRET, step - 2), now)).toBeNull()
+    expect(verifyTotp(RFC_SECRET, totpCode(RFC_SECRET, step + 2), now)).toBeNull()
+  })
+
+  it('ignores spaces in the code', () => {
+    expect(verifyTotp(RFC_SECRET, ' 050 471 ', now)).toBe(step)
+  })
+
+  it('rejects malformed codes', () => {
+    for (const code of ['', '05047', '0504710', '05047a', '050-471', '０５０４７１', '+50471', '50471.']) {
+      expect(verifyTotp(RFC_SECRET, code, now)).toBeNull()
+    }
+  })
+
+  it('rejects the right code for another secret', () => {
+    expect(verifyTotp('JBSWY3DPEHPK3PXP', '050471', now)).toBeNull()
+  })
+})
@@ -0,0 +1,191 @@
+import type { SupabaseClient } from '@supabase/supabase-js'
+import { Resend } from 'resend'
+import twilio from 'twilio'
+import {
+  createSignedToken,
+  UNSUBSCRIBE_CONFIRMATION_TOKEN_MAX_AGE_SECONDS,
+  UNSUBSCRIBE_CONFIRMATION_TOKEN_PURPOSE,
+  UNSUBSCRIBE_TOKEN_MAX_AGE_SECONDS,
+  UNSUBSCRIBE_TOKEN_PURPOSE,
+  verifySignedToken,
+} from '@shared/signed-tokens'
+import { toE164PhoneNumber } from '@/lib/utils'
+
+export type UnsubscribeType = 'email' | 'sms' | 'both'
+
+// Replies Twilio treats as an opt-out (see Twilio Advanced Opt-Out)
+const STOP_KEYWORDS = ['STOP', 'STOPALL', 'UNSUBSCRIBE', 'CANCEL', 'END', 'QUIT', 'REVOKE', 'OPTOUT']
+
+export function isStopKeyword(body: string): boolean {
+  return STOP_KEYWORDS.includes(body.trim().toUpperCase())
+}
+
+function getUnsubscribeSecret(): string {
+  const secret = process.env.UNSUBSCRIBE_SECRET
+  if (!secret) {
+    throw new Error('UNSUBSCRIBE_SECRET not configured')
+  }
+  return secret
+}
+
+// Returns the visitor id an unsubscribe link was issued for, or null
+export async function resolveUnsubscribeToken(token: string): Promise<string | null> {
+  return verifySignedToken(UNSUBSCRIBE_TOKEN_PURPOSE, token, getUnsubscribeSecret(), UNSUBSCRIBE_TOKEN_MAX_AGE_SECONDS)
+}
+
+// An opt-out entered by hand on the unsubscribe page. Nothing is recorded
+// until the owner of the address follows the link we send to it, so nobody
+// can unsubscribe someone else.
+export interface UnsubscribeConfirmation {
+  channel: 'email' | 'sms'
+  contact: string
+  reason?: string | null
+}
+
+export async function createUnsubscribeConfirmationToken(confirmation: UnsubscribeConfirmation): Promise<string> {
+  return createSignedToken(
+    UNSUBSCRIBE_CONFIRMATION_TOKEN_PURPOSE,
+    JSON.stringify(confirmation),
+    getUnsubscribeSecret()
+  )
+}
+
+export async function resolveUnsubscribeConfirmationToken(token: string): Promise<UnsubscribeConfirmation | null> {
+  const value = await verifySignedToken(
+    UNSUBSCRIBE_CONFIRMATION_TOKEN_PURPOSE,
+    token,
+    getUnsubscribeSecret(),
+    UNSUBSCRIBE_CONFIRMATION_TOKEN_MAX_AGE_SECONDS
+  )
+  if (!value) return null
+
+  try {
+    const parsed = JSON.parse(value)
+    if ((parsed.channel !== 'email' && parsed.channel !== 'sms') || typeof parsed.contact !== 'string') return null
+    return parsed
+  } catch {
+    return null
+  }
+}
+
+// Whether the unsubscribe page should send a confirmation link, per
+// request_unsubscribe_confirmation: only to contacts on file, and within the
+// per-contact and per-IP limits
+export async function requestUnsubscribeConfirmation(
+  supabase: SupabaseClient,
+  confirmation: UnsubscribeConfirmation,
+  ipAddress: string
+): Promise<'send' | 'skip' | 'rate_limited'> {
+  const { data, error } = await supabase.rpc('request_unsubscribe_confirmation', {
+    channel_param: confirmation.channel,
+    contact_param: confirmation.contact,
+    ip_param: ipAddress,
+  })
+
+  if (error) throw error
+  return data
+}
+
+// Send the confirmation link to the address itself: an email for email
+// opt-outs, a text for SMS opt-outs. Uses the same provider accounts as the
+// send-follow-up Edge Function.
+export async function sendUnsubscribeConfirmation(confirmation: UnsubscribeConfirmation, appUrl: string) {
+  const token = await createUnsubscribeConfirmationToken(confirmation)
+  const link = `${appUrl.replace(/\/$/, '')}/unsubscribe?confirm=${encodeURIComponent(token)}`
+
+  if (confirmation.channel === 'email') {
+    const apiKey = process.env.RESEND_API_KEY
+    if (!apiKey) {
+      throw new Error('RESEND_API_KEY not configured')
+    }
+
+    const { error } = await new Resend(apiKey).emails.send({
+      from: process.env.EMAIL_FROM_ADDRESS || 'noreply@resend.dev',
+      to: confirmation.contact,
+      subject: 'Confirm your unsubscribe request',
+      text: `Someone asked to stop follow-up emails to this address. If it was you, confirm here within 24 hours:\n\n${link}\n\nIf it wasn't, you can ignore this email.`,
+      html: `<p>Someone asked to stop follow-up emails to this address. If it was you, confirm within 24 hours:</p><p><a href="${link}">Confirm unsubscribe</a></p><p>If it wasn't, you can ignore this email.</p>`,
+    })
+
+    if (error) throw new Error(error.message)
+    return
+  }
+
+  const accountSid = process.env.TWILIO_ACCOUNT_SID
+  const authToken = process.env.TWILIO_AUTH_TOKEN
+  const from = process.env.TWILIO_PHONE_NUMBER
+  if (!accountSid || !authToken || !from) {
+    throw new Error('TWILIO_ACCOUNT_SID, TWILIO_AUTH_TOKEN and TWILIO_PHONE_NUMBER must be configured')
+  }
+
+  const to = toE164PhoneNumber(confirmation.contact)
+  if (!to) {
+    throw new Error(`Not a phone number: ${confirmation.contact}`)
+  }
+
+  await twilio(accountSid, authToken).messages.create({
+    from,
+    to,
+    body: `To stop follow-up texts to this number, confirm within 24 hours: ${link} (or reply STOP)`,
+  })
+}
+
+export interface UnsubscribeVisitor {
+  id: string
+  email: string
+  phone: string
+}
+
+export async function getUnsubscribeVisitor(
+  supabase: SupabaseClient,
+  visitorId: string
+): Promise<UnsubscribeVisitor | null> {
+  const { data, error } = await supabase
+    .from('visitors')
+    .select('id, email, phone')
+    .eq('id', visitorId)
+    .maybeSingle()
+
+  if (error) throw error
+  return data
+}
+
+export interface RecordUnsubscribeInput {
+  visitorId?: string | null
+  email?: string | null
+  phone?: string | null
+  unsubscribeType: UnsubscribeType
+  reason?: string | null
+}
+
+// Store an opt-out. Only the contact details for the channels being opted
+// out of are kept, so an SMS-only opt-out never blocks email.
+export async function recordUnsubscribe(supabase: SupabaseClient, input: RecordUnsubscribeInput) {
+  const includesEmail = input.unsubscribeType === 'email' || input.unsubscribeType === 'both'
+  const includesSMS = input.unsubscribeType === 'sms' || input.unsubscribeType === 'both'
+
+  const { error } = await supabase
+    .from('unsubscribes')
+    .insert({
+      visitor_id: input.visitorId || null,
+      email: includesEmail ? input.email || null : null,
+      phone: includesSMS ? input.phone || null : null,
+      unsubscribe_type: input.unsubscribeType,
+      reason: input.reason || null,
+    })
+
+  if (error) throw error
+}
+
+// Show enough of a contact for the visitor to recognise it without
+// exposing it to whoever holds the link
+export function maskEmail(email: string): string {
+  const [name, domain] = email.split('@')
+  if (!domain) return email
+  return `${name.charAt(0)}${'*'.repeat(Math.max(name.length - 1, 1))}@${domain}`
+}
+
+export function maskPhone(phone: string): string {
+  const digits = phone.replace(/\D/g, '')
+  return digits.length >= 4 ? `***-***-${digits.slice(-4)}` : phone
+}
@@ -27,6 +27,17 @@ export function formatPhoneNumber(phone: string): string {
   return phone
 }
 
+// E.164 form for sending texts, e.g. "(555) 123-4567" becomes "+15551234567".
+// Numbers without a country code are taken as US/Canada. Null when the input
+// can't be a phone number.
+export function toE164PhoneNumber(phone: string): string | null {
+  const digits = phone.replace(/\D/g, '')
+  if (digits.length === 10) return `+1${digits}`
+  if (digits.length === 11 && digits.startsWith('1')) return `+${digits}`
+  if (phone.trim().startsWith('+') && digits.length >= 8 && digits.length <= 15) return `+${digits}`
+  return null
+}
+
 // CSV export utility
 export function convertToCSV(data: any[]): string {
   if (data.length === 0) return ''
@@ -66,7 +77,7 @@ export function downloadCSV(data: any[], filename: string) {
   }
 }
 
-// Generate unique visitor feedback URL
-export function generateFeedbackUrl(visitorId: string, baseUrl: string = ''): string {
-  return `${baseUrl}/feedback?visitor=${visitorId}`
+// Generate a visitor's feedback URL from their feedback_token
+export function generateFeedbackUrl(feedbackToken: string, baseUrl: string = ''): string {
+  return `${baseUrl}/feedback?token=${feedbackToken}`
 }
@@ -1,4 +1,5 @@
 import { z } from 'zod'
+import { toE164PhoneNumber } from '@/lib/utils'
 
 // Enhanced visitor check-in form validation
 export const visitorSchema = z.object({
@@ -31,25 +32,158 @@ export const feedbackSchema = z.object({
 
 export type FeedbackFormData = z.infer<typeof feedbackSchema>
 
+// A guest confirming who they are before leaving feedback from the
+// property's feedback page: the email and phone they checked in with
+export const feedbackIdentitySchema = z.object({
+  email: z.string().email('Please enter a valid email address'),
+  phone: z.string().min(10, 'Phone number must be at least 10 digits'),
+})
+
+export type FeedbackIdentityFormData = z.infer<typeof feedbackIdentitySchema>
+
 // Admin login validation
 export const adminLoginSchema = z.object({
   email: z.string().email('Please enter a valid email address'),
   password: z.string().min(6, 'Password must be at least 6 characters'),
 })
 
-export const adminSignUpSchema = z.object({
+// New passwords, on sign-up, reset and change
+const newPasswordSchema = z.string().min(8, 'Password must be at least 8 characters')
+
+const passwordsMatch = (data: { password: string; confirmPassword: string }) =>
+  data.password === data.confirmPassword
+
+export const adminProfileSchema = z.object({
   firstName: z.string().min(1, 'First name is required'),
   lastName: z.string().min(1, 'Last name is required'),
+})
+
+// Sign-up is by team invite only, so the email comes from the invite
+export const adminSignUpSchema = adminProfileSchema.extend({
+  password: newPasswordSchema,
+  confirmPassword: z.string(),
+}).refine(passwordsMatch, {
+  message: 'Passwords do not match',
+  path: ['confirmPassword'],
+})
+
+export const adminPasswordResetRequestSchema = z.object({
   email: z.string().email('Please enter a valid email address'),
-  password: z.string().min(6, 'Password must be at least 6 characters'),
+})
+
+// currentPassword is only asked for when changing a password, not when
+// setting one from a reset link
+export const adminPasswordSchema = z.object({
+  currentPassword: z.string().optional(),
+  password: newPasswordSchema,
+  confirmPassword: z.string(),
+}).refine(passwordsMatch, {
+  message: 'Passwords do not match',
+  path: ['confirmPassword'],
+})
+
+// The admin's own mobile number, for test texts. Blank removes it.
+export const adminPhoneSchema = z.object({
+  phone: z.string().trim().refine(
+    phone => phone === '' || toE164PhoneNumber(phone) !== null,
+    'Please enter a valid phone number'
+  ),
+})
+
+// Checked by /api/admin/verify-password before a password change
+export const currentPasswordSchema = z.object({
+  currentPassword: z.string().min(1, 'Current password is required'),
 })
 
 export type AdminLoginData = z.infer<typeof adminLoginSchema>
+export type AdminProfileData = z.infer<typeof adminProfileSchema>
 export type AdminSignUpData = z.infer<typeof adminSignUpSchema>
+export type AdminPasswordResetRequestData = z.infer<typeof adminPasswordResetRequestSchema>
+export type AdminPasswordData = z.infer<typeof adminPasswordSchema>
+export type AdminPhoneData = z.infer<typeof adminPhoneSchema>
+
+// Two-factor authentication (see /api/admin/mfa)
+export const MFA_ACTIONS = ['enroll', 'activate', 'verify', 'regenerate_codes', 'disable'] as const
+export type MfaAction = typeof MFA_ACTIONS[number]
+
+// A 6-digit authenticator code, or a recovery code where those are accepted
+export const mfaCodeSchema = z.object({
+  code: z.string().trim().min(6, 'Enter the code from your authenticator app').max(20, 'That code is too long'),
+})
+
+export const mfaActionSchema = mfaCodeSchema.partial().extend({
+  action: z.enum(MFA_ACTIONS),
+})
+
+export type MfaCodeFormData = z.infer<typeof mfaCodeSchema>
+
+// What a team member can do (see database-teams.sql)
+export const TEAM_ROLES = ['owner', 'agent', 'assistant'] as const
 
-// Follow-up form validation
+export type TeamRole = typeof TEAM_ROLES[number]
+
+export const TEAM_ROLE_LABELS: Record<TeamRole, string> = {
+  owner: 'Owner',
+  agent: 'Agent',
+  assistant: 'Assistant',
+}
+
+export const TEAM_ROLE_DESCRIPTIONS: Record<TeamRole, string> = {
+  owner: 'Sees and manages every property, lead and campaign on the team, and manages members',
+  agent: 'Sees and manages only their own properties, leads and campaigns',
+  assistant: 'Runs open houses and kiosks and sends approved campaigns for the whole team, but can\'t edit or delete anything',
+}
+
+export const teamInviteSchema = z.object({
+  email: z.string().email('Please enter a valid email address'),
+  role: z.enum(TEAM_ROLES),
+})
+
+export type TeamInviteFormData = z.infer<typeof teamInviteSchema>
+
+// Audit log viewer filters. Dates are days in the admin's time zone.
+export const auditLogFiltersSchema = z.object({
+  admin_id: z.string().uuid().optional(),
+  action: z.string().optional(),
+  date_from: z.string().optional(),
+  date_to: z.string().optional(),
+  // Part of the property or campaign name
+  search: z.string().max(200, 'Search too long').optional(),
+}).refine(data => !data.date_from || !data.date_to || data.date_from <= data.date_to, {
+  message: 'End date must be on or after the start date',
+  path: ['date_to'],
+})
+
+export type AuditLogFilters = z.infer<typeof auditLogFiltersSchema>
+
+// Where a visitor stands with the agent, in pipeline order
+export const PIPELINE_STAGES = ['new', 'contacted', 'showing_scheduled', 'offer_made', 'closed', 'lost'] as const
+
+export type PipelineStage = typeof PIPELINE_STAGES[number]
+
+export const PIPELINE_STAGE_LABELS: Record<PipelineStage, string> = {
+  new: 'New',
+  contacted: 'Contacted',
+  showing_scheduled: 'Showing Scheduled',
+  offer_made: 'Offer Made',
+  closed: 'Closed',
+  lost: 'Lost',
+}
+
+export const CALL_OUTCOMES = ['connected', 'left_voicemail', 'no_answer', 'wrong_number'] as const
+
+// Follow-up form validation: a note, or a call the agent made
 export const followupSchema = z.object({
-  notes: z.string().optional(),
+  activity_type: z.enum(['note', 'call']),
+  notes: z.string().max(5000, 'Notes must be under 5000 characters').optional(),
+  call_outcome: z.enum(CALL_OUTCOMES).optional(),
+  call_duration_minutes: z.number().int().min(0, 'Duration must be 0 or more').max(600, 'Duration must be under 10 hours').optional(),
+}).refine(data => data.activity_type === 'call' || !!data.notes?.trim(), {
+  message: 'Please enter a note',
+  path: ['notes'],
+}).refine(data => data.activity_type === 'note' || !!data.call_outcome, {
+  message: 'Please select how the call went',
+  path: ['call_outcome'],
 })
 
 export type FollowupFormData = z.infer<typeof followupSchema>
@@ -68,3 +202,40 @@ export const propertySchema = z.object({
 })
 
 export type PropertyFormData = z.infer<typeof propertySchema>
+
+// Open house session scheduling. Times come from datetime-local inputs.
+export const propertySessionSchema = z.object({
+  start_time: z.string().min(1, 'Start time is required'),
+  end_time: z.string().min(1, 'End time is required'),
+  notes: z.string().max(500, 'Notes must be less than 500 characters').optional(),
+}).refine(data => new Date(data.end_time) > new Date(data.start_time), {
+  message: 'End time must be after the start time',
+  path: ['end_time'],
+})
+
+export type PropertySessionFormData = z.infer<typeof propertySessionSchema>
+
+// PIN an agent sets to lock a tablet into kiosk mode
+export const kioskPinSchema = z.object({
+  pin: z.string().regex(/^\d{4,8}$/, 'PIN must be 4 to 8 digits'),
+  confirm_pin: z.string(),
+}).refine(data => data.pin === data.confirm_pin, {
+  message: 'PINs do not match',
+  path: ['confirm_pin'],
+})
+
+export type KioskPinFormData = z.infer<typeof kioskPinSchema>
+
+// Lead scoring weights (points per answer, by field) and thresholds
+export const leadScoringSettingsSchema = z.object({
+  weights: z.record(z.record(
+    z.number({ invalid_type_error: 'Enter a number of points' }).int('Points must be whole numbers').min(-100, 'Points must be between -100 and 100').max(100, 'Points must be between -100 and 100')
+  )),
+  hot_threshold: z.number({ invalid_type_error: 'Enter a score' }).int(),
+  warm_threshold: z.number({ invalid_type_error: 'Enter a score' }).int(),
+}).refine(data => data.warm_threshold < data.hot_threshold, {
+  message: 'Warm threshold must be below the hot threshold',
+  path: ['warm_threshold'],
+})
+
+export type LeadScoringSettingsFormData = z.infer<typeof leadScoringSettingsSchema>
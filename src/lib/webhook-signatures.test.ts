@@ -0,0 +1,105 @@
+import { describe, expect, it } from 'vitest'
+import { verifyResendSignature, verifyTwilioSignature } from '@/lib/webhook-signatures'
+import resendDelivered from '@/lib/__fixtures__/resend-email-delivered.json'
+import twilioUndelivered from '@/lib/__fixtures__/twilio-status-undelivered.json'
+
+// Saved deliveries, signed with the test secrets stored alongside them
+const resendInput = {
+  payload: resendDelivered.payload,
+  svixId: resendDelivered.headers['svix-id'],
+  svixTimestamp: resendDelivered.headers['svix-timestamp'],
+  svixSignature: resendDelivered.headers['svix-signature'],
+  secret: resendDelivered.secret,
+  now: new Date('2025-03-02T10:01:00Z'),
+}
+
+describe('verifyResendSignature', () => {
+  it('accepts a saved Resend delivery', () => {
+    expect(verifyResendSignature(resendInput)).toBe(true)
+  })
+
+  it('matches the example in the Svix docs', () => {
+    expect(verifyResendSignature({
+      payload: '{"test": 2432232314}',
+      svixId: 'msg_p5jXN8AQM9LWM0D4loKWxJek',
+      svixTimestamp: '1614265330',
+      svixSignature: 'v1,g0hM9SsE+OTPJTGt/tmIKtSyZlE3uFJELVlNIOLJ1OE=',
+      secret: 'whsec_MfKQ9r8GKYqrTwjUPD8ILPZIo2LaLaSw',
+      now: new Date(1614265330 * 1000),
+    })).toBe(true)
+  })
+
+  it('rejects a payload changed after signing', () => {
+    const payload = resendInput.payload.replace('email.delivered', 'email.clicked')
+    expect(verifyResendSignature({ ...resendInput, payload })).toBe(false)
+  })
+
+  it('rejects a signature for another message id', () => {
+    expect(verifyResendSignature({ ...resendInput, svixId: 'msg_someone_else' })).toBe(false)
+  })
+
+  it('rejects the wrong secret', () => {
+    expect(verifyResendSignature({ ...resendInput, secret: 'whsec_MfKQ9r8GKYqrTwjUPD8ILPZIo2LaLaSw' })).toBe(false)
+  })
+
+  it('rejects deliveries more than five minutes old or early', () => {
+    expect(verifyResendSignature({ ...resendInput, now: new Date('2025-03-02T10:05:05Z') })).toBe(true)
+    expect(verifyResendSignature({ ...resendInput, now: new Date('2025-03-02T10:05:06Z') })).toBe(false)
+    expect(verifyResendSignature({ ...resendInput, now: new Date('2025-03-02T09:55:04Z') })).toBe(false)
+  })
+
+  it('accepts any of several signatures during secret rotation', () => {
+    const svixSignature = `v1,bm90IHRoZSByaWdodCBzaWduYXR1cmU= ${resendInput.svixSignature}`
+    expect(verifyResendSignature({ ...resendInput, svixSignature })).toBe(true)
+  })
+
+  it('rejects missing headers and malformed values', () => {
+    expect(verifyResendSignature({ ...resendInput, svixId: null })).toBe(false)
+    expect(verifyResendSignature({ ...resendInput, svixTimestamp: null })).toBe(false)
+    expect(verifyResendSignature({ ...resendInput, svixSignature: null })).toBe(false)
+    expect(verifyResendSignature({ ...resendInput, svixTimestamp: 'yesterday' })).toBe(false)
+    expect(verifyResendSignature({ ...resendInput, svixSignature: 'v1' })).toBe(false)
+  })
+})
+
+describe('verifyTwilioSignature', () => {
+  const twilioInput = {
+    url: twilioUndelivered.url,
+    params: twilioUndelivered.params as Record<string, string>,
+    signature: twilioUndelivered.signature,
+    authToken: twilioUndelivered.authToken,
+  }
+
+  it('accepts a saved Twilio status callback', () => {
+    expect(verifyTwilioSignature(twilioInput)).toBe(true)
+  })
+
+  it('matches the example in the Twilio docs', () => {
+    expect(verifyTwilioSignature({
+      url: 'https://mycompany.com/myapp.php?foo=1&bar=2',
+      params: {
+        CallSid: 'CA1234567890ABCDE',
+        Caller: '+12349013030',
+        Digits: '1234',
+        From: '+12349013030',
+        To: '+18005551212',
+      },
+      signature: '0/KCTR6DLpKmkAf8muzZqo1nDgQ=',
+      authToken: '12345',
+    })).toBe(true)
+  })
+
+  it('rejects changed parameters', () => {
+    const params = { ...twilioInput.params, MessageStatus: 'delivered' }
+    expect(verifyTwilioSignature({ ...twilioInput, params })).toBe(false)
+  })
+
+  it('rejects a callback signed for another URL', () => {
+    expect(verifyTwilioSignature({ ...twilioInput, url: 'http://localhost:3000/api/webhooks/twilio/status' })).toBe(false)
+  })
+
+  it('rejects the wrong auth token or a missing signature', () => {
+    expect(verifyTwilioSignature({ ...twilioInput, authToken: 'fedcba9876543210fedcba9876543210' })).toBe(false)
+    expect(verifyTwilioSignature({ ...twilioInput, signature: null })).toBe(false)
+  })
+})
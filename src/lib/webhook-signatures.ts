@@ -0,0 +1,78 @@
+import { createHmac, timingSafeEqual } from 'crypto'
+
+// Resend signs webhooks with Svix. Reject deliveries older than this to
+// limit replay of captured requests.
+const RESEND_TIMESTAMP_TOLERANCE_SECONDS = 5 * 60
+
+function safeEqual(a: string, b: string): boolean {
+  const bufferA = Buffer.from(a)
+  const bufferB = Buffer.from(b)
+  return bufferA.length === bufferB.length && timingSafeEqual(bufferA, bufferB)
+}
+
+export interface ResendSignatureInput {
+  payload: string
+  svixId: string | null
+  svixTimestamp: string | null
+  svixSignature: string | null
+  secret: string
+  now?: Date
+}
+
+// Verify a Resend (Svix) webhook. The secret is the "whsec_..." signing
+// secret from the Resend dashboard; svix-signature may hold several
+// space-separated "v1,<base64>" signatures during secret rotation.
+export function verifyResendSignature({
+  payload,
+  svixId,
+  svixTimestamp,
+  svixSignature,
+  secret,
+  now = new Date(),
+}: ResendSignatureInput): boolean {
+  if (!svixId || !svixTimestamp || !svixSignature) return false
+
+  const timestamp = Number(svixTimestamp)
+  if (!Number.isFinite(timestamp)) return false
+  if (Math.abs(now.getTime() / 1000 - timestamp) > RESEND_TIMESTAMP_TOLERANCE_SECONDS) return false
+
+  const key = Buffer.from(secret.replace(/^whsec_/, ''), 'base64')
+  const expected = createHmac('sha256', key)
+    .update(`${svixId}.${svixTimestamp}.${payload}`)
+    .digest('base64')
+
+  return svixSignature
+    .split(' ')
+    .map(entry => entry.split(',')[1])
+    .some(signature => signature !== undefined && safeEqual(signature, expected))
+}
+
+export interface TwilioSignatureInput {
+  url: string
+  params: Record<string, string>
+  signature: string | null
+  authToken: string
+}
+
+// Verify an X-Twilio-Signature header: HMAC-SHA1 of the full callback URL
+// followed by every POST parameter (sorted by name) as name+value.
+export function verifyTwilioSignature({ url, params, signature, authToken }: TwilioSignatureInput): boolean {
+  if (!signature) return false
+
+  const data = Object.keys(params)
+    .sort()
+    .reduce((acc, key) => acc + key + params[key], url)
+
+  const expected = createHmac('sha1', authToken).update(data).digest('base64')
+  return safeEqual(signature, expected)
+}
+
+// Twilio signs the public URL it called, which can differ from request.url
+// behind a proxy. Prefer APP_URL when it is configured.
+export function publicWebhookUrl(requestUrl: string): string {
+  const appUrl = process.env.APP_URL
+  if (!appUrl) return requestUrl
+
+  const { pathname, search } = new URL(requestUrl)
+  return `${appUrl.replace(/\/$/, '')}${pathname}${search}`
+}
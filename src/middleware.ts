@@ -0,0 +1,41 @@
+import { NextResponse, type NextRequest } from 'next/server'
+import { createServerClient } from '@supabase/ssr'
+import { adminRedirectPath, getAdminAccess, hasSessionCookie } from '@/lib/admin-session'
+
+// Guards every admin page on the server before it renders. Also refreshes the
+// Supabase session cookies, which server components can't write themselves.
+export async function middleware(request: NextRequest) {
+  let response = NextResponse.next({ request })
+
+  const supabase = createServerClient(
+    process.env.NEXT_PUBLIC_SUPABASE_URL!,
+    process.env.NEXT_PUBLIC_SUPABASE_ANON_KEY!,
+    {
+      cookies: {
+        getAll() {
+          return request.cookies.getAll()
+        },
+        setAll(cookiesToSet) {
+          cookiesToSet.forEach(({ name, value }) => request.cookies.set(name, value))
+          response = NextResponse.next({ request })
+          cookiesToSet.forEach(({ name, value, options }) => response.cookies.set(name, value, options))
+        },
+      },
+    }
+  )
+
+  const hadSession = hasSessionCookie(request.cookies.getAll().map(cookie => cookie.name))
+  const access = await getAdminAccess(supabase, hadSession)
+  const redirectPath = adminRedirectPath(request.nextUrl.pathname, request.nextUrl.search, access)
+
+  if (!redirectPath) return response
+
+  // Keep any cookies Supabase refreshed or cleared on the way out
+  const redirect = NextResponse.redirect(new URL(redirectPath, request.url))
+  response.cookies.getAll().forEach(cookie => redirect.cookies.set(cookie))
+  return redirect
+}
+
+export const config = {
+  matcher: ['/admin/:path*'],
+}
@@ -0,0 +1,56 @@
+// Open and click tracking for outgoing follow-up emails. Shared by the send
+// pipeline, which rewrites the HTML, and the Next.js /api/track routes, which
+// read the signed values back (imported there as @shared/email-tracking).
+
+export interface ClickTarget {
+  logId: string
+  url: string
+}
+
+// Only absolute web links are tracked; mailto:, tel: and anchors are left alone
+const LINK_PATTERN = /(<a\b[^>]*?\bhref\s*=\s*)(["'])(https?:\/\/[^"']+)\2/gi
+
+function decodeHtmlAttribute(value: string): string {
+  return value
+    .replace(/&quot;/g, '"')
+    .replace(/&#39;/g, "'")
+    .replace(/&lt;/g, '<')
+    .replace(/&gt;/g, '>')
+    .replace(/&amp;/g, '&')
+}
+
+// The value signed into a click token. Log ids never contain a space.
+export function formatClickTarget(target: ClickTarget): string {
+  return `${target.logId} ${target.url}`
+}
+
+export function parseClickTarget(value: string): ClickTarget | null {
+  const separator = value.indexOf(' ')
+  if (separator === -1) return null
+  return { logId: value.slice(0, separator), url: value.slice(separator + 1) }
+}
+
+// Point every link at its tracked URL and add the open pixel. Run this before
+// the unsubscribe footer is added so that link stays direct.
+export async function addEmailTracking(
+  html: string,
+  trackedLinkUrl: (url: string) => Promise<string>,
+  openPixelUrl: string
+): Promise<string> {
+  const links = Array.from(new Set(Array.from(html.matchAll(LINK_PATTERN), match => match[3])))
+
+  const trackedUrls = new Map<string, string>()
+  for (const link of links) {
+    trackedUrls.set(link, await trackedLinkUrl(decodeHtmlAttribute(link)))
+  }
+
+  const rewritten = html.replace(LINK_PATTERN, (_match, prefix: string, quote: string, link: string) =>
+    `${prefix}${quote}${trackedUrls.get(link) || link}${quote}`
+  )
+
+  const pixel = `<img src="${openPixelUrl}" width="1" height="1" alt="" style="display:block;width:1px;height:1px;border:0" />`
+
+  return rewritten.includes('</body>')
+    ? rewritten.replace('</body>', `${pixel}</body>`)
+    : rewritten + pixel
+}
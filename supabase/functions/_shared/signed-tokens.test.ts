@@ -0,0 +1,50 @@
+import { describe, expect, it } from 'vitest'
+import {
+  CLICK_TRACKING_TOKEN_PURPOSE,
+  createSignedToken,
+  UNSUBSCRIBE_TOKEN_PURPOSE,
+  verifySignedToken,
+} from './signed-tokens'
+
+const secret = 'test-unsubscribe-secret'
+const issued = new Date('2025-03-02T10:00:00Z')
+const DAY_SECONDS = 24 * 60 * 60
+const later = (seconds: number) => new Date(issued.getTime() + seconds * 1000)
+
+describe('signed tokens', () => {
+  it('round-trips the value until the token expires', async () => {
+    const token = await createSignedToken(UNSUBSCRIBE_TOKEN_PURPOSE, 'visitor-1', secret, issued)
+
+    expect(await verifySignedToken(UNSUBSCRIBE_TOKEN_PURPOSE, token, secret, DAY_SECONDS, later(DAY_SECONDS))).toBe('visitor-1')
+    expect(await verifySignedToken(UNSUBSCRIBE_TOKEN_PURPOSE, token, secret, DAY_SECONDS, later(DAY_SECONDS + 1))).toBeNull()
+  })
+
+  it('rejects tokens issued in the future', async () => {
+    const token = await createSignedToken(UNSUBSCRIBE_TOKEN_PURPOSE, 'visitor-1', secret, later(600))
+    expect(await verifySignedToken(UNSUBSCRIBE_TOKEN_PURPOSE, token, secret, DAY_SECONDS, issued)).toBeNull()
+  })
+
+  it('rejects a token for another purpose or secret', async () => {
+    const token = await createSignedToken(UNSUBSCRIBE_TOKEN_PURPOSE, 'visitor-1', secret, issued)
+
+    expect(await verifySignedToken(CLICK_TRACKING_TOKEN_PURPOSE, token, secret, DAY_SECONDS, issued)).toBeNull()
+    expect(await verifySignedToken(UNSUBSCRIBE_TOKEN_PURPOSE, token, 'another-secret', DAY_SECONDS, issued)).toBeNull()
+  })
+
+  it('rejects a token whose issue time was moved forward', async () => {
+    const token = await createSignedToken(UNSUBSCRIBE_TOKEN_PURPOSE, 'visitor-1', secret, issued)
+    const [value, issuedAt, signature] = token.split('.')
+    const extended = [value, Number(issuedAt) + DAY_SECONDS, signature].join('.')
+
+    expect(await verifySignedToken(UNSUBSCRIBE_TOKEN_PURPOSE, extended, secret, DAY_SECONDS, later(DAY_SECONDS + 1))).toBeNull()
+  })
+
+  it('rejects malformed and pre-expiry tokens', async () => {
+    const token = await createSignedToken(UNSUBSCRIBE_TOKEN_PURPOSE, 'visitor-1', secret, issued)
+    const [value, , signature] = token.split('.')
+
+    for (const malformed of ['', 'abc', `${value}.${signature}`, `${value}.soon.${signature}`, `${token}.extra`]) {
+      expect(await verifySignedToken(UNSUBSCRIBE_TOKEN_PURPOSE, malformed, secret, DAY_SECONDS, issued)).toBeNull()
+    }
+  })
+})
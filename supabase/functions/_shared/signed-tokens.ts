@@ -0,0 +1,100 @@
+// Signed tokens for links we put in outgoing messages (unsubscribe, tracking).
+// Uses only Web Crypto so the same file runs in the Deno Edge Functions and in
+// the Next.js API routes (imported there as @shared/signed-tokens).
+//
+// Format: base64url(value) + "." + issuedAt + "." +
+//   base64url(HMAC-SHA256(secret, purpose + ":" + issuedAt + ":" + value))
+// issuedAt is in Unix seconds. The purpose stops a token minted for one kind
+// of link being replayed on another, and each purpose has a maximum age.
+
+const encoder = new TextEncoder()
+
+function toBase64Url(bytes: Uint8Array): string {
+  let binary = ''
+  bytes.forEach(byte => {
+    binary += String.fromCharCode(byte)
+  })
+  return btoa(binary).replace(/\+/g, '-').replace(/\//g, '_').replace(/=+$/, '')
+}
+
+function fromBase64Url(value: string): Uint8Array {
+  const base64 = value.replace(/-/g, '+').replace(/_/g, '/')
+  const binary = atob(base64 + '='.repeat((4 - (base64.length % 4)) % 4))
+  return Uint8Array.from(binary, char => char.charCodeAt(0))
+}
+
+async function sign(purpose: string, issuedAt: number, value: string, secret: string): Promise<string> {
+  const key = await crypto.subtle.importKey(
+    'raw',
+    encoder.encode(secret),
+    { name: 'HMAC', hash: 'SHA-256' },
+    false,
+    ['sign']
+  )
+  const signature = await crypto.subtle.sign('HMAC', key, encoder.encode(`${purpose}:${issuedAt}:${value}`))
+  return toBase64Url(new Uint8Array(signature))
+}
+
+function constantTimeEqual(a: string, b: string): boolean {
+  if (a.length !== b.length) return false
+  let diff = 0
+  for (let i = 0; i < a.length; i++) {
+    diff |= a.charCodeAt(i) ^ b.charCodeAt(i)
+  }
+  return diff === 0
+}
+
+export async function createSignedToken(
+  purpose: string,
+  value: string,
+  secret: string,
+  now: Date = new Date()
+): Promise<string> {
+  const issuedAt = Math.floor(now.getTime() / 1000)
+  const encodedValue = toBase64Url(encoder.encode(value))
+  return `${encodedValue}.${issuedAt}.${await sign(purpose, issuedAt, value, secret)}`
+}
+
+// Returns the signed value, or null if the token is malformed, was not
+// signed with this secret for this purpose, or is older than maxAgeSeconds.
+export async function verifySignedToken(
+  purpose: string,
+  token: string,
+  secret: string,
+  maxAgeSeconds: number,
+  now: Date = new Date()
+): Promise<string | null> {
+  const [encodedValue, issuedAtPart, signature, ...rest] = token.split('.')
+  if (!encodedValue || !issuedAtPart || !signature || rest.length > 0) return null
+
+  const issuedAt = Number(issuedAtPart)
+  if (!/^\d+$/.test(issuedAtPart) || !Number.isSafeInteger(issuedAt)) return null
+
+  const age = now.getTime() / 1000 - issuedAt
+  // A little allowance for clock skew between the Edge Function and the app
+  if (age > maxAgeSeconds || age < -60) return null
+
+  let value: string
+  try {
+    value = new TextDecoder().decode(fromBase64Url(encodedValue))
+  } catch {
+    return null
+  }
+
+  const expected = await sign(purpose, issuedAt, value, secret)
+  return constantTimeEqual(signature, expected) ? value : null
+}
+
+export const UNSUBSCRIBE_TOKEN_PURPOSE = 'unsubscribe'
+export const OPEN_TRACKING_TOKEN_PURPOSE = 'open'
+export const CLICK_TRACKING_TOKEN_PURPOSE = 'click'
+// Sent to a contact entered by hand on the unsubscribe page
+export const UNSUBSCRIBE_CONFIRMATION_TOKEN_PURPOSE = 'unsubscribe-confirmation'
+
+const DAY_SECONDS = 24 * 60 * 60
+
+// Unsubscribe links must keep working for at least 30 days after a message
+// is sent (CAN-SPAM); an expired link falls back to the manual form
+export const UNSUBSCRIBE_TOKEN_MAX_AGE_SECONDS = 90 * DAY_SECONDS
+export const TRACKING_TOKEN_MAX_AGE_SECONDS = 365 * DAY_SECONDS
+export const UNSUBSCRIBE_CONFIRMATION_TOKEN_MAX_AGE_SECONDS = DAY_SECONDS
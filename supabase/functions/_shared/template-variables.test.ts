@@ -0,0 +1,134 @@
+import { describe, expect, it } from 'vitest'
+import {
+  AVAILABLE_TEMPLATE_VARIABLES,
+  renderTemplate,
+  resolveTemplateVariables,
+  templateContextFromVisitorRow,
+  type TemplateContext,
+  type TemplateFormatOptions,
+} from './template-variables'
+
+const context: TemplateContext = {
+  visitor: {
+    name: 'Jamie Rivera',
+    email: 'jamie@example.com',
+    phone: '555-123-4567',
+    visit_date: '2025-03-02T02:30:00Z',
+    feedback_token: 'tok_abc123',
+  },
+  property: {
+    name: 'Maple House',
+    address: '12 Maple Street, Springfield',
+    property_type: 'single_family',
+    price: '450000',
+  },
+  admin: {
+    first_name: 'Pat',
+    last_name: 'Lee',
+    email: 'pat@realty.example.com',
+    phone: '555-987-6543',
+  },
+  feedback: {
+    rating: 4,
+    comments: 'Loved the kitchen',
+    interested: true,
+  },
+}
+
+const options: TemplateFormatOptions = {
+  timeZone: 'America/New_York',
+  appUrl: 'https://openhouse.example.com/',
+}
+
+// Every documented variable with a full context, and with nothing to fill it
+const cases: Record<string, { filled: string; missing: Partial<TemplateContext> }> = {
+  visitor_name: { filled: 'Jamie Rivera', missing: { visitor: { ...context.visitor, name: '' } } },
+  visitor_email: { filled: 'jamie@example.com', missing: { visitor: { ...context.visitor, email: null } } },
+  visitor_phone: { filled: '555-123-4567', missing: { visitor: { ...context.visitor, phone: null } } },
+  property_name: { filled: 'Maple House', missing: { property: null } },
+  property_address: { filled: '12 Maple Street, Springfield', missing: { property: null } },
+  property_type: { filled: 'single family', missing: { property: { ...context.property!, property_type: null } } },
+  property_price: { filled: '$450,000', missing: { property: { ...context.property!, price: null } } },
+  admin_name: { filled: 'Pat Lee', missing: { admin: null } },
+  admin_email: { filled: 'pat@realty.example.com', missing: { admin: null } },
+  admin_phone: { filled: '555-987-6543', missing: { admin: { ...context.admin!, phone: null } } },
+  // 02:30 UTC is still the evening before in New York
+  visit_date: { filled: 'Saturday, March 1, 2025', missing: { visitor: { ...context.visitor, visit_date: null } } },
+  feedback_rating: { filled: '4/5', missing: { feedback: null } },
+  feedback_comments: { filled: 'Loved the kitchen', missing: { feedback: null } },
+  interested: { filled: 'Yes', missing: { feedback: null } },
+  feedback_link: {
+    filled: 'https://openhouse.example.com/feedback?token=tok_abc123',
+    missing: { visitor: { ...context.visitor, feedback_token: null } },
+  },
+}
+
+describe('resolveTemplateVariables', () => {
+  it('covers every documented variable', () => {
+    expect(Object.keys(cases).sort()).toEqual([...AVAILABLE_TEMPLATE_VARIABLES].sort())
+  })
+
+  for (const [name, { filled, missing }] of Object.entries(cases)) {
+    it(`renders {{${name}}}, or nothing when it is missing`, () => {
+      const template = `[{{${name}}}]`
+      expect(renderTemplate(template, resolveTemplateVariables(context, options))).toBe(`[${filled}]`)
+      expect(renderTemplate(template, resolveTemplateVariables({ ...context, ...missing }, options))).toBe('[]')
+    })
+  }
+
+  it('answers interested with No, and leaves it empty before feedback says either way', () => {
+    const notInterested = { ...context, feedback: { ...context.feedback!, interested: false } }
+    const unanswered = { ...context, feedback: { ...context.feedback!, interested: null } }
+
+    expect(resolveTemplateVariables(notInterested).interested).toBe('No')
+    expect(resolveTemplateVariables(unanswered).interested).toBe('')
+  })
+
+  it('leaves an unparseable price or visit date empty', () => {
+    const variables = resolveTemplateVariables({
+      ...context,
+      visitor: { ...context.visitor, visit_date: 'not a date' },
+      property: { ...context.property!, price: 'call for price' },
+    })
+
+    expect(variables.visit_date).toBe('')
+    expect(variables.property_price).toBe('')
+  })
+})
+
+describe('templateContextFromVisitorRow', () => {
+  it('uses the latest feedback', () => {
+    const built = templateContextFromVisitorRow({
+      ...context.visitor,
+      properties: context.property,
+      feedback: [
+        { rating: 2, comments: 'First visit', interested: false, created_at: '2025-03-01T10:00:00Z' },
+        { rating: 5, comments: 'Came back', interested: true, created_at: '2025-03-05T10:00:00Z' },
+      ],
+    }, context.admin)
+
+    expect(built.feedback).toEqual({ rating: 5, comments: 'Came back', interested: true })
+  })
+})
+
+describe('renderTemplate', () => {
+  const variables = resolveTemplateVariables({
+    ...context,
+    visitor: { ...context.visitor, name: '<script>alert("hi")</script>' },
+    feedback: { ...context.feedback!, comments: `Tom & Jerry's "favourite"` },
+  })
+
+  it('escapes values rendered into HTML', () => {
+    expect(renderTemplate('<p>{{visitor_name}}: {{feedback_comments}}</p>', variables, { html: true })).toBe(
+      '<p>&lt;script&gt;alert(&quot;hi&quot;)&lt;/script&gt;: Tom &amp; Jerry&#39;s &quot;favourite&quot;</p>'
+    )
+  })
+
+  it('leaves values as written in plain text', () => {
+    expect(renderTemplate('{{ visitor_name }}', variables)).toBe('<script>alert("hi")</script>')
+  })
+
+  it('leaves unknown placeholders as written', () => {
+    expect(renderTemplate('Hi {{first_name}}, {{visitor_email}}', variables)).toBe('Hi {{first_name}}, jamie@example.com')
+  })
+})
@@ -0,0 +1,208 @@
+// Resolves and renders the {{variables}} available in follow-up templates.
+// Shared by the send-follow-up Edge Function and the dashboard preview
+// (imported there as @shared/template-variables) so a preview shows exactly
+// what will be sent.
+
+export const AVAILABLE_TEMPLATE_VARIABLES = [
+  'visitor_name',
+  'visitor_email',
+  'visitor_phone',
+  'property_name',
+  'property_address',
+  'property_type',
+  'property_price',
+  'admin_name',
+  'admin_email',
+  'admin_phone',
+  'visit_date',
+  'feedback_rating',
+  'feedback_comments',
+  'interested',
+  'feedback_link',
+] as const
+
+export type TemplateVariable = typeof AVAILABLE_TEMPLATE_VARIABLES[number]
+
+export type TemplateVariables = Record<TemplateVariable, string>
+
+export interface TemplateContext {
+  visitor: {
+    name: string
+    email: string | null
+    phone: string | null
+    visit_date: string | null
+    feedback_token: string | null
+  }
+  property: {
+    name: string
+    address: string
+    property_type: string | null
+    price: number | string | null
+  } | null
+  admin: {
+    first_name?: string | null
+    last_name?: string | null
+    email: string | null
+    phone?: string | null
+  } | null
+  feedback: {
+    rating: number | null
+    comments: string | null
+    interested: boolean | null
+  } | null
+}
+
+export interface TemplateFormatOptions {
+  locale?: string
+  currency?: string
+  // IANA time zone for visit_date. Defaults to the runtime's zone, which is
+  // UTC on Supabase and Vercel.
+  timeZone?: string
+  // Where the app is hosted, for links back to it (APP_URL)
+  appUrl?: string
+}
+
+// Columns to select from visitors for templateContextFromVisitorRow
+export const TEMPLATE_CONTEXT_SELECT = `
+  name,
+  email,
+  phone,
+  visit_date,
+  feedback_token,
+  properties (name, address, property_type, price),
+  feedback (rating, comments, interested, created_at)
+`
+
+export interface TemplateVisitorRow {
+  name: string
+  email: string | null
+  phone: string | null
+  visit_date: string | null
+  feedback_token: string | null
+  properties: TemplateContext['property']
+  feedback: (NonNullable<TemplateContext['feedback']> & { created_at: string })[] | null
+}
+
+// Build a context from a visitors row selected with TEMPLATE_CONTEXT_SELECT.
+// A visitor can leave feedback more than once; the latest is used.
+export function templateContextFromVisitorRow(
+  row: TemplateVisitorRow,
+  admin: TemplateContext['admin']
+): TemplateContext {
+  const latestFeedback = [...(row.feedback || [])]
+    .sort((a, b) => b.created_at.localeCompare(a.created_at))[0]
+
+  return {
+    visitor: {
+      name: row.name,
+      email: row.email,
+      phone: row.phone,
+      visit_date: row.visit_date,
+      feedback_token: row.feedback_token,
+    },
+    property: row.properties,
+    admin,
+    feedback: latestFeedback
+      ? { rating: latestFeedback.rating, comments: latestFeedback.comments, interested: latestFeedback.interested }
+      : null,
+  }
+}
+
+export function formatPropertyPrice(price: number | string | null | undefined, options: TemplateFormatOptions = {}): string {
+  if (price === null || price === undefined || price === '') return ''
+  const amount = Number(price)
+  if (!Number.isFinite(amount)) return ''
+
+  return new Intl.NumberFormat(options.locale || 'en-US', {
+    style: 'currency',
+    currency: options.currency || 'USD',
+    maximumFractionDigits: 0,
+  }).format(amount)
+}
+
+export function formatVisitDate(visitDate: string | null | undefined, options: TemplateFormatOptions = {}): string {
+  if (!visitDate) return ''
+  const date = new Date(visitDate)
+  if (Number.isNaN(date.getTime())) return ''
+
+  return date.toLocaleDateString(options.locale || 'en-US', {
+    weekday: 'long',
+    month: 'long',
+    day: 'numeric',
+    year: 'numeric',
+    timeZone: options.timeZone,
+  })
+}
+
+export function formatPropertyType(propertyType: string | null | undefined): string {
+  return propertyType ? propertyType.replace(/_/g, ' ') : ''
+}
+
+export function formatFeedbackRating(rating: number | null | undefined): string {
+  return rating ? `${rating}/5` : ''
+}
+
+// Only meaningful once the visitor has left feedback
+export function formatInterested(feedback: TemplateContext['feedback']): string {
+  if (!feedback || feedback.interested === null) return ''
+  return feedback.interested ? 'Yes' : 'No'
+}
+
+// The visitor's own feedback page; the token works once and expires (see
+// database-feedback-links.sql)
+export function formatFeedbackLink(feedbackToken: string | null | undefined, appUrl: string = ''): string {
+  if (!feedbackToken) return ''
+  return `${appUrl.replace(/\/$/, '')}/feedback?token=${feedbackToken}`
+}
+
+export function formatAdminName(admin: TemplateContext['admin']): string {
+  if (!admin) return ''
+  return [admin.first_name, admin.last_name].filter(Boolean).join(' ')
+}
+
+export function resolveTemplateVariables(
+  context: TemplateContext,
+  options: TemplateFormatOptions = {}
+): TemplateVariables {
+  return {
+    visitor_name: context.visitor.name || '',
+    visitor_email: context.visitor.email || '',
+    visitor_phone: context.visitor.phone || '',
+    property_name: context.property?.name || '',
+    property_address: context.property?.address || '',
+    property_type: formatPropertyType(context.property?.property_type),
+    property_price: formatPropertyPrice(context.property?.price, options),
+    admin_name: formatAdminName(context.admin),
+    admin_email: context.admin?.email || '',
+    admin_phone: context.admin?.phone || '',
+    visit_date: formatVisitDate(context.visitor.visit_date, options),
+    feedback_rating: formatFeedbackRating(context.feedback?.rating),
+    feedback_comments: context.feedback?.comments || '',
+    interested: formatInterested(context.feedback),
+    feedback_link: formatFeedbackLink(context.visitor.feedback_token, options.appUrl),
+  }
+}
+
+function escapeHtml(value: string): string {
+  return value
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;')
+    .replace(/'/g, '&#39;')
+}
+
+// Replace {{variable}} placeholders. Values are HTML-escaped when rendering
+// into HTML, since some (feedback_comments, visitor_name) are visitor input.
+// Unknown placeholders are left as written.
+export function renderTemplate(
+  template: string,
+  variables: TemplateVariables,
+  { html = false }: { html?: boolean } = {}
+): string {
+  return template.replace(/\{\{\s*([^}]+?)\s*\}\}/g, (placeholder, name: string) => {
+    if (!(name in variables)) return placeholder
+    const value = variables[name as TemplateVariable]
+    return html ? escapeHtml(value) : value
+  })
+}
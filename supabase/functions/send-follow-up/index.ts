@@ -9,11 +9,39 @@ declare global {
       get(key: string): string | undefined;
     };
   }
+  // Supabase keeps the function alive for promises passed to waitUntil
+  // after the response has been sent
+  const EdgeRuntime: {
+    waitUntil(promise: Promise<unknown>): void;
+  };
 }
 
 import { serve } from "https://deno.land/std@0.168.0/http/server.ts"
 // @deno-types="https://esm.sh/@supabase/supabase-js@2/dist/module/index.d.ts"
 import { createClient } from 'https://esm.sh/@supabase/supabase-js@2'
+import {
+  CLICK_TRACKING_TOKEN_PURPOSE,
+  createSignedToken,
+  OPEN_TRACKING_TOKEN_PURPOSE,
+  UNSUBSCRIBE_TOKEN_PURPOSE,
+} from '../_shared/signed-tokens.ts'
+import { addEmailTracking, formatClickTarget } from '../_shared/email-tracking.ts'
+import {
+  renderTemplate,
+  resolveTemplateVariables,
+  templateContextFromVisitorRow,
+  TEMPLATE_CONTEXT_SELECT,
+  type TemplateVariables,
+} from '../_shared/template-variables.ts'
+import {
+  resolveMessagingProviders,
+  type MessagingProviders,
+  type MessagingSettings,
+  type OutgoingEmail,
+  type OutgoingSMS,
+  type SendResult,
+} from './providers.ts'
+import { enqueueMessage, processQueue } from './queue.ts'
 
 const corsHeaders = {
   'Access-Control-Allow-Origin': '*',
@@ -25,6 +53,17 @@ interface SendFollowUpRequest {
   visitorIds?: string[]
   propertyId?: string
   messageType?: 'email' | 'sms' | 'both'
+  stepId?: string
+}
+
+interface TestSendRequest {
+  adminId: string
+  campaignId?: string
+  channel: 'email' | 'sms'
+  subject?: string
+  html?: string
+  text?: string
+  sms?: string
 }
 
 interface VisitorData {
@@ -53,166 +92,405 @@ interface Campaign {
 
 interface Admin {
   id: string
-  name: string
+  first_name: string
+  last_name: string
   email: string
-  phone: string
+  phone: string | null
+}
+
+// Resolve every template variable for one visitor from their visitor,
+// property and latest feedback rows
+async function loadTemplateVariables(
+  supabase: any,
+  visitorId: string,
+  admin: Admin
+): Promise<TemplateVariables> {
+  const { data, error } = await supabase
+    .from('visitors')
+    .select(TEMPLATE_CONTEXT_SELECT)
+    .eq('id', visitorId)
+    .single()
+
+  if (error) throw error
+
+  return resolveTemplateVariables(
+    templateContextFromVisitorRow(data, admin),
+    { timeZone: Deno.env.get('APP_TIME_ZONE') || undefined, appUrl: Deno.env.get('APP_URL') || undefined }
+  )
+}
+
+interface UnsubscribeLinks {
+  pageUrl: string
+  oneClickUrl?: string
+}
+
+// Signed per-visitor links to the /unsubscribe page and the RFC 8058
+// one-click endpoint. Every email must carry them, so missing config is an error.
+// Test sends have no visitor and get the plain unsubscribe page.
+async function buildUnsubscribeLinks(visitorId: string | null): Promise<UnsubscribeLinks> {
+  const appUrl = Deno.env.get('APP_URL')
+  const unsubscribeSecret = Deno.env.get('UNSUBSCRIBE_SECRET')
+  if (!appUrl || !unsubscribeSecret) {
+    throw new Error('APP_URL and UNSUBSCRIBE_SECRET must be configured to send email')
+  }
+
+  if (!visitorId) {
+    return { pageUrl: `${appUrl.replace(/\/$/, '')}/unsubscribe` }
+  }
+
+  const token = encodeURIComponent(await createSignedToken(UNSUBSCRIBE_TOKEN_PURPOSE, visitorId, unsubscribeSecret))
+  const baseUrl = appUrl.replace(/\/$/, '')
+
+  return {
+    pageUrl: `${baseUrl}/unsubscribe?token=${token}`,
+    oneClickUrl: `${baseUrl}/api/unsubscribe/one-click?token=${token}`,
+  }
 }
 
-// Template variable replacement
-function replaceTemplateVariables(template: string, variables: Record<string, string>): string {
-  let result = template
-  for (const [key, value] of Object.entries(variables)) {
-    const regex = new RegExp(`{{${key}}}`, 'g')
-    result = result.replace(regex, value || '')
+// Send links through the /api/track/click redirect and add an open pixel,
+// both recorded against the message's log row
+async function addTrackingToEmail(htmlContent: string, logId: string): Promise<string> {
+  const appUrl = Deno.env.get('APP_URL')
+  const trackingSecret = Deno.env.get('UNSUBSCRIBE_SECRET')
+  if (!appUrl || !trackingSecret) {
+    throw new Error('APP_URL and UNSUBSCRIBE_SECRET must be configured to send email')
   }
-  return result
+
+  const baseUrl = appUrl.replace(/\/$/, '')
+  const openToken = await createSignedToken(OPEN_TRACKING_TOKEN_PURPOSE, logId, trackingSecret)
+
+  return addEmailTracking(
+    htmlContent,
+    async url => {
+      const token = await createSignedToken(CLICK_TRACKING_TOKEN_PURPOSE, formatClickTarget({ logId, url }), trackingSecret)
+      return `${baseUrl}/api/track/click?token=${encodeURIComponent(token)}`
+    },
+    `${baseUrl}/api/track/open?token=${encodeURIComponent(openToken)}`
+  )
 }
 
-// Send email using Resend
-async function sendEmail(
+// Check a single channel against the unsubscribes table
+async function isUnsubscribed(
+  supabase: any,
+  visitor: VisitorData,
+  channel: 'email' | 'sms'
+): Promise<boolean> {
+  const { data, error } = await supabase
+    .rpc('is_unsubscribed', {
+      email_param: visitor.visitor_email,
+      phone_param: visitor.visitor_phone,
+      channel_param: channel,
+    })
+
+  if (error) throw error
+  return data === true
+}
+
+// Add the unsubscribe footer and, for visitor emails, the RFC 8058
+// List-Unsubscribe headers. Applies whichever provider sends the message.
+function buildOutgoingEmail(
   to: string,
   subject: string,
   htmlContent: string,
   textContent: string,
-  fromName: string = 'Open House Team'
-): Promise<{ success: boolean; messageId?: string; error?: string }> {
-  try {
-    const resendApiKey = Deno.env.get('RESEND_API_KEY')
-    if (!resendApiKey) {
-      throw new Error('RESEND_API_KEY not configured')
-    }
-
-    const response = await fetch('https://api.resend.com/emails', {
-      method: 'POST',
+  unsubscribe: UnsubscribeLinks,
+  settings: MessagingSettings,
+  fromName: string | null
+): OutgoingEmail {
+  const unsubscribeFooterHtml = `<p style="font-size:12px;color:#6b7280;margin-top:24px">Don't want these emails? <a href="${unsubscribe.pageUrl}">Unsubscribe</a></p>`
+
+  return {
+    to,
+    fromName: fromName || settings.from_name || 'Open House Team',
+    fromEmail: settings.from_email || '',
+    replyTo: settings.reply_to_email,
+    subject,
+    html: htmlContent.includes('</body>')
+      ? htmlContent.replace('</body>', `${unsubscribeFooterHtml}</body>`)
+      : htmlContent + unsubscribeFooterHtml,
+    text: `${textContent}\n\nUnsubscribe: ${unsubscribe.pageUrl}`,
+    ...(unsubscribe.oneClickUrl && {
       headers: {
-        'Authorization': `Bearer ${resendApiKey}`,
-        'Content-Type': 'application/json',
+        'List-Unsubscribe': `<${unsubscribe.oneClickUrl}>`,
+        'List-Unsubscribe-Post': 'List-Unsubscribe=One-Click',
       },
-      body: JSON.stringify({
-        from: `${fromName} <noreply@resend.dev>`, // Update this to your verified domain
-        to: [to],
-        subject: subject,
-        html: htmlContent,
-        text: textContent,
-      }),
-    })
+    }),
+  }
+}
 
-    const data = await response.json() as any
+// Resolve the visitor's property_id when the RPC row doesn't carry a usable one
+async function resolvePropertyId(supabase: any, visitor: VisitorData): Promise<string | null> {
+  if (visitor.property_id && !(typeof visitor.property_id === 'string' && visitor.property_id.length < 30)) {
+    return visitor.property_id
+  }
 
-    if (!response.ok) {
-      console.error('Resend API error:', data)
-      throw new Error(data.message || data.error || 'Failed to send email')
-    }
+  const { data: visitorData } = await supabase
+    .from('visitors')
+    .select('property_id')
+    .eq('id', visitor.visitor_id)
+    .single()
 
-    return {
-      success: true,
-      messageId: data.id,
-    }
-  } catch (error) {
-    console.error('Email send error:', error)
-    return {
-      success: false,
-      error: error.message,
-    }
-  }
+  return visitorData?.property_id || null
 }
 
-// Send SMS using Twilio
-async function sendSMS(
-  to: string,
-  message: string
-): Promise<{ success: boolean; messageId?: string; error?: string }> {
+// Every visit of the people behind visitorIds. get_eligible_visitors keeps
+// only each person's latest qualifying visit, so filtering it on an older
+// visit the admin picked would drop that person without a word.
+async function expandToContactVisits(supabase: any, visitorIds: string[]): Promise<string[]> {
+  const { data: selected, error } = await supabase
+    .from('visitors')
+    .select('contact_id')
+    .in('id', visitorIds)
+    .not('contact_id', 'is', null)
+
+  if (error) throw error
+
+  const contactIds = [...new Set((selected || []).map((row: { contact_id: string }) => row.contact_id))]
+  if (contactIds.length === 0) return visitorIds
+
+  const { data: visits, error: visitsError } = await supabase
+    .from('visitors')
+    .select('id')
+    .in('contact_id', contactIds)
+
+  if (visitsError) throw visitsError
+
+  return [...new Set([...visitorIds, ...(visits || []).map((row: { id: string }) => row.id)])]
+}
+
+// Deliver a test message to the requesting admin only. Test sends are logged
+// to follow_up_test_sends so they never affect eligibility or analytics.
+async function handleTestSend(supabase: any, test: TestSendRequest): Promise<Response> {
+  const { data: admin, error: adminError } = await supabase
+    .from('admins')
+    .select('id, email, phone')
+    .eq('id', test.adminId)
+    .single()
+
+  if (adminError || !admin) {
+    throw new Error('Admin not found')
+  }
+
+  const recipient = test.channel === 'email' ? admin.email : admin.phone
+  if (!recipient) {
+    throw new Error(`No ${test.channel === 'email' ? 'email address' : 'phone number'} on this admin account`)
+  }
+
+  const providers = await resolveMessagingProviders(supabase, admin.id)
+
+  let result: SendResult
   try {
-    const twilioAccountSid = Deno.env.get('TWILIO_ACCOUNT_SID')
-    const twilioAuthToken = Deno.env.get('TWILIO_AUTH_TOKEN')
-    const twilioPhoneNumber = Deno.env.get('TWILIO_PHONE_NUMBER')
+    result = test.channel === 'email'
+      ? await providers.email.sendEmail(buildOutgoingEmail(
+        recipient,
+        `[Test] ${test.subject || ''}`,
+        test.html || '',
+        test.text || '',
+        await buildUnsubscribeLinks(null),
+        providers.settings,
+        null
+      ))
+      : await providers.sms.sendSMS({ to: recipient, body: test.sms || '', from: providers.settings.sms_from_number })
+  } catch (error) {
+    result = { success: false, error: error.message }
+  }
 
-    if (!twilioAccountSid || !twilioAuthToken || !twilioPhoneNumber) {
-      throw new Error('Twilio credentials not configured')
+  const { error: logError } = await supabase
+    .from('follow_up_test_sends')
+    .insert({
+      admin_id: admin.id,
+      campaign_id: test.campaignId || null,
+      message_type: test.channel,
+      recipient,
+      subject: test.channel === 'email' ? test.subject : null,
+      message_content: test.channel === 'email' ? test.html : test.sms,
+      status: result.success ? 'sent' : 'failed',
+      provider: test.channel === 'email' ? providers.email.name : providers.sms.name,
+      external_id: result.messageId || null,
+      error_message: result.error || null,
+    })
+
+  if (logError) {
+    console.error('Error logging test send:', logError)
+  }
+
+  return new Response(
+    JSON.stringify({ success: result.success, recipient, error: result.error }),
+    {
+      headers: { ...corsHeaders, 'Content-Type': 'application/json' },
+      status: 200
     }
+  )
+}
+
+interface QueueBatchContext {
+  batchId: string
+  campaignId: string
+  campaign: any
+  step: { step_order: number } | null
+  stepId?: string
+  messageType?: 'email' | 'sms' | 'both'
+  admin: Admin
+  providers: MessagingProviders
+}
+
+// Render and queue each visitor's messages, then record the totals on the
+// batch. Runs after the response has gone back, so a large send never holds
+// up the request; workers send the queued messages.
+async function queueBatch(
+  supabaseClient: any,
+  visitors: VisitorData[],
+  { batchId, campaignId, campaign, step, stepId, messageType, admin, providers }: QueueBatchContext
+) {
+  const results = {
+    queued: 0,
+    failed: 0,
+    skipped: 0,
+    errors: [] as string[]
+  }
+
+  for (const visitor of visitors) {
+    const failedBefore = results.failed
 
-    // Format phone number (ensure it starts with +1 for US numbers)
-    let formattedPhone = to.replace(/\D/g, '')
-    if (formattedPhone.length === 10) {
-      formattedPhone = '+1' + formattedPhone
-    } else if (formattedPhone.length === 11 && formattedPhone.startsWith('1')) {
-      formattedPhone = '+' + formattedPhone
-    } else if (!formattedPhone.startsWith('+')) {
-      formattedPhone = '+' + formattedPhone
+    let templateVariables: TemplateVariables
+    try {
+      templateVariables = await loadTemplateVariables(supabaseClient, visitor.visitor_id, admin)
+    } catch (error) {
+      results.failed++
+      results.errors.push(`Visitor ${visitor.visitor_id}: ${error.message}`)
+      continue
     }
 
-    const auth = btoa(`${twilioAccountSid}:${twilioAuthToken}`)
-    
-    const response = await fetch(
-      `https://api.twilio.com/2010-04-01/Accounts/${twilioAccountSid}/Messages.json`,
-      {
-        method: 'POST',
-        headers: {
-          'Authorization': `Basic ${auth}`,
-          'Content-Type': 'application/x-www-form-urlencoded',
-        },
-        body: new URLSearchParams({
-          From: twilioPhoneNumber,
-          To: formattedPhone,
-          Body: message,
-        }),
-      }
-    )
+    const effectiveMessageType = messageType || campaign.message_type
+    const actualPropertyId = await resolvePropertyId(supabaseClient, visitor)
+
+    const queueMessage = async (
+      channel: 'email' | 'sms',
+      recipient: string,
+      fields: { logId?: string; subject: string | null; messageContent: string; provider: string; payload: OutgoingEmail | OutgoingSMS }
+    ) => {
+      try {
+        const queuedLogId = await enqueueMessage(supabaseClient, {
+          batchId,
+          visitorId: visitor.visitor_id,
+          campaignId,
+          propertyId: actualPropertyId,
+          adminId: campaign.admin_id,
+          channel,
+          recipientEmail: channel === 'email' ? recipient : null,
+          recipientPhone: channel === 'sms' ? recipient : null,
+          stepOrder: step?.step_order ?? null,
+          stepId: stepId || null,
+          ...fields,
+        })
 
-    const data = await response.json()
+        if (queuedLogId) {
+          results.queued++
+        } else {
+          // Already claimed by an earlier or overlapping run
+          results.skipped++
+        }
+      } catch (error) {
+        results.failed++
+        results.errors.push(`${channel === 'email' ? 'Email' : 'SMS'} to ${recipient}: ${error.message}`)
+      }
+    }
 
-    if (!response.ok) {
-      throw new Error(data.message || 'Failed to send SMS')
+    // Queue email
+    if (effectiveMessageType === 'email' || effectiveMessageType === 'both') {
+      if (visitor.visitor_email && await isUnsubscribed(supabaseClient, visitor, 'email')) {
+        results.skipped++
+      } else if (visitor.visitor_email) {
+        const subject = renderTemplate(campaign.email_subject || '', templateVariables)
+        const htmlContent = renderTemplate(campaign.email_template || '', templateVariables, { html: true })
+        const textContent = campaign.email_templates?.text_content
+          ? renderTemplate(campaign.email_templates.text_content, templateVariables)
+          : renderTemplate((campaign.email_template || '').replace(/<[^>]*>/g, ''), templateVariables) // Simple HTML to text conversion
+
+        try {
+          // The log id is chosen up front so tracked links can carry it
+          const logId = crypto.randomUUID()
+          const sentHtml = campaign.tracking_enabled === false
+            ? htmlContent
+            : await addTrackingToEmail(htmlContent, logId)
+
+          await queueMessage('email', visitor.visitor_email, {
+            logId,
+            subject,
+            messageContent: htmlContent,
+            provider: providers.email.name,
+            payload: buildOutgoingEmail(
+              visitor.visitor_email,
+              subject,
+              sentHtml,
+              textContent,
+              await buildUnsubscribeLinks(visitor.visitor_id),
+              providers.settings,
+              campaign.email_from_name
+            ),
+          })
+        } catch (error) {
+          results.failed++
+          results.errors.push(`Email to ${visitor.visitor_email}: ${error.message}`)
+        }
+      }
     }
 
-    return {
-      success: true,
-      messageId: data.sid,
+    // Queue SMS
+    if (effectiveMessageType === 'sms' || effectiveMessageType === 'both') {
+      if (visitor.visitor_phone && campaign.sms_template && await isUnsubscribed(supabaseClient, visitor, 'sms')) {
+        results.skipped++
+      } else if (visitor.visitor_phone && campaign.sms_template) {
+        const smsContent = renderTemplate(campaign.sms_template, templateVariables)
+
+        await queueMessage('sms', visitor.visitor_phone, {
+          subject: null,
+          messageContent: smsContent,
+          provider: providers.sms.name,
+          payload: {
+            to: visitor.visitor_phone,
+            body: smsContent,
+            from: providers.settings.sms_from_number,
+          },
+        })
+      }
     }
-  } catch (error) {
-    console.error('SMS send error:', error)
-    return {
-      success: false,
-      error: error.message,
+
+    // Once a step is queued the visitor moves on to the next one; the
+    // queue retries the send itself
+    if (step && results.failed === failedBefore) {
+      const { error: advanceError } = await supabaseClient
+        .rpc('advance_enrollment', {
+          campaign_id_param: campaignId,
+          visitor_id_param: visitor.visitor_id,
+          step_order_param: step.step_order,
+        })
+
+      if (advanceError) {
+        console.error('Failed to advance enrollment:', advanceError)
+      }
     }
   }
-}
 
-// Log follow-up message
-async function logFollowUp(
-  supabase: any,
-  visitorId: string,
-  campaignId: string,
-  propertyId: string,
-  adminId: string,
-  messageType: string,
-  recipientEmail: string | null,
-  recipientPhone: string | null,
-  subject: string | null,
-  messageContent: string,
-  status: string,
-  externalId: string | null,
-  errorMessage: string | null
-) {
-  const { error } = await supabase
-    .from('follow_up_logs')
-    .insert({
-      visitor_id: visitorId,
-      campaign_id: campaignId,
-      property_id: propertyId,
-      admin_id: adminId,
-      message_type: messageType,
-      recipient_email: recipientEmail,
-      recipient_phone: recipientPhone,
-      subject: subject,
-      message_content: messageContent,
-      status: status,
-      external_id: externalId,
-      error_message: errorMessage,
+  const { error: batchError } = await supabaseClient
+    .from('follow_up_batches')
+    .update({
+      queued_count: results.queued,
+      failed_count: results.failed,
+      skipped_count: results.skipped,
+      errors: results.errors,
+      enqueued_at: new Date().toISOString(),
     })
+    .eq('id', batchId)
 
-  if (error) {
-    console.error('Failed to log follow-up:', error)
+  if (batchError) {
+    console.error('Failed to mark batch as queued:', batchError)
+  }
+
+  // Start sending straight away rather than waiting for the next
+  // scheduled queue run
+  if (results.queued > 0) {
+    await processQueue(supabaseClient)
   }
 }
 
@@ -228,7 +506,26 @@ serve(async (req) => {
       Deno.env.get('SUPABASE_SERVICE_ROLE_KEY') ?? ''
     )
 
-    const { campaignId, visitorIds, propertyId, messageType }: SendFollowUpRequest = await req.json()
+    const body = await req.json()
+
+    if (body.test) {
+      return await handleTestSend(supabaseClient, body.test as TestSendRequest)
+    }
+
+    // Scheduled queue run: pick up retries and anything left over from
+    // earlier workers, in the background
+    if (body.processQueue) {
+      EdgeRuntime.waitUntil(processQueue(supabaseClient))
+      return new Response(
+        JSON.stringify({ success: true }),
+        {
+          headers: { ...corsHeaders, 'Content-Type': 'application/json' },
+          status: 202
+        }
+      )
+    }
+
+    const { campaignId, visitorIds, propertyId, messageType, stepId }: SendFollowUpRequest = body
 
     if (!campaignId) {
       throw new Error('Campaign ID is required')
@@ -237,7 +534,11 @@ serve(async (req) => {
     // Get campaign details
     const { data: campaign, error: campaignError } = await supabaseClient
       .from('follow_up_campaigns')
-      .select('*')
+      .select(`
+        *,
+        email_templates (subject, html_content, text_content),
+        sms_templates (content)
+      `)
       .eq('id', campaignId)
       .single()
 
@@ -245,6 +546,41 @@ serve(async (req) => {
       throw new Error('Campaign not found')
     }
 
+    // Campaigns that reference a saved template send its current content
+    if (campaign.email_templates) {
+      campaign.email_subject = campaign.email_templates.subject
+      campaign.email_template = campaign.email_templates.html_content
+    }
+    if (campaign.sms_templates) {
+      campaign.sms_template = campaign.sms_templates.content
+    }
+
+    // A drip sequence step replaces the campaign's channel and content
+    let step: { step_order: number } | null = null
+    if (stepId) {
+      const { data, error } = await supabaseClient
+        .from('campaign_steps')
+        .select(`
+          *,
+          email_templates (subject, html_content, text_content),
+          sms_templates (content)
+        `)
+        .eq('id', stepId)
+        .eq('campaign_id', campaignId)
+        .single()
+
+      if (error || !data) {
+        throw new Error('Campaign step not found')
+      }
+
+      step = data
+      campaign.message_type = data.message_type
+      campaign.email_subject = data.email_templates?.subject ?? data.email_subject
+      campaign.email_template = data.email_templates?.html_content ?? data.email_template
+      campaign.email_templates = data.email_templates
+      campaign.sms_template = data.sms_templates?.content ?? data.sms_template
+    }
+
     // Get admin details
     const { data: admin, error: adminError } = await supabaseClient
       .from('admins')
@@ -256,32 +592,35 @@ serve(async (req) => {
       throw new Error('Admin not found')
     }
 
-    // Get eligible visitors
-    let visitors: VisitorData[]
-    
-    if (visitorIds && visitorIds.length > 0) {
-      // Manual selection - get specific visitors
-      const { data, error } = await supabaseClient
-        .rpc('get_eligible_visitors', {
+    const providers = await resolveMessagingProviders(supabaseClient, admin.id)
+
+    // Get eligible visitors (for a sequence step, the enrolled visitors
+    // whose next step it is)
+    let visitorsQuery = stepId
+      ? supabaseClient
+        .rpc('get_sequence_step_visitors', {
           campaign_id_param: campaignId,
-          property_id_param: propertyId
+          step_id_param: stepId
         })
-        .in('visitor_id', visitorIds)
-
-      if (error) throw error
-      visitors = data || []
-    } else {
-      // Automatic - get all eligible visitors
-      const { data, error } = await supabaseClient
+      : supabaseClient
         .rpc('get_eligible_visitors', {
           campaign_id_param: campaignId,
           property_id_param: propertyId
         })
 
-      if (error) throw error
-      visitors = data || []
+    if (visitorIds && visitorIds.length > 0) {
+      // Manual selection - get specific visitors. Outside a sequence each
+      // selected visit stands for its person, who is sent to once.
+      visitorsQuery = visitorsQuery.in(
+        'visitor_id',
+        stepId ? visitorIds : await expandToContactVisits(supabaseClient, visitorIds)
+      )
     }
 
+    const { data: visitorsData, error: visitorsError } = await visitorsQuery
+    if (visitorsError) throw visitorsError
+    const visitors: VisitorData[] = visitorsData || []
+
     // Debug logging to see what we're getting
     console.log('Visitors data received:', JSON.stringify(visitors, null, 2))
 
@@ -290,7 +629,7 @@ serve(async (req) => {
         JSON.stringify({ 
           success: true, 
           message: 'No eligible visitors found',
-          sent: 0 
+          visitors: 0
         }),
         { 
           headers: { ...corsHeaders, 'Content-Type': 'application/json' },
@@ -299,130 +638,41 @@ serve(async (req) => {
       )
     }
 
-    const results = {
-      sent: 0,
-      failed: 0,
-      errors: [] as string[]
-    }
-
-    // Process each visitor
-    for (const visitor of visitors) {
-      const templateVariables = {
-        visitor_name: visitor.visitor_name,
-        property_name: visitor.property_name,
-        property_address: visitor.property_address,
-        admin_name: admin.name,
-        admin_email: admin.email,
-        admin_phone: admin.phone,
-      }
-
-      const effectiveMessageType = messageType || campaign.message_type
-
-      // Send email
-      if (effectiveMessageType === 'email' || effectiveMessageType === 'both') {
-        if (visitor.visitor_email) {
-          const subject = replaceTemplateVariables(campaign.email_subject || '', templateVariables)
-          const htmlContent = replaceTemplateVariables(campaign.email_template || '', templateVariables)
-          const textContent = htmlContent.replace(/<[^>]*>/g, '') // Simple HTML to text conversion
-
-          const emailResult = await sendEmail(
-            visitor.visitor_email,
-            subject,
-            htmlContent,
-            textContent,
-            campaign.email_from_name
-          )
-
-          // Get the actual property_id if visitor.property_id is not a valid UUID
-          let actualPropertyId = visitor.property_id
-          if (!visitor.property_id || typeof visitor.property_id === 'string' && visitor.property_id.length < 30) {
-            // Fallback: get property_id from visitor record
-            const { data: visitorData } = await supabaseClient
-              .from('visitors')
-              .select('property_id')
-              .eq('id', visitor.visitor_id)
-              .single()
-            actualPropertyId = visitorData?.property_id || null
-          }
-
-          await logFollowUp(
-            supabaseClient,
-            visitor.visitor_id,
-            campaignId,
-            actualPropertyId,
-            campaign.admin_id,
-            'email',
-            visitor.visitor_email,
-            null,
-            subject,
-            htmlContent,
-            emailResult.success ? 'sent' : 'failed',
-            emailResult.messageId || null,
-            emailResult.error || null
-          )
-
-          if (emailResult.success) {
-            results.sent++
-          } else {
-            results.failed++
-            results.errors.push(`Email to ${visitor.visitor_email}: ${emailResult.error}`)
-          }
-        }
-      }
+    // One batch per send, so the dashboard can follow its progress
+    const { data: batch, error: batchError } = await supabaseClient
+      .from('follow_up_batches')
+      .insert({
+        campaign_id: campaignId,
+        admin_id: campaign.admin_id,
+        step_order: step?.step_order ?? null,
+        visitor_count: visitors.length,
+      })
+      .select('id')
+      .single()
 
-      // Send SMS
-      if (effectiveMessageType === 'sms' || effectiveMessageType === 'both') {
-        if (visitor.visitor_phone && campaign.sms_template) {
-          const smsContent = replaceTemplateVariables(campaign.sms_template, templateVariables)
-
-          const smsResult = await sendSMS(visitor.visitor_phone, smsContent)
-
-          // Get the actual property_id if visitor.property_id is not a valid UUID
-          let actualPropertyId = visitor.property_id
-          if (!visitor.property_id || typeof visitor.property_id === 'string' && visitor.property_id.length < 30) {
-            // Fallback: get property_id from visitor record
-            const { data: visitorData } = await supabaseClient
-              .from('visitors')
-              .select('property_id')
-              .eq('id', visitor.visitor_id)
-              .single()
-            actualPropertyId = visitorData?.property_id || null
-          }
-
-          await logFollowUp(
-            supabaseClient,
-            visitor.visitor_id,
-            campaignId,
-            actualPropertyId,
-            campaign.admin_id,
-            'sms',
-            null,
-            visitor.visitor_phone,
-            null,
-            smsContent,
-            smsResult.success ? 'sent' : 'failed',
-            smsResult.messageId || null,
-            smsResult.error || null
-          )
-
-          if (smsResult.success) {
-            results.sent++
-          } else {
-            results.failed++
-            results.errors.push(`SMS to ${visitor.visitor_phone}: ${smsResult.error}`)
-          }
-        }
-      }
-    }
+    if (batchError) throw batchError
+
+    // Queueing every visitor can take longer than the caller waits, so it
+    // carries on in the background; SendProgress follows the batch
+    EdgeRuntime.waitUntil(
+      queueBatch(supabaseClient, visitors, {
+        batchId: batch.id,
+        campaignId,
+        campaign,
+        step,
+        stepId,
+        messageType,
+        admin,
+        providers,
+      }).catch(error => console.error(`Failed to queue batch ${batch.id}:`, error))
+    )
 
     return new Response(
       JSON.stringify({
         success: true,
-        message: `Follow-up messages processed`,
-        sent: results.sent,
-        failed: results.failed,
-        errors: results.errors,
-        visitorsProcessed: visitors.length
+        message: `Queueing messages for ${visitors.length} visitors`,
+        batchId: batch.id,
+        visitors: visitors.length
       }),
       { 
         headers: { ...corsHeaders, 'Content-Type': 'application/json' },
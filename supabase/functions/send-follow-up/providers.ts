@@ -0,0 +1,339 @@
+// Messaging providers for the send-follow-up Edge Function. Each adapter
+// delivers one already-rendered message; which adapters an admin uses comes
+// from their admin_messaging_settings row.
+
+import { SMTPClient } from 'https://deno.land/x/denomailer@1.6.0/mod.ts'
+
+export type EmailProviderName = 'resend' | 'smtp' | 'sandbox'
+export type SMSProviderName = 'twilio' | 'sandbox'
+
+export interface SendResult {
+  success: boolean
+  messageId?: string
+  error?: string
+  // Set on failures worth another attempt: rate limiting, provider outages
+  // and network errors. Rejected messages and missing config are not.
+  retryable?: boolean
+}
+
+export interface OutgoingEmail {
+  to: string
+  fromName: string
+  fromEmail: string
+  replyTo?: string | null
+  subject: string
+  html: string
+  text: string
+  headers?: Record<string, string>
+}
+
+export interface OutgoingSMS {
+  to: string
+  body: string
+  from?: string | null
+}
+
+export interface EmailProvider {
+  readonly name: EmailProviderName
+  sendEmail(email: OutgoingEmail): Promise<SendResult>
+}
+
+export interface SMSProvider {
+  readonly name: SMSProviderName
+  sendSMS(sms: OutgoingSMS): Promise<SendResult>
+}
+
+export interface MessagingSettings {
+  email_provider: EmailProviderName
+  sms_provider: SMSProviderName
+  from_email: string | null
+  from_name: string | null
+  reply_to_email: string | null
+  sms_from_number: string | null
+}
+
+export interface MessagingProviders {
+  email: EmailProvider
+  sms: SMSProvider
+  settings: MessagingSettings
+}
+
+// Used before an admin has saved any settings
+const DEFAULT_FROM_EMAIL = 'noreply@resend.dev'
+
+// Format phone number (ensure it starts with +1 for US numbers)
+export function formatPhoneNumber(phone: string): string {
+  let formattedPhone = phone.replace(/\D/g, '')
+  if (formattedPhone.length === 10) {
+    formattedPhone = '+1' + formattedPhone
+  } else if (formattedPhone.length === 11 && formattedPhone.startsWith('1')) {
+    formattedPhone = '+' + formattedPhone
+  } else if (!formattedPhone.startsWith('+')) {
+    formattedPhone = '+' + formattedPhone
+  }
+  return formattedPhone
+}
+
+function formatFrom(email: OutgoingEmail): string {
+  return `${email.fromName} <${email.fromEmail}>`
+}
+
+function isRetryableStatus(status: number): boolean {
+  return status === 429 || status >= 500
+}
+
+export function createResendProvider(apiKey: string | undefined): EmailProvider {
+  return {
+    name: 'resend',
+    async sendEmail(email) {
+      try {
+        if (!apiKey) {
+          return { success: false, error: 'RESEND_API_KEY not configured' }
+        }
+
+        const response = await fetch('https://api.resend.com/emails', {
+          method: 'POST',
+          headers: {
+            'Authorization': `Bearer ${apiKey}`,
+            'Content-Type': 'application/json',
+          },
+          body: JSON.stringify({
+            from: formatFrom(email),
+            to: [email.to],
+            subject: email.subject,
+            html: email.html,
+            text: email.text,
+            ...(email.replyTo && { reply_to: email.replyTo }),
+            ...(email.headers && { headers: email.headers }),
+          }),
+        })
+
+        const data = await response.json() as any
+
+        if (!response.ok) {
+          console.error('Resend API error:', data)
+          return {
+            success: false,
+            error: data.message || data.error || 'Failed to send email',
+            retryable: isRetryableStatus(response.status),
+          }
+        }
+
+        return { success: true, messageId: data.id }
+      } catch (error) {
+        console.error('Email send error:', error)
+        return { success: false, error: error.message, retryable: true }
+      }
+    },
+  }
+}
+
+interface SmtpConfig {
+  host?: string
+  port: number
+  username?: string
+  password?: string
+}
+
+// Supabase blocks outbound ports 25 and 587, so SMTP uses implicit TLS (465)
+export function createSmtpProvider(config: SmtpConfig): EmailProvider {
+  return {
+    name: 'smtp',
+    async sendEmail(email) {
+      if (!config.host || !config.username || !config.password) {
+        return { success: false, error: 'SMTP_HOST, SMTP_USERNAME and SMTP_PASSWORD must be configured' }
+      }
+
+      const client = new SMTPClient({
+        connection: {
+          hostname: config.host,
+          port: config.port,
+          tls: true,
+          auth: { username: config.username, password: config.password },
+        },
+      })
+
+      try {
+        const messageId = `<${crypto.randomUUID()}@${email.fromEmail.split('@')[1] || config.host}>`
+
+        await client.send({
+          from: formatFrom(email),
+          to: email.to,
+          replyTo: email.replyTo || undefined,
+          subject: email.subject,
+          content: email.text,
+          html: email.html,
+          headers: { 'Message-ID': messageId, ...email.headers },
+        })
+
+        return { success: true, messageId }
+      } catch (error) {
+        console.error('SMTP send error:', error)
+        // 5xx replies are permanent rejections; anything else is transient
+        return { success: false, error: error.message, retryable: !/^5\d\d/.test(error.message) }
+      } finally {
+        await client.close()
+      }
+    },
+  }
+}
+
+interface TwilioConfig {
+  accountSid?: string
+  authToken?: string
+  defaultFrom?: string
+  statusCallbackUrl?: string
+}
+
+export function createTwilioProvider(config: TwilioConfig): SMSProvider {
+  return {
+    name: 'twilio',
+    async sendSMS(sms) {
+      try {
+        const from = sms.from || config.defaultFrom
+        if (!config.accountSid || !config.authToken || !from) {
+          return { success: false, error: 'Twilio credentials not configured' }
+        }
+
+        const auth = btoa(`${config.accountSid}:${config.authToken}`)
+
+        const params = new URLSearchParams({
+          From: from,
+          To: formatPhoneNumber(sms.to),
+          Body: sms.body,
+        })
+
+        // Delivery status updates are posted back to the app's webhook
+        if (config.statusCallbackUrl) {
+          params.set('StatusCallback', config.statusCallbackUrl)
+        }
+
+        const response = await fetch(
+          `https://api.twilio.com/2010-04-01/Accounts/${config.accountSid}/Messages.json`,
+          {
+            method: 'POST',
+            headers: {
+              'Authorization': `Basic ${auth}`,
+              'Content-Type': 'application/x-www-form-urlencoded',
+            },
+            body: params,
+          }
+        )
+
+        const data = await response.json()
+
+        if (!response.ok) {
+          return {
+            success: false,
+            error: data.message || 'Failed to send SMS',
+            retryable: isRetryableStatus(response.status),
+          }
+        }
+
+        return { success: true, messageId: data.sid }
+      } catch (error) {
+        console.error('SMS send error:', error)
+        return { success: false, error: error.message, retryable: true }
+      }
+    },
+  }
+}
+
+// Writes messages to the message_outbox table instead of sending them, so the
+// whole flow runs without network access or provider accounts
+export function createSandboxProvider(supabase: any, adminId: string): EmailProvider & SMSProvider {
+  const record = async (row: Record<string, unknown>): Promise<SendResult> => {
+    const { data, error } = await supabase
+      .from('message_outbox')
+      .insert({ admin_id: adminId, ...row })
+      .select('id')
+      .single()
+
+    if (error) {
+      console.error('Sandbox outbox error:', error)
+      return { success: false, error: error.message, retryable: true }
+    }
+
+    return { success: true, messageId: `sandbox_${data.id}` }
+  }
+
+  return {
+    name: 'sandbox',
+    sendEmail: (email) => record({
+      channel: 'email',
+      recipient: email.to,
+      from_address: formatFrom(email),
+      reply_to: email.replyTo || null,
+      subject: email.subject,
+      html_content: email.html,
+      text_content: email.text,
+      headers: email.headers || {},
+    }),
+    sendSMS: (sms) => record({
+      channel: 'sms',
+      recipient: formatPhoneNumber(sms.to),
+      from_address: sms.from || Deno.env.get('TWILIO_PHONE_NUMBER') || null,
+      text_content: sms.body,
+    }),
+  }
+}
+
+// Build a provider by name. Queued jobs record the provider they were
+// rendered for, so workers rebuild exactly that one.
+export function createEmailProvider(name: EmailProviderName, supabase: any, adminId: string): EmailProvider {
+  switch (name) {
+    case 'sandbox':
+      return createSandboxProvider(supabase, adminId)
+    case 'smtp':
+      return createSmtpProvider({
+        host: Deno.env.get('SMTP_HOST'),
+        port: Number(Deno.env.get('SMTP_PORT') || 465),
+        username: Deno.env.get('SMTP_USERNAME'),
+        password: Deno.env.get('SMTP_PASSWORD'),
+      })
+    default:
+      return createResendProvider(Deno.env.get('RESEND_API_KEY'))
+  }
+}
+
+export function createSMSProvider(name: SMSProviderName, supabase: any, adminId: string): SMSProvider {
+  if (name === 'sandbox') {
+    return createSandboxProvider(supabase, adminId)
+  }
+
+  const appUrl = Deno.env.get('APP_URL')
+  return createTwilioProvider({
+    accountSid: Deno.env.get('TWILIO_ACCOUNT_SID'),
+    authToken: Deno.env.get('TWILIO_AUTH_TOKEN'),
+    defaultFrom: Deno.env.get('TWILIO_PHONE_NUMBER'),
+    statusCallbackUrl: appUrl ? `${appUrl.replace(/\/$/, '')}/api/webhooks/twilio/status` : undefined,
+  })
+}
+
+// Pick the admin's providers. MESSAGING_SANDBOX=true forces the sandbox for
+// everyone, e.g. for local development.
+export async function resolveMessagingProviders(supabase: any, adminId: string): Promise<MessagingProviders> {
+  const { data, error } = await supabase
+    .from('admin_messaging_settings')
+    .select('email_provider, sms_provider, from_email, from_name, reply_to_email, sms_from_number')
+    .eq('admin_id', adminId)
+    .maybeSingle()
+
+  if (error) throw error
+
+  const forceSandbox = Deno.env.get('MESSAGING_SANDBOX') === 'true'
+  const settings: MessagingSettings = {
+    email_provider: forceSandbox ? 'sandbox' : data?.email_provider || 'resend',
+    sms_provider: forceSandbox ? 'sandbox' : data?.sms_provider || 'twilio',
+    from_email: data?.from_email || Deno.env.get('EMAIL_FROM_ADDRESS') || DEFAULT_FROM_EMAIL,
+    from_name: data?.from_name || null,
+    reply_to_email: data?.reply_to_email || null,
+    sms_from_number: data?.sms_from_number || null,
+  }
+
+  return {
+    email: createEmailProvider(settings.email_provider, supabase, adminId),
+    sms: createSMSProvider(settings.sms_provider, supabase, adminId),
+    settings,
+  }
+}
@@ -0,0 +1,226 @@
+// Durable send queue. enqueueMessage claims a message and stores the
+// rendered payload as a follow_up_jobs row; processQueue is the worker that
+// sends due jobs through their provider. See database-follow-up-queue.sql.
+
+import {
+  createEmailProvider,
+  createSMSProvider,
+  type EmailProviderName,
+  type OutgoingEmail,
+  type OutgoingSMS,
+  type SendResult,
+  type SMSProviderName,
+} from './providers.ts'
+
+interface FollowUpJob {
+  id: string
+  admin_id: string
+  channel: 'email' | 'sms'
+  provider: string
+  payload: OutgoingEmail | OutgoingSMS
+  attempts: number
+  max_attempts: number
+}
+
+export interface EnqueueMessage {
+  // Pre-chosen log id, for messages whose content refers to their own log
+  logId?: string
+  batchId: string
+  visitorId: string
+  campaignId: string
+  propertyId: string | null
+  adminId: string
+  channel: 'email' | 'sms'
+  recipientEmail: string | null
+  recipientPhone: string | null
+  subject: string | null
+  messageContent: string
+  stepOrder: number | null
+  // Messages are claimed per step id; step_order is only for display
+  stepId: string | null
+  provider: string
+  payload: OutgoingEmail | OutgoingSMS
+}
+
+export interface QueueRunResult {
+  sent: number
+  retried: number
+  dead: number
+  cancelled: number
+}
+
+const PROVIDERS = ['resend', 'smtp', 'twilio', 'sandbox'] as const
+
+// Sends per minute, across all workers. Override with e.g.
+// RATE_LIMIT_RESEND_PER_MINUTE=300 to match your provider plan.
+const DEFAULT_RATE_LIMITS: Record<typeof PROVIDERS[number], number> = {
+  resend: 120,
+  smtp: 60,
+  twilio: 60,
+  sandbox: 6000,
+}
+
+const CLAIM_BATCH_SIZE = 10
+const RETRY_BASE_DELAY_MS = 60 * 1000
+const RETRY_MAX_DELAY_MS = 60 * 60 * 1000
+
+export function getRateLimit(provider: typeof PROVIDERS[number]): number {
+  const override = Number(Deno.env.get(`RATE_LIMIT_${provider.toUpperCase()}_PER_MINUTE`))
+  return override > 0 ? override : DEFAULT_RATE_LIMITS[provider]
+}
+
+// 1, 2, 4, 8... minutes after each failed attempt, capped at an hour
+export function getRetryDelayMs(attempt: number): number {
+  return Math.min(RETRY_BASE_DELAY_MS * 2 ** Math.max(attempt - 1, 0), RETRY_MAX_DELAY_MS)
+}
+
+const sleep = (ms: number) => new Promise(resolve => setTimeout(resolve, ms))
+
+// Returns the new log id, or null when the message was already claimed
+export async function enqueueMessage(supabase: any, message: EnqueueMessage): Promise<string | null> {
+  const { data, error } = await supabase
+    .rpc('enqueue_follow_up_message', {
+      log_id_param: message.logId ?? null,
+      batch_id_param: message.batchId,
+      visitor_id_param: message.visitorId,
+      campaign_id_param: message.campaignId,
+      property_id_param: message.propertyId,
+      admin_id_param: message.adminId,
+      channel_param: message.channel,
+      recipient_email_param: message.recipientEmail,
+      recipient_phone_param: message.recipientPhone,
+      subject_param: message.subject,
+      message_content_param: message.messageContent,
+      step_order_param: message.stepOrder,
+      step_id_param: message.stepId,
+      provider_param: message.provider,
+      payload_param: message.payload,
+    })
+
+  if (error) throw error
+  return data
+}
+
+async function sendJob(supabase: any, job: FollowUpJob): Promise<SendResult> {
+  if (job.channel === 'email') {
+    const provider = createEmailProvider(job.provider as EmailProviderName, supabase, job.admin_id)
+    return provider.sendEmail(job.payload as OutgoingEmail)
+  }
+
+  const provider = createSMSProvider(job.provider as SMSProviderName, supabase, job.admin_id)
+  return provider.sendSMS(job.payload as OutgoingSMS)
+}
+
+// The recipient may have opted out while the job waited in the queue
+async function isRecipientUnsubscribed(supabase: any, job: FollowUpJob): Promise<boolean> {
+  const { data, error } = await supabase
+    .rpc('is_unsubscribed', {
+      email_param: job.channel === 'email' ? job.payload.to : null,
+      phone_param: job.channel === 'sms' ? job.payload.to : null,
+      channel_param: job.channel,
+    })
+
+  if (error) throw error
+  return data === true
+}
+
+async function completeJob(
+  supabase: any,
+  jobId: string,
+  status: 'sent' | 'queued' | 'dead' | 'cancelled',
+  externalId: string | null,
+  errorMessage: string | null,
+  nextAttemptAt: Date | null = null
+) {
+  const { error } = await supabase
+    .rpc('complete_follow_up_job', {
+      job_id_param: jobId,
+      status_param: status,
+      external_id_param: externalId,
+      error_param: errorMessage,
+      next_attempt_param: nextAttemptAt?.toISOString() ?? null,
+    })
+
+  if (error) {
+    console.error('Failed to complete follow-up job:', error)
+  }
+}
+
+async function processJob(supabase: any, job: FollowUpJob, results: QueueRunResult) {
+  let result: SendResult
+  try {
+    if (await isRecipientUnsubscribed(supabase, job)) {
+      await completeJob(supabase, job.id, 'cancelled', null, 'Recipient unsubscribed before sending')
+      results.cancelled++
+      return
+    }
+
+    result = await sendJob(supabase, job)
+  } catch (error) {
+    result = { success: false, error: error.message, retryable: true }
+  }
+
+  if (result.success) {
+    await completeJob(supabase, job.id, 'sent', result.messageId || null, null)
+    results.sent++
+  } else if (result.retryable && job.attempts < job.max_attempts) {
+    const nextAttemptAt = new Date(Date.now() + getRetryDelayMs(job.attempts))
+    await completeJob(supabase, job.id, 'queued', null, result.error || null, nextAttemptAt)
+    results.retried++
+  } else {
+    await completeJob(supabase, job.id, 'dead', null, result.error || 'Failed to send')
+    results.dead++
+  }
+}
+
+// Work through due jobs until none are left or the time budget runs out.
+// Sends are spaced out to each provider's rate limit; when every provider
+// is at its limit the worker waits for the window to move on.
+export async function processQueue(supabase: any, budgetMs = 50 * 1000): Promise<QueueRunResult> {
+  const deadline = Date.now() + budgetMs
+  const results: QueueRunResult = { sent: 0, retried: 0, dead: 0, cancelled: 0 }
+  const lastSendAt: Record<string, number> = {}
+
+  while (Date.now() < deadline) {
+    let claimed = 0
+
+    for (const provider of PROVIDERS) {
+      const perMinute = getRateLimit(provider)
+      const { data: jobs, error } = await supabase
+        .rpc('claim_follow_up_jobs', {
+          provider_param: provider,
+          per_minute_param: perMinute,
+          limit_param: CLAIM_BATCH_SIZE,
+        })
+
+      if (error) {
+        console.error(`Failed to claim ${provider} jobs:`, error)
+        continue
+      }
+
+      for (const job of (jobs || []) as FollowUpJob[]) {
+        const wait = (lastSendAt[provider] || 0) + 60000 / perMinute - Date.now()
+        if (wait > 0) await sleep(wait)
+        lastSendAt[provider] = Date.now()
+
+        await processJob(supabase, job, results)
+        claimed++
+      }
+    }
+
+    if (claimed > 0) continue
+
+    // Nothing claimable: either the queue is drained or every provider is
+    // rate limited. Only keep waiting in the second case.
+    const { count, error } = await supabase
+      .from('follow_up_jobs')
+      .select('id', { count: 'exact', head: true })
+      .eq('status', 'queued')
+      .lte('next_attempt_at', new Date().toISOString())
+
+    if (error || !count) break
+    await sleep(5000)
+  }
+
+  return results
+}
@@ -0,0 +1,17 @@
+import { fileURLToPath } from 'url'
+import { defineConfig } from 'vitest/config'
+
+// Unit tests for the pure logic in src/lib and the Edge Functions' shared
+// code. Nothing here talks to Supabase or a provider.
+export default defineConfig({
+  resolve: {
+    alias: {
+      '@': fileURLToPath(new URL('./src', import.meta.url)),
+      '@shared': fileURLToPath(new URL('./supabase/functions/_shared', import.meta.url)),
+    },
+  },
+  test: {
+    environment: 'node',
+    include: ['src/**/*.test.ts', 'supabase/functions/**/*.test.ts'],
+  },
+})